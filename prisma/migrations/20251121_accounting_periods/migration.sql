@@ -0,0 +1,77 @@
+-- CreateEnum
+CREATE TYPE "AccountingPeriodStatus" AS ENUM ('OPEN', 'SOFT_CLOSED', 'LOCKED');
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "issueDate" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Backfill issue dates from creation time
+UPDATE "invoices" SET "issueDate" = "createdAt";
+
+-- CreateTable "accounting_periods"
+CREATE TABLE "accounting_periods" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "fiscalYear" INTEGER NOT NULL,
+    "periodNumber" INTEGER NOT NULL,
+    "name" VARCHAR(20) NOT NULL,
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "endDate" TIMESTAMP(3) NOT NULL,
+    "status" "AccountingPeriodStatus" NOT NULL DEFAULT 'OPEN',
+    "closedAt" TIMESTAMP(3),
+    "closedBy" TEXT,
+    "lockedAt" TIMESTAMP(3),
+    "lockedBy" TEXT,
+    "reopenRequestedAt" TIMESTAMP(3),
+    "reopenRequestedBy" TEXT,
+    "reopenReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "accounting_periods_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable "fiscal_year_closes"
+CREATE TABLE "fiscal_year_closes" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "fiscalYear" INTEGER NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'IN_PROGRESS',
+    "checklist" JSONB NOT NULL,
+    "netIncomeCents" INTEGER NOT NULL DEFAULT 0,
+    "closingEntryId" TEXT,
+    "closedAt" TIMESTAMP(3),
+    "closedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fiscal_year_closes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "accounting_periods_entityId_fiscalYear_periodNumber_key" ON "accounting_periods"("entityId", "fiscalYear", "periodNumber");
+
+-- CreateIndex
+CREATE INDEX "accounting_periods_entityId_startDate_endDate_idx" ON "accounting_periods"("entityId", "startDate", "endDate");
+
+-- CreateIndex
+CREATE INDEX "accounting_periods_tenantId_status_idx" ON "accounting_periods"("tenantId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fiscal_year_closes_entityId_fiscalYear_key" ON "fiscal_year_closes"("entityId", "fiscalYear");
+
+-- CreateIndex
+CREATE INDEX "fiscal_year_closes_tenantId_idx" ON "fiscal_year_closes"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "accounting_periods" ADD CONSTRAINT "accounting_periods_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fiscal_year_closes" ADD CONSTRAINT "fiscal_year_closes_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fiscal_year_closes" ADD CONSTRAINT "fiscal_year_closes_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
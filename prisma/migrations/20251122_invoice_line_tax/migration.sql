@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "TaxCategory" AS ENUM ('STANDARD', 'ZERO_RATED', 'EXEMPT', 'OUT_OF_SCOPE', 'REVERSE_CHARGE');
+
+-- AlterTable
+ALTER TABLE "tax_codes" ADD COLUMN "taxCategory" "TaxCategory" NOT NULL DEFAULT 'STANDARD';
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "subtotalCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "discountCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "taxCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "taxBreakdown" JSONB;
+
+-- AlterTable
+ALTER TABLE "invoice_items" ADD COLUMN "discountCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "taxInclusive" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "taxCodeId" TEXT,
+ADD COLUMN "taxCategory" "TaxCategory" NOT NULL DEFAULT 'OUT_OF_SCOPE',
+ADD COLUMN "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN "netCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "taxCents" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: existing invoices carried no tax, so net equals the stored total
+UPDATE "invoice_items" SET "netCents" = "totalCents";
+UPDATE "invoices" SET "subtotalCents" = "totalCents";
+
+-- CreateIndex
+CREATE INDEX "invoice_items_taxCodeId_idx" ON "invoice_items"("taxCodeId");
+
+-- AddForeignKey
+ALTER TABLE "invoice_items" ADD CONSTRAINT "invoice_items_taxCodeId_fkey" FOREIGN KEY ("taxCodeId") REFERENCES "tax_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,87 @@
+-- AlterEnum
+ALTER TYPE "InvoiceStatus" ADD VALUE 'PARTIALLY_PAID';
+ALTER TYPE "InvoiceStatus" ADD VALUE 'OVERDUE';
+
+-- CreateEnum
+CREATE TYPE "InvoiceDocumentType" AS ENUM ('INVOICE', 'CREDIT_NOTE', 'DEBIT_NOTE');
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "documentType" "InvoiceDocumentType" NOT NULL DEFAULT 'INVOICE',
+ADD COLUMN "originalInvoiceId" TEXT,
+ADD COLUMN "adjustmentReason" TEXT,
+ADD COLUMN "dueDate" TIMESTAMP(3),
+ADD COLUMN "paidCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "creditedCents" INTEGER NOT NULL DEFAULT 0;
+
+-- Backfill: invoices already marked paid were settled in full
+UPDATE "invoices" SET "paidCents" = "totalCents" WHERE "status" = 'PAID';
+
+-- CreateTable "payments"
+CREATE TABLE "payments" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT,
+    "clientId" TEXT,
+    "amountCents" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+    "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "method" VARCHAR(30),
+    "reference" VARCHAR(255),
+    "allocatedCents" INTEGER NOT NULL DEFAULT 0,
+    "metadata" JSONB,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable "payment_allocations"
+CREATE TABLE "payment_allocations" (
+    "id" TEXT NOT NULL,
+    "paymentId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_allocations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "invoices_originalInvoiceId_idx" ON "invoices"("originalInvoiceId");
+
+-- CreateIndex
+CREATE INDEX "invoices_tenantId_status_idx" ON "invoices"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "payments_tenantId_receivedAt_idx" ON "payments"("tenantId", "receivedAt");
+
+-- CreateIndex
+CREATE INDEX "payments_clientId_idx" ON "payments"("clientId");
+
+-- CreateIndex
+CREATE INDEX "payments_entityId_idx" ON "payments"("entityId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_allocations_paymentId_invoiceId_key" ON "payment_allocations"("paymentId", "invoiceId");
+
+-- CreateIndex
+CREATE INDEX "payment_allocations_invoiceId_idx" ON "payment_allocations"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_originalInvoiceId_fkey" FOREIGN KEY ("originalInvoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payments" ADD CONSTRAINT "payments_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_paymentId_fkey" FOREIGN KEY ("paymentId") REFERENCES "payments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_allocations" ADD CONSTRAINT "payment_allocations_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
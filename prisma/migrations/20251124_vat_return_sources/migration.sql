@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "placeOfSupply" VARCHAR(10);
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "taxCodeId" TEXT,
+ADD COLUMN "taxCategory" "TaxCategory" NOT NULL DEFAULT 'OUT_OF_SCOPE',
+ADD COLUMN "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+ADD COLUMN "taxCents" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "isImport" BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE "tax_filings" ADD COLUMN "filingPeriodId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "expenses_taxCodeId_idx" ON "expenses"("taxCodeId");
+
+-- CreateIndex
+CREATE INDEX "tax_filings_filingPeriodId_idx" ON "tax_filings"("filingPeriodId");
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_taxCodeId_fkey" FOREIGN KEY ("taxCodeId") REFERENCES "tax_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tax_filings" ADD CONSTRAINT "tax_filings_filingPeriodId_fkey" FOREIGN KEY ("filingPeriodId") REFERENCES "filing_periods"("id") ON DELETE SET NULL ON UPDATE CASCADE;
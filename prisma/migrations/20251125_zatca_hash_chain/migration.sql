@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "zatca_devices" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "egsSerialNumber" VARCHAR(100) NOT NULL,
+    "environment" VARCHAR(20) NOT NULL DEFAULT 'sandbox',
+    "certificate" TEXT NOT NULL,
+    "privateKey" TEXT NOT NULL,
+    "certificateSecret" TEXT,
+    "lastIcv" INTEGER NOT NULL DEFAULT 0,
+    "lastInvoiceHash" TEXT NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "zatca_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "zatca_hash_chain" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "deviceId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "icv" INTEGER NOT NULL,
+    "uuid" TEXT NOT NULL,
+    "invoiceHash" TEXT NOT NULL,
+    "previousHash" TEXT NOT NULL,
+    "xml" TEXT NOT NULL,
+    "qrCode" TEXT NOT NULL,
+    "signedAt" TIMESTAMP(3) NOT NULL,
+    "reportingStatus" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    "clearedXml" TEXT,
+    "response" JSONB,
+    "submittedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "zatca_hash_chain_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "zatca_devices_entityId_egsSerialNumber_key" ON "zatca_devices"("entityId", "egsSerialNumber");
+
+-- CreateIndex
+CREATE INDEX "zatca_devices_tenantId_idx" ON "zatca_devices"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "zatca_hash_chain_deviceId_icv_key" ON "zatca_hash_chain"("deviceId", "icv");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "zatca_hash_chain_deviceId_invoiceId_key" ON "zatca_hash_chain"("deviceId", "invoiceId");
+
+-- CreateIndex
+CREATE INDEX "zatca_hash_chain_tenantId_reportingStatus_idx" ON "zatca_hash_chain"("tenantId", "reportingStatus");
+
+-- CreateIndex
+CREATE INDEX "zatca_hash_chain_invoiceId_idx" ON "zatca_hash_chain"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "zatca_devices" ADD CONSTRAINT "zatca_devices_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "zatca_devices" ADD CONSTRAINT "zatca_devices_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "zatca_hash_chain" ADD CONSTRAINT "zatca_hash_chain_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "zatca_devices"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "zatca_hash_chain" ADD CONSTRAINT "zatca_hash_chain_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,100 @@
+-- AlterTable
+ALTER TABLE "invoice_items" ADD COLUMN "itemCode" VARCHAR(100);
+
+-- CreateTable
+CREATE TABLE "eta_item_codes" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "internalCode" VARCHAR(100) NOT NULL,
+    "codeType" VARCHAR(3) NOT NULL DEFAULT 'EGS',
+    "itemCode" VARCHAR(100) NOT NULL,
+    "unitType" VARCHAR(10) NOT NULL DEFAULT 'EA',
+    "description" TEXT,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "eta_item_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "eta_pos_devices" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "serialNumber" VARCHAR(100) NOT NULL,
+    "osVersion" VARCHAR(50) NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "clientSecret" TEXT NOT NULL,
+    "presharedKey" TEXT,
+    "lastReceiptUuid" TEXT,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "eta_pos_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "eta_documents" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "posDeviceId" TEXT,
+    "kind" VARCHAR(10) NOT NULL DEFAULT 'INVOICE',
+    "uuid" TEXT,
+    "longId" TEXT,
+    "submissionId" TEXT,
+    "previousUuid" TEXT,
+    "document" JSONB NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'SUBMITTED',
+    "response" JSONB,
+    "signedAt" TIMESTAMP(3),
+    "submittedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "eta_documents_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "eta_item_codes_entityId_internalCode_key" ON "eta_item_codes"("entityId", "internalCode");
+
+-- CreateIndex
+CREATE INDEX "eta_item_codes_tenantId_idx" ON "eta_item_codes"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "eta_pos_devices_entityId_serialNumber_key" ON "eta_pos_devices"("entityId", "serialNumber");
+
+-- CreateIndex
+CREATE INDEX "eta_pos_devices_tenantId_idx" ON "eta_pos_devices"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "eta_documents_tenantId_status_idx" ON "eta_documents"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "eta_documents_invoiceId_idx" ON "eta_documents"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "eta_documents_uuid_idx" ON "eta_documents"("uuid");
+
+-- AddForeignKey
+ALTER TABLE "eta_item_codes" ADD CONSTRAINT "eta_item_codes_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "eta_item_codes" ADD CONSTRAINT "eta_item_codes_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "eta_pos_devices" ADD CONSTRAINT "eta_pos_devices_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "eta_pos_devices" ADD CONSTRAINT "eta_pos_devices_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "eta_documents" ADD CONSTRAINT "eta_documents_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "eta_documents" ADD CONSTRAINT "eta_documents_posDeviceId_fkey" FOREIGN KEY ("posDeviceId") REFERENCES "eta_pos_devices"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- CreateTable
+CREATE TABLE "einvoice_submissions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "standard" VARCHAR(10) NOT NULL,
+    "deviceId" TEXT,
+    "options" JSONB,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'DRAFT',
+    "uuid" TEXT,
+    "invoiceHash" TEXT,
+    "reference" TEXT,
+    "zatcaChainEntryId" TEXT,
+    "etaDocumentId" TEXT,
+    "warnings" JSONB,
+    "errors" JSONB,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "nextAttemptAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "acceptedAt" TIMESTAMP(3),
+    "rejectedAt" TIMESTAMP(3),
+    "resolvedByInvoiceId" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "einvoice_submissions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "einvoice_submissions_tenantId_status_idx" ON "einvoice_submissions"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "einvoice_submissions_invoiceId_idx" ON "einvoice_submissions"("invoiceId");
+
+-- CreateIndex
+CREATE INDEX "einvoice_submissions_status_nextAttemptAt_idx" ON "einvoice_submissions"("status", "nextAttemptAt");
+
+-- AddForeignKey
+ALTER TABLE "einvoice_submissions" ADD CONSTRAINT "einvoice_submissions_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "einvoice_submissions" ADD CONSTRAINT "einvoice_submissions_resolvedByInvoiceId_fkey" FOREIGN KEY ("resolvedByInvoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "einvoice_submissions" ADD CONSTRAINT "einvoice_submissions_zatcaChainEntryId_fkey" FOREIGN KEY ("zatcaChainEntryId") REFERENCES "zatca_hash_chain"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "einvoice_submissions" ADD CONSTRAINT "einvoice_submissions_etaDocumentId_fkey" FOREIGN KEY ("etaDocumentId") REFERENCES "eta_documents"("id") ON DELETE SET NULL ON UPDATE CASCADE;
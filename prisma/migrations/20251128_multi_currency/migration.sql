@@ -0,0 +1,27 @@
+-- AlterTable
+ALTER TABLE "entities" ADD COLUMN "functionalCurrency" VARCHAR(3);
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "functionalCurrency" VARCHAR(3),
+ADD COLUMN "exchangeRate" DECIMAL(18,8),
+ADD COLUMN "functionalTotalCents" INTEGER,
+ADD COLUMN "functionalTaxCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "functionalCurrency" VARCHAR(3),
+ADD COLUMN "exchangeRate" DECIMAL(18,8),
+ADD COLUMN "functionalAmountCents" INTEGER,
+ADD COLUMN "functionalTaxCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "payments" ADD COLUMN "functionalCurrency" VARCHAR(3),
+ADD COLUMN "exchangeRate" DECIMAL(18,8),
+ADD COLUMN "functionalAmountCents" INTEGER;
+
+-- AlterTable
+ALTER TABLE "banking_transactions" ADD COLUMN "functionalCurrency" VARCHAR(3),
+ADD COLUMN "exchangeRate" DECIMAL(18,8),
+ADD COLUMN "functionalAmountCents" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "ExchangeRate_base_target_fetchedAt_idx" ON "ExchangeRate"("base", "target", "fetchedAt");
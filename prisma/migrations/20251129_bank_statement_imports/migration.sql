@@ -0,0 +1,49 @@
+-- CreateTable
+CREATE TABLE "bank_statement_imports" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "format" VARCHAR(10) NOT NULL,
+    "fileName" TEXT,
+    "statementId" TEXT,
+    "accountNumber" TEXT,
+    "currency" VARCHAR(3),
+    "openingBalance" DECIMAL(19,4),
+    "closingBalance" DECIMAL(19,4),
+    "periodStart" TIMESTAMP(3),
+    "periodEnd" TIMESTAMP(3),
+    "importedCount" INTEGER NOT NULL DEFAULT 0,
+    "duplicateCount" INTEGER NOT NULL DEFAULT 0,
+    "failedCount" INTEGER NOT NULL DEFAULT 0,
+    "warnings" JSONB,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bank_statement_imports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_csv_profiles" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "bankName" VARCHAR(100),
+    "mapping" JSONB NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_csv_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bank_statement_imports_tenantId_idx" ON "bank_statement_imports"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "bank_statement_imports_connectionId_createdAt_idx" ON "bank_statement_imports"("connectionId", "createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bank_csv_profiles_tenantId_name_key" ON "bank_csv_profiles"("tenantId", "name");
+
+-- AddForeignKey
+ALTER TABLE "bank_statement_imports" ADD CONSTRAINT "bank_statement_imports_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "banking_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,93 @@
+-- AlterTable
+ALTER TABLE "banking_connections" ADD COLUMN "ledgerAccountId" TEXT;
+
+-- AlterTable
+ALTER TABLE "banking_transactions" ADD COLUMN "reconciliationMatchId" TEXT;
+
+-- CreateTable
+CREATE TABLE "bank_reconciliation_matches" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "connectionId" TEXT NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'MATCHED',
+    "method" VARCHAR(20) NOT NULL,
+    "ruleId" TEXT,
+    "direction" VARCHAR(10) NOT NULL,
+    "bankAmountCents" INTEGER NOT NULL,
+    "fxDifferenceCents" INTEGER NOT NULL DEFAULT 0,
+    "paymentId" TEXT,
+    "journalEntryId" TEXT,
+    "note" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "unmatchedBy" TEXT,
+    "unmatchedAt" TIMESTAMP(3),
+    "unmatchReason" TEXT,
+
+    CONSTRAINT "bank_reconciliation_matches_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_reconciliation_items" (
+    "id" TEXT NOT NULL,
+    "matchId" TEXT NOT NULL,
+    "itemType" VARCHAR(20) NOT NULL,
+    "itemId" TEXT,
+    "amountCents" INTEGER NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "functionalAmountCents" INTEGER,
+    "description" TEXT,
+    "metadata" JSONB,
+
+    CONSTRAINT "bank_reconciliation_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bank_rules" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "connectionId" TEXT,
+    "name" VARCHAR(100) NOT NULL,
+    "priority" INTEGER NOT NULL DEFAULT 100,
+    "direction" VARCHAR(10),
+    "descriptionContains" VARCHAR(255),
+    "referenceContains" VARCHAR(255),
+    "minAmountCents" INTEGER,
+    "maxAmountCents" INTEGER,
+    "ledgerAccountId" TEXT NOT NULL,
+    "memo" TEXT,
+    "autoApply" BOOLEAN NOT NULL DEFAULT false,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bank_rules_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "banking_transactions_reconciliationMatchId_idx" ON "banking_transactions"("reconciliationMatchId");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliation_matches_tenantId_idx" ON "bank_reconciliation_matches"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliation_matches_connectionId_status_idx" ON "bank_reconciliation_matches"("connectionId", "status");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliation_items_matchId_idx" ON "bank_reconciliation_items"("matchId");
+
+-- CreateIndex
+CREATE INDEX "bank_reconciliation_items_itemType_itemId_idx" ON "bank_reconciliation_items"("itemType", "itemId");
+
+-- CreateIndex
+CREATE INDEX "bank_rules_tenantId_isActive_idx" ON "bank_rules"("tenantId", "isActive");
+
+-- AddForeignKey
+ALTER TABLE "bank_reconciliation_matches" ADD CONSTRAINT "bank_reconciliation_matches_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "banking_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_reconciliation_items" ADD CONSTRAINT "bank_reconciliation_items_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "bank_reconciliation_matches"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bank_rules" ADD CONSTRAINT "bank_rules_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "banking_connections"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,184 @@
+-- AlterTable
+ALTER TABLE "parties" ADD COLUMN "bankAccountName" VARCHAR(140),
+ADD COLUMN "iban" VARCHAR(34),
+ADD COLUMN "bic" VARCHAR(11);
+
+-- CreateTable
+CREATE TABLE "bills" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT,
+    "vendorId" TEXT NOT NULL,
+    "billNumber" VARCHAR(100) NOT NULL,
+    "reference" VARCHAR(255),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'DRAFT',
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+    "subtotalCents" INTEGER NOT NULL DEFAULT 0,
+    "discountCents" INTEGER NOT NULL DEFAULT 0,
+    "taxCents" INTEGER NOT NULL DEFAULT 0,
+    "totalCents" INTEGER NOT NULL DEFAULT 0,
+    "taxBreakdown" JSONB,
+    "issueDate" TIMESTAMP(3) NOT NULL,
+    "dueDate" TIMESTAMP(3) NOT NULL,
+    "paidCents" INTEGER NOT NULL DEFAULT 0,
+    "paidAt" TIMESTAMP(3),
+    "isImport" BOOLEAN NOT NULL DEFAULT false,
+    "functionalCurrency" VARCHAR(3),
+    "exchangeRate" DECIMAL(18,8),
+    "functionalTotalCents" INTEGER,
+    "functionalTaxCents" INTEGER,
+    "attachmentId" TEXT,
+    "ocrData" JSONB,
+    "notes" TEXT,
+    "submittedAt" TIMESTAMP(3),
+    "approvedAt" TIMESTAMP(3),
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bills_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bill_lines" (
+    "id" TEXT NOT NULL,
+    "billId" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL DEFAULT 1,
+    "unitPriceCents" INTEGER NOT NULL DEFAULT 0,
+    "discountCents" INTEGER NOT NULL DEFAULT 0,
+    "taxInclusive" BOOLEAN NOT NULL DEFAULT false,
+    "taxCodeId" TEXT,
+    "taxCategory" "TaxCategory" NOT NULL DEFAULT 'OUT_OF_SCOPE',
+    "taxRate" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "netCents" INTEGER NOT NULL DEFAULT 0,
+    "taxCents" INTEGER NOT NULL DEFAULT 0,
+    "totalCents" INTEGER NOT NULL DEFAULT 0,
+    "category" VARCHAR(60),
+    "ledgerAccountId" TEXT,
+
+    CONSTRAINT "bill_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bill_approvals" (
+    "id" TEXT NOT NULL,
+    "billId" TEXT NOT NULL,
+    "approver" VARCHAR(100) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    "decidedBy" TEXT,
+    "comment" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bill_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_runs" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT,
+    "connectionId" TEXT,
+    "reference" VARCHAR(35) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'SCHEDULED',
+    "currency" VARCHAR(3) NOT NULL,
+    "paymentDate" TIMESTAMP(3) NOT NULL,
+    "totalCents" INTEGER NOT NULL DEFAULT 0,
+    "fileFormat" VARCHAR(20),
+    "exportedAt" TIMESTAMP(3),
+    "exportedBy" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_run_items" (
+    "id" TEXT NOT NULL,
+    "runId" TEXT NOT NULL,
+    "billId" TEXT NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+
+    CONSTRAINT "payment_run_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "bills_tenantId_vendorId_billNumber_key" ON "bills"("tenantId", "vendorId", "billNumber");
+
+-- CreateIndex
+CREATE INDEX "bills_tenantId_status_idx" ON "bills"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "bills_tenantId_dueDate_idx" ON "bills"("tenantId", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "bills_entityId_idx" ON "bills"("entityId");
+
+-- CreateIndex
+CREATE INDEX "bills_vendorId_idx" ON "bills"("vendorId");
+
+-- CreateIndex
+CREATE INDEX "bill_lines_billId_idx" ON "bill_lines"("billId");
+
+-- CreateIndex
+CREATE INDEX "bill_lines_taxCodeId_idx" ON "bill_lines"("taxCodeId");
+
+-- CreateIndex
+CREATE INDEX "bill_approvals_billId_status_idx" ON "bill_approvals"("billId", "status");
+
+-- CreateIndex
+CREATE INDEX "bill_approvals_approver_status_idx" ON "bill_approvals"("approver", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_runs_tenantId_reference_key" ON "payment_runs"("tenantId", "reference");
+
+-- CreateIndex
+CREATE INDEX "payment_runs_tenantId_status_idx" ON "payment_runs"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "payment_runs_tenantId_paymentDate_idx" ON "payment_runs"("tenantId", "paymentDate");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_run_items_runId_billId_key" ON "payment_run_items"("runId", "billId");
+
+-- CreateIndex
+CREATE INDEX "payment_run_items_billId_idx" ON "payment_run_items"("billId");
+
+-- AddForeignKey
+ALTER TABLE "bills" ADD CONSTRAINT "bills_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bills" ADD CONSTRAINT "bills_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bills" ADD CONSTRAINT "bills_vendorId_fkey" FOREIGN KEY ("vendorId") REFERENCES "parties"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bills" ADD CONSTRAINT "bills_attachmentId_fkey" FOREIGN KEY ("attachmentId") REFERENCES "Attachment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_lines" ADD CONSTRAINT "bill_lines_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_lines" ADD CONSTRAINT "bill_lines_taxCodeId_fkey" FOREIGN KEY ("taxCodeId") REFERENCES "tax_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bill_approvals" ADD CONSTRAINT "bill_approvals_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_runs" ADD CONSTRAINT "payment_runs_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_runs" ADD CONSTRAINT "payment_runs_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_runs" ADD CONSTRAINT "payment_runs_connectionId_fkey" FOREIGN KEY ("connectionId") REFERENCES "banking_connections"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_run_items" ADD CONSTRAINT "payment_run_items_runId_fkey" FOREIGN KEY ("runId") REFERENCES "payment_runs"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_run_items" ADD CONSTRAINT "payment_run_items_billId_fkey" FOREIGN KEY ("billId") REFERENCES "bills"("id") ON DELETE CASCADE ON UPDATE CASCADE;
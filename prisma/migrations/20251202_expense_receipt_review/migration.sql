@@ -0,0 +1,37 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "notes" TEXT,
+ADD COLUMN "source" VARCHAR(20),
+ADD COLUMN "ocrConfidence" DECIMAL(4,3),
+ADD COLUMN "ocrFields" JSONB,
+ADD COLUMN "reviewStatus" VARCHAR(20),
+ADD COLUMN "reviewReasons" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "reviewedBy" TEXT,
+ADD COLUMN "reviewedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "expense_vendor_profiles" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "vendorKey" VARCHAR(255) NOT NULL,
+    "vendorName" VARCHAR(255) NOT NULL,
+    "category" VARCHAR(120),
+    "taxCodeId" TEXT,
+    "corrections" INTEGER NOT NULL DEFAULT 0,
+    "lastCorrectedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "expense_vendor_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_tenantId_reviewStatus_idx" ON "expenses"("tenantId", "reviewStatus");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expense_vendor_profiles_tenantId_vendorKey_key" ON "expense_vendor_profiles"("tenantId", "vendorKey");
+
+-- AddForeignKey
+ALTER TABLE "expense_vendor_profiles" ADD CONSTRAINT "expense_vendor_profiles_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_vendor_profiles" ADD CONSTRAINT "expense_vendor_profiles_taxCodeId_fkey" FOREIGN KEY ("taxCodeId") REFERENCES "tax_codes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,103 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "claimId" TEXT,
+ADD COLUMN "kind" VARCHAR(20) NOT NULL DEFAULT 'RECEIPT',
+ADD COLUMN "description" VARCHAR(500),
+ADD COLUMN "distanceKm" DECIMAL(10,2),
+ADD COLUMN "mileageRateCents" INTEGER,
+ADD COLUMN "perDiemCountry" VARCHAR(2),
+ADD COLUMN "perDiemDays" DECIMAL(5,1),
+ADD COLUMN "perDiemRateCents" INTEGER,
+ADD COLUMN "policyViolations" JSONB;
+
+-- CreateTable
+CREATE TABLE "expense_claims" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT,
+    "userId" TEXT NOT NULL,
+    "reference" VARCHAR(40) NOT NULL,
+    "title" VARCHAR(255) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'DRAFT',
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+    "totalCents" INTEGER NOT NULL DEFAULT 0,
+    "violationCount" INTEGER NOT NULL DEFAULT 0,
+    "submittedAt" TIMESTAMP(3),
+    "approvedAt" TIMESTAMP(3),
+    "reimbursedAt" TIMESTAMP(3),
+    "reimbursedBy" TEXT,
+    "reimbursementReference" VARCHAR(100),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "expense_claims_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "expense_claim_approvals" (
+    "id" TEXT NOT NULL,
+    "claimId" TEXT NOT NULL,
+    "level" VARCHAR(20) NOT NULL,
+    "approver" VARCHAR(100) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    "decidedBy" TEXT,
+    "comment" TEXT,
+    "decidedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "expense_claim_approvals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "expense_policies" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "categoryCaps" JSONB,
+    "receiptRequiredAboveCents" INTEGER NOT NULL DEFAULT 2500,
+    "mileageRateCents" INTEGER,
+    "perDiemRates" JSONB,
+    "financeApprover" VARCHAR(100) NOT NULL DEFAULT 'ADMIN',
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "expense_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "expenses_claimId_idx" ON "expenses"("claimId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expense_claims_tenantId_reference_key" ON "expense_claims"("tenantId", "reference");
+
+-- CreateIndex
+CREATE INDEX "expense_claims_tenantId_status_idx" ON "expense_claims"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "expense_claims_userId_idx" ON "expense_claims"("userId");
+
+-- CreateIndex
+CREATE INDEX "expense_claim_approvals_claimId_status_idx" ON "expense_claim_approvals"("claimId", "status");
+
+-- CreateIndex
+CREATE INDEX "expense_claim_approvals_approver_status_idx" ON "expense_claim_approvals"("approver", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "expense_policies_tenantId_key" ON "expense_policies"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "expenses" ADD CONSTRAINT "expenses_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "expense_claims"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_claims" ADD CONSTRAINT "expense_claims_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_claims" ADD CONSTRAINT "expense_claims_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_claims" ADD CONSTRAINT "expense_claims_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_claim_approvals" ADD CONSTRAINT "expense_claim_approvals_claimId_fkey" FOREIGN KEY ("claimId") REFERENCES "expense_claims"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "expense_policies" ADD CONSTRAINT "expense_policies_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,77 @@
+-- CreateTable
+CREATE TABLE "recurring_invoices" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "entityId" TEXT,
+    "name" VARCHAR(120) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "cadence" VARCHAR(20) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'USD',
+    "lines" JSONB NOT NULL,
+    "startDate" DATE NOT NULL,
+    "endDate" DATE,
+    "maxOccurrences" INTEGER,
+    "occurrenceCount" INTEGER NOT NULL DEFAULT 0,
+    "nextRunDate" DATE,
+    "prorate" BOOLEAN NOT NULL DEFAULT false,
+    "paymentTermsDays" INTEGER NOT NULL DEFAULT 30,
+    "autoSend" BOOLEAN NOT NULL DEFAULT false,
+    "lastRunAt" TIMESTAMP(3),
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "recurring_invoices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "recurring_invoice_runs" (
+    "id" TEXT NOT NULL,
+    "recurringInvoiceId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "periodStart" DATE NOT NULL,
+    "periodEnd" DATE NOT NULL,
+    "status" VARCHAR(20) NOT NULL,
+    "invoiceId" TEXT,
+    "prorationFactor" DECIMAL(8,6),
+    "sentAt" TIMESTAMP(3),
+    "error" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "recurring_invoice_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "recurring_invoices_tenantId_status_idx" ON "recurring_invoices"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "recurring_invoices_status_nextRunDate_idx" ON "recurring_invoices"("status", "nextRunDate");
+
+-- CreateIndex
+CREATE INDEX "recurring_invoices_clientId_idx" ON "recurring_invoices"("clientId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "recurring_invoice_runs_recurringInvoiceId_periodStart_key" ON "recurring_invoice_runs"("recurringInvoiceId", "periodStart");
+
+-- CreateIndex
+CREATE INDEX "recurring_invoice_runs_tenantId_idx" ON "recurring_invoice_runs"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "recurring_invoice_runs_invoiceId_idx" ON "recurring_invoice_runs"("invoiceId");
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoices" ADD CONSTRAINT "recurring_invoices_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoice_runs" ADD CONSTRAINT "recurring_invoice_runs_recurringInvoiceId_fkey" FOREIGN KEY ("recurringInvoiceId") REFERENCES "recurring_invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "recurring_invoice_runs" ADD CONSTRAINT "recurring_invoice_runs_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE SET NULL ON UPDATE CASCADE;
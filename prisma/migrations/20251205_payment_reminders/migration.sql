@@ -0,0 +1,69 @@
+-- AlterTable
+ALTER TABLE "notification_templates" ADD COLUMN "locale" VARCHAR(10) NOT NULL DEFAULT 'en';
+
+-- CreateTable
+CREATE TABLE "payment_reminder_steps" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" VARCHAR(80) NOT NULL,
+    "offsetDays" INTEGER NOT NULL,
+    "templateType" VARCHAR(60) NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "payment_reminder_steps_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_reminder_logs" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "invoiceId" TEXT NOT NULL,
+    "clientId" TEXT,
+    "offsetDays" INTEGER NOT NULL,
+    "agingBucket" VARCHAR(30) NOT NULL,
+    "templateType" VARCHAR(60) NOT NULL,
+    "locale" VARCHAR(10) NOT NULL,
+    "channel" VARCHAR(20) NOT NULL DEFAULT 'EMAIL',
+    "recipient" TEXT,
+    "status" VARCHAR(20) NOT NULL,
+    "outstandingCents" INTEGER NOT NULL,
+    "error" TEXT,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_reminder_logs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "payment_reminder_opt_outs" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "reason" VARCHAR(255),
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "payment_reminder_opt_outs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_reminder_steps_tenantId_offsetDays_key" ON "payment_reminder_steps"("tenantId", "offsetDays");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_reminder_logs_invoiceId_offsetDays_key" ON "payment_reminder_logs"("invoiceId", "offsetDays");
+
+-- CreateIndex
+CREATE INDEX "payment_reminder_logs_tenantId_sentAt_idx" ON "payment_reminder_logs"("tenantId", "sentAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "payment_reminder_opt_outs_tenantId_clientId_key" ON "payment_reminder_opt_outs"("tenantId", "clientId");
+
+-- AddForeignKey
+ALTER TABLE "payment_reminder_steps" ADD CONSTRAINT "payment_reminder_steps_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_reminder_logs" ADD CONSTRAINT "payment_reminder_logs_invoiceId_fkey" FOREIGN KEY ("invoiceId") REFERENCES "invoices"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "payment_reminder_opt_outs" ADD CONSTRAINT "payment_reminder_opt_outs_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
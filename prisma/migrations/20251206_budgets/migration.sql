@@ -0,0 +1,87 @@
+-- AlterTable
+ALTER TABLE "expenses" ADD COLUMN "costCenter" VARCHAR(60);
+
+-- AlterTable
+ALTER TABLE "invoices" ADD COLUMN "costCenter" VARCHAR(60);
+
+-- CreateTable
+CREATE TABLE "budgets" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "fiscalYear" INTEGER NOT NULL,
+    "granularity" VARCHAR(10) NOT NULL DEFAULT 'MONTHLY',
+    "currency" VARCHAR(3) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'DRAFT',
+    "alertThresholds" INTEGER[] DEFAULT ARRAY[80, 100]::INTEGER[],
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "budgets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "budget_lines" (
+    "id" TEXT NOT NULL,
+    "budgetId" TEXT NOT NULL,
+    "kind" VARCHAR(10) NOT NULL,
+    "category" VARCHAR(120),
+    "accountId" TEXT,
+    "costCenter" VARCHAR(60),
+    "monthlyCents" INTEGER[],
+    "annualCents" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "budget_lines_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "budget_alerts" (
+    "id" TEXT NOT NULL,
+    "budgetId" TEXT NOT NULL,
+    "lineId" TEXT NOT NULL,
+    "periodNumber" INTEGER NOT NULL,
+    "threshold" INTEGER NOT NULL,
+    "budgetCents" INTEGER NOT NULL,
+    "actualCents" INTEGER NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "budget_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budgets_entityId_fiscalYear_name_key" ON "budgets"("entityId", "fiscalYear", "name");
+
+-- CreateIndex
+CREATE INDEX "budgets_tenantId_status_idx" ON "budgets"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "budget_lines_budgetId_idx" ON "budget_lines"("budgetId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budget_alerts_lineId_periodNumber_threshold_key" ON "budget_alerts"("lineId", "periodNumber", "threshold");
+
+-- CreateIndex
+CREATE INDEX "budget_alerts_budgetId_idx" ON "budget_alerts"("budgetId");
+
+-- AddForeignKey
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budgets" ADD CONSTRAINT "budgets_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_lines" ADD CONSTRAINT "budget_lines_budgetId_fkey" FOREIGN KEY ("budgetId") REFERENCES "budgets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_lines" ADD CONSTRAINT "budget_lines_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "ledger_accounts"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_alerts" ADD CONSTRAINT "budget_alerts_budgetId_fkey" FOREIGN KEY ("budgetId") REFERENCES "budgets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "budget_alerts" ADD CONSTRAINT "budget_alerts_lineId_fkey" FOREIGN KEY ("lineId") REFERENCES "budget_lines"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,90 @@
+-- CreateTable
+CREATE TABLE "cash_forecast_items" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "direction" VARCHAR(3) NOT NULL,
+    "category" VARCHAR(60),
+    "amountCents" INTEGER NOT NULL,
+    "cadence" VARCHAR(20) NOT NULL DEFAULT 'MONTHLY',
+    "startDate" DATE NOT NULL,
+    "endDate" DATE,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cash_forecast_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cash_forecast_scenarios" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "description" TEXT,
+    "overrides" JSONB NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "cash_forecast_scenarios_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "cash_forecast_snapshots" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "scenarioId" TEXT,
+    "name" VARCHAR(120),
+    "asOf" TIMESTAMP(3) NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "openingCents" INTEGER NOT NULL,
+    "weeks" JSONB NOT NULL,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "cash_forecast_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "cash_forecast_items_tenantId_idx" ON "cash_forecast_items"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "cash_forecast_items_entityId_active_idx" ON "cash_forecast_items"("entityId", "active");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "cash_forecast_scenarios_entityId_name_key" ON "cash_forecast_scenarios"("entityId", "name");
+
+-- CreateIndex
+CREATE INDEX "cash_forecast_scenarios_tenantId_idx" ON "cash_forecast_scenarios"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "cash_forecast_snapshots_tenantId_idx" ON "cash_forecast_snapshots"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "cash_forecast_snapshots_entityId_asOf_idx" ON "cash_forecast_snapshots"("entityId", "asOf");
+
+-- AddForeignKey
+ALTER TABLE "cash_forecast_items" ADD CONSTRAINT "cash_forecast_items_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_forecast_items" ADD CONSTRAINT "cash_forecast_items_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_forecast_scenarios" ADD CONSTRAINT "cash_forecast_scenarios_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_forecast_scenarios" ADD CONSTRAINT "cash_forecast_scenarios_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_forecast_snapshots" ADD CONSTRAINT "cash_forecast_snapshots_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_forecast_snapshots" ADD CONSTRAINT "cash_forecast_snapshots_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "cash_forecast_snapshots" ADD CONSTRAINT "cash_forecast_snapshots_scenarioId_fkey" FOREIGN KEY ("scenarioId") REFERENCES "cash_forecast_scenarios"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,130 @@
+-- CreateTable
+CREATE TABLE "fixed_asset_categories" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "name" VARCHAR(120) NOT NULL,
+    "method" VARCHAR(20) NOT NULL DEFAULT 'STRAIGHT_LINE',
+    "usefulLifeMonths" INTEGER NOT NULL,
+    "decliningRate" DECIMAL(5,2),
+    "residualPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fixed_asset_categories_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fixed_assets" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "entityId" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "assetNumber" VARCHAR(30) NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "description" TEXT,
+    "serialNumber" VARCHAR(120),
+    "location" VARCHAR(120),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "acquisitionDate" DATE NOT NULL,
+    "inServiceDate" DATE NOT NULL,
+    "currency" VARCHAR(3) NOT NULL,
+    "costCents" INTEGER NOT NULL,
+    "residualCents" INTEGER NOT NULL DEFAULT 0,
+    "method" VARCHAR(20) NOT NULL,
+    "usefulLifeMonths" INTEGER NOT NULL,
+    "decliningRate" DECIMAL(5,2),
+    "sourceType" VARCHAR(20),
+    "sourceId" TEXT,
+    "sourceLineId" TEXT,
+    "acquisitionEntryId" TEXT,
+    "revaluedAmountCents" INTEGER,
+    "revaluedAt" DATE,
+    "revaluationSurplusCents" INTEGER NOT NULL DEFAULT 0,
+    "accumulatedDepreciationCents" INTEGER NOT NULL DEFAULT 0,
+    "depreciatedThrough" VARCHAR(7),
+    "disposedAt" DATE,
+    "disposalProceedsCents" INTEGER,
+    "disposalGainLossCents" INTEGER,
+    "disposalEntryId" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fixed_assets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fixed_asset_depreciation" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "period" VARCHAR(7) NOT NULL,
+    "amountCents" INTEGER NOT NULL,
+    "journalEntryId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fixed_asset_depreciation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "fixed_asset_revaluations" (
+    "id" TEXT NOT NULL,
+    "assetId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "carryingCents" INTEGER NOT NULL,
+    "fairValueCents" INTEGER NOT NULL,
+    "reserveCents" INTEGER NOT NULL,
+    "expenseCents" INTEGER NOT NULL,
+    "journalEntryId" TEXT,
+    "notes" TEXT,
+    "createdBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "fixed_asset_revaluations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fixed_asset_categories_entityId_name_key" ON "fixed_asset_categories"("entityId", "name");
+
+-- CreateIndex
+CREATE INDEX "fixed_asset_categories_tenantId_idx" ON "fixed_asset_categories"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fixed_assets_entityId_assetNumber_key" ON "fixed_assets"("entityId", "assetNumber");
+
+-- CreateIndex
+CREATE INDEX "fixed_assets_tenantId_idx" ON "fixed_assets"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "fixed_assets_entityId_status_idx" ON "fixed_assets"("entityId", "status");
+
+-- CreateIndex
+CREATE INDEX "fixed_assets_sourceType_sourceId_idx" ON "fixed_assets"("sourceType", "sourceId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fixed_asset_depreciation_assetId_period_key" ON "fixed_asset_depreciation"("assetId", "period");
+
+-- CreateIndex
+CREATE INDEX "fixed_asset_revaluations_assetId_date_idx" ON "fixed_asset_revaluations"("assetId", "date");
+
+-- AddForeignKey
+ALTER TABLE "fixed_asset_categories" ADD CONSTRAINT "fixed_asset_categories_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_asset_categories" ADD CONSTRAINT "fixed_asset_categories_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_assets" ADD CONSTRAINT "fixed_assets_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_assets" ADD CONSTRAINT "fixed_assets_entityId_fkey" FOREIGN KEY ("entityId") REFERENCES "entities"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_assets" ADD CONSTRAINT "fixed_assets_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "fixed_asset_categories"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_asset_depreciation" ADD CONSTRAINT "fixed_asset_depreciation_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "fixed_assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "fixed_asset_revaluations" ADD CONSTRAINT "fixed_asset_revaluations_assetId_fkey" FOREIGN KEY ("assetId") REFERENCES "fixed_assets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,198 @@
+-- CreateTable
+CREATE TABLE "bpm_process_definitions" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "description" TEXT,
+    "version" VARCHAR(20) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'DRAFT',
+    "steps" JSONB NOT NULL,
+    "rules" JSONB,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bpm_process_definitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bpm_process_instances" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "processId" TEXT NOT NULL,
+    "processVersion" VARCHAR(20) NOT NULL,
+    "businessKey" VARCHAR(200),
+    "status" VARCHAR(20) NOT NULL DEFAULT 'RUNNING',
+    "variables" JSONB NOT NULL,
+    "steps" JSONB NOT NULL,
+    "startedBy" TEXT,
+    "error" TEXT,
+    "wakeAt" TIMESTAMP(3),
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "completedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bpm_process_instances_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bpm_tasks" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "processId" TEXT NOT NULL,
+    "instanceId" TEXT,
+    "stepId" VARCHAR(100) NOT NULL,
+    "attempt" INTEGER NOT NULL DEFAULT 1,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    "assignee" TEXT NOT NULL,
+    "assigneeRole" VARCHAR(50),
+    "delegatedFrom" TEXT,
+    "delegatedTo" TEXT,
+    "dueDate" TIMESTAMP(3),
+    "completedAt" TIMESTAMP(3),
+    "completedBy" TEXT,
+    "escalationLevel" VARCHAR(20) NOT NULL DEFAULT 'LEVEL_1',
+    "escalationHistory" JSONB NOT NULL DEFAULT '[]',
+    "vacationCoverage" JSONB,
+    "metadata" JSONB,
+    "output" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bpm_tasks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bpm_delegations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "taskId" TEXT NOT NULL,
+    "fromUser" TEXT NOT NULL,
+    "toUser" TEXT NOT NULL,
+    "reason" TEXT,
+    "delegatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+    "autoReturn" BOOLEAN NOT NULL DEFAULT true,
+    "returnedAt" TIMESTAMP(3),
+
+    CONSTRAINT "bpm_delegations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bpm_vacation_coverage" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "originalAssignee" TEXT NOT NULL,
+    "coveringAssignee" TEXT NOT NULL,
+    "vacationStart" TIMESTAMP(3) NOT NULL,
+    "vacationEnd" TIMESTAMP(3) NOT NULL,
+    "autoReassign" BOOLEAN NOT NULL DEFAULT true,
+    "restoredAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bpm_vacation_coverage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bpm_approval_matrices" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" VARCHAR(200) NOT NULL,
+    "rules" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "bpm_approval_matrices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "bpm_instance_events" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "instanceId" TEXT NOT NULL,
+    "type" VARCHAR(40) NOT NULL,
+    "stepId" VARCHAR(100),
+    "taskId" TEXT,
+    "actor" TEXT,
+    "fromStatus" VARCHAR(20),
+    "toStatus" VARCHAR(20),
+    "details" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "bpm_instance_events_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "bpm_process_definitions_tenantId_status_idx" ON "bpm_process_definitions"("tenantId", "status");
+
+-- CreateIndex
+CREATE INDEX "bpm_process_instances_tenantId_processId_status_idx" ON "bpm_process_instances"("tenantId", "processId", "status");
+
+-- CreateIndex
+CREATE INDEX "bpm_process_instances_status_wakeAt_idx" ON "bpm_process_instances"("status", "wakeAt");
+
+-- CreateIndex
+CREATE INDEX "bpm_tasks_tenantId_assignee_status_idx" ON "bpm_tasks"("tenantId", "assignee", "status");
+
+-- CreateIndex
+CREATE INDEX "bpm_tasks_tenantId_delegatedTo_status_idx" ON "bpm_tasks"("tenantId", "delegatedTo", "status");
+
+-- CreateIndex
+CREATE INDEX "bpm_tasks_status_dueDate_idx" ON "bpm_tasks"("status", "dueDate");
+
+-- CreateIndex
+CREATE INDEX "bpm_tasks_instanceId_idx" ON "bpm_tasks"("instanceId");
+
+-- CreateIndex
+CREATE INDEX "bpm_delegations_taskId_idx" ON "bpm_delegations"("taskId");
+
+-- CreateIndex
+CREATE INDEX "bpm_delegations_returnedAt_expiresAt_idx" ON "bpm_delegations"("returnedAt", "expiresAt");
+
+-- CreateIndex
+CREATE INDEX "bpm_vacation_coverage_tenantId_originalAssignee_idx" ON "bpm_vacation_coverage"("tenantId", "originalAssignee");
+
+-- CreateIndex
+CREATE INDEX "bpm_vacation_coverage_restoredAt_vacationEnd_idx" ON "bpm_vacation_coverage"("restoredAt", "vacationEnd");
+
+-- CreateIndex
+CREATE INDEX "bpm_approval_matrices_tenantId_idx" ON "bpm_approval_matrices"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "bpm_instance_events_instanceId_createdAt_idx" ON "bpm_instance_events"("instanceId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "bpm_process_definitions" ADD CONSTRAINT "bpm_process_definitions_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_process_instances" ADD CONSTRAINT "bpm_process_instances_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_process_instances" ADD CONSTRAINT "bpm_process_instances_processId_fkey" FOREIGN KEY ("processId") REFERENCES "bpm_process_definitions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_tasks" ADD CONSTRAINT "bpm_tasks_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_tasks" ADD CONSTRAINT "bpm_tasks_processId_fkey" FOREIGN KEY ("processId") REFERENCES "bpm_process_definitions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_tasks" ADD CONSTRAINT "bpm_tasks_instanceId_fkey" FOREIGN KEY ("instanceId") REFERENCES "bpm_process_instances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_delegations" ADD CONSTRAINT "bpm_delegations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_delegations" ADD CONSTRAINT "bpm_delegations_taskId_fkey" FOREIGN KEY ("taskId") REFERENCES "bpm_tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_vacation_coverage" ADD CONSTRAINT "bpm_vacation_coverage_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_approval_matrices" ADD CONSTRAINT "bpm_approval_matrices_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_instance_events" ADD CONSTRAINT "bpm_instance_events_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "bpm_instance_events" ADD CONSTRAINT "bpm_instance_events_instanceId_fkey" FOREIGN KEY ("instanceId") REFERENCES "bpm_process_instances"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- Workflow steps are now dispatched to their handlers: track attempts, keep the
+-- handler output for compensation, and mark steps that were rolled back
+ALTER TABLE IF EXISTS "workflow_steps"
+  ADD COLUMN IF NOT EXISTS "attempts" INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS "output" JSONB,
+  ADD COLUMN IF NOT EXISTS "compensatedAt" TIMESTAMP(3);
@@ -0,0 +1,69 @@
+-- AlterTable
+ALTER TABLE "tax_filings" ADD COLUMN IF NOT EXISTS "createdBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "sod_policies" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "overridesEnabled" BOOLEAN NOT NULL DEFAULT false,
+    "overrideRoles" TEXT[] DEFAULT ARRAY['ADMIN', 'SUPER_ADMIN']::TEXT[],
+    "disabledActions" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "updatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sod_policies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sod_overrides" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "action" VARCHAR(50) NOT NULL,
+    "recordId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "ruleIds" TEXT[],
+    "conflicts" JSONB NOT NULL,
+    "justification" TEXT NOT NULL,
+    "stepUpMethod" VARCHAR(20) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sod_overrides_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "sod_conflict_reports" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "periodStart" TIMESTAMP(3) NOT NULL,
+    "periodEnd" TIMESTAMP(3) NOT NULL,
+    "assignmentsChecked" INTEGER NOT NULL DEFAULT 0,
+    "conflictCount" INTEGER NOT NULL DEFAULT 0,
+    "conflicts" JSONB NOT NULL,
+    "overrideCount" INTEGER NOT NULL DEFAULT 0,
+    "generatedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "sod_conflict_reports_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sod_policies_tenantId_key" ON "sod_policies"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "sod_overrides_tenantId_createdAt_idx" ON "sod_overrides"("tenantId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "sod_overrides_tenantId_action_recordId_idx" ON "sod_overrides"("tenantId", "action", "recordId");
+
+-- CreateIndex
+CREATE INDEX "sod_conflict_reports_tenantId_createdAt_idx" ON "sod_conflict_reports"("tenantId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "sod_policies" ADD CONSTRAINT "sod_policies_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sod_overrides" ADD CONSTRAINT "sod_overrides_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "sod_conflict_reports" ADD CONSTRAINT "sod_conflict_reports_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,51 @@
+-- Encrypted values no longer fit the old VARCHAR(100) columns, and uniqueness
+-- moves to the blind-index hashes because ciphertext differs on every write.
+-- Existing plaintext is encrypted and hashed by the encryption-key-rotation job,
+-- which also fills hashes still missing on tenants whose key is not yet due.
+
+-- AlterTable
+ALTER TABLE IF EXISTS "parties" ALTER COLUMN "registrationNumber" SET DATA TYPE TEXT;
+ALTER TABLE IF EXISTS "parties" ALTER COLUMN "taxId" SET DATA TYPE TEXT;
+ALTER TABLE IF EXISTS "parties" ADD COLUMN IF NOT EXISTS "registrationNumberHash" VARCHAR(64);
+ALTER TABLE IF EXISTS "parties" ADD COLUMN IF NOT EXISTS "taxIdHash" VARCHAR(64);
+
+-- AlterTable
+ALTER TABLE IF EXISTS "entity_registrations" ALTER COLUMN "value" SET DATA TYPE TEXT;
+ALTER TABLE IF EXISTS "entity_registrations" ADD COLUMN IF NOT EXISTS "valueHash" VARCHAR(64);
+
+-- DropIndex
+DROP INDEX IF EXISTS "parties_tenantId_registrationNumber_key";
+DROP INDEX IF EXISTS "parties_tenantId_taxId_key";
+
+-- CreateTable
+CREATE TABLE "tenant_data_keys" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT,
+    "wrappedKey" TEXT NOT NULL,
+    "masterKeyId" VARCHAR(100) NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'ACTIVE',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "retiredAt" TIMESTAMP(3),
+
+    CONSTRAINT "tenant_data_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "parties_tenantId_registrationNumberHash_key" ON "parties"("tenantId", "registrationNumberHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX IF NOT EXISTS "parties_tenantId_taxIdHash_key" ON "parties"("tenantId", "taxIdHash");
+
+-- CreateIndex
+CREATE INDEX IF NOT EXISTS "entity_registrations_valueHash_idx" ON "entity_registrations"("valueHash");
+
+-- CreateIndex
+CREATE INDEX "tenant_data_keys_tenantId_status_idx" ON "tenant_data_keys"("tenantId", "status");
+
+-- CreateIndex
+-- One active key per tenant, so concurrent first use cannot create two; the
+-- platform key has no tenant, hence the COALESCE
+CREATE UNIQUE INDEX "tenant_data_keys_active_key" ON "tenant_data_keys"((COALESCE("tenantId", ''))) WHERE "status" = 'ACTIVE';
+
+-- AddForeignKey
+ALTER TABLE "tenant_data_keys" ADD CONSTRAINT "tenant_data_keys_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
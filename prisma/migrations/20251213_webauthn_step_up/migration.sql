@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "webauthn_credentials" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "credentialId" TEXT NOT NULL,
+    "publicKey" TEXT NOT NULL,
+    "algorithm" INTEGER NOT NULL,
+    "signCount" INTEGER NOT NULL DEFAULT 0,
+    "transports" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "name" VARCHAR(100),
+    "aaguid" VARCHAR(36),
+    "backedUp" BOOLEAN NOT NULL DEFAULT false,
+    "lastUsedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "webauthn_credentials_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "trusted_devices" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fingerprint" VARCHAR(64) NOT NULL,
+    "deviceName" VARCHAR(100) NOT NULL,
+    "deviceType" VARCHAR(20) NOT NULL,
+    "osType" VARCHAR(50) NOT NULL,
+    "browserType" VARCHAR(50) NOT NULL,
+    "userAgent" TEXT NOT NULL,
+    "ipAddress" VARCHAR(64),
+    "approvalStatus" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+    "trustLevel" INTEGER NOT NULL DEFAULT 0,
+    "approvedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "lastActivityAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trusted_devices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "webauthn_credentials_credentialId_key" ON "webauthn_credentials"("credentialId");
+
+-- CreateIndex
+CREATE INDEX "webauthn_credentials_tenantId_userId_idx" ON "webauthn_credentials"("tenantId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trusted_devices_userId_fingerprint_key" ON "trusted_devices"("userId", "fingerprint");
+
+-- CreateIndex
+CREATE INDEX "trusted_devices_tenantId_userId_idx" ON "trusted_devices"("tenantId", "userId");
+
+-- AddForeignKey
+ALTER TABLE "webauthn_credentials" ADD CONSTRAINT "webauthn_credentials_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "webauthn_credentials" ADD CONSTRAINT "webauthn_credentials_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trusted_devices" ADD CONSTRAINT "trusted_devices_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trusted_devices" ADD CONSTRAINT "trusted_devices_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,216 @@
+"use client"
+
+export const dynamic = 'force-dynamic'
+
+import React, { useMemo, useState, Suspense } from 'react'
+import useSWR from 'swr'
+import { toast } from 'sonner'
+import ListPage from '@/components/dashboard/templates/ListPage'
+import type { Column, FilterConfig, RowAction } from '@/types/dashboard'
+import PermissionGate from '@/components/PermissionGate'
+import { PERMISSIONS } from '@/lib/permissions'
+
+type SubmissionMessage = { code: string; message: string }
+
+type ApiSubmission = {
+  id: string
+  standard: 'ZATCA' | 'ETA'
+  status: 'DRAFT' | 'SIGNED' | 'SUBMITTED' | 'ACCEPTED' | 'REJECTED'
+  reference: string | null
+  errors: SubmissionMessage[] | null
+  warnings: SubmissionMessage[] | null
+  attempts: number
+  lastError: string | null
+  nextAttemptAt: string | null
+  rejectedAt: string | null
+  resolvedAt: string | null
+  updatedAt: string
+  invoice: {
+    id: string
+    number: string | null
+    totalCents: number
+    creditedCents: number
+    currency: string
+    client?: { id: string; name: string | null } | null
+  }
+  resolvedBy?: { id: string; number: string | null } | null
+}
+
+type ApiResponse = { submissions: ApiSubmission[]; total: number; page?: number; limit?: number }
+
+interface SubmissionRow {
+  id: string
+  invoice: string
+  client: string
+  standard: string
+  status: ApiSubmission['status']
+  messages: string
+  attempts: number
+  updated: string
+  resolved: string
+  creditable: boolean
+}
+
+const fetcher = (url: string) => fetch(url).then(r => {
+  if (!r.ok) throw new Error('Failed to load e-invoice submissions')
+  return r.json() as Promise<ApiResponse>
+})
+
+function formatMessages(submission: ApiSubmission): string {
+  const messages = [...(submission.errors || []), ...(submission.warnings || [])]
+  if (messages.length) return messages.map(m => `${m.code}: ${m.message}`).join('\n')
+  return submission.lastError || '—'
+}
+
+async function postAction(url: string, body?: unknown) {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: body ? JSON.stringify(body) : undefined,
+  })
+  const json = await res.json().catch(() => ({}))
+  if (!res.ok) throw new Error(json?.error || 'Request failed')
+  return json
+}
+
+function EInvoicingQueueContent() {
+  const [status, setStatus] = useState<string>('REJECTED')
+  const [resolved, setResolved] = useState<string>('false')
+  const [page, setPage] = useState<number>(1)
+  const pageSize = 20
+
+  const filters: FilterConfig[] = [
+    { key: 'status', label: 'Status', value: status, options: [
+      { value: 'REJECTED', label: 'Rejected' },
+      { value: 'stalled', label: 'Awaiting retry' },
+      { value: 'SUBMITTED', label: 'Pending validation' },
+      { value: 'ACCEPTED', label: 'Accepted' },
+      { value: 'all', label: 'All' },
+    ]},
+    { key: 'resolved', label: 'Correction', value: resolved, options: [
+      { value: 'false', label: 'Not corrected' },
+      { value: 'true', label: 'Credited' },
+      { value: 'all', label: 'All' },
+    ]},
+  ]
+
+  const onFilterChange = (key: string, value: string) => {
+    if (key === 'status') setStatus(value)
+    if (key === 'resolved') setResolved(value)
+    setPage(1)
+  }
+
+  const apiUrl = useMemo(() => {
+    const params = new URLSearchParams()
+    if (status !== 'all') params.set('status', status)
+    if (resolved !== 'all') params.set('resolved', resolved)
+    params.set('page', String(page))
+    params.set('limit', String(pageSize))
+    return `/api/admin/einvoicing/submissions?${params.toString()}`
+  }, [status, resolved, page])
+
+  const { data, isLoading, mutate } = useSWR<ApiResponse>(apiUrl, fetcher)
+
+  const columns: Column<SubmissionRow>[] = useMemo(() => ([
+    { key: 'invoice', label: 'Invoice' },
+    { key: 'client', label: 'Client' },
+    { key: 'standard', label: 'Authority' },
+    { key: 'status', label: 'Status', render: (v) => (
+      <span className={`inline-flex items-center px-2 py-1 rounded text-xs font-medium ${
+        v === 'ACCEPTED' ? 'bg-green-100 text-green-800' :
+        v === 'REJECTED' ? 'bg-red-100 text-red-800' :
+        v === 'SUBMITTED' ? 'bg-blue-100 text-blue-800' :
+        'bg-yellow-100 text-yellow-800'
+      }`}>{String(v)}</span>
+    ) },
+    { key: 'messages', label: 'Validation messages', render: (v: string) => (
+      <span className="whitespace-pre-line text-xs text-gray-700">{v}</span>
+    ) },
+    { key: 'attempts', label: 'Attempts', align: 'right' },
+    { key: 'resolved', label: 'Correction' },
+    { key: 'updated', label: 'Updated' },
+  ]), [])
+
+  const rows: SubmissionRow[] = useMemo(() => {
+    const list = data?.submissions || []
+    return list.map(sub => ({
+      id: sub.id,
+      invoice: sub.invoice.number || sub.invoice.id,
+      client: sub.invoice.client?.name || '—',
+      standard: sub.standard,
+      status: sub.status,
+      messages: formatMessages(sub),
+      attempts: sub.attempts,
+      updated: new Date(sub.updatedAt).toLocaleString(),
+      resolved: sub.resolvedAt
+        ? `Credited by ${sub.resolvedBy?.number || sub.resolvedBy?.id || 'credit note'}`
+        : sub.nextAttemptAt ? `Retry at ${new Date(sub.nextAttemptAt).toLocaleString()}` : '—',
+      creditable: sub.status === 'REJECTED' && !sub.resolvedAt && sub.invoice.creditedCents === 0,
+    }))
+  }, [data])
+
+  const actions: RowAction<SubmissionRow>[] = [
+    {
+      label: 'Retry now',
+      disabled: (row) => row.status !== 'DRAFT' && row.status !== 'SIGNED',
+      onClick: async (row) => {
+        try {
+          const { submission } = await postAction(`/api/admin/einvoicing/submissions/${row.id}/retry`)
+          toast.success(`Submission ${String(submission.status).toLowerCase()}`)
+        } catch (e) {
+          toast.error(String((e as Error).message))
+        }
+        mutate()
+      },
+    },
+    {
+      label: 'Issue credit note',
+      variant: 'destructive',
+      disabled: (row) => !row.creditable,
+      onClick: async (row) => {
+        const reason = window.prompt(`Reason for crediting invoice ${row.invoice} in full:`)
+        if (!reason) return
+        try {
+          await postAction(`/api/admin/einvoicing/submissions/${row.id}/credit-note`, { reason })
+          toast.success('Credit note issued; reissue the corrected invoice')
+        } catch (e) {
+          toast.error(String((e as Error).message))
+        }
+        mutate()
+      },
+    },
+  ]
+
+  return (
+    <PermissionGate permission={[PERMISSIONS.TEAM_VIEW]} fallback={<div className="p-6">You do not have access to e-invoicing.</div>}>
+      <ListPage<SubmissionRow>
+        title="E-Invoicing Queue"
+        subtitle="Rejected documents can only be corrected with a credit note"
+        secondaryActions={[
+          { label: 'Back to Invoices', onClick: () => { window.location.href = '/admin/invoices' } },
+        ]}
+        filters={filters}
+        onFilterChange={onFilterChange}
+        columns={columns}
+        rows={rows}
+        useAdvancedTable
+        emptyMessage="No submissions in this queue"
+        actions={actions}
+        selectable={false}
+        loading={isLoading}
+        page={page}
+        pageSize={pageSize}
+        total={data?.total ?? 0}
+        onPageChange={setPage}
+      />
+    </PermissionGate>
+  )
+}
+
+export default function AdminEInvoicingQueuePage() {
+  return (
+    <Suspense fallback={<div className="p-6">Loading…</div>}>
+      <EInvoicingQueueContent />
+    </Suspense>
+  )
+}
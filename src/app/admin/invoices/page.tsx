@@ -22,7 +22,7 @@ type ApiInvoice = {
   id: string
   createdAt: string
   paidAt?: string | null
-  status: 'DRAFT'|'SENT'|'UNPAID'|'PAID'|'VOID'
+  status: 'DRAFT'|'SENT'|'UNPAID'|'PARTIALLY_PAID'|'OVERDUE'|'PAID'|'VOID'
   totalCents: number
   currency: string
   client?: { id: string; name: string | null; email: string | null } | null
@@ -197,6 +197,7 @@ function AdminInvoicesContent() {
           { label: 'Export CSV', onClick: () => { window.location.href = exportHref } },
           { label: 'Open Payments', onClick: () => { window.location.href = paymentsHrefBase } },
           { label: 'Automated Billing', onClick: () => { window.location.href = '/admin/invoices/sequences' } },
+          { label: 'E-Invoicing Queue', onClick: () => { window.location.href = '/admin/invoices/einvoicing' } },
         ]}
         filters={filters}
         onFilterChange={onFilterChange}
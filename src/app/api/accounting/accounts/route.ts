@@ -0,0 +1,150 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { seedChartOfAccounts } from '@/lib/accounting/chart-of-accounts'
+import { STATEMENT_LINE_KEYS } from '@/lib/accounting/statements'
+import { z } from 'zod'
+
+const ListAccountsSchema = z.object({
+  entityId: z.string().min(1),
+  type: z.enum(['ASSET', 'LIABILITY', 'EQUITY', 'REVENUE', 'EXPENSE']).optional(),
+  includeInactive: z.coerce.boolean().default(false),
+})
+
+const CreateAccountSchema = z.object({
+  entityId: z.string().min(1),
+  code: z.string().trim().min(1).max(20),
+  name: z.string().trim().min(1).max(255),
+  nameAr: z.string().trim().max(255).optional(),
+  type: z.enum(['ASSET', 'LIABILITY', 'EQUITY', 'REVENUE', 'EXPENSE']),
+  parentId: z.string().min(1).optional(),
+  currency: z.string().length(3).optional(),
+  statementLine: z.enum(STATEMENT_LINE_KEYS).optional(), // Overrides the default financial statement line
+  intercompany: z.boolean().optional(), // Balances are eliminated on consolidation
+})
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const filters = ListAccountsSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const entity = await prisma.entity.findFirst({ where: { id: filters.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: {
+        entityId: filters.entityId,
+        ...(filters.type ? { type: filters.type } : {}),
+        ...(filters.includeInactive ? {} : { isActive: true }),
+      },
+      orderBy: { code: 'asc' },
+    })
+
+    return NextResponse.json({ accounts }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Ledger accounts list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+
+    // { entityId, seedDefaults: true } provisions the country default chart
+    if (body?.seedDefaults === true && typeof body.entityId === 'string') {
+      const entity = await prisma.entity.findFirst({ where: { id: body.entityId, tenantId }, select: { id: true } })
+      if (!entity) {
+        return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+      }
+
+      const result = await seedChartOfAccounts(entity.id)
+      return NextResponse.json({ success: true, ...result }, { status: 200 })
+    }
+
+    const validated = CreateAccountSchema.parse(body)
+
+    const entity = await prisma.entity.findFirst({ where: { id: validated.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    if (validated.parentId) {
+      const parent = await prisma.ledgerAccount.findFirst({
+        where: { id: validated.parentId, entityId: validated.entityId },
+        select: { id: true, type: true },
+      })
+      if (!parent || parent.type !== validated.type) {
+        return NextResponse.json({ error: 'Parent account must exist and share the same type' }, { status: 400 })
+      }
+    }
+
+    const existing = await prisma.ledgerAccount.findUnique({
+      where: { entityId_code: { entityId: validated.entityId, code: validated.code } },
+    })
+    if (existing) {
+      return NextResponse.json({ error: `Account code ${validated.code} already exists` }, { status: 409 })
+    }
+
+    const account = await prisma.ledgerAccount.create({
+      data: {
+        tenantId,
+        entityId: validated.entityId,
+        code: validated.code,
+        name: validated.name,
+        nameAr: validated.nameAr,
+        type: validated.type,
+        parentId: validated.parentId,
+        currency: validated.currency?.toUpperCase(),
+        metadata:
+          validated.statementLine || validated.intercompany
+            ? { statementLine: validated.statementLine, intercompany: validated.intercompany }
+            : undefined,
+      },
+    })
+
+    await logAuditSafe({
+      action: 'ledger:account_create',
+      details: { accountId: account.id, entityId: validated.entityId, code: validated.code },
+    }).catch(() => {})
+
+    return NextResponse.json({ account }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Ledger account create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
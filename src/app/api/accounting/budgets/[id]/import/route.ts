@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { importBudgetLines } from '@/lib/accounting/budgets'
+
+export const runtime = 'nodejs'
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+/**
+ * Load budget lines from an XLSX workbook (multipart `file`). Lines replace
+ * the budget's current ones unless `mode` is `append`.
+ */
+export const POST = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+    if (!formData || !file || typeof file === 'string') {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File is too large. Maximum size is 5MB' }, { status: 413 })
+    }
+    const mode = formData.get('mode') === 'append' ? 'append' : 'replace'
+
+    const { budget, imported } = await importBudgetLines(tenantId, id, Buffer.from(await file.arrayBuffer()), mode)
+
+    await logAuditSafe({
+      action: 'budget:import',
+      details: { budgetId: id, mode, imported, lineCount: budget.lines.length },
+    }).catch(() => {})
+
+    return NextResponse.json({ budget, imported }, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Budget import error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
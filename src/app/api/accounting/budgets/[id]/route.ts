@@ -0,0 +1,100 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { BudgetUpdateSchema, deleteBudget, getBudget, updateBudget } from '@/lib/accounting/budgets'
+import { z } from 'zod'
+
+export const GET = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const budget = await getBudget(tenantId, id)
+
+    return NextResponse.json({ budget }, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Budget get error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const PATCH = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const input = BudgetUpdateSchema.parse(await request.json())
+    const budget = await updateBudget(tenantId, id, input)
+
+    await logAuditSafe({
+      action: 'budget:update',
+      details: { budgetId: id, fields: Object.keys(input), status: budget.status },
+    }).catch(() => {})
+
+    return NextResponse.json({ budget }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Budget update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const DELETE = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    await deleteBudget(tenantId, id)
+
+    await logAuditSafe({ action: 'budget:delete', details: { budgetId: id } }).catch(() => {})
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Budget delete error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { getBudgetVariance, renderBudgetVarianceXlsx } from '@/lib/accounting/budget-variance'
+import { z } from 'zod'
+
+const VarianceQuerySchema = z.object({
+  // Last fiscal month (1-12) to include; the current one when omitted
+  through: z.coerce.number().int().min(1).max(12).optional(),
+  format: z.enum(['json', 'xlsx']).default('json'),
+})
+
+export const GET = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const query = VarianceQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const report = await getBudgetVariance(tenantId, id, { throughPeriod: query.through })
+
+    if (query.format === 'json') {
+      return NextResponse.json(report, { status: 200 })
+    }
+
+    const filename = `budget-variance-${report.budget.fiscalYear}-p${report.throughPeriod}.xlsx`
+    return new NextResponse(new Uint8Array(await renderBudgetVarianceXlsx(report)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Budget variance error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
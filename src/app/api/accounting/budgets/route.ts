@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { BudgetSchema, createBudget, listBudgets } from '@/lib/accounting/budgets'
+import { z } from 'zod'
+
+const BudgetListQuerySchema = z.object({
+  entityId: z.string().min(1).optional(),
+  fiscalYear: z.coerce.number().int().optional(),
+  status: z.enum(['DRAFT', 'ACTIVE', 'ARCHIVED']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = BudgetListQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const { budgets, total } = await listBudgets(tenantId, query)
+
+    return NextResponse.json({ budgets, total, limit: query.limit, offset: query.offset }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Budgets list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = BudgetSchema.parse(await request.json())
+    const budget = await createBudget(tenantId, input, ctx.userId)
+
+    await logAuditSafe({
+      action: 'budget:create',
+      details: { budgetId: budget.id, entityId: budget.entityId, fiscalYear: budget.fiscalYear, lineCount: budget.lines.length },
+    }).catch(() => {})
+
+    return NextResponse.json({ budget }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Budget create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { budgetTemplateXlsx } from '@/lib/accounting/budgets'
+import { getFiscalYearStartMonth } from '@/lib/accounting/periods'
+
+/**
+ * Import sheet for an entity's budgets, months in its fiscal order
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const entityId = request.nextUrl.searchParams.get('entityId')
+    const entity = entityId
+      ? await prisma.entity.findFirst({ where: { id: entityId, tenantId }, select: { fiscalYearStart: true } })
+      : null
+    if (entityId && !entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    return new NextResponse(new Uint8Array(await budgetTemplateXlsx(getFiscalYearStartMonth(entity?.fiscalYearStart))), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': 'attachment; filename="budget-template.xlsx"',
+      },
+    })
+  } catch (error) {
+    console.error('Budget template error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
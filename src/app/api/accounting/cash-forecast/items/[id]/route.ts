@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { CashForecastItemUpdateSchema, deleteForecastItem, updateForecastItem } from '@/lib/accounting/cash-forecast-scenarios'
+import { z } from 'zod'
+
+export const PATCH = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const input = CashForecastItemUpdateSchema.parse(await request.json())
+    const item = await updateForecastItem(tenantId, id, input)
+
+    await logAuditSafe({ action: 'cash_forecast:item_update', details: { itemId: id, fields: Object.keys(input) } }).catch(() => {})
+
+    return NextResponse.json({ item }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Cash forecast item update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const DELETE = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    await deleteForecastItem(tenantId, id)
+
+    await logAuditSafe({ action: 'cash_forecast:item_delete', details: { itemId: id } }).catch(() => {})
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Cash forecast item delete error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { CashForecastItemSchema, createForecastItem, listForecastItems } from '@/lib/accounting/cash-forecast-scenarios'
+import { z } from 'zod'
+
+const EntityQuerySchema = z.object({ entityId: z.string().min(1) })
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { entityId } = EntityQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const items = await listForecastItems(tenantId, entityId)
+
+    return NextResponse.json({ items }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Cash forecast items list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = CashForecastItemSchema.parse(await request.json())
+    const item = await createForecastItem(tenantId, input, ctx.userId)
+
+    await logAuditSafe({
+      action: 'cash_forecast:item_create',
+      details: { itemId: item.id, entityId: item.entityId, direction: item.direction, cadence: item.cadence },
+    }).catch(() => {})
+
+    return NextResponse.json({ item }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Cash forecast item create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { getCashForecast, renderCashForecastXlsx } from '@/lib/accounting/cash-forecast'
+import { z } from 'zod'
+
+const ForecastQuerySchema = z.object({
+  entityId: z.string().min(1),
+  scenarioId: z.string().min(1).optional(),
+  format: z.enum(['json', 'xlsx']).default('json'),
+})
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = ForecastQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const forecast = await getCashForecast(tenantId, query.entityId, { scenarioId: query.scenarioId })
+
+    if (query.format === 'json') {
+      return NextResponse.json(forecast, { status: 200 })
+    }
+
+    return new NextResponse(new Uint8Array(await renderCashForecastXlsx(forecast)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="cash-forecast-${forecast.asOf}.xlsx"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Cash forecast error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
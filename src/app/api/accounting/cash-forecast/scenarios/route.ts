@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { CashForecastScenarioSchema, createForecastScenario, listForecastScenarios } from '@/lib/accounting/cash-forecast-scenarios'
+import { z } from 'zod'
+
+const EntityQuerySchema = z.object({ entityId: z.string().min(1) })
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { entityId } = EntityQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const scenarios = await listForecastScenarios(tenantId, entityId)
+
+    return NextResponse.json({ scenarios }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Cash forecast scenarios list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = CashForecastScenarioSchema.parse(await request.json())
+    const scenario = await createForecastScenario(tenantId, input, ctx.userId)
+
+    await logAuditSafe({
+      action: 'cash_forecast:scenario_create',
+      details: { scenarioId: scenario.id, entityId: scenario.entityId, overrideCount: input.overrides.length },
+    }).catch(() => {})
+
+    return NextResponse.json({ scenario }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Cash forecast scenario create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { compareForecastSnapshot, renderForecastComparisonXlsx } from '@/lib/accounting/cash-forecast'
+import { z } from 'zod'
+
+const ComparisonQuerySchema = z.object({
+  format: z.enum(['json', 'xlsx']).default('json'),
+})
+
+/**
+ * A saved forecast against the bank movements since
+ */
+export const GET = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const query = ComparisonQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const comparison = await compareForecastSnapshot(tenantId, id)
+
+    if (query.format === 'json') {
+      return NextResponse.json(comparison, { status: 200 })
+    }
+
+    return new NextResponse(new Uint8Array(await renderForecastComparisonXlsx(comparison)), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="cash-forecast-vs-actual-${comparison.snapshot.asOf}.xlsx"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Cash forecast comparison error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
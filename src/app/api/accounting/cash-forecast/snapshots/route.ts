@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { listForecastSnapshots, saveForecastSnapshot } from '@/lib/accounting/cash-forecast'
+import { z } from 'zod'
+
+const EntityQuerySchema = z.object({ entityId: z.string().min(1) })
+
+const SnapshotSchema = z.object({
+  entityId: z.string().min(1),
+  scenarioId: z.string().min(1).nullable().optional(),
+  name: z.string().trim().min(1).max(120).nullable().optional(),
+})
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { entityId } = EntityQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const snapshots = await listForecastSnapshots(tenantId, entityId)
+
+    return NextResponse.json({ snapshots }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Cash forecast snapshots list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Save today's forecast to compare with actuals as the weeks pass
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = SnapshotSchema.parse(await request.json())
+    const snapshot = await saveForecastSnapshot(tenantId, input.entityId, { scenarioId: input.scenarioId, name: input.name }, ctx.userId)
+
+    await logAuditSafe({
+      action: 'cash_forecast:snapshot_create',
+      details: { snapshotId: snapshot.id, entityId: snapshot.entityId, scenarioId: snapshot.scenarioId },
+    }).catch(() => {})
+
+    return NextResponse.json({ snapshot }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Cash forecast snapshot create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { disposeFixedAsset, FixedAssetDisposalSchema } from '@/lib/accounting/fixed-assets'
+import { z } from 'zod'
+
+export const POST = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const input = FixedAssetDisposalSchema.parse(await request.json())
+    const asset = await disposeFixedAsset(tenantId, id, input, ctx.userId)
+
+    await logAuditSafe({
+      action: 'fixed_asset:dispose',
+      details: { assetId: id, proceedsCents: input.proceedsCents, gainLossCents: asset.disposalGainLossCents, journalEntryId: asset.disposalEntryId },
+    }).catch(() => {})
+
+    return NextResponse.json({ asset }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Fixed asset disposal error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { periodOf, runDepreciation } from '@/lib/accounting/depreciation'
+import { previousMonthEnd } from '@/lib/accounting/revaluation'
+import { z } from 'zod'
+
+const DepreciationRunSchema = z.object({
+  entityId: z.string().min(1),
+  through: z.string().regex(/^\d{4}-\d{2}$/).optional(), // Defaults to the previous month
+})
+
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = DepreciationRunSchema.parse(await request.json())
+    const entity = await prisma.entity.findFirst({ where: { id: input.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const through = input.through ?? periodOf(previousMonthEnd())
+    if (through > periodOf(new Date())) {
+      return NextResponse.json({ error: 'Depreciation cannot be run for a future month' }, { status: 400 })
+    }
+
+    const result = await runDepreciation(entity.id, through, { userId: ctx.userId })
+
+    await logAuditSafe({
+      action: 'fixed_asset:depreciation_run',
+      details: { entityId: entity.id, through, assets: result.assets, amountCents: result.amountCents, journalEntryId: result.entry?.id ?? null },
+    }).catch(() => {})
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Depreciation run error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { createFixedAsset, FIXED_ASSET_STATUSES, FixedAssetSchema, listFixedAssets } from '@/lib/accounting/fixed-assets'
+import { z } from 'zod'
+
+const FixedAssetListQuerySchema = z.object({
+  entityId: z.string().min(1),
+  status: z.enum(FIXED_ASSET_STATUSES as [string, ...string[]]).optional(),
+  categoryId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = FixedAssetListQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const { assets, total } = await listFixedAssets(tenantId, query)
+
+    return NextResponse.json({ assets, total, limit: query.limit, offset: query.offset }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Fixed assets list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = FixedAssetSchema.parse(await request.json())
+    const asset = await createFixedAsset(tenantId, input, ctx.userId)
+
+    await logAuditSafe({
+      action: 'fixed_asset:create',
+      details: { assetId: asset.id, entityId: asset.entityId, assetNumber: asset.assetNumber, costCents: asset.costCents, sourceType: asset.sourceType, sourceId: asset.sourceId },
+    }).catch(() => {})
+
+    return NextResponse.json({ asset }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Fixed asset create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { previousMonthEnd, revalueForeignBalances } from '@/lib/accounting/revaluation'
+import { z } from 'zod'
+
+const RevalueSchema = z.object({
+  entityId: z.string().min(1),
+  asOf: z.coerce.date().optional(), // Defaults to the end of last month
+})
+
+/**
+ * Revalue an entity's open foreign-currency balances at a date's closing
+ * rates. The unrealized entry is reversed on the following day.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = RevalueSchema.parse(await request.json())
+    const entity = await prisma.entity.findFirst({ where: { id: input.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const result = await revalueForeignBalances(entity.id, input.asOf ?? previousMonthEnd(), ctx.userId)
+
+    return NextResponse.json(result, { status: result.entry ? 201 : 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('FX revaluation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { reverseJournalEntry } from '@/lib/accounting/journal'
+import { z } from 'zod'
+
+const ReverseJournalEntrySchema = z.object({
+  date: z.coerce.date().optional(),
+  reason: z.string().trim().max(1000).optional(),
+})
+
+export const POST = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const validated = ReverseJournalEntrySchema.parse(await request.json().catch(() => ({})))
+
+    const entry = await prisma.journalEntry.findFirst({ where: { id, tenantId }, select: { id: true, entityId: true } })
+    if (!entry) {
+      return NextResponse.json({ error: 'Journal entry not found' }, { status: 404 })
+    }
+
+    const reversal = await reverseJournalEntry(id, {
+      date: validated.date,
+      reason: validated.reason,
+      userId: ctx.userId,
+    })
+
+    await logAuditSafe({
+      action: 'ledger:journal_reverse',
+      details: { journalEntryId: id, reversalId: reversal.id, entityId: entry.entityId, reason: validated.reason },
+    }).catch(() => {})
+
+    return NextResponse.json({ reversal }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Journal entry reverse error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
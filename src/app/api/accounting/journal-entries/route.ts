@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { ApiError } from '@/lib/api/error-responses'
+import { createJournalEntry, JournalLineInput } from '@/lib/accounting/journal'
+import { z } from 'zod'
+
+const ListJournalEntriesSchema = z.object({
+  entityId: z.string().min(1),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  sourceType: z.string().optional(),
+  accountId: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+const CreateJournalEntrySchema = z.object({
+  entityId: z.string().min(1),
+  date: z.coerce.date(),
+  description: z.string().trim().min(1).max(1000),
+  currency: z.string().length(3).optional(),
+  lines: z.array(z.object({
+    accountId: z.string().min(1),
+    debitCents: z.number().int().min(0).optional(),
+    creditCents: z.number().int().min(0).optional(),
+    description: z.string().max(500).optional(),
+  })).min(2),
+})
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const filters = ListJournalEntriesSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const entity = await prisma.entity.findFirst({ where: { id: filters.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const where: any = { entityId: filters.entityId, tenantId }
+    if (filters.from || filters.to) {
+      where.date = {
+        ...(filters.from ? { gte: filters.from } : {}),
+        ...(filters.to ? { lte: filters.to } : {}),
+      }
+    }
+    if (filters.sourceType) where.sourceType = filters.sourceType
+    if (filters.accountId) where.lines = { some: { accountId: filters.accountId } }
+
+    const [entries, total] = await Promise.all([
+      prisma.journalEntry.findMany({
+        where,
+        include: {
+          lines: { include: { account: { select: { id: true, code: true, name: true } } } },
+        },
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+      prisma.journalEntry.count({ where }),
+    ])
+
+    return NextResponse.json({
+      entries,
+      pagination: { total, limit: filters.limit, offset: filters.offset },
+    }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Journal entries list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const validated = CreateJournalEntrySchema.parse(await request.json())
+
+    const entity = await prisma.entity.findFirst({ where: { id: validated.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const entry = await createJournalEntry({
+      tenantId,
+      entityId: validated.entityId,
+      date: validated.date,
+      description: validated.description,
+      currency: validated.currency,
+      sourceType: 'manual',
+      createdBy: ctx.userId,
+      lines: validated.lines as JournalLineInput[],
+    })
+
+    await logAuditSafe({
+      action: 'ledger:journal_create',
+      details: { journalEntryId: entry.id, entityId: validated.entityId, lineCount: entry.lines.length },
+    }).catch(() => {})
+
+    return NextResponse.json({ entry }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Journal entry create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { closePeriod } from '@/lib/accounting/periods'
+import { z } from 'zod'
+
+const ClosePeriodSchema = z.object({
+  mode: z.enum(['soft', 'lock']).default('soft'),
+})
+
+export const POST = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const { mode } = ClosePeriodSchema.parse(await request.json().catch(() => ({})))
+
+    const period = await prisma.accountingPeriod.findFirst({ where: { id, tenantId }, select: { id: true } })
+    if (!period) {
+      return NextResponse.json({ error: 'Accounting period not found' }, { status: 404 })
+    }
+
+    const updated = await closePeriod(period.id, ctx.userId, mode)
+
+    return NextResponse.json({ period: updated }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Accounting period close error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
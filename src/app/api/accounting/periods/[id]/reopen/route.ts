@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { requestPeriodReopen } from '@/lib/accounting/periods'
+import { z } from 'zod'
+
+const ReopenRequestSchema = z.object({
+  reason: z.string().trim().min(5).max(1000),
+})
+
+/**
+ * Request that a closed or locked period be re-opened.
+ * Takes effect only once approved via ./approve by another user.
+ */
+export const POST = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const { reason } = ReopenRequestSchema.parse(await request.json())
+
+    const period = await prisma.accountingPeriod.findFirst({ where: { id, tenantId }, select: { id: true } })
+    if (!period) {
+      return NextResponse.json({ error: 'Accounting period not found' }, { status: 404 })
+    }
+
+    const updated = await requestPeriodReopen(period.id, ctx.userId, reason)
+
+    return NextResponse.json({ period: updated, message: 'Re-open requested; awaiting approval' }, { status: 202 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Accounting period reopen request error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
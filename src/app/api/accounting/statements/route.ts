@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { generateFinancialStatements, StatementType } from '@/lib/accounting/statements'
+import { renderStatementsPdf, renderStatementsXlsx } from '@/lib/accounting/statement-export'
+import { z } from 'zod'
+
+const STATEMENT_TYPES = ['income_statement', 'balance_sheet', 'cash_flow'] as const
+
+const StatementsQuerySchema = z
+  .object({
+    entityId: z.string().min(1),
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    comparison: z.enum(['none', 'prior_period', 'prior_year']).default('none'),
+    consolidate: z.enum(['true', 'false']).default('false').transform((v) => v === 'true'),
+    // Comma-separated; all three when omitted
+    statements: z
+      .string()
+      .optional()
+      .transform((v) => (v ? v.split(',').map((s) => s.trim()) : []))
+      .pipe(z.array(z.enum(STATEMENT_TYPES))),
+    format: z.enum(['json', 'pdf', 'xlsx']).default('json'),
+  })
+  .refine((q) => q.from <= q.to, { message: 'from must not be after to', path: ['from'] })
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = StatementsQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const entity = await prisma.entity.findFirst({ where: { id: query.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const result = await generateFinancialStatements(tenantId, entity.id, {
+      from: query.from,
+      to: query.to,
+      comparison: query.comparison,
+      consolidate: query.consolidate,
+      types: query.statements as StatementType[],
+    })
+
+    if (query.format === 'json') {
+      return NextResponse.json(result, { status: 200 })
+    }
+
+    const filename = `financial-statements-${query.to.toISOString().slice(0, 10)}.${query.format}`
+    const body = query.format === 'pdf' ? await renderStatementsPdf(result) : await renderStatementsXlsx(result)
+    return new NextResponse(new Uint8Array(body), {
+      status: 200,
+      headers: {
+        'Content-Type': query.format === 'pdf' ? 'application/pdf' : 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Financial statements error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { getTrialBalance } from '@/lib/accounting/journal'
+import { z } from 'zod'
+
+const TrialBalanceQuerySchema = z.object({
+  entityId: z.string().min(1),
+  asOf: z.coerce.date().optional(),
+  from: z.coerce.date().optional(),
+})
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = TrialBalanceQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const entity = await prisma.entity.findFirst({ where: { id: query.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const trialBalance = await getTrialBalance(query.entityId, { asOf: query.asOf, from: query.from })
+
+    return NextResponse.json({ trialBalance }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Trial balance error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { buildYearEndChecklist, closeFiscalYear } from '@/lib/accounting/year-end'
+import { z } from 'zod'
+
+const YearEndSchema = z.object({
+  entityId: z.string().min(1),
+  fiscalYear: z.coerce.number().int().min(2000).max(2100),
+})
+
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = YearEndSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const entity = await prisma.entity.findFirst({ where: { id: query.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const [checklist, close] = await Promise.all([
+      buildYearEndChecklist(entity.id, query.fiscalYear),
+      prisma.fiscalYearClose.findUnique({
+        where: { entityId_fiscalYear: { entityId: entity.id, fiscalYear: query.fiscalYear } },
+      }),
+    ])
+
+    return NextResponse.json({
+      fiscalYear: query.fiscalYear,
+      status: close?.status ?? 'NOT_STARTED',
+      checklist,
+      canClose: close?.status !== 'COMPLETED' && checklist.every((item) => !item.blocking || item.passed),
+    }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+
+    console.error('Year-end checklist error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.FINANCIAL_SETTINGS_EDIT)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const validated = YearEndSchema.parse(await request.json())
+
+    const entity = await prisma.entity.findFirst({ where: { id: validated.entityId, tenantId }, select: { id: true } })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    const result = await closeFiscalYear(entity.id, validated.fiscalYear, ctx.userId)
+
+    return NextResponse.json({ success: true, ...result }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Year-end close error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
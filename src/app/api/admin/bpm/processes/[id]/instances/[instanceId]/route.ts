@@ -0,0 +1,103 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { withTenantContext } from '@/lib/api-wrapper';
+import { requireTenantContext } from '@/lib/tenant-utils';
+import { hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { ApiError } from '@/lib/api/error-responses';
+import { processEngine } from '@/lib/bpm/process-engine';
+
+const InstanceActionSchema = z.object({
+  action: z.enum(['suspend', 'resume', 'cancel', 'retry']),
+  reason: z.string().max(500).optional(),
+});
+
+type RouteContext = { params: Promise<{ id: string; instanceId: string }> };
+
+/**
+ * GET /api/admin/bpm/processes/[id]/instances/[instanceId]
+ * An instance with its history
+ */
+export const GET = withTenantContext(
+  async (_request: NextRequest, context: RouteContext) => {
+    try {
+      const { role } = requireTenantContext();
+      if (!hasPermission(role, PERMISSIONS.TASK_WORKFLOW_SETTINGS_VIEW)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      const { id, instanceId } = await context.params;
+
+      const instance = await processEngine.getProcessInstance(instanceId);
+      if (!instance || instance.processId !== id) {
+        return NextResponse.json({ error: 'Process instance not found' }, { status: 404 });
+      }
+
+      const history = await processEngine.getInstanceHistory(instanceId);
+
+      return NextResponse.json({
+        success: true,
+        data: { ...instance, history },
+      });
+    } catch (error) {
+      logger.error('Failed to load process instance', { error });
+      return NextResponse.json(
+        { error: 'Failed to load process instance' },
+        { status: 500 }
+      );
+    }
+  },
+  { requireAuth: true }
+);
+
+/**
+ * PATCH /api/admin/bpm/processes/[id]/instances/[instanceId]
+ * Suspend, resume, cancel or retry an instance
+ */
+export const PATCH = withTenantContext(
+  async (request: NextRequest, context: RouteContext) => {
+    try {
+      const { userId, role } = requireTenantContext();
+      if (!hasPermission(role, PERMISSIONS.TASK_WORKFLOW_SETTINGS_EDIT)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      const { id, instanceId } = await context.params;
+
+      const body = await request.json();
+      const { action, reason } = InstanceActionSchema.parse(body);
+
+      const existing = await processEngine.getProcessInstance(instanceId);
+      if (!existing || existing.processId !== id) {
+        return NextResponse.json({ error: 'Process instance not found' }, { status: 404 });
+      }
+
+      const actor = userId || 'system';
+      const instance =
+        action === 'suspend' ? await processEngine.suspendInstance(instanceId, actor, reason)
+        : action === 'resume' ? await processEngine.resumeInstance(instanceId, actor)
+        : action === 'cancel' ? await processEngine.cancelInstance(instanceId, actor, reason)
+        : await processEngine.retryInstance(instanceId, actor);
+
+      return NextResponse.json({
+        success: true,
+        data: instance,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request body', details: error.flatten() },
+          { status: 400 }
+        );
+      }
+      if (error instanceof ApiError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+      }
+
+      logger.error('Failed to update process instance', { error });
+      return NextResponse.json(
+        { error: 'Failed to update process instance' },
+        { status: 500 }
+      );
+    }
+  },
+  { requireAuth: true }
+);
@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { withTenantContext } from '@/lib/api-wrapper';
+import { requireTenantContext } from '@/lib/tenant-utils';
+import { hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { ApiError } from '@/lib/api/error-responses';
+import { InstanceStatus, processEngine } from '@/lib/bpm/process-engine';
+
+const StartInstanceSchema = z.object({
+  businessKey: z.string().max(200).optional(),
+  variables: z.record(z.any()).optional(),
+});
+
+/**
+ * GET /api/admin/bpm/processes/[id]/instances
+ * List a process's instances, newest first
+ */
+export const GET = withTenantContext(
+  async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+    try {
+      const { role } = requireTenantContext();
+      if (!hasPermission(role, PERMISSIONS.TASK_WORKFLOW_SETTINGS_VIEW)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      const { id } = await context.params;
+
+      const { searchParams } = new URL(request.url);
+      const status = searchParams.get('status') as InstanceStatus | null;
+      const limit = Math.min(Number(searchParams.get('limit')) || 50, 200);
+
+      const process = await processEngine.getProcessDefinition(id);
+      if (!process) {
+        return NextResponse.json({ error: 'Process definition not found' }, { status: 404 });
+      }
+
+      const instances = await processEngine.listProcessInstances({ processId: id, status: status ?? undefined, limit });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          instances,
+          total: instances.length,
+        },
+      });
+    } catch (error) {
+      logger.error('Failed to list process instances', { error });
+      return NextResponse.json(
+        { error: 'Failed to list process instances' },
+        { status: 500 }
+      );
+    }
+  },
+  { requireAuth: true }
+);
+
+/**
+ * POST /api/admin/bpm/processes/[id]/instances
+ * Start an instance of an active process
+ */
+export const POST = withTenantContext(
+  async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+    try {
+      const { userId, role } = requireTenantContext();
+      if (!hasPermission(role, PERMISSIONS.TASK_WORKFLOW_SETTINGS_EDIT)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      const { id } = await context.params;
+
+      const body = await request.json();
+      const validated = StartInstanceSchema.parse(body);
+
+      const instance = await processEngine.startProcess(id, {
+        businessKey: validated.businessKey,
+        variables: validated.variables,
+        startedBy: userId || 'system',
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: instance,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request body', details: error.flatten() },
+          { status: 400 }
+        );
+      }
+      if (error instanceof ApiError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+      }
+
+      logger.error('Failed to start process instance', { error });
+      return NextResponse.json(
+        { error: 'Failed to start process instance' },
+        { status: 500 }
+      );
+    }
+  },
+  { requireAuth: true }
+);
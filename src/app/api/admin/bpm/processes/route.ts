@@ -3,7 +3,15 @@ import { z } from 'zod';
 import { logger } from '@/lib/logger';
 import { withTenantContext } from '@/lib/api-wrapper';
 import { requireTenantContext } from '@/lib/tenant-utils';
-import { processEngine, ProcessStatus } from '@/lib/bpm/process-engine';
+import { hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { ApiError } from '@/lib/api/error-responses';
+import { processEngine, ProcessDefinition, ProcessStatus } from '@/lib/bpm/process-engine';
+
+const ConditionSchema = z.object({
+  field: z.string(),
+  operator: z.enum(['equals', 'notEquals', 'greaterThan', 'lessThan', 'contains', 'in']),
+  value: z.any(),
+});
 
 const ProcessDefinitionSchema = z.object({
   id: z.string().min(1),
@@ -19,6 +27,14 @@ const ProcessDefinitionSchema = z.object({
     assigneeRole: z.string().optional(),
     duration: z.number().optional(),
     dependencies: z.array(z.string()).optional(),
+    nextSteps: z.array(z.string()).optional(),
+    conditions: z.array(ConditionSchema).optional(),
+    retryPolicy: z.object({
+      maxRetries: z.number().int().min(0),
+      backoffMultiplier: z.number().min(1),
+      initialDelayMs: z.number().int().min(0),
+    }).optional(),
+    escalateTo: z.array(z.string()).max(3).optional(),
   })),
   rules: z.array(z.any()).optional(),
 });
@@ -30,14 +46,17 @@ const ProcessDefinitionSchema = z.object({
 export const GET = withTenantContext(
   async (request: NextRequest) => {
     try {
-      const { userId } = requireTenantContext();
+      const { role } = requireTenantContext();
+      if (!hasPermission(role, PERMISSIONS.TASK_WORKFLOW_SETTINGS_VIEW)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
 
       const { searchParams } = new URL(request.url);
       const status = searchParams.get('status') as ProcessStatus | null;
 
       const processes = status
-        ? processEngine.listProcessDefinitions(status)
-        : processEngine.listProcessDefinitions();
+        ? await processEngine.listProcessDefinitions(status)
+        : await processEngine.listProcessDefinitions();
 
       return NextResponse.json({
         success: true,
@@ -64,15 +83,19 @@ export const GET = withTenantContext(
 export const POST = withTenantContext(
   async (request: NextRequest) => {
     try {
-      const { userId } = requireTenantContext();
+      const { userId, tenantId, role } = requireTenantContext();
+      if (!hasPermission(role, PERMISSIONS.TASK_WORKFLOW_SETTINGS_EDIT)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
 
       const body = await request.json();
       const validated = ProcessDefinitionSchema.parse(body);
 
-      const process = processEngine.createProcessDefinition({
+      const process = await processEngine.createProcessDefinition({
         ...validated,
+        tenantId: tenantId ?? undefined,
         createdBy: userId || 'system',
-      });
+      } as Omit<ProcessDefinition, 'createdAt' | 'updatedAt'>);
 
       return NextResponse.json({
         success: true,
@@ -85,6 +108,9 @@ export const POST = withTenantContext(
           { status: 400 }
         );
       }
+      if (error instanceof ApiError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+      }
 
       logger.error('Failed to create process definition', { error });
       return NextResponse.json(
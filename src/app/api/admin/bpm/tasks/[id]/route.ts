@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { logger } from '@/lib/logger';
+import { withTenantContext } from '@/lib/api-wrapper';
+import { requireTenantContext } from '@/lib/tenant-utils';
+import { hasPermission, PERMISSIONS } from '@/lib/permissions';
+import { ApiError } from '@/lib/api/error-responses';
+import { processEngine, TaskStatus } from '@/lib/bpm/process-engine';
+
+const TaskUpdateSchema = z.object({
+  status: z.enum([TaskStatus.IN_PROGRESS, TaskStatus.COMPLETED, TaskStatus.FAILED]),
+  output: z.record(z.any()).optional(),
+});
+
+/**
+ * PATCH /api/admin/bpm/tasks/[id]
+ * Work on, complete or fail a task; finishing one advances its instance
+ */
+export const PATCH = withTenantContext(
+  async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+    try {
+      const { userId, role } = requireTenantContext();
+      if (!hasPermission(role, PERMISSIONS.TASKS_UPDATE)) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+      }
+      const { id } = await context.params;
+
+      const body = await request.json();
+      const validated = TaskUpdateSchema.parse(body);
+
+      const task = await processEngine.updateTaskStatus(id, validated.status, userId || 'system', validated.output);
+
+      return NextResponse.json({
+        success: true,
+        data: task,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return NextResponse.json(
+          { error: 'Invalid request body', details: error.flatten() },
+          { status: 400 }
+        );
+      }
+      if (error instanceof ApiError) {
+        return NextResponse.json({ error: error.message, code: error.code }, { status: error.status });
+      }
+
+      logger.error('Failed to update task', { error });
+      return NextResponse.json(
+        { error: 'Failed to update task' },
+        { status: 500 }
+      );
+    }
+  },
+  { requireAuth: true }
+);
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { logAudit } from '@/lib/audit'
+import { issueFullCreditNote } from '@/lib/invoicing/adjustments'
+import { z } from 'zod'
+
+const CreditRejectedSchema = z.object({
+  reason: z.string().trim().min(3).max(1000),
+})
+
+/**
+ * Correct a rejected invoice by crediting it in full, which resolves the
+ * rejection. The corrected invoice is then issued as a new invoice.
+ */
+export const POST = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const input = CreditRejectedSchema.parse(await request.json())
+
+    const submission = await prisma.eInvoiceSubmission.findFirst({ where: { id, tenantId } })
+    if (!submission) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+    if (submission.status !== 'REJECTED' || submission.resolvedAt) {
+      return NextResponse.json({ error: 'Only unresolved rejections are corrected here', code: 'INVALID_STATE' }, { status: 409 })
+    }
+
+    const note = await issueFullCreditNote({
+      tenantId,
+      originalInvoiceId: submission.invoiceId,
+      reason: input.reason,
+      userId: ctx.userId,
+    })
+
+    await logAudit({
+      action: 'invoice.credit_note',
+      actorId: ctx.userId,
+      targetId: submission.invoiceId,
+      details: { noteId: note.id, totalCents: note.totalCents, reason: input.reason, submissionId: id },
+    })
+
+    return NextResponse.json({ note }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('E-invoice rejection credit note error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { logAudit } from '@/lib/audit'
+import { attemptSubmission } from '@/lib/einvoicing/submissions'
+
+/**
+ * Retry a stalled submission now. The attempt counter restarts so the
+ * submission gets a fresh round of automatic retries.
+ */
+export const POST = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const existing = await prisma.eInvoiceSubmission.findFirst({ where: { id, tenantId } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Submission not found' }, { status: 404 })
+    }
+    if (existing.status !== 'DRAFT' && existing.status !== 'SIGNED') {
+      return NextResponse.json(
+        {
+          error: existing.status === 'REJECTED' ? 'Rejected submissions are corrected with a credit note' : `Cannot retry a ${existing.status} submission`,
+          code: existing.status === 'REJECTED' ? 'REJECTED_REQUIRES_CREDIT_NOTE' : 'INVALID_STATE',
+        },
+        { status: 409 }
+      )
+    }
+
+    const reset = await prisma.eInvoiceSubmission.update({
+      where: { id },
+      data: { attempts: 0, nextAttemptAt: null },
+    })
+    const submission = await attemptSubmission(reset)
+
+    await logAudit({
+      action: 'einvoicing.submission.retry',
+      actorId: ctx.userId,
+      targetId: submission.invoiceId,
+      details: { submissionId: id, status: submission.status },
+    })
+
+    return NextResponse.json({ submission })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('E-invoice submission retry error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { parseListQuery } from '@/schemas/list-query'
+
+/**
+ * E-invoice submission queue. `status=REJECTED` lists rejected documents
+ * with their validation messages; `status=stalled` lists submissions
+ * waiting on a retry or out of retries.
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const { page, limit, skip, sortBy, sortOrder, q } = parseListQuery(searchParams, {
+      allowedSortBy: ['createdAt', 'updatedAt', 'rejectedAt', 'attempts'],
+      defaultSortBy: 'updatedAt',
+      maxLimit: 100,
+    })
+
+    const where: any = { tenantId }
+    const status = searchParams.get('status')
+    if (status === 'stalled') {
+      where.status = { in: ['DRAFT', 'SIGNED'] }
+      where.attempts = { gt: 0 }
+    } else if (status && status !== 'all') {
+      where.status = status
+    }
+    const resolved = searchParams.get('resolved')
+    if (resolved === 'true') where.resolvedAt = { not: null }
+    if (resolved === 'false') where.resolvedAt = null
+    const standard = searchParams.get('standard')
+    if (standard && standard !== 'all') where.standard = standard
+    if (q) where.invoice = { number: { contains: q, mode: 'insensitive' } }
+
+    const [submissions, total] = await Promise.all([
+      prisma.eInvoiceSubmission.findMany({
+        where,
+        include: {
+          invoice: {
+            select: {
+              id: true,
+              number: true,
+              documentType: true,
+              totalCents: true,
+              creditedCents: true,
+              currency: true,
+              client: { select: { id: true, name: true } },
+            },
+          },
+          resolvedBy: { select: { id: true, number: true } },
+        },
+        orderBy: { [sortBy]: sortOrder } as any,
+        skip,
+        take: limit,
+      }),
+      prisma.eInvoiceSubmission.count({ where }),
+    ])
+
+    return NextResponse.json({ submissions, total, page, limit })
+  } catch (error) {
+    console.error('E-invoice submissions fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { ApiError } from '@/lib/api/error-responses'
+import { ExpenseReviewSchema, reviewExpense } from '@/lib/expenses/review'
+
+/**
+ * Accept a receipt with corrected fields, or reject it
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = ExpenseReviewSchema.parse(body)
+    const expense = await reviewExpense(tenantId, params.id, input, ctx.userId)
+
+    await logAuditSafe({
+      action: input.action === 'accept' ? 'expense:review_accept' : 'expense:review_reject',
+      details: { expenseId: expense.id, ...(input.action === 'reject' ? { reason: input.reason } : { learned: input.remember }) },
+    }).catch(() => {})
+
+    return NextResponse.json(expense, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Expense review error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
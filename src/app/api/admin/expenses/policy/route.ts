@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { ExpensePolicySchema, getExpensePolicy, saveExpensePolicy } from '@/lib/expenses/policy'
+
+/**
+ * The tenant's expense policy
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return respond.unauthorized()
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const policy = await getExpensePolicy(tenantId)
+
+    return NextResponse.json(policy, { status: 200 })
+  } catch (error) {
+    console.error('Expense policy get error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Replace the tenant's expense policy. Claims are checked against it the
+ * next time they change or are submitted.
+ */
+export const PUT = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = ExpensePolicySchema.parse(body)
+    const policy = await saveExpensePolicy(tenantId, input, ctx.userId)
+
+    await logAuditSafe({
+      action: 'expense:update_policy',
+      details: { categoryCaps: policy.categoryCaps, receiptRequiredAboveCents: policy.receiptRequiredAboveCents },
+    }).catch(() => {})
+
+    return NextResponse.json(policy, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    console.error('Expense policy update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
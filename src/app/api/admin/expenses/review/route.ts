@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { listReviewQueue } from '@/lib/expenses/review'
+
+const QuerySchema = z.object({
+  reason: z.string().max(40).optional(),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+})
+
+/**
+ * Receipts waiting for a reviewer, optionally only those flagged for one reason
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.ANALYTICS_VIEW)) {
+      return respond.unauthorized()
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const query = QuerySchema.parse({
+      reason: searchParams.get('reason') || undefined,
+      limit: searchParams.get('limit') || undefined,
+      offset: searchParams.get('offset') || undefined,
+    })
+
+    const queue = await listReviewQueue(tenantId, { reason: query.reason, limit: query.limit, offset: query.offset })
+
+    return NextResponse.json(queue, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    console.error('Expense review queue error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -8,12 +8,18 @@ import { tenantFilter, isMultiTenancyEnabled } from '@/lib/tenant'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext, getTenantFilter } from '@/lib/tenant-utils'
 import { respond } from '@/lib/api-response'
+import { ApiError } from '@/lib/api/error-responses'
+import { assertPostingPeriodOpen, captureDocumentRate, postExpense, postSafely } from '@/lib/accounting/posting'
+import { capturedAmounts } from '@/lib/accounting/fx'
+import { reverseJournalEntry } from '@/lib/accounting/journal'
+import { resolveExpenseTax } from '@/lib/invoicing/line-tax'
 
 const EXPENSE_STATUSES = ['PENDING', 'APPROVED', 'REIMBURSED', 'REJECTED'] as const
 
 const expenseCreateSchema = z.object({
   vendor: z.string().trim().min(1, 'vendor is required'),
   category: z.string().trim().min(1).max(120).optional(),
+  costCenter: z.string().trim().min(1).max(60).optional().nullable(),
   status: z
     .string()
     .trim()
@@ -30,6 +36,10 @@ const expenseCreateSchema = z.object({
     .optional(),
   date: z.union([z.string(), z.date()]),
   attachmentId: z.string().trim().min(1).optional().nullable(),
+  entityId: z.string().trim().min(1).optional().nullable(),
+  taxCodeId: z.string().trim().min(1).optional().nullable(),
+  isImport: z.boolean().optional(),
+  exchangeRate: z.number().positive().optional().nullable(),
 })
 
 const expenseDeleteSchema = z.object({
@@ -143,22 +153,42 @@ export const POST = withTenantContext(async (request: NextRequest) => {
     if (!tenantId) {
       return NextResponse.json({ error: 'Tenant context missing' }, { status: 400 })
     }
-    const { vendor, category, status, amountCents, currency, date, attachmentId } = parsed.data
+    const { vendor, category, costCenter, status, amountCents, currency, date, attachmentId, entityId, taxCodeId, isImport, exchangeRate } = parsed.data
 
     const expenseDate = date instanceof Date ? date : new Date(date)
     if (!Number.isFinite(expenseDate.getTime())) {
       return NextResponse.json({ error: 'Invalid date' }, { status: 400 })
     }
 
+    if (entityId) {
+      const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId }, select: { id: true } })
+      if (!entity) return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    await assertPostingPeriodOpen(tenantId, entityId, expenseDate, 'expense')
+
+    const grossCents = Math.max(0, Math.round(amountCents))
+    const tax = await resolveExpenseTax(tenantId, grossCents, taxCodeId, expenseDate)
+    const expenseCurrency = (currency || 'USD').toUpperCase()
+    const rate = await captureDocumentRate(tenantId, entityId, expenseCurrency, expenseDate, exchangeRate)
+
     const expense = await prisma.expense.create({
       data: {
         vendor,
         category: category || 'general',
+        costCenter: costCenter ?? null,
         status: (status as typeof EXPENSE_STATUSES[number]) || 'PENDING',
-        amountCents: Math.max(0, Math.round(amountCents)),
-        currency: (currency || 'USD').toUpperCase(),
+        amountCents: grossCents,
+        currency: expenseCurrency,
         date: expenseDate,
+        taxCategory: tax.taxCategory,
+        taxRate: tax.taxRatePercent,
+        taxCents: tax.taxCents,
+        isImport: Boolean(isImport),
+        ...capturedAmounts(rate, { functionalAmountCents: grossCents, functionalTaxCents: tax.taxCents }),
+        ...(tax.taxCodeId ? { taxCode: { connect: { id: tax.taxCodeId } } } : {}),
         ...(attachmentId ? { attachment: { connect: { id: attachmentId } } } : {}),
+        ...(entityId ? { entity: { connect: { id: entityId } } } : {}),
         ...(requireTenantContext().userId ? { user: { connect: { id: requireTenantContext().userId! } } } : {}),
         tenant: { connect: { id: tenantId } },
       },
@@ -168,8 +198,13 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       },
     })
 
+    await postSafely('expense', expense.id, () => postExpense(expense.id, ctx.userId))
+
     return NextResponse.json({ message: 'Expense created', expense }, { status: 201 })
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
     console.error('Error creating expense:', error)
     return NextResponse.json({ error: 'Failed to create expense' }, { status: 500 })
   }
@@ -200,9 +235,28 @@ export const DELETE = withTenantContext(async (request: NextRequest) => {
       Object.assign(where, getTenantFilter())
     }
 
-    const result = await prisma.expense.deleteMany({ where })
+    const expenses = await prisma.expense.findMany({ where, select: { id: true, tenantId: true, entityId: true, date: true } })
+    for (const expense of expenses) {
+      await assertPostingPeriodOpen(expense.tenantId, expense.entityId, expense.date, 'expense')
+    }
+    const ids = expenses.map((expense) => expense.id)
+
+    // A posted expense leaves the ledger with it: its entries are reversed, not orphaned
+    const result = await prisma.$transaction(async (tx) => {
+      const entries = await tx.journalEntry.findMany({
+        where: { sourceType: 'expense', sourceId: { in: ids }, status: 'POSTED' },
+        select: { id: true },
+      })
+      for (const entry of entries) {
+        await reverseJournalEntry(entry.id, { reason: 'Expense deleted', userId: ctx.userId, tx })
+      }
+      return tx.expense.deleteMany({ where: { id: { in: ids } } })
+    })
     return NextResponse.json({ message: `Deleted ${result.count} expenses`, deleted: result.count })
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
     console.error('Error deleting expenses:', error)
     return NextResponse.json({ error: 'Failed to delete expenses' }, { status: 500 })
   }
@@ -5,6 +5,7 @@ import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { logAudit } from '@/lib/audit'
 import { respond } from '@/lib/api-response'
+import { requireStepUp } from '@/lib/security/step-up'
 
 export const runtime = 'nodejs'
 
@@ -36,6 +37,8 @@ export const GET = withTenantContext(async (request: NextRequest) => {
     if (!hasPermission(role, PERMISSIONS.ANALYTICS_EXPORT)) {
       return respond.forbidden('Forbidden')
     }
+    const stepUp = await requireStepUp(request, PERMISSIONS.ANALYTICS_EXPORT, { userId: ctx.userId, tenantId: ctx.tenantId })
+    if (stepUp) return stepUp
 
     const { searchParams } = new URL(request.url)
     const entity = (searchParams.get('entity') || '').toLowerCase()
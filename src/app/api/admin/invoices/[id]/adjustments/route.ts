@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { logAudit } from '@/lib/audit'
+import { issueAdjustmentNote } from '@/lib/invoicing/adjustments'
+import { InvoiceLineInput } from '@/lib/invoicing/line-tax'
+import { z } from 'zod'
+
+const AdjustmentLineSchema = z.object({
+  description: z.string().trim().min(1).max(500),
+  quantity: z.number().int().positive().default(1),
+  unitPriceCents: z.number().int().nonnegative(),
+  discountCents: z.number().int().nonnegative().optional(),
+  taxInclusive: z.boolean().optional(),
+  taxCodeId: z.string().optional().nullable(),
+  itemCode: z.string().trim().max(100).optional().nullable(),
+})
+
+const IssueAdjustmentSchema = z.object({
+  type: z.enum(['CREDIT_NOTE', 'DEBIT_NOTE']),
+  reason: z.string().trim().min(3).max(1000),
+  issueDate: z.coerce.date().optional(),
+  lines: z.array(AdjustmentLineSchema).min(1),
+})
+
+/**
+ * List credit and debit notes issued against an invoice
+ */
+export const GET = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const invoice = await prisma.invoice.findFirst({
+      where: { id, tenantId },
+      select: { id: true, totalCents: true, paidCents: true, creditedCents: true, status: true },
+    })
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    const adjustments = await prisma.invoice.findMany({
+      where: { originalInvoiceId: id, tenantId },
+      include: { items: true },
+      orderBy: { issueDate: 'asc' },
+    })
+
+    return NextResponse.json({ invoice, adjustments })
+  } catch (error) {
+    console.error('Invoice adjustments fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Issue a credit or debit note against an invoice
+ */
+export const POST = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const input = IssueAdjustmentSchema.parse(await request.json())
+
+    const note = await issueAdjustmentNote({
+      tenantId,
+      originalInvoiceId: id,
+      type: input.type,
+      reason: input.reason,
+      issueDate: input.issueDate,
+      lines: input.lines as InvoiceLineInput[],
+      userId: ctx.userId,
+    })
+
+    await logAudit({
+      action: input.type === 'CREDIT_NOTE' ? 'invoice.credit_note' : 'invoice.debit_note',
+      actorId: ctx.userId,
+      targetId: id,
+      details: { noteId: note.id, totalCents: note.totalCents, reason: input.reason },
+    })
+
+    return NextResponse.json({ note }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Invoice adjustment error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
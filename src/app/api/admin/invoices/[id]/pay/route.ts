@@ -5,6 +5,9 @@ import prisma from '@/lib/prisma'
 import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { logAudit } from '@/lib/audit'
 import { tenantFilter } from '@/lib/tenant'
+import { ApiError } from '@/lib/api/error-responses'
+import { getOutstandingCents } from '@/lib/invoicing/balances'
+import { recordPayment } from '@/lib/invoicing/payments'
 
 export const POST = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
   try {
@@ -20,15 +23,31 @@ export const POST = withTenantContext(async (_request: NextRequest, context: { p
     const existing = await prisma.invoice.findFirst({ where: { id, ...tenantFilter(ctx.tenantId) } })
     if (!existing) return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
 
-    if ((existing as any).status === 'PAID') {
+    const outstandingCents = getOutstandingCents(existing)
+    if (existing.status === 'PAID' || outstandingCents <= 0) {
       return NextResponse.json({ message: 'Already paid', invoice: existing })
     }
 
-    const updated = await prisma.invoice.update({ where: { id }, data: { status: 'PAID' as any, paidAt: new Date() } })
+    // Settle the remaining balance with a single payment
+    await recordPayment({
+      tenantId: existing.tenantId,
+      entityId: existing.entityId,
+      clientId: existing.clientId,
+      amountCents: outstandingCents,
+      currency: existing.currency,
+      method: 'manual',
+      allocations: [{ invoiceId: id, amountCents: outstandingCents }],
+      createdBy: ctx.userId ?? null,
+    })
+
+    const updated = await prisma.invoice.findUnique({ where: { id } })
     await logAudit({ action: 'invoice.pay', actorId: ctx.userId ?? null, targetId: id })
 
     return NextResponse.json({ message: 'Invoice marked as paid', invoice: updated })
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
     console.error('Error marking invoice paid:', error)
     return NextResponse.json({ error: 'Failed to mark invoice as paid' }, { status: 500 })
   }
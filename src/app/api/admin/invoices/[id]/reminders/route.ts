@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { listInvoiceReminders } from '@/lib/invoicing/reminders'
+
+/**
+ * Payment reminders sent for an invoice, newest first
+ */
+export const GET = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const invoice = await prisma.invoice.findFirst({ where: { id, tenantId }, select: { id: true } })
+    if (!invoice) {
+      return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
+    }
+
+    const reminders = await listInvoiceReminders(tenantId, id)
+    return NextResponse.json({ reminders })
+  } catch (error) {
+    console.error('Invoice reminders error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
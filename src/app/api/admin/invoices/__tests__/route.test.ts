@@ -0,0 +1,96 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { NextRequest } from 'next/server'
+
+// Invoices, the payments and notes referring to them, and what the route
+// deletes. Plain functions: the global setup resets vi.fn implementations
+// after each test.
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>
+  const state = {
+    invoices: [] as Row[],
+    allocations: [] as Row[],
+    deleted: [] as string[],
+    reversed: [] as string[],
+  }
+
+  const prisma: Row = {
+    eInvoiceSubmission: { findMany: async () => [] },
+    paymentAllocation: {
+      findMany: async ({ where }: Row) => state.allocations.filter((a) => where.invoiceId.in.includes(a.invoiceId)),
+    },
+    invoice: {
+      findMany: async ({ where }: Row) =>
+        where.originalInvoiceId
+          ? state.invoices.filter((i) => where.originalInvoiceId.in.includes(i.originalInvoiceId))
+          : state.invoices.filter((i) => where.id.in.includes(i.id)),
+      deleteMany: async ({ where }: Row) => {
+        state.deleted.push(...where.id.in)
+        return { count: where.id.in.length }
+      },
+    },
+    journalEntry: { findMany: async () => [{ id: 'je_1' }] },
+  }
+  prisma.$transaction = async (fn: (tx: Row) => unknown) => fn(prisma)
+
+  return { state, prisma }
+})
+
+vi.mock('@/lib/prisma', () => ({ default: db.prisma }))
+vi.mock('@/lib/api-wrapper', () => ({ withTenantContext: (fn: any) => fn }))
+vi.mock('@/lib/tenant-utils', () => ({ requireTenantContext: () => ({ userId: 'u1', role: 'ADMIN', tenantId: 't1' }) }))
+vi.mock('@/lib/tenant', () => ({ tenantFilter: (tenantId: string) => ({ tenantId }) }))
+vi.mock('@/lib/audit', () => ({ logAudit: async () => undefined }))
+vi.mock('@/lib/accounting/posting', () => ({ assertPostingPeriodOpen: async () => undefined }))
+vi.mock('@/lib/accounting/journal', () => ({
+  reverseJournalEntry: async (id: string) => db.state.reversed.push(id),
+}))
+
+import { DELETE } from '../route'
+
+function deleteRequest(invoiceIds: string[]) {
+  return new NextRequest('http://localhost/api/admin/invoices', { method: 'DELETE', body: JSON.stringify({ invoiceIds }) })
+}
+
+describe('DELETE /api/admin/invoices', () => {
+  const issueDate = new Date('2025-03-01T00:00:00Z')
+
+  beforeEach(() => {
+    process.env.DATABASE_URL = 'postgres://test'
+    db.state.deleted.length = 0
+    db.state.reversed.length = 0
+    db.state.allocations = []
+    db.state.invoices = [
+      { id: 'inv_1', entityId: 'ent_1', issueDate, originalInvoiceId: null },
+      { id: 'inv_2', entityId: 'ent_1', issueDate, originalInvoiceId: null },
+    ]
+  })
+
+  it('should refuse to delete an invoice a payment is allocated to', async () => {
+    db.state.allocations = [{ paymentId: 'pay_1', invoiceId: 'inv_2' }]
+
+    const res = await DELETE(deleteRequest(['inv_1', 'inv_2']))
+
+    expect(res.status).toBe(409)
+    expect((await res.json()).invoiceIds).toEqual(['inv_2'])
+    expect(db.state.deleted).toEqual([])
+    expect(db.state.reversed).toEqual([])
+  })
+
+  it('should refuse to delete an invoice a credit note adjusts', async () => {
+    db.state.invoices.push({ id: 'cn_1', entityId: 'ent_1', issueDate, originalInvoiceId: 'inv_1' })
+
+    const res = await DELETE(deleteRequest(['inv_1']))
+
+    expect(res.status).toBe(409)
+    expect((await res.json()).invoiceIds).toEqual(['inv_1'])
+    expect(db.state.deleted).toEqual([])
+  })
+
+  it('should delete unreferenced invoices and reverse their postings', async () => {
+    const res = await DELETE(deleteRequest(['inv_1', 'inv_2']))
+
+    expect(res.status).toBe(200)
+    expect(db.state.deleted).toEqual(['inv_1', 'inv_2'])
+    expect(db.state.reversed).toEqual(['je_1'])
+  })
+})
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { setReminderOptOut } from '@/lib/invoicing/reminders'
+
+export const runtime = 'nodejs'
+
+const OptOutSchema = z.object({
+  clientId: z.string().min(1),
+  optOut: z.boolean(),
+  reason: z.string().trim().max(255).optional().nullable(),
+})
+
+/**
+ * Clients who receive no payment reminders
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const optOuts = await prisma.paymentReminderOptOut.findMany({
+      where: { tenantId },
+      include: { client: { select: { id: true, name: true, email: true } } },
+      orderBy: { createdAt: 'desc' },
+    })
+    return NextResponse.json({ optOuts }, { status: 200 })
+  } catch (error) {
+    console.error('Payment reminder opt-outs error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Opt a client out of payment reminders, or back in
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = OptOutSchema.parse(body)
+    const client = await prisma.user.findFirst({ where: { id: input.clientId, tenantId }, select: { id: true } })
+    if (!client) {
+      return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+    }
+
+    const result = await setReminderOptOut(tenantId, input.clientId, input.optOut, {
+      reason: input.reason,
+      userId: ctx.userId,
+    })
+
+    await logAuditSafe({
+      action: input.optOut ? 'invoice:reminders_opt_out' : 'invoice:reminders_opt_in',
+      details: { clientId: input.clientId, reason: input.reason ?? null },
+    }).catch(() => {})
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    console.error('Payment reminder opt-out error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
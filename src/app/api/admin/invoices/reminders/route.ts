@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import {
+  getReminderSettings,
+  REMINDER_VARIABLES,
+  ReminderSettingsSchema,
+  ReminderStep,
+  ReminderTemplate,
+  saveReminderSettings,
+} from '@/lib/invoicing/reminders'
+
+export const runtime = 'nodejs'
+
+/**
+ * Payment reminder sequence and email templates
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const settings = await getReminderSettings(tenantId)
+    return NextResponse.json({ ...settings, variables: REMINDER_VARIABLES }, { status: 200 })
+  } catch (error) {
+    console.error('Payment reminder settings error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Replace the reminder steps and/or templates
+ */
+export const PUT = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = ReminderSettingsSchema.parse(body)
+    const settings = await saveReminderSettings(tenantId, {
+      steps: input.steps?.map(
+        (step): ReminderStep => ({
+          name: step.name,
+          offsetDays: step.offsetDays,
+          templateType: step.templateType,
+          enabled: step.enabled,
+        })
+      ),
+      templates: input.templates?.map(
+        (template): ReminderTemplate => ({
+          templateType: template.templateType,
+          locale: template.locale,
+          subject: template.subject,
+          content: template.content,
+          enabled: template.enabled,
+        })
+      ),
+    })
+
+    await logAuditSafe({
+      action: 'invoice:update_reminders',
+      details: { steps: input.steps?.length ?? null, templates: input.templates?.length ?? null },
+    }).catch(() => {})
+
+    return NextResponse.json({ ...settings, variables: REMINDER_VARIABLES }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    console.error('Payment reminder settings update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -7,6 +7,11 @@ import { respond } from '@/lib/api-response'
 import { logAudit } from '@/lib/audit'
 import { parseListQuery } from '@/schemas/list-query'
 import { tenantFilter } from '@/lib/tenant'
+import { ApiError } from '@/lib/api/error-responses'
+import { assertPostingPeriodOpen, captureDocumentRate, postInvoice, postSafely } from '@/lib/accounting/posting'
+import { capturedAmounts } from '@/lib/accounting/fx'
+import { reverseJournalEntry } from '@/lib/accounting/journal'
+import { calculateInvoiceTotals, InvoiceLineInput, resolveInvoiceLines, toInvoiceItemData } from '@/lib/invoicing/line-tax'
 
 function parseDate(value: string | null): Date | undefined {
   if (!value) return undefined
@@ -25,7 +30,7 @@ export const GET = withTenantContext(async (request: NextRequest) => {
 
     const { searchParams } = new URL(request.url)
     const { page, limit, skip, sortBy, sortOrder, q } = parseListQuery(searchParams, {
-      allowedSortBy: ['createdAt', 'updatedAt', 'paidAt', 'totalCents', 'status'],
+      allowedSortBy: ['createdAt', 'updatedAt', 'issueDate', 'dueDate', 'paidAt', 'totalCents', 'status'],
       defaultSortBy: 'createdAt',
       maxLimit: 100,
     })
@@ -36,6 +41,8 @@ export const GET = withTenantContext(async (request: NextRequest) => {
 
     const where: any = { ...tenantFilter(ctx.tenantId) }
     if (statusParam && statusParam !== 'all') where.status = statusParam
+    const documentType = searchParams.get('documentType')
+    if (documentType && documentType !== 'all') where.documentType = documentType
     if (q) {
       where.OR = [
         { number: { contains: q, mode: 'insensitive' } },
@@ -81,51 +88,97 @@ export const POST = withTenantContext(async (request: NextRequest) => {
     if (!hasDb) return NextResponse.json({ error: 'Database not configured' }, { status: 501 })
 
     const body = await request.json().catch(() => null)
-    const { bookingId, items, currency } = body || {}
+    const { bookingId, items, currency, entityId, issueDate: issueDateInput, dueDate: dueDateInput, placeOfSupply, exchangeRate, costCenter } = body || {}
     if (!bookingId && !Array.isArray(items)) {
       return NextResponse.json({ error: 'bookingId or items are required' }, { status: 400 })
     }
 
+    const issueDate = issueDateInput ? new Date(issueDateInput) : new Date()
+    if (!Number.isFinite(issueDate.getTime())) {
+      return NextResponse.json({ error: 'Invalid issueDate' }, { status: 400 })
+    }
+
+    const dueDate = dueDateInput ? new Date(dueDateInput) : null
+    if (dueDate && (!Number.isFinite(dueDate.getTime()) || dueDate < issueDate)) {
+      return NextResponse.json({ error: 'Invalid dueDate' }, { status: 400 })
+    }
+
+    if (entityId) {
+      const entity = await prisma.entity.findFirst({ where: { id: entityId, ...tenantFilter(ctx.tenantId) }, select: { id: true } })
+      if (!entity) return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+
+    await assertPostingPeriodOpen(ctx.tenantId, entityId, issueDate, 'invoice')
+
     let clientId: string | undefined
-    let totalCents = 0
     const resolvedCurrency: string = currency || 'USD'
+    const lineInputs: InvoiceLineInput[] = []
 
     if (bookingId) {
-      const booking = await prisma.booking.findFirst({ where: { id: bookingId, ...tenantFilter(ctx.tenantId) }, include: { service: { select: { price: true } }, client: { select: { id: true } } } })
+      const booking = await prisma.booking.findFirst({ where: { id: bookingId, ...tenantFilter(ctx.tenantId) }, include: { service: { select: { name: true, price: true } }, client: { select: { id: true } } } })
       if (!booking) return NextResponse.json({ error: 'Booking not found' }, { status: 404 })
       clientId = booking.client?.id
       const svcPrice = booking.service?.price ? Number(booking.service.price) : 0
-      if (svcPrice > 0) totalCents = Math.round(svcPrice * 100)
+      if (svcPrice > 0) {
+        lineInputs.push({ description: booking.service?.name || 'Service', quantity: 1, unitPriceCents: Math.round(svcPrice * 100) })
+      }
     }
 
-    const itemRows: { description: string; quantity: number; unitPriceCents: number; totalCents: number }[] = []
     if (Array.isArray(items)) {
       for (const it of items) {
-        const qty = Math.max(1, Number(it.quantity || 1))
-        const unit = Math.max(0, Math.round(Number(it.unitPriceCents || 0)))
-        const rowTotal = qty * unit
-        itemRows.push({ description: String(it.description || 'Item'), quantity: qty, unitPriceCents: unit, totalCents: rowTotal })
-        totalCents += rowTotal
+        lineInputs.push({
+          description: String(it.description || 'Item'),
+          quantity: Number(it.quantity || 1),
+          unitPriceCents: Number(it.unitPriceCents || 0),
+          discountCents: Number(it.discountCents || 0),
+          taxInclusive: Boolean(it.taxInclusive),
+          taxCodeId: it.taxCodeId ? String(it.taxCodeId) : null,
+          itemCode: it.itemCode ? String(it.itemCode) : null,
+        })
       }
     }
 
+    const lines = await resolveInvoiceLines(ctx.tenantId as string, lineInputs, issueDate)
+    const totals = calculateInvoiceTotals(lines)
+    const rate = await captureDocumentRate(
+      ctx.tenantId as string,
+      entityId,
+      resolvedCurrency,
+      issueDate,
+      exchangeRate !== undefined && exchangeRate !== null ? Number(exchangeRate) : null
+    )
+
     const invoice = await prisma.invoice.create({
       data: {
         bookingId: bookingId || null,
         clientId: clientId || null,
+        entityId: entityId || null,
         currency: resolvedCurrency,
-        totalCents,
+        subtotalCents: totals.subtotalCents,
+        discountCents: totals.discountCents,
+        taxCents: totals.taxCents,
+        totalCents: totals.totalCents,
+        taxBreakdown: totals.taxBreakdown as any,
+        ...capturedAmounts(rate, { functionalTotalCents: totals.totalCents, functionalTaxCents: totals.taxCents }),
+        issueDate,
+        dueDate,
+        placeOfSupply: placeOfSupply ? String(placeOfSupply).trim().toUpperCase().slice(0, 10) : null,
+        costCenter: costCenter ? String(costCenter).trim().slice(0, 60) || null : null,
         status: 'UNPAID' as any,
-        items: itemRows.length ? { create: itemRows } : undefined,
+        items: lines.length ? { create: lines.map(toInvoiceItemData) } : undefined,
         tenantId: (ctx as any).tenantId,
       },
       include: { items: true },
     })
 
-    await logAudit({ action: 'invoice.create', actorId: ctx.userId ?? null, targetId: invoice.id, details: { bookingId, totalCents } })
+    await logAudit({ action: 'invoice.create', actorId: ctx.userId ?? null, targetId: invoice.id, details: { bookingId, totalCents: totals.totalCents, taxCents: totals.taxCents } })
+    await postSafely('invoice', invoice.id, () => postInvoice(invoice.id, ctx.userId))
 
     return NextResponse.json({ message: 'Invoice created', invoice }, { status: 201 })
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
     console.error('Error creating invoice:', error)
     return NextResponse.json({ error: 'Failed to create invoice' }, { status: 500 })
   }
@@ -148,10 +201,59 @@ export const DELETE = withTenantContext(async (request: NextRequest) => {
       return NextResponse.json({ error: 'invoiceIds array required' }, { status: 400 })
     }
 
-    const result = await prisma.invoice.deleteMany({ where: { id: { in: invoiceIds }, ...tenantFilter(ctx.tenantId) } })
+    // Invoices sent to a tax authority are kept; they are corrected with credit notes
+    const submitted = await prisma.eInvoiceSubmission.findMany({
+      where: { invoiceId: { in: invoiceIds }, ...tenantFilter(ctx.tenantId) },
+      select: { invoiceId: true },
+      distinct: ['invoiceId'],
+    })
+    if (submitted.length) {
+      return NextResponse.json(
+        { error: 'Invoices submitted for e-invoicing cannot be deleted; issue a credit note instead', invoiceIds: submitted.map((s) => s.invoiceId) },
+        { status: 409 }
+      )
+    }
+
+    const invoices = await prisma.invoice.findMany({
+      where: { id: { in: invoiceIds }, ...tenantFilter(ctx.tenantId) },
+      select: { id: true, entityId: true, issueDate: true },
+    })
+    for (const invoice of invoices) {
+      await assertPostingPeriodOpen(ctx.tenantId, invoice.entityId, invoice.issueDate, 'invoice')
+    }
+    const ids = invoices.map((invoice) => invoice.id)
+
+    // Payments applied to an invoice and notes adjusting it would be left pointing
+    // at nothing; such invoices are voided or credited instead
+    const [allocations, adjustments] = await Promise.all([
+      prisma.paymentAllocation.findMany({ where: { invoiceId: { in: ids } }, select: { invoiceId: true }, distinct: ['invoiceId'] }),
+      prisma.invoice.findMany({ where: { originalInvoiceId: { in: ids } }, select: { originalInvoiceId: true }, distinct: ['originalInvoiceId'] }),
+    ])
+    const referenced = [...new Set([...allocations.map((a) => a.invoiceId), ...adjustments.map((a) => a.originalInvoiceId as string)])]
+    if (referenced.length) {
+      return NextResponse.json(
+        { error: 'Invoices with payments or credit notes cannot be deleted; void or credit them instead', invoiceIds: referenced },
+        { status: 409 }
+      )
+    }
+
+    // A posted invoice leaves the ledger with it: its entries are reversed, not orphaned
+    const result = await prisma.$transaction(async (tx) => {
+      const entries = await tx.journalEntry.findMany({
+        where: { sourceType: 'invoice', sourceId: { in: ids }, status: 'POSTED' },
+        select: { id: true },
+      })
+      for (const entry of entries) {
+        await reverseJournalEntry(entry.id, { reason: 'Invoice deleted', userId: ctx.userId, tx })
+      }
+      return tx.invoice.deleteMany({ where: { id: { in: ids } } })
+    })
     await logAudit({ action: 'invoice.bulk.delete', actorId: ctx.userId ?? null, details: { count: result.count } })
     return NextResponse.json({ message: `Deleted ${result.count} invoices`, deleted: result.count })
   } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
     console.error('Error deleting invoices:', error)
     return NextResponse.json({ error: 'Failed to delete invoices' }, { status: 500 })
   }
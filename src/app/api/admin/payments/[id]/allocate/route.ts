@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { logAudit } from '@/lib/audit'
+import { allocatePayment } from '@/lib/invoicing/payments'
+import { z } from 'zod'
+
+const AllocateSchema = z.object({
+  allocations: z
+    .array(
+      z.object({
+        invoiceId: z.string().min(1),
+        amountCents: z.number().int().positive(),
+      })
+    )
+    .min(1),
+})
+
+/**
+ * Allocate the unallocated remainder of a payment to invoices
+ */
+export const POST = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const { allocations } = AllocateSchema.parse(await request.json())
+
+    const payment = await allocatePayment(id, tenantId, allocations as { invoiceId: string; amountCents: number }[])
+
+    await logAudit({ action: 'payment.allocate', actorId: ctx.userId, targetId: id, details: { allocations } })
+
+    return NextResponse.json({ payment })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Payment allocation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { logAudit } from '@/lib/audit'
+import { recordPayment, RecordPaymentInput } from '@/lib/invoicing/payments'
+import { z } from 'zod'
+
+const AllocationSchema = z.object({
+  invoiceId: z.string().min(1),
+  amountCents: z.number().int().positive(),
+})
+
+const RecordPaymentSchema = z.object({
+  amountCents: z.number().int().positive(),
+  currency: z.string().length(3).optional(),
+  exchangeRate: z.number().positive().optional(), // Functional units per unit of currency; defaults to the stored rate
+  receivedAt: z.coerce.date().optional(),
+  clientId: z.string().optional(),
+  entityId: z.string().optional(),
+  method: z.string().max(50).optional(),
+  reference: z.string().max(200).optional(),
+  allocations: z.array(AllocationSchema).optional(),
+  autoAllocate: z.boolean().optional(),
+})
+
+/**
+ * List received payments with their allocations
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const clientId = searchParams.get('clientId') || undefined
+    const unallocated = searchParams.get('unallocated') === 'true'
+    const limit = Math.min(parseInt(searchParams.get('limit') || '50'), 200)
+    const offset = parseInt(searchParams.get('offset') || '0')
+
+    const where = { tenantId, ...(clientId ? { clientId } : {}) }
+    const payments = await prisma.payment.findMany({
+      where,
+      include: { allocations: { include: { invoice: { select: { id: true, number: true, totalCents: true, status: true } } } } },
+      orderBy: { receivedAt: 'desc' },
+      take: limit,
+      skip: offset,
+    })
+    const total = await prisma.payment.count({ where })
+
+    const results = unallocated ? payments.filter((p) => p.allocatedCents < p.amountCents) : payments
+
+    return NextResponse.json({ payments: results, total, limit, offset })
+  } catch (error) {
+    console.error('Payments fetch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Record a received payment and allocate it to invoices.
+ * With autoAllocate and a clientId, the oldest open invoices are settled first.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = RecordPaymentSchema.parse(await request.json())
+
+    if (input.entityId) {
+      const entity = await prisma.entity.findFirst({ where: { id: input.entityId, tenantId }, select: { id: true } })
+      if (!entity) {
+        return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+      }
+    }
+    if (input.clientId) {
+      const client = await prisma.user.findFirst({ where: { id: input.clientId, tenantId }, select: { id: true } })
+      if (!client) {
+        return NextResponse.json({ error: 'Client not found' }, { status: 404 })
+      }
+    }
+
+    const result = await recordPayment({ ...(input as Omit<RecordPaymentInput, 'tenantId'>), tenantId, createdBy: ctx.userId })
+
+    await logAudit({
+      action: 'payment.record',
+      actorId: ctx.userId,
+      targetId: result.payment.id,
+      details: { amountCents: input.amountCents, allocations: result.payment.allocations.length },
+    })
+
+    return NextResponse.json(result, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('Payment record error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -1,4 +1,4 @@
-import { NextResponse } from 'next/server'
+import { NextResponse, type NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 export const runtime = 'nodejs'
 import type { Prisma } from '@prisma/client'
@@ -7,6 +7,7 @@ import { tenantFilter } from '@/lib/tenant'
 import { getClientIp, applyRateLimit } from '@/lib/rate-limit'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
+import { requireStepUp } from '@/lib/security/step-up'
 
 type ServiceRequestWithRelations = Prisma.ServiceRequestGetPayload<{
   include: {
@@ -20,6 +21,8 @@ export const GET = withTenantContext(async (request: Request) => {
   const ctx = requireTenantContext()
   const role = ctx.role as string | undefined
   if (!ctx.userId || !hasPermission(role, PERMISSIONS.ANALYTICS_EXPORT)) return new NextResponse('Unauthorized', { status: 401 })
+  const stepUp = await requireStepUp(request as NextRequest, PERMISSIONS.ANALYTICS_EXPORT, { userId: ctx.userId, tenantId: ctx.tenantId })
+  if (stepUp) return stepUp
 
   const ip = getClientIp(request)
   {
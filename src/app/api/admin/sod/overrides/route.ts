@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { SOD_ACTIONS, SoDAction } from '@/lib/rbac/sod-engine'
+
+/**
+ * Segregation of duties overrides with their justification, newest first.
+ * Filter with `action`, `from` and `to`.
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.SECURITY_COMPLIANCE_SETTINGS_VIEW)) {
+      return respond.unauthorized()
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const params = request.nextUrl.searchParams
+    const action = params.get('action')
+    if (action && !SOD_ACTIONS.includes(action as SoDAction)) {
+      return NextResponse.json({ error: `Unknown action: ${action}` }, { status: 400 })
+    }
+    const from = params.get('from') ? new Date(params.get('from')!) : null
+    const to = params.get('to') ? new Date(params.get('to')!) : null
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return NextResponse.json({ error: 'Invalid date range' }, { status: 400 })
+    }
+
+    const overrides = await prisma.sodOverride.findMany({
+      where: {
+        tenantId,
+        ...(action ? { action } : {}),
+        ...(from || to ? { createdAt: { ...(from ? { gte: from } : {}), ...(to ? { lte: to } : {}) } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 500,
+    })
+
+    return NextResponse.json({ overrides }, { status: 200 })
+  } catch (error) {
+    console.error('SoD overrides list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { getSoDPolicy, saveSoDPolicy, SoDPolicySchema } from '@/lib/rbac/sod-engine'
+
+/**
+ * The tenant's segregation of duties settings
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.SECURITY_COMPLIANCE_SETTINGS_VIEW)) {
+      return respond.unauthorized()
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    return NextResponse.json(await getSoDPolicy(tenantId), { status: 200 })
+  } catch (error) {
+    console.error('SoD policy get error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Replace the tenant's segregation of duties settings: whether conflicts
+ * may be overridden and by which roles, and which actions are not checked
+ */
+export const PUT = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.SECURITY_COMPLIANCE_SETTINGS_EDIT)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const input = SoDPolicySchema.parse(await request.json())
+    const policy = await saveSoDPolicy(tenantId, input, ctx.userId)
+
+    await logAuditSafe({
+      action: 'security:update_sod_policy',
+      details: { ...policy },
+    }).catch(() => {})
+
+    return NextResponse.json(policy, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    console.error('SoD policy update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { generateSoDConflictReport } from '@/lib/rbac/sod-engine'
+
+/**
+ * Segregation of duties conflict reports, newest first
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.SECURITY_COMPLIANCE_SETTINGS_VIEW)) {
+      return respond.unauthorized()
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const limit = Math.min(Math.max(parseInt(request.nextUrl.searchParams.get('limit') || '12', 10) || 12, 1), 100)
+    const reports = await prisma.sodConflictReport.findMany({
+      where: { tenantId },
+      orderBy: { periodEnd: 'desc' },
+      take: limit,
+    })
+
+    return NextResponse.json({ reports }, { status: 200 })
+  } catch (error) {
+    console.error('SoD reports list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Review role assignments now, covering the time since the last report
+ */
+export const POST = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.SECURITY_COMPLIANCE_SETTINGS_VIEW)) {
+      return respond.unauthorized()
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const report = await generateSoDConflictReport(tenantId, { userId: ctx.userId })
+
+    await logAuditSafe({
+      action: 'security:generate_sod_report',
+      details: { reportId: report.id, conflictCount: report.conflictCount, overrideCount: report.overrideCount },
+    }).catch(() => {})
+
+    return NextResponse.json(report, { status: 201 })
+  } catch (error) {
+    console.error('SoD report generation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
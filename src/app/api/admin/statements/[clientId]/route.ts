@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { respond } from '@/lib/api-response'
+import { ApiError } from '@/lib/api/error-responses'
+import {
+  getCustomerStatement,
+  renderCustomerStatementPdf,
+  StatementQuerySchema,
+  statementPeriod,
+} from '@/lib/invoicing/customer-statements'
+
+export const runtime = 'nodejs'
+
+/**
+ * Statement of account for a client as JSON or PDF
+ */
+export const GET = withTenantContext(async (request: NextRequest, context: { params: Promise<{ clientId: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { clientId } = await context.params
+    const query = StatementQuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const period = statementPeriod(query.from, query.to)
+    const statement = await getCustomerStatement(tenantId, clientId, { ...period, currency: query.currency })
+
+    if (query.format === 'pdf') {
+      const body = await renderCustomerStatementPdf(statement)
+      const filename = `statement-${clientId}-${period.to.toISOString().slice(0, 10)}.pdf`
+      return new NextResponse(new Uint8Array(body), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="${filename}"`,
+        },
+      })
+    }
+
+    return NextResponse.json(statement, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Customer statement error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -1,10 +1,11 @@
-import { NextResponse } from 'next/server'
+import { NextResponse, type NextRequest } from 'next/server'
 import prisma from '@/lib/prisma'
 import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { tenantFilter } from '@/lib/tenant'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { respond } from '@/lib/api-response'
+import { requireStepUp } from '@/lib/security/step-up'
 
 function toCSV(rows: any[], headers: string[]) {
   const esc = (v: any) => {
@@ -27,6 +28,9 @@ export const GET = withTenantContext(async (request: Request) => {
     if (!hasPermission(role, PERMISSIONS.ANALYTICS_EXPORT)) {
       return respond.forbidden('Forbidden')
     }
+    if (!ctx.userId) return respond.unauthorized()
+    const stepUp = await requireStepUp(request as NextRequest, PERMISSIONS.ANALYTICS_EXPORT, { userId: ctx.userId, tenantId: ctx.tenantId })
+    if (stepUp) return stepUp
 
     const url = new URL(request.url)
     const format = (url.searchParams.get('format') || 'csv').toLowerCase()
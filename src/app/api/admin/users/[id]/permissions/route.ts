@@ -8,6 +8,7 @@ import { realtimeService } from '@/lib/realtime-enhanced'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { respond } from '@/lib/api-response'
+import { requireStepUp } from '@/lib/security/step-up'
 import { logAudit } from '@/lib/audit'
 
 export const runtime = 'nodejs'
@@ -62,6 +63,8 @@ export const PUT = withTenantContext(async (request: NextRequest, context: { par
     if (!roleChange && !permissionChanges) {
       return NextResponse.json({ error: 'No changes provided' }, { status: 400 })
     }
+    const stepUp = await requireStepUp(request, PERMISSIONS.USERS_MANAGE, { userId: ctx.userId, tenantId })
+    if (stepUp) return stepUp
 
     const updateData: any = {}
 
@@ -9,6 +9,7 @@ import { realtimeService } from '@/lib/realtime-enhanced'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { respond } from '@/lib/api-response'
+import { requireStepUp } from '@/lib/security/step-up'
 
 export const runtime = 'nodejs'
 
@@ -81,6 +82,10 @@ export const PATCH = withTenantContext(async (request: NextRequest, context: { p
     if (!parsed.success) {
       return NextResponse.json({ error: 'Invalid payload' }, { status: 400 })
     }
+    if (parsed.data.role !== undefined) {
+      const stepUp = await requireStepUp(request, PERMISSIONS.USERS_MANAGE, { userId: ctx.userId, tenantId })
+      if (stepUp) return stepUp
+    }
 
     const data: { name?: string; email?: string; role?: import('@prisma/client').UserRole } = {}
     if (parsed.data.name !== undefined) data.name = parsed.data.name
@@ -4,6 +4,7 @@ import { withTenantContext } from '@/lib/api-wrapper'
 import { tenantContext } from '@/lib/tenant-context'
 import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { rateLimitAsync } from '@/lib/rate-limit'
+import { requireStepUp } from '@/lib/security/step-up'
 
 export const GET = withTenantContext(async (request: NextRequest, { params }: { params: { id: string } }) => {
   try {
@@ -14,7 +15,7 @@ export const GET = withTenantContext(async (request: NextRequest, { params }: {
     }
 
     const context = tenantContext.getContext()
-    const hasAccess = await hasPermission(context.userId, PERMISSIONS.USERS_EXPORT)
+    const hasAccess = hasPermission(context.role, PERMISSIONS.USERS_EXPORT)
     if (!hasAccess) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
@@ -44,10 +45,12 @@ export const PATCH = withTenantContext(async (request: NextRequest, { params }:
     }
 
     const context = tenantContext.getContext()
-    const hasAccess = await hasPermission(context.userId, PERMISSIONS.USERS_EXPORT)
-    if (!hasAccess) {
+    const hasAccess = hasPermission(context.role, PERMISSIONS.USERS_EXPORT)
+    if (!hasAccess || !context.userId) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
+    const stepUp = await requireStepUp(request, PERMISSIONS.USERS_EXPORT, { userId: context.userId, tenantId: context.tenantId })
+    if (stepUp) return stepUp
 
     const existingSchedule = await prisma.exportSchedule.findUnique({ where: { id: params.id } })
     if (!existingSchedule) {
@@ -103,7 +106,7 @@ export const DELETE = withTenantContext(async (request: NextRequest, { params }:
     }
 
     const context = tenantContext.getContext()
-    const hasAccess = await hasPermission(context.userId, PERMISSIONS.USERS_EXPORT)
+    const hasAccess = hasPermission(context.role, PERMISSIONS.USERS_EXPORT)
     if (!hasAccess) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
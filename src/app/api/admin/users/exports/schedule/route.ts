@@ -4,6 +4,7 @@ import { withTenantContext } from '@/lib/api-wrapper'
 import { tenantContext } from '@/lib/tenant-context'
 import { hasPermission, PERMISSIONS } from '@/lib/permissions'
 import { rateLimitAsync } from '@/lib/rate-limit'
+import { requireStepUp } from '@/lib/security/step-up'
 
 export const GET = withTenantContext(async (request: NextRequest) => {
   try {
@@ -14,7 +15,7 @@ export const GET = withTenantContext(async (request: NextRequest) => {
     }
 
     const context = tenantContext.getContext()
-    const hasAccess = await hasPermission(context.userId, PERMISSIONS.USERS_EXPORT)
+    const hasAccess = hasPermission(context.role, PERMISSIONS.USERS_EXPORT)
     if (!hasAccess) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
@@ -61,10 +62,12 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       return NextResponse.json({ error: 'User context is required' }, { status: 400 })
     }
 
-    const hasAccess = await hasPermission(context.userId, PERMISSIONS.USERS_EXPORT)
+    const hasAccess = hasPermission(context.role, PERMISSIONS.USERS_EXPORT)
     if (!hasAccess) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
+    const stepUp = await requireStepUp(request, PERMISSIONS.USERS_EXPORT, { userId: context.userId, tenantId: context.tenantId })
+    if (stepUp) return stepUp
 
     const body = await request.json()
     const { name, description, frequency, format, recipients, dayOfWeek, dayOfMonth, time, emailSubject, emailBody, filterPresetId, isActive = true } = body
@@ -125,10 +128,12 @@ export const PATCH = withTenantContext(async (request: NextRequest) => {
     }
 
     const context = tenantContext.getContext()
-    const hasAccess = await hasPermission(context.userId, PERMISSIONS.USERS_EXPORT)
+    const hasAccess = hasPermission(context.role, PERMISSIONS.USERS_EXPORT)
     if (!hasAccess) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
+    const stepUp = await requireStepUp(request, PERMISSIONS.USERS_EXPORT, { userId: context.userId, tenantId: context.tenantId })
+    if (stepUp) return stepUp
 
     const body = await request.json()
     const { action, scheduleIds } = body
@@ -157,7 +162,7 @@ export const DELETE = withTenantContext(async (request: NextRequest) => {
     }
 
     const context = tenantContext.getContext()
-    const hasAccess = await hasPermission(context.userId, PERMISSIONS.USERS_EXPORT)
+    const hasAccess = hasPermission(context.role, PERMISSIONS.USERS_EXPORT)
     if (!hasAccess) {
       return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
     }
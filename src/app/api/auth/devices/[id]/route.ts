@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { revokeDevice, trustDevice } from '@/lib/security/trusted-devices'
+import { requireElevation } from '@/lib/security/step-up'
+import { logAudit } from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+/**
+ * PATCH /api/auth/devices/[id]
+ * Trust one of the user's devices; requires a recent step-up
+ */
+export const PATCH = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const { id } = await context.params
+
+    const challenge = await requireElevation(request, { userId: ctx.userId, tenantId: ctx.tenantId }, 'device.trust')
+    if (challenge) return challenge
+
+    const device = await trustDevice(ctx.userId, id)
+    if (!device) return NextResponse.json({ error: 'Device not found' }, { status: 404 })
+
+    await logAudit({ action: 'auth.device.trust', actorId: ctx.userId, targetId: ctx.userId, details: { tenantId: ctx.tenantId, deviceId: id } }).catch(() => {})
+    return NextResponse.json({ device: { id: device.id, approvalStatus: device.approvalStatus, trustLevel: device.trustLevel, approvedAt: device.approvedAt } })
+  } catch (e) {
+    console.error('Device trust error:', e)
+    return NextResponse.json({ error: 'Failed to trust device' }, { status: 500 })
+  }
+})
+
+/**
+ * DELETE /api/auth/devices/[id]
+ * Revoke a device; it must be trusted again before it counts
+ */
+export const DELETE = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const { id } = await context.params
+
+    if (!(await revokeDevice(ctx.userId, id))) return NextResponse.json({ error: 'Device not found' }, { status: 404 })
+
+    await logAudit({ action: 'auth.device.revoke', actorId: ctx.userId, targetId: ctx.userId, details: { tenantId: ctx.tenantId, deviceId: id } }).catch(() => {})
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    console.error('Device revoke error:', e)
+    return NextResponse.json({ error: 'Failed to revoke device' }, { status: 500 })
+  }
+})
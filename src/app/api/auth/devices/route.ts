@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { findCurrentDevice, listDevices, recordDevice, setDeviceCookie } from '@/lib/security/trusted-devices'
+import { logAudit } from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+const DeviceSchema = z.object({
+  name: z.string().max(100).optional(),
+})
+
+/**
+ * GET /api/auth/devices
+ * Devices the user has signed in from, with the current one marked
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const [devices, current] = await Promise.all([listDevices(ctx.userId), findCurrentDevice(request, ctx.userId)])
+    return NextResponse.json({ devices: devices.map((d) => ({ ...d, current: d.id === current?.id })) })
+  } catch (e) {
+    console.error('Device list error:', e)
+    return NextResponse.json({ error: 'Failed to load devices' }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/auth/devices
+ * Record the current browser after sign-in. New devices start untrusted.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId || !ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const { name } = DeviceSchema.parse(await request.json().catch(() => ({})))
+    const { device, cookie } = await recordDevice(request, { id: ctx.userId, tenantId: ctx.tenantId }, name)
+    if (cookie) {
+      await logAudit({ action: 'auth.device.new', actorId: ctx.userId, targetId: ctx.userId, details: { tenantId: ctx.tenantId, deviceId: device.id, deviceName: device.deviceName } }).catch(() => {})
+    }
+
+    const res = NextResponse.json(
+      { device: { id: device.id, deviceName: device.deviceName, approvalStatus: device.approvalStatus } },
+      { status: cookie ? 201 : 200 }
+    )
+    if (cookie) setDeviceCookie(res, cookie)
+    return res
+  } catch (e) {
+    if (e instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: e.issues }, { status: 400 })
+    }
+    console.error('Device record error:', e)
+    return NextResponse.json({ error: 'Failed to record device' }, { status: 500 })
+  }
+})
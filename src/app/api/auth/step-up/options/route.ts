@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { startPasskeyAuthentication } from '@/lib/security/passkeys'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/auth/step-up/options
+ * Passkey challenge for stepping up, limited to the user's own credentials
+ */
+export const POST = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    return NextResponse.json({ options: await startPasskeyAuthentication('step-up', ctx.userId) })
+  } catch (e) {
+    if (e instanceof ApiError) {
+      return NextResponse.json({ error: e.message, code: e.code }, { status: e.status })
+    }
+    console.error('Step-up options error:', e)
+    return NextResponse.json({ error: 'Failed to start step-up' }, { status: 500 })
+  }
+})
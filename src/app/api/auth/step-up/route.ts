@@ -0,0 +1,107 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { getUserMfaSecret, verifyTotp, consumeBackupCode } from '@/lib/mfa'
+import { verifyPasskeyAssertion } from '@/lib/security/passkeys'
+import type { AuthenticationResponseJSON } from '@/lib/security/webauthn'
+import { isCurrentDeviceTrusted } from '@/lib/security/trusted-devices'
+import { stepUpElevationTtl } from '@/lib/security/step-up-auth'
+import {
+  availableStepUpMethods,
+  getElevation,
+  setElevationCookie,
+  signElevation,
+  type StepUpMethod,
+} from '@/lib/security/step-up'
+import { logAudit } from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+const StepUpSchema = z.discriminatedUnion('method', [
+  z.object({ method: z.literal('totp'), code: z.string().min(6) }),
+  z.object({ method: z.literal('backup_code'), code: z.string().min(6) }),
+  z.object({
+    method: z.literal('webauthn'),
+    // Shape and content are checked by the verifier
+    response: z.custom<AuthenticationResponseJSON>((value) => typeof value === 'object' && value !== null),
+  }),
+])
+
+/**
+ * GET /api/auth/step-up
+ * Whether the session is elevated, and the factors the user can step up with
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const elevation = getElevation(request, { userId: ctx.userId, tenantId: ctx.tenantId })
+    return NextResponse.json({
+      elevated: Boolean(elevation),
+      method: elevation?.method ?? null,
+      expiresAt: elevation?.expiresAt ?? null,
+      methods: await availableStepUpMethods(ctx.userId),
+    })
+  } catch (e) {
+    console.error('Step-up status error:', e)
+    return NextResponse.json({ error: 'Failed to load step-up status' }, { status: 500 })
+  }
+})
+
+/**
+ * POST /api/auth/step-up
+ * Confirm identity with a passkey, authenticator code or backup code and
+ * receive a short-lived elevated session: 15 minutes on a trusted device,
+ * 5 elsewhere.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const userId = ctx.userId
+
+    // Rate limit: 5 attempts per 15 minutes per user (prevent brute force)
+    try {
+      const { applyRateLimit } = await import('@/lib/rate-limit')
+      const rl = await applyRateLimit(`auth:stepup:${userId}`, 5, 900_000)
+      if (rl && rl.allowed === false) return NextResponse.json({ error: 'Too many verification attempts. Try again later.' }, { status: 429 })
+    } catch {}
+
+    const input = StepUpSchema.parse(await request.json())
+    let method: StepUpMethod | null = null
+    if (input.method === 'webauthn') {
+      await verifyPasskeyAssertion({ response: input.response, purpose: 'step-up', userId, tenantId: ctx.tenantId })
+      method = 'webauthn'
+    } else if (input.method === 'totp') {
+      const secret = await getUserMfaSecret(userId)
+      method = secret && verifyTotp(secret, input.code) ? 'totp' : null
+    } else {
+      method = (await consumeBackupCode(userId, input.code.trim())) ? 'backup_code' : null
+    }
+
+    if (!method) {
+      await logAudit({ action: 'auth.stepup.failed', actorId: userId, targetId: userId, details: { tenantId: ctx.tenantId, method: input.method } }).catch(() => {})
+      return NextResponse.json({ error: 'Verification failed' }, { status: 400 })
+    }
+
+    const ttl = stepUpElevationTtl(await isCurrentDeviceTrusted(request, userId).catch(() => false))
+    const expiresAt = new Date(Date.now() + ttl)
+    await logAudit({ action: 'auth.stepup.success', actorId: userId, targetId: userId, details: { tenantId: ctx.tenantId, method, expiresAt } }).catch(() => {})
+
+    const res = NextResponse.json({ ok: true, method, expiresAt })
+    setElevationCookie(res, signElevation({ userId, tenantId: ctx.tenantId }, method, ttl), ttl)
+    return res
+  } catch (e) {
+    if (e instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: e.issues }, { status: 400 })
+    }
+    if (e instanceof ApiError) {
+      return NextResponse.json({ error: e.message, code: e.code }, { status: e.status })
+    }
+    console.error('Step-up verification error:', e)
+    return NextResponse.json({ error: 'Failed to verify' }, { status: 500 })
+  }
+})
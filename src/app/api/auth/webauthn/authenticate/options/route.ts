@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { getClientIp, applyRateLimit } from '@/lib/rate-limit'
+import { startPasskeyAuthentication } from '@/lib/security/passkeys'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/auth/webauthn/authenticate/options
+ * Challenge for signing in with a passkey. The signed response is then
+ * posted to the NextAuth "webauthn" credentials provider.
+ */
+export const POST = withTenantContext(
+  async (request: NextRequest) => {
+    try {
+      const ip = getClientIp(request as unknown as Request)
+      const rl = await applyRateLimit(`auth:webauthn:options:${ip}`, 20, 60_000)
+      if (rl && rl.allowed === false) return NextResponse.json({ error: 'Too many requests' }, { status: 429 })
+
+      const options = await startPasskeyAuthentication('signin')
+      return NextResponse.json({ options })
+    } catch (e) {
+      console.error('Passkey sign-in options error:', e)
+      return NextResponse.json({ error: 'Failed to start passkey sign-in' }, { status: 500 })
+    }
+  },
+  { requireAuth: false }
+)
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { removePasskey } from '@/lib/security/passkeys'
+import { requireElevation } from '@/lib/security/step-up'
+import { logAudit } from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+/**
+ * DELETE /api/auth/webauthn/credentials/[id]
+ * Remove one of the user's passkeys; requires a recent step-up
+ */
+export const DELETE = withTenantContext(async (request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    const { id } = await context.params
+
+    const challenge = await requireElevation(request, { userId: ctx.userId, tenantId: ctx.tenantId }, 'webauthn.remove')
+    if (challenge) return challenge
+
+    if (!(await removePasskey(ctx.userId, id))) return NextResponse.json({ error: 'Passkey not found' }, { status: 404 })
+
+    await logAudit({ action: 'auth.webauthn.remove', actorId: ctx.userId, targetId: ctx.userId, details: { tenantId: ctx.tenantId, credentialId: id } }).catch(() => {})
+    return NextResponse.json({ ok: true })
+  } catch (e) {
+    console.error('Passkey removal error:', e)
+    return NextResponse.json({ error: 'Failed to remove passkey' }, { status: 500 })
+  }
+})
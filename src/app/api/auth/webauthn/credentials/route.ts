@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { listPasskeys } from '@/lib/security/passkeys'
+
+export const runtime = 'nodejs'
+
+/**
+ * GET /api/auth/webauthn/credentials
+ * The signed-in user's passkeys and security keys
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    return NextResponse.json({ credentials: await listPasskeys(ctx.userId) })
+  } catch (e) {
+    console.error('Passkey list error:', e)
+    return NextResponse.json({ error: 'Failed to load passkeys' }, { status: 500 })
+  }
+})
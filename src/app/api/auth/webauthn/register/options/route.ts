@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { getUserMfaSecret } from '@/lib/mfa'
+import { hasPasskey, startPasskeyRegistration } from '@/lib/security/passkeys'
+import { requireElevation } from '@/lib/security/step-up'
+
+export const runtime = 'nodejs'
+
+/**
+ * POST /api/auth/webauthn/register/options
+ * Start registering a passkey or security key. A user who already has a
+ * second factor must step up first.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId || !ctx.userEmail) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const subject = { userId: ctx.userId, tenantId: ctx.tenantId }
+    if ((await hasPasskey(ctx.userId)) || (await getUserMfaSecret(ctx.userId))) {
+      const challenge = await requireElevation(request, subject, 'webauthn.register')
+      if (challenge) return challenge
+    }
+
+    const options = await startPasskeyRegistration({ id: ctx.userId, email: ctx.userEmail, name: ctx.userName })
+    return NextResponse.json({ options })
+  } catch (e) {
+    console.error('Passkey registration options error:', e)
+    return NextResponse.json({ error: 'Failed to start passkey registration' }, { status: 500 })
+  }
+})
@@ -0,0 +1,51 @@
+import { NextResponse, type NextRequest } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { finishPasskeyRegistration } from '@/lib/security/passkeys'
+import type { RegistrationResponseJSON } from '@/lib/security/webauthn'
+import { logAudit } from '@/lib/audit'
+
+export const runtime = 'nodejs'
+
+const RegisterSchema = z.object({
+  // Shape and content are checked by the verifier
+  response: z.custom<RegistrationResponseJSON>((value) => typeof value === 'object' && value !== null),
+  name: z.string().max(100).optional(),
+})
+
+/**
+ * POST /api/auth/webauthn/register/verify
+ * Complete a registration started with /register/options
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx.userId || !ctx.tenantId) return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+
+    const { response, name } = RegisterSchema.parse(await request.json())
+    const credential = await finishPasskeyRegistration({ id: ctx.userId, tenantId: ctx.tenantId }, response, name)
+
+    await logAudit({
+      action: 'auth.webauthn.register',
+      actorId: ctx.userId,
+      targetId: ctx.userId,
+      details: { tenantId: ctx.tenantId, credentialId: credential.id, backedUp: credential.backedUp },
+    }).catch(() => {})
+
+    return NextResponse.json(
+      { credential: { id: credential.id, name: credential.name, backedUp: credential.backedUp, createdAt: credential.createdAt } },
+      { status: 201 }
+    )
+  } catch (e) {
+    if (e instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: e.issues }, { status: 400 })
+    }
+    if (e instanceof ApiError) {
+      return NextResponse.json({ error: e.message, code: e.code }, { status: e.status })
+    }
+    console.error('Passkey registration error:', e)
+    return NextResponse.json({ error: 'Failed to register passkey' }, { status: 500 })
+  }
+})
@@ -0,0 +1,124 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { CsvColumnMappingSchema } from '@/lib/banking/parsers'
+import { importBankStatement } from '@/lib/banking/statement-import'
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+
+const ImportOptionsSchema = z.object({
+  format: z.enum(['mt940', 'camt053', 'ofx', 'csv']).optional(),
+  profileId: z.string().min(1).optional(),
+  preset: z.string().min(1).optional(),
+  mapping: z
+    .string()
+    .transform((value, ctx) => {
+      try {
+        return JSON.parse(value)
+      } catch {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'mapping must be JSON' })
+        return z.NEVER
+      }
+    })
+    .pipe(CsvColumnMappingSchema)
+    .optional(),
+  allowBalanceMismatch: z
+    .enum(['true', 'false'])
+    .transform((value) => value === 'true')
+    .optional(),
+})
+
+/**
+ * Import a bank statement file (MT940, CAMT.053, OFX/QFX or CSV) into a
+ * connection. Send multipart form data with `file`; CSV files also need
+ * `profileId`, `preset` or an inline `mapping`.
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+    if (!formData || !file || typeof file === 'string') {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File is too large. Maximum size is 10MB' }, { status: 413 })
+    }
+
+    const field = (name: string) => {
+      const value = formData.get(name)
+      return typeof value === 'string' && value !== '' ? value : undefined
+    }
+    const options = ImportOptionsSchema.parse({
+      format: field('format'),
+      profileId: field('profileId'),
+      preset: field('preset'),
+      mapping: field('mapping'),
+      allowBalanceMismatch: field('allowBalanceMismatch'),
+    })
+
+    const statements = await importBankStatement({
+      tenantId,
+      connectionId: params.id,
+      content: await file.text(),
+      fileName: file.name || null,
+      format: options.format,
+      profileId: options.profileId,
+      presetKey: options.preset,
+      mapping: options.mapping,
+      allowBalanceMismatch: options.allowBalanceMismatch,
+      userId: ctx.userId,
+    })
+
+    const stats = {
+      successCount: statements.reduce((sum, s) => sum + s.imported, 0),
+      duplicateCount: statements.reduce((sum, s) => sum + s.duplicates, 0),
+      errorCount: statements.reduce((sum, s) => sum + s.failed, 0),
+    }
+
+    await logAuditSafe({
+      action: 'banking:import_statement',
+      details: {
+        connectionId: params.id,
+        fileName: file.name,
+        statements: statements.length,
+        ...stats,
+      },
+    }).catch(() => {})
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Statement import completed',
+        stats: { ...stats, totalProcessed: stats.successCount + stats.duplicateCount + stats.errorCount },
+        statements,
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Bank statement import error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { applyBankRules } from '@/lib/banking/reconciliation'
+
+/**
+ * Reconcile unmatched lines with the auto-apply bank rules
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const connection = await prisma.bankingConnection.findFirst({
+      where: { id: params.id, tenantId },
+      select: { id: true },
+    })
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 })
+    }
+
+    const result = await applyBankRules(tenantId, params.id, ctx.userId)
+
+    await logAuditSafe({
+      action: 'banking:apply_rules',
+      details: { connectionId: params.id, applied: result.applied, failed: result.failed },
+    }).catch(() => {})
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    console.error('Bank rules apply error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
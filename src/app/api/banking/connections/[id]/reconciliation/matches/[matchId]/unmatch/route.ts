@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { unmatchReconciliation } from '@/lib/banking/reconciliation'
+
+const UnmatchSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+})
+
+/**
+ * Undo a reconciliation match; its postings and payment are reversed
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string; matchId: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { reason } = UnmatchSchema.parse(body)
+
+    const existing = await prisma.bankReconciliationMatch.findFirst({
+      where: { id: params.matchId, tenantId, connectionId: params.id },
+      select: { id: true },
+    })
+    if (!existing) {
+      return NextResponse.json({ error: 'Reconciliation match not found' }, { status: 404 })
+    }
+
+    const match = await unmatchReconciliation(tenantId, params.matchId, { reason, userId: ctx.userId })
+
+    await logAuditSafe({
+      action: 'banking:unmatch',
+      details: {
+        connectionId: params.id,
+        matchId: match.id,
+        reason: match.unmatchReason,
+        bankTransactionIds: match.items.filter((i) => i.itemType === 'bank_transaction').map((i) => i.itemId),
+      },
+    }).catch(() => {})
+
+    return NextResponse.json(match, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Bank unmatch error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { reconcileBankTransactions, ReconcileInputSchema } from '@/lib/banking/reconciliation'
+
+const FilterSchema = z.object({
+  status: z.enum(['MATCHED', 'UNMATCHED']).optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+  offset: z.coerce.number().min(0).default(0),
+})
+
+const MatchBodySchema = z.object({
+  method: z.enum(['manual', 'suggestion']).default('manual'),
+})
+
+/**
+ * Reconciliation matches on a connection, newest first, including undone ones
+ */
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const filters = FilterSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const where = { tenantId, connectionId: params.id, ...(filters.status ? { status: filters.status } : {}) }
+
+    const [total, matches] = await Promise.all([
+      prisma.bankReconciliationMatch.count({ where }),
+      prisma.bankReconciliationMatch.findMany({
+        where,
+        include: { items: true },
+        orderBy: { createdAt: 'desc' },
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+    ])
+
+    return NextResponse.json(
+      {
+        matches,
+        pagination: { total, limit: filters.limit, offset: filters.offset, hasMore: filters.offset + filters.limit < total },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    console.error('Reconciliation matches list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Reconcile bank lines against invoices, expenses, accounts and adjustments
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = ReconcileInputSchema.parse(body)
+    const { method } = MatchBodySchema.parse(body)
+
+    const match = await reconcileBankTransactions(tenantId, params.id, input, { userId: ctx.userId, method })
+
+    await logAuditSafe({
+      action: 'banking:reconcile',
+      details: {
+        connectionId: params.id,
+        matchId: match.id,
+        method,
+        bankTransactionIds: input.bankTransactionIds,
+        documents: input.documents.map((d) => `${d.type}:${d.id}`),
+      },
+    }).catch(() => {})
+
+    return NextResponse.json(match, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Bank reconciliation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { getReconciliationReport } from '@/lib/banking/reconciliation'
+
+const QuerySchema = z.object({
+  asOf: z.coerce.date().optional(),
+  statementBalance: z.coerce.number().finite().optional(), // Closing balance from a paper statement
+})
+
+/**
+ * Statement closing balance against the book balance at a date
+ */
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = QuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const report = await getReconciliationReport(tenantId, params.id, query)
+
+    return NextResponse.json(report, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Reconciliation report error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { suggestMatches } from '@/lib/banking/transaction-matcher'
+
+const QuerySchema = z.object({
+  transactionId: z.string().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100),
+})
+
+/**
+ * Suggested matches for the connection's unreconciled bank lines
+ */
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const query = QuerySchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+
+    const connection = await prisma.bankingConnection.findFirst({
+      where: { id: params.id, tenantId },
+      select: { id: true },
+    })
+    if (!connection) {
+      return NextResponse.json({ error: 'Connection not found' }, { status: 404 })
+    }
+
+    const lines = await suggestMatches(tenantId, params.id, {
+      transactionIds: query.transactionId ? [query.transactionId] : undefined,
+      limit: query.limit,
+    })
+
+    return NextResponse.json({ lines }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    console.error('Reconciliation suggestions error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
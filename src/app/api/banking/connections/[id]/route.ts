@@ -11,6 +11,7 @@ const UpdateConnectionSchema = z.object({
   accountType: z.enum(['checking', 'savings', 'business']).optional(),
   syncFrequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'MANUAL']).optional(),
   status: z.enum(['ACTIVE', 'INACTIVE', 'ERROR']).optional(),
+  ledgerAccountId: z.string().min(1).nullable().optional(), // Ledger account the connection posts to; BANK when unset
 })
 
 export const GET = withTenantContext(async (
@@ -100,6 +101,16 @@ export const PATCH = withTenantContext(async (
       return NextResponse.json({ error: 'Connection not found' }, { status: 404 })
     }
 
+    if (validated.ledgerAccountId) {
+      const account = await prisma.ledgerAccount.findFirst({
+        where: { id: validated.ledgerAccountId, tenantId, isActive: true },
+        select: { id: true },
+      })
+      if (!account) {
+        return NextResponse.json({ error: 'Ledger account not found' }, { status: 400 })
+      }
+    }
+
     // Update connection
     const updatedConnection = await prisma.bankingConnection.update({
       where: { id },
@@ -112,6 +123,7 @@ export const PATCH = withTenantContext(async (
         accountType: true,
         status: true,
         syncFrequency: true,
+        ledgerAccountId: true,
         lastSyncAt: true,
         lastSyncError: true,
         updatedAt: true,
@@ -4,6 +4,7 @@ import { logAuditSafe } from '@/lib/observability-helpers'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { createBankingProvider, BankTransaction } from '@/lib/banking/adapters'
+import { ingestBankTransactions } from '@/lib/banking/statement-import'
 
 export const POST = withTenantContext(async (
   request: NextRequest,
@@ -64,50 +65,12 @@ export const POST = withTenantContext(async (
       console.error('Failed to fetch transactions from provider:', error)
     }
 
-    // Process transactions
-    let successCount = 0
-    let duplicateCount = 0
-    let errorCount = 0
-
-    for (const txn of transactionsFromBank) {
-      try {
-        // Check if transaction already exists (using externalId for deduplication)
-        const existingTxn = await prisma.bankingTransaction.findFirst({
-          where: {
-            connectionId: id,
-            externalId: txn.id,
-          },
-        })
-
-        if (existingTxn) {
-          duplicateCount++
-          continue
-        }
-
-        // Create transaction
-        await prisma.bankingTransaction.create({
-          data: {
-            connectionId: id,
-            tenantId,
-            externalId: txn.id,
-            date: txn.date,
-            description: txn.description,
-            amount: txn.amount.toString(),
-            currency: txn.currency,
-            type: txn.type,
-            balance: txn.balance ? txn.balance.toString() : null,
-            reference: txn.reference || null,
-            tags: txn.tags || [],
-            matched: false,
-          },
-        })
-
-        successCount++
-      } catch (error) {
-        errorCount++
-        console.error('Failed to create transaction:', error)
-      }
-    }
+    // Stored by (connectionId, externalId), so overlapping windows only add new lines
+    const { imported: successCount, duplicates: duplicateCount, failed: errorCount } = await ingestBankTransactions(
+      connection,
+      transactionsFromBank,
+      ctx.userId
+    )
 
     // Update connection sync status
     await prisma.bankingConnection.update({
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { CSV_PROFILE_PRESETS, CsvColumnMappingSchema } from '@/lib/banking/parsers'
+
+const CreateProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  bankName: z.string().trim().max(100).optional(),
+  mapping: CsvColumnMappingSchema,
+})
+
+/**
+ * Built-in bank CSV layouts and the tenant's saved column mappings
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const profiles = await prisma.bankCsvProfile.findMany({
+      where: { tenantId },
+      orderBy: { name: 'asc' },
+    })
+
+    return NextResponse.json({ presets: CSV_PROFILE_PRESETS, profiles }, { status: 200 })
+  } catch (error) {
+    console.error('Bank CSV profiles list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Save a column mapping for a bank's CSV export
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validated = CreateProfileSchema.parse(body)
+
+    const profile = await prisma.bankCsvProfile
+      .create({
+        data: {
+          tenantId,
+          name: validated.name,
+          bankName: validated.bankName || null,
+          mapping: validated.mapping,
+          createdBy: ctx.userId,
+        },
+      })
+      .catch((error) => {
+        if (String(error?.code) === 'P2002') return null
+        throw error
+      })
+
+    if (!profile) {
+      return NextResponse.json({ error: 'A CSV profile with this name already exists' }, { status: 409 })
+    }
+
+    await logAuditSafe({
+      action: 'banking:create_csv_profile',
+      details: { profileId: profile.id, name: profile.name },
+    }).catch(() => {})
+
+    return NextResponse.json(profile, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    console.error('Bank CSV profile create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
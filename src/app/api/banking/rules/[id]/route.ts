@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { BankRuleFieldsSchema, BankRuleInputSchema, validateRuleReferences } from '@/lib/banking/bank-rules'
+
+const UpdateRuleSchema = BankRuleFieldsSchema.partial()
+
+export const PATCH = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const changes = UpdateRuleSchema.parse(body)
+
+    const existing = await prisma.bankRule.findFirst({ where: { id: params.id, tenantId } })
+    if (!existing) {
+      return NextResponse.json({ error: 'Bank rule not found' }, { status: 404 })
+    }
+
+    // The rule as a whole must still be valid once the changes are applied
+    const { id: _id, tenantId: _tenantId, createdBy: _createdBy, createdAt: _createdAt, updatedAt: _updatedAt, ...current } = existing
+    const merged = BankRuleInputSchema.parse({
+      ...current,
+      ...Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)),
+    })
+
+    const invalid = await validateRuleReferences(tenantId, merged)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const rule = await prisma.bankRule.update({
+      where: { id: existing.id },
+      data: merged,
+    })
+
+    await logAuditSafe({
+      action: 'banking:update_rule',
+      details: { ruleId: rule.id, changes: Object.keys(changes) },
+    }).catch(() => {})
+
+    return NextResponse.json(rule, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    console.error('Bank rule update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+export const DELETE = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const result = await prisma.bankRule.deleteMany({ where: { id: params.id, tenantId } })
+    if (!result.count) {
+      return NextResponse.json({ error: 'Bank rule not found' }, { status: 404 })
+    }
+
+    await logAuditSafe({
+      action: 'banking:delete_rule',
+      details: { ruleId: params.id },
+    }).catch(() => {})
+
+    return NextResponse.json({ success: true }, { status: 200 })
+  } catch (error) {
+    console.error('Bank rule delete error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
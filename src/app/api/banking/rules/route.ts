@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { BankRuleInputSchema, validateRuleReferences } from '@/lib/banking/bank-rules'
+
+/**
+ * The tenant's bank rules in the order they are tried
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const connectionId = request.nextUrl.searchParams.get('connectionId')
+    const rules = await prisma.bankRule.findMany({
+      where: {
+        tenantId,
+        ...(connectionId ? { OR: [{ connectionId }, { connectionId: null }] } : {}),
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    })
+
+    return NextResponse.json({ rules }, { status: 200 })
+  } catch (error) {
+    console.error('Bank rules list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Create a bank rule, e.g. "description contains DEWA" to Utilities
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const validated = BankRuleInputSchema.parse(body)
+
+    const invalid = await validateRuleReferences(tenantId, validated)
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 })
+    }
+
+    const rule = await prisma.bankRule.create({
+      data: {
+        tenantId,
+        connectionId: validated.connectionId ?? null,
+        name: validated.name,
+        priority: validated.priority,
+        direction: validated.direction ?? null,
+        descriptionContains: validated.descriptionContains ?? null,
+        referenceContains: validated.referenceContains ?? null,
+        minAmountCents: validated.minAmountCents ?? null,
+        maxAmountCents: validated.maxAmountCents ?? null,
+        ledgerAccountId: validated.ledgerAccountId,
+        memo: validated.memo || null,
+        autoApply: validated.autoApply,
+        isActive: validated.isActive,
+        createdBy: ctx.userId,
+      },
+    })
+
+    await logAuditSafe({
+      action: 'banking:create_rule',
+      details: { ruleId: rule.id, name: rule.name, ledgerAccountId: rule.ledgerAccountId, autoApply: rule.autoApply },
+    }).catch(() => {})
+
+    return NextResponse.json(rule, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    console.error('Bank rule create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
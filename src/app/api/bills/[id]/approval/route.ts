@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { resolveStepUp } from '@/lib/security/step-up'
+import { SoDOverrideSchema } from '@/lib/rbac/sod-engine'
+import { decideBill } from '@/lib/payables/bill-approval'
+
+const DecisionSchema = z
+  .object({
+    decision: z.enum(['APPROVED', 'REJECTED']),
+    comment: z.string().trim().max(1000).optional(),
+    sodOverride: SoDOverrideSchema.optional(), // Approve despite a segregation of duties conflict
+  })
+  .refine((body) => body.decision === 'APPROVED' || body.comment, {
+    message: 'Say why the bill is rejected',
+    path: ['comment'],
+  })
+
+/**
+ * Approve or reject a bill routed to the user or their role
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    // Staff only; who may decide a given bill is its approval routing's call,
+    // which can name a user as well as a role
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const { decision, comment, sodOverride } = DecisionSchema.parse(body)
+    const override = sodOverride
+      ? { justification: sodOverride.justification, ...(await resolveStepUp(request, { userId: ctx.userId, tenantId })) }
+      : null
+    const bill = await decideBill(tenantId, params.id, { id: ctx.userId, role: ctx.role }, decision, comment, override)
+
+    await logAuditSafe({
+      action: decision === 'APPROVED' ? 'payables:approve_bill' : 'payables:reject_bill',
+      details: { billId: bill.id, status: bill.status, comment, sodOverride: sodOverride?.justification },
+    }).catch(() => {})
+
+    return NextResponse.json(bill, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Bill approval error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,135 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { BillInputSchema, updateBill, voidBill } from '@/lib/payables/bills'
+
+const VoidSchema = z.object({
+  reason: z.string().trim().min(1).max(500).optional(),
+})
+
+/**
+ * A bill with its lines, approvals and payment runs
+ */
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const bill = await prisma.bill.findFirst({
+      where: { id: params.id, tenantId },
+      include: {
+        vendor: { select: { id: true, name: true, taxId: true, iban: true, bic: true } },
+        lines: true,
+        approvals: { orderBy: { createdAt: 'asc' } },
+        attachment: { select: { id: true, name: true, url: true, contentType: true } },
+        paymentRunItems: { include: { run: { select: { id: true, reference: true, status: true, paymentDate: true } } } },
+      },
+    })
+    if (!bill) {
+      return NextResponse.json({ error: 'Bill not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(bill, { status: 200 })
+  } catch (error) {
+    console.error('Bill get error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Replace a draft or rejected bill
+ */
+export const PATCH = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = BillInputSchema.parse(body)
+    const bill = await updateBill(tenantId, params.id, input)
+
+    await logAuditSafe({
+      action: 'payables:update_bill',
+      details: { billId: bill.id, totalCents: bill.totalCents },
+    }).catch(() => {})
+
+    return NextResponse.json(bill, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Bill update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Void a bill nothing has been paid on
+ */
+export const DELETE = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { reason } = VoidSchema.parse(body)
+    const bill = await voidBill(tenantId, params.id, { reason, userId: ctx.userId })
+
+    await logAuditSafe({
+      action: 'payables:void_bill',
+      details: { billId: bill.id, reason },
+    }).catch(() => {})
+
+    return NextResponse.json(bill, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Bill void error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
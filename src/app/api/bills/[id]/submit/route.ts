@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { submitBill } from '@/lib/payables/bill-approval'
+
+/**
+ * Send a draft or rejected bill for approval
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const bill = await submitBill(tenantId, params.id, ctx.userId)
+
+    await logAuditSafe({
+      action: 'payables:submit_bill',
+      details: { billId: bill.id, status: bill.status, approvers: bill.approvals.filter((a) => a.status === 'PENDING').map((a) => a.approver) },
+    }).catch(() => {})
+
+    return NextResponse.json(bill, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Bill submit error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
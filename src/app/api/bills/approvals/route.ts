@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { listBillsAwaitingApproval } from '@/lib/payables/bill-approval'
+
+/**
+ * Bills waiting on the current user's decision
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const bills = await listBillsAwaitingApproval(tenantId, { id: ctx.userId, role: ctx.role })
+
+    return NextResponse.json({ bills }, { status: 200 })
+  } catch (error) {
+    console.error('Bill approvals list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
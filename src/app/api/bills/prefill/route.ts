@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { prefillBillFromDocument } from '@/lib/payables/bills'
+
+export const runtime = 'nodejs'
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024
+const ACCEPTED_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/tiff']
+
+/**
+ * Read a supplier invoice (PDF or image, multipart `file`) and return bill
+ * fields to review, matched to an MDM vendor where one fits. Nothing is
+ * saved.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+    if (!formData || !file || typeof file === 'string') {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File is too large. Maximum size is 10MB' }, { status: 413 })
+    }
+    if (file.type && !ACCEPTED_TYPES.includes(file.type)) {
+      return NextResponse.json({ error: 'Upload a PDF or an image of the bill' }, { status: 415 })
+    }
+
+    const prefill = await prefillBillFromDocument(tenantId, Buffer.from(await file.arrayBuffer()))
+
+    return NextResponse.json(prefill, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Bill prefill error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { BillInputSchema, createBill } from '@/lib/payables/bills'
+
+const FilterSchema = z.object({
+  status: z.enum(['DRAFT', 'PENDING_APPROVAL', 'APPROVED', 'REJECTED', 'PAID', 'VOID']).optional(),
+  vendorId: z.string().min(1).optional(),
+  entityId: z.string().min(1).optional(),
+  dueBefore: z.coerce.date().optional(),
+  search: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+  offset: z.coerce.number().min(0).default(0),
+})
+
+/**
+ * Supplier bills, soonest due first
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const filters = FilterSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const where = {
+      tenantId,
+      ...(filters.status ? { status: filters.status } : {}),
+      ...(filters.vendorId ? { vendorId: filters.vendorId } : {}),
+      ...(filters.entityId ? { entityId: filters.entityId } : {}),
+      ...(filters.dueBefore ? { dueDate: { lte: filters.dueBefore } } : {}),
+      ...(filters.search
+        ? {
+            OR: [
+              { billNumber: { contains: filters.search, mode: 'insensitive' as const } },
+              { reference: { contains: filters.search, mode: 'insensitive' as const } },
+              { vendor: { name: { contains: filters.search, mode: 'insensitive' as const } } },
+            ],
+          }
+        : {}),
+    }
+
+    const [total, bills] = await Promise.all([
+      prisma.bill.count({ where }),
+      prisma.bill.findMany({
+        where,
+        include: { vendor: { select: { id: true, name: true } } },
+        orderBy: [{ dueDate: 'asc' }, { createdAt: 'desc' }],
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+    ])
+
+    return NextResponse.json(
+      {
+        bills,
+        pagination: { total, limit: filters.limit, offset: filters.offset, hasMore: filters.offset + filters.limit < total },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    console.error('Bills list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Enter a draft bill from a vendor
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = BillInputSchema.parse(body)
+    const bill = await createBill(tenantId, input, ctx.userId)
+
+    await logAuditSafe({
+      action: 'payables:create_bill',
+      details: { billId: bill.id, vendorId: bill.vendorId, billNumber: bill.billNumber, totalCents: bill.totalCents },
+    }).catch(() => {})
+
+    return NextResponse.json(bill, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Bill create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { runProcessTimers } from '@/lib/bpm/process-engine'
+
+export const runtime = 'nodejs'
+
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    const res = await runCronTask('bpm-timers', () => runProcessTimers())
+    return NextResponse.json(res)
+  } catch (e) {
+    console.error('POST /api/cron/bpm-timers error', e)
+    return NextResponse.json({ error: 'Failed to run BPM timers' }, { status: 500 })
+  }
+}
+
+import { withTenantContext } from '@/lib/api-wrapper'
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
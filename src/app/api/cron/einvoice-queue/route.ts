@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { processEInvoiceQueue } from '@/lib/einvoicing/submissions'
+
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    const res = await runCronTask('einvoice-queue', () => processEInvoiceQueue())
+    return NextResponse.json(res)
+  } catch (e) {
+    console.error('POST /api/cron/einvoice-queue error', e)
+    return NextResponse.json({ error: 'Failed to process e-invoice queue' }, { status: 500 })
+  }
+}
+
+import { withTenantContext } from '@/lib/api-wrapper'
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
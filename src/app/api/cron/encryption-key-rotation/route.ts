@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { rotateEncryptionKeys } from '@/lib/jobs/encryption-key-rotation'
+
+export const runtime = 'nodejs'
+
+// ?force=1 rotates every tenant now, e.g. to encrypt existing rows after enabling encryption
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    const { searchParams } = new URL(request.url)
+    const force = searchParams.get('force') === '1'
+    const tenantId = searchParams.get('tenantId') || undefined
+    const res = await runCronTask('encryption-key-rotation', () => rotateEncryptionKeys({ force, tenantId }))
+    return NextResponse.json(res)
+  } catch (e) {
+    console.error('POST /api/cron/encryption-key-rotation error', e)
+    return NextResponse.json({ error: 'Failed to rotate encryption keys' }, { status: 500 })
+  }
+}
+
+import { withTenantContext } from '@/lib/api-wrapper'
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { runMonthEndRevaluation } from '@/lib/accounting/revaluation'
+
+const _api_POST = async (request: NextRequest) => {
+  const auth = authorizeCron(request)
+  if (auth) return auth
+  try {
+    const res = await runCronTask('fx-revaluation', () => runMonthEndRevaluation())
+    return NextResponse.json(res)
+  } catch (e) {
+    console.error('POST /api/cron/fx-revaluation error', e)
+    return NextResponse.json({ error: 'Failed to run FX revaluation' }, { status: 500 })
+  }
+}
+
+import { withTenantContext } from '@/lib/api-wrapper'
+export const POST = withTenantContext(_api_POST, { requireAuth: false })
@@ -2,6 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { runScheduledTasks, updateBookingStatuses, cleanupOldData, generateMonthlyReports } from '@/lib/cron'
 import { processBookingReminders } from '@/lib/cron/reminders'
 import { authorizeCron, runCronTask } from '@/lib/cron/scheduler'
+import { processEInvoiceQueue } from '@/lib/einvoicing/submissions'
+import { runMonthEndRevaluation } from '@/lib/accounting/revaluation'
+import { runDueRecurringInvoices } from '@/lib/invoicing/recurring'
+import { processPaymentReminders } from '@/lib/invoicing/reminders'
+import { checkBudgetAlerts } from '@/lib/accounting/budget-variance'
+import { runMonthlyDepreciation } from '@/lib/accounting/depreciation'
+import { runProcessTimers } from '@/lib/bpm/process-engine'
+import { runSoDConflictReports } from '@/lib/rbac/sod-engine'
+import { rotateEncryptionKeys } from '@/lib/jobs/encryption-key-rotation'
+import { backfillPostings } from '@/lib/accounting/posting-backfill'
 import { withTenantContext } from '@/lib/api-wrapper'
 
 // POST /api/cron - Run scheduled tasks
@@ -22,6 +32,26 @@ const _api_POST = async (request: NextRequest) => {
         return NextResponse.json(await runCronTask('cleanup', () => cleanupOldData()))
       case 'monthly-report':
         return NextResponse.json(await runCronTask('monthly-report', () => generateMonthlyReports()))
+      case 'einvoice-queue':
+        return NextResponse.json(await runCronTask('einvoice-queue', () => processEInvoiceQueue()))
+      case 'fx-revaluation':
+        return NextResponse.json(await runCronTask('fx-revaluation', () => runMonthEndRevaluation()))
+      case 'recurring-invoices':
+        return NextResponse.json(await runCronTask('recurring-invoices', () => runDueRecurringInvoices()))
+      case 'payment-reminders':
+        return NextResponse.json(await runCronTask('payment-reminders', () => processPaymentReminders()))
+      case 'budget-alerts':
+        return NextResponse.json(await runCronTask('budget-alerts', () => checkBudgetAlerts()))
+      case 'depreciation':
+        return NextResponse.json(await runCronTask('depreciation', () => runMonthlyDepreciation()))
+      case 'bpm-timers':
+        return NextResponse.json(await runCronTask('bpm-timers', () => runProcessTimers()))
+      case 'sod-report':
+        return NextResponse.json(await runCronTask('sod-report', () => runSoDConflictReports()))
+      case 'encryption-key-rotation':
+        return NextResponse.json(await runCronTask('encryption-key-rotation', () => rotateEncryptionKeys()))
+      case 'posting-backfill':
+        return NextResponse.json(await runCronTask('posting-backfill', () => backfillPostings()))
       case 'all':
       default:
         return NextResponse.json(await runCronTask('all', () => runScheduledTasks()))
@@ -72,6 +102,56 @@ const _api_GET = async (request: NextRequest) => {
           task: 'monthly-report',
           description: 'Generate monthly statistics report',
           schedule: 'First day of each month'
+        },
+        {
+          task: 'einvoice-queue',
+          description: 'Retry failed e-invoice submissions and poll pending ETA documents',
+          schedule: 'Every 5 minutes'
+        },
+        {
+          task: 'fx-revaluation',
+          description: 'Revalue open foreign-currency balances at last month-end rates',
+          schedule: 'First day of each month'
+        },
+        {
+          task: 'recurring-invoices',
+          description: 'Generate, post and send invoices for recurring schedules that are due',
+          schedule: 'Daily at 6 AM'
+        },
+        {
+          task: 'payment-reminders',
+          description: 'Email the payment reminders due for open invoices, by days before or after their due date',
+          schedule: 'Daily at 8 AM'
+        },
+        {
+          task: 'budget-alerts',
+          description: 'Alert admins when year-to-date spending on an active budget line crosses a threshold',
+          schedule: 'Daily at 7 AM'
+        },
+        {
+          task: 'depreciation',
+          description: 'Post last month\'s depreciation on every entity\'s fixed assets',
+          schedule: 'First day of each month'
+        },
+        {
+          task: 'bpm-timers',
+          description: 'Escalate overdue approval tasks, return expired delegations and resume process instances that are due',
+          schedule: 'Every 5 minutes'
+        },
+        {
+          task: 'sod-report',
+          description: 'Report role assignments that breach segregation of duties and the overrides recorded since the last report',
+          schedule: 'First day of each month'
+        },
+        {
+          task: 'encryption-key-rotation',
+          description: 'Rotate field encryption data keys older than 90 days and re-encrypt their values in batches',
+          schedule: 'Daily'
+        },
+        {
+          task: 'posting-backfill',
+          description: 'Post documents of the last 7 days whose ledger posting failed',
+          schedule: 'Hourly'
         }
       ],
       usage: {
@@ -81,7 +161,7 @@ const _api_GET = async (request: NextRequest) => {
           'Content-Type': 'application/json'
         },
         body: {
-          task: 'all | booking-reminders | booking-statuses | cleanup | monthly-report'
+          task: 'all | booking-reminders | booking-statuses | cleanup | monthly-report | einvoice-queue | fx-revaluation | recurring-invoices | payment-reminders | budget-alerts | depreciation | bpm-timers | sod-report | encryption-key-rotation | posting-backfill'
         }
       },
       environment: {
@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { refreshETADocument } from '@/lib/einvoicing/eta-submissions'
+import { getETAShareUrl } from '@/lib/einvoicing/eta-adapter'
+
+/**
+ * ETA document status. Pending documents are polled at the portal first;
+ * valid documents include their public share link.
+ */
+export const GET = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const document = await refreshETADocument(tenantId, id)
+
+    return NextResponse.json(
+      {
+        document: {
+          id: document.id,
+          invoiceId: document.invoiceId,
+          kind: document.kind,
+          uuid: document.uuid,
+          longId: document.longId,
+          submissionId: document.submissionId,
+          status: document.status,
+          response: document.response,
+          submittedAt: document.submittedAt,
+        },
+        shareUrl:
+          document.status === 'VALID' && document.kind === 'INVOICE' && document.uuid && document.longId
+            ? getETAShareUrl(document.uuid, document.longId)
+            : null,
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('ETA document status error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { DEFAULT_ETA_ITEM_CODE } from '@/lib/einvoicing/invoice-mapper'
+import { z } from 'zod'
+
+const ItemCodeSchema = z
+  .object({
+    entityId: z.string().min(1),
+    internalCode: z.string().trim().min(1).max(100).default(DEFAULT_ETA_ITEM_CODE),
+    codeType: z.enum(['GS1', 'EGS']),
+    itemCode: z.string().trim().min(1).max(100),
+    unitType: z.string().trim().min(1).max(10).default('EA'),
+    description: z.string().max(500).optional(),
+    status: z.enum(['ACTIVE', 'INACTIVE']).default('ACTIVE'),
+  })
+  .refine((value) => value.codeType !== 'EGS' || /^EG-\d{9}-.+/.test(value.itemCode), {
+    message: 'EGS codes have the form EG-<TIN>-<code>',
+    path: ['itemCode'],
+  })
+
+/**
+ * List ETA item code mappings, optionally for one entity
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const entityId = new URL(request.url).searchParams.get('entityId')
+    const itemCodes = await prisma.etaItemCode.findMany({
+      where: { tenantId, ...(entityId ? { entityId } : {}) },
+      orderBy: [{ entityId: 'asc' }, { internalCode: 'asc' }],
+    })
+
+    return NextResponse.json({ itemCodes }, { status: 200 })
+  } catch (error) {
+    console.error('ETA item code list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Map an internal product/service code to its registered GS1 or EGS code.
+ * Re-posting an internal code replaces its mapping.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const validated = ItemCodeSchema.parse(await request.json())
+
+    const entity = await prisma.entity.findFirst({
+      where: { id: validated.entityId, tenantId },
+      select: { id: true, country: true },
+    })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+    if (entity.country !== 'EG') {
+      return NextResponse.json({ error: 'ETA item codes can only be mapped for Egyptian entities' }, { status: 400 })
+    }
+
+    const data = {
+      codeType: validated.codeType,
+      itemCode: validated.itemCode,
+      unitType: validated.unitType,
+      description: validated.description ?? null,
+      status: validated.status,
+    }
+    const itemCode = await prisma.etaItemCode.upsert({
+      where: { entityId_internalCode: { entityId: entity.id, internalCode: validated.internalCode } },
+      create: { tenantId, entityId: entity.id, internalCode: validated.internalCode, ...data },
+      update: data,
+    })
+
+    await logAuditSafe({
+      action: 'einvoicing:eta_item_code_mapped',
+      details: { entityId: entity.id, internalCode: itemCode.internalCode, itemCode: itemCode.itemCode },
+    }).catch(() => {})
+
+    return NextResponse.json({ itemCode }, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('ETA item code mapping error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
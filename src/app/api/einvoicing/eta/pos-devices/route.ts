@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { z } from 'zod'
+
+const RegisterPosSchema = z.object({
+  entityId: z.string().min(1),
+  name: z.string().min(1).max(100),
+  serialNumber: z.string().min(1).max(100),
+  osVersion: z.string().min(1).max(50),
+  clientId: z.string().min(1),
+  clientSecret: z.string().min(1),
+  presharedKey: z.string().optional(),
+  lastReceiptUuid: z.string().regex(/^[0-9a-f]{64}$/i).optional(), // When moving an existing POS
+})
+
+const POS_SELECT = {
+  id: true,
+  entityId: true,
+  name: true,
+  serialNumber: true,
+  osVersion: true,
+  lastReceiptUuid: true,
+  status: true,
+  createdAt: true,
+} as const
+
+/**
+ * List the tenant's ETA e-receipt POS devices (credentials are never returned)
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const devices = await prisma.etaPosDevice.findMany({
+      where: { tenantId },
+      select: POS_SELECT,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ devices }, { status: 200 })
+  } catch (error) {
+    console.error('ETA POS list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Register a POS with the client credentials issued for it by ETA
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const validated = RegisterPosSchema.parse(await request.json())
+
+    const entity = await prisma.entity.findFirst({
+      where: { id: validated.entityId, tenantId },
+      select: { id: true, country: true },
+    })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+    if (entity.country !== 'EG') {
+      return NextResponse.json({ error: 'ETA POS devices can only be registered for Egyptian entities' }, { status: 400 })
+    }
+
+    const existing = await prisma.etaPosDevice.findUnique({
+      where: { entityId_serialNumber: { entityId: entity.id, serialNumber: validated.serialNumber } },
+      select: { id: true },
+    })
+    if (existing) {
+      return NextResponse.json({ error: 'A POS with this serial number is already registered' }, { status: 409 })
+    }
+
+    const device = await prisma.etaPosDevice.create({
+      data: {
+        tenantId,
+        entityId: entity.id,
+        name: validated.name,
+        serialNumber: validated.serialNumber,
+        osVersion: validated.osVersion,
+        clientId: validated.clientId,
+        clientSecret: validated.clientSecret,
+        presharedKey: validated.presharedKey ?? null,
+        lastReceiptUuid: validated.lastReceiptUuid ?? null,
+        createdBy: ctx.userId,
+      },
+      select: POS_SELECT,
+    })
+
+    await logAuditSafe({
+      action: 'einvoicing:eta_pos_registered',
+      details: { deviceId: device.id, entityId: entity.id },
+    }).catch(() => {})
+
+    return NextResponse.json({ device }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('ETA POS registration error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -1,17 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server'
-import prisma from '@/lib/prisma'
-import { InvoiceStatus } from '@prisma/client'
 import { logAuditSafe } from '@/lib/observability-helpers'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
 import { z } from 'zod'
-import { ZATCAAdapter } from '@/lib/einvoicing/zatca-adapter'
-import { ETAAdapter } from '@/lib/einvoicing/eta-adapter'
+import { loadInvoiceForEInvoicing } from '@/lib/einvoicing/invoice-mapper'
+import { submitEInvoice } from '@/lib/einvoicing/submissions'
 
 const SubmitEInvoiceSchema = z.object({
   invoiceId: z.string().min(1),
   country: z.enum(['AE', 'SA', 'EG']),
   certificateId: z.string().optional(),
+  deviceId: z.string().optional(), // ZATCA EGS device; certificateId is accepted as an alias
+  posDeviceId: z.string().optional(), // ETA POS: issue an e-receipt instead of an e-invoice
+  buyer: z
+    .object({
+      taxNumber: z.string().max(30).optional(),
+      identityNumber: z.string().max(30).optional(),
+      country: z.string().length(2).optional(),
+      governorate: z.string().max(100).optional(),
+      city: z.string().max(100).optional(),
+      street: z.string().max(200).optional(),
+      building: z.string().max(50).optional(),
+    })
+    .optional(), // ETA receiver details
 })
 
 export const POST = withTenantContext(async (request: NextRequest) => {
@@ -30,140 +42,35 @@ export const POST = withTenantContext(async (request: NextRequest) => {
     const body = await request.json()
     const validated = SubmitEInvoiceSchema.parse(body)
 
-    // Get invoice with items and client
-    const invoice = await prisma.invoice.findFirst({
-      where: { id: validated.invoiceId, tenantId },
-      include: { items: true, client: true },
-    }) as any
+    // Get invoice with items, client and issuing entity
+    const invoice = await loadInvoiceForEInvoicing(validated.invoiceId, tenantId)
 
     if (!invoice) {
       return NextResponse.json({ error: 'Invoice not found' }, { status: 404 })
     }
 
-    let submitResult: any = null
-
-    try {
-      if (validated.country === 'SA') {
-        // ZATCA (KSA) submission
-        const zatca = new ZATCAAdapter()
-
-        // TODO: Fetch certificate from secure storage
-        // For now, use mock certificate
-        const mockCertificate = {
-          privateKey: process.env.ZATCA_PRIVATE_KEY || '',
-          certificate: process.env.ZATCA_CERTIFICATE || '',
-          algorithm: 'SHA256_RSA' as const,
-        }
-
-        if (!mockCertificate.privateKey) {
-          return NextResponse.json(
-            {
-              error: 'ZATCA certificate not configured',
-              details: 'Missing ZATCA_PRIVATE_KEY environment variable',
-            },
-            { status: 400 }
-          )
-        }
-
-        // Create ZATCA invoice object from invoice data
-        const zatcaInvoice = {
-          id: invoice.id,
-          uuid: `UUID-${Date.now()}`,
-          invoiceNumber: invoice.invoiceNumber,
-          invoiceType: 'STANDARD' as const,
-          issueDate: invoice.createdAt,
-          seller: {
-            name: invoice.sellerName || 'Company',
-            crNumber: 'CR_NUMBER',
-            taxId: invoice.taxId || 'TAX_ID',
-            address: invoice.sellerAddress || 'Address',
-          },
-          lineItems: [],
-          totals: {
-            subtotal: invoice.subtotal || 0,
-            discountTotal: 0,
-            taxTotal: invoice.taxAmount || 0,
-            total: invoice.totalAmount || 0,
-          },
-          status: 'DRAFT' as const,
-          createdAt: invoice.createdAt,
-        }
-
-        submitResult = await zatca.submit(zatcaInvoice)
-      } else if (validated.country === 'EG') {
-        // ETA (Egypt) submission
-        const eta = new ETAAdapter()
-
-        // TODO: Fetch certificate from secure storage
-        const mockCertificate = {
-          privateKey: process.env.ETA_PRIVATE_KEY || '',
-          certificate: process.env.ETA_CERTIFICATE || '',
-          algorithm: 'SHA256_RSA' as const,
-        }
-
-        if (!mockCertificate.privateKey) {
-          return NextResponse.json(
-            {
-              error: 'ETA certificate not configured',
-              details: 'Missing ETA_PRIVATE_KEY environment variable',
-            },
-            { status: 400 }
-          )
-        }
-
-        // Create ETA invoice object
-        const etaInvoice = {
-          id: invoice.id,
-          uuid: `UUID-${Date.now()}`,
-          invoiceNumber: invoice.invoiceNumber,
-          invoiceType: 'STANDARD' as const,
-          documentType: 'INVOICE' as const,
-          issueDate: invoice.createdAt,
-          seller: {
-            name: invoice.sellerName || 'Company',
-            taxNumber: invoice.taxId || '000000000',
-            address: invoice.sellerAddress || 'Address',
-          },
-          lineItems: [],
-          totals: {
-            subtotal: invoice.subtotal || 0,
-            discountTotal: 0,
-            taxTotal: invoice.taxAmount || 0,
-            total: invoice.totalAmount || 0,
-          },
-          status: 'DRAFT' as const,
-          createdAt: invoice.createdAt,
-        }
-
-        submitResult = await eta.submit(etaInvoice)
-      }
-    } catch (error) {
+    if (validated.country === 'AE') {
       return NextResponse.json(
         {
-          error: 'E-invoicing submission failed',
-          details: String(error),
+          error: 'E-invoicing submission is not available for UAE entities yet',
         },
         { status: 400 }
       )
     }
 
-    // Update invoice with submission details
-    if (submitResult.success) {
-      await prisma.invoice.update({
-        where: { id: validated.invoiceId },
-        data: {
-          status: 'SUBMITTED' as InvoiceStatus,
-          // metadata update temporarily removed to fix build error
-          // metadata: JSON.stringify({
-          //   ...invoice.metadata,
-          //   einvoicingStatus: 'SUBMITTED',
-          //   einvoicingReference: submitResult.referenceNumber || submitResult.etaUuid,
-          //   einvoicingSubmittedAt: new Date().toISOString(),
-          //   country: validated.country,
-          // }),
-        },
-      })
-    }
+    // ZATCA signs on the device hash chain; ETA submits a signed document,
+    // or an e-receipt when a POS is given
+    const submission = await submitEInvoice({
+      tenantId,
+      invoiceId: invoice.id,
+      standard: validated.country === 'SA' ? 'ZATCA' : 'ETA',
+      deviceId: validated.country === 'SA' ? validated.deviceId ?? validated.certificateId : validated.posDeviceId,
+      buyer: validated.buyer,
+      userId: ctx.userId,
+    })
+
+    const success = submission.status !== 'REJECTED'
+    const retrying = Boolean(submission.nextAttemptAt)
 
     // Log audit event
     await logAuditSafe({
@@ -171,19 +78,26 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       details: {
         invoiceId: validated.invoiceId,
         country: validated.country,
-        success: submitResult.success,
-        reference: submitResult.referenceNumber || submitResult.etaUuid,
+        submissionId: submission.id,
+        status: submission.status,
+        reference: submission.reference || submission.uuid,
       },
     }).catch(() => {})
 
     return NextResponse.json(
       {
-        success: submitResult.success,
-        message: submitResult.message,
-        reference: submitResult.referenceNumber || submitResult.etaUuid,
-        errors: submitResult.errors || [],
+        success,
+        message: retrying
+          ? 'Tax authority unavailable, submission will be retried automatically'
+          : `E-invoice ${submission.status.toLowerCase()}`,
+        submissionId: submission.id,
+        status: submission.status,
+        reference: submission.reference || submission.uuid,
+        nextAttemptAt: submission.nextAttemptAt,
+        warnings: submission.warnings || [],
+        errors: submission.errors || [],
       },
-      { status: submitResult.success ? 200 : 400 }
+      { status: !success ? 400 : retrying ? 202 : 200 }
     )
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -196,6 +110,10 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       )
     }
 
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
     console.error('E-invoicing submission error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
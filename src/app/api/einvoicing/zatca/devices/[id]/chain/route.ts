@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { verifyHashChain } from '@/lib/einvoicing/zatca-chain'
+
+/**
+ * Verify a device's hash chain: ICV sequence, PIH links and stored hashes
+ */
+export const GET = withTenantContext(async (_request: NextRequest, context: { params: Promise<{ id: string }> }) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const chain = await verifyHashChain(tenantId, id)
+
+    return NextResponse.json({ chain }, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('ZATCA chain verification error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import {
+  INITIAL_PREVIOUS_INVOICE_HASH,
+  parseCertificate,
+  sha256Base64,
+  signInvoiceHash,
+  toCertificatePem,
+  verifyInvoiceHashSignature,
+} from '@/lib/einvoicing/zatca-crypto'
+import { z } from 'zod'
+
+const RegisterDeviceSchema = z.object({
+  entityId: z.string().min(1),
+  name: z.string().min(1).max(100),
+  egsSerialNumber: z.string().min(1).max(100),
+  environment: z.enum(['local', 'sandbox', 'simulation', 'production']).default('sandbox'),
+  certificate: z.string().min(1),
+  privateKey: z.string().min(1),
+  certificateSecret: z.string().optional(),
+})
+
+const DEVICE_SELECT = {
+  id: true,
+  entityId: true,
+  name: true,
+  egsSerialNumber: true,
+  environment: true,
+  lastIcv: true,
+  status: true,
+  createdAt: true,
+} as const
+
+/**
+ * List the tenant's ZATCA EGS devices (keys and secrets are never returned)
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const devices = await prisma.zatcaDevice.findMany({
+      where: { tenantId },
+      select: DEVICE_SELECT,
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ devices }, { status: 200 })
+  } catch (error) {
+    console.error('ZATCA device list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Register an EGS device with its CSID certificate and signing key. The
+ * chain starts at ICV 0 with the ZATCA initial previous-invoice hash.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const validated = RegisterDeviceSchema.parse(await request.json())
+
+    const entity = await prisma.entity.findFirst({
+      where: { id: validated.entityId, tenantId },
+      select: { id: true, country: true },
+    })
+    if (!entity) {
+      return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
+    }
+    if (entity.country !== 'SA') {
+      return NextResponse.json({ error: 'ZATCA devices can only be registered for KSA entities' }, { status: 400 })
+    }
+
+    // The key must belong to the certificate, otherwise every signature fails later
+    const certificate = toCertificatePem(validated.certificate)
+    try {
+      parseCertificate(certificate)
+      const probe = sha256Base64('zatca-device-registration')
+      if (!verifyInvoiceHashSignature(probe, signInvoiceHash(probe, validated.privateKey), certificate)) {
+        throw new Error('Private key does not match the certificate')
+      }
+    } catch (error) {
+      return NextResponse.json({ error: 'Invalid certificate or private key', details: String(error) }, { status: 400 })
+    }
+
+    const existing = await prisma.zatcaDevice.findUnique({
+      where: { entityId_egsSerialNumber: { entityId: entity.id, egsSerialNumber: validated.egsSerialNumber } },
+      select: { id: true },
+    })
+    if (existing) {
+      return NextResponse.json({ error: 'A device with this serial number is already registered' }, { status: 409 })
+    }
+
+    const device = await prisma.zatcaDevice.create({
+      data: {
+        tenantId,
+        entityId: entity.id,
+        name: validated.name,
+        egsSerialNumber: validated.egsSerialNumber,
+        environment: validated.environment,
+        certificate,
+        privateKey: validated.privateKey,
+        certificateSecret: validated.certificateSecret ?? null,
+        lastInvoiceHash: INITIAL_PREVIOUS_INVOICE_HASH,
+        createdBy: ctx.userId,
+      },
+      select: DEVICE_SELECT,
+    })
+
+    await logAuditSafe({
+      action: 'einvoicing:zatca_device_registered',
+      details: { deviceId: device.id, entityId: entity.id, environment: device.environment },
+    }).catch(() => {})
+
+    return NextResponse.json({ device }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+
+    console.error('ZATCA device registration error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -11,6 +11,7 @@ const updateEntitySchema = z.object({
   legalForm: z.string().optional(),
   status: z.enum(["ACTIVE", "PENDING", "ARCHIVED", "SUSPENDED"]).optional(),
   activityCode: z.string().optional(),
+  functionalCurrency: z.string().length(3).optional(),
 });
 
 /**
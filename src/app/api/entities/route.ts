@@ -12,6 +12,7 @@ const createEntitySchema = z.object({
   legalForm: z.string().optional(),
   entityType: z.enum(["company", "individual", "freelancer", "partnership"]).optional(),
   activityCode: z.string().optional(),
+  functionalCurrency: z.string().length(3).optional(),
   fiscalYearStart: z.string().datetime().optional(),
   licenses: z.array(z.object({
     country: z.string(),
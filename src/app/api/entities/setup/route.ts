@@ -6,7 +6,7 @@ import { logger } from "@/lib/logger";
 import prisma from "@/lib/prisma";
 import { z } from "zod";
 import crypto from "crypto";
-import { initializeVerificationJob, enqueueVerificationJob } from "@/lib/jobs/entity-setup";
+import { initializeVerificationJob, enqueueVerificationJob, provisionEntityLedger } from "@/lib/jobs/entity-setup";
 
 // Validation schema for setup wizard
 const setupWizardSchema = z.object({
@@ -118,6 +118,9 @@ const _api_POST = async (request: NextRequest) => {
       });
     }
 
+    // Seed the country default chart of accounts
+    await provisionEntityLedger(entity.id);
+
     // Initialize verification job and enqueue it
     try {
       await initializeVerificationJob(entity.id);
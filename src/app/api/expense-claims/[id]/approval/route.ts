@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { resolveStepUp } from '@/lib/security/step-up'
+import { SoDOverrideSchema } from '@/lib/rbac/sod-engine'
+import { decideClaim } from '@/lib/expenses/claim-approval'
+
+const DecisionSchema = z
+  .object({
+    decision: z.enum(['APPROVED', 'REJECTED']),
+    comment: z.string().trim().max(1000).optional(),
+    sodOverride: SoDOverrideSchema.optional(), // Approve despite a segregation of duties conflict
+  })
+  .refine((body) => body.decision === 'APPROVED' || body.comment, {
+    message: 'Say why the claim is rejected',
+    path: ['comment'],
+  })
+
+/**
+ * Approve or reject a claim as its manager or as finance
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const { decision, comment, sodOverride } = DecisionSchema.parse(body)
+    const override = sodOverride
+      ? { justification: sodOverride.justification, ...(await resolveStepUp(request, { userId: ctx.userId, tenantId })) }
+      : null
+    const claim = await decideClaim(tenantId, params.id, { id: ctx.userId, role: ctx.role }, decision, comment, override)
+
+    await logAuditSafe({
+      action: decision === 'APPROVED' ? 'expense:approve_claim' : 'expense:reject_claim',
+      details: { claimId: claim.id, status: claim.status, comment, sodOverride: sodOverride?.justification },
+    }).catch(() => {})
+
+    return NextResponse.json(claim, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Expense claim approval error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
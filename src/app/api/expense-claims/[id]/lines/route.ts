@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { addClaimLine, ClaimLineSchema } from '@/lib/expenses/claims'
+
+/**
+ * Add a receipt, mileage, per-diem or existing expense to a draft claim.
+ * The line comes back with any policy violations flagged.
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = ClaimLineSchema.parse(body)
+    const line = await addClaimLine(tenantId, params.id, ctx.userId, input)
+
+    return NextResponse.json(line, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Expense claim line error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
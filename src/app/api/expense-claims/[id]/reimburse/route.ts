@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { ApiError } from '@/lib/api/error-responses'
+import { reimburseClaim } from '@/lib/expenses/claim-approval'
+
+const ReimburseSchema = z.object({
+  date: z.coerce.date().optional(),
+  reference: z.string().trim().max(100).nullable().optional(),
+})
+
+/**
+ * Record that an approved claim has been paid to the employee
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { date, reference } = ReimburseSchema.parse(body)
+    const claim = await reimburseClaim(tenantId, params.id, ctx.userId, { date, reference })
+
+    await logAuditSafe({
+      action: 'expense:reimburse_claim',
+      details: { claimId: claim.id, totalCents: claim.totalCents, reference },
+    }).catch(() => {})
+
+    return NextResponse.json(claim, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Expense claim reimburse error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
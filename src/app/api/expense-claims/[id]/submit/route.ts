@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { submitClaim } from '@/lib/expenses/claim-approval'
+
+/**
+ * Submit a draft or rejected claim to the employee's manager
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const claim = await submitClaim(tenantId, params.id, ctx.userId)
+
+    await logAuditSafe({
+      action: 'expense:submit_claim',
+      details: { claimId: claim.id, totalCents: claim.totalCents, violations: claim.violationCount },
+    }).catch(() => {})
+
+    return NextResponse.json(claim, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Expense claim submit error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { listClaimsAwaitingApproval } from '@/lib/expenses/claim-approval'
+
+/**
+ * Expense claims waiting on the current user's decision
+ */
+export const GET = withTenantContext(async () => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const claims = await listClaimsAwaitingApproval(tenantId, { id: ctx.userId, role: ctx.role })
+
+    return NextResponse.json({ claims }, { status: 200 })
+  } catch (error) {
+    console.error('Expense claim approvals list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -1,53 +1,66 @@
-import { z } from 'zod'
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
+import { logAuditSafe } from '@/lib/observability-helpers'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { ingestReceipt } from '@/lib/expenses/receipts'
 
 export const runtime = 'nodejs'
 
-const Fields = z.object({
-  merchant: z.string().min(1).max(120),
-  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-  total: z.number().min(0).max(1_000_000),
-  tax: z.number().min(0).max(1_000_000).default(0),
-  currency: z.string().min(1).max(10).default('USD'),
-  category: z.string().min(1).max(60).default('general'),
-  notes: z.string().max(500).default('')
-})
-
-const Payload = z.object({
-  fileName: z.string().min(1).max(200),
-  contentType: z.string().min(1).max(100),
-  size: z.number().min(1).max(8 * 1024 * 1024),
-  fields: Fields
-})
+const MAX_FILE_SIZE = 8 * 1024 * 1024
 
-export const POST = withTenantContext(async (req: Request) => {
-  let body: unknown
+/**
+ * Turn a receipt (multipart `file`, optional `entityId`, `claimId` and
+ * `notes`) into an expense. The file is virus-scanned and kept as an
+ * attachment; receipts read with low confidence go to the review queue
+ * instead of being posted.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
   try {
-    body = await req.json()
-  } catch {
-    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
-  }
-  const parsed = Payload.safeParse(body)
-  if (!parsed.success) {
-    return NextResponse.json({ error: 'Invalid input', details: parsed.error.flatten() }, { status: 400 })
-  }
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
 
-  const { fields, fileName, contentType, size } = parsed.data
-  const id = crypto.randomUUID?.() || Math.random().toString(36).slice(2)
-
-  // In a real implementation, we would persist to DB and link to uploaded file/attachment.
-  // For now, return a deterministic response useful for UI and tests.
-  return NextResponse.json({
-    success: true,
-    data: {
-      id,
-      fields,
-      file: { name: fileName, contentType, size }
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
     }
-  })
-}, { requireAuth: false })
 
-export const GET = withTenantContext(async () => {
-  return NextResponse.json({ schema: 'POST { fileName:string, contentType:string, size:number<=8MB, fields:{ merchant,date, total, tax, currency, category, notes? } } -> { success, data:{ id, fields, file } }' })
-}, { requireAuth: false })
+    const formData = await request.formData().catch(() => null)
+    const file = formData?.get('file')
+    if (!formData || !file || typeof file === 'string') {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      return NextResponse.json({ error: 'File is too large. Maximum size is 8MB' }, { status: 413 })
+    }
+
+    const entityId = formData.get('entityId')
+    const claimId = formData.get('claimId')
+    const notes = formData.get('notes')
+    const expense = await ingestReceipt({
+      tenantId,
+      userId: ctx.userId,
+      entityId: typeof entityId === 'string' ? entityId : null,
+      claimId: typeof claimId === 'string' && claimId ? claimId : null,
+      notes: typeof notes === 'string' ? notes.slice(0, 2000) : null,
+      fileName: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
+    })
+
+    await logAuditSafe({
+      action: 'expense:ingest_receipt',
+      details: { expenseId: expense.id, attachmentId: expense.attachmentId, claimId: expense.claimId, reviewStatus: expense.reviewStatus },
+    }).catch(() => {})
+
+    return NextResponse.json(expense, { status: 201 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Receipt ingest error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+
+/**
+ * The current user's most recent expenses, with their review state
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(100, Math.max(1, Number(searchParams.get('limit')) || 20))
+
+    const expenses = await prisma.expense.findMany({
+      where: { tenantId, userId: ctx.userId },
+      include: { attachment: { select: { id: true, name: true, url: true, avStatus: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    })
+
+    return NextResponse.json({ expenses }, { status: 200 })
+  } catch (error) {
+    console.error('Expenses list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { ApiError } from '@/lib/api/error-responses'
+import { resumeRecurringInvoice } from '@/lib/invoicing/recurring'
+
+export const runtime = 'nodejs'
+
+/**
+ * Resume a paused schedule. Periods that started while it was paused are
+ * recorded as skipped.
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const schedule = await resumeRecurringInvoice(tenantId, params.id, ctx.userId)
+
+    await logAuditSafe({
+      action: 'invoice:resume_recurring',
+      details: { recurringInvoiceId: schedule.id, nextRunDate: schedule.nextRunDate },
+    }).catch(() => {})
+
+    return NextResponse.json(schedule, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Recurring invoice resume error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
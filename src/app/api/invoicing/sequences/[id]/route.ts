@@ -0,0 +1,130 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { ApiError } from '@/lib/api/error-responses'
+import {
+  cancelRecurringInvoice,
+  getRecurringInvoice,
+  RecurringInvoiceUpdateSchema,
+  updateRecurringInvoice,
+} from '@/lib/invoicing/recurring'
+
+export const runtime = 'nodejs'
+
+/**
+ * A recurring invoice schedule with its upcoming periods and run history
+ */
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const schedule = await getRecurringInvoice(tenantId, params.id)
+
+    return NextResponse.json(schedule, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Recurring invoice get error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Change a schedule's name, lines, terms or end from the next period
+ */
+export const PATCH = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = RecurringInvoiceUpdateSchema.parse(body)
+    const schedule = await updateRecurringInvoice(tenantId, params.id, input)
+
+    await logAuditSafe({
+      action: 'invoice:update_recurring',
+      details: { recurringInvoiceId: schedule.id, fields: Object.keys(input) },
+    }).catch(() => {})
+
+    return NextResponse.json(schedule, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Recurring invoice update error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Cancel a schedule; invoices already generated are kept
+ */
+export const DELETE = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const schedule = await cancelRecurringInvoice(tenantId, params.id)
+
+    await logAuditSafe({
+      action: 'invoice:cancel_recurring',
+      details: { recurringInvoiceId: schedule.id },
+    }).catch(() => {})
+
+    return NextResponse.json(schedule, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Recurring invoice cancel error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
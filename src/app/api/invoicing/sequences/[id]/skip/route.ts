@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { ApiError } from '@/lib/api/error-responses'
+import { skipNextCycle } from '@/lib/invoicing/recurring'
+
+export const runtime = 'nodejs'
+
+/**
+ * Skip the schedule's next period; it is kept in the history unbilled
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const schedule = await skipNextCycle(tenantId, params.id, ctx.userId)
+
+    await logAuditSafe({
+      action: 'invoice:skip_recurring_cycle',
+      details: { recurringInvoiceId: schedule.id, nextRunDate: schedule.nextRunDate },
+    }).catch(() => {})
+
+    return NextResponse.json(schedule, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Recurring invoice skip error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -1,55 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
-import { NextResponse } from 'next/server'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { logAuditSafe } from '@/lib/observability-helpers'
 import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond } from '@/lib/api-response'
+import { ApiError } from '@/lib/api/error-responses'
+import { createRecurringInvoice, listRecurringInvoices, RecurringInvoiceSchema } from '@/lib/invoicing/recurring'
 
 export const runtime = 'nodejs'
 
-const Payload = z.object({
-  name: z.string().min(1).max(120),
-  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
-  cadence: z.enum(['weekly', 'monthly', 'quarterly']),
-  amount: z.number().min(0).max(1_000_000),
-  currency: z.string().regex(/^[A-Z]{3}$/),
+const FilterSchema = z.object({
+  status: z.enum(['ACTIVE', 'PAUSED', 'COMPLETED', 'CANCELLED']).optional(),
+  clientId: z.string().min(1).optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+  offset: z.coerce.number().min(0).default(0),
 })
 
-function nextRuns(start: string, cadence: 'weekly' | 'monthly' | 'quarterly', count = 3): string[] {
-  const base = new Date(start + 'T00:00:00Z')
-  const dates: string[] = []
-  const d = new Date(base)
-  for (let i = 0; i < count; i++) {
-    if (i > 0) {
-      if (cadence === 'weekly') d.setUTCDate(d.getUTCDate() + 7)
-      if (cadence === 'monthly') d.setUTCMonth(d.getUTCMonth() + 1)
-      if (cadence === 'quarterly') d.setUTCMonth(d.getUTCMonth() + 3)
-    }
-    dates.push(d.toISOString().slice(0, 10))
+/**
+ * Recurring invoice schedules
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_VIEW)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const filters = FilterSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const result = await listRecurringInvoices(tenantId, {
+      status: filters.status,
+      clientId: filters.clientId,
+      limit: filters.limit,
+      offset: filters.offset,
+    })
+
+    return NextResponse.json(result, { status: 200 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    console.error('Recurring invoices list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-  return dates
-}
+})
 
-export const POST = withTenantContext(async (req: Request) => {
-  let body: unknown
+/**
+ * Create a recurring invoice schedule for a client
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
   try {
-    body = await req.json()
-  } catch {
-    return NextResponse.json({ error: 'Invalid JSON' }, { status: 400 })
-  }
-  const parsed = Payload.safeParse(body)
-  if (!parsed.success) {
-    return NextResponse.json({ error: 'Invalid input', details: parsed.error.flatten() }, { status: 400 })
+    const ctx = requireTenantContext()
+    if (!ctx?.userId) {
+      return respond.unauthorized()
+    }
+    if (!hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return respond.forbidden('Forbidden')
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = RecurringInvoiceSchema.parse(body)
+    const schedule = await createRecurringInvoice(tenantId, input, ctx.userId)
+
+    await logAuditSafe({
+      action: 'invoice:create_recurring',
+      details: { recurringInvoiceId: schedule.id, clientId: schedule.clientId, cadence: schedule.cadence },
+    }).catch(() => {})
+
+    return NextResponse.json(schedule, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Recurring invoice create error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
   }
-  const data = parsed.data
-  const id = crypto.randomUUID?.() || Math.random().toString(36).slice(2)
-  return NextResponse.json({
-    success: true,
-    data: {
-      id,
-      preview: nextRuns(data.startDate, data.cadence),
-      ...data,
-    }
-  })
-}, { requireAuth: false })
-
-export const GET = withTenantContext(async () => {
-  return NextResponse.json({ schema: "POST { name,startDate(YYYY-MM-DD),cadence('weekly'|'monthly'|'quarterly'),amount,currency(AAA) } -> { success, data:{ id, preview:string[], ...input } }" })
-}, { requireAuth: false })
+})
@@ -31,6 +31,9 @@ const CreatePartySchema = z.object({
   address: z.string().optional(),
   city: z.string().max(100).optional(),
   country: z.string().max(2).optional(),
+  bankAccountName: z.string().max(140).optional(),
+  iban: z.string().transform((v) => v.replace(/\s+/g, '').toUpperCase()).pipe(z.string().regex(/^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/, 'Invalid IBAN')).optional(),
+  bic: z.string().transform((v) => v.trim().toUpperCase()).pipe(z.string().regex(/^[A-Z0-9]{8}([A-Z0-9]{3})?$/, 'Invalid BIC')).optional(),
   externalId: z.string().max(255).optional(),
   source: z.string().max(100).optional(),
 });
@@ -88,8 +91,9 @@ async function handleGET(request: NextRequest) {
     if (params.search) {
       where.OR = [
         { name: { contains: params.search, mode: 'insensitive' } },
-        { registrationNumber: { contains: params.search, mode: 'insensitive' } },
-        { taxId: { contains: params.search, mode: 'insensitive' } },
+        // Identifiers are encrypted, so they only match in full
+        { registrationNumber: params.search },
+        { taxId: params.search },
       ];
     }
 
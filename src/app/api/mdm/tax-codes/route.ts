@@ -32,6 +32,13 @@ const CreateTaxCodeSchema = z.object({
   ]),
   country: z.string().min(2).max(2),
   taxRate: z.number().min(0).max(100),
+  taxCategory: z.enum([
+    'STANDARD',
+    'ZERO_RATED',
+    'EXEMPT',
+    'OUT_OF_SCOPE',
+    'REVERSE_CHARGE',
+  ]).optional(),
   effectiveFrom: z.string().datetime(),
   effectiveTo: z.string().datetime().optional(),
   externalId: z.string().max(255).optional(),
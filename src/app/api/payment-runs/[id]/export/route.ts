@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { resolveStepUp } from '@/lib/security/step-up'
+import { SoDOverrideSchema } from '@/lib/rbac/sod-engine'
+import { exportPaymentRun, PAYMENT_FILE_FORMATS } from '@/lib/payables/payment-runs'
+
+const ExportSchema = z.object({
+  format: z.enum(PAYMENT_FILE_FORMATS as [string, ...string[]]).default('pain.001'),
+  sodOverride: SoDOverrideSchema.optional(), // Release despite a segregation of duties conflict
+})
+
+/**
+ * Download the run's bank payment file (`pain.001` XML or `csv`) and mark
+ * the run exported. Exporting again returns a fresh file for the same run.
+ */
+export const POST = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const { format, sodOverride } = ExportSchema.parse(body)
+    const override = sodOverride
+      ? { justification: sodOverride.justification, ...(await resolveStepUp(request, { userId: ctx.userId, tenantId })) }
+      : null
+    const file = await exportPaymentRun(tenantId, params.id, format as 'csv' | 'pain.001', { id: ctx.userId, role: ctx.role }, override)
+
+    await logAuditSafe({
+      action: 'payables:export_payment_run',
+      details: { runId: params.id, format, filename: file.filename, sodOverride: sodOverride?.justification },
+    }).catch(() => {})
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': `${file.contentType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+      },
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Payment run export error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
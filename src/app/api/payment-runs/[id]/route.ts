@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { cancelPaymentRun } from '@/lib/payables/payment-runs'
+
+/**
+ * A payment run with the bills it pays
+ */
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const run = await prisma.paymentRun.findFirst({
+      where: { id: params.id, tenantId },
+      include: {
+        connection: { select: { id: true, bankName: true, accountNumber: true } },
+        items: {
+          include: {
+            bill: {
+              select: {
+                id: true,
+                billNumber: true,
+                status: true,
+                dueDate: true,
+                totalCents: true,
+                paidCents: true,
+                vendor: { select: { id: true, name: true, iban: true } },
+              },
+            },
+          },
+        },
+      },
+    })
+    if (!run) {
+      return NextResponse.json({ error: 'Payment run not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(run, { status: 200 })
+  } catch (error) {
+    console.error('Payment run get error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Cancel a run so its bills can be scheduled again
+ */
+export const DELETE = withTenantContext(async (
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const run = await cancelPaymentRun(tenantId, params.id)
+
+    await logAuditSafe({
+      action: 'payables:cancel_payment_run',
+      details: { runId: run.id, reference: run.reference },
+    }).catch(() => {})
+
+    return NextResponse.json(run, { status: 200 })
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Payment run cancel error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
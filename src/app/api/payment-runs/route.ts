@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { ApiError } from '@/lib/api/error-responses'
+import { scheduleBillPayments } from '@/lib/payables/payment-runs'
+
+const FilterSchema = z.object({
+  status: z.enum(['SCHEDULED', 'EXPORTED', 'CANCELLED']).optional(),
+  limit: z.coerce.number().min(1).max(100).default(50),
+  offset: z.coerce.number().min(0).default(0),
+})
+
+const ScheduleSchema = z.object({
+  through: z.coerce.date(),
+  entityId: z.string().min(1).optional(),
+  currency: z.string().trim().length(3).optional(),
+  connectionId: z.string().min(1).optional(),
+})
+
+/**
+ * Payment runs, next to be paid first
+ */
+export const GET = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const filters = FilterSchema.parse(Object.fromEntries(request.nextUrl.searchParams))
+    const where = { tenantId, ...(filters.status ? { status: filters.status } : {}) }
+
+    const [total, runs] = await Promise.all([
+      prisma.paymentRun.count({ where }),
+      prisma.paymentRun.findMany({
+        where,
+        include: { _count: { select: { items: true } } },
+        orderBy: [{ paymentDate: 'desc' }, { createdAt: 'desc' }],
+        take: filters.limit,
+        skip: filters.offset,
+      }),
+    ])
+
+    return NextResponse.json(
+      {
+        runs,
+        pagination: { total, limit: filters.limit, offset: filters.offset, hasMore: filters.offset + filters.limit < total },
+      },
+      { status: 200 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid query parameters', details: error.issues }, { status: 400 })
+    }
+    console.error('Payment runs list error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
+
+/**
+ * Schedule approved bills due by a date into payment runs, one per
+ * entity, currency and payment date
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId || !hasPermission(ctx.role, PERMISSIONS.TEAM_MANAGE)) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const body = await request.json()
+    const input = ScheduleSchema.parse(body)
+    const runs = await scheduleBillPayments(tenantId, {
+      through: input.through,
+      entityId: input.entityId,
+      currency: input.currency,
+      connectionId: input.connectionId,
+      userId: ctx.userId,
+    })
+
+    await logAuditSafe({
+      action: 'payables:schedule_payments',
+      details: { through: input.through.toISOString(), runIds: runs.map((r) => r.id) },
+    }).catch(() => {})
+
+    return NextResponse.json({ runs }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({ error: 'Invalid request body', details: error.issues }, { status: 400 })
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+    console.error('Payment run schedule error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
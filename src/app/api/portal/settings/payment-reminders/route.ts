@@ -0,0 +1,51 @@
+import { withTenantContext } from '@/lib/api-wrapper'
+import { z } from 'zod'
+import { respond, zodDetails } from '@/lib/api-response'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { isOptedOut, setReminderOptOut } from '@/lib/invoicing/reminders'
+
+export const runtime = 'nodejs'
+
+// GET whether the current user receives payment reminders
+export const GET = withTenantContext(async () => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+  if (!ctx.tenantId) return respond.badRequest('Tenant context required')
+
+  try {
+    const optedOut = await isOptedOut(ctx.tenantId, ctx.userId)
+    return respond.ok({ enabled: !optedOut })
+  } catch (e) {
+    console.error('Payment reminder preference error', e)
+    return respond.serverError()
+  }
+})
+
+const UpdateSchema = z.object({
+  enabled: z.boolean(),
+  reason: z.string().trim().max(255).optional(),
+})
+
+// PUT turns payment reminders on or off for the current user
+export const PUT = withTenantContext(async (req: Request) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+  if (!ctx.tenantId) return respond.badRequest('Tenant context required')
+  const userId = ctx.userId
+
+  const body = await req.json().catch(() => null)
+  const parsed = UpdateSchema.safeParse(body)
+  if (!parsed.success) return respond.badRequest('Invalid payload', zodDetails(parsed.error))
+
+  try {
+    await setReminderOptOut(ctx.tenantId, userId, !parsed.data.enabled, { reason: parsed.data.reason, userId })
+    try {
+      await logAuditSafe({ action: 'preferences:update', actorId: userId, targetId: userId, details: { type: 'payment-reminders', enabled: parsed.data.enabled } })
+    } catch {}
+    return respond.ok({ enabled: parsed.data.enabled })
+  } catch (e) {
+    console.error('Payment reminder preference update error', e)
+    return respond.serverError()
+  }
+})
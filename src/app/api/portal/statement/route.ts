@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { respond, zodDetails } from '@/lib/api-response'
+import {
+  getCustomerStatement,
+  renderCustomerStatementPdf,
+  StatementQuerySchema,
+  statementPeriod,
+} from '@/lib/invoicing/customer-statements'
+
+export const runtime = 'nodejs'
+
+// GET the current client's statement of account as JSON or PDF
+export const GET = withTenantContext(async (request: NextRequest) => {
+  const ctx = requireTenantContext()
+  if (!ctx.userId) return respond.unauthorized()
+  if (!ctx.tenantId) return respond.badRequest('Tenant context required')
+
+  const parsed = StatementQuerySchema.safeParse(Object.fromEntries(request.nextUrl.searchParams))
+  if (!parsed.success) return respond.badRequest('Invalid query parameters', zodDetails(parsed.error))
+
+  const query = parsed.data
+  if (query.from && query.to && query.from.getTime() > query.to.getTime()) {
+    return respond.badRequest('Statement start must be on or before its end')
+  }
+
+  try {
+    const period = statementPeriod(query.from, query.to)
+    const statement = await getCustomerStatement(ctx.tenantId, ctx.userId, { ...period, currency: query.currency })
+
+    if (query.format === 'pdf') {
+      const body = await renderCustomerStatementPdf(statement)
+      return new NextResponse(new Uint8Array(body), {
+        headers: {
+          'Content-Type': 'application/pdf',
+          'Content-Disposition': `attachment; filename="statement-${period.to.toISOString().slice(0, 10)}.pdf"`,
+        },
+      })
+    }
+
+    return respond.ok(statement)
+  } catch (e) {
+    console.error('Portal statement error', e)
+    return respond.serverError()
+  }
+})
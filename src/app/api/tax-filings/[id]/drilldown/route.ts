@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { parseGeneratedVatReturn } from '@/lib/tax-workflows/vat-return'
+
+/**
+ * Source documents behind the boxes of a generated VAT return.
+ * ?box=<code> narrows to one box; ?box=excluded lists what was left out.
+ */
+export const GET = withTenantContext(async (
+  request: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { id } = await context.params
+    const filing = await prisma.taxFiling.findFirst({
+      where: { id, tenantId },
+      select: { id: true, status: true, data: true },
+    })
+
+    if (!filing) {
+      return NextResponse.json({ error: 'Filing not found' }, { status: 404 })
+    }
+
+    const vatReturn = parseGeneratedVatReturn(filing.data)
+    if (!vatReturn) {
+      return NextResponse.json({ error: 'Filing was not generated from transactions' }, { status: 422 })
+    }
+
+    const boxCode = request.nextUrl.searchParams.get('box')
+    if (boxCode === 'excluded') {
+      return NextResponse.json({ filingId: filing.id, excluded: vatReturn.excluded })
+    }
+    if (boxCode) {
+      const box = vatReturn.boxes.find((b) => b.code === boxCode)
+      if (!box) {
+        return NextResponse.json({ error: `Unknown box ${boxCode}` }, { status: 404 })
+      }
+      return NextResponse.json({ filingId: filing.id, box })
+    }
+
+    return NextResponse.json({
+      filingId: filing.id,
+      status: filing.status,
+      form: vatReturn.form,
+      boxes: vatReturn.boxes.map(({ sources, ...box }) => ({ ...box, sourceCount: sources.length })),
+      excludedCount: vatReturn.excluded.length,
+      warnings: vatReturn.warnings,
+    })
+  } catch (error) {
+    console.error('Tax filing drill-down error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -4,10 +4,15 @@ import { logAuditSafe } from '@/lib/observability-helpers'
 import { withTenantContext } from '@/lib/api-wrapper'
 import { requireTenantContext } from '@/lib/tenant-utils'
 import { z } from 'zod'
+import { ApiError } from '@/lib/api/error-responses'
+import { requireStepUp, resolveStepUp } from '@/lib/security/step-up'
+import { hasPermission, PERMISSIONS } from '@/lib/permissions'
+import { enforceSoD, SoDOverrideSchema } from '@/lib/rbac/sod-engine'
 
 const SubmitFilingSchema = z.object({
   documents: z.array(z.string()).optional(),
   comments: z.string().optional(),
+  sodOverride: SoDOverrideSchema.optional(), // Submit despite a segregation of duties conflict
 })
 
 export const POST = withTenantContext(async (
@@ -26,6 +31,12 @@ export const POST = withTenantContext(async (
       return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
     }
 
+    if (!hasPermission(ctx.role, PERMISSIONS.TAX_FILINGS_SUBMIT)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+    const stepUp = await requireStepUp(request, PERMISSIONS.TAX_FILINGS_SUBMIT, { userId: ctx.userId, tenantId })
+    if (stepUp) return stepUp
+
     const { id } = params
     const body = await request.json()
     const validated = SubmitFilingSchema.parse(body)
@@ -46,6 +57,12 @@ export const POST = withTenantContext(async (
       )
     }
 
+    // The preparer does not submit their own filing
+    const override = validated.sodOverride
+      ? { justification: validated.sodOverride.justification, ...(await resolveStepUp(request, { userId: ctx.userId, tenantId })) }
+      : null
+    await enforceSoD(tenantId, 'filing.submit', id, { id: ctx.userId, role: ctx.role }, override)
+
     // Update filing status
     const submittedFiling = await prisma.taxFiling.update({
       where: { id },
@@ -79,6 +96,7 @@ export const POST = withTenantContext(async (
         taxType: filing.taxType,
         taxAmount: filing.taxAmount,
         documentsCount: validated.documents?.length || 0,
+        sodOverride: validated.sodOverride?.justification,
       },
     }).catch(() => {})
 
@@ -100,6 +118,9 @@ export const POST = withTenantContext(async (
         { status: 400 }
       )
     }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
 
     console.error('Tax filing submission error:', error)
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
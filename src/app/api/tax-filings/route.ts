@@ -7,6 +7,7 @@ import { z } from 'zod'
 import { UAEVATWorkflow, UAEESRWorkflow, UAECorporateTaxWorkflow } from '@/lib/tax-workflows/uae-workflows'
 import { KSAVATWorkflow, KSAZakatWorkflow, KSAWHTWorkflow } from '@/lib/tax-workflows/ksa-workflows'
 import { EgyptVATWorkflow, EgyptETAWorkflow } from '@/lib/tax-workflows/egypt-workflows'
+import { getFixedAssetFilingFigures } from '@/lib/accounting/fixed-assets'
 
 const CreateFilingSchema = z.object({
   entityId: z.string().min(1),
@@ -132,6 +133,14 @@ export const POST = withTenantContext(async (request: NextRequest) => {
       return NextResponse.json({ error: 'Entity not found' }, { status: 404 })
     }
 
+    // Asset figures come from the entity's register when it keeps one
+    const usesAssetRegister =
+      (validated.country === 'AE' && validated.taxType === 'CORPORATE_TAX') || (validated.country === 'SA' && validated.taxType === 'ZAKAT')
+    if (usesAssetRegister && !validated.data.fixedAssets) {
+      const fixedAssets = await getFixedAssetFilingFigures(entity.id, new Date(validated.periodStartDate), new Date(validated.periodEndDate))
+      if (fixedAssets) validated.data.fixedAssets = fixedAssets
+    }
+
     // Calculate based on country and tax type
     let calculations: any = {}
     let validationErrors: any[] = []
@@ -218,6 +227,7 @@ export const POST = withTenantContext(async (request: NextRequest) => {
         data: JSON.stringify(validated.data),
         taxAmount: calculations.taxAmount || 0,
         calculations: JSON.stringify(calculations),
+        createdBy: ctx.userId,
       },
       select: {
         id: true,
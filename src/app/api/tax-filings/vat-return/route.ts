@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { withTenantContext } from '@/lib/api-wrapper'
+import { requireTenantContext } from '@/lib/tenant-utils'
+import { ApiError } from '@/lib/api/error-responses'
+import { generateVatReturn, saveVatReturnFiling } from '@/lib/tax-workflows/vat-return'
+import { z } from 'zod'
+
+const GenerateVatReturnSchema = z.object({
+  entityId: z.string().min(1),
+  filingPeriodId: z.string().min(1),
+  save: z.boolean().default(true),
+})
+
+/**
+ * Generate a VAT return for a filing period from the entity's invoices,
+ * credit/debit notes and expenses. With save (the default) the result is
+ * stored as the period's draft VAT filing; otherwise it is only previewed.
+ */
+export const POST = withTenantContext(async (request: NextRequest) => {
+  try {
+    const ctx = requireTenantContext()
+
+    if (!ctx?.userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const tenantId = ctx.tenantId
+    if (!tenantId) {
+      return NextResponse.json({ error: 'Tenant context required' }, { status: 400 })
+    }
+
+    const { entityId, filingPeriodId, save } = GenerateVatReturnSchema.parse(await request.json())
+
+    if (!save) {
+      const vatReturn = await generateVatReturn(tenantId, entityId, filingPeriodId)
+      return NextResponse.json({ vatReturn }, { status: 200 })
+    }
+
+    const { filing, vatReturn } = await saveVatReturnFiling(tenantId, entityId, filingPeriodId, ctx.userId)
+
+    await logAuditSafe({
+      action: 'tax_filings:generate_vat_return',
+      details: {
+        filingId: filing.id,
+        filingPeriodId,
+        country: vatReturn.country,
+        netPayableCents: vatReturn.netPayableCents,
+      },
+    }).catch(() => {})
+
+    return NextResponse.json(
+      {
+        filing: {
+          id: filing.id,
+          country: filing.country,
+          taxType: filing.taxType,
+          status: filing.status,
+          taxAmount: filing.taxAmount,
+        },
+        vatReturn,
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          error: 'Invalid request body',
+          details: error.issues,
+        },
+        { status: 400 }
+      )
+    }
+    if (error instanceof ApiError) {
+      return NextResponse.json({ error: error.message, code: error.code, details: error.details }, { status: error.status })
+    }
+
+    console.error('VAT return generation error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+})
@@ -1,13 +1,162 @@
 "use client";
 
-import { useRouter } from "next/navigation";
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
 import { Button } from "@/components/ui/button";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ArrowLeft, Upload, Receipt, AlertCircle, Camera } from "lucide-react";
-import Link from "next/link";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, Upload, Receipt, AlertCircle, Loader2 } from "lucide-react";
+
+interface Vendor {
+  id: string;
+  name: string;
+}
+
+interface BillRow {
+  id: string;
+  billNumber: string;
+  status: string;
+  currency: string;
+  totalCents: number;
+  paidCents: number;
+  dueDate: string;
+  vendor: Vendor;
+}
+
+interface DraftLine {
+  description: string;
+  quantity: number;
+  unitPriceCents: number;
+}
+
+interface Draft {
+  vendorId: string;
+  billNumber: string;
+  issueDate: string;
+  dueDate: string;
+  currency: string;
+  lines: DraftLine[];
+  warnings: string[];
+  ocrData: Record<string, unknown> | null;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const emptyDraft = (): Draft => ({
+  vendorId: "",
+  billNumber: "",
+  issueDate: today(),
+  dueDate: today(),
+  currency: "USD",
+  lines: [{ description: "", quantity: 1, unitPriceCents: 0 }],
+  warnings: [],
+  ocrData: null,
+});
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  DRAFT: "outline",
+  PENDING_APPROVAL: "secondary",
+  APPROVED: "default",
+  PAID: "default",
+  REJECTED: "destructive",
+  VOID: "outline",
+};
+
+const formatMoney = (cents: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100);
 
 export default function BillsPage() {
+  const [bills, setBills] = useState<BillRow[]>([]);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [draft, setDraft] = useState<Draft>(emptyDraft);
+  const [reading, setReading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const loadBills = useCallback(async () => {
+    const res = await fetch("/api/bills?limit=50");
+    if (res.ok) setBills((await res.json()).bills ?? []);
+  }, []);
+
+  useEffect(() => {
+    loadBills();
+    fetch("/api/mdm/parties?partyType=VENDOR&status=ACTIVE&limit=100")
+      .then((res) => (res.ok ? res.json() : { data: [] }))
+      .then((json) => setVendors(json.data ?? []))
+      .catch(() => setVendors([]));
+  }, [loadBills]);
+
+  const onSelectFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setReading(true);
+    try {
+      const form = new FormData();
+      form.append("file", file);
+      const res = await fetch("/api/bills/prefill", { method: "POST", body: form });
+      const prefill = await res.json();
+      if (!res.ok) throw new Error(prefill?.error || "Could not read the bill");
+      setDraft({
+        vendorId: prefill.vendorId ?? "",
+        billNumber: prefill.billNumber ?? "",
+        issueDate: prefill.issueDate ?? today(),
+        dueDate: prefill.dueDate ?? prefill.issueDate ?? today(),
+        currency: prefill.currency ?? "USD",
+        lines: prefill.lines?.length ? prefill.lines : emptyDraft().lines,
+        warnings: prefill.warnings ?? [],
+        ocrData: prefill,
+      });
+      toast.success("Bill read; check the details before saving");
+    } catch (err: any) {
+      toast.error(err?.message || "Could not read the bill");
+    } finally {
+      setReading(false);
+      e.target.value = "";
+    }
+  };
+
+  const updateLine = (index: number, patch: Partial<DraftLine>) => {
+    setDraft({ ...draft, lines: draft.lines.map((line, i) => (i === index ? { ...line, ...patch } : line)) });
+  };
+
+  const save = async (submit: boolean) => {
+    setSaving(true);
+    try {
+      const res = await fetch("/api/bills", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          vendorId: draft.vendorId,
+          billNumber: draft.billNumber,
+          issueDate: draft.issueDate,
+          dueDate: draft.dueDate,
+          currency: draft.currency,
+          lines: draft.lines,
+          ocrData: draft.ocrData,
+        }),
+      });
+      const bill = await res.json();
+      if (!res.ok) throw new Error(bill?.error || "Failed to save the bill");
+      if (submit) {
+        const submitted = await fetch(`/api/bills/${bill.id}/submit`, { method: "POST" });
+        if (!submitted.ok) throw new Error((await submitted.json())?.error || "Saved, but not submitted");
+      }
+      toast.success(submit ? "Bill submitted for approval" : "Bill saved as draft");
+      setDraft(emptyDraft());
+      await loadBills();
+    } catch (err: any) {
+      toast.error(err?.message || "Failed to save the bill");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const totalCents = draft.lines.reduce((sum, line) => sum + line.quantity * line.unitPriceCents, 0);
+  const canSave = !!draft.vendorId && !!draft.billNumber && draft.lines.every((l) => l.description && l.unitPriceCents >= 0);
+
   return (
     <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
       <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
@@ -20,10 +169,10 @@ export default function BillsPage() {
             </Link>
             <div>
               <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
-                Upload Bill
+                Bills
               </h1>
               <p className="text-sm text-gray-600 dark:text-gray-400">
-                Scan and extract bill data with OCR
+                Upload supplier bills, check what was read and send them for approval
               </p>
             </div>
           </div>
@@ -31,29 +180,140 @@ export default function BillsPage() {
       </header>
 
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
-        <Alert>
-          <AlertCircle className="h-4 w-4" />
-          <AlertDescription>
-            The Upload Bill feature is coming soon. You&apos;ll be able to scan receipts and extract data automatically.
-          </AlertDescription>
-        </Alert>
-
         <Card>
           <CardHeader>
             <CardTitle className="flex items-center gap-2">
               <Receipt className="h-5 w-5" />
-              Quick Actions
+              New Bill
             </CardTitle>
+            <CardDescription>Upload a PDF or photo to pre-fill the bill, or enter it by hand.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="bill-file" className="flex items-center gap-2">
+                {reading ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+                Supplier invoice
+              </Label>
+              <Input id="bill-file" type="file" accept="application/pdf,image/png,image/jpeg,image/tiff" onChange={onSelectFile} disabled={reading} />
+            </div>
+
+            {draft.warnings.length > 0 && (
+              <Alert>
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{draft.warnings.join(". ")}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-4">
+              <div className="lg:col-span-2">
+                <Label htmlFor="vendor">Vendor</Label>
+                <select
+                  id="vendor"
+                  className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  value={draft.vendorId}
+                  onChange={(e) => setDraft({ ...draft, vendorId: e.target.value })}
+                >
+                  <option value="">Select a vendor</option>
+                  {vendors.map((vendor) => (
+                    <option key={vendor.id} value={vendor.id}>{vendor.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="bill-number">Bill number</Label>
+                <Input id="bill-number" value={draft.billNumber} onChange={(e) => setDraft({ ...draft, billNumber: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="issue-date">Issued</Label>
+                <Input id="issue-date" type="date" value={draft.issueDate} onChange={(e) => setDraft({ ...draft, issueDate: e.target.value })} />
+              </div>
+              <div>
+                <Label htmlFor="due-date">Due</Label>
+                <Input id="due-date" type="date" value={draft.dueDate} onChange={(e) => setDraft({ ...draft, dueDate: e.target.value })} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              {draft.lines.map((line, index) => (
+                <div key={index} className="grid grid-cols-6 gap-2">
+                  <Input
+                    className="col-span-4"
+                    placeholder="Description"
+                    value={line.description}
+                    onChange={(e) => updateLine(index, { description: e.target.value })}
+                  />
+                  <Input
+                    type="number"
+                    min={1}
+                    aria-label="Quantity"
+                    value={line.quantity}
+                    onChange={(e) => updateLine(index, { quantity: Math.max(1, Number(e.target.value) || 1) })}
+                  />
+                  <Input
+                    type="number"
+                    step="0.01"
+                    aria-label="Unit price"
+                    value={line.unitPriceCents / 100}
+                    onChange={(e) => updateLine(index, { unitPriceCents: Math.round((Number(e.target.value) || 0) * 100) })}
+                  />
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setDraft({ ...draft, lines: [...draft.lines, { description: "", quantity: 1, unitPriceCents: 0 }] })}
+              >
+                Add line
+              </Button>
+            </div>
+
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <div className="flex items-center gap-2">
+                <Label htmlFor="currency">Currency</Label>
+                <Input
+                  id="currency"
+                  className="w-24"
+                  maxLength={3}
+                  value={draft.currency}
+                  onChange={(e) => setDraft({ ...draft, currency: e.target.value.toUpperCase() })}
+                />
+                <span className="text-sm text-gray-600 dark:text-gray-400">Net {(totalCents / 100).toFixed(2)}</span>
+              </div>
+              <div className="flex gap-2">
+                <Button variant="outline" onClick={() => save(false)} disabled={!canSave || saving}>
+                  Save draft
+                </Button>
+                <Button onClick={() => save(true)} disabled={!canSave || saving}>
+                  {saving ? "Saving..." : "Submit for approval"}
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Recent Bills</CardTitle>
           </CardHeader>
-          <CardContent className="space-y-2">
-            <Button variant="outline" className="w-full justify-start" disabled>
-              <Camera className="h-4 w-4 mr-2" />
-              Take Photo
-            </Button>
-            <Button variant="outline" className="w-full justify-start" disabled>
-              <Upload className="h-4 w-4 mr-2" />
-              Upload File
-            </Button>
+          <CardContent>
+            {bills.length === 0 ? (
+              <p className="text-sm text-gray-600 dark:text-gray-400">No bills yet.</p>
+            ) : (
+              <div className="divide-y divide-gray-200 dark:divide-gray-700">
+                {bills.map((bill) => (
+                  <div key={bill.id} className="flex items-center justify-between py-3">
+                    <div>
+                      <p className="font-medium text-gray-900 dark:text-white">{bill.vendor.name} · {bill.billNumber}</p>
+                      <p className="text-sm text-gray-600 dark:text-gray-400">Due {new Date(bill.dueDate).toLocaleDateString()}</p>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <span className="text-sm font-medium">{formatMoney(bill.totalCents - bill.paidCents, bill.currency)}</span>
+                      <Badge variant={STATUS_VARIANTS[bill.status] ?? "outline"}>{bill.status.replace("_", " ").toLowerCase()}</Badge>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </CardContent>
         </Card>
       </main>
@@ -7,7 +7,7 @@ export default function Page() {
     <div className="min-h-screen bg-gray-50 py-8">
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
         <h1 className="text-3xl font-bold text-gray-900 mb-4">Receipt Scanner</h1>
-        <p className="text-gray-600 mb-6">Upload a receipt image or PDF, verify extracted details, and save it to your expenses.</p>
+        <p className="text-gray-600 mb-6">Upload a receipt image or PDF, and it is filed as an expense once the details are read.</p>
         <ReceiptScanner />
       </div>
     </div>
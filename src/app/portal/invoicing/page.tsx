@@ -4,7 +4,7 @@ import { useRouter } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { ArrowLeft, Plus, DollarSign, AlertCircle } from "lucide-react";
+import { ArrowLeft, Plus, DollarSign, AlertCircle, FileText } from "lucide-react";
 import Link from "next/link";
 
 export default function InvoicingPage() {
@@ -54,6 +54,12 @@ export default function InvoicingPage() {
               <DollarSign className="h-4 w-4 mr-2" />
               View Invoices
             </Button>
+            <Button variant="outline" className="w-full justify-start" asChild>
+              <Link href="/portal/statement">
+                <FileText className="h-4 w-4 mr-2" />
+                Statement of Account
+              </Link>
+            </Button>
           </CardContent>
         </Card>
       </main>
@@ -0,0 +1,249 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ArrowLeft, Download, FileText, Loader2 } from "lucide-react";
+
+interface StatementLine {
+  date: string;
+  type: "INVOICE" | "DEBIT_NOTE" | "CREDIT_NOTE" | "PAYMENT";
+  reference: string;
+  documentId: string;
+  debitCents: number;
+  creditCents: number;
+  balanceCents: number;
+}
+
+interface Statement {
+  currency: string;
+  currencies: string[];
+  from: string;
+  to: string;
+  openingBalanceCents: number;
+  closingBalanceCents: number;
+  lines: StatementLine[];
+  aging: { name: string; invoiceCount: number; amountCents: number }[];
+}
+
+const TYPE_LABELS: Record<StatementLine["type"], string> = {
+  INVOICE: "Invoice",
+  DEBIT_NOTE: "Debit note",
+  CREDIT_NOTE: "Credit note",
+  PAYMENT: "Payment",
+};
+
+const formatMoney = (cents: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100);
+
+const day = (value: string) => value.slice(0, 10);
+
+export default function StatementPage() {
+  const [statement, setStatement] = useState<Statement | null>(null);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+  const [currency, setCurrency] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [remindersEnabled, setRemindersEnabled] = useState(true);
+
+  const query = useCallback(
+    (format: "json" | "pdf") => {
+      const params = new URLSearchParams({ format });
+      if (from) params.set("from", from);
+      if (to) params.set("to", to);
+      if (currency) params.set("currency", currency);
+      return `/api/portal/statement?${params.toString()}`;
+    },
+    [from, to, currency]
+  );
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch(query("json"));
+      const json = await res.json();
+      if (!res.ok) throw new Error(json?.error?.message || "Could not load your statement");
+      setStatement(json.data);
+      if (!from) setFrom(day(json.data.from));
+      if (!to) setTo(day(json.data.to));
+      if (!currency) setCurrency(json.data.currency);
+    } catch (err: any) {
+      toast.error(err?.message || "Could not load your statement");
+    } finally {
+      setLoading(false);
+    }
+  }, [query, from, to, currency]);
+
+  useEffect(() => {
+    load();
+    fetch("/api/portal/settings/payment-reminders")
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => setRemindersEnabled(json?.data?.enabled ?? true))
+      .catch(() => setRemindersEnabled(true));
+  }, []);
+
+  const toggleReminders = async (enabled: boolean) => {
+    setRemindersEnabled(enabled);
+    const res = await fetch("/api/portal/settings/payment-reminders", {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ enabled }),
+    });
+    if (res.ok) {
+      toast.success(enabled ? "Payment reminders turned on" : "Payment reminders turned off");
+    } else {
+      setRemindersEnabled(!enabled);
+      toast.error("Could not update your reminder preference");
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      <header className="bg-white dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
+          <div className="flex items-center gap-3">
+            <Link href="/portal/dashboard">
+              <Button variant="ghost" size="icon">
+                <ArrowLeft className="h-5 w-5" />
+              </Button>
+            </Link>
+            <div>
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Statement of Account
+              </h1>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Your invoices, credit notes and payments, with the balance after each
+              </p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Period
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="grid gap-4 sm:grid-cols-4 items-end">
+              <div className="space-y-1">
+                <Label htmlFor="statement-from">From</Label>
+                <Input id="statement-from" type="date" value={from} onChange={(e) => setFrom(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="statement-to">To</Label>
+                <Input id="statement-to" type="date" value={to} onChange={(e) => setTo(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="statement-currency">Currency</Label>
+                <select
+                  id="statement-currency"
+                  className="w-full h-10 rounded-md border border-input bg-background px-3 text-sm"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                >
+                  {(statement?.currencies ?? []).map((code) => (
+                    <option key={code} value={code}>
+                      {code}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={load} disabled={loading}>
+                  {loading && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  Show
+                </Button>
+                <Button variant="outline" asChild>
+                  <a href={query("pdf")}>
+                    <Download className="h-4 w-4 mr-2" />
+                    PDF
+                  </a>
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {statement && (
+          <Card>
+            <CardHeader>
+              <CardTitle>
+                Balance {formatMoney(statement.closingBalanceCents, statement.currency)}
+              </CardTitle>
+              <CardDescription>
+                {day(statement.from)} to {day(statement.to)}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2">Date</th>
+                    <th className="py-2">Type</th>
+                    <th className="py-2">Reference</th>
+                    <th className="py-2 text-right">Charges</th>
+                    <th className="py-2 text-right">Credits</th>
+                    <th className="py-2 text-right">Balance</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  <tr className="border-b font-medium">
+                    <td className="py-2">{day(statement.from)}</td>
+                    <td className="py-2" colSpan={4}>Opening balance</td>
+                    <td className="py-2 text-right">{formatMoney(statement.openingBalanceCents, statement.currency)}</td>
+                  </tr>
+                  {statement.lines.map((line) => (
+                    <tr key={`${line.type}-${line.documentId}`} className="border-b">
+                      <td className="py-2">{day(line.date)}</td>
+                      <td className="py-2">{TYPE_LABELS[line.type]}</td>
+                      <td className="py-2">{line.reference}</td>
+                      <td className="py-2 text-right">{line.debitCents ? formatMoney(line.debitCents, statement.currency) : ""}</td>
+                      <td className="py-2 text-right">{line.creditCents ? formatMoney(line.creditCents, statement.currency) : ""}</td>
+                      <td className="py-2 text-right">{formatMoney(line.balanceCents, statement.currency)}</td>
+                    </tr>
+                  ))}
+                  <tr className="font-semibold">
+                    <td className="py-2" colSpan={5}>Closing balance</td>
+                    <td className="py-2 text-right">{formatMoney(statement.closingBalanceCents, statement.currency)}</td>
+                  </tr>
+                </tbody>
+              </table>
+
+              <div className="grid gap-4 sm:grid-cols-4 mt-6">
+                {statement.aging.map((bucket) => (
+                  <div key={bucket.name} className="rounded-md border p-3">
+                    <p className="text-xs text-gray-500">{bucket.name}</p>
+                    <p className="font-semibold">{formatMoney(bucket.amountCents, statement.currency)}</p>
+                    <p className="text-xs text-gray-500">{bucket.invoiceCount} open invoices</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Payment reminders</CardTitle>
+            <CardDescription>
+              Emails before an invoice falls due and while it is overdue
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex items-center gap-3">
+            <Switch id="payment-reminders" checked={remindersEnabled} onCheckedChange={toggleReminders} />
+            <Label htmlFor="payment-reminders">Send me payment reminders</Label>
+          </CardContent>
+        </Card>
+      </main>
+    </div>
+  );
+}
@@ -1,62 +1,90 @@
 "use client"
 
-import { useEffect, useMemo, useState } from "react"
+import { useCallback, useEffect, useState } from "react"
 import Image from "next/image"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
-import { Select } from "@/components/ui/select"
 import { trackEvent } from "@/lib/analytics"
 import { toast } from "sonner"
 
-export interface ExtractedFields {
-  merchant: string
-  date: string // ISO yyyy-mm-dd
-  total: number
-  tax: number
-  currency: string
+interface ReceiptFieldValue {
+  value: string | number | null
+  confidence: number
+  corrected?: boolean
+}
+
+export interface IngestedExpense {
+  id: string
+  vendor: string
   category: string
-  notes?: string
+  status: string
+  amountCents: number
+  currency: string
+  date: string
+  taxCents: number | null
+  ocrConfidence: string | number | null
+  ocrFields: Record<string, ReceiptFieldValue> | null
+  reviewStatus: string | null
+  reviewReasons: string[]
+  attachment?: { id: string; name: string | null; url: string | null; avStatus: string | null } | null
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  vendor: "Merchant",
+  date: "Date",
+  total: "Total",
+  tax: "Tax",
+  currency: "Currency",
 }
 
-export function simulateExtract(file: File): ExtractedFields {
-  const name = file.name || "receipt"
-  const match = name.match(/(\d+[.,]?\d{0,2})/)
-  const numberFromName = match ? Number(String(match[1]).replace(",", ".")) : 0
-  const today = new Date()
-  const iso = new Date(today.getTime() - today.getTimezoneOffset() * 60000).toISOString().slice(0, 10)
-  return {
-    merchant: name.replace(/\.[^.]+$/, "").replace(/[\-_]/g, " ").slice(0, 60) || "General Store",
-    date: iso,
-    total: Number.isFinite(numberFromName) ? Number(numberFromName.toFixed(2)) : 0,
-    tax: 0,
-    currency: "USD",
-    category: "general",
-    notes: ""
+const REVIEW_LABELS: Record<string, string> = {
+  NEEDS_REVIEW: "Waiting for review",
+  ACCEPTED: "Accepted",
+  REVIEWED: "Reviewed",
+}
+
+const formatMoney = (cents: number, currency: string) => {
+  try {
+    return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(cents / 100)
+  } catch {
+    return `${(cents / 100).toFixed(2)} ${currency}`
   }
 }
 
+const formatField = (key: string, field: ReceiptFieldValue, currency: string) => {
+  if (field.value === null) return "Not read"
+  if (key === "total" || key === "tax") return formatMoney(Number(field.value), currency)
+  return String(field.value)
+}
+
 export default function ReceiptScanner() {
   const [file, setFile] = useState<File | null>(null)
   const [previewUrl, setPreviewUrl] = useState<string | null>(null)
-  const [fields, setFields] = useState<ExtractedFields | null>(null)
-  const [saving, setSaving] = useState(false)
+  const [notes, setNotes] = useState("")
+  const [uploading, setUploading] = useState(false)
+  const [result, setResult] = useState<IngestedExpense | null>(null)
+  const [recent, setRecent] = useState<IngestedExpense[]>([])
+
+  const loadRecent = useCallback(async () => {
+    const res = await fetch("/api/expenses?limit=10").catch(() => null)
+    if (res?.ok) setRecent((await res.json()).expenses ?? [])
+  }, [])
 
   useEffect(() => {
     trackEvent("receipt_opened", {})
-  }, [])
+    loadRecent()
+  }, [loadRecent])
 
   useEffect(() => {
     if (!file) return
     const url = URL.createObjectURL(file)
     setPreviewUrl(url)
-    setFields(simulateExtract(file))
     return () => URL.revokeObjectURL(url)
   }, [file])
 
-  const canSave = useMemo(() => !!file && !!fields && fields.merchant && fields.date && fields.total >= 0, [file, fields])
-
   const onSelectFile = (e: React.ChangeEvent<HTMLInputElement>) => {
     const f = e.target.files?.[0]
     if (!f) return
@@ -69,47 +97,31 @@ export default function ReceiptScanner() {
       toast.error("Unsupported file type")
       return
     }
+    setResult(null)
     setFile(f)
   }
 
-  const onChangeField = (key: keyof ExtractedFields, value: string) => {
-    if (!fields) return
-    if (key === "total" || key === "tax") {
-      const n = Number(value)
-      setFields({ ...fields, [key]: Number.isFinite(n) ? n : 0 })
-    } else {
-      setFields({ ...fields, [key]: value })
-    }
-  }
-
-  const onSave = async () => {
-    if (!file || !fields) return
-    setSaving(true)
+  const onUpload = async () => {
+    if (!file) return
+    setUploading(true)
     try {
-      const res = await fetch("/api/expenses/ingest", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          fileName: file.name,
-          size: file.size,
-          contentType: file.type,
-          fields,
-        }),
-      })
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({}))
-        throw new Error(err?.error || "Failed to save")
-      }
+      const form = new FormData()
+      form.append("file", file)
+      if (notes) form.append("notes", notes)
+      const res = await fetch("/api/expenses/ingest", { method: "POST", body: form })
       const json = await res.json().catch(() => ({}))
-      trackEvent("receipt_saved", { id: json?.data?.id, amount: fields.total, currency: fields.currency })
-      toast.success("Receipt saved")
+      if (!res.ok) throw new Error(json?.error || "Failed to upload")
+      setResult(json)
+      trackEvent("receipt_saved", { id: json.id, amount: json.amountCents / 100, currency: json.currency })
+      toast.success(json.reviewStatus === "NEEDS_REVIEW" ? "Receipt saved; a reviewer will check it" : "Receipt saved")
       setFile(null)
       setPreviewUrl(null)
-      setFields(null)
+      setNotes("")
+      await loadRecent()
     } catch (e: any) {
-      toast.error(e?.message || "Failed to save")
+      toast.error(e?.message || "Failed to upload")
     } finally {
-      setSaving(false)
+      setUploading(false)
     }
   }
 
@@ -118,7 +130,7 @@ export default function ReceiptScanner() {
       <Card>
         <CardHeader>
           <CardTitle>Scan Receipt</CardTitle>
-          <CardDescription>Upload a photo or PDF. We’ll extract key details for review before saving.</CardDescription>
+          <CardDescription>Upload a photo or PDF. We read the details and file the expense; unclear receipts are checked by a reviewer.</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="flex flex-col md:flex-row gap-6">
@@ -136,48 +148,80 @@ export default function ReceiptScanner() {
               ) : (
                 <div className="p-3 border rounded-md text-sm text-gray-600 bg-gray-50">No file selected</div>
               )}
-            </div>
-
-            <div className="md:w-1/2 space-y-4">
-              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
-                <div>
-                  <Label htmlFor="merchant">Merchant</Label>
-                  <Input id="merchant" value={fields?.merchant || ""} onChange={(e) => onChangeField("merchant", e.target.value)} />
-                </div>
-                <div>
-                  <Label htmlFor="date">Date</Label>
-                  <Input id="date" type="date" value={fields?.date || ""} onChange={(e) => onChangeField("date", e.target.value)} />
-                </div>
-                <div>
-                  <Label htmlFor="total">Total</Label>
-                  <Input id="total" type="number" step="0.01" value={fields?.total ?? ""} onChange={(e) => onChangeField("total", e.target.value)} />
-                </div>
-                <div>
-                  <Label htmlFor="tax">Tax</Label>
-                  <Input id="tax" type="number" step="0.01" value={fields?.tax ?? ""} onChange={(e) => onChangeField("tax", e.target.value)} />
-                </div>
-                <div>
-                  <Label htmlFor="currency">Currency</Label>
-                  <Input id="currency" value={fields?.currency || "USD"} onChange={(e) => onChangeField("currency", e.target.value)} />
-                </div>
-                <div>
-                  <Label htmlFor="category">Category</Label>
-                  <Input id="category" value={fields?.category || "general"} onChange={(e) => onChangeField("category", e.target.value)} />
-                </div>
-              </div>
               <div>
                 <Label htmlFor="notes">Notes</Label>
-                <Input id="notes" value={fields?.notes || ""} onChange={(e) => onChangeField("notes", e.target.value)} />
-              </div>
-              <div className="flex gap-2">
-                <Button onClick={onSave} disabled={!canSave || saving} aria-label="Save receipt">
-                  {saving ? "Saving..." : "Save"}
-                </Button>
+                <Input id="notes" value={notes} onChange={(e) => setNotes(e.target.value)} />
               </div>
+              <Button onClick={onUpload} disabled={!file || uploading} aria-label="Save receipt">
+                {uploading ? "Reading..." : "Save"}
+              </Button>
+            </div>
+
+            <div className="md:w-1/2 space-y-3">
+              {result ? (
+                <>
+                  <div className="flex items-center justify-between">
+                    <p className="font-medium text-gray-900">{result.vendor}</p>
+                    <Badge variant={result.reviewStatus === "NEEDS_REVIEW" ? "secondary" : "default"}>
+                      {REVIEW_LABELS[result.reviewStatus ?? ""] ?? result.status.toLowerCase()}
+                    </Badge>
+                  </div>
+                  <dl className="divide-y rounded-md border text-sm">
+                    {Object.entries(FIELD_LABELS).map(([key, label]) => {
+                      const field = result.ocrFields?.[key]
+                      if (!field) return null
+                      return (
+                        <div key={key} className="flex items-center justify-between px-3 py-2">
+                          <dt className="text-gray-600">{label}</dt>
+                          <dd className="flex items-center gap-2">
+                            <span>{formatField(key, field, result.currency)}</span>
+                            <span className="text-xs text-gray-500">{Math.round(field.confidence * 100)}%</span>
+                          </dd>
+                        </div>
+                      )
+                    })}
+                  </dl>
+                  {result.reviewReasons.length > 0 && (
+                    <p className="text-sm text-gray-600">
+                      Flagged for review: {result.reviewReasons.map((r) => r.replace(/_/g, " ").toLowerCase()).join(", ")}
+                    </p>
+                  )}
+                </>
+              ) : (
+                <div className="p-3 border rounded-md text-sm text-gray-600 bg-gray-50">What we read from the receipt will appear here.</div>
+              )}
             </div>
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Recent Receipts</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {recent.length === 0 ? (
+            <p className="text-sm text-gray-600">No receipts yet.</p>
+          ) : (
+            <div className="divide-y">
+              {recent.map((expense) => (
+                <div key={expense.id} className="flex items-center justify-between py-3">
+                  <div>
+                    <p className="font-medium text-gray-900">{expense.vendor}</p>
+                    <p className="text-sm text-gray-600">{new Date(expense.date).toLocaleDateString()} · {expense.category}</p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <span className="text-sm font-medium">{formatMoney(expense.amountCents, expense.currency)}</span>
+                    <Badge variant={expense.reviewStatus === "NEEDS_REVIEW" ? "secondary" : "outline"}>
+                      {REVIEW_LABELS[expense.reviewStatus ?? ""] ?? expense.status.toLowerCase()}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
 }
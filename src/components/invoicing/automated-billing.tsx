@@ -1,47 +1,108 @@
 "use client"
 
-import { useMemo, useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
 import { trackEvent } from '@/lib/analytics'
 import { toast } from 'sonner'
 
 const cadences = [
-  { value: 'weekly', label: 'Weekly' },
-  { value: 'monthly', label: 'Monthly' },
-  { value: 'quarterly', label: 'Quarterly' },
+  { value: 'WEEKLY', label: 'Weekly' },
+  { value: 'MONTHLY', label: 'Monthly' },
+  { value: 'QUARTERLY', label: 'Quarterly' },
+  { value: 'ANNUALLY', label: 'Annually' },
 ]
 
-type Cadence = 'weekly' | 'monthly' | 'quarterly'
+type Cadence = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ANNUALLY'
+
+interface Client {
+  id: string
+  name: string | null
+  email: string
+}
+
+interface Schedule {
+  id: string
+  name: string
+  status: string
+  cadence: Cadence
+  currency: string
+  nextRunDate: string | null
+  occurrenceCount: number
+  maxOccurrences: number | null
+  endDate: string | null
+  autoSend: boolean
+  client: Client
+}
+
+interface Run {
+  id: string
+  periodStart: string
+  periodEnd: string
+  status: string
+  sentAt: string | null
+  error: string | null
+  invoice: { id: string; number: string | null; totalCents: number; currency: string } | null
+}
+
+const MONTHS: Record<Cadence, number> = { WEEKLY: 0, MONTHLY: 1, QUARTERLY: 3, ANNUALLY: 12 }
 
 function nextRuns(start: string, cadence: Cadence, count = 3): string[] {
   const base = new Date(start + 'T00:00:00Z')
+  if (!Number.isFinite(base.getTime())) return []
   const dates: string[] = []
-  const d = new Date(base)
   for (let i = 0; i < count; i++) {
-    if (i > 0) {
-      if (cadence === 'weekly') d.setUTCDate(d.getUTCDate() + 7)
-      if (cadence === 'monthly') d.setUTCMonth(d.getUTCMonth() + 1)
-      if (cadence === 'quarterly') d.setUTCMonth(d.getUTCMonth() + 3)
+    const d = cadence === 'WEEKLY'
+      ? new Date(base.getTime() + i * 7 * 86400000)
+      : new Date(Date.UTC(base.getUTCFullYear(), base.getUTCMonth() + MONTHS[cadence] * i, 1))
+    if (cadence !== 'WEEKLY') {
+      const lastDay = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0)).getUTCDate()
+      d.setUTCDate(Math.min(base.getUTCDate(), lastDay))
     }
     dates.push(d.toISOString().slice(0, 10))
   }
   return dates
 }
 
+const formatMoney = (cents: number, currency: string) => `${currency} ${(cents / 100).toFixed(2)}`
+
 export default function AutomatedBillingSequences() {
   const [name, setName] = useState('Monthly Retainer')
+  const [clientId, setClientId] = useState('')
+  const [clients, setClients] = useState<Client[]>([])
   const [startDate, setStartDate] = useState(() => new Date().toISOString().slice(0, 10))
-  const [cadence, setCadence] = useState<Cadence>('monthly')
+  const [endDate, setEndDate] = useState('')
+  const [maxOccurrences, setMaxOccurrences] = useState('')
+  const [cadence, setCadence] = useState<Cadence>('MONTHLY')
+  const [description, setDescription] = useState('Monthly retainer')
   const [amount, setAmount] = useState(500)
   const [currency, setCurrency] = useState('USD')
+  const [paymentTermsDays, setPaymentTermsDays] = useState(30)
+  const [prorate, setProrate] = useState(false)
+  const [autoSend, setAutoSend] = useState(true)
   const [saving, setSaving] = useState(false)
+  const [schedules, setSchedules] = useState<Schedule[]>([])
+  const [history, setHistory] = useState<{ id: string; runs: Run[] } | null>(null)
 
   const preview = useMemo(() => nextRuns(startDate, cadence, 3), [startDate, cadence])
 
-  const canSave = name.trim().length > 0 && amount >= 0 && /^[A-Z]{3}$/.test(currency)
+  const canSave = name.trim().length > 0 && clientId && description.trim().length > 0 && amount >= 0 && /^[A-Z]{3}$/.test(currency)
+
+  const loadSchedules = useCallback(async () => {
+    const res = await fetch('/api/invoicing/sequences').catch(() => null)
+    if (res?.ok) setSchedules((await res.json()).schedules ?? [])
+  }, [])
+
+  useEffect(() => {
+    loadSchedules()
+    fetch('/api/admin/users?role=CLIENT&limit=100')
+      .then((res) => (res.ok ? res.json() : { users: [] }))
+      .then((json) => setClients(json.users ?? []))
+      .catch(() => setClients([]))
+  }, [loadSchedules])
 
   const onSave = async () => {
     setSaving(true)
@@ -49,15 +110,25 @@ export default function AutomatedBillingSequences() {
       const res = await fetch('/api/invoicing/sequences', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ name, startDate, cadence, amount, currency }),
+        body: JSON.stringify({
+          name,
+          clientId,
+          cadence,
+          currency,
+          startDate,
+          endDate: endDate || null,
+          maxOccurrences: maxOccurrences ? Number(maxOccurrences) : null,
+          prorate,
+          autoSend,
+          paymentTermsDays,
+          lines: [{ description, quantity: 1, unitPriceCents: Math.round(amount * 100) }],
+        }),
       })
-      if (!res.ok) {
-        const err = await res.json().catch(() => ({}))
-        throw new Error(err?.error || 'Failed to save sequence')
-      }
       const json = await res.json().catch(() => ({}))
-      trackEvent('billing_sequence_created', { id: json?.data?.id, cadence, amount, currency })
+      if (!res.ok) throw new Error(json?.error || 'Failed to save sequence')
+      trackEvent('billing_sequence_created', { id: json?.id, cadence, amount, currency })
       toast.success('Sequence created')
+      await loadSchedules()
     } catch (e: any) {
       toast.error(e?.message || 'Failed to save sequence')
     } finally {
@@ -65,6 +136,24 @@ export default function AutomatedBillingSequences() {
     }
   }
 
+  const onAction = async (schedule: Schedule, action: 'pause' | 'resume' | 'skip' | 'cancel') => {
+    const url = action === 'cancel' ? `/api/invoicing/sequences/${schedule.id}` : `/api/invoicing/sequences/${schedule.id}/${action}`
+    const res = await fetch(url, { method: action === 'cancel' ? 'DELETE' : 'POST' }).catch(() => null)
+    const json = await res?.json().catch(() => ({}))
+    if (!res?.ok) {
+      toast.error(json?.error || `Failed to ${action} sequence`)
+      return
+    }
+    toast.success(action === 'skip' ? 'Next cycle skipped' : `Sequence ${action === 'cancel' ? 'cancelled' : `${action}d`}`)
+    await loadSchedules()
+    if (history?.id === schedule.id) await onHistory(schedule)
+  }
+
+  const onHistory = async (schedule: Schedule) => {
+    const res = await fetch(`/api/invoicing/sequences/${schedule.id}`).catch(() => null)
+    if (res?.ok) setHistory({ id: schedule.id, runs: (await res.json()).runs ?? [] })
+  }
+
   return (
     <div className="space-y-6">
       <Card>
@@ -78,6 +167,15 @@ export default function AutomatedBillingSequences() {
               <Label htmlFor="seq-name">Sequence Name</Label>
               <Input id="seq-name" value={name} onChange={(e) => setName(e.target.value)} />
             </div>
+            <div>
+              <Label htmlFor="client">Client</Label>
+              <select id="client" className="border border-gray-300 rounded px-2 py-2 w-full" value={clientId} onChange={(e) => setClientId(e.target.value)}>
+                <option value="">Select a client</option>
+                {clients.map(c => (
+                  <option key={c.id} value={c.id}>{c.name || c.email}</option>
+                ))}
+              </select>
+            </div>
             <div>
               <Label htmlFor="start">Start Date</Label>
               <Input id="start" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
@@ -91,20 +189,44 @@ export default function AutomatedBillingSequences() {
               </select>
             </div>
             <div>
-              <Label htmlFor="amount">Amount</Label>
+              <Label htmlFor="end">End Date (optional)</Label>
+              <Input id="end" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="occurrences">Number of Invoices (optional)</Label>
+              <Input id="occurrences" type="number" min={1} value={maxOccurrences} onChange={(e) => setMaxOccurrences(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="description">Line Description</Label>
+              <Input id="description" value={description} onChange={(e) => setDescription(e.target.value)} />
+            </div>
+            <div>
+              <Label htmlFor="amount">Amount per Period</Label>
               <Input id="amount" type="number" step="0.01" value={amount} onChange={(e) => setAmount(Number(e.target.value))} />
             </div>
             <div>
               <Label htmlFor="currency">Currency</Label>
               <Input id="currency" value={currency} onChange={(e) => setCurrency(e.target.value.toUpperCase())} />
             </div>
+            <div>
+              <Label htmlFor="terms">Payment Terms (days)</Label>
+              <Input id="terms" type="number" min={0} value={paymentTermsDays} onChange={(e) => setPaymentTermsDays(Number(e.target.value))} />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={prorate} onChange={(e) => setProrate(e.target.checked)} />
+              Align to calendar periods and prorate part periods
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700">
+              <input type="checkbox" checked={autoSend} onChange={(e) => setAutoSend(e.target.checked)} />
+              Email invoices to the client when generated
+            </label>
           </div>
 
           <div className="mt-6">
             <Label>Next runs</Label>
             <ul className="list-disc pl-5 text-sm text-gray-700">
               {preview.map((d) => (
-                <li key={d}>{d} — {currency} {amount.toFixed(2)}</li>
+                <li key={d}>{d} — {currency} {amount.toFixed(2)}{prorate ? ' (first period may be prorated)' : ''}</li>
               ))}
             </ul>
           </div>
@@ -114,6 +236,61 @@ export default function AutomatedBillingSequences() {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Sequences</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {schedules.length === 0 ? (
+            <p className="text-sm text-gray-600">No sequences yet.</p>
+          ) : (
+            <div className="divide-y">
+              {schedules.map((s) => (
+                <div key={s.id} className="py-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <p className="font-medium text-gray-900">{s.name}</p>
+                      <p className="text-sm text-gray-600">
+                        {s.client?.name || s.client?.email} · {s.cadence.toLowerCase()} · {s.occurrenceCount}{s.maxOccurrences ? ` of ${s.maxOccurrences}` : ''} invoiced
+                        {s.nextRunDate ? ` · next ${s.nextRunDate.slice(0, 10)}` : ''}
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={s.status === 'ACTIVE' ? 'default' : 'secondary'}>{s.status.toLowerCase()}</Badge>
+                      {s.status === 'ACTIVE' && <Button size="sm" variant="outline" onClick={() => onAction(s, 'pause')}>Pause</Button>}
+                      {s.status === 'PAUSED' && <Button size="sm" variant="outline" onClick={() => onAction(s, 'resume')}>Resume</Button>}
+                      {(s.status === 'ACTIVE' || s.status === 'PAUSED') && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => onAction(s, 'skip')}>Skip Next</Button>
+                          <Button size="sm" variant="outline" onClick={() => onAction(s, 'cancel')}>Cancel</Button>
+                        </>
+                      )}
+                      <Button size="sm" variant="ghost" onClick={() => onHistory(s)}>History</Button>
+                    </div>
+                  </div>
+                  {history?.id === s.id && (
+                    history.runs.length === 0 ? (
+                      <p className="text-sm text-gray-600">Nothing billed yet.</p>
+                    ) : (
+                      <ul className="text-sm text-gray-700 space-y-1">
+                        {history.runs.map((run) => (
+                          <li key={run.id}>
+                            {run.periodStart.slice(0, 10)} to {run.periodEnd.slice(0, 10)} — {run.status.toLowerCase()}
+                            {run.invoice ? ` · ${formatMoney(run.invoice.totalCents, run.invoice.currency)}` : ''}
+                            {run.sentAt ? ' · sent' : ''}
+                            {run.error ? ` · ${run.error}` : ''}
+                          </li>
+                        ))}
+                      </ul>
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   )
 }
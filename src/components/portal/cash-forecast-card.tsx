@@ -0,0 +1,184 @@
+"use client"
+
+import { useEffect, useState } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Download, Wallet } from 'lucide-react'
+import { apiFetch } from '@/lib/api'
+import { Bar } from 'react-chartjs-2'
+import {
+  Chart as ChartJS,
+  CategoryScale,
+  LinearScale,
+  BarElement,
+  Tooltip,
+  Legend,
+} from 'chart.js'
+
+ChartJS.register(CategoryScale, LinearScale, BarElement, Tooltip, Legend)
+
+interface ForecastWeek {
+  week: number
+  start: string
+  inflowCents: number
+  outflowCents: number
+  closingCents: number
+}
+
+interface Forecast {
+  currency: string
+  openingCents: number
+  closingCents: number
+  lowest: { week: number; closingCents: number }
+  weeks: ForecastWeek[]
+  warnings: string[]
+}
+
+interface Scenario {
+  id: string
+  name: string
+}
+
+interface Props {
+  entityId: string
+}
+
+const formatMoney = (cents: number, currency: string) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency, maximumFractionDigits: 0 }).format(cents / 100)
+
+export function CashForecastCard({ entityId }: Props) {
+  const [forecast, setForecast] = useState<Forecast | null>(null)
+  const [scenarios, setScenarios] = useState<Scenario[]>([])
+  const [scenarioId, setScenarioId] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let ignore = false
+    apiFetch(`/api/accounting/cash-forecast/scenarios?entityId=${encodeURIComponent(entityId)}`)
+      .then((res) => (res.ok ? res.json() : null))
+      .then((json) => { if (!ignore) setScenarios(json?.scenarios ?? []) })
+      .catch(() => {})
+    return () => { ignore = true }
+  }, [entityId])
+
+  useEffect(() => {
+    let ignore = false
+    const params = new URLSearchParams({ entityId })
+    if (scenarioId) params.set('scenarioId', scenarioId)
+    apiFetch(`/api/accounting/cash-forecast?${params.toString()}`)
+      .then(async (res) => {
+        const json = await res.json().catch(() => null as any)
+        if (ignore) return
+        if (!res.ok) {
+          setError(json?.error || 'Could not load the cash forecast')
+          return
+        }
+        setError(null)
+        setForecast(json as Forecast)
+      })
+      .catch(() => { if (!ignore) setError('Could not load the cash forecast') })
+    return () => { ignore = true }
+  }, [entityId, scenarioId])
+
+  const exportParams = new URLSearchParams({ entityId, format: 'xlsx' })
+  if (scenarioId) exportParams.set('scenarioId', scenarioId)
+
+  return (
+    <Card className="hover:shadow-md transition-shadow mt-6">
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <div>
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <Wallet className="h-4 w-4 text-emerald-600" />
+            13-Week Cash Forecast
+          </CardTitle>
+          <CardDescription className="text-xs">
+            Bank balances plus expected receipts and payments, week by week
+          </CardDescription>
+        </div>
+        <div className="flex items-center gap-2">
+          {scenarios.length > 0 && (
+            <select
+              aria-label="Scenario"
+              className="h-8 rounded-md border border-input bg-background px-2 text-xs"
+              value={scenarioId}
+              onChange={(e) => setScenarioId(e.target.value)}
+            >
+              <option value="">Base forecast</option>
+              {scenarios.map((scenario) => (
+                <option key={scenario.id} value={scenario.id}>{scenario.name}</option>
+              ))}
+            </select>
+          )}
+          <a
+            href={`/api/accounting/cash-forecast?${exportParams.toString()}`}
+            className="inline-flex items-center gap-1 text-xs text-blue-600 hover:underline"
+          >
+            <Download className="h-3 w-3" />
+            XLSX
+          </a>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!error && !forecast && <div className="h-64 bg-gray-200 animate-pulse rounded-lg" aria-busy="true" />}
+        {!error && forecast && (
+          <>
+            <div className="grid grid-cols-3 gap-4 mb-4 text-sm">
+              <div>
+                <p className="text-xs text-gray-500">Today</p>
+                <p className="font-semibold">{formatMoney(forecast.openingCents, forecast.currency)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">In 13 weeks</p>
+                <p className="font-semibold">{formatMoney(forecast.closingCents, forecast.currency)}</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Lowest{forecast.lowest.week ? ` (week ${forecast.lowest.week})` : ''}</p>
+                <p className={`font-semibold ${forecast.lowest.closingCents < 0 ? 'text-red-600' : ''}`}>
+                  {formatMoney(forecast.lowest.closingCents, forecast.currency)}
+                </p>
+              </div>
+            </div>
+            <Bar
+              data={{
+                labels: forecast.weeks.map((week) => week.start.slice(5)),
+                datasets: [
+                  {
+                    label: 'Cash in',
+                    data: forecast.weeks.map((week) => week.inflowCents / 100),
+                    backgroundColor: 'rgba(22, 163, 74, 0.6)',
+                    borderRadius: 4,
+                  },
+                  {
+                    label: 'Cash out',
+                    data: forecast.weeks.map((week) => -week.outflowCents / 100),
+                    backgroundColor: 'rgba(220, 38, 38, 0.6)',
+                    borderRadius: 4,
+                  },
+                  {
+                    label: 'Closing balance',
+                    data: forecast.weeks.map((week) => week.closingCents / 100),
+                    backgroundColor: 'rgba(37, 99, 235, 0.6)',
+                    borderRadius: 4,
+                  },
+                ],
+              }}
+              options={{
+                responsive: true,
+                maintainAspectRatio: false,
+                plugins: { legend: { display: true, position: 'bottom' }, tooltip: { enabled: true } },
+                scales: {
+                  x: { grid: { display: false } },
+                  y: { grid: { color: 'rgba(0,0,0,0.05)' }, ticks: { callback: (v) => Number(v).toLocaleString() } },
+                },
+              }}
+              height={280}
+            />
+            {forecast.warnings.map((warning) => (
+              <p key={warning} className="text-xs text-amber-700 mt-2">{warning}</p>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -5,6 +5,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { DollarSign, TrendingUp, Calendar as CalendarIcon, LineChart as LineChartIcon } from 'lucide-react'
 import { formatCurrencyFromDecimal } from '@/lib/decimal-utils'
 import { apiFetch } from '@/lib/api'
+import { CashForecastCard } from './cash-forecast-card'
 import { Bar } from 'react-chartjs-2'
 import {
   Chart as ChartJS,
@@ -30,6 +31,8 @@ export interface BookingForFinance {
 
 interface Props {
   bookings?: BookingForFinance[]
+  /** Entity to show the 13-week cash forecast for; omitted, only bookings are shown */
+  entityId?: string
 }
 
 function toMonthKey(dateStr: string) {
@@ -50,7 +53,7 @@ function lastNMonthKeys(n: number): string[] {
   return list
 }
 
-export function FinancialDashboard({ bookings: incoming }: Props) {
+export function FinancialDashboard({ bookings: incoming, entityId }: Props) {
   const [bookings, setBookings] = useState<BookingForFinance[] | null>(incoming || null)
   const [loading, setLoading] = useState<boolean>(!incoming)
 
@@ -189,6 +192,8 @@ export function FinancialDashboard({ bookings: incoming }: Props) {
           />
         </CardContent>
       </Card>
+
+      {entityId && <CashForecastCard entityId={entityId} />}
     </section>
   )
 }
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import { budgetTemplateXlsx, lineKey, parseBudgetSheet, phaseAnnualAmount, phaseLine } from '../budgets'
+import {
+  ActualFact,
+  buildVarianceLines,
+  crossedThresholds,
+  fiscalMonthIndex,
+  lineMatchesFact,
+  periodReached,
+  sumVariance,
+  VarianceBudgetLine,
+} from '../budget-variance'
+import { readXlsx } from '@/lib/exports/xlsx'
+
+const accounts = new Map([
+  ['6100', { id: 'acc-rent', type: 'EXPENSE' }],
+  ['4000', { id: 'acc-fees', type: 'REVENUE' }],
+  ['1100', { id: 'acc-ar', type: 'ASSET' }],
+])
+
+const budgetLine = (overrides: Partial<VarianceBudgetLine>): VarianceBudgetLine => ({
+  id: 'line',
+  kind: 'EXPENSE',
+  category: null,
+  accountId: null,
+  costCenter: null,
+  monthlyCents: phaseAnnualAmount(120000),
+  annualCents: 120000,
+  ...overrides,
+})
+
+describe('Budgets', () => {
+  it('should spread an annual amount with the rounding in the last month', () => {
+    const months = phaseAnnualAmount(100001)
+
+    expect(months).toHaveLength(12)
+    expect(months[0]).toBe(8333)
+    expect(months[11]).toBe(100001 - 8333 * 11)
+    expect(months.reduce((a, b) => a + b, 0)).toBe(100001)
+  })
+
+  it('should keep monthly amounts on monthly budgets and spread them on annual ones', () => {
+    const monthlyCents = [0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 0, 1200]
+
+    expect(phaseLine({ kind: 'EXPENSE', monthlyCents }, 'MONTHLY')).toEqual({ monthlyCents, annualCents: 1200 })
+    expect(phaseLine({ kind: 'EXPENSE', monthlyCents }, 'ANNUAL').monthlyCents[0]).toBe(100)
+    expect(phaseLine({ kind: 'EXPENSE', annualCents: 2400 }, 'MONTHLY').monthlyCents[5]).toBe(200)
+  })
+
+  it('should key lines case-insensitively with blanks as wildcards', () => {
+    expect(lineKey({ kind: 'EXPENSE', category: 'Travel', costCenter: 'Sales' })).toBe(lineKey({ kind: 'EXPENSE', category: 'travel', costCenter: 'SALES' }))
+    expect(lineKey({ kind: 'EXPENSE', category: 'travel' })).not.toBe(lineKey({ kind: 'EXPENSE', category: 'travel', costCenter: 'Sales' }))
+  })
+
+  it('should parse a sheet with month columns in fiscal order', () => {
+    const months = ['Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec', 'Jan', 'Feb', 'Mar']
+    const { lines, errors } = parseBudgetSheet(
+      [
+        ['FY2025 budget'],
+        ['Type', 'Category', 'Account', 'Cost center', ...months],
+        ['Expense', 'travel', '', 'Sales', 100, 0, 0, 0, 0, 0, 0, 0, 0, 50, 0, '1,000.50'],
+        ['Revenue', '', '4000', '', ...months.map(() => 250)],
+        [null, null, null, null],
+      ],
+      3,
+      accounts
+    )
+
+    expect(errors).toEqual([])
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toMatchObject({ kind: 'EXPENSE', category: 'travel', costCenter: 'Sales', accountId: null })
+    expect(lines[0].monthlyCents?.[0]).toBe(10000)
+    expect(lines[0].monthlyCents?.[9]).toBe(5000)
+    expect(lines[0].monthlyCents?.[11]).toBe(100050)
+    expect(lines[1]).toMatchObject({ kind: 'REVENUE', accountId: 'acc-fees' })
+  })
+
+  it('should report bad rows by sheet row number', () => {
+    const { errors } = parseBudgetSheet(
+      [
+        ['Category', 'Account', 'Annual'],
+        ['travel', '', 'abc'],
+        ['', '9999', 100],
+        ['', '1100', 100],
+        ['meals', '', 100],
+        ['Meals', '', 200],
+      ],
+      0,
+      accounts
+    )
+
+    expect(errors).toEqual([
+      { row: 2, message: 'Invalid annual amount' },
+      { row: 3, message: 'No account with code 9999' },
+      { row: 4, message: 'Account 1100 is not an expense or revenue account' },
+      { row: 6, message: 'Same category, account and cost center as row 5' },
+    ])
+  })
+
+  it('should read back its own import template', async () => {
+    const [sheet] = await readXlsx(await budgetTemplateXlsx(6))
+    const { lines, errors } = parseBudgetSheet(sheet.rows, 6, accounts)
+
+    expect(sheet.rows[0].slice(4, 6)).toEqual(['Jul', 'Aug'])
+    expect(errors).toEqual([])
+    expect(lines.map((line) => line.kind)).toEqual(['EXPENSE', 'REVENUE'])
+  })
+})
+
+describe('Budget Variance', () => {
+  it('should place dates in fiscal months and find how far a year has run', () => {
+    expect(fiscalMonthIndex(new Date('2025-04-15T00:00:00Z'), 3)).toBe(0)
+    expect(fiscalMonthIndex(new Date('2026-03-31T00:00:00Z'), 3)).toBe(11)
+    expect(periodReached(new Date('2025-06-10T00:00:00Z'), 2025, 3)).toBe(3)
+    expect(periodReached(new Date('2025-02-10T00:00:00Z'), 2025, 3)).toBe(0)
+    expect(periodReached(new Date('2026-05-01T00:00:00Z'), 2025, 3)).toBe(12)
+  })
+
+  it('should match actuals by category, cost center and account', () => {
+    const travel: ActualFact = { source: 'expense', kind: 'EXPENSE', date: new Date(), amountCents: 100, category: 'Travel', costCenter: 'sales' }
+    const journal: ActualFact = { source: 'journal', kind: 'EXPENSE', date: new Date(), amountCents: 100, accountId: 'acc-rent' }
+
+    expect(lineMatchesFact(budgetLine({ category: 'travel' }), travel)).toBe(true)
+    expect(lineMatchesFact(budgetLine({ category: 'travel', costCenter: 'Sales' }), travel)).toBe(true)
+    expect(lineMatchesFact(budgetLine({ category: 'travel', costCenter: 'Ops' }), travel)).toBe(false)
+    expect(lineMatchesFact(budgetLine({}), journal)).toBe(false)
+    expect(lineMatchesFact(budgetLine({ accountId: 'acc-rent' }), journal)).toBe(true)
+    expect(lineMatchesFact(budgetLine({ accountId: 'acc-rent' }), travel)).toBe(false)
+    expect(lineMatchesFact(budgetLine({ kind: 'REVENUE' }), travel)).toBe(false)
+  })
+
+  it('should compare year to date with favourable variance positive', () => {
+    const facts: ActualFact[] = [
+      { source: 'expense', kind: 'EXPENSE', date: new Date('2025-01-10T00:00:00Z'), amountCents: 15000, category: 'travel' },
+      { source: 'expense', kind: 'EXPENSE', date: new Date('2025-02-10T00:00:00Z'), amountCents: 5000, category: 'travel' },
+      { source: 'expense', kind: 'EXPENSE', date: new Date('2025-06-10T00:00:00Z'), amountCents: 99999, category: 'travel' },
+      { source: 'invoice', kind: 'REVENUE', date: new Date('2025-01-20T00:00:00Z'), amountCents: 30000 },
+      { source: 'invoice', kind: 'REVENUE', date: new Date('2025-02-20T00:00:00Z'), amountCents: -5000 },
+    ]
+    const lines = buildVarianceLines(
+      [budgetLine({ id: 'travel', category: 'travel' }), budgetLine({ id: 'fees', kind: 'REVENUE', monthlyCents: phaseAnnualAmount(240000), annualCents: 240000 })],
+      facts,
+      0,
+      2
+    )
+
+    expect(lines[0]).toMatchObject({ budgetCents: 20000, actualCents: 20000, varianceCents: 0, remainingCents: 100000 })
+    expect(lines[0].monthly.map((m) => m.actualCents)).toEqual([15000, 5000])
+    expect(lines[1]).toMatchObject({ budgetCents: 40000, actualCents: 25000, varianceCents: -15000, variancePercent: -37.5 })
+    expect(sumVariance(lines, 'EXPENSE').annualBudgetCents).toBe(120000)
+  })
+
+  it('should list the thresholds spending has crossed', () => {
+    expect(crossedThresholds(10000, 7999, [80, 100])).toEqual([])
+    expect(crossedThresholds(10000, 8000, [80, 100])).toEqual([80])
+    expect(crossedThresholds(10000, 12000, [80, 100])).toEqual([80, 100])
+    expect(crossedThresholds(0, 1, [80, 100])).toEqual([80, 100])
+    expect(crossedThresholds(0, 0, [80, 100])).toEqual([])
+  })
+})
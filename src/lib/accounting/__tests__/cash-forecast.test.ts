@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyScenario,
+  averageDaysToPay,
+  buildForecastWeeks,
+  clampFlows,
+  compareForecastToActuals,
+  expectedReceiptDate,
+  ForecastFlow,
+  recurringItemDates,
+  ScenarioOverrideSchema,
+} from '../cash-forecast'
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`)
+const iso = (date: Date) => date.toISOString().slice(0, 10)
+
+const asOf = day('2025-03-03')
+const window = { from: asOf, to: day('2025-06-01') }
+
+const flow = (overrides: Partial<ForecastFlow>): ForecastFlow => ({
+  source: 'RECEIVABLES',
+  direction: 'IN',
+  date: day('2025-03-10'),
+  amountCents: 10000,
+  label: 'INV-1',
+  ...overrides,
+})
+
+describe('Cash Forecast', () => {
+  it('should use a client payment pattern only with enough history', () => {
+    expect(averageDaysToPay([{ issueDate: day('2025-01-01'), paidAt: day('2025-01-31') }])).toBeNull()
+    expect(
+      averageDaysToPay([
+        { issueDate: day('2025-01-01'), paidAt: day('2025-01-31') },
+        { issueDate: day('2025-02-01'), paidAt: day('2025-03-17') },
+      ])
+    ).toBe(37)
+  })
+
+  it('should expect receipts after the usual days to pay, else on the due date', () => {
+    const invoice = { issueDate: day('2025-02-01'), dueDate: day('2025-03-03') }
+
+    expect(iso(expectedReceiptDate(invoice, 45))).toBe('2025-03-18')
+    expect(iso(expectedReceiptDate(invoice, null))).toBe('2025-03-03')
+    expect(iso(expectedReceiptDate({ issueDate: day('2025-02-01') }, null))).toBe('2025-03-03')
+  })
+
+  it('should list the dates a recurring item falls on in the window', () => {
+    const monthly = recurringItemDates({ cadence: 'MONTHLY', startDate: day('2025-01-31') }, window.from, window.to)
+    expect(monthly.map(iso)).toEqual(['2025-03-31', '2025-04-30', '2025-05-31'])
+
+    const weekly = recurringItemDates({ cadence: 'WEEKLY', startDate: day('2025-03-07'), endDate: day('2025-03-21') }, window.from, window.to)
+    expect(weekly.map(iso)).toEqual(['2025-03-07', '2025-03-14', '2025-03-21'])
+
+    expect(recurringItemDates({ cadence: 'ONCE', startDate: day('2025-02-01') }, window.from, window.to)).toEqual([])
+  })
+
+  it('should move overdue flows into the first week', () => {
+    const [clamped] = clampFlows([flow({ date: day('2025-01-15') })], asOf)
+
+    expect(iso(clamped.date)).toBe('2025-03-03')
+  })
+
+  it('should apply delays, scaling, exclusions and extra items', () => {
+    const base = [
+      flow({ documentId: 'inv-1', clientId: 'client-a' }),
+      flow({ documentId: 'inv-2', clientId: 'client-b', label: 'INV-2' }),
+      flow({ source: 'PAYABLES', direction: 'OUT', documentId: 'bill-1', vendorId: 'vendor-a', label: 'Bill' }),
+      flow({ source: 'PAYABLES', direction: 'OUT', documentId: 'bill-2', vendorId: 'vendor-b', label: 'Bill 2' }),
+    ]
+    const overrides = [
+      { type: 'CLIENT_DELAY', clientId: 'client-a', days: 30 },
+      { type: 'EXCLUDE', documentId: 'inv-2' },
+      { type: 'SCALE', source: 'PAYABLES', percent: 50 },
+      { type: 'VENDOR_DELAY', vendorId: 'vendor-b', days: -30 },
+      { type: 'ITEM', name: 'Loan drawdown', direction: 'IN', amountCents: 500000, date: '2025-03-20' },
+    ].map((override) => ScenarioOverrideSchema.parse(override))
+
+    const result = applyScenario(base, overrides, window)
+
+    expect(result.find((f) => f.documentId === 'inv-1')?.date).toEqual(day('2025-04-09'))
+    expect(result.some((f) => f.documentId === 'inv-2')).toBe(false)
+    expect(result.find((f) => f.documentId === 'bill-1')?.amountCents).toBe(5000)
+    expect(result.find((f) => f.documentId === 'bill-2')?.date).toEqual(asOf)
+    expect(result.find((f) => f.source === 'SCENARIO')).toMatchObject({ amountCents: 500000, direction: 'IN', label: 'Loan drawdown' })
+  })
+
+  it('should run the balance forward week by week', () => {
+    const weeks = buildForecastWeeks(
+      100000,
+      [
+        flow({ date: day('2025-03-03'), amountCents: 20000 }),
+        flow({ source: 'PAYABLES', direction: 'OUT', date: day('2025-03-09'), amountCents: 50000 }),
+        flow({ source: 'TAX', direction: 'OUT', date: day('2025-03-10'), amountCents: 80000 }),
+        flow({ date: day('2025-06-02'), amountCents: 99999 }),
+      ],
+      asOf
+    )
+
+    expect(weeks).toHaveLength(13)
+    expect(weeks[0]).toMatchObject({ start: '2025-03-03', end: '2025-03-09', inflowCents: 20000, outflowCents: 50000, closingCents: 70000 })
+    expect(weeks[0].inflows).toEqual({ RECEIVABLES: 20000 })
+    expect(weeks[1]).toMatchObject({ openingCents: 70000, netCents: -80000, closingCents: -10000 })
+    expect(weeks[1].outflows).toEqual({ TAX: 80000 })
+    expect(weeks[12].closingCents).toBe(-10000)
+  })
+
+  it('should compare elapsed weeks with bank movements', () => {
+    const weeks = buildForecastWeeks(100000, [flow({ amountCents: 30000 })], asOf)
+    const { weeks: compared, summary } = compareForecastToActuals(
+      weeks,
+      [
+        { date: day('2025-03-04'), direction: 'IN', amountCents: 5000 },
+        { date: day('2025-03-12'), direction: 'IN', amountCents: 20000 },
+        { date: day('2025-03-13'), direction: 'OUT', amountCents: 1000 },
+      ],
+      100000,
+      day('2025-03-14')
+    )
+
+    expect(compared[0]).toMatchObject({ status: 'COMPLETE', varianceCents: 5000 })
+    expect(compared[0].actual?.closingCents).toBe(105000)
+    expect(compared[1]).toMatchObject({ status: 'IN_PROGRESS', varianceCents: -11000 })
+    expect(compared[1].actual?.closingCents).toBe(124000)
+    expect(compared[2]).toMatchObject({ status: 'FUTURE', actual: null })
+    expect(summary).toEqual({ completeWeeks: 1, forecastNetCents: 0, actualNetCents: 5000, meanAbsoluteErrorCents: 5000 })
+  })
+})
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest'
+import { addMonths, assetBasis, buildDepreciationSchedule, dueCharges, monthsBetween } from '../depreciation'
+import { assetPositionAt, buildDisposalLines, buildRevaluationLines, revaluationAmounts } from '../fixed-assets'
+import { validateJournalLines } from '../journal'
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+const accounts = {
+  FIXED_ASSETS: 'acc-ppe',
+  ACCUMULATED_DEPRECIATION: 'acc-accdep',
+  DEPRECIATION: 'acc-dep',
+  REVALUATION_RESERVE: 'acc-reserve',
+  ASSET_DISPOSAL: 'acc-disposal',
+  RETAINED_EARNINGS: 'acc-re',
+  PROCEEDS: 'acc-bank',
+}
+
+describe('Depreciation', () => {
+  it('should count and step through months across years', () => {
+    expect(addMonths('2025-11', 3)).toBe('2026-02')
+    expect(addMonths('2025-01', -1)).toBe('2024-12')
+    expect(monthsBetween('2024-12', '2026-02')).toBe(14)
+  })
+
+  it('should spread straight-line depreciation to the residual value without drift', () => {
+    const rows = buildDepreciationSchedule({ method: 'STRAIGHT_LINE', amountCents: 100000, residualCents: 10000, lifeMonths: 36, startPeriod: '2025-01' })
+
+    expect(rows).toHaveLength(36)
+    expect(rows[0]).toMatchObject({ period: '2025-01', depreciationCents: 2500 })
+    expect(rows[35]).toMatchObject({ period: '2027-12', accumulatedCents: 90000, bookValueCents: 10000 })
+
+    const uneven = buildDepreciationSchedule({ method: 'STRAIGHT_LINE', amountCents: 100000, residualCents: 0, lifeMonths: 7, startPeriod: '2025-01' })
+    expect(uneven.map((r) => r.depreciationCents)).toEqual([14286, 14285, 14286, 14286, 14286, 14285, 14286])
+    expect(uneven[6].bookValueCents).toBe(0)
+  })
+
+  it('should front-load declining balance and still end at the residual value', () => {
+    const rows = buildDepreciationSchedule({ method: 'DECLINING_BALANCE', amountCents: 120000, residualCents: 12000, lifeMonths: 60, startPeriod: '2025-01' })
+    const straight = (120000 - 12000) / 60
+
+    expect(rows[0].depreciationCents).toBe(4000) // 40% a year, double the 20% straight-line rate
+    expect(rows[0].depreciationCents).toBeGreaterThan(straight)
+    expect(rows[59].bookValueCents).toBe(12000)
+    expect(rows[59].accumulatedCents).toBe(108000)
+  })
+
+  it('should restart from fair value over the remaining life after a revaluation', () => {
+    const asset = {
+      method: 'STRAIGHT_LINE',
+      costCents: 120000,
+      residualCents: 0,
+      usefulLifeMonths: 60,
+      inServiceDate: day('2025-01-15'),
+    }
+
+    expect(assetBasis(asset)).toMatchObject({ amountCents: 120000, lifeMonths: 60, startPeriod: '2025-01' })
+    expect(assetBasis({ ...asset, revaluedAmountCents: 150000, revaluedAt: day('2025-12-31') })).toMatchObject({
+      amountCents: 150000,
+      lifeMonths: 48,
+      startPeriod: '2026-01',
+    })
+  })
+
+  it('should charge only months not yet charged, up to the run period', () => {
+    const rows = buildDepreciationSchedule({ method: 'STRAIGHT_LINE', amountCents: 1200, residualCents: 0, lifeMonths: 12, startPeriod: '2025-01' })
+
+    expect(dueCharges(rows, null, '2025-03').map((r) => r.period)).toEqual(['2025-01', '2025-02', '2025-03'])
+    expect(dueCharges(rows, '2025-03', '2025-05').map((r) => r.period)).toEqual(['2025-04', '2025-05'])
+    expect(dueCharges(rows, '2025-12', '2026-06')).toEqual([])
+  })
+})
+
+describe('Fixed Assets', () => {
+  it('should take increases to the reserve after reversing earlier charges', () => {
+    expect(revaluationAmounts({ carryingCents: 80000, fairValueCents: 100000, surplusCents: 0, chargedCents: 0 })).toEqual({
+      differenceCents: 20000,
+      reserveCents: 20000,
+      expenseCents: 0,
+    })
+    expect(revaluationAmounts({ carryingCents: 80000, fairValueCents: 100000, surplusCents: 0, chargedCents: 5000 })).toMatchObject({
+      reserveCents: 15000,
+      expenseCents: -5000,
+    })
+    expect(revaluationAmounts({ carryingCents: 80000, fairValueCents: 60000, surplusCents: 15000, chargedCents: 0 })).toMatchObject({
+      reserveCents: -15000,
+      expenseCents: 5000,
+    })
+  })
+
+  it('should post balanced revaluation entries', () => {
+    const balances = { grossCents: 100000, accumulatedCents: 20000, surplusCents: 0 }
+    const amounts = revaluationAmounts({ carryingCents: 80000, fairValueCents: 90000, surplusCents: 0, chargedCents: 0 })
+    const lines = buildRevaluationLines(balances, amounts, accounts)
+
+    expect(validateJournalLines(lines).isValid).toBe(true)
+    expect(lines).toContainEqual({ accountId: 'acc-reserve', creditCents: 10000 })
+  })
+
+  it('should book the gain or loss on disposal and realise the surplus', () => {
+    const gain = buildDisposalLines({ grossCents: 100000, accumulatedCents: 70000, surplusCents: 0 }, 40000, accounts)
+    expect(gain.gainLossCents).toBe(10000)
+    expect(validateJournalLines(gain.lines).isValid).toBe(true)
+
+    const loss = buildDisposalLines({ grossCents: 100000, accumulatedCents: 70000, surplusCents: 5000 }, 0, accounts)
+    expect(loss.gainLossCents).toBe(-30000)
+    expect(validateJournalLines(loss.lines.filter((l) => l.debitCents || l.creditCents)).isValid).toBe(true)
+    expect(loss.lines).toContainEqual({ accountId: 'acc-re', creditCents: 5000, description: 'Revaluation surplus realised' })
+  })
+
+  it('should find where an asset stood on a date from its history', () => {
+    const asset = { acquisitionDate: day('2025-01-10'), costCents: 120000, disposedAt: day('2026-09-30') }
+    const depreciation = ['2025-01', '2025-02', '2025-03', '2025-04'].map((period) => ({ period, amountCents: 2000 }))
+    const revaluations = [{ date: day('2025-02-28'), fairValueCents: 130000 }]
+
+    expect(assetPositionAt(asset, [], depreciation, day('2025-03-31'))).toEqual({ grossCents: 120000, accumulatedCents: 6000, netBookValueCents: 114000 })
+    expect(assetPositionAt(asset, revaluations, depreciation, day('2025-04-30'))).toEqual({ grossCents: 130000, accumulatedCents: 4000, netBookValueCents: 126000 })
+    expect(assetPositionAt(asset, [], depreciation, day('2024-12-31'))).toBeNull()
+    expect(assetPositionAt(asset, [], depreciation, day('2026-12-31'))).toBeNull()
+  })
+})
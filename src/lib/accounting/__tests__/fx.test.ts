@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import { capturedAmounts, deriveRate, functionalAmount, toFunctionalCents } from '../fx'
+import { computeRevaluation, previousMonthEnd } from '../revaluation'
+
+describe('Exchange rates', () => {
+  const quotes = [
+    { base: 'USD', target: 'AED', rate: 3.6725 },
+    { base: 'USD', target: 'EUR', rate: 0.92 },
+    { base: 'USD', target: 'AED', rate: 3.5 }, // older quote of the same pair
+  ]
+
+  it('should derive direct, inverse and cross rates from the latest quotes', () => {
+    expect(deriveRate(quotes, 'USD', 'AED')).toBe(3.6725)
+    expect(deriveRate(quotes, 'AED', 'USD')).toBe(0.27229408)
+    expect(deriveRate(quotes, 'EUR', 'AED')).toBe(3.99184783)
+    expect(deriveRate(quotes, 'AED', 'AED')).toBe(1)
+    expect(deriveRate(quotes, 'GBP', 'AED')).toBeNull()
+  })
+
+  it('should convert document amounts to functional cents', () => {
+    expect(toFunctionalCents(10000, 3.6725)).toBe(36725)
+    expect(functionalAmount(10000, { exchangeRate: null })).toBe(10000)
+    expect(capturedAmounts({ functionalCurrency: 'AED', exchangeRate: 3.6725 }, { functionalTotalCents: 10050 })).toEqual({
+      functionalCurrency: 'AED',
+      exchangeRate: 3.6725,
+      functionalTotalCents: 36909,
+    })
+    expect(capturedAmounts({ functionalCurrency: null, exchangeRate: null }, { functionalTotalCents: 10050 })).toEqual({
+      functionalCurrency: null,
+      exchangeRate: null,
+      functionalTotalCents: null,
+    })
+  })
+})
+
+describe('FX Revaluation', () => {
+  it('should book gains on receivables and losses on payables when the currency strengthens', () => {
+    const lines = computeRevaluation(
+      [
+        { kind: 'AR', sourceId: 'inv_1', currency: 'USD', foreignCents: 10000, bookedCents: 36000 },
+        { kind: 'AP', sourceId: 'exp_1', currency: 'USD', foreignCents: 5000, bookedCents: 18000 },
+        { kind: 'BANK', sourceId: 'conn_1', currency: 'EUR', foreignCents: 10000, bookedCents: 40000 },
+      ],
+      new Map([['USD', 3.6725]])
+    )
+
+    expect(lines).toHaveLength(2)
+    expect(lines[0]).toMatchObject({ kind: 'AR', revaluedCents: 36725, differenceCents: 725 })
+    expect(lines[1]).toMatchObject({ kind: 'AP', revaluedCents: 18363, differenceCents: -363 })
+  })
+
+  it('should leave out items already at the closing rate', () => {
+    const lines = computeRevaluation(
+      [{ kind: 'BANK', sourceId: 'conn_1', currency: 'USD', foreignCents: 10000, bookedCents: 36725 }],
+      new Map([['USD', 3.6725]])
+    )
+    expect(lines).toEqual([])
+  })
+
+  it('should revalue at the end of the previous month', () => {
+    expect(previousMonthEnd(new Date('2025-03-01T02:00:00Z')).toISOString()).toBe('2025-02-28T23:59:59.999Z')
+    expect(previousMonthEnd(new Date('2025-01-15T00:00:00Z')).toISOString()).toBe('2024-12-31T23:59:59.999Z')
+  })
+})
@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+import { validateJournalLines, compactJournalLines } from '../journal'
+import { getDefaultChartOfAccounts, getExpenseAccountKey } from '../chart-of-accounts'
+
+describe('Journal', () => {
+  describe('validateJournalLines', () => {
+    it('should accept a balanced two-line entry', () => {
+      const result = validateJournalLines([
+        { accountId: 'ar', debitCents: 10500 },
+        { accountId: 'sales', creditCents: 10000 },
+        { accountId: 'vat', creditCents: 500 },
+      ])
+
+      expect(result.isValid).toBe(true)
+      expect(result.totalDebitCents).toBe(10500)
+      expect(result.totalCreditCents).toBe(10500)
+    })
+
+    it('should reject an unbalanced entry', () => {
+      const result = validateJournalLines([
+        { accountId: 'ar', debitCents: 10000 },
+        { accountId: 'sales', creditCents: 9999 },
+      ])
+
+      expect(result.isValid).toBe(false)
+      expect(result.errors).toContain('Debits (10000) do not equal credits (9999)')
+    })
+
+    it('should reject single-line entries', () => {
+      const result = validateJournalLines([{ accountId: 'ar', debitCents: 100 }])
+      expect(result.isValid).toBe(false)
+    })
+
+    it('should reject lines carrying both sides, negatives or fractions', () => {
+      expect(validateJournalLines([
+        { accountId: 'a', debitCents: 100, creditCents: 100 },
+        { accountId: 'b', debitCents: 0, creditCents: 0 },
+      ]).isValid).toBe(false)
+
+      expect(validateJournalLines([
+        { accountId: 'a', debitCents: -100 },
+        { accountId: 'b', creditCents: -100 },
+      ]).isValid).toBe(false)
+
+      expect(validateJournalLines([
+        { accountId: 'a', debitCents: 10.5 },
+        { accountId: 'b', creditCents: 10.5 },
+      ]).isValid).toBe(false)
+    })
+  })
+
+  describe('compactJournalLines', () => {
+    it('should drop zero lines and merge same account and side', () => {
+      const lines = compactJournalLines([
+        { accountId: 'expense', debitCents: 300 },
+        { accountId: 'expense', debitCents: 200 },
+        { accountId: 'vat', debitCents: 0 },
+        { accountId: 'ap', creditCents: 500 },
+      ])
+
+      expect(lines).toHaveLength(2)
+      expect(lines.find((l) => l.accountId === 'expense')?.debitCents).toBe(500)
+      expect(lines.find((l) => l.accountId === 'vat')).toBeUndefined()
+    })
+  })
+})
+
+describe('Chart of Accounts', () => {
+  const keysFor = (country: string) => getDefaultChartOfAccounts(country).map((a) => a.systemKey).filter(Boolean)
+
+  it('should include VAT accounts for every supported country', () => {
+    for (const country of ['AE', 'SA', 'EG']) {
+      expect(keysFor(country)).toEqual(expect.arrayContaining(['VAT_INPUT', 'VAT_OUTPUT', 'AR', 'AP', 'BANK']))
+    }
+  })
+
+  it('should add Corporate Tax only for UAE', () => {
+    expect(keysFor('AE')).toContain('CORPORATE_TAX_PAYABLE')
+    expect(keysFor('SA')).not.toContain('CORPORATE_TAX_PAYABLE')
+  })
+
+  it('should add Zakat and WHT only for KSA', () => {
+    expect(keysFor('SA')).toEqual(expect.arrayContaining(['ZAKAT_PAYABLE', 'WHT_PAYABLE']))
+    expect(keysFor('AE')).not.toContain('ZAKAT_PAYABLE')
+    expect(keysFor('EG')).not.toContain('WHT_PAYABLE')
+  })
+
+  it('should use the country VAT rate in account names', () => {
+    const vatOutput = getDefaultChartOfAccounts('SA').find((a) => a.systemKey === 'VAT_OUTPUT')
+    expect(vatOutput?.name).toContain('15%')
+  })
+
+  it('should keep codes unique and parents ahead of children', () => {
+    const accounts = getDefaultChartOfAccounts('AE')
+    const codes = accounts.map((a) => a.code)
+    expect(new Set(codes).size).toBe(codes.length)
+
+    accounts.forEach((account, index) => {
+      if (account.parentCode) {
+        expect(codes.indexOf(account.parentCode)).toBeLessThan(index)
+      }
+    })
+  })
+
+  it('should map expense categories to accounts', () => {
+    expect(getExpenseAccountKey('Rent')).toBe('RENT')
+    expect(getExpenseAccountKey('unknown')).toBe('GENERAL_EXPENSE')
+    expect(getExpenseAccountKey(null)).toBe('GENERAL_EXPENSE')
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+import {
+  buildFiscalYearPeriods,
+  getFiscalYearBounds,
+  getFiscalYearForDate,
+  getFiscalYearStartMonth,
+  isPostingAllowed,
+} from '../periods'
+import { buildClosingLines } from '../year-end'
+import { validateJournalLines } from '../journal'
+
+describe('Accounting Periods', () => {
+  it('should default fiscal years to January', () => {
+    expect(getFiscalYearStartMonth(null)).toBe(0)
+    expect(getFiscalYearStartMonth(new Date('2020-04-01T00:00:00Z'))).toBe(3)
+  })
+
+  it('should build twelve contiguous monthly periods', () => {
+    const periods = buildFiscalYearPeriods(2025, 3)
+
+    expect(periods).toHaveLength(12)
+    expect(periods[0].name).toBe('FY2025-P01')
+    expect(periods[0].startDate.toISOString()).toBe('2025-04-01T00:00:00.000Z')
+    expect(periods[11].endDate.toISOString()).toBe('2026-03-31T23:59:59.999Z')
+
+    for (let i = 1; i < periods.length; i++) {
+      expect(periods[i].startDate.getTime()).toBe(periods[i - 1].endDate.getTime() + 1)
+    }
+  })
+
+  it('should place dates in the fiscal year they fall in', () => {
+    expect(getFiscalYearForDate(new Date('2026-02-15T00:00:00Z'), 3)).toBe(2025)
+    expect(getFiscalYearForDate(new Date('2026-04-01T00:00:00Z'), 3)).toBe(2026)
+    expect(getFiscalYearForDate(new Date('2026-02-15T00:00:00Z'), 0)).toBe(2026)
+
+    const bounds = getFiscalYearBounds(2025, 0)
+    expect(bounds.startDate.toISOString()).toBe('2025-01-01T00:00:00.000Z')
+    expect(bounds.endDate.toISOString()).toBe('2025-12-31T23:59:59.999Z')
+  })
+
+  it('should block operational postings once soft-closed', () => {
+    expect(isPostingAllowed('OPEN', 'invoice')).toBe(true)
+    expect(isPostingAllowed('SOFT_CLOSED', 'invoice')).toBe(false)
+    expect(isPostingAllowed('SOFT_CLOSED', 'expense')).toBe(false)
+    expect(isPostingAllowed('SOFT_CLOSED', 'bill')).toBe(false)
+    expect(isPostingAllowed('SOFT_CLOSED', 'manual')).toBe(true)
+    expect(isPostingAllowed('SOFT_CLOSED', 'reversal')).toBe(true)
+  })
+
+  it('should block everything but the closing entry once locked', () => {
+    expect(isPostingAllowed('LOCKED', 'manual')).toBe(false)
+    expect(isPostingAllowed('LOCKED', 'reversal')).toBe(false)
+    expect(isPostingAllowed('LOCKED', undefined)).toBe(false)
+    expect(isPostingAllowed('LOCKED', 'year_end_close')).toBe(true)
+  })
+})
+
+describe('Year-End Close', () => {
+  const row = (accountId: string, type: any, debitCents: number, creditCents: number) => ({
+    accountId,
+    code: accountId,
+    name: accountId,
+    type,
+    debitCents,
+    creditCents,
+    balanceCents: 0,
+  })
+
+  it('should zero P&L accounts into retained earnings for a profit', () => {
+    const { lines, netIncomeCents } = buildClosingLines([
+      row('bank', 'ASSET', 100000, 30000),
+      row('sales', 'REVENUE', 0, 100000),
+      row('rent', 'EXPENSE', 30000, 0),
+    ], 're')
+
+    expect(netIncomeCents).toBe(70000)
+    expect(lines).toEqual(expect.arrayContaining([
+      expect.objectContaining({ accountId: 'sales', debitCents: 100000 }),
+      expect.objectContaining({ accountId: 'rent', creditCents: 30000 }),
+      expect.objectContaining({ accountId: 're', creditCents: 70000 }),
+    ]))
+    expect(lines.find((l) => l.accountId === 'bank')).toBeUndefined()
+    expect(validateJournalLines(lines).isValid).toBe(true)
+  })
+
+  it('should debit retained earnings for a loss', () => {
+    const { lines, netIncomeCents } = buildClosingLines([
+      row('sales', 'REVENUE', 0, 10000),
+      row('salaries', 'EXPENSE', 25000, 0),
+    ], 're')
+
+    expect(netIncomeCents).toBe(-15000)
+    expect(lines.find((l) => l.accountId === 're')?.debitCents).toBe(15000)
+    expect(validateJournalLines(lines).isValid).toBe(true)
+  })
+})
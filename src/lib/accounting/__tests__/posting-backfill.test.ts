@@ -0,0 +1,85 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { backfillPostings } from '../posting-backfill'
+
+// Documents by model, the journal entries already booked for them and the
+// postings the job retries. Plain functions: the global setup resets vi.fn
+// implementations after each test.
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>
+  const state = {
+    docs: {} as Record<string, Row[]>,
+    entries: [] as Row[],
+    posted: [] as string[],
+    failing: new Set<string>(),
+  }
+
+  const model = (name: string) => ({
+    findMany: async ({ where, take }: Row) =>
+      (state.docs[name] ?? []).filter((row) => !where.id || row.id > where.id.gt).slice(0, take).map(({ id }) => ({ id })),
+  })
+
+  const prisma = {
+    invoice: model('invoice'),
+    payment: model('payment'),
+    expense: model('expense'),
+    bill: model('bill'),
+    expenseClaim: model('expenseClaim'),
+    bankingTransaction: model('bankingTransaction'),
+    bankReconciliationMatch: model('bankReconciliationMatch'),
+    journalEntry: {
+      findMany: async ({ where }: Row) =>
+        state.entries.filter((entry) => entry.sourceType === where.sourceType && where.sourceId.in.includes(entry.sourceId)),
+    },
+  }
+
+  const post = (sourceType: string) => async (id: string) => {
+    if (state.failing.has(id)) throw new Error('Ledger unavailable')
+    state.posted.push(`${sourceType}:${id}`)
+    return { id: `je_${id}` }
+  }
+
+  return { state, prisma, post }
+})
+
+vi.mock('@/lib/prisma', () => ({ default: db.prisma }))
+vi.mock('../posting', () => ({
+  postInvoice: db.post('invoice'),
+  postPayment: db.post('payment'),
+  postExpense: db.post('expense'),
+  postBill: db.post('bill'),
+  postExpenseClaim: db.post('expense_claim'),
+  postExpenseClaimReimbursement: db.post('expense_claim_reimbursement'),
+  postBankTransaction: db.post('bank_transaction'),
+  postBankReconciliation: db.post('bank_reconciliation'),
+}))
+
+describe('Posting backfill', () => {
+  beforeEach(() => {
+    db.state.posted.length = 0
+    db.state.failing.clear()
+    db.state.docs = {
+      invoice: [{ id: 'inv_1' }, { id: 'inv_2' }, { id: 'inv_3' }],
+      bill: [{ id: 'bill_1' }],
+    }
+    db.state.entries = [
+      { sourceType: 'invoice', sourceId: 'inv_2' },
+      { sourceType: 'bill', sourceId: 'bill_1' },
+    ]
+  })
+
+  it('should post only the documents with no journal entry', async () => {
+    const result = await backfillPostings({ batchSize: 2 })
+
+    expect(db.state.posted).toEqual(['invoice:inv_1', 'invoice:inv_3'])
+    expect(result).toMatchObject({ checked: 4, posted: 2, failed: 0 })
+  })
+
+  it('should count a posting that fails again and carry on', async () => {
+    db.state.failing.add('inv_1')
+
+    const result = await backfillPostings()
+
+    expect(db.state.posted).toEqual(['invoice:inv_3'])
+    expect(result).toMatchObject({ posted: 1, failed: 1 })
+  })
+})
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { calculateInvoiceLine, calculateInvoiceTotals, toInvoiceItemData } from '@/lib/invoicing/line-tax'
+import { billToVatEntries } from '@/lib/tax-workflows/vat-return'
+import { postBill, postExpenseClaimReimbursement } from '../posting'
+
+// The documents postings read, and the entries they would write. Plain
+// functions: the global setup resets vi.fn implementations after each test.
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>
+  const state = { bill: null as Row | null, claim: null as Row | null, entries: [] as Row[], rates: [] as Row[] }
+  const prisma = {
+    bill: { findUnique: async () => state.bill },
+    expenseClaim: { findUnique: async () => state.claim },
+    entity: { findUnique: async () => ({ functionalCurrency: 'AED', country: 'AE' }) },
+    exchangeRate: { findMany: async () => state.rates },
+    journalEntry: { findUnique: async () => null },
+    ledgerAccount: {
+      findMany: async ({ where }: any) => where.systemKey.in.map((key: string) => ({ id: `acct-${key}`, systemKey: key })),
+      count: async () => 0,
+    },
+  }
+  return { state, prisma }
+})
+
+vi.mock('@/lib/prisma', () => ({ default: db.prisma }))
+vi.mock('../journal', () => ({
+  createJournalEntry: async (input: Record<string, any>) => {
+    db.state.entries.push(input)
+    return input
+  },
+}))
+
+describe('Posting', () => {
+  describe('postBill', () => {
+    // A bill for imported services: the supplier charges no VAT and the
+    // buyer self-assesses it at the tax code's 5%
+    const line = calculateInvoiceLine({ description: 'Cloud hosting', quantity: 1, unitPriceCents: 100000, taxCategory: 'REVERSE_CHARGE', taxRatePercent: 5 })
+    const totals = calculateInvoiceTotals([line])
+    const bill = {
+      id: 'bill_1',
+      tenantId: 't1',
+      entityId: 'ent_1',
+      vendorId: 'v1',
+      vendor: { name: 'Hosting Co' },
+      billNumber: 'INV-9',
+      issueDate: new Date('2025-03-10T00:00:00Z'),
+      status: 'APPROVED',
+      isImport: false,
+      currency: 'AED',
+      functionalCurrency: null,
+      exchangeRate: null,
+      functionalTotalCents: null,
+      functionalTaxCents: null,
+      taxCents: totals.taxCents,
+      totalCents: totals.totalCents,
+      lines: [{ ...toInvoiceItemData(line), category: 'software', ledgerAccountId: null }],
+    }
+
+    beforeEach(() => {
+      db.state.bill = bill
+    })
+
+    it('should self-assess reverse-charge VAT at the tax code rate in the ledger and the VAT return', async () => {
+      expect(bill.lines[0]).toMatchObject({ taxRate: 5, taxCents: 0, totalCents: 100000 })
+
+      const entry: any = await postBill('bill_1')
+      expect(entry.lines).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ accountId: 'acct-AP', creditCents: 100000 }),
+          expect.objectContaining({ accountId: 'acct-VAT_INPUT', debitCents: 5000, description: 'Reverse charge' }),
+          expect.objectContaining({ accountId: 'acct-VAT_OUTPUT', creditCents: 5000, description: 'Reverse charge' }),
+        ])
+      )
+
+      const [vat] = billToVatEntries(bill)
+      expect(vat).toMatchObject({ category: 'REVERSE_CHARGE', ratePercent: 5, netCents: 100000, taxCents: 5000 })
+    })
+  })
+
+  describe('postExpenseClaimReimbursement', () => {
+    // A claim in dollars for an entity keeping its books in dirhams: the
+    // lines were booked at 3.67, the employee is paid when the rate is 3.68
+    const line = { category: 'travel', vendor: 'Airline', taxCategory: 'OUT_OF_SCOPE', taxCents: 0, functionalTaxCents: 0 }
+    const claim = {
+      id: 'claim_1',
+      tenantId: 't1',
+      entityId: 'ent_1',
+      userId: 'u1',
+      user: { name: 'Sam', email: 'sam@example.com' },
+      reference: 'EC-1',
+      status: 'REIMBURSED',
+      currency: 'USD',
+      totalCents: 30000,
+      approvedAt: new Date('2025-03-10T00:00:00Z'),
+      reimbursedAt: new Date('2025-03-20T00:00:00Z'),
+      reimbursementReference: 'TRF-7',
+      expenses: [
+        { ...line, amountCents: 10000, functionalAmountCents: 36700 },
+        { ...line, amountCents: 20000, functionalAmountCents: 73400 },
+      ],
+    }
+
+    beforeEach(() => {
+      db.state.claim = claim
+      db.state.entries.length = 0
+      db.state.rates = [{ base: 'USD', target: 'AED', rate: 3.68 }]
+    })
+
+    it('should clear the payable at its booked amount and book the rate difference to realized FX', async () => {
+      const entry: any = await postExpenseClaimReimbursement('claim_1')
+
+      const [booked] = db.state.entries
+      expect(booked).toMatchObject({ sourceType: 'expense_claim', currency: 'AED' })
+      expect(booked.lines).toContainEqual(expect.objectContaining({ accountId: 'acct-EMPLOYEE_PAYABLE', creditCents: 110100 }))
+
+      expect(entry).toMatchObject({ sourceType: 'expense_claim_reimbursement', currency: 'AED' })
+      expect(entry.metadata).toMatchObject({ documentCurrency: 'USD', documentAmountCents: 30000, exchangeRate: 3.68 })
+      expect(entry.lines).toEqual([
+        expect.objectContaining({ accountId: 'acct-EMPLOYEE_PAYABLE', debitCents: 110100 }),
+        expect.objectContaining({ accountId: 'acct-BANK', creditCents: 110400, description: 'TRF-7' }),
+        expect.objectContaining({ accountId: 'acct-FX_REALIZED', debitCents: 300 }),
+      ])
+    })
+
+    it('should post no FX line when the claim is paid in the functional currency', async () => {
+      db.state.claim = {
+        ...claim,
+        currency: 'AED',
+        totalCents: 110100,
+        expenses: claim.expenses.map((expense) => ({ ...expense, amountCents: expense.functionalAmountCents })),
+      }
+
+      const entry: any = await postExpenseClaimReimbursement('claim_1')
+
+      expect(entry.lines).toEqual([
+        expect.objectContaining({ accountId: 'acct-EMPLOYEE_PAYABLE', debitCents: 110100 }),
+        expect.objectContaining({ accountId: 'acct-BANK', creditCents: 110100 }),
+      ])
+    })
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest'
+import {
+  AccountBalance,
+  buildBalanceSheetRows,
+  buildCashFlowRows,
+  buildIncomeStatementRows,
+  collectGroup,
+  comparativeRange,
+  eliminateIntercompany,
+  resolveStatementLine,
+  StatementRow,
+  summarizeBalances,
+} from '../statements'
+import { formatStatementAmount, renderStatementsPdf, renderStatementsXlsx } from '../statement-export'
+import { readXlsx } from '@/lib/exports/xlsx'
+
+function balance(accountId: string, type: AccountBalance['type'], netDebitCents: number, overrides: Partial<AccountBalance> = {}): AccountBalance {
+  return {
+    accountId,
+    entityId: 'ent_1',
+    type,
+    line: resolveStatementLine({ type, systemKey: accountId }),
+    intercompany: false,
+    netDebitCents,
+    ...overrides,
+  }
+}
+
+function amount(rows: StatementRow[], key: string, column = 0): number | undefined {
+  return rows.find((r) => r.key === key)?.amounts[column]
+}
+
+describe('Statement line mapping', () => {
+  it('should map system accounts and fall back by account type', () => {
+    expect(resolveStatementLine({ type: 'ASSET', systemKey: 'BANK' })).toBe('cash_and_equivalents')
+    expect(resolveStatementLine({ type: 'EXPENSE', systemKey: 'SALARIES' })).toBe('employee_benefits')
+    expect(resolveStatementLine({ type: 'ASSET', systemKey: null })).toBe('other_current_assets')
+    expect(resolveStatementLine({ type: 'REVENUE' })).toBe('revenue')
+  })
+
+  it('should honour overrides only on the statement the account reports on', () => {
+    expect(resolveStatementLine({ type: 'ASSET', metadata: { statementLine: 'property_plant_equipment' } })).toBe('property_plant_equipment')
+    expect(resolveStatementLine({ type: 'ASSET', metadata: { statementLine: 'revenue' } })).toBe('other_current_assets')
+  })
+})
+
+describe('Financial statements', () => {
+  // Share capital 10,000 paid into the bank, sales of 5,000 on credit with 250
+  // VAT, 2,000 of rent paid, 3,000 collected
+  const opening = [balance('BANK', 'ASSET', 1_000_000), balance('SHARE_CAPITAL', 'EQUITY', -1_000_000)]
+  const movements = [balance('SALES', 'REVENUE', -500_000), balance('RENT', 'EXPENSE', 200_000)]
+  const closing = [
+    balance('BANK', 'ASSET', 1_000_000 - 200_000 + 300_000),
+    balance('AR', 'ASSET', 525_000 - 300_000),
+    balance('VAT_OUTPUT', 'LIABILITY', -25_000),
+    balance('SHARE_CAPITAL', 'EQUITY', -1_000_000),
+    ...movements,
+  ]
+
+  it('should build the income statement with subtotals', () => {
+    const rows = buildIncomeStatementRows([summarizeBalances(movements, 'income_statement')])
+
+    expect(amount(rows, 'revenue')).toBe(500_000)
+    expect(amount(rows, 'operating_expenses')).toBe(-200_000)
+    expect(amount(rows, 'operating_profit')).toBe(300_000)
+    expect(amount(rows, 'profit_for_period')).toBe(300_000)
+    expect(rows.find((r) => r.key === 'income_tax')).toBeUndefined()
+  })
+
+  it('should carry unclosed profit in retained earnings and balance', () => {
+    const rows = buildBalanceSheetRows([summarizeBalances(closing, 'balance_sheet')])
+
+    expect(amount(rows, 'retained_earnings')).toBe(300_000)
+    expect(amount(rows, 'total_assets')).toBe(1_325_000)
+    expect(amount(rows, 'total_equity_and_liabilities')).toBe(1_325_000)
+  })
+
+  it('should reconcile the cash flow to the movement in cash', () => {
+    const rows = buildCashFlowRows([
+      {
+        movements: summarizeBalances(movements, 'income_statement'),
+        opening: summarizeBalances(opening, 'balance_sheet'),
+        closing: summarizeBalances(closing, 'balance_sheet'),
+      },
+    ])
+
+    expect(amount(rows, 'profit_for_period')).toBe(300_000)
+    expect(amount(rows, 'change_trade_receivables')).toBe(-225_000)
+    expect(amount(rows, 'change_current_tax_liabilities')).toBe(25_000)
+    expect(amount(rows, 'net_cash_operating')).toBe(100_000)
+    expect(amount(rows, 'opening_cash')).toBe(1_000_000)
+    expect(amount(rows, 'closing_cash')).toBe(1_100_000)
+    expect(rows.find((r) => r.key === 'fx_effect_on_cash')).toBeUndefined()
+  })
+
+  it('should add depreciation back and show capital expenditure gross', () => {
+    const ppe = { line: 'property_plant_equipment' as const }
+    const rows = buildCashFlowRows([
+      {
+        movements: summarizeBalances([balance('DEP', 'EXPENSE', 10_000, { line: 'depreciation' })], 'income_statement'),
+        opening: summarizeBalances([balance('BANK', 'ASSET', 100_000), balance('SHARE_CAPITAL', 'EQUITY', -100_000)], 'balance_sheet'),
+        closing: summarizeBalances(
+          [
+            balance('BANK', 'ASSET', 50_000),
+            balance('PPE', 'ASSET', 40_000, ppe),
+            balance('SHARE_CAPITAL', 'EQUITY', -100_000),
+            balance('DEP', 'EXPENSE', 10_000, { line: 'depreciation' }),
+          ],
+          'balance_sheet'
+        ),
+      },
+    ])
+
+    expect(amount(rows, 'depreciation')).toBe(10_000)
+    expect(amount(rows, 'capital_expenditure')).toBe(-50_000)
+    expect(amount(rows, 'net_change_in_cash')).toBe(-50_000)
+  })
+
+  it('should eliminate intercompany balances and report what does not net off', () => {
+    const result = eliminateIntercompany([
+      balance('IC_REC', 'ASSET', 70_000, { intercompany: true }),
+      balance('IC_PAY', 'LIABILITY', -65_000, { intercompany: true, entityId: 'ent_2' }),
+      balance('BANK', 'ASSET', 10_000),
+    ])
+
+    expect(result.balances.map((b) => b.accountId)).toEqual(['BANK'])
+    expect(result.differenceCents).toBe(5_000)
+  })
+})
+
+describe('Statement periods and scope', () => {
+  it('should compare whole months with the preceding months', () => {
+    const prior = comparativeRange(new Date('2025-04-01'), new Date('2025-06-30'), 'prior_period')!
+    expect(prior.from.toISOString()).toBe('2025-01-01T00:00:00.000Z')
+    expect(prior.to.toISOString()).toBe('2025-03-31T23:59:59.999Z')
+  })
+
+  it('should compare month ends with the prior year month end', () => {
+    const prior = comparativeRange(new Date('2024-02-01'), new Date('2024-02-29'), 'prior_year')!
+    expect(prior.from.toISOString()).toBe('2023-02-01T00:00:00.000Z')
+    expect(prior.to.toISOString()).toBe('2023-02-28T23:59:59.999Z')
+    expect(comparativeRange(new Date('2024-02-01'), new Date('2024-02-29'), 'none')).toBeNull()
+  })
+
+  it('should collect an entity and all its descendants', () => {
+    const entities = [
+      { id: 'hold', name: 'Holding', parentEntityId: null },
+      { id: 'uae', name: 'UAE', parentEntityId: 'hold' },
+      { id: 'ksa', name: 'KSA', parentEntityId: 'uae' },
+      { id: 'other', name: 'Other', parentEntityId: null },
+    ]
+    expect(collectGroup('hold', entities).map((e) => e.id)).toEqual(['hold', 'uae', 'ksa'])
+    expect(collectGroup('uae', entities).map((e) => e.id)).toEqual(['uae', 'ksa'])
+  })
+
+  it('should format amounts in accounting notation', () => {
+    expect(formatStatementAmount(123456789)).toBe('1,234,567.89')
+    expect(formatStatementAmount(-5000)).toBe('(50.00)')
+    expect(formatStatementAmount(0)).toBe('-')
+  })
+
+  it('should render every statement to PDF and XLSX', async () => {
+    const rows = buildIncomeStatementRows([summarizeBalances([balance('SALES', 'REVENUE', -500_000)], 'income_statement')])
+    const result = {
+      entity: { id: 'ent_1', name: 'Gulf Advisory' },
+      entities: [{ id: 'ent_1', name: 'Gulf Advisory', currency: 'AED' }],
+      consolidated: false,
+      currency: 'AED',
+      comparison: 'none' as const,
+      statements: [{ type: 'income_statement' as const, title: 'Statement of profit or loss', columns: [{ label: '2025', from: null, to: new Date() }], rows }],
+      warnings: ['Example note'],
+    }
+
+    const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs')
+    const pdf = await getDocument({ data: new Uint8Array(await renderStatementsPdf(result)), verbosity: 0 }).promise
+    const { items } = await (await pdf.getPage(1)).getTextContent()
+    expect(items.map((item) => ('str' in item ? item.str : ''))).toContain('5,000.00')
+    expect(pdf.numPages).toBe(2)
+
+    const [sheet] = await readXlsx(await renderStatementsXlsx(result))
+    expect(sheet.rows.flat()).toContain(5000)
+  })
+})
@@ -0,0 +1,481 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { NotificationService } from '@/lib/notification.service'
+import { buildXlsx, XlsxCell } from '@/lib/exports/xlsx'
+import { BudgetKind, getBudget } from './budgets'
+import { getFiscalYearBounds, getFiscalYearForDate, getFiscalYearStartMonth } from './periods'
+
+/**
+ * Budget vs Actual
+ *
+ * Actuals come from the operational records for lines budgeted by expense
+ * category or cost center: expenses net of VAT, and issued invoices net of
+ * VAT with credit notes subtracted. Lines budgeted against a ledger account
+ * read the journal instead, so manual entries and accruals count too. All
+ * amounts are in the entity's functional currency.
+ *
+ * Variance is positive when favourable: spending under budget, or revenue
+ * over it. Expense lines raise an alert the first time in a month that
+ * year-to-date spending crosses one of the budget's thresholds.
+ */
+
+export interface ActualFact {
+  source: 'expense' | 'invoice' | 'journal'
+  kind: BudgetKind
+  date: Date
+  amountCents: number
+  category?: string | null
+  costCenter?: string | null
+  accountId?: string | null
+}
+
+export interface VarianceBudgetLine {
+  id: string
+  kind: string
+  category: string | null
+  accountId: string | null
+  costCenter: string | null
+  monthlyCents: number[]
+  annualCents: number
+  account?: { id: string; code: string; name: string } | null
+}
+
+export interface VarianceLine {
+  lineId: string
+  kind: BudgetKind
+  label: string
+  category: string | null
+  account: { id: string; code: string; name: string } | null
+  costCenter: string | null
+  monthly: { periodNumber: number; budgetCents: number; actualCents: number }[]
+  budgetCents: number // Year to date, through the report period
+  actualCents: number
+  varianceCents: number
+  variancePercent: number | null
+  annualBudgetCents: number
+  remainingCents: number
+}
+
+export interface VarianceTotals {
+  budgetCents: number
+  actualCents: number
+  varianceCents: number
+  annualBudgetCents: number
+}
+
+export interface BudgetVarianceReport {
+  budget: { id: string; name: string; fiscalYear: number; currency: string; status: string; entity: { id: string; name: string } }
+  throughPeriod: number
+  periods: { periodNumber: number; label: string; startDate: Date }[]
+  lines: VarianceLine[]
+  totals: Record<BudgetKind, VarianceTotals>
+  warnings: string[]
+}
+
+const sameText = (a?: string | null, b?: string | null) => (a ?? '').trim().toLowerCase() === (b ?? '').trim().toLowerCase()
+
+/**
+ * Fiscal month (0-11) a date falls in
+ */
+export function fiscalMonthIndex(date: Date, startMonth: number): number {
+  return (date.getUTCMonth() - startMonth + 12) % 12
+}
+
+/**
+ * Whether an actual counts against a budget line. Account lines take only
+ * journal amounts on that account; other lines take expenses or invoices.
+ * A line without a category or cost center matches every value of it.
+ */
+export function lineMatchesFact(line: Pick<VarianceBudgetLine, 'kind' | 'category' | 'accountId' | 'costCenter'>, fact: ActualFact): boolean {
+  if (line.kind !== fact.kind) return false
+  if (line.costCenter && !sameText(line.costCenter, fact.costCenter)) return false
+  if (line.accountId) return fact.source === 'journal' && fact.accountId === line.accountId
+  if (fact.source === 'journal') return false
+  return !line.category || sameText(line.category, fact.category)
+}
+
+export function lineLabel(line: Pick<VarianceBudgetLine, 'category' | 'costCenter' | 'account'>): string {
+  const what = line.account ? `${line.account.code} ${line.account.name}` : line.category || 'All'
+  return line.costCenter ? `${what} / ${line.costCenter}` : what
+}
+
+/**
+ * Variance with the sign flipped for revenue so that positive is favourable
+ */
+export function varianceCents(kind: BudgetKind, budgetCents: number, actualCents: number): number {
+  return kind === 'REVENUE' ? actualCents - budgetCents : budgetCents - actualCents
+}
+
+/**
+ * Thresholds (percent of budget) that year-to-date spending has reached.
+ * Spending against a zero budget has crossed them all.
+ */
+export function crossedThresholds(budgetCents: number, actualCents: number, thresholds: number[]): number[] {
+  if (actualCents <= 0) return []
+  if (budgetCents <= 0) return [...thresholds]
+  return thresholds.filter((threshold) => actualCents * 100 >= budgetCents * threshold)
+}
+
+/**
+ * Compare each line's budget with the actuals through a fiscal month (1-12)
+ */
+export function buildVarianceLines(lines: VarianceBudgetLine[], facts: ActualFact[], startMonth: number, throughPeriod: number): VarianceLine[] {
+  return lines.map((line) => {
+    const kind = line.kind as BudgetKind
+    const actuals = new Array<number>(12).fill(0)
+    for (const fact of facts) {
+      if (lineMatchesFact(line, fact)) actuals[fiscalMonthIndex(fact.date, startMonth)] += fact.amountCents
+    }
+
+    const monthly = Array.from({ length: throughPeriod }, (_, i) => ({
+      periodNumber: i + 1,
+      budgetCents: line.monthlyCents[i] ?? 0,
+      actualCents: actuals[i],
+    }))
+    const budgetCents = monthly.reduce((sum, month) => sum + month.budgetCents, 0)
+    const actualCents = monthly.reduce((sum, month) => sum + month.actualCents, 0)
+    const variance = varianceCents(kind, budgetCents, actualCents)
+
+    return {
+      lineId: line.id,
+      kind,
+      label: lineLabel(line),
+      category: line.category,
+      account: line.account ?? null,
+      costCenter: line.costCenter,
+      monthly,
+      budgetCents,
+      actualCents,
+      varianceCents: variance,
+      variancePercent: budgetCents ? Math.round((variance / budgetCents) * 10000) / 100 : null,
+      annualBudgetCents: line.annualCents,
+      remainingCents: line.annualCents - actualCents,
+    }
+  })
+}
+
+export function sumVariance(lines: VarianceLine[], kind: BudgetKind): VarianceTotals {
+  const totals: VarianceTotals = { budgetCents: 0, actualCents: 0, varianceCents: 0, annualBudgetCents: 0 }
+  for (const line of lines) {
+    if (line.kind !== kind) continue
+    totals.budgetCents += line.budgetCents
+    totals.actualCents += line.actualCents
+    totals.varianceCents += line.varianceCents
+    totals.annualBudgetCents += line.annualBudgetCents
+  }
+  return totals
+}
+
+/**
+ * Actuals for an entity between two dates, in its functional currency.
+ * Documents in another currency without a captured rate are left out and
+ * counted in the warnings.
+ */
+async function loadActuals(
+  entityId: string,
+  currency: string,
+  lines: VarianceBudgetLine[],
+  from: Date,
+  to: Date
+): Promise<{ facts: ActualFact[]; warnings: string[] }> {
+  const facts: ActualFact[] = []
+  const warnings: string[] = []
+  const wants = (kind: BudgetKind) => lines.some((line) => line.kind === kind && !line.accountId)
+
+  if (wants('EXPENSE')) {
+    const expenses = await prisma.expense.findMany({
+      where: { entityId, date: { gte: from, lte: to }, status: { not: 'REJECTED' } },
+      select: {
+        date: true,
+        category: true,
+        costCenter: true,
+        currency: true,
+        amountCents: true,
+        taxCents: true,
+        functionalAmountCents: true,
+        functionalTaxCents: true,
+        user: { select: { department: true } },
+      },
+    })
+    let unconverted = 0
+    for (const expense of expenses) {
+      let amountCents: number
+      if (expense.currency === currency) amountCents = expense.amountCents - expense.taxCents
+      else if (expense.functionalAmountCents !== null) amountCents = expense.functionalAmountCents - (expense.functionalTaxCents ?? 0)
+      else {
+        unconverted += 1
+        continue
+      }
+      facts.push({
+        source: 'expense',
+        kind: 'EXPENSE',
+        date: expense.date,
+        amountCents,
+        category: expense.category,
+        costCenter: expense.costCenter ?? expense.user?.department ?? null,
+      })
+    }
+    if (unconverted) warnings.push(`${unconverted} expense(s) in another currency have no exchange rate and are not included`)
+  }
+
+  if (wants('REVENUE')) {
+    const invoices = await prisma.invoice.findMany({
+      where: { entityId, issueDate: { gte: from, lte: to }, status: { notIn: ['DRAFT', 'VOID'] } },
+      select: {
+        issueDate: true,
+        documentType: true,
+        costCenter: true,
+        currency: true,
+        totalCents: true,
+        taxCents: true,
+        functionalTotalCents: true,
+        functionalTaxCents: true,
+      },
+    })
+    let unconverted = 0
+    for (const invoice of invoices) {
+      let amountCents: number
+      if (invoice.currency === currency) amountCents = invoice.totalCents - invoice.taxCents
+      else if (invoice.functionalTotalCents !== null) amountCents = invoice.functionalTotalCents - (invoice.functionalTaxCents ?? 0)
+      else {
+        unconverted += 1
+        continue
+      }
+      facts.push({
+        source: 'invoice',
+        kind: 'REVENUE',
+        date: invoice.issueDate,
+        amountCents: invoice.documentType === 'CREDIT_NOTE' ? -amountCents : amountCents,
+        costCenter: invoice.costCenter,
+      })
+    }
+    if (unconverted) warnings.push(`${unconverted} invoice(s) in another currency have no exchange rate and are not included`)
+  }
+
+  const accountIds = [...new Set(lines.map((line) => line.accountId).filter((id): id is string => Boolean(id)))]
+  if (accountIds.length) {
+    const journalLines = await prisma.journalLine.findMany({
+      where: {
+        accountId: { in: accountIds },
+        journalEntry: { entityId, date: { gte: from, lte: to }, status: { not: 'DRAFT' } },
+      },
+      select: {
+        accountId: true,
+        debitCents: true,
+        creditCents: true,
+        account: { select: { type: true } },
+        journalEntry: { select: { date: true, sourceType: true, sourceId: true } },
+      },
+    })
+
+    // Cost centers live on the documents the entries were posted from
+    const sourceIds = (type: string) => [
+      ...new Set(journalLines.filter((l) => l.journalEntry.sourceType === type && l.journalEntry.sourceId).map((l) => l.journalEntry.sourceId as string)),
+    ]
+    const costCenters = new Map<string, string | null>()
+    const expenseIds = sourceIds('expense')
+    if (expenseIds.length) {
+      const expenses = await prisma.expense.findMany({
+        where: { id: { in: expenseIds } },
+        select: { id: true, costCenter: true, user: { select: { department: true } } },
+      })
+      for (const e of expenses) costCenters.set(`expense:${e.id}`, e.costCenter ?? e.user?.department ?? null)
+    }
+    const invoiceIds = sourceIds('invoice')
+    if (invoiceIds.length) {
+      const invoices = await prisma.invoice.findMany({ where: { id: { in: invoiceIds } }, select: { id: true, costCenter: true } })
+      for (const i of invoices) costCenters.set(`invoice:${i.id}`, i.costCenter)
+    }
+
+    for (const line of journalLines) {
+      const kind = line.account.type === 'REVENUE' ? 'REVENUE' : 'EXPENSE'
+      facts.push({
+        source: 'journal',
+        kind,
+        date: line.journalEntry.date,
+        amountCents: kind === 'REVENUE' ? line.creditCents - line.debitCents : line.debitCents - line.creditCents,
+        accountId: line.accountId,
+        costCenter: costCenters.get(`${line.journalEntry.sourceType}:${line.journalEntry.sourceId}`) ?? null,
+      })
+    }
+  }
+
+  return { facts, warnings }
+}
+
+function periodLabels(fiscalYear: number, startMonth: number) {
+  return Array.from({ length: 12 }, (_, i) => {
+    const startDate = new Date(Date.UTC(fiscalYear, startMonth + i, 1))
+    return {
+      periodNumber: i + 1,
+      label: startDate.toLocaleString('en-US', { month: 'short', year: 'numeric', timeZone: 'UTC' }),
+      startDate,
+    }
+  })
+}
+
+/**
+ * Fiscal month a date reaches in a budget's year: 0 before the year starts,
+ * 12 once it has ended
+ */
+export function periodReached(asOf: Date, fiscalYear: number, startMonth: number): number {
+  const year = getFiscalYearForDate(asOf, startMonth)
+  if (year < fiscalYear) return 0
+  if (year > fiscalYear) return 12
+  return fiscalMonthIndex(asOf, startMonth) + 1
+}
+
+/**
+ * Budget vs actual for each line, year to date through a fiscal month.
+ * Defaults to the month containing today, or the whole year once it is over.
+ */
+export async function getBudgetVariance(tenantId: string, id: string, options: { throughPeriod?: number; asOf?: Date } = {}): Promise<BudgetVarianceReport> {
+  const budget = await getBudget(tenantId, id)
+  const startMonth = getFiscalYearStartMonth(budget.entity.fiscalYearStart)
+  const throughPeriod = options.throughPeriod ?? (periodReached(options.asOf ?? new Date(), budget.fiscalYear, startMonth) || 12)
+  const periods = periodLabels(budget.fiscalYear, startMonth)
+  const { startDate, endDate } = getFiscalYearBounds(budget.fiscalYear, startMonth)
+  const to = throughPeriod < 12 ? new Date(periods[throughPeriod].startDate.getTime() - 1) : endDate
+
+  const { facts, warnings } = await loadActuals(budget.entityId, budget.currency, budget.lines, startDate, to)
+  const lines = buildVarianceLines(budget.lines, facts, startMonth, throughPeriod)
+
+  return {
+    budget: {
+      id: budget.id,
+      name: budget.name,
+      fiscalYear: budget.fiscalYear,
+      currency: budget.currency,
+      status: budget.status,
+      entity: { id: budget.entity.id, name: budget.entity.name },
+    },
+    throughPeriod,
+    periods: periods.slice(0, throughPeriod),
+    lines,
+    totals: { EXPENSE: sumVariance(lines, 'EXPENSE'), REVENUE: sumVariance(lines, 'REVENUE') },
+    warnings,
+  }
+}
+
+/**
+ * Workbook with the year-to-date summary and a month-by-month sheet
+ */
+export async function renderBudgetVarianceXlsx(report: BudgetVarianceReport): Promise<Buffer> {
+  const amount = (cents: number, bold = false): XlsxCell => ({ value: cents / 100, style: bold ? 'boldAmount' : 'amount' })
+  const heading = (labels: string[]): XlsxCell[] => labels.map((value) => ({ value, style: 'bold' as const }))
+  const through = report.periods[report.periods.length - 1]?.label ?? ''
+
+  const summary: XlsxCell[][] = [
+    [{ value: `${report.budget.name} (FY ${report.budget.fiscalYear})`, style: 'title' }],
+    [report.budget.entity.name],
+    [`Amounts in ${report.budget.currency}, year to date through ${through}`],
+    [],
+    heading(['Type', 'Line', 'Budget', 'Actual', 'Variance', 'Variance %', 'Annual budget', 'Remaining']),
+  ]
+  for (const kind of ['REVENUE', 'EXPENSE'] as BudgetKind[]) {
+    const lines = report.lines.filter((line) => line.kind === kind)
+    if (!lines.length) continue
+    for (const line of lines) {
+      summary.push([
+        kind === 'REVENUE' ? 'Revenue' : 'Expense',
+        line.label,
+        amount(line.budgetCents),
+        amount(line.actualCents),
+        amount(line.varianceCents),
+        line.variancePercent,
+        amount(line.annualBudgetCents),
+        amount(line.remainingCents),
+      ])
+    }
+    const totals = report.totals[kind]
+    summary.push([
+      { value: kind === 'REVENUE' ? 'Total revenue' : 'Total expenses', style: 'bold' },
+      '',
+      amount(totals.budgetCents, true),
+      amount(totals.actualCents, true),
+      amount(totals.varianceCents, true),
+      null,
+      amount(totals.annualBudgetCents, true),
+      null,
+    ])
+    summary.push([])
+  }
+  summary.push(...report.warnings.map((warning) => [warning]))
+
+  const monthly: XlsxCell[][] = [heading(['Line', '', ...report.periods.map((period) => period.label)])]
+  for (const line of report.lines) {
+    monthly.push([line.label, 'Budget', ...line.monthly.map((month) => amount(month.budgetCents))])
+    monthly.push(['', 'Actual', ...line.monthly.map((month) => amount(month.actualCents))])
+  }
+
+  return buildXlsx([
+    { name: 'Variance', rows: summary, columnWidths: [12, 40, 16, 16, 16, 12, 16, 16] },
+    { name: 'Monthly', rows: monthly, columnWidths: [40, 10, ...report.periods.map(() => 14)] },
+  ])
+}
+
+/**
+ * Raise alerts for active budgets whose expense lines have crossed a
+ * threshold this month, and email the tenant's admins and the budget owner.
+ * Safe to run repeatedly: each line, month and threshold alerts once.
+ */
+export async function checkBudgetAlerts(asOf: Date = new Date()) {
+  const result = { budgets: 0, lines: 0, alerts: 0, notified: 0 }
+  const notifications = new NotificationService()
+
+  const budgets = await prisma.budget.findMany({
+    where: { status: 'ACTIVE', fiscalYear: { in: [asOf.getUTCFullYear() - 1, asOf.getUTCFullYear()] } },
+    include: {
+      entity: { select: { name: true, fiscalYearStart: true } },
+      lines: { where: { kind: 'EXPENSE' }, include: { account: { select: { id: true, code: true, name: true } } } },
+    },
+  })
+
+  for (const budget of budgets) {
+    const startMonth = getFiscalYearStartMonth(budget.entity.fiscalYearStart)
+    if (getFiscalYearForDate(asOf, startMonth) !== budget.fiscalYear || !budget.lines.length || !budget.alertThresholds.length) continue
+    result.budgets += 1
+
+    const periodNumber = fiscalMonthIndex(asOf, startMonth) + 1
+    const { startDate } = getFiscalYearBounds(budget.fiscalYear, startMonth)
+    const { facts } = await loadActuals(budget.entityId, budget.currency, budget.lines, startDate, asOf)
+    const lines = buildVarianceLines(budget.lines, facts, startMonth, periodNumber)
+
+    const raised: { label: string; threshold: number; budgetCents: number; actualCents: number }[] = []
+    for (const line of lines) {
+      result.lines += 1
+      for (const threshold of crossedThresholds(line.budgetCents, line.actualCents, budget.alertThresholds)) {
+        try {
+          await prisma.budgetAlert.create({
+            data: { budgetId: budget.id, lineId: line.lineId, periodNumber, threshold, budgetCents: line.budgetCents, actualCents: line.actualCents },
+          })
+        } catch (err: any) {
+          if (err?.code === 'P2002') continue
+          throw err
+        }
+        raised.push({ label: line.label, threshold, budgetCents: line.budgetCents, actualCents: line.actualCents })
+      }
+    }
+    if (!raised.length) continue
+    result.alerts += raised.length
+
+    const recipients = await prisma.user.findMany({
+      where: {
+        tenantId: budget.tenantId,
+        OR: [{ role: { in: ['ADMIN', 'SUPER_ADMIN'] } }, ...(budget.createdBy ? [{ id: budget.createdBy }] : [])],
+      },
+      select: { email: true },
+    })
+    const emails = [...new Set(recipients.map((r) => r.email))]
+    for (const alert of raised) {
+      await notifications.notifyBudgetThreshold(
+        { budgetName: budget.name, entityName: budget.entity.name, currency: budget.currency, ...alert },
+        emails
+      )
+    }
+    result.notified += emails.length ? raised.length : 0
+  }
+
+  logger.info('Budget alerts checked', { ...result })
+  return result
+}
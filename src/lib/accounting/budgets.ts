@@ -0,0 +1,433 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { buildXlsx, readXlsx, XlsxCell, XlsxSheetData } from '@/lib/exports/xlsx'
+import { getFunctionalCurrency } from './fx'
+import { getFiscalYearStartMonth } from './periods'
+
+/**
+ * Budgets
+ *
+ * A budget plans one entity's fiscal year in its functional currency. Each
+ * line budgets expenses or revenue for a slice of the books: an expense
+ * category, a ledger account, a cost center, or a combination. A null
+ * dimension matches everything, so "travel" with no cost center budgets all
+ * travel while "travel / Sales" budgets only the sales team's. Amounts are
+ * held per fiscal month; an ANNUAL budget spreads each line's total evenly.
+ * Lines can be typed in or imported from a spreadsheet.
+ */
+
+export type BudgetKind = 'EXPENSE' | 'REVENUE'
+export type BudgetGranularity = 'ANNUAL' | 'MONTHLY'
+export type BudgetStatus = 'DRAFT' | 'ACTIVE' | 'ARCHIVED'
+
+export const BUDGET_STATUSES: BudgetStatus[] = ['DRAFT', 'ACTIVE', 'ARCHIVED']
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+
+export const BudgetLineSchema = z
+  .object({
+    kind: z.enum(['EXPENSE', 'REVENUE']).default('EXPENSE'),
+    category: z.string().trim().min(1).max(120).nullable().optional(),
+    accountId: z.string().min(1).nullable().optional(),
+    costCenter: z.string().trim().min(1).max(60).nullable().optional(),
+    annualCents: z.number().int().nonnegative().optional(),
+    monthlyCents: z.array(z.number().int().nonnegative()).length(12).optional(),
+  })
+  .refine((line) => line.annualCents !== undefined || line.monthlyCents !== undefined, {
+    message: 'Give an annual amount or twelve monthly amounts',
+  })
+  .refine((line) => line.kind === 'EXPENSE' || !line.category, {
+    message: 'Revenue is budgeted by account or cost center, not by expense category',
+    path: ['category'],
+  })
+
+export type BudgetLineInput = z.infer<typeof BudgetLineSchema>
+
+const uniqueLines = (lines: BudgetLineInput[]) => new Set(lines.map(lineKey)).size === lines.length
+
+const thresholdsSchema = z.array(z.number().int().min(1).max(500)).max(5)
+
+export const BudgetSchema = z.object({
+  entityId: z.string().min(1),
+  name: z.string().trim().min(1).max(120),
+  fiscalYear: z.number().int().min(2000).max(2100),
+  granularity: z.enum(['ANNUAL', 'MONTHLY']).default('MONTHLY'),
+  status: z.enum(['DRAFT', 'ACTIVE', 'ARCHIVED']).default('DRAFT'),
+  alertThresholds: thresholdsSchema.default([80, 100]),
+  notes: z.string().trim().max(2000).nullable().optional(),
+  lines: z.array(BudgetLineSchema).max(500).refine(uniqueLines, 'Each line needs a different category, account and cost center').default([]),
+})
+
+export const BudgetUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  status: z.enum(['DRAFT', 'ACTIVE', 'ARCHIVED']).optional(),
+  alertThresholds: thresholdsSchema.optional(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+  lines: z.array(BudgetLineSchema).max(500).refine(uniqueLines, 'Each line needs a different category, account and cost center').optional(),
+})
+
+export type BudgetInput = z.infer<typeof BudgetSchema>
+export type BudgetUpdate = z.infer<typeof BudgetUpdateSchema>
+
+/**
+ * Identity of a line's slice of the books; two lines may not share one
+ */
+export function lineKey(line: Pick<BudgetLineInput, 'kind' | 'category' | 'accountId' | 'costCenter'>): string {
+  return [line.kind ?? 'EXPENSE', line.category?.toLowerCase() ?? '*', line.accountId ?? '*', line.costCenter?.toLowerCase() ?? '*'].join('|')
+}
+
+/**
+ * Spread an annual amount over twelve months, the rounding left in the last
+ */
+export function phaseAnnualAmount(annualCents: number): number[] {
+  const monthly = Math.floor(annualCents / 12)
+  return Array.from({ length: 12 }, (_, i) => (i === 11 ? annualCents - monthly * 11 : monthly))
+}
+
+/**
+ * Monthly amounts and total for a line. Monthly budgets take the twelve
+ * amounts given (or spread the total when only that was given); annual
+ * budgets always spread the total.
+ */
+export function phaseLine(line: BudgetLineInput, granularity: BudgetGranularity): { monthlyCents: number[]; annualCents: number } {
+  if (line.monthlyCents && (granularity === 'MONTHLY' || line.annualCents === undefined)) {
+    const annualCents = line.monthlyCents.reduce((sum, cents) => sum + cents, 0)
+    return granularity === 'MONTHLY' ? { monthlyCents: line.monthlyCents, annualCents } : { monthlyCents: phaseAnnualAmount(annualCents), annualCents }
+  }
+  const annualCents = line.annualCents ?? 0
+  return { monthlyCents: phaseAnnualAmount(annualCents), annualCents }
+}
+
+export interface BudgetSheetError {
+  row: number
+  message: string
+}
+
+function cellText(value: string | number | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value).trim()
+}
+
+function cellCents(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return 0
+  const amount = typeof value === 'number' ? value : Number(String(value).replace(/[,\s]/g, '').replace(/^\((.*)\)$/, '-$1'))
+  return Number.isFinite(amount) ? Math.round(amount * 100) : null
+}
+
+/**
+ * Fiscal month (0-11) a column header stands for: a month name, or P1-P12
+ * counted from the start of the fiscal year
+ */
+function monthColumn(header: string, startMonth: number): number | null {
+  const name = MONTH_NAMES.indexOf(header.slice(0, 3).toLowerCase())
+  if (name !== -1 && /^[a-z]+\.?$/i.test(header)) return (name - startMonth + 12) % 12
+  const period = /^(?:p|m|period\s*)?(\d{1,2})$/i.exec(header)
+  if (period && Number(period[1]) >= 1 && Number(period[1]) <= 12) return Number(period[1]) - 1
+  return null
+}
+
+/**
+ * Turn spreadsheet rows into budget lines. The header row names the
+ * columns: Type, Category, Account (code), Cost center (or Department),
+ * Annual (or Total), and one column per month. Amounts are in currency
+ * units. Rows with neither a dimension nor an amount are skipped.
+ */
+export function parseBudgetSheet(
+  rows: XlsxSheetData['rows'],
+  startMonth: number,
+  accountsByCode: Map<string, { id: string; type: string }>
+): { lines: BudgetLineInput[]; errors: BudgetSheetError[] } {
+  const headerIndex = rows.findIndex((row) => row.some((cell) => /^(category|account|cost cent(er|re)|department)$/i.test(cellText(cell))))
+  if (headerIndex === -1) {
+    return { lines: [], errors: [{ row: 1, message: 'No header row with a Category, Account or Cost center column' }] }
+  }
+
+  const columns: { type?: number; category?: number; account?: number; costCenter?: number; annual?: number; months: Map<number, number> } = {
+    months: new Map(),
+  }
+  rows[headerIndex].forEach((cell, index) => {
+    const header = cellText(cell)
+    if (/^(type|kind)$/i.test(header)) columns.type = index
+    else if (/^category$/i.test(header)) columns.category = index
+    else if (/^account( code)?$/i.test(header)) columns.account = index
+    else if (/^(cost cent(er|re)|department)$/i.test(header)) columns.costCenter = index
+    else if (/^(annual|total|amount)$/i.test(header)) columns.annual = index
+    else {
+      const month = monthColumn(header, startMonth)
+      if (month !== null) columns.months.set(month, index)
+    }
+  })
+
+  const errors: BudgetSheetError[] = []
+  if (columns.annual === undefined && columns.months.size !== 12) {
+    errors.push({ row: headerIndex + 1, message: 'Give an Annual column or a column for each of the twelve months' })
+    return { lines: [], errors }
+  }
+
+  const lines: BudgetLineInput[] = []
+  const seen = new Map<string, number>()
+  rows.slice(headerIndex + 1).forEach((row, offset) => {
+    const rowNumber = headerIndex + offset + 2
+    const at = (index?: number) => (index === undefined ? null : row[index])
+    const category = cellText(at(columns.category)) || null
+    const accountCode = cellText(at(columns.account)) || null
+    const costCenter = cellText(at(columns.costCenter)) || null
+    const hasAmount = [columns.annual, ...columns.months.values()].some((index) => cellText(at(index)) !== '')
+    if (!category && !accountCode && !costCenter && !hasAmount) return
+
+    const typeText = cellText(at(columns.type)).toLowerCase()
+    let kind: BudgetKind = /^(revenue|income|sales)$/.test(typeText) ? 'REVENUE' : 'EXPENSE'
+    if (typeText && !/^(revenue|income|sales|expense|expenses|cost|costs)$/.test(typeText)) {
+      errors.push({ row: rowNumber, message: `Unknown type "${cellText(at(columns.type))}"` })
+      return
+    }
+
+    let accountId: string | null = null
+    if (accountCode) {
+      const account = accountsByCode.get(accountCode)
+      if (!account) {
+        errors.push({ row: rowNumber, message: `No account with code ${accountCode}` })
+        return
+      }
+      if (account.type !== 'EXPENSE' && account.type !== 'REVENUE') {
+        errors.push({ row: rowNumber, message: `Account ${accountCode} is not an expense or revenue account` })
+        return
+      }
+      accountId = account.id
+      kind = account.type as BudgetKind
+    }
+    if (kind === 'REVENUE' && category) {
+      errors.push({ row: rowNumber, message: 'Revenue is budgeted by account or cost center, not by expense category' })
+      return
+    }
+
+    const line: BudgetLineInput = { kind, category, accountId, costCenter }
+    if (columns.months.size === 12) {
+      const monthly: number[] = []
+      for (let month = 0; month < 12; month++) {
+        const cents = cellCents(at(columns.months.get(month)))
+        if (cents === null || cents < 0) {
+          errors.push({ row: rowNumber, message: `Invalid amount for ${MONTH_NAMES[(month + startMonth) % 12]}` })
+          return
+        }
+        monthly.push(cents)
+      }
+      line.monthlyCents = monthly
+    } else {
+      const cents = cellCents(at(columns.annual))
+      if (cents === null || cents < 0) {
+        errors.push({ row: rowNumber, message: 'Invalid annual amount' })
+        return
+      }
+      line.annualCents = cents
+    }
+
+    const key = lineKey(line)
+    if (seen.has(key)) {
+      errors.push({ row: rowNumber, message: `Same category, account and cost center as row ${seen.get(key)}` })
+      return
+    }
+    seen.set(key, rowNumber)
+    lines.push(line)
+  })
+
+  return { lines, errors }
+}
+
+/**
+ * Blank import sheet with the month columns in fiscal order
+ */
+export async function budgetTemplateXlsx(startMonth: number): Promise<Buffer> {
+  const months = Array.from({ length: 12 }, (_, i) => {
+    const name = MONTH_NAMES[(startMonth + i) % 12]
+    return name.charAt(0).toUpperCase() + name.slice(1)
+  })
+  const header: XlsxCell[] = ['Type', 'Category', 'Account', 'Cost center', ...months].map((value) => ({ value, style: 'bold' as const }))
+  return buildXlsx([
+    {
+      name: 'Budget',
+      rows: [header, ['Expense', 'travel', '', 'Sales', ...months.map(() => 1000)], ['Revenue', '', '', 'Advisory', ...months.map(() => 25000)]],
+      columnWidths: [12, 24, 12, 18, ...months.map(() => 12)],
+    },
+  ])
+}
+
+async function loadEntity(tenantId: string, entityId: string) {
+  const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId }, select: { id: true, fiscalYearStart: true } })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+  return entity
+}
+
+/**
+ * Check every account a line names belongs to the entity and has the
+ * line's kind
+ */
+async function assertLineAccounts(entityId: string, lines: BudgetLineInput[]) {
+  const ids = [...new Set(lines.map((line) => line.accountId).filter((id): id is string => Boolean(id)))]
+  if (!ids.length) return
+  const accounts = await prisma.ledgerAccount.findMany({ where: { id: { in: ids }, entityId }, select: { id: true, type: true } })
+  const types = new Map(accounts.map((account) => [account.id, account.type]))
+  for (const line of lines) {
+    if (!line.accountId) continue
+    const type = types.get(line.accountId)
+    if (!type) throw new ApiError('NOT_FOUND', 'Account not found', 404, { accountId: line.accountId })
+    if (type !== line.kind) {
+      throw new ApiError('INVALID_ACCOUNT', `A ${line.kind.toLowerCase()} line needs a ${line.kind.toLowerCase()} account`, 400, { accountId: line.accountId })
+    }
+  }
+}
+
+function lineData(line: BudgetLineInput, granularity: BudgetGranularity) {
+  return {
+    kind: line.kind,
+    category: line.category ?? null,
+    accountId: line.accountId ?? null,
+    costCenter: line.costCenter ?? null,
+    ...phaseLine(line, granularity),
+  }
+}
+
+const LINE_INCLUDE = { account: { select: { id: true, code: true, name: true } } } as const
+
+export async function createBudget(tenantId: string, input: BudgetInput, userId?: string | null) {
+  await loadEntity(tenantId, input.entityId)
+  await assertLineAccounts(input.entityId, input.lines)
+  const currency = await getFunctionalCurrency(input.entityId)
+
+  const existing = await prisma.budget.findFirst({
+    where: { entityId: input.entityId, fiscalYear: input.fiscalYear, name: input.name },
+    select: { id: true },
+  })
+  if (existing) throw new ApiError('DUPLICATE_BUDGET', 'The entity already has a budget with this name for the year', 409)
+
+  return prisma.budget.create({
+    data: {
+      tenantId,
+      entityId: input.entityId,
+      name: input.name,
+      fiscalYear: input.fiscalYear,
+      granularity: input.granularity,
+      currency,
+      status: input.status,
+      alertThresholds: input.alertThresholds,
+      notes: input.notes ?? null,
+      createdBy: userId ?? null,
+      lines: { create: input.lines.map((line) => lineData(line, input.granularity)) },
+    },
+    include: { lines: { include: LINE_INCLUDE } },
+  })
+}
+
+export async function getBudget(tenantId: string, id: string) {
+  const budget = await prisma.budget.findFirst({
+    where: { id, tenantId },
+    include: {
+      entity: { select: { id: true, name: true, fiscalYearStart: true } },
+      lines: { include: LINE_INCLUDE, orderBy: [{ kind: 'asc' }, { category: 'asc' }, { costCenter: 'asc' }] },
+    },
+  })
+  if (!budget) throw new ApiError('NOT_FOUND', 'Budget not found', 404)
+  return budget
+}
+
+export async function listBudgets(
+  tenantId: string,
+  filters: { entityId?: string; fiscalYear?: number; status?: BudgetStatus; limit?: number; offset?: number } = {}
+) {
+  const where = {
+    tenantId,
+    ...(filters.entityId ? { entityId: filters.entityId } : {}),
+    ...(filters.fiscalYear ? { fiscalYear: filters.fiscalYear } : {}),
+    ...(filters.status ? { status: filters.status } : {}),
+  }
+  const [budgets, total] = await Promise.all([
+    prisma.budget.findMany({
+      where,
+      include: { entity: { select: { id: true, name: true } }, _count: { select: { lines: true } } },
+      orderBy: [{ fiscalYear: 'desc' }, { name: 'asc' }],
+      take: filters.limit ?? 50,
+      skip: filters.offset ?? 0,
+    }),
+    prisma.budget.count({ where }),
+  ])
+  return { budgets, total }
+}
+
+/**
+ * Update a budget. Lines, when given, replace the existing ones along with
+ * the alerts already raised for them.
+ */
+export async function updateBudget(tenantId: string, id: string, input: BudgetUpdate) {
+  const budget = await prisma.budget.findFirst({ where: { id, tenantId } })
+  if (!budget) throw new ApiError('NOT_FOUND', 'Budget not found', 404)
+  if (input.lines) await assertLineAccounts(budget.entityId, input.lines)
+
+  const granularity = budget.granularity as BudgetGranularity
+  await prisma.$transaction(async (tx) => {
+    await tx.budget.update({
+      where: { id },
+      data: {
+        ...(input.name !== undefined ? { name: input.name } : {}),
+        ...(input.status !== undefined ? { status: input.status } : {}),
+        ...(input.alertThresholds !== undefined ? { alertThresholds: input.alertThresholds } : {}),
+        ...(input.notes !== undefined ? { notes: input.notes } : {}),
+      },
+    })
+    if (input.lines) {
+      await tx.budgetLine.deleteMany({ where: { budgetId: id } })
+      await tx.budgetLine.createMany({ data: input.lines.map((line) => ({ budgetId: id, ...lineData(line, granularity) })) })
+    }
+  })
+
+  return getBudget(tenantId, id)
+}
+
+export async function deleteBudget(tenantId: string, id: string) {
+  const { count } = await prisma.budget.deleteMany({ where: { id, tenantId } })
+  if (!count) throw new ApiError('NOT_FOUND', 'Budget not found', 404)
+}
+
+/**
+ * Replace (or add to) a budget's lines from an uploaded workbook. Nothing
+ * is saved if any row is invalid; the errors name the rows to fix.
+ */
+export async function importBudgetLines(tenantId: string, id: string, file: Buffer, mode: 'replace' | 'append' = 'replace') {
+  const budget = await getBudget(tenantId, id)
+
+  let sheets: XlsxSheetData[]
+  try {
+    sheets = await readXlsx(file)
+  } catch {
+    throw new ApiError('INVALID_FILE', 'The file is not a readable XLSX workbook', 400)
+  }
+  const sheet = sheets.find((s) => /budget/i.test(s.name)) ?? sheets[0]
+  if (!sheet) throw new ApiError('INVALID_FILE', 'The workbook has no sheets', 400)
+
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { entityId: budget.entityId, type: { in: ['EXPENSE', 'REVENUE'] } },
+    select: { id: true, code: true, type: true },
+  })
+  const startMonth = getFiscalYearStartMonth(budget.entity.fiscalYearStart)
+  const parsed = parseBudgetSheet(sheet.rows, startMonth, new Map(accounts.map((a) => [a.code, { id: a.id, type: a.type }])))
+  if (parsed.errors.length) {
+    throw new ApiError('INVALID_BUDGET_SHEET', 'Some rows could not be imported', 422, { errors: parsed.errors })
+  }
+  if (!parsed.lines.length) throw new ApiError('INVALID_BUDGET_SHEET', 'The sheet has no budget lines', 422)
+
+  const existing = budget.lines.map(
+    (line): BudgetLineInput => ({
+      kind: line.kind as BudgetKind,
+      category: line.category,
+      accountId: line.accountId,
+      costCenter: line.costCenter,
+      monthlyCents: line.monthlyCents,
+    })
+  )
+  const lines = mode === 'append' ? [...existing, ...parsed.lines] : parsed.lines
+  if (!uniqueLines(lines)) {
+    throw new ApiError('INVALID_BUDGET_SHEET', 'The sheet repeats lines the budget already has', 422)
+  }
+
+  const updated = await updateBudget(tenantId, id, { lines })
+  return { budget: updated, imported: parsed.lines.length }
+}
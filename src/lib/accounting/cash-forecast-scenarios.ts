@@ -0,0 +1,187 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { RecurringItemCadenceSchema, ScenarioOverride, ScenarioOverrideSchema } from './cash-forecast'
+
+/**
+ * Cash Forecast Inputs
+ *
+ * Recurring items are amounts the books cannot predict, such as payroll,
+ * rent and loan repayments; they count in every forecast of the entity.
+ * Scenarios hold overrides that are applied on request, so the base
+ * forecast and any number of "what ifs" can be viewed side by side.
+ */
+
+const dateInput = z.union([z.string(), z.date()]).pipe(z.coerce.date())
+
+const itemFields = {
+  name: z.string().trim().min(1).max(120),
+  direction: z.enum(['IN', 'OUT']),
+  category: z.string().trim().min(1).max(60).nullable().optional(),
+  amountCents: z.number().int().positive(),
+  cadence: RecurringItemCadenceSchema.default('MONTHLY'),
+  startDate: dateInput,
+  endDate: dateInput.nullable().optional(),
+  active: z.boolean().default(true),
+}
+
+export const CashForecastItemSchema = z
+  .object({ entityId: z.string().min(1), ...itemFields })
+  .refine((item) => !item.endDate || item.endDate >= item.startDate, { message: 'End date must be on or after the start date', path: ['endDate'] })
+
+export const CashForecastItemUpdateSchema = z
+  .object({
+    name: itemFields.name.optional(),
+    direction: itemFields.direction.optional(),
+    category: itemFields.category,
+    amountCents: itemFields.amountCents.optional(),
+    cadence: RecurringItemCadenceSchema.optional(),
+    startDate: dateInput.optional(),
+    endDate: itemFields.endDate,
+    active: z.boolean().optional(),
+  })
+  .refine((item) => !item.endDate || !item.startDate || item.endDate >= item.startDate, {
+    message: 'End date must be on or after the start date',
+    path: ['endDate'],
+  })
+
+export const CashForecastScenarioSchema = z.object({
+  entityId: z.string().min(1),
+  name: z.string().trim().min(1).max(120),
+  description: z.string().trim().max(2000).nullable().optional(),
+  overrides: z.array(ScenarioOverrideSchema).max(50).default([]),
+})
+
+export const CashForecastScenarioUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  description: z.string().trim().max(2000).nullable().optional(),
+  overrides: z.array(ScenarioOverrideSchema).max(50).optional(),
+})
+
+export type CashForecastItemInput = z.infer<typeof CashForecastItemSchema>
+export type CashForecastItemUpdate = z.infer<typeof CashForecastItemUpdateSchema>
+export type CashForecastScenarioInput = z.infer<typeof CashForecastScenarioSchema>
+export type CashForecastScenarioUpdate = z.infer<typeof CashForecastScenarioUpdateSchema>
+
+async function assertEntity(tenantId: string, entityId: string) {
+  const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId }, select: { id: true } })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+}
+
+/**
+ * Check the clients and vendors a scenario names belong to the tenant
+ */
+async function assertOverrideParties(tenantId: string, overrides: ScenarioOverride[]) {
+  const clientIds = [...new Set(overrides.flatMap((o) => (o.type === 'CLIENT_DELAY' ? [o.clientId] : [])))]
+  const vendorIds = [...new Set(overrides.flatMap((o) => (o.type === 'VENDOR_DELAY' ? [o.vendorId] : [])))]
+  const [clients, vendors] = await Promise.all([
+    clientIds.length ? prisma.user.count({ where: { id: { in: clientIds }, tenantId } }) : 0,
+    vendorIds.length ? prisma.party.count({ where: { id: { in: vendorIds }, tenantId } }) : 0,
+  ])
+  if (clients !== clientIds.length) throw new ApiError('INVALID_SCENARIO', 'A client in the scenario was not found', 400)
+  if (vendors !== vendorIds.length) throw new ApiError('INVALID_SCENARIO', 'A vendor in the scenario was not found', 400)
+}
+
+export async function listForecastItems(tenantId: string, entityId: string) {
+  return prisma.cashForecastItem.findMany({
+    where: { tenantId, entityId },
+    orderBy: [{ active: 'desc' }, { direction: 'asc' }, { name: 'asc' }],
+  })
+}
+
+export async function createForecastItem(tenantId: string, input: CashForecastItemInput, userId?: string | null) {
+  await assertEntity(tenantId, input.entityId)
+  return prisma.cashForecastItem.create({
+    data: {
+      tenantId,
+      entityId: input.entityId,
+      name: input.name,
+      direction: input.direction,
+      category: input.category ?? null,
+      amountCents: input.amountCents,
+      cadence: input.cadence,
+      startDate: input.startDate,
+      endDate: input.endDate ?? null,
+      active: input.active,
+      createdBy: userId ?? null,
+    },
+  })
+}
+
+export async function updateForecastItem(tenantId: string, id: string, input: CashForecastItemUpdate) {
+  const item = await prisma.cashForecastItem.findFirst({ where: { id, tenantId } })
+  if (!item) throw new ApiError('NOT_FOUND', 'Forecast item not found', 404)
+  const startDate = input.startDate ?? item.startDate
+  const endDate = input.endDate === undefined ? item.endDate : input.endDate
+  if (endDate && endDate < startDate) throw new ApiError('INVALID_DATES', 'End date must be on or after the start date', 400)
+
+  return prisma.cashForecastItem.update({
+    where: { id },
+    data: {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.direction !== undefined ? { direction: input.direction } : {}),
+      ...(input.category !== undefined ? { category: input.category } : {}),
+      ...(input.amountCents !== undefined ? { amountCents: input.amountCents } : {}),
+      ...(input.cadence !== undefined ? { cadence: input.cadence } : {}),
+      ...(input.startDate !== undefined ? { startDate: input.startDate } : {}),
+      ...(input.endDate !== undefined ? { endDate: input.endDate } : {}),
+      ...(input.active !== undefined ? { active: input.active } : {}),
+    },
+  })
+}
+
+export async function deleteForecastItem(tenantId: string, id: string) {
+  const { count } = await prisma.cashForecastItem.deleteMany({ where: { id, tenantId } })
+  if (!count) throw new ApiError('NOT_FOUND', 'Forecast item not found', 404)
+}
+
+export async function listForecastScenarios(tenantId: string, entityId: string) {
+  return prisma.cashForecastScenario.findMany({ where: { tenantId, entityId }, orderBy: { name: 'asc' } })
+}
+
+export async function getForecastScenario(tenantId: string, id: string) {
+  const scenario = await prisma.cashForecastScenario.findFirst({ where: { id, tenantId } })
+  if (!scenario) throw new ApiError('NOT_FOUND', 'Scenario not found', 404)
+  return scenario
+}
+
+export async function createForecastScenario(tenantId: string, input: CashForecastScenarioInput, userId?: string | null) {
+  await assertEntity(tenantId, input.entityId)
+  await assertOverrideParties(tenantId, input.overrides)
+  const existing = await prisma.cashForecastScenario.findFirst({ where: { entityId: input.entityId, name: input.name }, select: { id: true } })
+  if (existing) throw new ApiError('DUPLICATE_SCENARIO', 'The entity already has a scenario with this name', 409)
+
+  return prisma.cashForecastScenario.create({
+    data: {
+      tenantId,
+      entityId: input.entityId,
+      name: input.name,
+      description: input.description ?? null,
+      overrides: input.overrides as unknown as object,
+      createdBy: userId ?? null,
+    },
+  })
+}
+
+export async function updateForecastScenario(tenantId: string, id: string, input: CashForecastScenarioUpdate) {
+  const scenario = await getForecastScenario(tenantId, id)
+  if (input.overrides) await assertOverrideParties(tenantId, input.overrides)
+  if (input.name && input.name !== scenario.name) {
+    const existing = await prisma.cashForecastScenario.findFirst({ where: { entityId: scenario.entityId, name: input.name }, select: { id: true } })
+    if (existing) throw new ApiError('DUPLICATE_SCENARIO', 'The entity already has a scenario with this name', 409)
+  }
+
+  return prisma.cashForecastScenario.update({
+    where: { id },
+    data: {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.description !== undefined ? { description: input.description } : {}),
+      ...(input.overrides !== undefined ? { overrides: input.overrides as unknown as object } : {}),
+    },
+  })
+}
+
+export async function deleteForecastScenario(tenantId: string, id: string) {
+  const { count } = await prisma.cashForecastScenario.deleteMany({ where: { id, tenantId } })
+  if (!count) throw new ApiError('NOT_FOUND', 'Scenario not found', 404)
+}
@@ -0,0 +1,834 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { decimalToNumber } from '@/lib/decimal-utils'
+import { buildXlsx, XlsxCell } from '@/lib/exports/xlsx'
+import { getOutstandingCents, OPEN_INVOICE_STATUSES } from '@/lib/invoicing/balances'
+import { calculateInvoiceLine, calculateInvoiceTotals, resolveInvoiceLines } from '@/lib/invoicing/line-tax'
+import { addPeriods, previewPeriods, scheduleLines } from '@/lib/invoicing/recurring'
+import { getBillOpenCents } from '@/lib/payables/bills'
+import { findExchangeRate, getFunctionalCurrency, toFunctionalCents } from './fx'
+
+/**
+ * Cash Forecast
+ *
+ * A rolling thirteen-week view of an entity's cash in its functional
+ * currency. It starts from the latest bank balances and adds what is
+ * expected in and out each week:
+ *
+ * - open invoices, on the date each client usually pays (their average
+ *   days from issue to payment over the last year, or the due date when
+ *   there is too little history)
+ * - invoices recurring schedules will raise, paid the same way
+ * - approved and pending bills, on their payment run date or due date
+ * - approved expense claims, a week after approval
+ * - tax due on compliance filing periods, at the filed (or last) amount
+ * - recurring items kept for the entity, such as payroll and rent
+ *
+ * Anything expected before today lands in the first week. A scenario
+ * changes the base forecast: delaying a client or vendor, scaling a
+ * source, leaving out a document or adding items. Saved snapshots are
+ * compared with the bank movements that actually happened.
+ */
+
+export const FORECAST_WEEKS = 13
+
+export type FlowSource = 'RECEIVABLES' | 'RECURRING_INVOICES' | 'PAYABLES' | 'EXPENSE_CLAIMS' | 'TAX' | 'RECURRING_ITEMS' | 'SCENARIO'
+export type FlowDirection = 'IN' | 'OUT'
+
+export const FLOW_SOURCES: FlowSource[] = ['RECEIVABLES', 'RECURRING_INVOICES', 'PAYABLES', 'EXPENSE_CLAIMS', 'TAX', 'RECURRING_ITEMS', 'SCENARIO']
+
+export const FLOW_SOURCE_LABELS: Record<FlowSource, string> = {
+  RECEIVABLES: 'Open invoices',
+  RECURRING_INVOICES: 'Recurring invoices',
+  PAYABLES: 'Bills',
+  EXPENSE_CLAIMS: 'Expense claims',
+  TAX: 'Tax',
+  RECURRING_ITEMS: 'Recurring items',
+  SCENARIO: 'Scenario items',
+}
+
+/** Paid invoices a client needs before their own payment pattern is used */
+const MIN_PAYMENT_HISTORY = 2
+
+/** Days after approval an expense claim is expected to be reimbursed */
+const CLAIM_REIMBURSEMENT_DAYS = 7
+
+const DEFAULT_TERMS_DAYS = 30
+
+/** Filing periods whose tax is no longer owed */
+const SETTLED_FILING_STATUSES = ['PAID', 'CANCELLED']
+
+const DAY_MS = 86400000
+
+const utcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS)
+const isoDay = (date: Date) => date.toISOString().slice(0, 10)
+
+export interface ForecastFlow {
+  source: FlowSource
+  direction: FlowDirection
+  date: Date
+  amountCents: number // Positive, in the functional currency
+  label: string
+  documentId?: string | null
+  clientId?: string | null
+  vendorId?: string | null
+}
+
+export interface ForecastWeek {
+  week: number // 1-13
+  start: string // First day
+  end: string // Last day
+  openingCents: number
+  inflowCents: number
+  outflowCents: number
+  netCents: number
+  closingCents: number
+  inflows: Partial<Record<FlowSource, number>>
+  outflows: Partial<Record<FlowSource, number>>
+}
+
+const dateInput = z.union([z.string(), z.date()]).pipe(z.coerce.date())
+
+export const RecurringItemCadenceSchema = z.enum(['ONCE', 'WEEKLY', 'MONTHLY', 'QUARTERLY', 'ANNUALLY'])
+
+export const ScenarioOverrideSchema = z.discriminatedUnion('type', [
+  // Receipts from a client arrive this many days later (earlier when negative)
+  z.object({ type: z.literal('CLIENT_DELAY'), clientId: z.string().min(1), days: z.number().int().min(-180).max(365) }),
+  // Payments to a vendor leave this many days later
+  z.object({ type: z.literal('VENDOR_DELAY'), vendorId: z.string().min(1), days: z.number().int().min(-180).max(365) }),
+  // Every flow from a source at a percentage of the base forecast
+  z.object({ type: z.literal('SCALE'), source: z.enum(['RECEIVABLES', 'RECURRING_INVOICES', 'PAYABLES', 'EXPENSE_CLAIMS', 'TAX', 'RECURRING_ITEMS']), percent: z.number().min(0).max(500) }),
+  // Leave a document out, as if it will not be paid in the window
+  z.object({ type: z.literal('EXCLUDE'), documentId: z.string().min(1) }),
+  // An extra one-off or recurring amount
+  z.object({
+    type: z.literal('ITEM'),
+    name: z.string().trim().min(1).max(120),
+    direction: z.enum(['IN', 'OUT']),
+    amountCents: z.number().int().positive(),
+    date: dateInput,
+    cadence: RecurringItemCadenceSchema.default('ONCE'),
+    endDate: dateInput.nullable().optional(),
+  }),
+])
+
+export type ScenarioOverride = z.infer<typeof ScenarioOverrideSchema>
+
+/**
+ * Rounded mean days from issue to payment, or null with too little history
+ */
+export function averageDaysToPay(history: { issueDate: Date; paidAt: Date }[]): number | null {
+  if (history.length < MIN_PAYMENT_HISTORY) return null
+  const total = history.reduce((sum, invoice) => sum + Math.max(0, (invoice.paidAt.getTime() - invoice.issueDate.getTime()) / DAY_MS), 0)
+  return Math.round(total / history.length)
+}
+
+/**
+ * When an invoice is expected to be paid: its client's usual days to pay
+ * after issue, else its due date, else the default terms
+ */
+export function expectedReceiptDate(invoice: { issueDate: Date; dueDate?: Date | null }, daysToPay: number | null): Date {
+  if (daysToPay !== null) return utcDay(addDays(invoice.issueDate, daysToPay))
+  return utcDay(invoice.dueDate ?? addDays(invoice.issueDate, DEFAULT_TERMS_DAYS))
+}
+
+/**
+ * Dates a recurring item falls on between two days, inclusive
+ */
+export function recurringItemDates(item: { cadence: string; startDate: Date; endDate?: Date | null }, from: Date, to: Date): Date[] {
+  const start = utcDay(item.startDate)
+  const last = item.endDate && utcDay(item.endDate) < to ? utcDay(item.endDate) : to
+  if (item.cadence === 'ONCE') return start >= from && start <= last ? [start] : []
+
+  const dates: Date[] = []
+  for (let i = 0, date = start; date <= last && i < 1000; i++, date = addPeriods(start, item.cadence, i)) {
+    if (date >= from) dates.push(date)
+  }
+  return dates
+}
+
+/**
+ * Move flows expected before the first day onto it
+ */
+export function clampFlows(flows: ForecastFlow[], asOf: Date): ForecastFlow[] {
+  const first = utcDay(asOf)
+  return flows.map((flow) => (flow.date < first ? { ...flow, date: first } : flow))
+}
+
+/**
+ * Apply a scenario's overrides to the base flows
+ */
+export function applyScenario(flows: ForecastFlow[], overrides: ScenarioOverride[], window: { from: Date; to: Date }): ForecastFlow[] {
+  const excluded = new Set(overrides.flatMap((o) => (o.type === 'EXCLUDE' ? [o.documentId] : [])))
+  let result = flows.filter((flow) => !flow.documentId || !excluded.has(flow.documentId))
+
+  for (const override of overrides) {
+    if (override.type === 'CLIENT_DELAY') {
+      result = result.map((flow) => (flow.direction === 'IN' && flow.clientId === override.clientId ? { ...flow, date: addDays(flow.date, override.days) } : flow))
+    } else if (override.type === 'VENDOR_DELAY') {
+      result = result.map((flow) => (flow.direction === 'OUT' && flow.vendorId === override.vendorId ? { ...flow, date: addDays(flow.date, override.days) } : flow))
+    } else if (override.type === 'SCALE') {
+      result = result.map((flow) => (flow.source === override.source ? { ...flow, amountCents: Math.round((flow.amountCents * override.percent) / 100) } : flow))
+    }
+  }
+
+  for (const override of overrides) {
+    if (override.type !== 'ITEM') continue
+    for (const date of recurringItemDates({ cadence: override.cadence, startDate: override.date, endDate: override.endDate }, window.from, window.to)) {
+      result.push({ source: 'SCENARIO', direction: override.direction, date, amountCents: override.amountCents, label: override.name })
+    }
+  }
+
+  return clampFlows(result, window.from)
+}
+
+/**
+ * Bucket flows into weeks and run the balance forward from the opening
+ */
+export function buildForecastWeeks(openingCents: number, flows: ForecastFlow[], asOf: Date, weeks: number = FORECAST_WEEKS): ForecastWeek[] {
+  const first = utcDay(asOf)
+  const result: ForecastWeek[] = Array.from({ length: weeks }, (_, i) => ({
+    week: i + 1,
+    start: isoDay(addDays(first, 7 * i)),
+    end: isoDay(addDays(first, 7 * i + 6)),
+    openingCents: 0,
+    inflowCents: 0,
+    outflowCents: 0,
+    netCents: 0,
+    closingCents: 0,
+    inflows: {},
+    outflows: {},
+  }))
+
+  for (const flow of flows) {
+    const index = Math.floor((utcDay(flow.date).getTime() - first.getTime()) / (7 * DAY_MS))
+    const week = result[Math.max(0, index)]
+    if (!week || index >= weeks) continue
+    const bucket = flow.direction === 'IN' ? week.inflows : week.outflows
+    bucket[flow.source] = (bucket[flow.source] ?? 0) + flow.amountCents
+    if (flow.direction === 'IN') week.inflowCents += flow.amountCents
+    else week.outflowCents += flow.amountCents
+  }
+
+  let balance = openingCents
+  for (const week of result) {
+    week.openingCents = balance
+    week.netCents = week.inflowCents - week.outflowCents
+    balance += week.netCents
+    week.closingCents = balance
+  }
+  return result
+}
+
+export type ComparisonStatus = 'COMPLETE' | 'IN_PROGRESS' | 'FUTURE'
+
+export interface ComparedWeek {
+  week: number
+  start: string
+  end: string
+  status: ComparisonStatus
+  forecast: { inflowCents: number; outflowCents: number; netCents: number; closingCents: number }
+  actual: { inflowCents: number; outflowCents: number; netCents: number; closingCents: number } | null
+  varianceCents: number | null // Actual net less forecast net
+}
+
+/**
+ * Line up forecast weeks with what went through the bank. Actual balances
+ * run from the forecast's opening so the two can be compared directly.
+ */
+export function compareForecastToActuals(
+  weeks: ForecastWeek[],
+  movements: { date: Date; direction: FlowDirection; amountCents: number }[],
+  openingCents: number,
+  now: Date = new Date()
+): { weeks: ComparedWeek[]; summary: { completeWeeks: number; forecastNetCents: number; actualNetCents: number; meanAbsoluteErrorCents: number | null } } {
+  const totals = weeks.map(() => ({ inflowCents: 0, outflowCents: 0 }))
+  const first = weeks.length ? new Date(`${weeks[0].start}T00:00:00Z`) : now
+  for (const movement of movements) {
+    const index = Math.floor((utcDay(movement.date).getTime() - first.getTime()) / (7 * DAY_MS))
+    if (index < 0 || index >= weeks.length) continue
+    if (movement.direction === 'IN') totals[index].inflowCents += movement.amountCents
+    else totals[index].outflowCents += movement.amountCents
+  }
+
+  let balance = openingCents
+  let errors = 0
+  const summary = { completeWeeks: 0, forecastNetCents: 0, actualNetCents: 0, meanAbsoluteErrorCents: null as number | null }
+  const compared = weeks.map((week, i): ComparedWeek => {
+    const startsAt = new Date(`${week.start}T00:00:00Z`)
+    const endsAt = addDays(new Date(`${week.end}T00:00:00Z`), 1)
+    const status: ComparisonStatus = now >= endsAt ? 'COMPLETE' : now >= startsAt ? 'IN_PROGRESS' : 'FUTURE'
+    const forecast = { inflowCents: week.inflowCents, outflowCents: week.outflowCents, netCents: week.netCents, closingCents: week.closingCents }
+    if (status === 'FUTURE') return { week: week.week, start: week.start, end: week.end, status, forecast, actual: null, varianceCents: null }
+
+    const netCents = totals[i].inflowCents - totals[i].outflowCents
+    balance += netCents
+    if (status === 'COMPLETE') {
+      summary.completeWeeks += 1
+      summary.forecastNetCents += week.netCents
+      summary.actualNetCents += netCents
+      errors += Math.abs(netCents - week.netCents)
+    }
+    return {
+      week: week.week,
+      start: week.start,
+      end: week.end,
+      status,
+      forecast,
+      actual: { ...totals[i], netCents, closingCents: balance },
+      varianceCents: netCents - week.netCents,
+    }
+  })
+  if (summary.completeWeeks) summary.meanAbsoluteErrorCents = Math.round(errors / summary.completeWeeks)
+  return { weeks: compared, summary }
+}
+
+/**
+ * Converts amounts into the functional currency at today's rate, falling
+ * back to the rate captured on the document
+ */
+function functionalConverter(functionalCurrency: string, asOf: Date) {
+  const rates = new Map<string, number | null>()
+  return async (amountCents: number, currency: string, capturedRate?: unknown): Promise<number | null> => {
+    if (currency === functionalCurrency) return amountCents
+    if (!rates.has(currency)) rates.set(currency, await findExchangeRate(currency, functionalCurrency, asOf))
+    const rate = rates.get(currency) ?? (capturedRate !== null && capturedRate !== undefined ? decimalToNumber(capturedRate as any) : null)
+    return rate ? toFunctionalCents(amountCents, rate) : null
+  }
+}
+
+export interface BankBalance {
+  connectionId: string
+  bankName: string
+  accountNumber: string
+  currency: string | null
+  balanceCents: number
+  asOf: Date | null
+  functionalCents: number | null
+}
+
+const maskAccount = (accountNumber: string) => (accountNumber.length > 4 ? `••••${accountNumber.slice(-4)}` : accountNumber)
+
+/**
+ * Latest balance on each of the entity's bank accounts: the last reported
+ * balance plus anything booked after it, or the sum of all lines when the
+ * bank never reported one
+ */
+async function loadBankBalances(tenantId: string, entityId: string, asOf: Date, convert: ReturnType<typeof functionalConverter>) {
+  const connections = await prisma.bankingConnection.findMany({
+    where: { tenantId, entityId, status: { not: 'INACTIVE' } },
+    select: { id: true, bankName: true, accountNumber: true },
+  })
+
+  const balances: BankBalance[] = []
+  for (const connection of connections) {
+    const anchor = await prisma.bankingTransaction.findFirst({
+      where: { connectionId: connection.id, date: { lte: asOf }, balance: { not: null } },
+      orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+      select: { date: true, balance: true, currency: true, exchangeRate: true },
+    })
+    const later = await prisma.bankingTransaction.findMany({
+      where: { connectionId: connection.id, date: { lte: asOf, ...(anchor ? { gt: anchor.date } : {}) } },
+      select: { amount: true, type: true, currency: true, date: true },
+    })
+
+    let balanceCents = anchor ? Math.round(decimalToNumber(anchor.balance) * 100) : 0
+    for (const line of later) {
+      const cents = Math.round(Math.abs(decimalToNumber(line.amount)) * 100)
+      balanceCents += line.type === 'credit' ? cents : -cents
+    }
+    const currency = anchor?.currency ?? later[0]?.currency ?? null
+    const lastDate = [anchor?.date, ...later.map((line) => line.date)].filter((d): d is Date => Boolean(d)).sort((a, b) => b.getTime() - a.getTime())[0] ?? null
+
+    balances.push({
+      connectionId: connection.id,
+      bankName: connection.bankName,
+      accountNumber: maskAccount(connection.accountNumber),
+      currency,
+      balanceCents,
+      asOf: lastDate,
+      functionalCents: currency ? await convert(balanceCents, currency, anchor?.exchangeRate) : balanceCents,
+    })
+  }
+  return balances
+}
+
+/**
+ * Each client's average days to pay over the last year
+ */
+async function loadDaysToPay(entityId: string, clientIds: string[], asOf: Date): Promise<Map<string, number | null>> {
+  const result = new Map<string, number | null>()
+  if (!clientIds.length) return result
+  const paid = await prisma.invoice.findMany({
+    where: {
+      entityId,
+      clientId: { in: clientIds },
+      documentType: 'INVOICE',
+      paidAt: { not: null, gte: addDays(asOf, -365), lte: asOf },
+    },
+    select: { clientId: true, issueDate: true, paidAt: true },
+  })
+  for (const clientId of clientIds) {
+    const history = paid.filter((invoice) => invoice.clientId === clientId).map((invoice) => ({ issueDate: invoice.issueDate, paidAt: invoice.paidAt as Date }))
+    result.set(clientId, averageDaysToPay(history))
+  }
+  return result
+}
+
+interface LoadedFlows {
+  flows: ForecastFlow[]
+  warnings: string[]
+}
+
+async function loadBaseFlows(tenantId: string, entityId: string, asOf: Date, horizonEnd: Date, convert: ReturnType<typeof functionalConverter>): Promise<LoadedFlows> {
+  const flows: ForecastFlow[] = []
+  const warnings: string[] = []
+  const unconverted: Record<string, number> = {}
+  const push = async (
+    flow: Omit<ForecastFlow, 'amountCents'>,
+    amountCents: number,
+    currency: string,
+    capturedRate: unknown,
+    kind: string
+  ) => {
+    if (amountCents <= 0) return
+    const functional = await convert(amountCents, currency, capturedRate)
+    if (functional === null) {
+      unconverted[kind] = (unconverted[kind] ?? 0) + 1
+      return
+    }
+    flows.push({ ...flow, amountCents: functional })
+  }
+
+  const [invoices, schedules, bills, claims, filingPeriods, items] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { tenantId, entityId, status: { in: OPEN_INVOICE_STATUSES }, documentType: { not: 'CREDIT_NOTE' } },
+      select: {
+        id: true,
+        number: true,
+        clientId: true,
+        currency: true,
+        exchangeRate: true,
+        issueDate: true,
+        dueDate: true,
+        totalCents: true,
+        paidCents: true,
+        creditedCents: true,
+        client: { select: { name: true } },
+      },
+    }),
+    prisma.recurringInvoice.findMany({
+      where: { tenantId, entityId, status: 'ACTIVE', nextRunDate: { not: null, lte: horizonEnd } },
+      include: {
+        client: { select: { name: true } },
+        runs: { where: { status: 'GENERATED', invoiceId: { not: null } }, orderBy: { periodStart: 'desc' }, take: 1, select: { invoice: { select: { totalCents: true } }, prorationFactor: true } },
+      },
+    }),
+    prisma.bill.findMany({
+      where: { tenantId, entityId, status: { in: ['PENDING_APPROVAL', 'APPROVED'] } },
+      select: {
+        id: true,
+        billNumber: true,
+        vendorId: true,
+        currency: true,
+        exchangeRate: true,
+        dueDate: true,
+        totalCents: true,
+        paidCents: true,
+        vendor: { select: { name: true } },
+        paymentRunItems: { where: { run: { status: { not: 'CANCELLED' } } }, select: { run: { select: { paymentDate: true } } } },
+      },
+    }),
+    prisma.expenseClaim.findMany({
+      where: { tenantId, entityId, status: { in: ['PENDING_FINANCE', 'APPROVED'] } },
+      select: { id: true, reference: true, title: true, currency: true, totalCents: true, approvedAt: true, submittedAt: true },
+    }),
+    prisma.filingPeriod.findMany({
+      where: {
+        obligation: { entityId, active: true },
+        dueAt: { gte: addDays(asOf, -30), lte: horizonEnd },
+        status: { notIn: SETTLED_FILING_STATUSES },
+      },
+      select: {
+        id: true,
+        dueAt: true,
+        periodEnd: true,
+        obligation: { select: { type: true } },
+        taxFilings: { orderBy: { createdAt: 'desc' }, take: 1, select: { taxAmount: true } },
+      },
+    }),
+    prisma.cashForecastItem.findMany({ where: { tenantId, entityId, active: true } }),
+  ])
+
+  const clientIds = [...new Set([...invoices.map((i) => i.clientId), ...schedules.map((s) => s.clientId)].filter((id): id is string => Boolean(id)))]
+  const daysToPay = await loadDaysToPay(entityId, clientIds, asOf)
+
+  for (const invoice of invoices) {
+    await push(
+      {
+        source: 'RECEIVABLES',
+        direction: 'IN',
+        date: expectedReceiptDate(invoice, invoice.clientId ? (daysToPay.get(invoice.clientId) ?? null) : null),
+        label: `${invoice.number ?? 'Invoice'}${invoice.client?.name ? ` – ${invoice.client.name}` : ''}`,
+        documentId: invoice.id,
+        clientId: invoice.clientId,
+      },
+      getOutstandingCents(invoice),
+      invoice.currency,
+      invoice.exchangeRate,
+      'invoice'
+    )
+  }
+
+  for (const schedule of schedules) {
+    const periods = previewPeriods(schedule, schedule.nextRunDate as Date, schedule.occurrenceCount, FORECAST_WEEKS + 1).filter((p) => p.start <= horizonEnd)
+    if (!periods.length) continue
+    // The last invoice the schedule raised, or its lines priced today
+    const lastRun = schedule.runs[0]
+    let fullPeriodCents = lastRun?.invoice ? Math.round(lastRun.invoice.totalCents / (lastRun.prorationFactor ? decimalToNumber(lastRun.prorationFactor) : 1)) : null
+    if (fullPeriodCents === null) {
+      const lines = scheduleLines(schedule.lines)
+      const calculated = await resolveInvoiceLines(tenantId, lines, periods[0].start).catch(() => lines.map(calculateInvoiceLine))
+      fullPeriodCents = calculateInvoiceTotals(calculated).totalCents
+    }
+    const days = daysToPay.get(schedule.clientId) ?? null
+    for (const period of periods) {
+      await push(
+        {
+          source: 'RECURRING_INVOICES',
+          direction: 'IN',
+          date: expectedReceiptDate({ issueDate: period.start, dueDate: addDays(period.start, schedule.paymentTermsDays) }, days),
+          label: `${schedule.name} – ${schedule.client.name ?? 'client'} (${isoDay(period.start)})`,
+          documentId: schedule.id,
+          clientId: schedule.clientId,
+        },
+        Math.round(fullPeriodCents * (period.prorationFactor ?? 1)),
+        schedule.currency,
+        null,
+        'recurring invoice'
+      )
+    }
+  }
+
+  for (const bill of bills) {
+    const runDate = bill.paymentRunItems.map((item) => item.run.paymentDate).sort((a, b) => a.getTime() - b.getTime())[0]
+    await push(
+      {
+        source: 'PAYABLES',
+        direction: 'OUT',
+        date: utcDay(runDate ?? bill.dueDate),
+        label: `${bill.vendor.name} ${bill.billNumber}`,
+        documentId: bill.id,
+        vendorId: bill.vendorId,
+      },
+      getBillOpenCents(bill),
+      bill.currency,
+      bill.exchangeRate,
+      'bill'
+    )
+  }
+
+  for (const claim of claims) {
+    const from = claim.approvedAt ?? claim.submittedAt ?? asOf
+    await push(
+      {
+        source: 'EXPENSE_CLAIMS',
+        direction: 'OUT',
+        date: utcDay(addDays(from, CLAIM_REIMBURSEMENT_DAYS)),
+        label: `${claim.reference} ${claim.title}`,
+        documentId: claim.id,
+      },
+      claim.totalCents,
+      claim.currency,
+      null,
+      'expense claim'
+    )
+  }
+
+  // Periods not yet filed are estimated at the entity's last filing of the same tax
+  const lastFilings = new Map<string, number>()
+  for (const type of [...new Set(filingPeriods.filter((p) => !p.taxFilings.length).map((p) => p.obligation.type))]) {
+    const filing = await prisma.taxFiling.findFirst({
+      where: { tenantId, entityId, taxType: type },
+      orderBy: { periodEndDate: 'desc' },
+      select: { taxAmount: true },
+    })
+    if (filing) lastFilings.set(type, Math.round(decimalToNumber(filing.taxAmount) * 100))
+  }
+  let unestimated = 0
+  for (const period of filingPeriods) {
+    const filed = period.taxFilings[0]
+    const amountCents = filed ? Math.round(decimalToNumber(filed.taxAmount) * 100) : lastFilings.get(period.obligation.type)
+    if (amountCents === undefined) {
+      unestimated += 1
+      continue
+    }
+    if (amountCents <= 0) continue
+    flows.push({
+      source: 'TAX',
+      direction: 'OUT',
+      date: utcDay(period.dueAt),
+      amountCents,
+      label: `${period.obligation.type} for the period to ${isoDay(period.periodEnd)}${filed ? '' : ' (estimated)'}`,
+      documentId: period.id,
+    })
+  }
+  if (unestimated) warnings.push(`${unestimated} tax filing period(s) due in the window have no filing to estimate the amount from`)
+
+  for (const item of items) {
+    for (const date of recurringItemDates(item, utcDay(asOf), horizonEnd)) {
+      flows.push({ source: 'RECURRING_ITEMS', direction: item.direction as FlowDirection, date, amountCents: item.amountCents, label: item.name, documentId: item.id })
+    }
+  }
+
+  for (const [kind, count] of Object.entries(unconverted)) {
+    warnings.push(`${count} ${kind}(s) in a currency with no exchange rate are not included`)
+  }
+  return { flows, warnings }
+}
+
+export interface CashForecast {
+  entity: { id: string; name: string }
+  currency: string
+  asOf: string
+  scenario: { id: string; name: string } | null
+  openingCents: number
+  closingCents: number
+  lowest: { week: number; closingCents: number }
+  accounts: BankBalance[]
+  weeks: ForecastWeek[]
+  flows: ForecastFlow[]
+  warnings: string[]
+}
+
+/**
+ * Thirteen-week forecast for an entity, optionally under a scenario
+ */
+export async function getCashForecast(tenantId: string, entityId: string, options: { scenarioId?: string | null; asOf?: Date } = {}): Promise<CashForecast> {
+  const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId }, select: { id: true, name: true } })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+
+  const scenario = options.scenarioId
+    ? await prisma.cashForecastScenario.findFirst({ where: { id: options.scenarioId, tenantId, entityId }, select: { id: true, name: true, overrides: true } })
+    : null
+  if (options.scenarioId && !scenario) throw new ApiError('NOT_FOUND', 'Scenario not found', 404)
+
+  const asOf = utcDay(options.asOf ?? new Date())
+  const horizonEnd = addDays(asOf, FORECAST_WEEKS * 7 - 1)
+  const currency = await getFunctionalCurrency(entityId)
+  const convert = functionalConverter(currency, asOf)
+
+  const accounts = await loadBankBalances(tenantId, entityId, addDays(asOf, 1), convert)
+  const warnings: string[] = []
+  const unconvertedAccounts = accounts.filter((account) => account.functionalCents === null).length
+  if (!accounts.length) warnings.push('No bank accounts are linked to this entity, so the forecast starts from zero')
+  if (unconvertedAccounts) warnings.push(`${unconvertedAccounts} bank account(s) in a currency with no exchange rate are not included in the opening balance`)
+  const openingCents = accounts.reduce((sum, account) => sum + (account.functionalCents ?? 0), 0)
+
+  const base = await loadBaseFlows(tenantId, entityId, asOf, horizonEnd, convert)
+  warnings.push(...base.warnings)
+  const overrides = scenario ? z.array(ScenarioOverrideSchema).catch([]).parse(scenario.overrides) : []
+  const flows = applyScenario(clampFlows(base.flows, asOf), overrides, { from: asOf, to: horizonEnd })
+    .filter((flow) => flow.date <= horizonEnd && flow.amountCents > 0)
+    .sort((a, b) => a.date.getTime() - b.date.getTime() || a.label.localeCompare(b.label))
+
+  const weeks = buildForecastWeeks(openingCents, flows, asOf)
+  const lowest = weeks.reduce((min, week) => (week.closingCents < min.closingCents ? { week: week.week, closingCents: week.closingCents } : min), {
+    week: 0,
+    closingCents: openingCents,
+  })
+
+  return {
+    entity,
+    currency,
+    asOf: isoDay(asOf),
+    scenario: scenario ? { id: scenario.id, name: scenario.name } : null,
+    openingCents,
+    closingCents: weeks[weeks.length - 1].closingCents,
+    lowest,
+    accounts,
+    weeks,
+    flows,
+    warnings,
+  }
+}
+
+/**
+ * Save the current forecast so it can be checked against actuals later
+ */
+export async function saveForecastSnapshot(
+  tenantId: string,
+  entityId: string,
+  options: { scenarioId?: string | null; name?: string | null },
+  userId?: string | null
+) {
+  const forecast = await getCashForecast(tenantId, entityId, { scenarioId: options.scenarioId })
+  return prisma.cashForecastSnapshot.create({
+    data: {
+      tenantId,
+      entityId,
+      scenarioId: forecast.scenario?.id ?? null,
+      name: options.name ?? null,
+      asOf: new Date(`${forecast.asOf}T00:00:00Z`),
+      currency: forecast.currency,
+      openingCents: forecast.openingCents,
+      weeks: forecast.weeks as unknown as object,
+      createdBy: userId ?? null,
+    },
+  })
+}
+
+export async function listForecastSnapshots(tenantId: string, entityId: string) {
+  return prisma.cashForecastSnapshot.findMany({
+    where: { tenantId, entityId },
+    select: { id: true, name: true, asOf: true, currency: true, openingCents: true, scenario: { select: { id: true, name: true } }, createdAt: true },
+    orderBy: { asOf: 'desc' },
+    take: 100,
+  })
+}
+
+export interface ForecastComparison {
+  snapshot: { id: string; name: string | null; asOf: string; currency: string; scenario: { id: string; name: string } | null; createdAt: Date }
+  openingCents: number
+  weeks: ComparedWeek[]
+  summary: ReturnType<typeof compareForecastToActuals>['summary']
+  warnings: string[]
+}
+
+/**
+ * A saved forecast next to the bank movements of the weeks it covered
+ */
+export async function compareForecastSnapshot(tenantId: string, snapshotId: string, now: Date = new Date()): Promise<ForecastComparison> {
+  const snapshot = await prisma.cashForecastSnapshot.findFirst({
+    where: { id: snapshotId, tenantId },
+    include: { scenario: { select: { id: true, name: true } } },
+  })
+  if (!snapshot) throw new ApiError('NOT_FOUND', 'Forecast snapshot not found', 404)
+
+  const weeks = snapshot.weeks as unknown as ForecastWeek[]
+  const end = weeks.length ? addDays(new Date(`${weeks[weeks.length - 1].end}T00:00:00Z`), 1) : snapshot.asOf
+  const transactions = await prisma.bankingTransaction.findMany({
+    where: { tenantId, connection: { entityId: snapshot.entityId }, date: { gte: snapshot.asOf, lt: end < now ? end : now } },
+    select: { date: true, type: true, amount: true, currency: true, exchangeRate: true, functionalAmountCents: true },
+  })
+
+  const convert = functionalConverter(snapshot.currency, now)
+  const movements: { date: Date; direction: FlowDirection; amountCents: number }[] = []
+  let unconverted = 0
+  for (const line of transactions) {
+    const cents =
+      line.functionalAmountCents ?? (await convert(Math.round(Math.abs(decimalToNumber(line.amount)) * 100), line.currency, line.exchangeRate))
+    if (cents === null) {
+      unconverted += 1
+      continue
+    }
+    movements.push({ date: line.date, direction: line.type === 'credit' ? 'IN' : 'OUT', amountCents: Math.abs(cents) })
+  }
+
+  const comparison = compareForecastToActuals(weeks, movements, snapshot.openingCents, now)
+  return {
+    snapshot: {
+      id: snapshot.id,
+      name: snapshot.name,
+      asOf: isoDay(snapshot.asOf),
+      currency: snapshot.currency,
+      scenario: snapshot.scenario,
+      createdAt: snapshot.createdAt,
+    },
+    openingCents: snapshot.openingCents,
+    weeks: comparison.weeks,
+    summary: comparison.summary,
+    warnings: unconverted ? [`${unconverted} bank line(s) in a currency with no exchange rate are not included`] : [],
+  }
+}
+
+const amount = (cents: number, bold = false): XlsxCell => ({ value: cents / 100, style: bold ? 'boldAmount' : 'amount' })
+const heading = (labels: string[]): XlsxCell[] => labels.map((value) => ({ value, style: 'bold' as const }))
+
+/**
+ * Workbook with the weekly forecast by source and the flows behind it
+ */
+export async function renderCashForecastXlsx(forecast: CashForecast): Promise<Buffer> {
+  const weeks = forecast.weeks
+  const rows: XlsxCell[][] = [
+    [{ value: `13-week cash forecast – ${forecast.entity.name}`, style: 'title' }],
+    [`Amounts in ${forecast.currency}, from ${forecast.asOf}${forecast.scenario ? `, scenario: ${forecast.scenario.name}` : ''}`],
+    [],
+    heading(['', ...weeks.map((week) => `W${week.week} ${week.start}`)]),
+    [{ value: 'Opening balance', style: 'bold' }, ...weeks.map((week) => amount(week.openingCents, true))],
+  ]
+  const sourceRows = (direction: 'inflows' | 'outflows') =>
+    FLOW_SOURCES.filter((source) => weeks.some((week) => week[direction][source])).map((source): XlsxCell[] => [
+      { value: FLOW_SOURCE_LABELS[source], indent: 1 },
+      ...weeks.map((week) => amount(week[direction][source] ?? 0)),
+    ])
+  rows.push([{ value: 'Cash in', style: 'bold' }], ...sourceRows('inflows'))
+  rows.push([{ value: 'Total cash in', style: 'bold' }, ...weeks.map((week) => amount(week.inflowCents, true))])
+  rows.push([{ value: 'Cash out', style: 'bold' }], ...sourceRows('outflows'))
+  rows.push([{ value: 'Total cash out', style: 'bold' }, ...weeks.map((week) => amount(week.outflowCents, true))])
+  rows.push([{ value: 'Net cash flow', style: 'bold' }, ...weeks.map((week) => amount(week.netCents, true))])
+  rows.push([{ value: 'Closing balance', style: 'bold' }, ...weeks.map((week) => amount(week.closingCents, true))])
+  if (forecast.warnings.length) rows.push([], ...forecast.warnings.map((warning) => [warning]))
+
+  const detail: XlsxCell[][] = [heading(['Date', 'Source', 'Description', 'In', 'Out'])]
+  for (const flow of forecast.flows) {
+    detail.push([
+      isoDay(flow.date),
+      FLOW_SOURCE_LABELS[flow.source],
+      flow.label,
+      flow.direction === 'IN' ? amount(flow.amountCents) : null,
+      flow.direction === 'OUT' ? amount(flow.amountCents) : null,
+    ])
+  }
+
+  const banks: XlsxCell[][] = [heading(['Bank', 'Account', 'Currency', 'Balance', `Balance (${forecast.currency})`, 'As of'])]
+  for (const account of forecast.accounts) {
+    banks.push([
+      account.bankName,
+      account.accountNumber,
+      account.currency,
+      amount(account.balanceCents),
+      account.functionalCents === null ? null : amount(account.functionalCents),
+      account.asOf ? isoDay(account.asOf) : null,
+    ])
+  }
+
+  return buildXlsx([
+    { name: 'Forecast', rows, columnWidths: [28, ...weeks.map(() => 16)] },
+    { name: 'Detail', rows: detail, columnWidths: [12, 20, 50, 16, 16] },
+    { name: 'Bank balances', rows: banks, columnWidths: [24, 16, 10, 16, 18, 12] },
+  ])
+}
+
+/**
+ * Workbook comparing a saved forecast with actual bank movements
+ */
+export async function renderForecastComparisonXlsx(comparison: ForecastComparison): Promise<Buffer> {
+  const rows: XlsxCell[][] = [
+    [{ value: `Forecast vs actual – ${comparison.snapshot.name ?? `forecast of ${comparison.snapshot.asOf}`}`, style: 'title' }],
+    [`Amounts in ${comparison.snapshot.currency}${comparison.snapshot.scenario ? `, scenario: ${comparison.snapshot.scenario.name}` : ''}`],
+    [],
+    heading(['Week', 'Start', 'Status', 'Forecast in', 'Actual in', 'Forecast out', 'Actual out', 'Forecast net', 'Actual net', 'Variance', 'Forecast closing', 'Actual closing']),
+  ]
+  for (const week of comparison.weeks) {
+    rows.push([
+      week.week,
+      week.start,
+      week.status,
+      amount(week.forecast.inflowCents),
+      week.actual ? amount(week.actual.inflowCents) : null,
+      amount(week.forecast.outflowCents),
+      week.actual ? amount(week.actual.outflowCents) : null,
+      amount(week.forecast.netCents),
+      week.actual ? amount(week.actual.netCents) : null,
+      week.varianceCents === null ? null : amount(week.varianceCents),
+      amount(week.forecast.closingCents),
+      week.actual ? amount(week.actual.closingCents) : null,
+    ])
+  }
+  if (comparison.warnings.length) rows.push([], ...comparison.warnings.map((warning) => [warning]))
+
+  return buildXlsx([{ name: 'Forecast vs actual', rows, columnWidths: [8, 12, 14, ...Array.from({ length: 9 }, () => 16)] }])
+}
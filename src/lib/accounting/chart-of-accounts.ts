@@ -0,0 +1,266 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { getCountry, CountryCode, CountryConfig } from '@/lib/registries/countries'
+
+/**
+ * Chart of Accounts
+ *
+ * Country-aware default chart for UAE, KSA and Egypt entities.
+ * Tax accounts are derived from the country registry so that an entity
+ * only receives the liabilities it can actually incur (VAT everywhere,
+ * Corporate Tax in the UAE, Zakat and WHT in KSA).
+ */
+
+export type LedgerAccountType = 'ASSET' | 'LIABILITY' | 'EQUITY' | 'REVENUE' | 'EXPENSE'
+
+/**
+ * System keys are stable handles the posting service uses to find accounts
+ * regardless of the codes a tenant later renumbers them to.
+ */
+export type SystemAccountKey =
+  | 'CASH'
+  | 'BANK'
+  | 'PAYMENT_CLEARING'
+  | 'AR'
+  | 'VAT_INPUT'
+  | 'PREPAYMENTS'
+  | 'FIXED_ASSETS'
+  | 'ACCUMULATED_DEPRECIATION'
+  | 'AP'
+  | 'EMPLOYEE_PAYABLE'
+  | 'ACCRUED_LIABILITIES'
+  | 'VAT_OUTPUT'
+  | 'CORPORATE_TAX_PAYABLE'
+  | 'ZAKAT_PAYABLE'
+  | 'WHT_PAYABLE'
+  | 'SHARE_CAPITAL'
+  | 'RETAINED_EARNINGS'
+  | 'REVALUATION_RESERVE'
+  | 'SALES'
+  | 'OTHER_INCOME'
+  | 'FX_REALIZED'
+  | 'FX_UNREALIZED'
+  | 'ASSET_DISPOSAL'
+  | 'GENERAL_EXPENSE'
+  | 'SALARIES'
+  | 'RENT'
+  | 'UTILITIES'
+  | 'TRAVEL'
+  | 'OFFICE_SUPPLIES'
+  | 'PROFESSIONAL_FEES'
+  | 'SOFTWARE'
+  | 'BANK_CHARGES'
+  | 'DEPRECIATION'
+  | 'CORPORATE_TAX_EXPENSE'
+  | 'ZAKAT_EXPENSE'
+  | 'SUSPENSE'
+
+export interface AccountTemplate {
+  code: string
+  name: string
+  nameAr: string
+  type: LedgerAccountType
+  systemKey?: SystemAccountKey
+  parentCode?: string
+}
+
+/**
+ * Normal balance side per account type: assets and expenses increase with
+ * debits, everything else with credits.
+ */
+export const NORMAL_BALANCE: Record<LedgerAccountType, 'DEBIT' | 'CREDIT'> = {
+  ASSET: 'DEBIT',
+  EXPENSE: 'DEBIT',
+  LIABILITY: 'CREDIT',
+  EQUITY: 'CREDIT',
+  REVENUE: 'CREDIT',
+}
+
+/**
+ * Expense categories (as stored on Expense.category) mapped to the
+ * account the posting service debits.
+ */
+export const EXPENSE_CATEGORY_ACCOUNTS: Record<string, SystemAccountKey> = {
+  general: 'GENERAL_EXPENSE',
+  salaries: 'SALARIES',
+  payroll: 'SALARIES',
+  rent: 'RENT',
+  utilities: 'UTILITIES',
+  travel: 'TRAVEL',
+  meals: 'TRAVEL',
+  office: 'OFFICE_SUPPLIES',
+  supplies: 'OFFICE_SUPPLIES',
+  professional: 'PROFESSIONAL_FEES',
+  legal: 'PROFESSIONAL_FEES',
+  software: 'SOFTWARE',
+  subscriptions: 'SOFTWARE',
+  bank: 'BANK_CHARGES',
+  fees: 'BANK_CHARGES',
+}
+
+const BASE_ACCOUNTS: AccountTemplate[] = [
+  // Assets
+  { code: '1000', name: 'Current Assets', nameAr: 'الأصول المتداولة', type: 'ASSET' },
+  { code: '1010', name: 'Cash on Hand', nameAr: 'النقدية بالصندوق', type: 'ASSET', systemKey: 'CASH', parentCode: '1000' },
+  { code: '1020', name: 'Bank Accounts', nameAr: 'الحسابات البنكية', type: 'ASSET', systemKey: 'BANK', parentCode: '1000' },
+  { code: '1030', name: 'Payments in Transit', nameAr: 'مدفوعات قيد التحصيل', type: 'ASSET', systemKey: 'PAYMENT_CLEARING', parentCode: '1000' },
+  { code: '1100', name: 'Accounts Receivable', nameAr: 'الذمم المدينة', type: 'ASSET', systemKey: 'AR', parentCode: '1000' },
+  { code: '1400', name: 'Prepayments', nameAr: 'المصروفات المدفوعة مقدماً', type: 'ASSET', systemKey: 'PREPAYMENTS', parentCode: '1000' },
+  { code: '1500', name: 'Non-current Assets', nameAr: 'الأصول غير المتداولة', type: 'ASSET' },
+  { code: '1510', name: 'Property, Plant and Equipment', nameAr: 'الممتلكات والمعدات', type: 'ASSET', systemKey: 'FIXED_ASSETS', parentCode: '1500' },
+  { code: '1590', name: 'Accumulated Depreciation', nameAr: 'مجمع الإهلاك', type: 'ASSET', systemKey: 'ACCUMULATED_DEPRECIATION', parentCode: '1500' },
+  { code: '1900', name: 'Suspense', nameAr: 'حساب معلق', type: 'ASSET', systemKey: 'SUSPENSE', parentCode: '1000' },
+
+  // Liabilities
+  { code: '2000', name: 'Current Liabilities', nameAr: 'الخصوم المتداولة', type: 'LIABILITY' },
+  { code: '2010', name: 'Accounts Payable', nameAr: 'الذمم الدائنة', type: 'LIABILITY', systemKey: 'AP', parentCode: '2000' },
+  { code: '2050', name: 'Employee Reimbursements Payable', nameAr: 'مستحقات الموظفين عن المصروفات', type: 'LIABILITY', systemKey: 'EMPLOYEE_PAYABLE', parentCode: '2000' },
+  { code: '2100', name: 'Accrued Liabilities', nameAr: 'المستحقات', type: 'LIABILITY', systemKey: 'ACCRUED_LIABILITIES', parentCode: '2000' },
+
+  // Equity
+  { code: '3000', name: 'Equity', nameAr: 'حقوق الملكية', type: 'EQUITY' },
+  { code: '3010', name: 'Share Capital', nameAr: 'رأس المال', type: 'EQUITY', systemKey: 'SHARE_CAPITAL', parentCode: '3000' },
+  { code: '3200', name: 'Retained Earnings', nameAr: 'الأرباح المحتجزة', type: 'EQUITY', systemKey: 'RETAINED_EARNINGS', parentCode: '3000' },
+  { code: '3300', name: 'Revaluation Reserve', nameAr: 'احتياطي إعادة التقييم', type: 'EQUITY', systemKey: 'REVALUATION_RESERVE', parentCode: '3000' },
+
+  // Revenue
+  { code: '4000', name: 'Revenue', nameAr: 'الإيرادات', type: 'REVENUE' },
+  { code: '4010', name: 'Sales of Services', nameAr: 'إيرادات الخدمات', type: 'REVENUE', systemKey: 'SALES', parentCode: '4000' },
+  { code: '4900', name: 'Other Income', nameAr: 'إيرادات أخرى', type: 'REVENUE', systemKey: 'OTHER_INCOME', parentCode: '4000' },
+  { code: '4910', name: 'Realized FX Gains and Losses', nameAr: 'فروق العملة المحققة', type: 'REVENUE', systemKey: 'FX_REALIZED', parentCode: '4000' },
+  { code: '4920', name: 'Unrealized FX Gains and Losses', nameAr: 'فروق العملة غير المحققة', type: 'REVENUE', systemKey: 'FX_UNREALIZED', parentCode: '4000' },
+  { code: '4930', name: 'Gains and Losses on Asset Disposal', nameAr: 'أرباح وخسائر استبعاد الأصول', type: 'REVENUE', systemKey: 'ASSET_DISPOSAL', parentCode: '4000' },
+
+  // Expenses
+  { code: '6000', name: 'Operating Expenses', nameAr: 'المصروفات التشغيلية', type: 'EXPENSE' },
+  { code: '6010', name: 'Salaries and Wages', nameAr: 'الرواتب والأجور', type: 'EXPENSE', systemKey: 'SALARIES', parentCode: '6000' },
+  { code: '6100', name: 'Rent', nameAr: 'الإيجار', type: 'EXPENSE', systemKey: 'RENT', parentCode: '6000' },
+  { code: '6200', name: 'Utilities', nameAr: 'المرافق', type: 'EXPENSE', systemKey: 'UTILITIES', parentCode: '6000' },
+  { code: '6300', name: 'Travel and Entertainment', nameAr: 'السفر والضيافة', type: 'EXPENSE', systemKey: 'TRAVEL', parentCode: '6000' },
+  { code: '6400', name: 'Office Supplies', nameAr: 'اللوازم المكتبية', type: 'EXPENSE', systemKey: 'OFFICE_SUPPLIES', parentCode: '6000' },
+  { code: '6500', name: 'Professional Fees', nameAr: 'الأتعاب المهنية', type: 'EXPENSE', systemKey: 'PROFESSIONAL_FEES', parentCode: '6000' },
+  { code: '6600', name: 'Software and Subscriptions', nameAr: 'البرمجيات والاشتراكات', type: 'EXPENSE', systemKey: 'SOFTWARE', parentCode: '6000' },
+  { code: '6700', name: 'Bank Charges', nameAr: 'الرسوم البنكية', type: 'EXPENSE', systemKey: 'BANK_CHARGES', parentCode: '6000' },
+  { code: '6750', name: 'Depreciation', nameAr: 'الإهلاك', type: 'EXPENSE', systemKey: 'DEPRECIATION', parentCode: '6000' },
+  { code: '6990', name: 'General Expenses', nameAr: 'مصروفات عامة', type: 'EXPENSE', systemKey: 'GENERAL_EXPENSE', parentCode: '6000' },
+]
+
+/**
+ * Build tax accounts from the registry entry for the entity's country
+ */
+function buildTaxAccounts(country: CountryConfig): AccountTemplate[] {
+  const vatPercent = Math.round(country.taxRate * 100)
+  const accounts: AccountTemplate[] = [
+    {
+      code: '1300',
+      name: `VAT Recoverable (Input ${vatPercent}%)`,
+      nameAr: 'ضريبة القيمة المضافة المستردة (المدخلات)',
+      type: 'ASSET',
+      systemKey: 'VAT_INPUT',
+      parentCode: '1000',
+    },
+    {
+      code: '2200',
+      name: `VAT Payable (Output ${vatPercent}%)`,
+      nameAr: 'ضريبة القيمة المضافة المستحقة (المخرجات)',
+      type: 'LIABILITY',
+      systemKey: 'VAT_OUTPUT',
+      parentCode: '2000',
+    },
+  ]
+
+  if (country.corporateTaxRate) {
+    accounts.push(
+      { code: '2300', name: 'Corporate Tax Payable', nameAr: 'ضريبة الشركات المستحقة', type: 'LIABILITY', systemKey: 'CORPORATE_TAX_PAYABLE', parentCode: '2000' },
+      { code: '6800', name: 'Corporate Tax Expense', nameAr: 'مصروف ضريبة الشركات', type: 'EXPENSE', systemKey: 'CORPORATE_TAX_EXPENSE', parentCode: '6000' }
+    )
+  }
+
+  if (country.zakatRate) {
+    accounts.push(
+      { code: '2310', name: 'Zakat Payable', nameAr: 'الزكاة المستحقة', type: 'LIABILITY', systemKey: 'ZAKAT_PAYABLE', parentCode: '2000' },
+      { code: '6810', name: 'Zakat Expense', nameAr: 'مصروف الزكاة', type: 'EXPENSE', systemKey: 'ZAKAT_EXPENSE', parentCode: '6000' }
+    )
+  }
+
+  if (country.withholdingTaxRate) {
+    accounts.push({
+      code: '2320',
+      name: 'Withholding Tax Payable',
+      nameAr: 'ضريبة الاستقطاع المستحقة',
+      type: 'LIABILITY',
+      systemKey: 'WHT_PAYABLE',
+      parentCode: '2000',
+    })
+  }
+
+  return accounts
+}
+
+/**
+ * Get the default chart of accounts template for a country
+ */
+export function getDefaultChartOfAccounts(countryCode: string): AccountTemplate[] {
+  const country = getCountry(countryCode as CountryCode)
+  const accounts = country ? [...BASE_ACCOUNTS, ...buildTaxAccounts(country)] : [...BASE_ACCOUNTS]
+  return accounts.sort((a, b) => a.code.localeCompare(b.code))
+}
+
+/**
+ * Resolve the account an expense category should be booked against
+ */
+export function getExpenseAccountKey(category?: string | null): SystemAccountKey {
+  if (!category) return 'GENERAL_EXPENSE'
+  return EXPENSE_CATEGORY_ACCOUNTS[category.trim().toLowerCase()] || 'GENERAL_EXPENSE'
+}
+
+/**
+ * Seed the default chart of accounts for an entity.
+ * Idempotent: accounts whose code already exists are left untouched.
+ */
+export async function seedChartOfAccounts(entityId: string): Promise<{ created: number; skipped: number }> {
+  const entity = await prisma.entity.findUnique({
+    where: { id: entityId },
+    select: { id: true, tenantId: true, country: true },
+  })
+
+  if (!entity) {
+    throw new Error(`Entity ${entityId} not found`)
+  }
+
+  const currency = getCountry(entity.country as CountryCode)?.currency
+  const templates = getDefaultChartOfAccounts(entity.country)
+  const existing = await prisma.ledgerAccount.findMany({
+    where: { entityId },
+    select: { id: true, code: true },
+  })
+
+  const idsByCode = new Map(existing.map((a) => [a.code, a.id]))
+  let created = 0
+
+  // Templates are sorted by code, so parents are always created before children
+  for (const template of templates) {
+    if (idsByCode.has(template.code)) continue
+
+    const account = await prisma.ledgerAccount.create({
+      data: {
+        tenantId: entity.tenantId,
+        entityId,
+        code: template.code,
+        name: template.name,
+        nameAr: template.nameAr,
+        type: template.type,
+        systemKey: template.systemKey ?? null,
+        parentId: template.parentCode ? idsByCode.get(template.parentCode) ?? null : null,
+        currency: currency ?? null,
+      },
+    })
+
+    idsByCode.set(template.code, account.id)
+    created++
+  }
+
+  logger.info('Chart of accounts seeded', { entityId, country: entity.country, created })
+
+  return { created, skipped: templates.length - created }
+}
@@ -0,0 +1,262 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { createJournalEntry } from './journal'
+import { getSystemAccounts } from './posting'
+import { previousMonthEnd } from './revaluation'
+
+/**
+ * Depreciation
+ *
+ * Schedules charge whole months: the month an asset goes into service is
+ * the first charged, the month it is disposed of is not. Straight-line
+ * spreads cost less residual value evenly over the useful life. Declining
+ * balance applies an annual rate to the book value, switching to straight
+ * line once that charges more, so the asset still reaches its residual
+ * value at the end of its life. A revaluation restarts the schedule from
+ * the fair value over the remaining life.
+ *
+ * The monthly run posts, per entity, one entry debiting Depreciation and
+ * crediting Accumulated Depreciation for every month due up to the period
+ * it runs for, catching up months an asset missed.
+ */
+
+export type DepreciationMethod = 'STRAIGHT_LINE' | 'DECLINING_BALANCE'
+
+export const DEPRECIATION_METHODS: DepreciationMethod[] = ['STRAIGHT_LINE', 'DECLINING_BALANCE']
+
+export interface DepreciationBasis {
+  method: DepreciationMethod
+  amountCents: number // Cost, or fair value after a revaluation
+  residualCents: number
+  lifeMonths: number
+  decliningRate?: number | null // Annual percent
+  startPeriod: string // YYYY-MM of the first charge
+}
+
+export interface DepreciationRow {
+  period: string
+  depreciationCents: number
+  accumulatedCents: number
+  bookValueCents: number
+}
+
+export interface DepreciableAsset {
+  method: string
+  costCents: number
+  residualCents: number
+  usefulLifeMonths: number
+  decliningRate?: unknown
+  inServiceDate: Date
+  revaluedAmountCents?: number | null
+  revaluedAt?: Date | null
+}
+
+/**
+ * Calendar month of a date, as YYYY-MM in UTC
+ */
+export function periodOf(date: Date): string {
+  return date.toISOString().slice(0, 7)
+}
+
+export function addMonths(period: string, months: number): string {
+  const [year, month] = period.split('-').map(Number)
+  return periodOf(new Date(Date.UTC(year, month - 1 + months, 1)))
+}
+
+export function monthsBetween(from: string, to: string): number {
+  const [fromYear, fromMonth] = from.split('-').map(Number)
+  const [toYear, toMonth] = to.split('-').map(Number)
+  return (toYear - fromYear) * 12 + (toMonth - fromMonth)
+}
+
+/**
+ * Last day of a period, the date depreciation for it is booked on
+ */
+export function periodEnd(period: string): Date {
+  const [year, month] = period.split('-').map(Number)
+  return new Date(Date.UTC(year, month, 0))
+}
+
+/**
+ * Double the straight-line rate, the usual declining-balance default
+ */
+export function defaultDecliningRate(lifeMonths: number): number {
+  return Math.round((2400 / lifeMonths) * 100) / 100
+}
+
+export function buildDepreciationSchedule(basis: DepreciationBasis): DepreciationRow[] {
+  const lifeMonths = Math.max(1, Math.round(basis.lifeMonths))
+  const residualCents = Math.min(Math.max(0, basis.residualCents), basis.amountCents)
+  const depreciableCents = Math.max(0, basis.amountCents - residualCents)
+  const monthlyRate = (basis.decliningRate ?? defaultDecliningRate(lifeMonths)) / 1200
+  const rows: DepreciationRow[] = []
+  let accumulatedCents = 0
+
+  for (let month = 1; month <= lifeMonths; month++) {
+    let chargeCents: number
+    if (basis.method === 'DECLINING_BALANCE') {
+      const bookValueCents = basis.amountCents - accumulatedCents
+      const remainingCents = bookValueCents - residualCents
+      const declining = Math.round(bookValueCents * monthlyRate)
+      const straight = Math.round(remainingCents / (lifeMonths - month + 1))
+      chargeCents = month === lifeMonths ? remainingCents : Math.min(remainingCents, Math.max(declining, straight))
+    } else {
+      // Rounded cumulatively so the pennies never drift from the total
+      chargeCents = Math.round((depreciableCents * month) / lifeMonths) - accumulatedCents
+    }
+
+    accumulatedCents += chargeCents
+    rows.push({
+      period: addMonths(basis.startPeriod, month - 1),
+      depreciationCents: chargeCents,
+      accumulatedCents,
+      bookValueCents: basis.amountCents - accumulatedCents,
+    })
+  }
+
+  return rows
+}
+
+/**
+ * The basis an asset currently depreciates from: its cost over its useful
+ * life, or its last fair value over what remained of the life at the time
+ */
+export function assetBasis(asset: DepreciableAsset): DepreciationBasis {
+  const startPeriod = periodOf(asset.inServiceDate)
+  const decliningRate = asset.decliningRate != null ? Number(asset.decliningRate) : defaultDecliningRate(asset.usefulLifeMonths)
+  const base = {
+    method: asset.method as DepreciationMethod,
+    residualCents: asset.residualCents,
+    decliningRate,
+  }
+
+  if (asset.revaluedAt && asset.revaluedAmountCents != null) {
+    const revaluedIn = periodOf(asset.revaluedAt)
+    const elapsed = Math.max(0, monthsBetween(startPeriod, revaluedIn) + 1)
+    return {
+      ...base,
+      amountCents: asset.revaluedAmountCents,
+      lifeMonths: Math.max(1, asset.usefulLifeMonths - elapsed),
+      startPeriod: addMonths(revaluedIn, 1),
+    }
+  }
+
+  return { ...base, amountCents: asset.costCents, lifeMonths: asset.usefulLifeMonths, startPeriod }
+}
+
+/**
+ * Months of a schedule not yet charged, up to and including `through`
+ */
+export function dueCharges(schedule: DepreciationRow[], depreciatedThrough: string | null | undefined, through: string): DepreciationRow[] {
+  return schedule.filter((row) => (!depreciatedThrough || row.period > depreciatedThrough) && row.period <= through)
+}
+
+/**
+ * Post the depreciation due on an entity's active assets up to `through`.
+ * Months before it that were missed are charged in the same entry. A second
+ * run for a period posts only what the first did not, as a separate entry.
+ */
+export async function runDepreciation(
+  entityId: string,
+  through: string,
+  options: { date?: Date; assetIds?: string[]; userId?: string | null } = {}
+) {
+  const entity = await prisma.entity.findUnique({ where: { id: entityId }, select: { id: true, tenantId: true } })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+
+  const assets = await prisma.fixedAsset.findMany({
+    where: {
+      entityId,
+      status: 'ACTIVE',
+      inServiceDate: { lte: periodEnd(through) },
+      ...(options.assetIds ? { id: { in: options.assetIds } } : {}),
+    },
+    orderBy: { assetNumber: 'asc' },
+  })
+
+  const charges = assets
+    .map((asset) => {
+      const schedule = buildDepreciationSchedule(assetBasis(asset))
+      const due = dueCharges(schedule, asset.depreciatedThrough, through)
+      const last = due[due.length - 1]
+      return {
+        asset,
+        due,
+        amountCents: due.reduce((sum, row) => sum + row.depreciationCents, 0),
+        fullyDepreciated: Boolean(last) && last.period === schedule[schedule.length - 1].period,
+      }
+    })
+    .filter((charge) => charge.due.length > 0)
+
+  if (charges.length === 0) return { entry: null, through, assets: 0, amountCents: 0 }
+
+  const totalCents = charges.reduce((sum, charge) => sum + charge.amountCents, 0)
+  let entry: Awaited<ReturnType<typeof createJournalEntry>> | null = null
+  if (totalCents > 0) {
+    const accounts = await getSystemAccounts(entityId, ['DEPRECIATION', 'ACCUMULATED_DEPRECIATION'])
+    const earlier = await prisma.journalEntry.count({ where: { entityId, sourceType: 'depreciation', sourceId: { startsWith: through } } })
+    const posted = charges.filter((charge) => charge.amountCents > 0)
+
+    entry = await createJournalEntry({
+      tenantId: entity.tenantId,
+      entityId,
+      date: options.date ?? periodEnd(through),
+      description: `Depreciation through ${through}`,
+      currency: assets[0].currency,
+      sourceType: 'depreciation',
+      sourceId: earlier ? `${through}#${earlier + 1}` : through,
+      createdBy: options.userId,
+      metadata: {
+        assets: posted.map((charge) => ({ assetId: charge.asset.id, assetNumber: charge.asset.assetNumber, periods: charge.due.map((row) => row.period), amountCents: charge.amountCents })),
+      },
+      lines: posted.flatMap((charge) => [
+        { accountId: accounts.DEPRECIATION, debitCents: charge.amountCents, description: `${charge.asset.assetNumber} ${charge.asset.name}` },
+        { accountId: accounts.ACCUMULATED_DEPRECIATION, creditCents: charge.amountCents, description: `${charge.asset.assetNumber} ${charge.asset.name}` },
+      ]),
+    })
+  }
+
+  await prisma.$transaction([
+    prisma.fixedAssetDepreciation.createMany({
+      data: charges.flatMap((charge) =>
+        charge.due.map((row) => ({ assetId: charge.asset.id, period: row.period, amountCents: row.depreciationCents, journalEntryId: entry?.id ?? null }))
+      ),
+      skipDuplicates: true,
+    }),
+    ...charges.map((charge) =>
+      prisma.fixedAsset.update({
+        where: { id: charge.asset.id },
+        data: {
+          accumulatedDepreciationCents: { increment: charge.amountCents },
+          depreciatedThrough: charge.due[charge.due.length - 1].period,
+          ...(charge.fullyDepreciated ? { status: 'FULLY_DEPRECIATED' } : {}),
+        },
+      })
+    ),
+  ])
+
+  return { entry, through, assets: charges.length, amountCents: totalCents }
+}
+
+/**
+ * Cron: charge every entity's assets for the previous month
+ */
+export async function runMonthlyDepreciation(now: Date = new Date()) {
+  const through = periodOf(previousMonthEnd(now))
+  const entities = await prisma.fixedAsset.findMany({ where: { status: 'ACTIVE' }, distinct: ['entityId'], select: { entityId: true } })
+  const results = { through, entities: entities.length, posted: 0, amountCents: 0, failed: 0 }
+
+  for (const { entityId } of entities) {
+    try {
+      const outcome = await runDepreciation(entityId, through)
+      if (outcome.entry) results.posted++
+      results.amountCents += outcome.amountCents
+    } catch (error) {
+      results.failed++
+      logger.error('Depreciation run failed', { entityId, through, error: String(error) })
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,731 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { FixedAssetTaxFigures } from '@/lib/tax-workflows/types'
+import { getExpenseAccountKey } from './chart-of-accounts'
+import { createJournalEntry, JournalLineInput, reverseJournalEntry } from './journal'
+import { getSystemAccounts, resolvePostingEntityId } from './posting'
+import { functionalAmount, getFunctionalCurrency } from './fx'
+import {
+  addMonths,
+  assetBasis,
+  buildDepreciationSchedule,
+  DEPRECIATION_METHODS,
+  dueCharges,
+  periodOf,
+  runDepreciation,
+} from './depreciation'
+
+/**
+ * Fixed Assets
+ *
+ * The register of an entity's vehicles, equipment, fit-outs and other
+ * long-lived assets. An asset is usually capitalised from an expense or a
+ * bill that was already posted: its cost moves from the expense account to
+ * Property, Plant and Equipment. Assets already on the books when the
+ * register is adopted are added by hand, without a journal, with the
+ * depreciation they carried until then recorded as opening months.
+ *
+ * Categories give new assets their method, useful life and residual value.
+ * Revaluations restate an asset at fair value through the revaluation
+ * reserve; disposals remove it and book the gain or loss against proceeds.
+ */
+
+export type FixedAssetStatus = 'ACTIVE' | 'FULLY_DEPRECIATED' | 'DISPOSED'
+
+export const FIXED_ASSET_STATUSES: FixedAssetStatus[] = ['ACTIVE', 'FULLY_DEPRECIATED', 'DISPOSED']
+
+const dateInput = z.union([z.string(), z.date()]).pipe(z.coerce.date())
+const methodSchema = z.enum(DEPRECIATION_METHODS as [string, ...string[]])
+const lifeSchema = z.number().int().min(1).max(1200)
+const rateSchema = z.number().positive().max(100)
+
+export const FixedAssetCategorySchema = z.object({
+  entityId: z.string().min(1),
+  name: z.string().trim().min(1).max(120),
+  method: methodSchema.default('STRAIGHT_LINE'),
+  usefulLifeMonths: lifeSchema,
+  decliningRate: rateSchema.nullable().optional(),
+  residualPercent: z.number().min(0).max(100).default(0),
+})
+
+export const FixedAssetCategoryUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  method: methodSchema.optional(),
+  usefulLifeMonths: lifeSchema.optional(),
+  decliningRate: rateSchema.nullable().optional(),
+  residualPercent: z.number().min(0).max(100).optional(),
+  active: z.boolean().optional(),
+})
+
+export const FixedAssetSchema = z
+  .object({
+    entityId: z.string().min(1),
+    categoryId: z.string().min(1),
+    name: z.string().trim().min(1).max(200),
+    description: z.string().trim().max(2000).nullable().optional(),
+    serialNumber: z.string().trim().max(120).nullable().optional(),
+    location: z.string().trim().max(120).nullable().optional(),
+    source: z
+      .object({
+        type: z.enum(['EXPENSE', 'BILL']),
+        id: z.string().min(1),
+        lineId: z.string().min(1).optional(), // A single bill line
+      })
+      .optional(),
+    acquisitionDate: dateInput.optional(),
+    inServiceDate: dateInput.optional(),
+    costCents: z.number().int().positive().optional(),
+    residualCents: z.number().int().nonnegative().optional(),
+    method: methodSchema.optional(),
+    usefulLifeMonths: lifeSchema.optional(),
+    decliningRate: rateSchema.nullable().optional(),
+    depreciateFrom: z.string().regex(/^\d{4}-\d{2}$/).optional(), // Hand-added assets: first month to post
+  })
+  .refine((asset) => asset.source || (asset.costCents && asset.acquisitionDate), {
+    message: 'Give the cost and acquisition date of an asset not capitalised from an expense or bill',
+    path: ['costCents'],
+  })
+  .refine((asset) => !asset.source || (asset.costCents === undefined && asset.depreciateFrom === undefined), {
+    message: 'The cost of a capitalised asset comes from its expense or bill',
+    path: ['source'],
+  })
+
+export const FixedAssetUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(200).optional(),
+  description: z.string().trim().max(2000).nullable().optional(),
+  serialNumber: z.string().trim().max(120).nullable().optional(),
+  location: z.string().trim().max(120).nullable().optional(),
+})
+
+export const FixedAssetDisposalSchema = z.object({
+  date: dateInput,
+  proceedsCents: z.number().int().nonnegative().default(0),
+  proceedsAccountId: z.string().min(1).optional(), // Defaults to the bank account
+})
+
+export const FixedAssetRevaluationSchema = z.object({
+  date: dateInput,
+  fairValueCents: z.number().int().nonnegative(),
+  notes: z.string().trim().max(2000).nullable().optional(),
+})
+
+export type FixedAssetCategoryInput = z.infer<typeof FixedAssetCategorySchema>
+export type FixedAssetCategoryUpdate = z.infer<typeof FixedAssetCategoryUpdateSchema>
+export type FixedAssetInput = z.infer<typeof FixedAssetSchema>
+export type FixedAssetUpdate = z.infer<typeof FixedAssetUpdateSchema>
+export type FixedAssetDisposal = z.infer<typeof FixedAssetDisposalSchema>
+export type FixedAssetRevaluationInput = z.infer<typeof FixedAssetRevaluationSchema>
+
+export interface AssetBalances {
+  grossCents: number // Cost, or fair value after a revaluation
+  accumulatedCents: number
+  surplusCents: number
+}
+
+export interface AssetPosition {
+  grossCents: number
+  accumulatedCents: number
+  netBookValueCents: number
+}
+
+/**
+ * Split a revaluation between the reserve and profit or loss. An increase
+ * first reverses decreases charged to profit before; a decrease first
+ * uses up the surplus the asset holds in the reserve.
+ */
+export function revaluationAmounts(input: { carryingCents: number; fairValueCents: number; surplusCents: number; chargedCents: number }) {
+  const differenceCents = input.fairValueCents - input.carryingCents
+  if (differenceCents >= 0) {
+    const reversedCents = Math.min(differenceCents, Math.max(0, input.chargedCents))
+    return { differenceCents, reserveCents: differenceCents - reversedCents, expenseCents: reversedCents ? -reversedCents : 0 }
+  }
+  const releasedCents = Math.min(-differenceCents, Math.max(0, input.surplusCents))
+  return { differenceCents, reserveCents: -releasedCents, expenseCents: -differenceCents - releasedCents }
+}
+
+/**
+ * Journal lines restating an asset at fair value: accumulated depreciation
+ * is eliminated against the gross amount, which then moves to fair value
+ */
+export function buildRevaluationLines(
+  balances: AssetBalances,
+  amounts: ReturnType<typeof revaluationAmounts>,
+  accounts: Record<'FIXED_ASSETS' | 'ACCUMULATED_DEPRECIATION' | 'REVALUATION_RESERVE' | 'DEPRECIATION', string>
+): JournalLineInput[] {
+  const lines: JournalLineInput[] = [
+    { accountId: accounts.ACCUMULATED_DEPRECIATION, debitCents: balances.accumulatedCents },
+    { accountId: accounts.FIXED_ASSETS, creditCents: balances.accumulatedCents },
+  ]
+  if (amounts.differenceCents > 0) lines.push({ accountId: accounts.FIXED_ASSETS, debitCents: amounts.differenceCents })
+  if (amounts.differenceCents < 0) lines.push({ accountId: accounts.FIXED_ASSETS, creditCents: -amounts.differenceCents })
+  if (amounts.reserveCents > 0) lines.push({ accountId: accounts.REVALUATION_RESERVE, creditCents: amounts.reserveCents })
+  if (amounts.reserveCents < 0) lines.push({ accountId: accounts.REVALUATION_RESERVE, debitCents: -amounts.reserveCents })
+  if (amounts.expenseCents > 0) lines.push({ accountId: accounts.DEPRECIATION, debitCents: amounts.expenseCents, description: 'Revaluation decrease' })
+  if (amounts.expenseCents < 0) lines.push({ accountId: accounts.DEPRECIATION, creditCents: -amounts.expenseCents, description: 'Revaluation decrease reversed' })
+  return lines
+}
+
+/**
+ * Journal lines removing a disposed asset. Its surplus in the revaluation
+ * reserve is realised straight to retained earnings, not through profit.
+ */
+export function buildDisposalLines(
+  balances: AssetBalances,
+  proceedsCents: number,
+  accounts: Record<'FIXED_ASSETS' | 'ACCUMULATED_DEPRECIATION' | 'ASSET_DISPOSAL' | 'REVALUATION_RESERVE' | 'RETAINED_EARNINGS' | 'PROCEEDS', string>
+): { gainLossCents: number; lines: JournalLineInput[] } {
+  const gainLossCents = proceedsCents - (balances.grossCents - balances.accumulatedCents)
+  const lines: JournalLineInput[] = [
+    { accountId: accounts.PROCEEDS, debitCents: proceedsCents },
+    { accountId: accounts.ACCUMULATED_DEPRECIATION, debitCents: balances.accumulatedCents },
+    { accountId: accounts.FIXED_ASSETS, creditCents: balances.grossCents },
+    gainLossCents >= 0
+      ? { accountId: accounts.ASSET_DISPOSAL, creditCents: gainLossCents, description: 'Gain on disposal' }
+      : { accountId: accounts.ASSET_DISPOSAL, debitCents: -gainLossCents, description: 'Loss on disposal' },
+  ]
+  if (balances.surplusCents > 0) {
+    lines.push(
+      { accountId: accounts.REVALUATION_RESERVE, debitCents: balances.surplusCents },
+      { accountId: accounts.RETAINED_EARNINGS, creditCents: balances.surplusCents, description: 'Revaluation surplus realised' }
+    )
+  }
+  return { gainLossCents, lines }
+}
+
+/**
+ * Where an asset stood at the end of a day, from its history: the gross
+ * amount of its last revaluation by then (else its cost) less the months
+ * charged since. Null when it was not yet acquired or already disposed of.
+ */
+export function assetPositionAt(
+  asset: { acquisitionDate: Date; costCents: number; disposedAt?: Date | null },
+  revaluations: Array<{ date: Date; fairValueCents: number }>,
+  depreciation: Array<{ period: string; amountCents: number }>,
+  at: Date
+): AssetPosition | null {
+  if (asset.acquisitionDate > at || (asset.disposedAt && asset.disposedAt <= at)) return null
+
+  const last = revaluations.filter((r) => r.date <= at).sort((a, b) => b.date.getTime() - a.date.getTime())[0]
+  const since = last ? periodOf(last.date) : null
+  const through = periodOf(at)
+  const accumulatedCents = depreciation
+    .filter((row) => row.period <= through && (!since || row.period > since))
+    .reduce((sum, row) => sum + row.amountCents, 0)
+  const grossCents = last ? last.fairValueCents : asset.costCents
+
+  return { grossCents, accumulatedCents, netBookValueCents: grossCents - accumulatedCents }
+}
+
+export function netBookValue(asset: { status: string; costCents: number; revaluedAmountCents: number | null; accumulatedDepreciationCents: number }): number {
+  if (asset.status === 'DISPOSED') return 0
+  return (asset.revaluedAmountCents ?? asset.costCents) - asset.accumulatedDepreciationCents
+}
+
+async function assertEntity(tenantId: string, entityId: string) {
+  const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId }, select: { id: true } })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+}
+
+export async function listAssetCategories(tenantId: string, entityId: string) {
+  return prisma.fixedAssetCategory.findMany({
+    where: { tenantId, entityId },
+    include: { _count: { select: { assets: true } } },
+    orderBy: [{ active: 'desc' }, { name: 'asc' }],
+  })
+}
+
+export async function createAssetCategory(tenantId: string, input: FixedAssetCategoryInput) {
+  await assertEntity(tenantId, input.entityId)
+  const existing = await prisma.fixedAssetCategory.findFirst({ where: { entityId: input.entityId, name: input.name }, select: { id: true } })
+  if (existing) throw new ApiError('DUPLICATE_CATEGORY', 'The entity already has an asset category with this name', 409)
+
+  return prisma.fixedAssetCategory.create({
+    data: {
+      tenantId,
+      entityId: input.entityId,
+      name: input.name,
+      method: input.method,
+      usefulLifeMonths: input.usefulLifeMonths,
+      decliningRate: input.decliningRate ?? null,
+      residualPercent: input.residualPercent,
+    },
+  })
+}
+
+/**
+ * Category changes apply to assets registered afterwards; existing assets
+ * keep the terms they were registered with
+ */
+export async function updateAssetCategory(tenantId: string, id: string, input: FixedAssetCategoryUpdate) {
+  const category = await prisma.fixedAssetCategory.findFirst({ where: { id, tenantId } })
+  if (!category) throw new ApiError('NOT_FOUND', 'Asset category not found', 404)
+  if (input.name && input.name !== category.name) {
+    const existing = await prisma.fixedAssetCategory.findFirst({ where: { entityId: category.entityId, name: input.name }, select: { id: true } })
+    if (existing) throw new ApiError('DUPLICATE_CATEGORY', 'The entity already has an asset category with this name', 409)
+  }
+
+  return prisma.fixedAssetCategory.update({
+    where: { id },
+    data: {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.method !== undefined ? { method: input.method } : {}),
+      ...(input.usefulLifeMonths !== undefined ? { usefulLifeMonths: input.usefulLifeMonths } : {}),
+      ...(input.decliningRate !== undefined ? { decliningRate: input.decliningRate } : {}),
+      ...(input.residualPercent !== undefined ? { residualPercent: input.residualPercent } : {}),
+      ...(input.active !== undefined ? { active: input.active } : {}),
+    },
+  })
+}
+
+export async function deleteAssetCategory(tenantId: string, id: string) {
+  const category = await prisma.fixedAssetCategory.findFirst({ where: { id, tenantId }, include: { _count: { select: { assets: true } } } })
+  if (!category) throw new ApiError('NOT_FOUND', 'Asset category not found', 404)
+  if (category._count.assets > 0) throw new ApiError('CATEGORY_IN_USE', 'Assets are registered in this category; deactivate it instead', 409)
+  await prisma.fixedAssetCategory.delete({ where: { id } })
+}
+
+/**
+ * What a source document contributes to an asset: its cost in the entity's
+ * functional currency and the expense accounts it was posted to
+ */
+async function loadAcquisitionSource(tenantId: string, entityId: string, source: NonNullable<FixedAssetInput['source']>) {
+  if (source.type === 'EXPENSE') {
+    const expense = await prisma.expense.findFirst({ where: { id: source.id, tenantId } })
+    if (!expense) throw new ApiError('NOT_FOUND', 'Expense not found', 404)
+    if ((await resolvePostingEntityId(tenantId, expense.entityId)) !== entityId) {
+      throw new ApiError('ENTITY_MISMATCH', 'The expense belongs to another entity', 400)
+    }
+
+    const posting = expense.claimId ? { sourceType: 'expense_claim', sourceId: expense.claimId } : { sourceType: 'expense', sourceId: expense.id }
+    const amountCents = expense.functionalAmountCents ?? expense.amountCents
+    const taxCents = expense.taxCategory === 'STANDARD' ? Math.max(0, Math.min(expense.functionalTaxCents ?? expense.taxCents, amountCents)) : 0
+    const key = getExpenseAccountKey(expense.category)
+    const accounts = await getSystemAccounts(entityId, [key])
+
+    return {
+      posting,
+      date: expense.date,
+      name: expense.description || expense.vendor,
+      credits: [{ accountId: accounts[key], amountCents: amountCents - taxCents, description: expense.vendor }],
+    }
+  }
+
+  const bill = await prisma.bill.findFirst({
+    where: { id: source.id, tenantId },
+    include: { lines: true, vendor: { select: { name: true } } },
+  })
+  if (!bill) throw new ApiError('NOT_FOUND', 'Bill not found', 404)
+  if ((await resolvePostingEntityId(tenantId, bill.entityId)) !== entityId) {
+    throw new ApiError('ENTITY_MISMATCH', 'The bill belongs to another entity', 400)
+  }
+
+  const lines = bill.lines.filter((line) => line.netCents > 0 && (!source.lineId || line.id === source.lineId))
+  if (lines.length === 0) throw new ApiError('NOT_FOUND', 'Bill line not found', 404)
+  const keys = Array.from(new Set(lines.filter((line) => !line.ledgerAccountId).map((line) => getExpenseAccountKey(line.category))))
+  const accounts = keys.length ? await getSystemAccounts(entityId, keys) : ({} as Record<string, string>)
+
+  return {
+    posting: { sourceType: 'bill', sourceId: bill.id },
+    date: bill.issueDate,
+    name: lines.length === 1 ? lines[0].description : `Bill ${bill.billNumber}: ${bill.vendor.name}`,
+    credits: lines.map((line) => ({
+      accountId: line.ledgerAccountId ?? accounts[getExpenseAccountKey(line.category)],
+      amountCents: functionalAmount(line.netCents, bill),
+      description: line.description,
+    })),
+  }
+}
+
+async function nextAssetNumber(entityId: string): Promise<string> {
+  const count = await prisma.fixedAsset.count({ where: { entityId } })
+  return `FA-${String(count + 1).padStart(4, '0')}`
+}
+
+/**
+ * Register an asset. Capitalising an expense or bill moves its cost off
+ * the expense account it was posted to, so the document must be posted.
+ */
+export async function createFixedAsset(tenantId: string, input: FixedAssetInput, userId?: string | null) {
+  await assertEntity(tenantId, input.entityId)
+  const category = await prisma.fixedAssetCategory.findFirst({ where: { id: input.categoryId, entityId: input.entityId, active: true } })
+  if (!category) throw new ApiError('NOT_FOUND', 'Asset category not found', 404)
+
+  let source: Awaited<ReturnType<typeof loadAcquisitionSource>> | null = null
+  if (input.source) {
+    const taken = await prisma.fixedAsset.findFirst({
+      where: {
+        tenantId,
+        sourceType: input.source.type,
+        sourceId: input.source.id,
+        ...(input.source.lineId ? { OR: [{ sourceLineId: input.source.lineId }, { sourceLineId: null }] } : {}),
+      },
+      select: { assetNumber: true },
+    })
+    if (taken) throw new ApiError('ALREADY_CAPITALISED', `Already capitalised as ${taken.assetNumber}`, 409)
+
+    source = await loadAcquisitionSource(tenantId, input.entityId, input.source)
+    const posted = await prisma.journalEntry.findUnique({
+      where: { entityId_sourceType_sourceId: { entityId: input.entityId, ...source.posting } },
+      select: { id: true },
+    })
+    if (!posted) throw new ApiError('SOURCE_NOT_POSTED', 'Only an expense or bill posted to the ledger can be capitalised', 409)
+  }
+
+  const costCents = source ? source.credits.reduce((sum, credit) => sum + credit.amountCents, 0) : input.costCents!
+  const acquisitionDate = input.acquisitionDate ?? source!.date
+  const inServiceDate = input.inServiceDate ?? acquisitionDate
+  if (inServiceDate < acquisitionDate) throw new ApiError('INVALID_DATES', 'An asset cannot go into service before it is acquired', 400)
+  const residualCents = input.residualCents ?? Math.round((costCents * Number(category.residualPercent)) / 100)
+  if (residualCents > costCents) throw new ApiError('INVALID_RESIDUAL', 'Residual value cannot exceed the cost', 400)
+  if (input.depreciateFrom && input.depreciateFrom < periodOf(inServiceDate)) {
+    throw new ApiError('INVALID_DATES', 'Depreciation cannot start before the asset goes into service', 400)
+  }
+
+  const asset = await prisma.fixedAsset.create({
+    data: {
+      tenantId,
+      entityId: input.entityId,
+      categoryId: category.id,
+      assetNumber: await nextAssetNumber(input.entityId),
+      name: input.name,
+      description: input.description ?? null,
+      serialNumber: input.serialNumber ?? null,
+      location: input.location ?? null,
+      acquisitionDate,
+      inServiceDate,
+      currency: await getFunctionalCurrency(input.entityId),
+      costCents,
+      residualCents,
+      method: input.method ?? category.method,
+      usefulLifeMonths: input.usefulLifeMonths ?? category.usefulLifeMonths,
+      decliningRate: input.decliningRate !== undefined ? input.decliningRate : category.decliningRate,
+      sourceType: input.source?.type ?? null,
+      sourceId: input.source?.id ?? null,
+      sourceLineId: input.source?.lineId ?? null,
+      createdBy: userId ?? null,
+    },
+  })
+
+  if (source) {
+    try {
+      const accounts = await getSystemAccounts(input.entityId, ['FIXED_ASSETS'])
+      const entry = await createJournalEntry({
+        tenantId,
+        entityId: input.entityId,
+        date: acquisitionDate,
+        description: `Capitalised ${asset.assetNumber}: ${asset.name}`,
+        currency: asset.currency,
+        sourceType: 'fixed_asset',
+        sourceId: asset.id,
+        createdBy: userId,
+        metadata: { sourceType: input.source!.type, sourceId: input.source!.id, sourceLineId: input.source!.lineId ?? null },
+        lines: [
+          { accountId: accounts.FIXED_ASSETS, debitCents: costCents, description: asset.name },
+          ...source.credits.map((credit) => ({ accountId: credit.accountId, creditCents: credit.amountCents, description: credit.description })),
+        ],
+      })
+      return prisma.fixedAsset.update({ where: { id: asset.id }, data: { acquisitionEntryId: entry.id } })
+    } catch (error) {
+      await prisma.fixedAsset.delete({ where: { id: asset.id } })
+      throw error
+    }
+  }
+
+  if (input.depreciateFrom) {
+    // Months already charged before the asset joined the register
+    const opening = dueCharges(buildDepreciationSchedule(assetBasis(asset)), null, addMonths(input.depreciateFrom, -1))
+    if (opening.length) {
+      const last = opening[opening.length - 1]
+      await prisma.$transaction([
+        prisma.fixedAssetDepreciation.createMany({ data: opening.map((row) => ({ assetId: asset.id, period: row.period, amountCents: row.depreciationCents })) }),
+        prisma.fixedAsset.update({
+          where: { id: asset.id },
+          data: {
+            accumulatedDepreciationCents: last.accumulatedCents,
+            depreciatedThrough: last.period,
+            ...(opening.length === asset.usefulLifeMonths ? { status: 'FULLY_DEPRECIATED' } : {}),
+          },
+        }),
+      ])
+      return prisma.fixedAsset.findUniqueOrThrow({ where: { id: asset.id } })
+    }
+  }
+
+  return asset
+}
+
+export async function listFixedAssets(tenantId: string, filters: { entityId?: string; status?: string; categoryId?: string; limit?: number; offset?: number } = {}) {
+  const where = {
+    tenantId,
+    ...(filters.entityId ? { entityId: filters.entityId } : {}),
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.categoryId ? { categoryId: filters.categoryId } : {}),
+  }
+  const [assets, total] = await Promise.all([
+    prisma.fixedAsset.findMany({
+      where,
+      include: { category: { select: { id: true, name: true } } },
+      orderBy: { assetNumber: 'asc' },
+      take: filters.limit ?? 50,
+      skip: filters.offset ?? 0,
+    }),
+    prisma.fixedAsset.count({ where }),
+  ])
+
+  return { assets: assets.map((asset) => ({ ...asset, netBookValueCents: netBookValue(asset) })), total }
+}
+
+/**
+ * An asset with its history and the months still to be charged
+ */
+export async function getFixedAsset(tenantId: string, id: string) {
+  const asset = await prisma.fixedAsset.findFirst({
+    where: { id, tenantId },
+    include: {
+      category: { select: { id: true, name: true } },
+      depreciation: { orderBy: { period: 'asc' } },
+      revaluations: { orderBy: { date: 'asc' } },
+    },
+  })
+  if (!asset) throw new ApiError('NOT_FOUND', 'Fixed asset not found', 404)
+
+  const schedule = asset.status === 'DISPOSED' ? [] : dueCharges(buildDepreciationSchedule(assetBasis(asset)), asset.depreciatedThrough, '9999-12')
+  return { ...asset, netBookValueCents: netBookValue(asset), schedule }
+}
+
+export async function updateFixedAsset(tenantId: string, id: string, input: FixedAssetUpdate) {
+  const asset = await prisma.fixedAsset.findFirst({ where: { id, tenantId }, select: { id: true } })
+  if (!asset) throw new ApiError('NOT_FOUND', 'Fixed asset not found', 404)
+
+  return prisma.fixedAsset.update({
+    where: { id },
+    data: {
+      ...(input.name !== undefined ? { name: input.name } : {}),
+      ...(input.description !== undefined ? { description: input.description } : {}),
+      ...(input.serialNumber !== undefined ? { serialNumber: input.serialNumber } : {}),
+      ...(input.location !== undefined ? { location: input.location } : {}),
+    },
+  })
+}
+
+/**
+ * Remove an asset registered in error. Its capitalisation is reversed; one
+ * that has been depreciated, revalued or disposed of must be disposed of
+ * instead.
+ */
+export async function deleteFixedAsset(tenantId: string, id: string, userId?: string | null) {
+  const asset = await prisma.fixedAsset.findFirst({
+    where: { id, tenantId },
+    include: { _count: { select: { revaluations: true } }, depreciation: { where: { journalEntryId: { not: null } }, take: 1 } },
+  })
+  if (!asset) throw new ApiError('NOT_FOUND', 'Fixed asset not found', 404)
+  if (asset.status === 'DISPOSED' || asset.depreciation.length || asset._count.revaluations) {
+    throw new ApiError('ASSET_IN_USE', 'The asset has been depreciated, revalued or disposed of and cannot be deleted', 409)
+  }
+
+  if (asset.acquisitionEntryId) {
+    await reverseJournalEntry(asset.acquisitionEntryId, { reason: `Capitalisation of ${asset.assetNumber} removed`, userId })
+  }
+  await prisma.fixedAsset.delete({ where: { id } })
+}
+
+async function loadActiveAsset(tenantId: string, id: string) {
+  const asset = await prisma.fixedAsset.findFirst({ where: { id, tenantId }, include: { revaluations: { select: { expenseCents: true } } } })
+  if (!asset) throw new ApiError('NOT_FOUND', 'Fixed asset not found', 404)
+  if (asset.status === 'DISPOSED') throw new ApiError('ASSET_DISPOSED', 'The asset has been disposed of', 409)
+  return asset
+}
+
+/**
+ * Restate an asset at fair value on a date. Depreciation is first charged
+ * through that month; the asset then depreciates from its fair value over
+ * the rest of its useful life.
+ */
+export async function revalueFixedAsset(tenantId: string, id: string, input: FixedAssetRevaluationInput, userId?: string | null) {
+  let asset = await loadActiveAsset(tenantId, id)
+  if (input.date < asset.inServiceDate) throw new ApiError('INVALID_DATES', 'An asset cannot be revalued before it goes into service', 400)
+  if (input.fairValueCents < asset.residualCents) throw new ApiError('INVALID_FAIR_VALUE', 'Fair value cannot be below the residual value', 400)
+
+  const period = periodOf(input.date)
+  if (asset.depreciatedThrough && asset.depreciatedThrough > period) {
+    throw new ApiError('INVALID_DATES', `Depreciation is already charged through ${asset.depreciatedThrough}`, 409)
+  }
+  await runDepreciation(asset.entityId, period, { date: input.date, assetIds: [asset.id], userId })
+  asset = await loadActiveAsset(tenantId, id)
+
+  const balances = { grossCents: asset.revaluedAmountCents ?? asset.costCents, accumulatedCents: asset.accumulatedDepreciationCents, surplusCents: asset.revaluationSurplusCents }
+  const carryingCents = balances.grossCents - balances.accumulatedCents
+  const amounts = revaluationAmounts({
+    carryingCents,
+    fairValueCents: input.fairValueCents,
+    surplusCents: asset.revaluationSurplusCents,
+    chargedCents: asset.revaluations.reduce((sum, r) => sum + r.expenseCents, 0),
+  })
+
+  const accounts = await getSystemAccounts(asset.entityId, ['FIXED_ASSETS', 'ACCUMULATED_DEPRECIATION', 'REVALUATION_RESERVE', 'DEPRECIATION'])
+  const lines = buildRevaluationLines(balances, amounts, accounts)
+  const entry = lines.some((line) => line.debitCents || line.creditCents)
+    ? await createJournalEntry({
+        tenantId,
+        entityId: asset.entityId,
+        date: input.date,
+        description: `Revaluation of ${asset.assetNumber}: ${asset.name}`,
+        currency: asset.currency,
+        sourceType: 'fixed_asset_revaluation',
+        sourceId: `${asset.id}:${input.date.toISOString().slice(0, 10)}`,
+        createdBy: userId,
+        metadata: { assetId: asset.id, carryingCents, fairValueCents: input.fairValueCents },
+        lines,
+      })
+    : null
+
+  const [revaluation] = await prisma.$transaction([
+    prisma.fixedAssetRevaluation.create({
+      data: {
+        assetId: asset.id,
+        date: input.date,
+        carryingCents,
+        fairValueCents: input.fairValueCents,
+        reserveCents: amounts.reserveCents,
+        expenseCents: amounts.expenseCents,
+        journalEntryId: entry?.id ?? null,
+        notes: input.notes ?? null,
+        createdBy: userId ?? null,
+      },
+    }),
+    prisma.fixedAsset.update({
+      where: { id: asset.id },
+      data: {
+        revaluedAmountCents: input.fairValueCents,
+        revaluedAt: input.date,
+        revaluationSurplusCents: { increment: amounts.reserveCents },
+        accumulatedDepreciationCents: 0,
+        depreciatedThrough: period,
+        status: 'ACTIVE',
+      },
+    }),
+  ])
+
+  return revaluation
+}
+
+/**
+ * Dispose of an asset: depreciation is charged up to the month before,
+ * the asset leaves the books and proceeds less book value is the gain
+ */
+export async function disposeFixedAsset(tenantId: string, id: string, input: FixedAssetDisposal, userId?: string | null) {
+  let asset = await loadActiveAsset(tenantId, id)
+  if (input.date < asset.acquisitionDate) throw new ApiError('INVALID_DATES', 'An asset cannot be disposed of before it is acquired', 400)
+  if (asset.depreciatedThrough && asset.depreciatedThrough >= periodOf(input.date)) {
+    throw new ApiError('INVALID_DATES', `Depreciation is already charged through ${asset.depreciatedThrough}`, 409)
+  }
+
+  await runDepreciation(asset.entityId, addMonths(periodOf(input.date), -1), { date: input.date, assetIds: [asset.id], userId })
+  asset = await loadActiveAsset(tenantId, id)
+
+  const keys = ['FIXED_ASSETS', 'ACCUMULATED_DEPRECIATION', 'ASSET_DISPOSAL', 'REVALUATION_RESERVE', 'RETAINED_EARNINGS', 'BANK'] as const
+  const accounts = await getSystemAccounts(asset.entityId, [...keys])
+  let proceedsAccountId = accounts.BANK
+  if (input.proceedsAccountId) {
+    const account = await prisma.ledgerAccount.findFirst({ where: { id: input.proceedsAccountId, entityId: asset.entityId, isActive: true }, select: { id: true } })
+    if (!account) throw new ApiError('INVALID_LEDGER_ACCOUNT', 'The proceeds account is not active in this entity', 400)
+    proceedsAccountId = account.id
+  }
+
+  const { gainLossCents, lines } = buildDisposalLines(
+    { grossCents: asset.revaluedAmountCents ?? asset.costCents, accumulatedCents: asset.accumulatedDepreciationCents, surplusCents: asset.revaluationSurplusCents },
+    input.proceedsCents,
+    { ...accounts, PROCEEDS: proceedsAccountId }
+  )
+
+  const entry = await createJournalEntry({
+    tenantId,
+    entityId: asset.entityId,
+    date: input.date,
+    description: `Disposal of ${asset.assetNumber}: ${asset.name}`,
+    currency: asset.currency,
+    sourceType: 'fixed_asset_disposal',
+    sourceId: asset.id,
+    createdBy: userId,
+    metadata: { assetId: asset.id, proceedsCents: input.proceedsCents, gainLossCents },
+    lines,
+  })
+
+  return prisma.fixedAsset.update({
+    where: { id: asset.id },
+    data: {
+      status: 'DISPOSED',
+      disposedAt: input.date,
+      disposalProceedsCents: input.proceedsCents,
+      disposalGainLossCents: gainLossCents,
+      disposalEntryId: entry.id,
+    },
+  })
+}
+
+/**
+ * An entity's fixed-asset figures for a tax period, in its functional
+ * currency's cents. Null when the entity keeps no register, so callers fall
+ * back to figures typed into the filing.
+ */
+export async function getFixedAssetTaxFigures(entityId: string, from: Date, to: Date) {
+  const assets = await prisma.fixedAsset.findMany({
+    where: { entityId, acquisitionDate: { lte: to } },
+    include: {
+      depreciation: { select: { period: true, amountCents: true } },
+      revaluations: { select: { date: true, fairValueCents: true, reserveCents: true, expenseCents: true } },
+    },
+  })
+  if (assets.length === 0) return null
+
+  const fromPeriod = periodOf(from)
+  const toPeriod = periodOf(to)
+  const figures = {
+    currency: assets[0].currency,
+    assets: 0,
+    costCents: 0,
+    accumulatedDepreciationCents: 0,
+    netBookValueCents: 0,
+    additionsCents: 0,
+    depreciationCents: 0,
+    disposalGainLossCents: 0,
+    revaluationReserveCents: 0,
+  }
+
+  for (const asset of assets) {
+    const position = assetPositionAt(asset, asset.revaluations, asset.depreciation, to)
+    if (position) {
+      figures.assets++
+      figures.costCents += position.grossCents
+      figures.accumulatedDepreciationCents += position.accumulatedCents
+      figures.netBookValueCents += position.netBookValueCents
+    }
+    if (asset.acquisitionDate >= from) figures.additionsCents += asset.costCents
+    figures.depreciationCents += asset.depreciation
+      .filter((row) => row.period >= fromPeriod && row.period <= toPeriod)
+      .reduce((sum, row) => sum + row.amountCents, 0)
+    for (const revaluation of asset.revaluations.filter((r) => r.date >= from && r.date <= to)) {
+      figures.depreciationCents += revaluation.expenseCents
+      figures.revaluationReserveCents += revaluation.reserveCents
+    }
+    if (asset.disposedAt && asset.disposedAt >= from && asset.disposedAt <= to) {
+      figures.disposalGainLossCents += asset.disposalGainLossCents ?? 0
+    }
+  }
+
+  return figures
+}
+
+/**
+ * The register's figures as tax filings take them, in major units
+ */
+export async function getFixedAssetFilingFigures(entityId: string, from: Date, to: Date): Promise<FixedAssetTaxFigures | null> {
+  const figures = await getFixedAssetTaxFigures(entityId, from, to)
+  if (!figures) return null
+  return {
+    netBookValue: figures.netBookValueCents / 100,
+    depreciation: figures.depreciationCents / 100,
+    disposalGainLoss: figures.disposalGainLossCents / 100,
+  }
+}
@@ -0,0 +1,163 @@
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { decimalToNumber } from '@/lib/decimal-utils'
+import { getCountry, CountryCode } from '@/lib/registries/countries'
+
+/**
+ * Foreign Exchange
+ *
+ * Each entity keeps its books in a functional currency. Documents in any
+ * other currency capture the rate on their date (functional units per unit
+ * of document currency) and their functional amounts, and post at those.
+ * Settling a document at a different rate books a realized difference
+ * (see posting.ts); open items are restated at month end (revaluation.ts).
+ */
+
+export interface RateQuote {
+  base: string
+  target: string
+  rate: number
+}
+
+export interface CapturedRate {
+  functionalCurrency: string | null
+  exchangeRate: number | null
+}
+
+/** Rates are quoted to eight decimal places */
+const RATE_PRECISION = 1e8
+
+/** Used when neither the entity nor its country names a currency */
+const DEFAULT_FUNCTIONAL_CURRENCY = 'AED'
+
+function roundRate(rate: number): number {
+  return Math.round(rate * RATE_PRECISION) / RATE_PRECISION
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date)
+  end.setUTCHours(23, 59, 59, 999)
+  return end
+}
+
+/**
+ * Functional cents for a document amount at a rate
+ */
+export function toFunctionalCents(amountCents: number, rate: number): number {
+  return Math.round(amountCents * rate)
+}
+
+/**
+ * Derive the rate to convert `from` into `to` from the latest quote of
+ * each pair: direct, inverse, or crossed through a shared base currency
+ */
+export function deriveRate(quotes: RateQuote[], from: string, to: string): number | null {
+  if (from === to) return 1
+
+  const latest = new Map<string, number>()
+  for (const quote of quotes) {
+    const key = `${quote.base}:${quote.target}`
+    if (!latest.has(key) && quote.rate > 0) latest.set(key, quote.rate)
+  }
+
+  const direct = latest.get(`${from}:${to}`)
+  if (direct) return roundRate(direct)
+  const inverse = latest.get(`${to}:${from}`)
+  if (inverse) return roundRate(1 / inverse)
+
+  const bases = new Set(quotes.map((q) => q.base))
+  for (const base of Array.from(bases)) {
+    const toFrom = latest.get(`${base}:${from}`)
+    const toTo = latest.get(`${base}:${to}`)
+    if (toFrom && toTo) return roundRate(toTo / toFrom)
+  }
+
+  return null
+}
+
+/**
+ * Rate from `from` into `to` as it stood at the end of `asOf`
+ */
+export async function findExchangeRate(from: string, to: string, asOf: Date): Promise<number | null> {
+  const source = from.toUpperCase()
+  const target = to.toUpperCase()
+  if (source === target) return 1
+
+  const quotes = await prisma.exchangeRate.findMany({
+    where: {
+      fetchedAt: { lte: endOfDay(asOf) },
+      OR: [{ base: { in: [source, target] } }, { target: { in: [source, target] } }],
+    },
+    select: { base: true, target: true, rate: true },
+    orderBy: { fetchedAt: 'desc' },
+    distinct: ['base', 'target'],
+  })
+
+  return deriveRate(quotes, source, target)
+}
+
+/**
+ * Currency an entity keeps its books in
+ */
+export async function getFunctionalCurrency(entityId: string): Promise<string> {
+  const entity = await prisma.entity.findUnique({
+    where: { id: entityId },
+    select: { functionalCurrency: true, country: true },
+  })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+  return (entity.functionalCurrency || getCountry(entity.country as CountryCode)?.currency || DEFAULT_FUNCTIONAL_CURRENCY).toUpperCase()
+}
+
+/**
+ * Capture the rate a document converts to its entity's functional currency
+ * at. An explicit rate (e.g. the bank's) wins over the stored quotes.
+ */
+export async function captureExchangeRate(
+  entityId: string,
+  currency: string,
+  date: Date,
+  override?: number | null
+): Promise<CapturedRate> {
+  const functionalCurrency = await getFunctionalCurrency(entityId)
+  const documentCurrency = currency.toUpperCase()
+  if (documentCurrency === functionalCurrency) return { functionalCurrency, exchangeRate: 1 }
+
+  if (override !== undefined && override !== null) {
+    if (!(override > 0)) throw new ApiError('INVALID_EXCHANGE_RATE', 'Exchange rate must be positive', 400)
+    return { functionalCurrency, exchangeRate: roundRate(override) }
+  }
+
+  const rate = await findExchangeRate(documentCurrency, functionalCurrency, date)
+  if (!rate) {
+    throw new ApiError('EXCHANGE_RATE_MISSING', `No ${documentCurrency}/${functionalCurrency} rate on or before ${date.toISOString().slice(0, 10)}`, 422, {
+      from: documentCurrency,
+      to: functionalCurrency,
+      date: date.toISOString(),
+    })
+  }
+  return { functionalCurrency, exchangeRate: rate }
+}
+
+/**
+ * Functional amount of a captured document amount; uncaptured documents
+ * are taken at face value
+ */
+export function functionalAmount(amountCents: number, rate: CapturedRate | { exchangeRate: unknown }): number {
+  const value = rate.exchangeRate
+  if (value === null || value === undefined) return amountCents
+  return toFunctionalCents(amountCents, decimalToNumber(value as any))
+}
+
+/**
+ * Columns recording a captured rate and the functional amounts it gives,
+ * ready to spread into a document's create data
+ */
+export function capturedAmounts<K extends string>(
+  rate: CapturedRate,
+  amounts: Record<K, number>
+): CapturedRate & Record<K, number | null> {
+  const functional = Object.fromEntries(
+    Object.entries(amounts).map(([key, cents]) => [key, rate.exchangeRate === null ? null : toFunctionalCents(cents as number, rate.exchangeRate)])
+  ) as Record<K, number | null>
+  return { ...rate, ...functional }
+}
@@ -0,0 +1,317 @@
+import type { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { NORMAL_BALANCE, LedgerAccountType } from './chart-of-accounts'
+import { assertPeriodOpen } from './periods'
+
+/**
+ * Journal
+ *
+ * Double-entry primitives: every entry must carry at least two one-sided
+ * lines and total debits must equal total credits. Posted entries are never
+ * edited; corrections are made through reversing entries.
+ */
+
+export interface JournalLineInput {
+  accountId: string
+  debitCents?: number
+  creditCents?: number
+  description?: string
+}
+
+export interface CreateJournalEntryInput {
+  tenantId: string
+  entityId: string
+  date: Date
+  description?: string
+  currency?: string
+  sourceType?: string
+  sourceId?: string
+  createdBy?: string | null
+  metadata?: Prisma.InputJsonValue
+  lines: JournalLineInput[]
+}
+
+export interface JournalValidationResult {
+  isValid: boolean
+  errors: string[]
+  totalDebitCents: number
+  totalCreditCents: number
+}
+
+export interface TrialBalanceRow {
+  accountId: string
+  code: string
+  name: string
+  type: LedgerAccountType
+  debitCents: number
+  creditCents: number
+  balanceCents: number // Signed towards the account's normal balance
+}
+
+export interface TrialBalance {
+  entityId: string
+  asOf: Date
+  rows: TrialBalanceRow[]
+  totalDebitCents: number
+  totalCreditCents: number
+  isBalanced: boolean
+}
+
+/**
+ * Validate journal lines for double-entry integrity
+ */
+export function validateJournalLines(lines: JournalLineInput[]): JournalValidationResult {
+  const errors: string[] = []
+  let totalDebitCents = 0
+  let totalCreditCents = 0
+
+  if (!lines || lines.length < 2) {
+    errors.push('A journal entry requires at least two lines')
+  }
+
+  ;(lines || []).forEach((line, index) => {
+    const debit = line.debitCents ?? 0
+    const credit = line.creditCents ?? 0
+
+    if (!line.accountId) {
+      errors.push(`Line ${index + 1}: account is required`)
+    }
+    if (!Number.isInteger(debit) || !Number.isInteger(credit)) {
+      errors.push(`Line ${index + 1}: amounts must be whole cents`)
+    }
+    if (debit < 0 || credit < 0) {
+      errors.push(`Line ${index + 1}: amounts cannot be negative`)
+    }
+    if (debit > 0 && credit > 0) {
+      errors.push(`Line ${index + 1}: a line cannot carry both a debit and a credit`)
+    }
+    if (debit === 0 && credit === 0) {
+      errors.push(`Line ${index + 1}: a line must carry a debit or a credit`)
+    }
+
+    totalDebitCents += debit
+    totalCreditCents += credit
+  })
+
+  if (totalDebitCents !== totalCreditCents) {
+    errors.push(`Debits (${totalDebitCents}) do not equal credits (${totalCreditCents})`)
+  }
+
+  return {
+    isValid: errors.length === 0,
+    errors,
+    totalDebitCents,
+    totalCreditCents,
+  }
+}
+
+/**
+ * Drop zero lines and merge lines that hit the same account on the same side.
+ * Posting rules build lines mechanically (e.g. a zero tax leg), this keeps
+ * the stored entry tidy.
+ */
+export function compactJournalLines(lines: JournalLineInput[]): JournalLineInput[] {
+  const merged = new Map<string, JournalLineInput>()
+
+  for (const line of lines) {
+    const debit = line.debitCents ?? 0
+    const credit = line.creditCents ?? 0
+    if (debit === 0 && credit === 0) continue
+
+    const key = `${line.accountId}:${debit > 0 ? 'D' : 'C'}`
+    const existing = merged.get(key)
+    if (existing) {
+      existing.debitCents = (existing.debitCents ?? 0) + debit
+      existing.creditCents = (existing.creditCents ?? 0) + credit
+    } else {
+      merged.set(key, { ...line, debitCents: debit, creditCents: credit })
+    }
+  }
+
+  return Array.from(merged.values())
+}
+
+/**
+ * Create and post a balanced journal entry
+ */
+export async function createJournalEntry(input: CreateJournalEntryInput) {
+  const lines = compactJournalLines(input.lines)
+  const validation = validateJournalLines(lines)
+
+  if (!validation.isValid) {
+    throw new ApiError('UNBALANCED_JOURNAL_ENTRY', 'Journal entry is not balanced', 400, validation.errors)
+  }
+
+  await assertPeriodOpen(input.entityId, input.date, input.sourceType)
+
+  const accountIds = Array.from(new Set(lines.map((l) => l.accountId)))
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { id: { in: accountIds }, entityId: input.entityId, isActive: true },
+    select: { id: true },
+  })
+
+  if (accounts.length !== accountIds.length) {
+    const known = new Set(accounts.map((a) => a.id))
+    throw new ApiError(
+      'INVALID_LEDGER_ACCOUNT',
+      'One or more accounts do not belong to this entity or are inactive',
+      400,
+      accountIds.filter((id) => !known.has(id))
+    )
+  }
+
+  const entry = await prisma.journalEntry.create({
+    data: {
+      tenantId: input.tenantId,
+      entityId: input.entityId,
+      date: input.date,
+      description: input.description,
+      currency: (input.currency || 'AED').toUpperCase(),
+      status: 'POSTED',
+      sourceType: input.sourceType,
+      sourceId: input.sourceId,
+      postedAt: new Date(),
+      createdBy: input.createdBy ?? null,
+      metadata: input.metadata,
+      lines: {
+        create: lines.map((line) => ({
+          accountId: line.accountId,
+          debitCents: line.debitCents ?? 0,
+          creditCents: line.creditCents ?? 0,
+          description: line.description,
+        })),
+      },
+    },
+    include: { lines: true },
+  })
+
+  logger.info('Journal entry posted', {
+    journalEntryId: entry.id,
+    entityId: input.entityId,
+    sourceType: input.sourceType,
+    sourceId: input.sourceId,
+    amountCents: validation.totalDebitCents,
+  })
+
+  return entry
+}
+
+/**
+ * Reverse a posted journal entry by posting its mirror image. Pass `tx` to
+ * reverse inside a transaction the caller already holds.
+ */
+export async function reverseJournalEntry(
+  entryId: string,
+  options: { date?: Date; reason?: string; userId?: string | null; tx?: Prisma.TransactionClient } = {}
+) {
+  const original = await (options.tx ?? prisma).journalEntry.findUnique({
+    where: { id: entryId },
+    include: { lines: true },
+  })
+
+  if (!original) {
+    throw new ApiError('NOT_FOUND', 'Journal entry not found', 404)
+  }
+  if (original.status !== 'POSTED') {
+    throw new ApiError('INVALID_STATE', `Cannot reverse a ${original.status} journal entry`, 409)
+  }
+
+  const reversalDate = options.date ?? new Date()
+  await assertPeriodOpen(original.entityId, reversalDate, 'reversal')
+
+  const reverse = async (tx: Prisma.TransactionClient) => {
+    const reversal = await tx.journalEntry.create({
+      data: {
+        tenantId: original.tenantId,
+        entityId: original.entityId,
+        date: reversalDate,
+        description: options.reason || `Reversal of ${original.description || original.id}`,
+        currency: original.currency,
+        status: 'POSTED',
+        sourceType: 'reversal',
+        sourceId: original.id,
+        reversalOfId: original.id,
+        postedAt: new Date(),
+        createdBy: options.userId ?? null,
+        lines: {
+          create: original.lines.map((line) => ({
+            accountId: line.accountId,
+            debitCents: line.creditCents,
+            creditCents: line.debitCents,
+            description: line.description,
+          })),
+        },
+      },
+      include: { lines: true },
+    })
+
+    await tx.journalEntry.update({
+      where: { id: original.id },
+      data: { status: 'REVERSED' },
+    })
+
+    return reversal
+  }
+
+  return options.tx ? reverse(options.tx) : prisma.$transaction(reverse)
+}
+
+/**
+ * Compute a trial balance for an entity as of a date
+ */
+export async function getTrialBalance(
+  entityId: string,
+  options: { asOf?: Date; from?: Date } = {}
+): Promise<TrialBalance> {
+  const asOf = options.asOf ?? new Date()
+
+  const accounts = await prisma.ledgerAccount.findMany({
+    where: { entityId },
+    select: { id: true, code: true, name: true, type: true },
+    orderBy: { code: 'asc' },
+  })
+
+  // Reversed entries stay in the ledger alongside their reversal, so both
+  // legs are included and net to zero.
+  const sums = await prisma.journalLine.groupBy({
+    by: ['accountId'],
+    where: {
+      journalEntry: {
+        entityId,
+        status: { in: ['POSTED', 'REVERSED'] },
+        date: { lte: asOf, ...(options.from ? { gte: options.from } : {}) },
+      },
+    },
+    _sum: { debitCents: true, creditCents: true },
+  })
+
+  const sumsByAccount = new Map(sums.map((s) => [s.accountId, s._sum]))
+  const rows: TrialBalanceRow[] = []
+  let totalDebitCents = 0
+  let totalCreditCents = 0
+
+  for (const account of accounts) {
+    const sum = sumsByAccount.get(account.id)
+    const debitCents = sum?.debitCents ?? 0
+    const creditCents = sum?.creditCents ?? 0
+    if (debitCents === 0 && creditCents === 0) continue
+
+    const type = account.type as LedgerAccountType
+    const balanceCents = NORMAL_BALANCE[type] === 'DEBIT' ? debitCents - creditCents : creditCents - debitCents
+
+    rows.push({ accountId: account.id, code: account.code, name: account.name, type, debitCents, creditCents, balanceCents })
+    totalDebitCents += debitCents
+    totalCreditCents += creditCents
+  }
+
+  return {
+    entityId,
+    asOf,
+    rows,
+    totalDebitCents,
+    totalCreditCents,
+    isBalanced: totalDebitCents === totalCreditCents,
+  }
+}
@@ -0,0 +1,273 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+
+/**
+ * Accounting Periods
+ *
+ * Each entity's fiscal year is split into twelve monthly periods starting
+ * from the month of `Entity.fiscalYearStart` (January when unset). A period
+ * moves OPEN -> SOFT_CLOSED -> LOCKED:
+ * - SOFT_CLOSED rejects operational postings (invoices, bills, payments,
+ *   expenses, bank feeds) but still accepts manual adjustments and reversals.
+ * - LOCKED rejects everything except the year-end closing entry.
+ * Re-opening is a two-step request/approval by different users, and both
+ * steps are recorded in AuditLog.
+ */
+
+export type AccountingPeriodStatus = 'OPEN' | 'SOFT_CLOSED' | 'LOCKED'
+
+/** Source types produced by day-to-day operations, blocked once a period is soft-closed */
+export const OPERATIONAL_SOURCE_TYPES = ['invoice', 'bill', 'payment', 'expense', 'expense_claim', 'expense_claim_reimbursement', 'bank_transaction']
+
+/** Source types that may post into a locked period */
+const LOCK_EXEMPT_SOURCE_TYPES = ['year_end_close']
+
+export interface PeriodTemplate {
+  fiscalYear: number
+  periodNumber: number
+  name: string
+  startDate: Date
+  endDate: Date
+}
+
+/**
+ * Month (0-11, UTC) the entity's fiscal year starts in
+ */
+export function getFiscalYearStartMonth(fiscalYearStart?: Date | null): number {
+  return fiscalYearStart ? new Date(fiscalYearStart).getUTCMonth() : 0
+}
+
+/**
+ * Fiscal year a date falls in, labelled by the calendar year the fiscal year starts in
+ */
+export function getFiscalYearForDate(date: Date, startMonth: number): number {
+  const year = date.getUTCFullYear()
+  return date.getUTCMonth() >= startMonth ? year : year - 1
+}
+
+/**
+ * First and last instant of a fiscal year
+ */
+export function getFiscalYearBounds(fiscalYear: number, startMonth: number): { startDate: Date; endDate: Date } {
+  return {
+    startDate: new Date(Date.UTC(fiscalYear, startMonth, 1)),
+    endDate: new Date(Date.UTC(fiscalYear + 1, startMonth, 1) - 1),
+  }
+}
+
+/**
+ * Build the twelve monthly periods of a fiscal year
+ */
+export function buildFiscalYearPeriods(fiscalYear: number, startMonth: number): PeriodTemplate[] {
+  return Array.from({ length: 12 }, (_, index) => {
+    const periodNumber = index + 1
+    return {
+      fiscalYear,
+      periodNumber,
+      name: `FY${fiscalYear}-P${String(periodNumber).padStart(2, '0')}`,
+      startDate: new Date(Date.UTC(fiscalYear, startMonth + index, 1)),
+      endDate: new Date(Date.UTC(fiscalYear, startMonth + index + 1, 1) - 1),
+    }
+  })
+}
+
+/**
+ * Whether a posting of the given source type may land in a period with this status
+ */
+export function isPostingAllowed(status: AccountingPeriodStatus, sourceType?: string | null): boolean {
+  if (status === 'OPEN') return true
+  if (status === 'LOCKED') return Boolean(sourceType && LOCK_EXEMPT_SOURCE_TYPES.includes(sourceType))
+  return !sourceType || !OPERATIONAL_SOURCE_TYPES.includes(sourceType)
+}
+
+async function getEntityStartMonth(entityId: string): Promise<{ tenantId: string; startMonth: number }> {
+  const entity = await prisma.entity.findUnique({
+    where: { id: entityId },
+    select: { tenantId: true, fiscalYearStart: true },
+  })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+
+  return { tenantId: entity.tenantId, startMonth: getFiscalYearStartMonth(entity.fiscalYearStart) }
+}
+
+/**
+ * Create any missing periods for a fiscal year and return all twelve
+ */
+export async function ensureFiscalYearPeriods(entityId: string, fiscalYear: number) {
+  const { tenantId, startMonth } = await getEntityStartMonth(entityId)
+
+  const existing = await prisma.accountingPeriod.findMany({
+    where: { entityId, fiscalYear },
+    select: { periodNumber: true },
+  })
+  const known = new Set(existing.map((p) => p.periodNumber))
+  const missing = buildFiscalYearPeriods(fiscalYear, startMonth).filter((p) => !known.has(p.periodNumber))
+
+  if (missing.length > 0) {
+    await prisma.accountingPeriod.createMany({
+      data: missing.map((p) => ({ tenantId, entityId, ...p })),
+      skipDuplicates: true,
+    })
+  }
+
+  return prisma.accountingPeriod.findMany({
+    where: { entityId, fiscalYear },
+    orderBy: { periodNumber: 'asc' },
+  })
+}
+
+/**
+ * Current fiscal year for an entity
+ */
+export async function getCurrentFiscalYear(entityId: string, now: Date = new Date()): Promise<number> {
+  const { startMonth } = await getEntityStartMonth(entityId)
+  return getFiscalYearForDate(now, startMonth)
+}
+
+/**
+ * Find the period covering a date, if one has been opened
+ */
+export async function findPeriodForDate(entityId: string, date: Date) {
+  return prisma.accountingPeriod.findFirst({
+    where: { entityId, startDate: { lte: date }, endDate: { gte: date } },
+  })
+}
+
+/**
+ * Reject a posting dated into a closed or locked period. Dates without a
+ * period record are treated as open.
+ */
+export async function assertPeriodOpen(entityId: string, date: Date, sourceType?: string | null): Promise<void> {
+  const period = await findPeriodForDate(entityId, date)
+  if (!period) return
+
+  const status = period.status as AccountingPeriodStatus
+  if (isPostingAllowed(status, sourceType)) return
+
+  throw new ApiError(
+    status === 'LOCKED' ? 'PERIOD_LOCKED' : 'PERIOD_CLOSED',
+    `Accounting period ${period.name} is ${status === 'LOCKED' ? 'locked' : 'closed'}`,
+    409,
+    { periodId: period.id, period: period.name, status, date: date.toISOString() }
+  )
+}
+
+async function recordPeriodAudit(
+  tx: Pick<typeof prisma, 'auditLog'>,
+  action: string,
+  period: { id: string; tenantId: string; entityId: string; name: string },
+  userId: string,
+  metadata: Record<string, unknown> = {}
+) {
+  await tx.auditLog.create({
+    data: {
+      tenantId: period.tenantId,
+      userId,
+      action,
+      resource: `accounting_period:${period.id}`,
+      metadata: { entityId: period.entityId, period: period.name, ...metadata } as any,
+    },
+  })
+}
+
+async function loadPeriod(periodId: string) {
+  const period = await prisma.accountingPeriod.findUnique({ where: { id: periodId } })
+  if (!period) throw new ApiError('NOT_FOUND', 'Accounting period not found', 404)
+  return period
+}
+
+/**
+ * Soft-close or lock a period
+ */
+export async function closePeriod(periodId: string, userId: string, mode: 'soft' | 'lock') {
+  const period = await loadPeriod(periodId)
+  const target: AccountingPeriodStatus = mode === 'lock' ? 'LOCKED' : 'SOFT_CLOSED'
+
+  if (period.status === target) return period
+  if (period.status === 'LOCKED') {
+    throw new ApiError('INVALID_STATE', `Period ${period.name} is locked and must be re-opened first`, 409)
+  }
+
+  const now = new Date()
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.accountingPeriod.update({
+      where: { id: period.id },
+      data: target === 'LOCKED'
+        ? { status: 'LOCKED', lockedAt: now, lockedBy: userId, closedAt: period.closedAt ?? now, closedBy: period.closedBy ?? userId }
+        : { status: 'SOFT_CLOSED', closedAt: now, closedBy: userId },
+    })
+    await recordPeriodAudit(tx, target === 'LOCKED' ? 'accounting.period.locked' : 'accounting.period.soft_closed', period, userId, {
+      previousStatus: period.status,
+    })
+    return updated
+  })
+}
+
+/**
+ * Ask for a closed or locked period to be re-opened
+ */
+export async function requestPeriodReopen(periodId: string, userId: string, reason: string) {
+  const period = await loadPeriod(periodId)
+  if (period.status === 'OPEN') {
+    throw new ApiError('INVALID_STATE', `Period ${period.name} is already open`, 409)
+  }
+
+  const yearClose = await prisma.fiscalYearClose.findUnique({
+    where: { entityId_fiscalYear: { entityId: period.entityId, fiscalYear: period.fiscalYear } },
+    select: { status: true },
+  })
+  if (yearClose?.status === 'COMPLETED') {
+    throw new ApiError('FISCAL_YEAR_CLOSED', `Fiscal year ${period.fiscalYear} has been closed`, 409)
+  }
+
+  return prisma.$transaction(async (tx) => {
+    const updated = await tx.accountingPeriod.update({
+      where: { id: period.id },
+      data: { reopenRequestedAt: new Date(), reopenRequestedBy: userId, reopenReason: reason },
+    })
+    await recordPeriodAudit(tx, 'accounting.period.reopen_requested', period, userId, { status: period.status, reason })
+    return updated
+  })
+}
+
+/**
+ * Approve a pending re-open request. The approver must not be the requester.
+ */
+export async function approvePeriodReopen(periodId: string, approverId: string) {
+  const period = await loadPeriod(periodId)
+
+  if (!period.reopenRequestedBy) {
+    throw new ApiError('INVALID_STATE', `No re-open request is pending for period ${period.name}`, 409)
+  }
+  if (period.reopenRequestedBy === approverId) {
+    throw new ApiError('SELF_APPROVAL_NOT_ALLOWED', 'A re-open request must be approved by a different user', 403)
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    const reopened = await tx.accountingPeriod.update({
+      where: { id: period.id },
+      data: {
+        status: 'OPEN',
+        closedAt: null,
+        closedBy: null,
+        lockedAt: null,
+        lockedBy: null,
+        reopenRequestedAt: null,
+        reopenRequestedBy: null,
+        reopenReason: null,
+      },
+    })
+    await recordPeriodAudit(tx, 'accounting.period.reopen_approved', period, approverId, {
+      previousStatus: period.status,
+      requestedBy: period.reopenRequestedBy,
+      requestedAt: period.reopenRequestedAt?.toISOString(),
+      reason: period.reopenReason,
+    })
+    return reopened
+  })
+
+  logger.info('Accounting period re-opened', { periodId: period.id, entityId: period.entityId, approverId })
+
+  return updated
+}
@@ -0,0 +1,135 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import {
+  postBankReconciliation,
+  postBankTransaction,
+  postBill,
+  postExpense,
+  postExpenseClaim,
+  postExpenseClaimReimbursement,
+  postInvoice,
+  postPayment,
+  PostingSourceType,
+} from './posting'
+
+/**
+ * Posting Backfill
+ *
+ * Operational writes post to the ledger through `postSafely`, which logs a
+ * failed posting instead of failing the write. This job finds the documents
+ * changed in the last few days that should have posted but have no journal
+ * entry, and posts them again. Each post* returns the entry already booked
+ * for its (entityId, sourceType, sourceId), so a document is never posted
+ * twice however often the job runs.
+ */
+
+interface BackfillSource {
+  sourceType: PostingSourceType
+  /** Documents changed since `since` that may need posting, in id order after `cursor` */
+  candidates: (since: Date, cursor: string | undefined, take: number) => Promise<Array<{ id: string }>>
+  post: (id: string) => Promise<unknown>
+}
+
+const after = (cursor: string | undefined) => (cursor ? { id: { gt: cursor } } : {})
+const page = (take: number) => ({ select: { id: true }, orderBy: { id: 'asc' as const }, take })
+
+// In dependency order: bank lines post before the reconciliations moving them
+const SOURCES: BackfillSource[] = [
+  {
+    sourceType: 'invoice',
+    candidates: (since, cursor, take) =>
+      prisma.invoice.findMany({ where: { updatedAt: { gte: since }, status: { notIn: ['DRAFT', 'VOID'] }, totalCents: { gt: 0 }, ...after(cursor) }, ...page(take) }),
+    post: (id) => postInvoice(id),
+  },
+  {
+    sourceType: 'payment',
+    candidates: (since, cursor, take) =>
+      prisma.payment.findMany({ where: { updatedAt: { gte: since }, amountCents: { gt: 0 }, ...after(cursor) }, ...page(take) }),
+    post: (id) => postPayment(id),
+  },
+  {
+    sourceType: 'expense',
+    candidates: (since, cursor, take) =>
+      prisma.expense.findMany({ where: { updatedAt: { gte: since }, claimId: null, status: { not: 'REJECTED' }, amountCents: { gt: 0 }, ...after(cursor) }, ...page(take) }),
+    post: (id) => postExpense(id),
+  },
+  {
+    sourceType: 'bill',
+    candidates: (since, cursor, take) =>
+      prisma.bill.findMany({ where: { updatedAt: { gte: since }, status: { in: ['APPROVED', 'PAID'] }, totalCents: { gt: 0 }, ...after(cursor) }, ...page(take) }),
+    post: (id) => postBill(id),
+  },
+  {
+    sourceType: 'expense_claim',
+    candidates: (since, cursor, take) =>
+      prisma.expenseClaim.findMany({ where: { updatedAt: { gte: since }, status: { in: ['APPROVED', 'REIMBURSED'] }, totalCents: { gt: 0 }, ...after(cursor) }, ...page(take) }),
+    post: (id) => postExpenseClaim(id),
+  },
+  {
+    sourceType: 'expense_claim_reimbursement',
+    candidates: (since, cursor, take) =>
+      prisma.expenseClaim.findMany({ where: { updatedAt: { gte: since }, status: 'REIMBURSED', totalCents: { gt: 0 }, ...after(cursor) }, ...page(take) }),
+    post: (id) => postExpenseClaimReimbursement(id),
+  },
+  {
+    sourceType: 'bank_transaction',
+    candidates: (since, cursor, take) =>
+      prisma.bankingTransaction.findMany({ where: { updatedAt: { gte: since }, ...after(cursor) }, ...page(take) }),
+    post: (id) => postBankTransaction(id),
+  },
+  {
+    sourceType: 'bank_reconciliation',
+    candidates: (since, cursor, take) =>
+      prisma.bankReconciliationMatch.findMany({ where: { createdAt: { gte: since }, status: 'MATCHED', ...after(cursor) }, ...page(take) }),
+    post: (id) => postBankReconciliation(id),
+  },
+]
+
+export interface PostingBackfillResult {
+  since: Date
+  checked: number
+  posted: number
+  failed: number
+}
+
+/**
+ * Cron: post the documents of the last `lookbackDays` whose posting failed
+ */
+export async function backfillPostings(
+  options: { lookbackDays?: number; batchSize?: number; now?: Date } = {}
+): Promise<PostingBackfillResult> {
+  const { lookbackDays = 7, batchSize = 200, now = new Date() } = options
+  const since = new Date(now.getTime() - lookbackDays * 86400000)
+  const results: PostingBackfillResult = { since, checked: 0, posted: 0, failed: 0 }
+
+  for (const source of SOURCES) {
+    let cursor: string | undefined
+    for (;;) {
+      const batch = await source.candidates(since, cursor, batchSize)
+      if (!batch.length) break
+      cursor = batch[batch.length - 1].id
+      results.checked += batch.length
+
+      const ids = batch.map((row) => row.id)
+      const posted = await prisma.journalEntry.findMany({
+        where: { sourceType: source.sourceType, sourceId: { in: ids } },
+        select: { sourceId: true },
+      })
+      const postedIds = new Set(posted.map((entry) => entry.sourceId))
+
+      for (const id of ids.filter((id) => !postedIds.has(id))) {
+        try {
+          if (await source.post(id)) results.posted++
+        } catch (error) {
+          results.failed++
+          logger.error('Posting backfill failed', { sourceType: source.sourceType, sourceId: id, error: String(error) })
+        }
+      }
+
+      if (batch.length < batchSize) break
+    }
+  }
+
+  if (results.posted || results.failed) logger.info('Posting backfill finished', { ...results })
+  return results
+}
@@ -0,0 +1,775 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { decimalToNumber } from '@/lib/decimal-utils'
+import { seedChartOfAccounts, getExpenseAccountKey, SystemAccountKey } from './chart-of-accounts'
+import { createJournalEntry, JournalLineInput } from './journal'
+import { assertPeriodOpen } from './periods'
+import { captureExchangeRate, CapturedRate, functionalAmount, getFunctionalCurrency } from './fx'
+
+/**
+ * Posting Service
+ *
+ * Turns operational documents into balanced journal entries:
+ * - Invoice:          Dr Accounts Receivable / Cr Sales, Cr VAT Output
+ *                     (debit notes likewise; credit notes are mirrored)
+ * - Payment:          Dr Payments in Transit / Cr Accounts Receivable
+ * - Expense:          Dr Expense (by category), Dr VAT Input / Cr Accounts Payable
+ *                     (reverse charge: Dr VAT Input / Cr VAT Output, self-assessed)
+ * - Bill:             as an expense, one debit per line, once the bill is approved
+ * - Expense claim:    Dr Expense per line, Dr VAT Input / Cr Employee
+ *                     Reimbursements Payable, once finance approves it;
+ *                     reimbursing it: Dr Employee Reimbursements / Cr Bank,
+ *                     Dr/Cr Realized FX on what the payout converts to
+ * - Bank credit:      Dr Bank / Cr Payments in Transit (matched) or Suspense
+ * - Bank debit:       Dr Accounts Payable (matched) or Suspense / Cr Bank
+ * - Realized FX:      Dr/Cr Accounts Receivable / Cr/Dr Realized FX, when a
+ *                     payment settles an invoice booked at another rate
+ * - Reconciliation:   moves reconciled bank lines out of Suspense to what
+ *                     they settled (Payments in Transit, Accounts Payable,
+ *                     a coded account), with bank charges and any FX residual
+ *
+ * Entries are in the entity's functional currency, at the rate each
+ * document captured. Each source document posts at most once per entity,
+ * enforced by the (entityId, sourceType, sourceId) unique key on JournalEntry.
+ */
+
+export type PostingSourceType =
+  | 'invoice'
+  | 'payment'
+  | 'expense'
+  | 'bill'
+  | 'expense_claim'
+  | 'expense_claim_reimbursement'
+  | 'bank_transaction'
+  | 'fx_realized'
+  | 'bank_reconciliation'
+
+/**
+ * Resolve the entity whose books a document belongs to. Documents created
+ * before entities were linked fall back to the tenant's oldest entity.
+ */
+export async function resolvePostingEntityId(
+  tenantId: string,
+  entityId?: string | null
+): Promise<string | null> {
+  if (entityId) return entityId
+
+  const entity = await prisma.entity.findFirst({
+    where: { tenantId },
+    select: { id: true },
+    orderBy: { createdAt: 'asc' },
+  })
+
+  return entity?.id ?? null
+}
+
+/**
+ * Reject an operational document dated into a closed period of the entity
+ * it will post to. Called before the document is written so that nothing is
+ * saved that the ledger would refuse.
+ */
+export async function assertPostingPeriodOpen(
+  tenantId: string | null | undefined,
+  entityId: string | null | undefined,
+  date: Date,
+  sourceType: PostingSourceType
+): Promise<void> {
+  if (!tenantId) return
+  const resolved = await resolvePostingEntityId(tenantId, entityId)
+  if (resolved) await assertPeriodOpen(resolved, date, sourceType)
+}
+
+/**
+ * Capture the functional-currency rate of a document about to be posted.
+ * Documents with no entity to post to capture nothing.
+ */
+export async function captureDocumentRate(
+  tenantId: string,
+  entityId: string | null | undefined,
+  currency: string,
+  date: Date,
+  override?: number | null
+): Promise<CapturedRate> {
+  const resolved = await resolvePostingEntityId(tenantId, entityId)
+  if (!resolved) return { functionalCurrency: null, exchangeRate: null }
+  return captureExchangeRate(resolved, currency, date, override)
+}
+
+/**
+ * Record a foreign document's currency and rate on its journal entry
+ */
+function fxMetadata(document: { currency: string; exchangeRate: unknown; functionalCurrency: string | null }, amountCents: number) {
+  if (!document.functionalCurrency || document.currency.toUpperCase() === document.functionalCurrency) return undefined
+  return { documentCurrency: document.currency, documentAmountCents: amountCents, exchangeRate: Number(document.exchangeRate) }
+}
+
+/**
+ * Load system accounts for an entity, seeding the default chart on first use
+ */
+export async function getSystemAccounts(
+  entityId: string,
+  keys: SystemAccountKey[]
+): Promise<Record<SystemAccountKey, string>> {
+  const load = async () => {
+    const accounts = await prisma.ledgerAccount.findMany({
+      where: { entityId, systemKey: { in: keys }, isActive: true },
+      select: { id: true, systemKey: true },
+    })
+    return new Map(accounts.map((a) => [a.systemKey as SystemAccountKey, a.id]))
+  }
+
+  let found = await load()
+  if (found.size < keys.length) {
+    await seedChartOfAccounts(entityId)
+    found = await load()
+  }
+
+  const missing = keys.filter((k) => !found.has(k))
+  if (missing.length > 0) {
+    throw new ApiError('LEDGER_NOT_CONFIGURED', 'Required ledger accounts are missing', 422, { entityId, missing })
+  }
+
+  return Object.fromEntries(found) as Record<SystemAccountKey, string>
+}
+
+async function findExistingPosting(entityId: string, sourceType: PostingSourceType, sourceId: string) {
+  return prisma.journalEntry.findUnique({
+    where: { entityId_sourceType_sourceId: { entityId, sourceType, sourceId } },
+  })
+}
+
+function toCents(amount: unknown): number {
+  return Math.round(Math.abs(Number(amount)) * 100)
+}
+
+/**
+ * Post an issued invoice to the ledger
+ */
+export async function postInvoice(invoiceId: string, userId?: string | null) {
+  const invoice = await prisma.invoice.findUnique({ where: { id: invoiceId } })
+  if (!invoice) throw new ApiError('NOT_FOUND', 'Invoice not found', 404)
+
+  if (invoice.status === 'DRAFT' || invoice.status === 'VOID' || invoice.totalCents <= 0) {
+    return null
+  }
+
+  const entityId = await resolvePostingEntityId(invoice.tenantId, invoice.entityId)
+  if (!entityId) return null
+
+  const existing = await findExistingPosting(entityId, 'invoice', invoice.id)
+  if (existing) return existing
+
+  const totalCents = invoice.functionalTotalCents ?? invoice.totalCents
+  const taxCents = Math.max(0, invoice.functionalTaxCents ?? invoice.taxCents)
+  const netCents = totalCents - taxCents
+  const isCreditNote = invoice.documentType === 'CREDIT_NOTE'
+  const label = `${isCreditNote ? 'Credit note' : invoice.documentType === 'DEBIT_NOTE' ? 'Debit note' : 'Invoice'} ${invoice.number || invoice.id}`
+  const accounts = await getSystemAccounts(entityId, taxCents > 0 ? ['AR', 'SALES', 'VAT_OUTPUT'] : ['AR', 'SALES'])
+
+  const lines: JournalLineInput[] = isCreditNote
+    ? [
+        { accountId: accounts.SALES, debitCents: netCents },
+        { accountId: accounts.AR, creditCents: totalCents, description: label },
+      ]
+    : [
+        { accountId: accounts.AR, debitCents: totalCents, description: label },
+        { accountId: accounts.SALES, creditCents: netCents },
+      ]
+  if (taxCents > 0) {
+    lines.push(isCreditNote
+      ? { accountId: accounts.VAT_OUTPUT, debitCents: taxCents }
+      : { accountId: accounts.VAT_OUTPUT, creditCents: taxCents })
+  }
+
+  return createJournalEntry({
+    tenantId: invoice.tenantId,
+    entityId,
+    date: invoice.issueDate,
+    description: label,
+    currency: invoice.functionalCurrency ?? invoice.currency,
+    sourceType: 'invoice',
+    sourceId: invoice.id,
+    createdBy: userId,
+    metadata: fxMetadata(invoice, invoice.totalCents),
+    lines,
+  })
+}
+
+/**
+ * Post a received payment. Allocation to invoices does not move the
+ * ledger: the whole amount clears receivables when the payment arrives.
+ */
+export async function postPayment(paymentId: string, userId?: string | null) {
+  const payment = await prisma.payment.findUnique({
+    where: { id: paymentId },
+    include: { allocations: { select: { id: true, invoiceId: true, amountCents: true } } },
+  })
+  if (!payment) throw new ApiError('NOT_FOUND', 'Payment not found', 404)
+  if (payment.amountCents <= 0) return null
+
+  const entityId = await resolvePostingEntityId(payment.tenantId, payment.entityId)
+  if (!entityId) return null
+
+  const existing = await findExistingPosting(entityId, 'payment', payment.id)
+  if (existing) return existing
+
+  // Payment cannot be booked against receivable that was never raised
+  for (const allocation of payment.allocations) {
+    await postInvoice(allocation.invoiceId, userId)
+  }
+
+  const accounts = await getSystemAccounts(entityId, ['PAYMENT_CLEARING', 'AR'])
+  const amountCents = payment.functionalAmountCents ?? payment.amountCents
+
+  const entry = await createJournalEntry({
+    tenantId: payment.tenantId,
+    entityId,
+    date: payment.receivedAt,
+    description: `Payment received${payment.reference ? ` (${payment.reference})` : ''}`,
+    currency: payment.functionalCurrency ?? payment.currency,
+    sourceType: 'payment',
+    sourceId: payment.id,
+    createdBy: userId,
+    metadata: { invoiceIds: payment.allocations.map((a) => a.invoiceId), ...fxMetadata(payment, payment.amountCents) },
+    lines: [
+      { accountId: accounts.PAYMENT_CLEARING, debitCents: amountCents },
+      { accountId: accounts.AR, creditCents: amountCents },
+    ],
+  })
+
+  for (const allocation of payment.allocations) {
+    await postSafely('fx_realized', allocation.id, () =>
+      postRealizedFx(allocation.id, allocation.amountCents, payment.receivedAt, userId)
+    )
+  }
+
+  return entry
+}
+
+/**
+ * Book the realized difference on `amountCents` newly allocated from a
+ * payment to an invoice. The payment cleared receivables at its own rate;
+ * the difference to the invoice's rate is the realized gain or loss.
+ */
+export async function postRealizedFx(allocationId: string, amountCents: number, date: Date, userId?: string | null) {
+  const allocation = await prisma.paymentAllocation.findUnique({
+    where: { id: allocationId },
+    include: { payment: true, invoice: true },
+  })
+  if (!allocation) throw new ApiError('NOT_FOUND', 'Payment allocation not found', 404)
+
+  const { payment, invoice } = allocation
+  if (payment.exchangeRate === null || invoice.exchangeRate === null) return null
+
+  const differenceCents = functionalAmount(amountCents, payment) - functionalAmount(amountCents, invoice)
+  if (differenceCents === 0) return null
+
+  const entityId = await resolvePostingEntityId(payment.tenantId, payment.entityId ?? invoice.entityId)
+  if (!entityId) return null
+
+  // Later allocations add to the same row, so the running total keys each posting
+  const sourceId = `${allocation.id}:${allocation.amountCents}`
+  const existing = await findExistingPosting(entityId, 'fx_realized', sourceId)
+  if (existing) return existing
+
+  const accounts = await getSystemAccounts(entityId, ['AR', 'FX_REALIZED'])
+  const amount = Math.abs(differenceCents)
+  const label = `Realized FX on invoice ${invoice.number || invoice.id}`
+
+  // A gain means receivables were cleared at more than they were booked at
+  const lines: JournalLineInput[] = differenceCents > 0
+    ? [
+        { accountId: accounts.AR, debitCents: amount, description: label },
+        { accountId: accounts.FX_REALIZED, creditCents: amount },
+      ]
+    : [
+        { accountId: accounts.FX_REALIZED, debitCents: amount },
+        { accountId: accounts.AR, creditCents: amount, description: label },
+      ]
+
+  return createJournalEntry({
+    tenantId: payment.tenantId,
+    entityId,
+    date,
+    description: label,
+    currency: payment.functionalCurrency ?? payment.currency,
+    sourceType: 'fx_realized',
+    sourceId,
+    createdBy: userId,
+    metadata: {
+      paymentId: payment.id,
+      invoiceId: invoice.id,
+      amountCents,
+      paymentRate: Number(payment.exchangeRate),
+      invoiceRate: Number(invoice.exchangeRate),
+    },
+    lines,
+  })
+}
+
+/**
+ * Post an expense to the ledger
+ */
+export async function postExpense(expenseId: string, userId?: string | null) {
+  const expense = await prisma.expense.findUnique({ where: { id: expenseId } })
+  if (!expense) throw new ApiError('NOT_FOUND', 'Expense not found', 404)
+  if (expense.status === 'REJECTED' || expense.amountCents <= 0) return null
+  if (expense.claimId) return null // Posted with its claim
+
+  const entityId = await resolvePostingEntityId(expense.tenantId, expense.entityId)
+  if (!entityId) return null
+
+  const existing = await findExistingPosting(entityId, 'expense', expense.id)
+  if (existing) return existing
+
+  const expenseKey = getExpenseAccountKey(expense.category)
+  const amountCents = expense.functionalAmountCents ?? expense.amountCents
+  const chargedTaxCents = expense.functionalTaxCents ?? expense.taxCents
+  const taxCents = expense.taxCategory === 'STANDARD' ? Math.max(0, Math.min(chargedTaxCents, amountCents)) : 0
+  const selfAssessedCents = expense.taxCategory === 'REVERSE_CHARGE'
+    ? Math.round((amountCents * decimalToNumber(expense.taxRate)) / 100)
+    : 0
+  const keys: SystemAccountKey[] = [expenseKey, 'AP']
+  if (taxCents > 0 || selfAssessedCents > 0) keys.push('VAT_INPUT')
+  if (selfAssessedCents > 0) keys.push('VAT_OUTPUT')
+  const accounts = await getSystemAccounts(entityId, keys)
+
+  const lines: JournalLineInput[] = [
+    { accountId: accounts[expenseKey], debitCents: amountCents - taxCents, description: expense.category || undefined },
+    { accountId: accounts.AP, creditCents: amountCents, description: expense.vendor },
+  ]
+  if (taxCents > 0) {
+    lines.push({ accountId: accounts.VAT_INPUT, debitCents: taxCents })
+  }
+  if (selfAssessedCents > 0) {
+    lines.push(
+      { accountId: accounts.VAT_INPUT, debitCents: selfAssessedCents, description: 'Reverse charge' },
+      { accountId: accounts.VAT_OUTPUT, creditCents: selfAssessedCents, description: 'Reverse charge' }
+    )
+  }
+
+  return createJournalEntry({
+    tenantId: expense.tenantId,
+    entityId,
+    date: expense.date,
+    description: `Expense: ${expense.vendor}`,
+    currency: expense.functionalCurrency ?? expense.currency,
+    sourceType: 'expense',
+    sourceId: expense.id,
+    createdBy: userId,
+    metadata: fxMetadata(expense, expense.amountCents),
+    lines,
+  })
+}
+
+/**
+ * Post an approved bill to the ledger. Lines debit their own account or
+ * their category's; rounding from the rate lands on the largest line.
+ */
+export async function postBill(billId: string, userId?: string | null) {
+  const bill = await prisma.bill.findUnique({
+    where: { id: billId },
+    include: { lines: true, vendor: { select: { name: true } } },
+  })
+  if (!bill) throw new ApiError('NOT_FOUND', 'Bill not found', 404)
+  if (!['APPROVED', 'PAID'].includes(bill.status) || bill.totalCents <= 0) return null
+
+  const entityId = await resolvePostingEntityId(bill.tenantId, bill.entityId)
+  if (!entityId) return null
+
+  const existing = await findExistingPosting(entityId, 'bill', bill.id)
+  if (existing) return existing
+
+  const totalCents = bill.functionalTotalCents ?? bill.totalCents
+  const taxCents = Math.max(0, bill.functionalTaxCents ?? bill.taxCents)
+  const selfAssessed = bill.lines
+    .filter((line) => line.taxCategory === 'REVERSE_CHARGE')
+    .reduce((sum, line) => sum + Math.round((functionalAmount(line.netCents, bill) * decimalToNumber(line.taxRate)) / 100), 0)
+
+  const lineKeys = bill.lines.filter((line) => !line.ledgerAccountId).map((line) => getExpenseAccountKey(line.category))
+  const keys = Array.from(new Set<SystemAccountKey>([...lineKeys, 'AP']))
+  if (taxCents > 0 || selfAssessed > 0) keys.push('VAT_INPUT')
+  if (selfAssessed > 0) keys.push('VAT_OUTPUT')
+  const accounts = await getSystemAccounts(entityId, keys)
+
+  const overrides = bill.lines.map((line) => line.ledgerAccountId).filter((id): id is string => Boolean(id))
+  if (overrides.length) {
+    const found = await prisma.ledgerAccount.count({ where: { id: { in: overrides }, entityId, isActive: true } })
+    if (found !== new Set(overrides).size) {
+      throw new ApiError('INVALID_LEDGER_ACCOUNT', 'A bill line is coded to an account that is not active in this entity', 422, { billId: bill.id })
+    }
+  }
+
+  const expenseLines: JournalLineInput[] = bill.lines
+    .filter((line) => line.netCents > 0)
+    .map((line) => ({
+      accountId: line.ledgerAccountId ?? accounts[getExpenseAccountKey(line.category)],
+      debitCents: functionalAmount(line.netCents, bill),
+      description: line.description,
+    }))
+  const residual = totalCents - taxCents - expenseLines.reduce((sum, l) => sum + (l.debitCents ?? 0), 0)
+  if (residual !== 0 && expenseLines.length) {
+    const largest = expenseLines.reduce((max, l) => ((l.debitCents ?? 0) > (max.debitCents ?? 0) ? l : max))
+    largest.debitCents = (largest.debitCents ?? 0) + residual
+  }
+
+  const label = `Bill ${bill.billNumber}: ${bill.vendor.name}`
+  const lines: JournalLineInput[] = [
+    ...expenseLines,
+    { accountId: accounts.AP, creditCents: totalCents, description: label },
+  ]
+  if (taxCents > 0) {
+    lines.push({ accountId: accounts.VAT_INPUT, debitCents: taxCents })
+  }
+  if (selfAssessed > 0) {
+    lines.push(
+      { accountId: accounts.VAT_INPUT, debitCents: selfAssessed, description: 'Reverse charge' },
+      { accountId: accounts.VAT_OUTPUT, creditCents: selfAssessed, description: 'Reverse charge' }
+    )
+  }
+
+  return createJournalEntry({
+    tenantId: bill.tenantId,
+    entityId,
+    date: bill.issueDate,
+    description: label,
+    currency: bill.functionalCurrency ?? bill.currency,
+    sourceType: 'bill',
+    sourceId: bill.id,
+    createdBy: userId,
+    metadata: { vendorId: bill.vendorId, ...fxMetadata(bill, bill.totalCents) },
+    lines,
+  })
+}
+
+/**
+ * What an expense claim owes the employee in the functional currency: its
+ * lines at the rates they captured
+ */
+function claimPayableCents(expenses: Array<{ amountCents: number; functionalAmountCents: number | null }>): number {
+  return expenses.reduce((sum, expense) => sum + (expense.functionalAmountCents ?? expense.amountCents), 0)
+}
+
+/**
+ * Post an approved expense claim: each line to its category's account, the
+ * total owed to the employee
+ */
+export async function postExpenseClaim(claimId: string, userId?: string | null) {
+  const claim = await prisma.expenseClaim.findUnique({
+    where: { id: claimId },
+    include: { expenses: true, user: { select: { name: true, email: true } } },
+  })
+  if (!claim) throw new ApiError('NOT_FOUND', 'Expense claim not found', 404)
+  if (!['APPROVED', 'REIMBURSED'].includes(claim.status) || claim.totalCents <= 0) return null
+
+  const entityId = await resolvePostingEntityId(claim.tenantId, claim.entityId)
+  if (!entityId) return null
+
+  const existing = await findExistingPosting(entityId, 'expense_claim', claim.id)
+  if (existing) return existing
+
+  const items = claim.expenses.map((expense) => {
+    const amountCents = expense.functionalAmountCents ?? expense.amountCents
+    const taxCents = expense.taxCategory === 'STANDARD'
+      ? Math.max(0, Math.min(expense.functionalTaxCents ?? expense.taxCents, amountCents))
+      : 0
+    return { key: getExpenseAccountKey(expense.category), amountCents, taxCents, vendor: expense.vendor }
+  })
+  const keys = Array.from(new Set<SystemAccountKey>([...items.map((item) => item.key), 'EMPLOYEE_PAYABLE']))
+  if (items.some((item) => item.taxCents > 0)) keys.push('VAT_INPUT')
+  const accounts = await getSystemAccounts(entityId, keys)
+
+  const lines: JournalLineInput[] = []
+  for (const item of items) {
+    lines.push({ accountId: accounts[item.key], debitCents: item.amountCents - item.taxCents, description: item.vendor })
+    if (item.taxCents > 0) lines.push({ accountId: accounts.VAT_INPUT, debitCents: item.taxCents })
+  }
+  const label = `Expense claim ${claim.reference}: ${claim.user.name || claim.user.email}`
+  lines.push({ accountId: accounts.EMPLOYEE_PAYABLE, creditCents: claimPayableCents(claim.expenses), description: label })
+
+  return createJournalEntry({
+    tenantId: claim.tenantId,
+    entityId,
+    date: claim.approvedAt ?? new Date(),
+    description: label,
+    currency: await getFunctionalCurrency(entityId),
+    sourceType: 'expense_claim',
+    sourceId: claim.id,
+    createdBy: userId,
+    metadata: { employeeId: claim.userId },
+    lines,
+  })
+}
+
+/**
+ * Post the payment of an expense claim to the employee. The payable is
+ * cleared at what the claim booked; the bank pays the claim's total at the
+ * reimbursement date's rate, and any difference is realized FX.
+ */
+export async function postExpenseClaimReimbursement(claimId: string, userId?: string | null) {
+  const claim = await prisma.expenseClaim.findUnique({ where: { id: claimId }, include: { expenses: true } })
+  if (!claim) throw new ApiError('NOT_FOUND', 'Expense claim not found', 404)
+  if (claim.status !== 'REIMBURSED' || claim.totalCents <= 0) return null
+
+  const entityId = await resolvePostingEntityId(claim.tenantId, claim.entityId)
+  if (!entityId) return null
+
+  const existing = await findExistingPosting(entityId, 'expense_claim_reimbursement', claim.id)
+  if (existing) return existing
+
+  // The payable cannot be cleared before the claim is booked to it
+  await postExpenseClaim(claim.id, userId)
+
+  const date = claim.reimbursedAt ?? new Date()
+  const rate = await captureExchangeRate(entityId, claim.currency, date)
+  const payableCents = claimPayableCents(claim.expenses)
+  const paidCents = functionalAmount(claim.totalCents, rate)
+  const differenceCents = payableCents - paidCents
+
+  const accounts = await getSystemAccounts(entityId, ['EMPLOYEE_PAYABLE', 'BANK', 'FX_REALIZED'])
+  const label = `Expense claim ${claim.reference} reimbursed`
+
+  const lines: JournalLineInput[] = [
+    { accountId: accounts.EMPLOYEE_PAYABLE, debitCents: payableCents, description: label },
+    { accountId: accounts.BANK, creditCents: paidCents, description: claim.reimbursementReference || label },
+  ]
+  // A gain means the employee was paid less than the claim was booked at
+  if (differenceCents > 0) lines.push({ accountId: accounts.FX_REALIZED, creditCents: differenceCents })
+  if (differenceCents < 0) lines.push({ accountId: accounts.FX_REALIZED, debitCents: -differenceCents })
+
+  return createJournalEntry({
+    tenantId: claim.tenantId,
+    entityId,
+    date,
+    description: label,
+    currency: rate.functionalCurrency ?? claim.currency,
+    sourceType: 'expense_claim_reimbursement',
+    sourceId: claim.id,
+    createdBy: userId,
+    metadata: {
+      employeeId: claim.userId,
+      reference: claim.reimbursementReference,
+      ...fxMetadata({ currency: claim.currency, ...rate }, claim.totalCents),
+    },
+    lines,
+  })
+}
+
+/**
+ * Ledger account a bank connection posts to: its own account when one is
+ * set and still active in the entity, otherwise the entity's BANK account
+ */
+export async function getBankLedgerAccountId(
+  entityId: string,
+  ledgerAccountId: string | null | undefined,
+  fallbackId?: string
+): Promise<string> {
+  if (ledgerAccountId) {
+    const account = await prisma.ledgerAccount.findFirst({
+      where: { id: ledgerAccountId, entityId, isActive: true },
+      select: { id: true },
+    })
+    if (account) return account.id
+  }
+  return fallbackId ?? (await getSystemAccounts(entityId, ['BANK'])).BANK
+}
+
+/**
+ * Post an imported bank transaction to the ledger
+ */
+export async function postBankTransaction(transactionId: string, userId?: string | null) {
+  const txn = await prisma.bankingTransaction.findUnique({
+    where: { id: transactionId },
+    include: { connection: { select: { entityId: true, bankName: true, ledgerAccountId: true } } },
+  })
+  if (!txn) throw new ApiError('NOT_FOUND', 'Bank transaction not found', 404)
+
+  const amountCents = txn.functionalAmountCents ?? toCents(txn.amount)
+  if (amountCents === 0) return null
+
+  const entityId = await resolvePostingEntityId(txn.tenantId, txn.connection?.entityId)
+  if (!entityId) return null
+
+  const existing = await findExistingPosting(entityId, 'bank_transaction', txn.id)
+  if (existing) return existing
+
+  const isInflow = txn.type === 'credit'
+  const counterKey: SystemAccountKey = txn.matched
+    ? (isInflow ? 'PAYMENT_CLEARING' : 'AP')
+    : 'SUSPENSE'
+  const accounts = await getSystemAccounts(entityId, ['BANK', counterKey])
+  const bankAccountId = await getBankLedgerAccountId(entityId, txn.connection?.ledgerAccountId, accounts.BANK)
+
+  const lines: JournalLineInput[] = isInflow
+    ? [
+        { accountId: bankAccountId, debitCents: amountCents, description: txn.description },
+        { accountId: accounts[counterKey], creditCents: amountCents },
+      ]
+    : [
+        { accountId: accounts[counterKey], debitCents: amountCents },
+        { accountId: bankAccountId, creditCents: amountCents, description: txn.description },
+      ]
+
+  return createJournalEntry({
+    tenantId: txn.tenantId,
+    entityId,
+    date: txn.date,
+    description: `${txn.connection?.bankName || 'Bank'}: ${txn.description}`,
+    currency: txn.functionalCurrency ?? txn.currency,
+    sourceType: 'bank_transaction',
+    sourceId: txn.id,
+    createdBy: userId,
+    metadata: { matchedToId: txn.matchedToId, matchedToType: txn.matchedToType, ...fxMetadata(txn, toCents(txn.amount)) },
+    lines,
+  })
+}
+
+export interface ReconciliationAmount {
+  accountId: string
+  cents: number
+  description?: string
+}
+
+/**
+ * Lines of a reconciliation entry. The bank lines' counter legs are
+ * reversed; what they settled goes on the other side (credits for money
+ * in, debits for money out); adjustments debit when positive. The
+ * functional amounts rarely agree to the cent across rates, and what is
+ * left over is realized FX.
+ */
+export function buildReconciliationLines(input: {
+  direction: 'credit' | 'debit'
+  counterLegs: JournalLineInput[]
+  settlements: ReconciliationAmount[]
+  adjustments: ReconciliationAmount[]
+  fxAccountId: string
+}): { lines: JournalLineInput[]; fxDifferenceCents: number } {
+  const settlementSide = input.direction === 'credit' ? 'creditCents' : 'debitCents'
+  const lines: JournalLineInput[] = [
+    ...input.counterLegs.map((leg) => ({ accountId: leg.accountId, debitCents: leg.creditCents ?? 0, creditCents: leg.debitCents ?? 0, description: leg.description })),
+    ...input.settlements.map((s) => ({ accountId: s.accountId, [settlementSide]: s.cents, description: s.description })),
+    ...input.adjustments.map((a) => (a.cents >= 0
+      ? { accountId: a.accountId, debitCents: a.cents, description: a.description }
+      : { accountId: a.accountId, creditCents: -a.cents, description: a.description })),
+  ]
+
+  const debits = lines.reduce((sum, l) => sum + (l.debitCents ?? 0), 0)
+  const credits = lines.reduce((sum, l) => sum + (l.creditCents ?? 0), 0)
+  // More debited than credited means more cash came in (or less went out) than was booked: a gain
+  const fxDifferenceCents = debits - credits
+  if (fxDifferenceCents > 0) lines.push({ accountId: input.fxAccountId, creditCents: fxDifferenceCents, description: 'Realized FX on reconciliation' })
+  if (fxDifferenceCents < 0) lines.push({ accountId: input.fxAccountId, debitCents: -fxDifferenceCents, description: 'Realized FX on reconciliation' })
+
+  return { lines, fxDifferenceCents }
+}
+
+const SETTLEMENT_ACCOUNT_KEYS: Record<string, SystemAccountKey> = {
+  invoice: 'PAYMENT_CLEARING',
+  expense: 'AP',
+  bill: 'AP',
+}
+
+/**
+ * Post a bank reconciliation match: move its bank lines out of Suspense
+ * (or wherever they were posted against) to what they settled
+ */
+export async function postBankReconciliation(matchId: string, userId?: string | null) {
+  const match = await prisma.bankReconciliationMatch.findUnique({
+    where: { id: matchId },
+    include: { items: true, connection: { select: { entityId: true, bankName: true, ledgerAccountId: true } } },
+  })
+  if (!match) throw new ApiError('NOT_FOUND', 'Reconciliation match not found', 404)
+  if (match.status !== 'MATCHED') return null
+
+  const entityId = await resolvePostingEntityId(match.tenantId, match.connection.entityId)
+  if (!entityId) return null
+
+  const existing = await findExistingPosting(entityId, 'bank_reconciliation', match.id)
+  if (existing) return existing
+
+  const bankLineIds = match.items.filter((i) => i.itemType === 'bank_transaction').map((i) => i.itemId as string)
+  const bankEntries = await prisma.journalEntry.findMany({
+    where: { entityId, sourceType: 'bank_transaction', sourceId: { in: bankLineIds }, status: 'POSTED' },
+    include: { lines: true },
+  })
+  if (bankEntries.length !== bankLineIds.length) {
+    throw new ApiError('BANK_LINE_NOT_POSTED', 'Every bank line must be posted before it is reconciled', 422, {
+      posted: bankEntries.map((e) => e.sourceId),
+    })
+  }
+
+  const keys = Array.from(new Set<SystemAccountKey>(['BANK', 'FX_REALIZED', 'BANK_CHARGES', ...match.items.map((i) => SETTLEMENT_ACCOUNT_KEYS[i.itemType]).filter(Boolean)]))
+  const accounts = await getSystemAccounts(entityId, keys)
+  const bankAccountId = await getBankLedgerAccountId(entityId, match.connection.ledgerAccountId, accounts.BANK)
+
+  const counterLegs = bankEntries.flatMap((entry) =>
+    entry.lines
+      .filter((line) => line.accountId !== bankAccountId)
+      .map((line) => ({ accountId: line.accountId, debitCents: line.debitCents, creditCents: line.creditCents }))
+  )
+  const amountOf = (item: { functionalAmountCents: number | null; amountCents: number }) => item.functionalAmountCents ?? item.amountCents
+
+  const settlements: ReconciliationAmount[] = []
+  const adjustments: ReconciliationAmount[] = []
+  for (const item of match.items) {
+    if (item.itemType === 'bank_transaction') continue
+    if (item.itemType === 'fee') {
+      adjustments.push({ accountId: accounts.BANK_CHARGES, cents: amountOf(item), description: item.description ?? 'Bank charges' })
+    } else if (item.itemType === 'adjustment') {
+      adjustments.push({ accountId: item.itemId as string, cents: amountOf(item), description: item.description ?? undefined })
+    } else if (item.itemType === 'account') {
+      settlements.push({ accountId: item.itemId as string, cents: amountOf(item), description: item.description ?? undefined })
+    } else {
+      settlements.push({ accountId: accounts[SETTLEMENT_ACCOUNT_KEYS[item.itemType]], cents: amountOf(item), description: item.description ?? undefined })
+    }
+  }
+
+  const { lines, fxDifferenceCents } = buildReconciliationLines({
+    direction: match.direction as 'credit' | 'debit',
+    counterLegs,
+    settlements,
+    adjustments,
+    fxAccountId: accounts.FX_REALIZED,
+  })
+
+  const date = new Date(Math.max(...bankEntries.map((e) => e.date.getTime())))
+  const entry = await createJournalEntry({
+    tenantId: match.tenantId,
+    entityId,
+    date,
+    description: `${match.connection.bankName || 'Bank'}: reconciliation`,
+    currency: bankEntries[0]?.currency,
+    sourceType: 'bank_reconciliation',
+    sourceId: match.id,
+    createdBy: userId,
+    metadata: { bankTransactionIds: bankLineIds, method: match.method, ruleId: match.ruleId, fxDifferenceCents },
+    lines,
+  })
+
+  await prisma.bankReconciliationMatch.update({
+    where: { id: match.id },
+    data: { journalEntryId: entry.id, fxDifferenceCents },
+  })
+
+  return entry
+}
+
+/**
+ * Run a posting without failing the caller. Operational writes (creating an
+ * invoice, syncing a bank feed) must not be rolled back because the ledger
+ * could not be updated; failures are logged, and the posting-backfill cron
+ * (posting-backfill.ts) posts the document again.
+ */
+export async function postSafely<T>(
+  sourceType: PostingSourceType,
+  sourceId: string,
+  post: () => Promise<T>
+): Promise<T | null> {
+  try {
+    return await post()
+  } catch (error) {
+    logger.error('Ledger posting failed', { sourceType, sourceId, error: String(error) })
+    return null
+  }
+}
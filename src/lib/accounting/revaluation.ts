@@ -0,0 +1,231 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { decimalToNumber } from '@/lib/decimal-utils'
+import { getOutstandingCents, OPEN_INVOICE_STATUSES } from '@/lib/invoicing/balances'
+import { findExchangeRate, functionalAmount, getFunctionalCurrency, toFunctionalCents } from './fx'
+import { createJournalEntry, JournalLineInput, reverseJournalEntry } from './journal'
+import { getSystemAccounts } from './posting'
+
+/**
+ * FX Revaluation
+ *
+ * Month-end restatement of open foreign-currency receivables, payables and
+ * bank balances at the closing rate. The unrealized difference is posted
+ * at the month end and reversed on the first day of the next month, so
+ * settlements keep booking their realized difference against the original
+ * rates.
+ */
+
+export interface RevaluationItem {
+  kind: 'AR' | 'AP' | 'BANK'
+  sourceId: string
+  currency: string
+  foreignCents: number // Open amount in document currency; positive for the account's normal balance
+  bookedCents: number // The same amount at the rates it was booked at
+}
+
+export interface RevaluationLine extends RevaluationItem {
+  closingRate: number
+  revaluedCents: number
+  differenceCents: number // Positive is a gain
+}
+
+/**
+ * Restate open items at closing rates. Items whose currency has no closing
+ * rate are left out and reported by the caller.
+ */
+export function computeRevaluation(items: RevaluationItem[], closingRates: Map<string, number>): RevaluationLine[] {
+  const lines: RevaluationLine[] = []
+  for (const item of items) {
+    const closingRate = closingRates.get(item.currency)
+    if (!closingRate || item.foreignCents === 0) continue
+    const revaluedCents = toFunctionalCents(item.foreignCents, closingRate)
+    // Assets gain when restated upwards, liabilities when restated downwards
+    const movement = revaluedCents - item.bookedCents
+    const differenceCents = item.kind === 'AP' ? -movement : movement
+    if (differenceCents !== 0) lines.push({ ...item, closingRate, revaluedCents, differenceCents })
+  }
+  return lines
+}
+
+async function loadOpenItems(tenantId: string, entityId: string, functionalCurrency: string, asOf: Date) {
+  const notFunctional = { not: functionalCurrency }
+  const [invoices, expenses, transactions] = await Promise.all([
+    prisma.invoice.findMany({
+      where: {
+        tenantId,
+        entityId,
+        currency: notFunctional,
+        documentType: { not: 'CREDIT_NOTE' },
+        status: { in: OPEN_INVOICE_STATUSES },
+        issueDate: { lte: asOf },
+        exchangeRate: { not: null },
+      },
+      select: { id: true, currency: true, totalCents: true, paidCents: true, creditedCents: true, exchangeRate: true },
+    }),
+    prisma.expense.findMany({
+      where: {
+        tenantId,
+        entityId,
+        currency: notFunctional,
+        claimId: null, // Claims are owed to employees in the functional currency
+        status: { in: ['PENDING', 'APPROVED'] },
+        date: { lte: asOf },
+        exchangeRate: { not: null },
+      },
+      select: { id: true, currency: true, amountCents: true, functionalAmountCents: true },
+    }),
+    prisma.bankingTransaction.findMany({
+      where: {
+        tenantId,
+        currency: notFunctional,
+        date: { lte: asOf },
+        functionalAmountCents: { not: null },
+        connection: { entityId },
+      },
+      select: { connectionId: true, currency: true, amount: true, type: true, functionalAmountCents: true },
+    }),
+  ])
+
+  const items: RevaluationItem[] = []
+
+  for (const invoice of invoices) {
+    const outstanding = getOutstandingCents(invoice)
+    if (outstanding <= 0) continue
+    items.push({
+      kind: 'AR',
+      sourceId: invoice.id,
+      currency: invoice.currency.toUpperCase(),
+      foreignCents: outstanding,
+      bookedCents: functionalAmount(outstanding, invoice),
+    })
+  }
+
+  for (const expense of expenses) {
+    items.push({
+      kind: 'AP',
+      sourceId: expense.id,
+      currency: expense.currency.toUpperCase(),
+      foreignCents: expense.amountCents,
+      bookedCents: expense.functionalAmountCents ?? expense.amountCents,
+    })
+  }
+
+  // Foreign bank balances, per account and currency
+  const balances = new Map<string, RevaluationItem>()
+  for (const txn of transactions) {
+    const currency = txn.currency.toUpperCase()
+    const key = `${txn.connectionId}:${currency}`
+    const sign = txn.type === 'credit' ? 1 : -1
+    const item = balances.get(key) ?? { kind: 'BANK' as const, sourceId: txn.connectionId, currency, foreignCents: 0, bookedCents: 0 }
+    item.foreignCents += sign * Math.round(Math.abs(decimalToNumber(txn.amount as any)) * 100)
+    item.bookedCents += sign * (txn.functionalAmountCents ?? 0)
+    balances.set(key, item)
+  }
+  items.push(...Array.from(balances.values()))
+
+  return items
+}
+
+/**
+ * Post the month-end revaluation of an entity's open foreign-currency
+ * items at the rates of `asOf`, and its reversal on the following day.
+ * Idempotent per entity and date.
+ */
+export async function revalueForeignBalances(entityId: string, asOf: Date, userId?: string | null) {
+  const entity = await prisma.entity.findUnique({ where: { id: entityId }, select: { id: true, tenantId: true } })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+
+  const sourceId = asOf.toISOString().slice(0, 10)
+  const existing = await prisma.journalEntry.findUnique({
+    where: { entityId_sourceType_sourceId: { entityId, sourceType: 'fx_revaluation', sourceId } },
+  })
+  if (existing) return { entry: existing, lines: [] as RevaluationLine[], missingRates: [] as string[] }
+
+  const functionalCurrency = await getFunctionalCurrency(entityId)
+  const items = await loadOpenItems(entity.tenantId, entityId, functionalCurrency, asOf)
+
+  const closingRates = new Map<string, number>()
+  const missingRates: string[] = []
+  for (const currency of Array.from(new Set(items.map((i) => i.currency)))) {
+    const rate = await findExchangeRate(currency, functionalCurrency, asOf)
+    if (rate) closingRates.set(currency, rate)
+    else missingRates.push(currency)
+  }
+
+  const lines = computeRevaluation(items, closingRates)
+  if (missingRates.length) {
+    logger.warn('FX revaluation skipped currencies without a closing rate', { entityId, asOf: sourceId, missingRates })
+  }
+  if (lines.length === 0) return { entry: null, lines, missingRates }
+
+  const accounts = await getSystemAccounts(entityId, ['AR', 'AP', 'BANK', 'FX_UNREALIZED'])
+  const accountFor = { AR: accounts.AR, AP: accounts.AP, BANK: accounts.BANK }
+  const journalLines: JournalLineInput[] = []
+  for (const line of lines) {
+    const amount = Math.abs(line.differenceCents)
+    const description = `${line.kind} ${line.currency} ${line.sourceId} @ ${line.closingRate}`
+    const gain = line.differenceCents > 0
+    // A gain raises an asset (debit) or lowers a liability (debit)
+    journalLines.push(
+      gain
+        ? { accountId: accountFor[line.kind], debitCents: amount, description }
+        : { accountId: accountFor[line.kind], creditCents: amount, description },
+      gain
+        ? { accountId: accounts.FX_UNREALIZED, creditCents: amount }
+        : { accountId: accounts.FX_UNREALIZED, debitCents: amount }
+    )
+  }
+
+  const entry = await createJournalEntry({
+    tenantId: entity.tenantId,
+    entityId,
+    date: asOf,
+    description: `Unrealized FX revaluation at ${sourceId}`,
+    currency: functionalCurrency,
+    sourceType: 'fx_revaluation',
+    sourceId,
+    createdBy: userId,
+    metadata: { closingRates: Object.fromEntries(closingRates), missingRates },
+    lines: journalLines,
+  })
+
+  const reversalDate = new Date(asOf)
+  reversalDate.setUTCDate(reversalDate.getUTCDate() + 1)
+  reversalDate.setUTCHours(0, 0, 0, 0)
+  await reverseJournalEntry(entry.id, { date: reversalDate, reason: `Reversal of unrealized FX revaluation at ${sourceId}`, userId })
+
+  return { entry, lines, missingRates }
+}
+
+/**
+ * Last moment of the month before `now`, in UTC
+ */
+export function previousMonthEnd(now: Date = new Date()): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 0, 23, 59, 59, 999))
+}
+
+/**
+ * Cron: revalue every active entity at the end of the previous month
+ */
+export async function runMonthEndRevaluation(now: Date = new Date()) {
+  const asOf = previousMonthEnd(now)
+  const entities = await prisma.entity.findMany({ where: { status: 'ACTIVE' }, select: { id: true } })
+  const results = { asOf: asOf.toISOString(), entities: entities.length, posted: 0, failed: 0, missingRates: [] as string[] }
+
+  for (const entity of entities) {
+    try {
+      const outcome = await revalueForeignBalances(entity.id, asOf)
+      if (outcome.entry && outcome.lines.length) results.posted++
+      for (const currency of outcome.missingRates) {
+        if (!results.missingRates.includes(currency)) results.missingRates.push(currency)
+      }
+    } catch (error) {
+      results.failed++
+      logger.error('FX revaluation failed', { entityId: entity.id, asOf: results.asOf, error: String(error) })
+    }
+  }
+
+  return results
+}
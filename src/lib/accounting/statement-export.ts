@@ -0,0 +1,147 @@
+import { buildPdf, PdfPage, PdfText, A4 } from '@/lib/exports/pdf'
+import { buildXlsx, XlsxCell, XlsxSheet } from '@/lib/exports/xlsx'
+import { FinancialStatement, FinancialStatements, StatementRow } from './statements'
+
+/**
+ * Statement Exports
+ *
+ * Renders generated financial statements as an XLSX workbook (one sheet
+ * per statement) or a PDF (one or more pages per statement).
+ */
+
+const SHEET_NAMES: Record<FinancialStatement['type'], string> = {
+  income_statement: 'Profit or loss',
+  balance_sheet: 'Financial position',
+  cash_flow: 'Cash flows',
+}
+
+/**
+ * Cents in accounting notation: thousands separators, negatives in brackets
+ */
+export function formatStatementAmount(cents: number): string {
+  if (cents === 0) return '-'
+  const formatted = (Math.abs(cents) / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+  return cents < 0 ? `(${formatted})` : formatted
+}
+
+function subtitle(result: FinancialStatements): string {
+  if (!result.consolidated) return result.entity.name
+  return `${result.entity.name} and subsidiaries (${result.entities.length} entities)`
+}
+
+function statementSheet(result: FinancialStatements, statement: FinancialStatement): XlsxSheet {
+  const rows: XlsxCell[][] = [
+    [{ value: statement.title, style: 'title' }],
+    [subtitle(result)],
+    [`Amounts in ${result.currency}`],
+    [],
+    [{ value: '', style: 'bold' }, ...statement.columns.map((column) => ({ value: column.label, style: 'bold' as const }))],
+  ]
+
+  for (const row of statement.rows) {
+    if (row.kind === 'heading') {
+      rows.push([{ value: row.label, style: 'bold' }])
+      continue
+    }
+    const emphasis = row.kind !== 'line'
+    rows.push([
+      emphasis ? { value: row.label, style: 'bold' } : { value: row.label, indent: 1 },
+      ...row.amounts.map((cents) => ({ value: cents / 100, style: emphasis ? ('boldAmount' as const) : ('amount' as const) })),
+    ])
+  }
+
+  return { name: SHEET_NAMES[statement.type], rows, columnWidths: [52, ...statement.columns.map(() => 24)] }
+}
+
+/**
+ * Workbook with a sheet per statement, plus notes when there are any
+ */
+export async function renderStatementsXlsx(result: FinancialStatements): Promise<Buffer> {
+  const sheets = result.statements.map((statement) => statementSheet(result, statement))
+
+  if (result.consolidated || result.warnings.length) {
+    const rows: XlsxCell[][] = [[{ value: 'Notes', style: 'title' }], []]
+    if (result.consolidated) {
+      rows.push([{ value: 'Entities consolidated', style: 'bold' }, { value: 'Functional currency', style: 'bold' }])
+      rows.push(...result.entities.map((entity) => [entity.name, entity.currency]))
+      rows.push([])
+    }
+    rows.push(...result.warnings.map((warning) => [warning]))
+    sheets.push({ name: 'Notes', rows, columnWidths: [60, 20] })
+  }
+
+  return buildXlsx(sheets)
+}
+
+const MARGIN = 40
+const LINE_HEIGHT = 14
+const PAGE_BOTTOM = A4.height - 50
+const LABEL_WIDTH = 300
+
+/**
+ * Right edges of the amount columns, spread over the space after the labels
+ */
+function amountEdges(count: number): number[] {
+  const right = A4.width - MARGIN
+  const width = (right - (MARGIN + LABEL_WIDTH)) / Math.max(count, 1)
+  return Array.from({ length: count }, (_, i) => right - (count - 1 - i) * width)
+}
+
+function statementPages(result: FinancialStatements, statement: FinancialStatement): PdfPage[] {
+  const edges = amountEdges(statement.columns.length)
+  const pages: PdfPage[] = []
+  let page: PdfPage
+  let y = 0
+
+  const startPage = () => {
+    page = { texts: [], rules: [] }
+    pages.push(page)
+    const continued = pages.length > 1 ? ' (continued)' : ''
+    page.texts.push(
+      { x: MARGIN, y: 50, text: `${statement.title}${continued}`, size: 14, bold: true },
+      { x: MARGIN, y: 68, text: subtitle(result), size: 10 },
+      { x: MARGIN, y: 82, text: `Amounts in ${result.currency}`, size: 9 }
+    )
+    statement.columns.forEach((column, i) => {
+      page.texts.push({ x: edges[i], y: 110, text: column.label, size: 8, bold: true, align: 'right' })
+    })
+    page.rules!.push({ x1: MARGIN, y1: 116, x2: A4.width - MARGIN, y2: 116 })
+    y = 132
+  }
+
+  const writeRow = (row: StatementRow) => {
+    const emphasis = row.kind !== 'line'
+    if (row.kind === 'heading') y += 4
+    if (emphasis && row.kind !== 'heading') {
+      page.rules!.push({ x1: MARGIN + LABEL_WIDTH, y1: y - 10, x2: A4.width - MARGIN, y2: y - 10, width: row.kind === 'total' ? 1 : 0.5 })
+    }
+    const texts: PdfText[] = [{ x: row.kind === 'line' ? MARGIN + 10 : MARGIN, y, text: row.label, size: 9, bold: emphasis }]
+    row.amounts.forEach((cents, i) => {
+      texts.push({ x: edges[i], y, text: formatStatementAmount(cents), size: 9, bold: emphasis, align: 'right' })
+    })
+    page.texts.push(...texts)
+    y += row.kind === 'total' ? LINE_HEIGHT + 6 : LINE_HEIGHT
+  }
+
+  startPage()
+  for (const row of statement.rows) {
+    if (y > PAGE_BOTTOM) startPage()
+    writeRow(row)
+  }
+  return pages
+}
+
+/**
+ * PDF with each statement starting on a new page and any notes at the end
+ */
+export async function renderStatementsPdf(result: FinancialStatements): Promise<Buffer> {
+  const pages = result.statements.flatMap((statement) => statementPages(result, statement))
+
+  if (result.warnings.length) {
+    const notes: PdfPage = { texts: [{ x: MARGIN, y: 50, text: 'Notes', size: 14, bold: true }] }
+    result.warnings.forEach((warning, i) => notes.texts.push({ x: MARGIN, y: 76 + i * LINE_HEIGHT, text: warning, size: 9 }))
+    pages.push(notes)
+  }
+
+  return buildPdf(pages, { title: `${subtitle(result)} financial statements` })
+}
@@ -0,0 +1,666 @@
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { LedgerAccountType, SystemAccountKey } from './chart-of-accounts'
+import { findExchangeRate, getFunctionalCurrency } from './fx'
+
+/**
+ * Financial Statements
+ *
+ * Income statement, balance sheet and indirect cash-flow statement built
+ * from the ledger. Accounts map to IFRS-style presentation lines through
+ * their system key, overridable per account with metadata.statementLine.
+ *
+ * Consolidated statements cover an entity and every entity below it.
+ * Balances on accounts flagged metadata.intercompany are eliminated; any
+ * amount that does not net to zero across the group is shown as an
+ * unreconciled difference in equity. Members keeping books in another
+ * currency are translated at the closing rate (balance sheet) and the
+ * average of the opening and closing rates (income statement).
+ */
+
+export type StatementType = 'income_statement' | 'balance_sheet' | 'cash_flow'
+
+export type StatementComparison = 'none' | 'prior_period' | 'prior_year'
+
+export const STATEMENT_LINE_KEYS = [
+  // Income statement
+  'revenue',
+  'other_income',
+  'employee_benefits',
+  'depreciation',
+  'operating_expenses',
+  'fx_gains_losses',
+  'finance_costs',
+  'income_tax',
+  // Balance sheet
+  'property_plant_equipment',
+  'other_non_current_assets',
+  'trade_receivables',
+  'current_tax_assets',
+  'prepayments',
+  'other_current_assets',
+  'cash_and_equivalents',
+  'share_capital',
+  'retained_earnings',
+  'other_reserves',
+  'intercompany_difference',
+  'non_current_liabilities',
+  'trade_payables',
+  'accruals',
+  'current_tax_liabilities',
+  'other_current_liabilities',
+] as const
+
+export type StatementLineKey = (typeof STATEMENT_LINE_KEYS)[number]
+
+/** Net debit per presentation line */
+export type LineTotals = Partial<Record<StatementLineKey, number>>
+
+interface LineDefinition {
+  label: string
+  statement: 'income_statement' | 'balance_sheet'
+  /** Applied to the net debit: assets show debit balances, everything else credit */
+  sign: 1 | -1
+}
+
+export const STATEMENT_LINES: Record<StatementLineKey, LineDefinition> = {
+  revenue: { label: 'Revenue', statement: 'income_statement', sign: -1 },
+  other_income: { label: 'Other income', statement: 'income_statement', sign: -1 },
+  employee_benefits: { label: 'Employee benefits expense', statement: 'income_statement', sign: -1 },
+  depreciation: { label: 'Depreciation and amortisation', statement: 'income_statement', sign: -1 },
+  operating_expenses: { label: 'Other operating expenses', statement: 'income_statement', sign: -1 },
+  fx_gains_losses: { label: 'Net foreign exchange gains (losses)', statement: 'income_statement', sign: -1 },
+  finance_costs: { label: 'Finance costs', statement: 'income_statement', sign: -1 },
+  income_tax: { label: 'Income tax and zakat', statement: 'income_statement', sign: -1 },
+  property_plant_equipment: { label: 'Property, plant and equipment', statement: 'balance_sheet', sign: 1 },
+  other_non_current_assets: { label: 'Other non-current assets', statement: 'balance_sheet', sign: 1 },
+  trade_receivables: { label: 'Trade receivables', statement: 'balance_sheet', sign: 1 },
+  current_tax_assets: { label: 'Current tax assets', statement: 'balance_sheet', sign: 1 },
+  prepayments: { label: 'Prepayments', statement: 'balance_sheet', sign: 1 },
+  other_current_assets: { label: 'Other current assets', statement: 'balance_sheet', sign: 1 },
+  cash_and_equivalents: { label: 'Cash and cash equivalents', statement: 'balance_sheet', sign: 1 },
+  share_capital: { label: 'Share capital', statement: 'balance_sheet', sign: -1 },
+  retained_earnings: { label: 'Retained earnings', statement: 'balance_sheet', sign: -1 },
+  other_reserves: { label: 'Other reserves', statement: 'balance_sheet', sign: -1 },
+  intercompany_difference: { label: 'Unreconciled intercompany differences', statement: 'balance_sheet', sign: -1 },
+  non_current_liabilities: { label: 'Non-current liabilities', statement: 'balance_sheet', sign: -1 },
+  trade_payables: { label: 'Trade payables', statement: 'balance_sheet', sign: -1 },
+  accruals: { label: 'Accruals', statement: 'balance_sheet', sign: -1 },
+  current_tax_liabilities: { label: 'Current tax liabilities', statement: 'balance_sheet', sign: -1 },
+  other_current_liabilities: { label: 'Other current liabilities', statement: 'balance_sheet', sign: -1 },
+}
+
+const SYSTEM_KEY_LINES: Partial<Record<SystemAccountKey, StatementLineKey>> = {
+  CASH: 'cash_and_equivalents',
+  BANK: 'cash_and_equivalents',
+  PAYMENT_CLEARING: 'cash_and_equivalents',
+  AR: 'trade_receivables',
+  VAT_INPUT: 'current_tax_assets',
+  PREPAYMENTS: 'prepayments',
+  FIXED_ASSETS: 'property_plant_equipment',
+  ACCUMULATED_DEPRECIATION: 'property_plant_equipment',
+  SUSPENSE: 'other_current_assets',
+  AP: 'trade_payables',
+  EMPLOYEE_PAYABLE: 'other_current_liabilities',
+  ACCRUED_LIABILITIES: 'accruals',
+  VAT_OUTPUT: 'current_tax_liabilities',
+  CORPORATE_TAX_PAYABLE: 'current_tax_liabilities',
+  ZAKAT_PAYABLE: 'current_tax_liabilities',
+  WHT_PAYABLE: 'current_tax_liabilities',
+  SHARE_CAPITAL: 'share_capital',
+  RETAINED_EARNINGS: 'retained_earnings',
+  REVALUATION_RESERVE: 'other_reserves',
+  SALES: 'revenue',
+  OTHER_INCOME: 'other_income',
+  FX_REALIZED: 'fx_gains_losses',
+  FX_UNREALIZED: 'fx_gains_losses',
+  ASSET_DISPOSAL: 'other_income',
+  SALARIES: 'employee_benefits',
+  DEPRECIATION: 'depreciation',
+  BANK_CHARGES: 'finance_costs',
+  CORPORATE_TAX_EXPENSE: 'income_tax',
+  ZAKAT_EXPENSE: 'income_tax',
+}
+
+const DEFAULT_LINES: Record<LedgerAccountType, StatementLineKey> = {
+  ASSET: 'other_current_assets',
+  LIABILITY: 'other_current_liabilities',
+  EQUITY: 'other_reserves',
+  REVENUE: 'revenue',
+  EXPENSE: 'operating_expenses',
+}
+
+export interface StatementAccount {
+  type: LedgerAccountType
+  systemKey?: string | null
+  metadata?: unknown
+}
+
+/**
+ * Balance of one account, as net debit in the entity's functional currency
+ */
+export interface AccountBalance {
+  accountId: string
+  entityId: string
+  type: LedgerAccountType
+  line: StatementLineKey
+  intercompany: boolean
+  netDebitCents: number
+}
+
+export interface StatementColumn {
+  label: string
+  from: Date | null
+  to: Date
+}
+
+export interface StatementRow {
+  key: string
+  label: string
+  kind: 'heading' | 'line' | 'subtotal' | 'total'
+  amounts: number[] // Cents per column
+}
+
+export interface FinancialStatement {
+  type: StatementType
+  title: string
+  columns: StatementColumn[]
+  rows: StatementRow[]
+}
+
+export interface FinancialStatements {
+  entity: { id: string; name: string }
+  entities: Array<{ id: string; name: string; currency: string }>
+  consolidated: boolean
+  currency: string
+  comparison: StatementComparison
+  statements: FinancialStatement[]
+  warnings: string[]
+}
+
+export interface GenerateStatementsOptions {
+  from: Date
+  to: Date
+  comparison?: StatementComparison
+  consolidate?: boolean
+  types?: StatementType[]
+}
+
+function isProfitAndLoss(type: LedgerAccountType): boolean {
+  return type === 'REVENUE' || type === 'EXPENSE'
+}
+
+/**
+ * Presentation line for an account. A metadata override only applies
+ * when it belongs to the statement the account's type reports on.
+ */
+export function resolveStatementLine(account: StatementAccount): StatementLineKey {
+  const statement = isProfitAndLoss(account.type) ? 'income_statement' : 'balance_sheet'
+  const override = (account.metadata as Record<string, unknown> | null)?.statementLine
+  if (typeof override === 'string' && override in STATEMENT_LINES) {
+    const line = override as StatementLineKey
+    if (STATEMENT_LINES[line].statement === statement) return line
+  }
+  const mapped = account.systemKey ? SYSTEM_KEY_LINES[account.systemKey as SystemAccountKey] : undefined
+  return mapped ?? DEFAULT_LINES[account.type]
+}
+
+export function isIntercompanyAccount(account: StatementAccount): boolean {
+  return (account.metadata as Record<string, unknown> | null)?.intercompany === true
+}
+
+/**
+ * Drop intercompany balances. What does not net to zero across the group
+ * is returned as the difference (net debit) to carry in equity.
+ */
+export function eliminateIntercompany(balances: AccountBalance[]): { balances: AccountBalance[]; eliminatedCents: number; differenceCents: number } {
+  let eliminatedCents = 0
+  let differenceCents = 0
+  const kept: AccountBalance[] = []
+  for (const balance of balances) {
+    if (!balance.intercompany) {
+      kept.push(balance)
+      continue
+    }
+    eliminatedCents += Math.abs(balance.netDebitCents)
+    differenceCents += balance.netDebitCents
+  }
+  return { balances: kept, eliminatedCents, differenceCents }
+}
+
+/**
+ * Total balances per presentation line. On the balance sheet, income and
+ * expense accounts not yet closed are part of retained earnings.
+ */
+export function summarizeBalances(balances: AccountBalance[], statement: 'income_statement' | 'balance_sheet'): LineTotals {
+  const totals: LineTotals = {}
+  for (const balance of balances) {
+    const pnl = isProfitAndLoss(balance.type)
+    if (statement === 'income_statement' && !pnl) continue
+    const line = statement === 'balance_sheet' && pnl ? 'retained_earnings' : balance.line
+    totals[line] = (totals[line] ?? 0) + balance.netDebitCents
+  }
+  return totals
+}
+
+type LayoutItem =
+  | { kind: 'heading'; key: string; label: string }
+  | { kind: 'line'; key: StatementLineKey }
+  | { kind: 'subtotal' | 'total'; key: string; label: string; of: StatementLineKey[] }
+
+const OPERATING_LINES: StatementLineKey[] = ['revenue', 'other_income', 'employee_benefits', 'depreciation', 'operating_expenses']
+const PRE_TAX_LINES: StatementLineKey[] = [...OPERATING_LINES, 'fx_gains_losses', 'finance_costs']
+const PROFIT_LINES: StatementLineKey[] = [...PRE_TAX_LINES, 'income_tax']
+
+const NON_CURRENT_ASSET_LINES: StatementLineKey[] = ['property_plant_equipment', 'other_non_current_assets']
+const CURRENT_ASSET_LINES: StatementLineKey[] = ['trade_receivables', 'current_tax_assets', 'prepayments', 'other_current_assets', 'cash_and_equivalents']
+const EQUITY_LINES: StatementLineKey[] = ['share_capital', 'retained_earnings', 'other_reserves', 'intercompany_difference']
+const CURRENT_LIABILITY_LINES: StatementLineKey[] = ['trade_payables', 'accruals', 'current_tax_liabilities', 'other_current_liabilities']
+const LIABILITY_LINES: StatementLineKey[] = ['non_current_liabilities', ...CURRENT_LIABILITY_LINES]
+
+const lines = (keys: StatementLineKey[]): LayoutItem[] => keys.map((key) => ({ kind: 'line', key }))
+
+const INCOME_STATEMENT_LAYOUT: LayoutItem[] = [
+  ...lines(OPERATING_LINES),
+  { kind: 'subtotal', key: 'operating_profit', label: 'Operating profit', of: OPERATING_LINES },
+  ...lines(['fx_gains_losses', 'finance_costs']),
+  { kind: 'subtotal', key: 'profit_before_tax', label: 'Profit before tax', of: PRE_TAX_LINES },
+  ...lines(['income_tax']),
+  { kind: 'total', key: 'profit_for_period', label: 'Profit for the period', of: PROFIT_LINES },
+]
+
+const BALANCE_SHEET_LAYOUT: LayoutItem[] = [
+  { kind: 'heading', key: 'assets', label: 'Assets' },
+  ...lines(NON_CURRENT_ASSET_LINES),
+  { kind: 'subtotal', key: 'total_non_current_assets', label: 'Total non-current assets', of: NON_CURRENT_ASSET_LINES },
+  ...lines(CURRENT_ASSET_LINES),
+  { kind: 'subtotal', key: 'total_current_assets', label: 'Total current assets', of: CURRENT_ASSET_LINES },
+  { kind: 'total', key: 'total_assets', label: 'Total assets', of: [...NON_CURRENT_ASSET_LINES, ...CURRENT_ASSET_LINES] },
+  { kind: 'heading', key: 'equity_and_liabilities', label: 'Equity and liabilities' },
+  ...lines(EQUITY_LINES),
+  { kind: 'subtotal', key: 'total_equity', label: 'Total equity', of: EQUITY_LINES },
+  ...lines(['non_current_liabilities', ...CURRENT_LIABILITY_LINES]),
+  { kind: 'subtotal', key: 'total_current_liabilities', label: 'Total current liabilities', of: CURRENT_LIABILITY_LINES },
+  { kind: 'subtotal', key: 'total_liabilities', label: 'Total liabilities', of: LIABILITY_LINES },
+  { kind: 'total', key: 'total_equity_and_liabilities', label: 'Total equity and liabilities', of: [...EQUITY_LINES, ...LIABILITY_LINES] },
+]
+
+function present(totals: LineTotals, key: StatementLineKey): number {
+  const value = STATEMENT_LINES[key].sign * (totals[key] ?? 0)
+  return value === 0 ? 0 : value // No negative zero
+}
+
+/**
+ * Rows of a layout; lines that are zero in every column are left out
+ */
+function layoutRows(layout: LayoutItem[], columns: LineTotals[]): StatementRow[] {
+  const rows: StatementRow[] = []
+  for (const item of layout) {
+    if (item.kind === 'heading') {
+      rows.push({ key: item.key, label: item.label, kind: 'heading', amounts: [] })
+    } else if (item.kind === 'line') {
+      const amounts = columns.map((totals) => present(totals, item.key))
+      if (amounts.some((a) => a !== 0)) rows.push({ key: item.key, label: STATEMENT_LINES[item.key].label, kind: 'line', amounts })
+    } else {
+      const amounts = columns.map((totals) => item.of.reduce((sum, key) => sum + present(totals, key), 0))
+      rows.push({ key: item.key, label: item.label, kind: item.kind, amounts })
+    }
+  }
+  return rows
+}
+
+export function buildIncomeStatementRows(columns: LineTotals[]): StatementRow[] {
+  return layoutRows(INCOME_STATEMENT_LAYOUT, columns)
+}
+
+export function buildBalanceSheetRows(columns: LineTotals[]): StatementRow[] {
+  return layoutRows(BALANCE_SHEET_LAYOUT, columns)
+}
+
+export interface CashFlowInput {
+  movements: LineTotals // Income statement for the period
+  opening: LineTotals // Balance sheet the day before the period
+  closing: LineTotals // Balance sheet at the end of the period
+}
+
+const WORKING_CAPITAL_LINES: StatementLineKey[] = [
+  'trade_receivables',
+  'current_tax_assets',
+  'prepayments',
+  'other_current_assets',
+  ...CURRENT_LIABILITY_LINES,
+]
+
+function changeLabel(key: StatementLineKey): string {
+  const label = STATEMENT_LINES[key].label.toLowerCase()
+  return STATEMENT_LINES[key].sign === 1 ? `(Increase) decrease in ${label}` : `Increase (decrease) in ${label}`
+}
+
+/**
+ * Indirect cash-flow statement: profit adjusted for non-cash items and
+ * working capital, then investing and financing movements from the
+ * balance sheet. Whatever translation leaves unexplained is shown as the
+ * effect of exchange rates on cash.
+ */
+export function buildCashFlowRows(columns: CashFlowInput[]): StatementRow[] {
+  // Cash effect of a balance sheet line's movement
+  const outflow = (c: CashFlowInput, key: StatementLineKey) => -((c.closing[key] ?? 0) - (c.opening[key] ?? 0))
+  const profit = (c: CashFlowInput) => PROFIT_LINES.reduce((sum, key) => sum + present(c.movements, key), 0)
+  const depreciation = (c: CashFlowInput) => c.movements.depreciation ?? 0
+
+  const operating = (c: CashFlowInput) =>
+    profit(c) + depreciation(c) + WORKING_CAPITAL_LINES.reduce((sum, key) => sum + outflow(c, key), 0)
+  // Depreciation lowers the asset without moving cash, so it is added back
+  const capex = (c: CashFlowInput) => outflow(c, 'property_plant_equipment') - depreciation(c)
+  const investing = (c: CashFlowInput) => capex(c) + outflow(c, 'other_non_current_assets')
+  // Equity movements other than the period's profit are distributions or contributions
+  const distributions = (c: CashFlowInput) => outflow(c, 'retained_earnings') - profit(c)
+  const financing = (c: CashFlowInput) =>
+    outflow(c, 'non_current_liabilities') + outflow(c, 'share_capital') + outflow(c, 'other_reserves') + distributions(c)
+  const netChange = (c: CashFlowInput) => operating(c) + investing(c) + financing(c)
+  const openingCash = (c: CashFlowInput) => c.opening.cash_and_equivalents ?? 0
+  const closingCash = (c: CashFlowInput) => c.closing.cash_and_equivalents ?? 0
+
+  const rows: StatementRow[] = []
+  const row = (key: string, label: string, kind: StatementRow['kind'], value: (c: CashFlowInput) => number, always = false) => {
+    const amounts = columns.map((c) => value(c) || 0)
+    if (always || kind !== 'line' || amounts.some((a) => a !== 0)) rows.push({ key, label, kind, amounts })
+  }
+  const heading = (key: string, label: string) => rows.push({ key, label, kind: 'heading', amounts: [] })
+
+  heading('operating_activities', 'Cash flows from operating activities')
+  row('profit_for_period', 'Profit for the period', 'line', profit, true)
+  row('depreciation', 'Depreciation and amortisation', 'line', depreciation)
+  for (const key of WORKING_CAPITAL_LINES) {
+    row(`change_${key}`, changeLabel(key), 'line', (c) => outflow(c, key))
+  }
+  row('net_cash_operating', 'Net cash from operating activities', 'subtotal', operating)
+
+  heading('investing_activities', 'Cash flows from investing activities')
+  row('capital_expenditure', 'Purchase of property, plant and equipment', 'line', capex)
+  row('change_other_non_current_assets', 'Movement in other non-current assets', 'line', (c) => outflow(c, 'other_non_current_assets'))
+  row('net_cash_investing', 'Net cash used in investing activities', 'subtotal', investing)
+
+  heading('financing_activities', 'Cash flows from financing activities')
+  row('change_non_current_liabilities', 'Movement in non-current liabilities', 'line', (c) => outflow(c, 'non_current_liabilities'))
+  row('change_share_capital', 'Proceeds from share capital', 'line', (c) => outflow(c, 'share_capital'))
+  row('change_other_reserves', 'Movement in other reserves', 'line', (c) => outflow(c, 'other_reserves'))
+  row('distributions', 'Dividends and distributions', 'line', distributions)
+  row('net_cash_financing', 'Net cash from financing activities', 'subtotal', financing)
+
+  row('net_change_in_cash', 'Net increase (decrease) in cash and cash equivalents', 'subtotal', netChange)
+  row('opening_cash', 'Cash and cash equivalents at beginning of period', 'line', openingCash, true)
+  row('fx_effect_on_cash', 'Effect of exchange rate changes on cash', 'line', (c) => closingCash(c) - openingCash(c) - netChange(c))
+  row('closing_cash', 'Cash and cash equivalents at end of period', 'total', closingCash)
+
+  return rows
+}
+
+function startOfDay(date: Date): Date {
+  const start = new Date(date)
+  start.setUTCHours(0, 0, 0, 0)
+  return start
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date)
+  end.setUTCHours(23, 59, 59, 999)
+  return end
+}
+
+function addMonths(date: Date, months: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds(), date.getUTCMilliseconds()))
+}
+
+/**
+ * Range a comparative column covers. Ranges made of whole months compare
+ * against the same number of whole months; others against the same
+ * number of days.
+ */
+export function comparativeRange(from: Date, to: Date, comparison: StatementComparison): { from: Date; to: Date } | null {
+  if (comparison === 'none') return null
+  const start = startOfDay(from)
+  const end = endOfDay(to)
+  const next = new Date(end.getTime() + 1)
+  const endsAtMonthEnd = next.getUTCDate() === 1
+
+  if (comparison === 'prior_year') {
+    // Month ends stay month ends, so February compares with February
+    const priorEnd = endsAtMonthEnd ? new Date(Date.UTC(end.getUTCFullYear() - 1, end.getUTCMonth() + 1, 1) - 1) : addMonths(end, -12)
+    return { from: addMonths(start, -12), to: priorEnd }
+  }
+
+  if (start.getUTCDate() === 1 && endsAtMonthEnd) {
+    const months = (next.getUTCFullYear() - start.getUTCFullYear()) * 12 + next.getUTCMonth() - start.getUTCMonth()
+    return { from: addMonths(start, -months), to: new Date(start.getTime() - 1) }
+  }
+
+  const length = end.getTime() - start.getTime()
+  const priorEnd = new Date(start.getTime() - 1)
+  return { from: startOfDay(new Date(priorEnd.getTime() - length)), to: priorEnd }
+}
+
+interface ScopeEntity {
+  id: string
+  name: string
+  parentEntityId: string | null
+}
+
+/**
+ * An entity and all entities below it, parents before children
+ */
+export function collectGroup<T extends ScopeEntity>(rootId: string, entities: T[]): T[] {
+  const byParent = new Map<string, T[]>()
+  for (const entity of entities) {
+    if (!entity.parentEntityId) continue
+    byParent.set(entity.parentEntityId, [...(byParent.get(entity.parentEntityId) ?? []), entity])
+  }
+
+  const root = entities.find((e) => e.id === rootId)
+  if (!root) return []
+  const group: T[] = [root]
+  const seen = new Set([root.id])
+  for (let i = 0; i < group.length; i++) {
+    for (const child of byParent.get(group[i].id) ?? []) {
+      if (seen.has(child.id)) continue // Guard against cycles in bad data
+      seen.add(child.id)
+      group.push(child)
+    }
+  }
+  return group
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+interface LedgerScope {
+  entityIds: string[]
+  accounts: Map<string, { entityId: string; type: LedgerAccountType; line: StatementLineKey; intercompany: boolean }>
+}
+
+/**
+ * Net debit per account over a date range. Year-end closing entries are
+ * left out of period movements so the income statement shows the year's
+ * activity rather than its close.
+ */
+async function loadBalances(scope: LedgerScope, range: { from?: Date; to: Date; excludeClosing?: boolean }): Promise<AccountBalance[]> {
+  const sums = await prisma.journalLine.groupBy({
+    by: ['accountId'],
+    where: {
+      journalEntry: {
+        entityId: { in: scope.entityIds },
+        status: { in: ['POSTED', 'REVERSED'] },
+        date: { lte: range.to, ...(range.from ? { gte: range.from } : {}) },
+        ...(range.excludeClosing ? { OR: [{ sourceType: null }, { sourceType: { not: 'year_end_close' } }] } : {}),
+      },
+    },
+    _sum: { debitCents: true, creditCents: true },
+  })
+
+  const balances: AccountBalance[] = []
+  for (const sum of sums) {
+    const account = scope.accounts.get(sum.accountId)
+    if (!account) continue
+    const netDebitCents = (sum._sum.debitCents ?? 0) - (sum._sum.creditCents ?? 0)
+    if (netDebitCents !== 0) balances.push({ accountId: sum.accountId, ...account, netDebitCents })
+  }
+  return balances
+}
+
+/**
+ * Rate from a member's functional currency into the presentation currency
+ */
+async function requireRate(from: string, to: string, asOf: Date): Promise<number> {
+  const rate = await findExchangeRate(from, to, asOf)
+  if (!rate) {
+    throw new ApiError('EXCHANGE_RATE_MISSING', `No ${from}/${to} rate on or before ${formatDate(asOf)}`, 422, { from, to, date: asOf.toISOString() })
+  }
+  return rate
+}
+
+function translate(balances: AccountBalance[], rates: Map<string, number>): AccountBalance[] {
+  return balances.map((balance) => {
+    const rate = rates.get(balance.entityId) ?? 1
+    return rate === 1 ? balance : { ...balance, netDebitCents: Math.round(balance.netDebitCents * rate) }
+  })
+}
+
+/**
+ * Generate financial statements for an entity, or for its group when
+ * consolidating, over a date range with an optional comparative column
+ */
+export async function generateFinancialStatements(
+  tenantId: string,
+  entityId: string,
+  options: GenerateStatementsOptions
+): Promise<FinancialStatements> {
+  const comparison = options.comparison ?? 'none'
+  const types = options.types?.length ? options.types : (['income_statement', 'balance_sheet', 'cash_flow'] as StatementType[])
+  const from = startOfDay(options.from)
+  const to = endOfDay(options.to)
+  if (from > to) throw new ApiError('INVALID_RANGE', 'The period must start before it ends', 400)
+
+  const tenantEntities = await prisma.entity.findMany({
+    where: { tenantId },
+    select: { id: true, name: true, parentEntityId: true },
+  })
+  const root = tenantEntities.find((e) => e.id === entityId)
+  if (!root) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+
+  const members = options.consolidate ? collectGroup(entityId, tenantEntities) : [root]
+  const consolidated = members.length > 1
+  const currency = await getFunctionalCurrency(entityId)
+  const currencies = new Map<string, string>()
+  for (const member of members) currencies.set(member.id, await getFunctionalCurrency(member.id))
+
+  const ledgerAccounts = await prisma.ledgerAccount.findMany({
+    where: { entityId: { in: members.map((m) => m.id) } },
+    select: { id: true, entityId: true, type: true, systemKey: true, metadata: true },
+  })
+  const scope: LedgerScope = {
+    entityIds: members.map((m) => m.id),
+    accounts: new Map(
+      ledgerAccounts.map((account) => {
+        const type = account.type as LedgerAccountType
+        const info = { type, systemKey: account.systemKey, metadata: account.metadata }
+        return [account.id, { entityId: account.entityId, type, line: resolveStatementLine(info), intercompany: isIntercompanyAccount(info) }]
+      })
+    ),
+  }
+
+  const warnings: string[] = []
+  const ratesAt = async (asOf: Date) => {
+    const rates = new Map<string, number>()
+    for (const [memberId, memberCurrency] of Array.from(currencies.entries())) {
+      if (memberCurrency !== currency) rates.set(memberId, await requireRate(memberCurrency, currency, asOf))
+    }
+    return rates
+  }
+
+  const prepare = (balances: AccountBalance[], rates: Map<string, number>, statement: 'income_statement' | 'balance_sheet', label: string) => {
+    let prepared = translate(balances, rates)
+    if (consolidated) {
+      const elimination = eliminateIntercompany(prepared)
+      prepared = elimination.balances
+      if (statement === 'balance_sheet' && elimination.differenceCents !== 0) {
+        prepared.push({
+          accountId: 'intercompany_difference',
+          entityId,
+          type: 'EQUITY',
+          line: 'intercompany_difference',
+          intercompany: false,
+          netDebitCents: elimination.differenceCents,
+        })
+        const message = `Intercompany balances do not reconcile at ${label}`
+        if (!warnings.includes(message)) warnings.push(message)
+      }
+    }
+    return summarizeBalances(prepared, statement)
+  }
+
+  const ranges = [{ from, to }]
+  const prior = comparativeRange(from, to, comparison)
+  if (prior) ranges.push(prior)
+
+  const columns: Array<CashFlowInput & { range: { from: Date; to: Date } }> = []
+  for (const range of ranges) {
+    const openingDate = new Date(range.from.getTime() - 1)
+    const [closingRates, openingRates] = await Promise.all([ratesAt(range.to), ratesAt(openingDate)])
+    const averageRates = new Map(
+      Array.from(closingRates.entries()).map(([id, rate]) => [id, (rate + (openingRates.get(id) ?? rate)) / 2])
+    )
+
+    const [movements, opening, closing] = await Promise.all([
+      loadBalances(scope, { from: range.from, to: range.to, excludeClosing: true }),
+      loadBalances(scope, { to: openingDate }),
+      loadBalances(scope, { to: range.to }),
+    ])
+
+    columns.push({
+      range,
+      movements: prepare(movements, averageRates, 'income_statement', formatDate(range.to)),
+      opening: prepare(opening, openingRates, 'balance_sheet', formatDate(openingDate)),
+      closing: prepare(closing, closingRates, 'balance_sheet', formatDate(range.to)),
+    })
+  }
+
+  const periodColumns = columns.map((c) => ({ label: `${formatDate(c.range.from)} to ${formatDate(c.range.to)}`, from: c.range.from, to: c.range.to }))
+  const positionColumns = columns.map((c) => ({ label: `As at ${formatDate(c.range.to)}`, from: null, to: c.range.to }))
+  const prefix = consolidated ? 'Consolidated statement' : 'Statement'
+
+  const statements: FinancialStatement[] = []
+  for (const type of types) {
+    if (type === 'income_statement') {
+      statements.push({
+        type,
+        title: `${prefix} of profit or loss`,
+        columns: periodColumns,
+        rows: buildIncomeStatementRows(columns.map((c) => c.movements)),
+      })
+    } else if (type === 'balance_sheet') {
+      const rows = buildBalanceSheetRows(columns.map((c) => c.closing))
+      const assets = rows.find((r) => r.key === 'total_assets')?.amounts ?? []
+      const funding = rows.find((r) => r.key === 'total_equity_and_liabilities')?.amounts ?? []
+      if (assets.some((amount, i) => amount !== funding[i])) warnings.push('The balance sheet does not balance; check for unposted or one-sided entries')
+      statements.push({ type, title: `${prefix} of financial position`, columns: positionColumns, rows })
+    } else {
+      statements.push({ type, title: `${prefix} of cash flows`, columns: periodColumns, rows: buildCashFlowRows(columns) })
+    }
+  }
+
+  const translated = members.filter((m) => currencies.get(m.id) !== currency)
+  if (translated.length) {
+    warnings.push(`Translated into ${currency}: ${translated.map((m) => `${m.name} (${currencies.get(m.id)})`).join(', ')}`)
+  }
+
+  return {
+    entity: { id: root.id, name: root.name },
+    entities: members.map((m) => ({ id: m.id, name: m.name, currency: currencies.get(m.id) as string })),
+    consolidated,
+    currency,
+    comparison,
+    statements,
+    warnings,
+  }
+}
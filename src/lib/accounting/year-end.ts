@@ -0,0 +1,234 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { createJournalEntry, getTrialBalance, JournalLineInput, TrialBalanceRow } from './journal'
+import { getSystemAccounts } from './posting'
+import { ensureFiscalYearPeriods } from './periods'
+
+/**
+ * Year-End Close
+ *
+ * Runs a checklist over the fiscal year, then posts a closing entry that
+ * zeroes every revenue and expense account into Retained Earnings and
+ * locks all twelve periods. Blocking checklist items must pass first;
+ * the others are surfaced as warnings.
+ */
+
+export interface YearEndChecklistItem {
+  key: string
+  label: string
+  passed: boolean
+  blocking: boolean
+  detail?: string
+}
+
+export interface YearEndCloseResult {
+  fiscalYear: number
+  netIncomeCents: number
+  closingEntryId: string | null
+  checklist: YearEndChecklistItem[]
+}
+
+/**
+ * Build closing lines that bring P&L accounts to zero against retained earnings
+ */
+export function buildClosingLines(
+  rows: TrialBalanceRow[],
+  retainedEarningsAccountId: string
+): { lines: JournalLineInput[]; netIncomeCents: number } {
+  const lines: JournalLineInput[] = []
+  let netIncomeCents = 0
+
+  for (const row of rows) {
+    if (row.type !== 'REVENUE' && row.type !== 'EXPENSE') continue
+    const net = row.debitCents - row.creditCents
+    if (net === 0) continue
+
+    // Post the opposite side of the account's net movement
+    lines.push(net > 0
+      ? { accountId: row.accountId, creditCents: net, description: `Close ${row.code}` }
+      : { accountId: row.accountId, debitCents: -net, description: `Close ${row.code}` })
+    netIncomeCents -= net
+  }
+
+  if (netIncomeCents > 0) {
+    lines.push({ accountId: retainedEarningsAccountId, creditCents: netIncomeCents, description: 'Net income for the year' })
+  } else if (netIncomeCents < 0) {
+    lines.push({ accountId: retainedEarningsAccountId, debitCents: -netIncomeCents, description: 'Net loss for the year' })
+  }
+
+  return { lines, netIncomeCents }
+}
+
+/**
+ * Evaluate the year-end checklist for an entity
+ */
+export async function buildYearEndChecklist(entityId: string, fiscalYear: number): Promise<YearEndChecklistItem[]> {
+  const periods = await ensureFiscalYearPeriods(entityId, fiscalYear)
+  const startDate = periods[0].startDate
+  const endDate = periods[periods.length - 1].endDate
+  const dateRange = { gte: startDate, lte: endDate }
+
+  const openPeriods = periods.filter((p) => p.status === 'OPEN')
+  const trialBalance = await getTrialBalance(entityId, { asOf: endDate })
+  const suspense = await prisma.ledgerAccount.findUnique({
+    where: { entityId_systemKey: { entityId, systemKey: 'SUSPENSE' } },
+    select: { id: true },
+  })
+  const suspenseRow = suspense ? trialBalance.rows.find((r) => r.accountId === suspense.id) : undefined
+
+  const [draftInvoices, pendingExpenses, unmatchedTransactions, priorYearClose, priorYearEntries] = await Promise.all([
+    prisma.invoice.count({ where: { entityId, status: 'DRAFT', issueDate: dateRange } }),
+    prisma.expense.count({ where: { entityId, status: 'PENDING', date: dateRange } }),
+    prisma.bankingTransaction.count({ where: { connection: { entityId }, matched: false, date: dateRange } }),
+    prisma.fiscalYearClose.findUnique({
+      where: { entityId_fiscalYear: { entityId, fiscalYear: fiscalYear - 1 } },
+      select: { status: true },
+    }),
+    prisma.journalEntry.count({ where: { entityId, date: { lt: startDate } } }),
+  ])
+
+  return [
+    {
+      key: 'periods_closed',
+      label: 'All periods soft-closed or locked',
+      passed: openPeriods.length === 0,
+      blocking: true,
+      detail: openPeriods.length ? `Open: ${openPeriods.map((p) => p.name).join(', ')}` : undefined,
+    },
+    {
+      key: 'trial_balance_balanced',
+      label: 'Trial balance is balanced',
+      passed: trialBalance.isBalanced,
+      blocking: true,
+      detail: trialBalance.isBalanced
+        ? undefined
+        : `Debits ${trialBalance.totalDebitCents} vs credits ${trialBalance.totalCreditCents}`,
+    },
+    {
+      key: 'prior_year_closed',
+      label: 'Prior fiscal year closed',
+      passed: priorYearEntries === 0 || priorYearClose?.status === 'COMPLETED',
+      blocking: true,
+    },
+    {
+      key: 'suspense_cleared',
+      label: 'Suspense account cleared',
+      passed: !suspenseRow || suspenseRow.balanceCents === 0,
+      blocking: false,
+      detail: suspenseRow?.balanceCents ? `Balance ${suspenseRow.balanceCents}` : undefined,
+    },
+    {
+      key: 'bank_reconciled',
+      label: 'Bank transactions matched',
+      passed: unmatchedTransactions === 0,
+      blocking: false,
+      detail: unmatchedTransactions ? `${unmatchedTransactions} unmatched` : undefined,
+    },
+    {
+      key: 'draft_invoices',
+      label: 'No draft invoices in the year',
+      passed: draftInvoices === 0,
+      blocking: false,
+      detail: draftInvoices ? `${draftInvoices} draft` : undefined,
+    },
+    {
+      key: 'pending_expenses',
+      label: 'No expenses awaiting approval',
+      passed: pendingExpenses === 0,
+      blocking: false,
+      detail: pendingExpenses ? `${pendingExpenses} pending` : undefined,
+    },
+  ]
+}
+
+/**
+ * Close a fiscal year: post the closing entry, lock the periods and record the run
+ */
+export async function closeFiscalYear(entityId: string, fiscalYear: number, userId: string): Promise<YearEndCloseResult> {
+  const existing = await prisma.fiscalYearClose.findUnique({
+    where: { entityId_fiscalYear: { entityId, fiscalYear } },
+  })
+  if (existing?.status === 'COMPLETED') {
+    throw new ApiError('FISCAL_YEAR_CLOSED', `Fiscal year ${fiscalYear} is already closed`, 409)
+  }
+
+  const entity = await prisma.entity.findUnique({ where: { id: entityId }, select: { tenantId: true } })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+
+  const checklist = await buildYearEndChecklist(entityId, fiscalYear)
+  const blockers = checklist.filter((item) => item.blocking && !item.passed)
+
+  if (blockers.length > 0) {
+    await prisma.fiscalYearClose.upsert({
+      where: { entityId_fiscalYear: { entityId, fiscalYear } },
+      create: { tenantId: entity.tenantId, entityId, fiscalYear, checklist: checklist as any },
+      update: { checklist: checklist as any },
+    })
+    throw new ApiError('YEAR_END_CHECKLIST_FAILED', 'Year-end checklist has blocking items', 422, blockers)
+  }
+
+  const periods = await ensureFiscalYearPeriods(entityId, fiscalYear)
+  const startDate = periods[0].startDate
+  const endDate = periods[periods.length - 1].endDate
+
+  const accounts = await getSystemAccounts(entityId, ['RETAINED_EARNINGS'])
+  const trialBalance = await getTrialBalance(entityId, { from: startDate, asOf: endDate })
+  const { lines, netIncomeCents } = buildClosingLines(trialBalance.rows, accounts.RETAINED_EARNINGS)
+
+  const closingEntry = lines.length >= 2
+    ? await createJournalEntry({
+        tenantId: entity.tenantId,
+        entityId,
+        date: endDate,
+        description: `Year-end close FY${fiscalYear}`,
+        sourceType: 'year_end_close',
+        sourceId: String(fiscalYear),
+        createdBy: userId,
+        lines,
+      })
+    : null
+
+  const now = new Date()
+  await prisma.$transaction(async (tx) => {
+    await tx.accountingPeriod.updateMany({
+      where: { entityId, fiscalYear, status: { not: 'LOCKED' } },
+      data: { status: 'LOCKED', lockedAt: now, lockedBy: userId },
+    })
+    await tx.fiscalYearClose.upsert({
+      where: { entityId_fiscalYear: { entityId, fiscalYear } },
+      create: {
+        tenantId: entity.tenantId,
+        entityId,
+        fiscalYear,
+        status: 'COMPLETED',
+        checklist: checklist as any,
+        netIncomeCents,
+        closingEntryId: closingEntry?.id ?? null,
+        closedAt: now,
+        closedBy: userId,
+      },
+      update: {
+        status: 'COMPLETED',
+        checklist: checklist as any,
+        netIncomeCents,
+        closingEntryId: closingEntry?.id ?? null,
+        closedAt: now,
+        closedBy: userId,
+      },
+    })
+    await tx.auditLog.create({
+      data: {
+        tenantId: entity.tenantId,
+        userId,
+        action: 'accounting.fiscal_year.closed',
+        resource: `entity:${entityId}`,
+        metadata: { fiscalYear, netIncomeCents, closingEntryId: closingEntry?.id ?? null },
+      },
+    })
+  })
+
+  logger.info('Fiscal year closed', { entityId, fiscalYear, netIncomeCents })
+
+  return { fiscalYear, netIncomeCents, closingEntryId: closingEntry?.id ?? null, checklist }
+}
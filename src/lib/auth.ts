@@ -20,6 +20,53 @@ const demoUsers = [
   { id: 'demo-client2', name: 'Client Two', email: 'client2@example.com', password: 'client123', role: 'CLIENT' },
 ]
 
+/**
+ * Session user for a verified sign-in: tenant memberships (created for a
+ * SUPER_ADMIN that has none) and the active tenant for this login.
+ */
+async function buildSessionUser(user: any, tenantId: string, sessionIpHash: string, sessionIssuedAt: number) {
+  // Fetch tenant memberships for the user to populate available tenants
+  let tenantMemberships = await prisma.tenantMembership.findMany({ where: { userId: user.id }, include: { tenant: true } }).catch(() => [])
+
+  // If this is a SUPER_ADMIN and no tenant membership exists, create one using the user's tenantId (or resolved tenantId)
+  try {
+    const roleNormalized = String(user.role || '').toUpperCase()
+    if (roleNormalized === 'SUPER_ADMIN' && (!tenantMemberships || tenantMemberships.length === 0)) {
+      const membershipTenantId = (user as any).tenantId || tenantId
+      if (membershipTenantId) {
+        await prisma.tenantMembership.upsert({
+          where: { userId_tenantId: { userId: user.id, tenantId: membershipTenantId } },
+          update: { role: 'SUPER_ADMIN' as any, isDefault: true },
+          create: { userId: user.id, tenantId: membershipTenantId, role: 'SUPER_ADMIN' as any, isDefault: true },
+        }).catch(() => {})
+
+        // Refresh memberships after ensuring the row exists
+        tenantMemberships = await prisma.tenantMembership.findMany({ where: { userId: user.id }, include: { tenant: true } }).catch(() => [])
+      }
+    }
+  } catch (err) {
+    // Don't block login for membership sync failures, but log audit entry
+    try { await logAudit({ action: 'auth.superadmin.membership.sync.failed', actorId: user.id, targetId: user.id, details: { error: String(err) } }) } catch {}
+  }
+
+  // Determine active tenant membership (the one used for login)
+  const activeMembership = tenantMemberships.find(m => m.tenantId === tenantId) || tenantMemberships[0] || null
+
+  return {
+    id: user.id,
+    email: user.email,
+    name: user.name,
+    role: user.role,
+    image: user.image,
+    tenantId: activeMembership ? activeMembership.tenantId : tenantId,
+    tenantSlug: activeMembership?.tenant?.slug ?? null,
+    tenantRole: activeMembership ? activeMembership.role : null,
+    availableTenants: tenantMemberships.map(m => ({ id: m.tenantId, slug: m.tenant?.slug, name: m.tenant?.name, role: m.role })),
+    sessionIpHash,
+    sessionIssuedAt,
+  }
+}
+
 export const authOptions: NextAuthOptions = {
   // Only attach the Prisma adapter when a DB is available
   ...(hasDb ? { adapter: PrismaAdapter(prisma) } : {}),
@@ -221,45 +268,48 @@ export const authOptions: NextAuthOptions = {
           return null
         }
 
-        // Fetch tenant memberships for the user to populate available tenants
-        let tenantMemberships = await prisma.tenantMembership.findMany({ where: { userId: user.id }, include: { tenant: true } }).catch(() => [])
+        return buildSessionUser(user, tenantId, sessionIpHash, sessionIssuedAt)
+      }
+    }),
+    // Passkey sign-in: the browser signs a challenge from
+    // /api/auth/webauthn/authenticate/options. The authenticator verifies the
+    // user itself, so no separate OTP is asked for.
+    CredentialsProvider({
+      id: 'webauthn',
+      name: 'passkey',
+      credentials: {
+        response: { label: 'Passkey response', type: 'text' }
+      },
+      async authorize(credentials, req) {
+        if (!hasDb || !credentials?.response) return null
 
-        // If this is a SUPER_ADMIN and no tenant membership exists, create one using the user's tenantId (or resolved tenantId)
+        const requestLike = ((req as any)?.request ?? (req as any)) as unknown as Request
+        let clientIp = 'anonymous'
         try {
-          const roleNormalized = String(user.role || '').toUpperCase()
-          if (roleNormalized === 'SUPER_ADMIN' && (!tenantMemberships || tenantMemberships.length === 0)) {
-            const membershipTenantId = (user as any).tenantId || tenantId
-            if (membershipTenantId) {
-              await prisma.tenantMembership.upsert({
-                where: { userId_tenantId: { userId: user.id, tenantId: membershipTenantId } },
-                update: { role: 'SUPER_ADMIN' as any, isDefault: true },
-                create: { userId: user.id, tenantId: membershipTenantId, role: 'SUPER_ADMIN' as any, isDefault: true },
-              }).catch(() => {})
+          clientIp = getClientIp(requestLike)
+        } catch {}
+        const sessionIpHash = await computeIpHash(clientIp)
+        const sessionIssuedAt = Date.now()
 
-              // Refresh memberships after ensuring the row exists
-              tenantMemberships = await prisma.tenantMembership.findMany({ where: { userId: user.id }, include: { tenant: true } }).catch(() => [])
-            }
+        const tenantId = await getResolvedTenantId(requestLike)
+        try {
+          if (!(await rateLimitAsync(`auth:login:ip:${clientIp}`, 20, 60_000))) {
+            try { await logAudit({ action: 'security.ratelimit.block', details: { ip: clientIp, key: `auth:login:ip:${clientIp}` } }) } catch {}
+            return null
           }
-        } catch (err) {
-          // Don't block login for membership sync failures, but log audit entry
-          try { await logAudit({ action: 'auth.superadmin.membership.sync.failed', actorId: user.id, targetId: user.id, details: { error: String(err) } }) } catch {}
-        }
+        } catch {}
 
-        // Determine active tenant membership (the one used for login)
-        const activeMembership = tenantMemberships.find(m => m.tenantId === tenantId) || tenantMemberships[0] || null
-
-        return {
-          id: user.id,
-          email: user.email,
-          name: user.name,
-          role: user.role,
-          image: user.image,
-          tenantId: activeMembership ? activeMembership.tenantId : tenantId,
-          tenantSlug: activeMembership?.tenant?.slug ?? null,
-          tenantRole: activeMembership ? activeMembership.role : null,
-          availableTenants: tenantMemberships.map(m => ({ id: m.tenantId, slug: m.tenant?.slug, name: m.tenant?.name, role: m.role })),
-          sessionIpHash,
-          sessionIssuedAt,
+        try {
+          const { verifyPasskeyAssertion } = await import('@/lib/security/passkeys')
+          const credential = await verifyPasskeyAssertion({ response: JSON.parse(String(credentials.response)), purpose: 'signin', tenantId })
+          const user = await prisma.user.findUnique({ where: { id: credential.userId } })
+          if (!user) return null
+
+          await logAudit({ action: 'auth.webauthn.signin', actorId: user.id, targetId: user.id, details: { tenantId, credentialId: credential.id } }).catch(() => {})
+          return buildSessionUser(user, tenantId, sessionIpHash, sessionIssuedAt)
+        } catch (err) {
+          logAudit({ action: 'auth.login.failed', actorId: null, targetId: null, details: { tenantId, method: 'webauthn', error: String((err as Error)?.message || err) } }).catch(() => {})
+          return null
         }
       }
     })
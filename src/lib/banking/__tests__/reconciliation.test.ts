@@ -0,0 +1,180 @@
+import { describe, expect, it } from 'vitest'
+import { findMatchingRule, ruleMatches, BankRuleInputSchema } from '../bank-rules'
+import { findAmountCombinations, isLikelyFee, MatchCandidate, rankSuggestions, scoreCandidate, SuggestionLine } from '../transaction-matcher'
+import { proveReconciliation, ReconcileInputSchema, reconciliationDifference } from '../reconciliation'
+import { buildReconciliationLines } from '@/lib/accounting/posting'
+
+const line = (overrides: Partial<SuggestionLine> = {}): SuggestionLine => ({
+  id: 'txn-1',
+  type: 'credit',
+  amountCents: 105000,
+  currency: 'AED',
+  date: new Date('2025-03-10'),
+  description: 'TRANSFER FROM ACME TRADING LLC',
+  reference: null,
+  ...overrides,
+})
+
+const invoice = (overrides: Partial<MatchCandidate> = {}): MatchCandidate => ({
+  type: 'invoice',
+  id: 'inv-1',
+  label: 'Invoice INV-1001',
+  amountCents: 105000,
+  currency: 'AED',
+  date: new Date('2025-03-01'),
+  dueDate: new Date('2025-03-08'),
+  number: 'INV-1001',
+  counterparty: 'Acme Trading LLC',
+  ...overrides,
+})
+
+describe('bank rules', () => {
+  const dewa = { id: 'r1', priority: 100, direction: 'debit', descriptionContains: 'DEWA|SEWA' }
+  const dewaLine = { connectionId: 'c1', type: 'debit', description: 'DD  dewa  bill 0325', amountCents: 45000 }
+
+  it('matches description text case-insensitively with alternatives', () => {
+    expect(ruleMatches(dewa, dewaLine)).toBe(true)
+    expect(ruleMatches(dewa, { ...dewaLine, description: 'SEWA PAYMENT' })).toBe(true)
+    expect(ruleMatches(dewa, { ...dewaLine, description: 'ETISALAT' })).toBe(false)
+  })
+
+  it('requires every condition to hold', () => {
+    expect(ruleMatches(dewa, { ...dewaLine, type: 'credit' })).toBe(false)
+    expect(ruleMatches({ ...dewa, maxAmountCents: 40000 }, dewaLine)).toBe(false)
+    expect(ruleMatches({ ...dewa, connectionId: 'c2' }, dewaLine)).toBe(false)
+    expect(ruleMatches({ ...dewa, isActive: false }, dewaLine)).toBe(false)
+  })
+
+  it('picks the first fitting rule by priority', () => {
+    const broad = { id: 'r2', priority: 200, descriptionContains: 'bill' }
+    const specific = { ...dewa, priority: 10 }
+    expect(findMatchingRule([broad, specific], dewaLine)?.id).toBe('r1')
+    expect(findMatchingRule([broad], { ...dewaLine, description: 'rent' })).toBeUndefined()
+  })
+
+  it('rejects rules without conditions or with an inverted amount range', () => {
+    expect(BankRuleInputSchema.safeParse({ name: 'Any', ledgerAccountId: 'a1' }).success).toBe(false)
+    expect(BankRuleInputSchema.safeParse({ name: 'Range', ledgerAccountId: 'a1', minAmountCents: 500, maxAmountCents: 100 }).success).toBe(false)
+    expect(BankRuleInputSchema.safeParse({ name: 'DEWA', ledgerAccountId: 'a1', descriptionContains: 'DEWA' }).success).toBe(true)
+  })
+})
+
+describe('match scoring', () => {
+  it('scores an exact amount with the invoice number and customer highly', () => {
+    const { score, reasons } = scoreCandidate(line({ reference: 'INV-1001' }), invoice())
+    expect(score).toBe(1)
+    expect(reasons).toContain('Amount matches')
+    expect(reasons).toContain('Reference INV-1001 found')
+  })
+
+  it('gives nothing across currencies', () => {
+    expect(scoreCandidate(line({ currency: 'USD' }), invoice()).score).toBe(0)
+  })
+
+  it('treats a small shortfall on money in as a bank charge', () => {
+    expect(isLikelyFee({ type: 'credit', amountCents: 104975 }, 105000)).toBe(true)
+    expect(isLikelyFee({ type: 'credit', amountCents: 90000 }, 105000)).toBe(false)
+    expect(isLikelyFee({ type: 'debit', amountCents: 105025 }, 105000)).toBe(true)
+    expect(isLikelyFee({ type: 'debit', amountCents: 104975 }, 105000)).toBe(false)
+  })
+
+  it('finds the smallest sets of amounts adding up to a target', () => {
+    const items = [{ amountCents: 500 }, { amountCents: 300 }, { amountCents: 200 }, { amountCents: 100 }]
+    const combinations = findAmountCombinations(items, 800)
+    expect(combinations[0].map((i) => i.amountCents)).toEqual([500, 300])
+    expect(combinations.every((c) => c.reduce((s, i) => s + i.amountCents, 0) === 800)).toBe(true)
+    expect(findAmountCombinations(items, 2000)).toEqual([])
+  })
+})
+
+describe('rankSuggestions', () => {
+  it('suggests one line paying several invoices', () => {
+    const candidates = [
+      invoice({ id: 'inv-1', amountCents: 60000, number: 'INV-1001' }),
+      invoice({ id: 'inv-2', amountCents: 45000, number: 'INV-1002' }),
+      invoice({ id: 'inv-3', amountCents: 99000, number: 'INV-1003' }),
+    ]
+    const [best] = rankSuggestions([line()], candidates).get('txn-1')!
+    expect(best.documents.map((d) => d.id).sort()).toEqual(['inv-1', 'inv-2'])
+    expect(best.differenceCents).toBe(0)
+  })
+
+  it('suggests several lines paying one invoice', () => {
+    const lines = [line({ id: 'a', amountCents: 50000 }), line({ id: 'b', amountCents: 55000 })]
+    const suggestions = rankSuggestions(lines, [invoice()])
+    const combined = suggestions.get('a')!.find((s) => s.bankTransactionIds.length === 2)
+    expect(combined?.bankTransactionIds.sort()).toEqual(['a', 'b'])
+    expect(suggestions.get('b')).toContain(combined)
+  })
+
+  it('only offers expenses for money out', () => {
+    const expense = invoice({ type: 'expense', id: 'exp-1', number: null })
+    expect(rankSuggestions([line()], [expense]).get('txn-1')).toEqual([])
+    expect(rankSuggestions([line({ type: 'debit' })], [expense]).get('txn-1')![0].documents[0].id).toBe('exp-1')
+  })
+})
+
+describe('buildReconciliationLines', () => {
+  const suspenseLeg = { accountId: 'suspense', creditCents: 104975 }
+
+  it('clears Suspense against the invoices settled and books the fee', () => {
+    const { lines, fxDifferenceCents } = buildReconciliationLines({
+      direction: 'credit',
+      counterLegs: [suspenseLeg],
+      settlements: [{ accountId: 'clearing', cents: 105000 }],
+      adjustments: [{ accountId: 'charges', cents: 25 }],
+      fxAccountId: 'fx',
+    })
+    expect(fxDifferenceCents).toBe(0)
+    expect(lines).toEqual([
+      { accountId: 'suspense', debitCents: 104975, creditCents: 0, description: undefined },
+      { accountId: 'clearing', creditCents: 105000, description: undefined },
+      { accountId: 'charges', debitCents: 25, description: undefined },
+    ])
+  })
+
+  it('books what the rates leave over as realized FX', () => {
+    const { lines, fxDifferenceCents } = buildReconciliationLines({
+      direction: 'credit',
+      counterLegs: [{ accountId: 'suspense', creditCents: 36800 }],
+      settlements: [{ accountId: 'clearing', cents: 36725 }],
+      adjustments: [],
+      fxAccountId: 'fx',
+    })
+    expect(fxDifferenceCents).toBe(75)
+    expect(lines[lines.length - 1]).toMatchObject({ accountId: 'fx', creditCents: 75 })
+  })
+
+  it('debits what money out settled', () => {
+    const { lines } = buildReconciliationLines({
+      direction: 'debit',
+      counterLegs: [{ accountId: 'suspense', debitCents: 45000 }],
+      settlements: [{ accountId: 'ap', cents: 45000 }],
+      adjustments: [],
+      fxAccountId: 'fx',
+    })
+    expect(lines).toEqual([
+      { accountId: 'suspense', debitCents: 0, creditCents: 45000, description: undefined },
+      { accountId: 'ap', debitCents: 45000, description: undefined },
+    ])
+  })
+})
+
+describe('reconciliation amounts', () => {
+  it('nets bank charges against money in and money out', () => {
+    expect(reconciliationDifference('credit', 104975, 105000, 25)).toBe(0)
+    expect(reconciliationDifference('debit', 45025, 45000, 25)).toBe(0)
+    expect(reconciliationDifference('credit', 100000, 105000, 0)).toBe(-5000)
+  })
+
+  it('requires account adjustments to name the account', () => {
+    const base = { bankTransactionIds: ['t1'], documents: [{ type: 'invoice', id: 'i1' }] }
+    expect(ReconcileInputSchema.safeParse({ ...base, adjustments: [{ type: 'account', amountCents: 100 }] }).success).toBe(false)
+    expect(ReconcileInputSchema.safeParse({ ...base, adjustments: [{ type: 'fee', amountCents: 100 }] }).success).toBe(true)
+  })
+
+  it('proves the statement against the books', () => {
+    expect(proveReconciliation(1000000, 25000, 1025000)).toMatchObject({ differenceCents: 0, reconciled: true })
+    expect(proveReconciliation(1000000, 0, 1025000)).toMatchObject({ differenceCents: 25000, reconciled: false })
+  })
+})
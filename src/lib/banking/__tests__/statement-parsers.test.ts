@@ -0,0 +1,254 @@
+import { describe, it, expect } from 'vitest'
+import {
+  checkStatementBalances,
+  CsvColumnMappingSchema,
+  detectStatementFormat,
+  getCsvProfilePreset,
+  parseAmount,
+  parseBankCsv,
+  parseCAMT053,
+  parseDateWithFormat,
+  parseMT940,
+  parseOFX,
+  parseStatementFile,
+} from '../parsers'
+
+const MT940 = [
+  '{1:F01ENBDAEADAXXX0000000000}{2:O9401200250131ENBDAEADAXXX00000000002501311200N}{4:',
+  ':20:STMT250131',
+  ':25:AE070331234567890123456',
+  ':28C:00031/001',
+  ':60F:C250130AED10000,00',
+  ':61:2501310131C2500,00NTRFINV-1001//FT25031A1',
+  ':86:?20Payment from Acme Trading?21Invoice INV-1001',
+  ':61:250131D300,50NCHGNONREF//FT25031B2',
+  ':86:Monthly account fee',
+  ':61:250131RC100,00NTRFNONREF//FT25031C3',
+  ':86:Returned incoming transfer',
+  ':62F:C250131AED12099,50',
+  '-}',
+].join('\r\n')
+
+const CAMT053 = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>CAMT-2025-01</Id>
+      <Acct><Id><IBAN>SA0380000000608010167519</IBAN></Id><Ccy>SAR</Ccy></Acct>
+      <Bal><Tp><CdOrPrtry><Cd>OPBD</Cd></CdOrPrtry></Tp><Amt Ccy="SAR">5000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-01-01</Dt></Dt></Bal>
+      <Bal><Tp><CdOrPrtry><Cd>CLBD</Cd></CdOrPrtry></Tp><Amt Ccy="SAR">5750.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Dt><Dt>2025-01-31</Dt></Dt></Bal>
+      <Ntry>
+        <Amt Ccy="SAR">1000.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-01-10</Dt></BookgDt><AcctSvcrRef>AR-0001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <Refs><EndToEndId>E2E-77</EndToEndId></Refs>
+          <RltdPties><Dbtr><Nm>Gulf Supplies Co</Nm></Dbtr></RltdPties>
+          <RmtInf><Ustrd>Invoice 2025-014</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="SAR">250.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>BOOK</Sts>
+        <BookgDt><Dt>2025-01-20</Dt></BookgDt><AcctSvcrRef>AR-0002</AcctSvcrRef>
+        <AddtlNtryInf>SADAD bill payment</AddtlNtryInf>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="SAR">99.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><Sts>PDNG</Sts>
+        <BookgDt><Dt>2025-01-31</Dt></BookgDt><AcctSvcrRef>AR-0003</AcctSvcrRef>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`
+
+const OFX = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>USD
+<BANKACCTFROM><BANKID>121000248<ACCTID>000123456789<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<DTSTART>20250101<DTEND>20250131
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250105120000[-5:EST]<TRNAMT>-42.10<FITID>2025010501<NAME>OFFICE DEPOT<MEMO>Printer paper</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250115<TRNAMT>1500.00<FITID>2025011502<NAME>CLIENT PAYMENT</STMTTRN>
+</BANKTRANLIST>
+<LEDGERBAL><BALAMT>3457.90<DTASOF>20250131</LEDGERBAL>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`
+
+describe('parseAmount', () => {
+  it('reads separators, brackets, trailing minus and DR/CR suffixes', () => {
+    expect(parseAmount('1,234.56')).toBe(1234.56)
+    expect(parseAmount('1.234,56', ',')).toBe(1234.56)
+    expect(parseAmount('(500.00)')).toBe(-500)
+    expect(parseAmount('75.25-')).toBe(-75.25)
+    expect(parseAmount('120.00 DR')).toBe(-120)
+    expect(parseAmount('120.00CR')).toBe(120)
+    expect(parseAmount('AED 2,000')).toBe(2000)
+    expect(parseAmount('')).toBeNull()
+    expect(parseAmount('n/a')).toBeNull()
+  })
+})
+
+describe('parseDateWithFormat', () => {
+  it('parses day-first, year-first and month-name dates as UTC', () => {
+    expect(parseDateWithFormat('31/01/2025', 'DD/MM/YYYY')?.toISOString()).toBe('2025-01-31T00:00:00.000Z')
+    expect(parseDateWithFormat('2025/01/31 14:22', 'YYYY/MM/DD')?.toISOString()).toBe('2025-01-31T00:00:00.000Z')
+    expect(parseDateWithFormat('05-Feb-25', 'DD-MMM-YY')?.toISOString()).toBe('2025-02-05T00:00:00.000Z')
+  })
+
+  it('rejects dates that do not exist or do not match', () => {
+    expect(parseDateWithFormat('31/02/2025', 'DD/MM/YYYY')).toBeNull()
+    expect(parseDateWithFormat('2025-01-31', 'DD/MM/YYYY')).toBeNull()
+  })
+})
+
+describe('detectStatementFormat', () => {
+  it('recognizes each format from its content', () => {
+    expect(detectStatementFormat(MT940)).toBe('mt940')
+    expect(detectStatementFormat(CAMT053)).toBe('camt053')
+    expect(detectStatementFormat(OFX)).toBe('ofx')
+    expect(detectStatementFormat('Date,Description,Amount\n2025-01-01,Fee,-5')).toBe('csv')
+  })
+
+  it('requires a profile for CSV files', () => {
+    expect(() => parseStatementFile('Date,Amount\n2025-01-01,5')).toThrow(/CSV profile/)
+  })
+})
+
+describe('parseMT940', () => {
+  it('reads balances, statement lines and their details', () => {
+    const [statement] = parseMT940(MT940)
+    expect(statement.statementId).toBe('STMT250131')
+    expect(statement.accountNumber).toBe('AE070331234567890123456')
+    expect(statement.currency).toBe('AED')
+    expect(statement.openingBalance?.amount).toBe(10000)
+    expect(statement.closingBalance?.amount).toBe(12099.5)
+
+    const [payment, fee, reversal] = statement.transactions
+    expect(payment).toMatchObject({ id: 'mt940:FT25031A1', type: 'credit', amount: 2500, currency: 'AED', reference: 'INV-1001' })
+    expect(payment.description).toBe('Payment from Acme Trading Invoice INV-1001')
+    expect(fee).toMatchObject({ type: 'debit', amount: 300.5, description: 'Monthly account fee' })
+    expect(fee.reference).toBeUndefined()
+    // RC reverses a credit, so money leaves the account
+    expect(reversal).toMatchObject({ type: 'debit', amount: 100 })
+  })
+
+  it('balances: opening plus movements equals closing', () => {
+    const check = checkStatementBalances(parseMT940(MT940)[0])
+    expect(check).toEqual({ checked: true, expectedClosing: 12099.5, differenceCents: 0 })
+  })
+
+  it('reports a closing balance that does not follow', () => {
+    const check = checkStatementBalances(parseMT940(MT940.replace(':62F:C250131AED12099,50', ':62F:C250131AED12199,50'))[0])
+    expect(check.differenceCents).toBe(10000)
+  })
+})
+
+describe('parseCAMT053', () => {
+  it('reads a namespaced statement and skips pending entries', () => {
+    const [statement] = parseCAMT053(CAMT053)
+    expect(statement.statementId).toBe('CAMT-2025-01')
+    expect(statement.accountNumber).toBe('SA0380000000608010167519')
+    expect(statement.currency).toBe('SAR')
+    expect(statement.openingBalance?.amount).toBe(5000)
+    expect(statement.closingBalance?.amount).toBe(5750)
+    expect(statement.transactions).toHaveLength(2)
+    expect(statement.warnings).toEqual(['1 pending entries were not imported'])
+
+    const [receipt, bill] = statement.transactions
+    expect(receipt).toMatchObject({ id: 'camt053:AR-0001', type: 'credit', amount: 1000, reference: 'E2E-77' })
+    expect(receipt.description).toBe('Gulf Supplies Co Invoice 2025-014')
+    expect(bill).toMatchObject({ type: 'debit', amount: 250, description: 'SADAD bill payment' })
+    expect(checkStatementBalances(statement).differenceCents).toBe(0)
+  })
+})
+
+describe('parseOFX', () => {
+  it('reads an SGML statement with unclosed tags', () => {
+    const [statement] = parseOFX(OFX)
+    expect(statement.accountNumber).toBe('000123456789')
+    expect(statement.currency).toBe('USD')
+    expect(statement.closingBalance?.amount).toBe(3457.9)
+    expect(statement.transactions).toHaveLength(2)
+    expect(statement.transactions[0]).toMatchObject({ id: 'ofx:2025010501', type: 'debit', amount: 42.1 })
+    expect(statement.transactions[0].description).toContain('OFFICE DEPOT')
+    expect(statement.transactions[1]).toMatchObject({ type: 'credit', amount: 1500 })
+    expect(statement.transactions[1].date.toISOString().slice(0, 10)).toBe('2025-01-15')
+  })
+})
+
+describe('parseBankCsv', () => {
+  const enbd = getCsvProfilePreset('emirates_nbd')!.mapping
+
+  it('reads quoted fields and debit/credit columns, newest first', () => {
+    const content = [
+      '\uFEFFTransaction Date,Narration,Reference Number,Debit,Credit,Running Balance',
+      '"03/02/2025","DEWA, utility bill",REF3,"1,200.00",,"8,800.00"',
+      '"01/02/2025","Transfer from ""Acme"" LLC",REF2,,"5,000.00","10,000.00"',
+      '"31/01/2025",Opening fee,REF1,50.00,,"5,000.00"',
+    ].join('\n')
+    const statement = parseBankCsv(content, enbd)
+
+    expect(statement.transactions).toHaveLength(3)
+    expect(statement.transactions[0]).toMatchObject({ description: 'DEWA, utility bill', type: 'debit', amount: 1200, currency: 'AED', reference: 'REF3' })
+    expect(statement.transactions[1].description).toBe('Transfer from "Acme" LLC')
+    expect(statement.transactions[1].date.toISOString().slice(0, 10)).toBe('2025-02-01')
+    expect(statement.openingBalance?.amount).toBe(5050)
+    expect(statement.closingBalance?.amount).toBe(8800)
+    expect(statement.warnings).toEqual([])
+    expect(checkStatementBalances(statement).differenceCents).toBe(0)
+  })
+
+  it('handles comma decimals, semicolons and a signed amount column', () => {
+    const mapping = CsvColumnMappingSchema.parse({
+      dateColumn: 'Datum',
+      descriptionColumns: ['Omschrijving'],
+      amountColumn: 'Bedrag',
+      balanceColumn: 'Saldo',
+      dateFormat: 'DD.MM.YYYY',
+      decimalSeparator: ',',
+      currency: 'EUR',
+    })
+    const content = ['Datum;Omschrijving;Bedrag;Saldo', '02.01.2025;Huur;-1.250,00;3.750,00', '03.01.2025;Klant;2.000,50;5.750,50', 'Totaal;;;'].join('\n')
+    const statement = parseBankCsv(content, mapping)
+
+    expect(statement.transactions.map((t) => [t.type, t.amount])).toEqual([
+      ['debit', 1250],
+      ['credit', 2000.5],
+    ])
+    expect(statement.openingBalance?.amount).toBe(5000)
+    expect(statement.closingBalance?.amount).toBe(5750.5)
+    expect(statement.warnings).toEqual(['Row 4 skipped: no DD.MM.YYYY date'])
+  })
+
+  it('flags rows that break the running balance', () => {
+    const content = [
+      'Transaction Date,Narration,Reference Number,Debit,Credit,Running Balance',
+      '01/02/2025,Deposit,R1,,100.00,1100.00',
+      '02/02/2025,Fee,R2,10.00,,1080.00',
+      '03/02/2025,Deposit,R3,,20.00,1100.00',
+    ].join('\n')
+    const statement = parseBankCsv(content, enbd)
+    expect(statement.warnings).toEqual(['Running balance does not follow from the amounts on rows 3'])
+  })
+
+  it('requires an amount column or both debit and credit columns', () => {
+    const result = CsvColumnMappingSchema.safeParse({ dateColumn: 0, descriptionColumns: [1], debitColumn: 2 })
+    expect(result.success).toBe(false)
+  })
+})
+
+describe('transaction ids', () => {
+  it('are stable across re-parses so re-imports dedupe', () => {
+    const content = 'Date,Description,Amount,Currency,Reference\n2025-01-02,Coffee,-4.50,AED,\n2025-01-02,Coffee,-4.50,AED,\n2025-01-03,Refund,4.50,AED,'
+    const mapping = getCsvProfilePreset('generic')!.mapping
+    const first = parseBankCsv(content, mapping).transactions.map((t) => t.id)
+    const second = parseBankCsv(content, mapping).transactions.map((t) => t.id)
+
+    expect(first).toEqual(second)
+    // Identical lines on the same day stay distinct
+    expect(new Set(first).size).toBe(3)
+    expect(first[0]).toMatch(/^csv:h:[0-9a-f]{32}$/)
+  })
+})
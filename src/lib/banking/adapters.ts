@@ -1,4 +1,5 @@
 import { logger } from '@/lib/logger'
+import { getCsvProfilePreset, parseBankCsv } from './parsers/csv'
 
 export interface BankTransaction {
   id: string
@@ -209,32 +210,13 @@ export class CSVBankingProvider implements BankingProvider {
   }
 
   /**
-   * Parse CSV file into transactions
+   * Parse CSV file into transactions using the generic column layout
+   * (date, description, signed amount, currency, reference). Bank-specific
+   * layouts are imported through a CSV profile, see parsers/csv.ts.
    */
   async parseCSV(csvContent: string): Promise<BankTransaction[]> {
-    const lines = csvContent.split('\n')
-    const transactions: BankTransaction[] = []
-
-    // Skip header
-    for (let i = 1; i < lines.length; i++) {
-      const line = lines[i].trim()
-      if (!line) continue
-
-      const parts = line.split(',')
-      if (parts.length < 5) continue
-
-      transactions.push({
-        id: `csv_${Date.now()}_${i}`,
-        date: new Date(parts[0]),
-        description: parts[1],
-        amount: Math.abs(parseFloat(parts[2])),
-        currency: parts[3] || 'AED',
-        type: parseFloat(parts[2]) < 0 ? 'debit' : 'credit',
-        reference: parts[4],
-      })
-    }
-
-    return transactions
+    const preset = getCsvProfilePreset('generic')!
+    return parseBankCsv(csvContent, { ...preset.mapping, currency: preset.mapping.currency ?? 'AED' }).transactions
   }
 }
 
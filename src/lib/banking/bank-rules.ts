@@ -0,0 +1,111 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+
+/**
+ * Bank Rules
+ *
+ * User-defined rules that code recurring bank lines to a ledger account,
+ * e.g. "description contains DEWA" to Utilities. Every condition set on a
+ * rule must hold; rules are tried in priority order and the first that
+ * fits wins. Rules marked autoApply reconcile without review, the rest
+ * are offered as suggestions.
+ */
+
+export const BankRuleFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  connectionId: z.string().min(1).nullable().optional(),
+  priority: z.number().int().min(0).max(10000).default(100),
+  direction: z.enum(['credit', 'debit']).nullable().optional(),
+  descriptionContains: z.string().trim().min(1).max(255).nullable().optional(),
+  referenceContains: z.string().trim().min(1).max(255).nullable().optional(),
+  minAmountCents: z.number().int().min(0).nullable().optional(),
+  maxAmountCents: z.number().int().min(0).nullable().optional(),
+  ledgerAccountId: z.string().min(1),
+  memo: z.string().trim().max(255).nullable().optional(),
+  autoApply: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+})
+
+export const BankRuleInputSchema = BankRuleFieldsSchema
+  .refine((rule) => Boolean(rule.descriptionContains || rule.referenceContains || rule.minAmountCents != null || rule.maxAmountCents != null), {
+    message: 'A rule needs at least one condition on the description, reference or amount',
+    path: ['descriptionContains'],
+  })
+  .refine((rule) => rule.minAmountCents == null || rule.maxAmountCents == null || rule.minAmountCents <= rule.maxAmountCents, {
+    message: 'minAmountCents cannot exceed maxAmountCents',
+    path: ['minAmountCents'],
+  })
+
+export type BankRuleInput = z.infer<typeof BankRuleInputSchema>
+
+export interface BankRuleConditions {
+  id: string
+  connectionId?: string | null
+  priority: number
+  direction?: string | null
+  descriptionContains?: string | null
+  referenceContains?: string | null
+  minAmountCents?: number | null
+  maxAmountCents?: number | null
+  isActive?: boolean
+}
+
+export interface RuleLine {
+  connectionId: string
+  type: string
+  description: string
+  reference?: string | null
+  amountCents: number
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Whether every condition of a rule holds for a bank line. Text
+ * conditions are case-insensitive; several alternatives may be given
+ * separated by | ("DEWA|SEWA").
+ */
+export function ruleMatches(rule: BankRuleConditions, line: RuleLine): boolean {
+  if (rule.isActive === false) return false
+  if (rule.connectionId && rule.connectionId !== line.connectionId) return false
+  if (rule.direction && rule.direction !== line.type) return false
+  if (rule.minAmountCents != null && line.amountCents < rule.minAmountCents) return false
+  if (rule.maxAmountCents != null && line.amountCents > rule.maxAmountCents) return false
+
+  const contains = (text: string | null | undefined, pattern: string) => {
+    const haystack = normalize(text ?? '')
+    return pattern.split('|').map(normalize).filter(Boolean).some((needle) => haystack.includes(needle))
+  }
+  if (rule.descriptionContains && !contains(line.description, rule.descriptionContains)) return false
+  if (rule.referenceContains && !contains(line.reference, rule.referenceContains)) return false
+  return true
+}
+
+/**
+ * First rule, by priority, that fits a bank line
+ */
+export function findMatchingRule<T extends BankRuleConditions>(rules: T[], line: RuleLine): T | undefined {
+  return [...rules].sort((a, b) => a.priority - b.priority).find((rule) => ruleMatches(rule, line))
+}
+
+/**
+ * Check that a rule's ledger account and connection belong to the tenant
+ */
+export async function validateRuleReferences(tenantId: string, rule: Pick<BankRuleInput, 'ledgerAccountId' | 'connectionId'>): Promise<string | null> {
+  const account = await prisma.ledgerAccount.findFirst({
+    where: { id: rule.ledgerAccountId, tenantId, isActive: true },
+    select: { id: true },
+  })
+  if (!account) return 'Ledger account not found'
+
+  if (rule.connectionId) {
+    const connection = await prisma.bankingConnection.findFirst({
+      where: { id: rule.connectionId, tenantId },
+      select: { id: true },
+    })
+    if (!connection) return 'Connection not found'
+  }
+  return null
+}
@@ -0,0 +1,152 @@
+import { xml2js, ElementCompact } from 'xml-js'
+import { ApiError } from '@/lib/api/error-responses'
+import { BankTransaction } from '../adapters'
+import { assignTransactionIds, collapseWhitespace, parseAmount } from './common'
+import { ParsedStatement, StatementBalance } from './types'
+
+/**
+ * ISO 20022 CAMT.053
+ *
+ * Bank-to-customer statements (camt.053.001.02 through .08). Only booked
+ * entries are imported; pending ones are left for a later statement.
+ * Namespace prefixes are ignored so that any schema version reads alike.
+ */
+
+type Node = ElementCompact
+
+const OPENING_BALANCE_CODES = ['OPBD', 'PRCD']
+const CLOSING_BALANCE_CODES = ['CLBD']
+
+/** Children by path; every element is an array with alwaysArray */
+function all(node: Node | undefined, ...path: string[]): Node[] {
+  let current: Node[] = node ? [node] : []
+  for (const name of path) {
+    current = current.flatMap((n) => (Array.isArray(n[name]) ? n[name] : n[name] ? [n[name]] : []))
+  }
+  return current
+}
+
+function one(node: Node | undefined, ...path: string[]): Node | undefined {
+  return all(node, ...path)[0]
+}
+
+function text(node: Node | undefined, ...path: string[]): string | undefined {
+  const target = one(node, ...path)
+  if (!target) return undefined
+  const value = Array.isArray(target._text) ? target._text.join('') : target._text
+  return value === undefined ? undefined : String(value).trim()
+}
+
+function parseIsoDate(value: string | undefined): Date | undefined {
+  if (!value) return undefined
+  const date = new Date(value.length === 10 ? `${value}T00:00:00Z` : value)
+  return Number.isFinite(date.getTime()) ? date : undefined
+}
+
+function dateOf(node: Node | undefined): Date | undefined {
+  return parseIsoDate(text(node, 'Dt') ?? text(node, 'DtTm'))
+}
+
+function amountOf(node: Node): { amount: number; currency?: string } {
+  const amt = one(node, 'Amt')
+  return { amount: parseAmount(text(node, 'Amt'), '.') ?? 0, currency: amt?._attributes?.Ccy as string | undefined }
+}
+
+function parseBalances(statement: Node): { opening?: StatementBalance; closing?: StatementBalance } {
+  const result: { opening?: StatementBalance; closing?: StatementBalance } = {}
+  for (const balance of all(statement, 'Bal')) {
+    const code = text(balance, 'Tp', 'CdOrPrtry', 'Cd')
+    const { amount, currency } = amountOf(balance)
+    const signed = text(balance, 'CdtDbtInd') === 'DBIT' ? -amount : amount
+    const value = { amount: signed, date: dateOf(one(balance, 'Dt')), currency }
+    if (code && OPENING_BALANCE_CODES.includes(code) && !result.opening) result.opening = value
+    if (code && CLOSING_BALANCE_CODES.includes(code)) result.closing = value
+  }
+  return result
+}
+
+function isBooked(entry: Node): boolean {
+  // camt.053.001.02 has <Sts>BOOK</Sts>, later versions <Sts><Cd>BOOK</Cd></Sts>
+  const status = text(entry, 'Sts') || text(entry, 'Sts', 'Cd')
+  return !status || status === 'BOOK'
+}
+
+function describeEntry(entry: Node): { description: string; reference?: string } {
+  const details = one(entry, 'NtryDtls', 'TxDtls')
+  const unstructured = all(details, 'RmtInf', 'Ustrd').map((n) => text(n) ?? '')
+  const credit = text(entry, 'CdtDbtInd') === 'CRDT'
+  // The other party: who paid us, or whom we paid
+  const party = credit
+    ? text(details, 'RltdPties', 'Dbtr', 'Nm') ?? text(details, 'RltdPties', 'Dbtr', 'Pty', 'Nm')
+    : text(details, 'RltdPties', 'Cdtr', 'Nm') ?? text(details, 'RltdPties', 'Cdtr', 'Pty', 'Nm')
+  const additional = text(entry, 'AddtlNtryInf') ?? text(details, 'AddtlTxInf')
+
+  const endToEnd = text(details, 'Refs', 'EndToEndId')
+  return {
+    description: collapseWhitespace([party, ...unstructured, additional].filter(Boolean).join(' ')) || 'Bank transaction',
+    reference: endToEnd && endToEnd !== 'NOTPROVIDED' ? endToEnd : text(details, 'Refs', 'InstrId'),
+  }
+}
+
+function parseStatement(statement: Node): ParsedStatement {
+  const accountNumber = text(statement, 'Acct', 'Id', 'IBAN') ?? text(statement, 'Acct', 'Id', 'Othr', 'Id')
+  const balances = parseBalances(statement)
+  const currency = text(statement, 'Acct', 'Ccy') ?? balances.opening?.currency ?? balances.closing?.currency
+  const parsed: ParsedStatement = {
+    format: 'camt053',
+    statementId: text(statement, 'Id'),
+    accountNumber,
+    currency,
+    openingBalance: balances.opening,
+    closingBalance: balances.closing,
+    transactions: [],
+    warnings: [],
+  }
+
+  const transactions: BankTransaction[] = []
+  let pending = 0
+  for (const entry of all(statement, 'Ntry')) {
+    if (!isBooked(entry)) {
+      pending++
+      continue
+    }
+    const { amount, currency: entryCurrency } = amountOf(entry)
+    const date = dateOf(one(entry, 'BookgDt')) ?? dateOf(one(entry, 'ValDt'))
+    if (!date) throw new ApiError('INVALID_STATEMENT', 'CAMT.053 entry without a booking date', 422)
+
+    transactions.push({
+      id: text(entry, 'AcctSvcrRef') ?? text(entry, 'NtryRef') ?? '',
+      date,
+      amount,
+      currency: entryCurrency ?? currency ?? '',
+      type: text(entry, 'CdtDbtInd') === 'DBIT' ? 'debit' : 'credit',
+      ...describeEntry(entry),
+    })
+  }
+
+  if (pending) parsed.warnings.push(`${pending} pending entries were not imported`)
+  parsed.transactions = assignTransactionIds('camt053', accountNumber, transactions)
+  return parsed
+}
+
+/**
+ * Parse every statement in a CAMT.053 document
+ */
+export function parseCAMT053(content: string): ParsedStatement[] {
+  let document: Node
+  try {
+    document = xml2js(content, {
+      compact: true,
+      alwaysArray: true,
+      ignoreComment: true,
+      ignoreDeclaration: true,
+      elementNameFn: ((name: string) => name.replace(/^.*:/, '')) as any,
+    }) as Node
+  } catch (error) {
+    throw new ApiError('INVALID_STATEMENT', `CAMT.053 file is not valid XML: ${(error as Error).message}`, 422)
+  }
+
+  const statements = all(document, 'Document', 'BkToCstmrStmt', 'Stmt')
+  if (statements.length === 0) throw new ApiError('INVALID_STATEMENT', 'No CAMT.053 statement found in the file', 422)
+  return statements.map(parseStatement)
+}
@@ -0,0 +1,111 @@
+import { createHash } from 'crypto'
+import { BankTransaction } from '../adapters'
+import { StatementFormat } from './types'
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC']
+
+/**
+ * Parse an amount written with the given decimal separator. Accepts
+ * thousands separators, currency codes, brackets or a trailing minus for
+ * negatives, and CR/DR suffixes.
+ */
+export function parseAmount(value: string | undefined | null, decimalSeparator: '.' | ',' = '.'): number | null {
+  if (value === undefined || value === null) return null
+  let text = value.toUpperCase().replace(/\s+/g, '')
+  if (!text) return null
+
+  let negative = false
+  if (/^\(.*\)$/.test(text)) {
+    negative = true
+    text = text.slice(1, -1)
+  }
+  if (text.endsWith('DR')) {
+    negative = !negative
+    text = text.slice(0, -2)
+  } else if (text.endsWith('CR')) {
+    text = text.slice(0, -2)
+  }
+  // Currency codes and symbols
+  text = text.replace(/[A-Z$€£']/g, '')
+  if (text.endsWith('-')) {
+    negative = !negative
+    text = text.slice(0, -1)
+  }
+  if (text.startsWith('-')) {
+    negative = !negative
+    text = text.slice(1)
+  } else if (text.startsWith('+')) {
+    text = text.slice(1)
+  }
+
+  const thousands = decimalSeparator === '.' ? /,/g : /\./g
+  text = text.replace(thousands, '')
+  if (decimalSeparator === ',') text = text.replace(',', '.')
+  if (!/^\d*\.?\d+$|^\d+\.$/.test(text)) return null
+
+  const amount = Number(text)
+  if (!Number.isFinite(amount)) return null
+  return negative ? -amount : amount
+}
+
+/**
+ * Parse a date against a pattern such as DD/MM/YYYY, YYYY-MM-DD or
+ * DD-MMM-YY. A time after the date is ignored. Dates are taken as UTC.
+ */
+export function parseDateWithFormat(value: string | undefined | null, format: string): Date | null {
+  if (!value) return null
+  const tokens: string[] = []
+  const pattern = format
+    .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+    .replace(/YYYY|YY|MMM|MM|M|DD|D/g, (token) => {
+      tokens.push(token)
+      if (token === 'YYYY') return '(\\d{4})'
+      if (token === 'MMM') return '([A-Za-z]{3})'
+      if (token === 'M' || token === 'D') return '(\\d{1,2})'
+      return '(\\d{2})'
+    })
+  const match = new RegExp(`^${pattern}(?:[ T].*)?$`).exec(value.trim())
+  if (!match) return null
+
+  let year = 0
+  let month = 0
+  let day = 0
+  tokens.forEach((token, i) => {
+    const part = match[i + 1]
+    if (token === 'YYYY') year = Number(part)
+    else if (token === 'YY') year = 2000 + Number(part)
+    else if (token === 'MMM') month = MONTHS.indexOf(part.toUpperCase()) + 1
+    else if (token === 'MM' || token === 'M') month = Number(part)
+    else day = Number(part)
+  })
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  // Reject overflow such as 31/02
+  if (month < 1 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) return null
+  return date
+}
+
+/**
+ * Give every transaction a stable external id. Bank references are kept;
+ * the rest get a hash of their content, numbered so that two identical
+ * lines in one statement stay distinct.
+ */
+export function assignTransactionIds(format: StatementFormat, accountNumber: string | undefined, transactions: BankTransaction[]): BankTransaction[] {
+  const occurrences = new Map<string, number>()
+  const seen = new Set<string>()
+  return transactions.map((txn) => {
+    if (txn.id && !seen.has(txn.id)) {
+      seen.add(txn.id)
+      return { ...txn, id: `${format}:${txn.id}` }
+    }
+    const content = [accountNumber ?? '', txn.date.toISOString().slice(0, 10), txn.type, txn.amount.toFixed(2), txn.description, txn.reference ?? ''].join('|')
+    const n = (occurrences.get(content) ?? 0) + 1
+    occurrences.set(content, n)
+    const hash = createHash('sha256').update(`${content}|${n}`).digest('hex').slice(0, 32)
+    return { ...txn, id: `${format}:h:${hash}` }
+  })
+}
+
+export function collapseWhitespace(value: string): string {
+  return value.replace(/\s+/g, ' ').trim()
+}
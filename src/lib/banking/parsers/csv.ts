@@ -0,0 +1,284 @@
+import { z } from 'zod'
+import { parse } from 'csv-parse/sync'
+import { ApiError } from '@/lib/api/error-responses'
+import { BankTransaction } from '../adapters'
+import { assignTransactionIds, collapseWhitespace, parseAmount, parseDateWithFormat } from './common'
+import { ParsedStatement } from './types'
+
+/**
+ * Bank CSV Exports
+ *
+ * Every bank lays out its CSV differently, so a column mapping says where
+ * the date, description and amount live, how dates and decimals are
+ * written, and whether amounts are signed or split into debit and credit
+ * columns. Columns are referenced by header name or zero-based index.
+ * A running balance column, when mapped, is checked row by row.
+ */
+
+const ColumnRefSchema = z.union([z.string().trim().min(1), z.number().int().min(0)])
+
+export const CsvColumnMappingSchema = z
+  .object({
+    delimiter: z.enum([',', ';', '\t', '|']).optional(), // Detected from the header when omitted
+    skipRows: z.number().int().min(0).max(50).default(0), // Lines above the header
+    hasHeader: z.boolean().default(true),
+    dateColumn: ColumnRefSchema,
+    dateFormat: z.string().trim().min(4).max(20).default('DD/MM/YYYY'),
+    descriptionColumns: z.array(ColumnRefSchema).min(1),
+    amountColumn: ColumnRefSchema.optional(), // Signed: negative is money out
+    debitColumn: ColumnRefSchema.optional(),
+    creditColumn: ColumnRefSchema.optional(),
+    directionColumn: ColumnRefSchema.optional(), // DR/CR marker next to an unsigned amount
+    debitMarkers: z.array(z.string()).default(['DR', 'D', 'DEBIT']),
+    currencyColumn: ColumnRefSchema.optional(),
+    referenceColumn: ColumnRefSchema.optional(),
+    balanceColumn: ColumnRefSchema.optional(),
+    decimalSeparator: z.enum(['.', ',']).default('.'),
+    currency: z.string().length(3).optional(), // When there is no currency column
+  })
+  .refine((m) => m.amountColumn !== undefined || (m.debitColumn !== undefined && m.creditColumn !== undefined), {
+    message: 'Map either an amount column or both debit and credit columns',
+    path: ['amountColumn'],
+  })
+
+export type CsvColumnMapping = z.infer<typeof CsvColumnMappingSchema>
+type ColumnRef = z.infer<typeof ColumnRefSchema>
+
+export interface CsvProfilePreset {
+  key: string
+  name: string
+  bankName: string
+  mapping: CsvColumnMapping
+}
+
+/**
+ * Starting points for the banks our clients use most; tenants save their
+ * own profiles when an export differs
+ */
+export const CSV_PROFILE_PRESETS: CsvProfilePreset[] = [
+  {
+    key: 'generic',
+    name: 'Generic (date, description, amount, currency, reference)',
+    bankName: 'Generic',
+    mapping: CsvColumnMappingSchema.parse({
+      dateColumn: 0,
+      descriptionColumns: [1],
+      amountColumn: 2,
+      currencyColumn: 3,
+      referenceColumn: 4,
+      dateFormat: 'YYYY-MM-DD',
+    }),
+  },
+  {
+    key: 'emirates_nbd',
+    name: 'Emirates NBD account statement',
+    bankName: 'Emirates NBD',
+    mapping: CsvColumnMappingSchema.parse({
+      dateColumn: 'Transaction Date',
+      descriptionColumns: ['Narration'],
+      debitColumn: 'Debit',
+      creditColumn: 'Credit',
+      balanceColumn: 'Running Balance',
+      referenceColumn: 'Reference Number',
+      dateFormat: 'DD/MM/YYYY',
+      currency: 'AED',
+    }),
+  },
+  {
+    key: 'al_rajhi',
+    name: 'Al Rajhi Bank account statement',
+    bankName: 'Al Rajhi Bank',
+    mapping: CsvColumnMappingSchema.parse({
+      dateColumn: 'Date',
+      descriptionColumns: ['Description', 'Details'],
+      debitColumn: 'Debit',
+      creditColumn: 'Credit',
+      balanceColumn: 'Balance',
+      dateFormat: 'YYYY/MM/DD',
+      currency: 'SAR',
+    }),
+  },
+  {
+    key: 'cib',
+    name: 'CIB Egypt account statement',
+    bankName: 'Commercial International Bank',
+    mapping: CsvColumnMappingSchema.parse({
+      dateColumn: 'Booking Date',
+      descriptionColumns: ['Description'],
+      debitColumn: 'Debit',
+      creditColumn: 'Credit',
+      balanceColumn: 'Balance',
+      referenceColumn: 'Reference',
+      dateFormat: 'DD-MM-YYYY',
+      currency: 'EGP',
+    }),
+  },
+]
+
+export function getCsvProfilePreset(key: string): CsvProfilePreset | undefined {
+  return CSV_PROFILE_PRESETS.find((preset) => preset.key === key)
+}
+
+/**
+ * Split CSV text into rows. Rows may have fewer or more cells than the
+ * header: exports pad the totals and disclaimer lines differently.
+ */
+export function parseCsvRows(content: string, delimiter: string): string[][] {
+  let rows: string[][]
+  try {
+    rows = parse(content, { delimiter, bom: true, relax_column_count: true, relax_quotes: true, skip_empty_lines: true })
+  } catch (error) {
+    throw new ApiError('INVALID_STATEMENT', `The CSV could not be read: ${(error as Error).message}`, 422)
+  }
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ''))
+}
+
+/** The candidate that splits the header line into the most columns */
+export function detectDelimiter(line: string): string {
+  const candidates = [',', ';', '\t', '|']
+  let best = ','
+  let bestCount = 0
+  for (const candidate of candidates) {
+    let count = 0
+    try {
+      count = parseCsvRows(line, candidate)[0]?.length ?? 0
+    } catch {}
+    if (count > bestCount) {
+      best = candidate
+      bestCount = count
+    }
+  }
+  return best
+}
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+function resolveColumn(ref: ColumnRef | undefined, header: string[] | null, required: boolean): number | undefined {
+  if (ref === undefined) return undefined
+  if (typeof ref === 'number') return ref
+  const index = header ? header.findIndex((h) => normalizeHeader(h) === normalizeHeader(ref)) : -1
+  if (index === -1) {
+    if (!required) return undefined
+    throw new ApiError('INVALID_STATEMENT', `Column "${ref}" not found in the CSV header`, 422, { header })
+  }
+  return index
+}
+
+/**
+ * Opening and closing balances from a running balance column. Exports
+ * run oldest or newest first; whichever order the balances chain in is
+ * used, and rows that break the chain are reported.
+ */
+function checkRunningBalances(signed: number[], balances: number[], lineNumbers: number[], statement: ParsedStatement) {
+  const cents = (n: number) => Math.round(n * 100)
+  const breaks = (newestFirst: boolean) => {
+    const rows: number[] = []
+    for (let i = 1; i < balances.length; i++) {
+      const expected = newestFirst ? balances[i - 1] - signed[i - 1] : balances[i - 1] + signed[i]
+      if (cents(expected) !== cents(balances[i])) rows.push(i)
+    }
+    return rows
+  }
+
+  const forward = breaks(false)
+  const backward = breaks(true)
+  const newestFirst = backward.length < forward.length
+  const broken = newestFirst ? backward : forward
+  const last = balances.length - 1
+
+  if (newestFirst) {
+    statement.openingBalance = { amount: balances[last] - signed[last] }
+    statement.closingBalance = { amount: balances[0] }
+  } else {
+    statement.openingBalance = { amount: balances[0] - signed[0] }
+    statement.closingBalance = { amount: balances[last] }
+  }
+  if (broken.length) {
+    statement.warnings.push(`Running balance does not follow from the amounts on rows ${broken.map((i) => lineNumbers[i]).join(', ')}`)
+  }
+}
+
+/**
+ * Parse a bank CSV export with a column mapping
+ */
+export function parseBankCsv(content: string, mapping: CsvColumnMapping): ParsedStatement {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const body = lines.slice(mapping.skipRows).join('\n')
+  const delimiter = mapping.delimiter ?? detectDelimiter(lines[mapping.skipRows] ?? '')
+  const rows = parseCsvRows(body, delimiter)
+  const header = mapping.hasHeader ? rows.shift() ?? [] : null
+  // Row numbers in messages are 1-based lines of the file
+  const firstRow = mapping.skipRows + (mapping.hasHeader ? 2 : 1)
+
+  const columns = {
+    date: resolveColumn(mapping.dateColumn, header, true) as number,
+    descriptions: mapping.descriptionColumns.map((ref) => resolveColumn(ref, header, false)).filter((i): i is number => i !== undefined),
+    amount: resolveColumn(mapping.amountColumn, header, mapping.debitColumn === undefined),
+    debit: resolveColumn(mapping.debitColumn, header, mapping.amountColumn === undefined),
+    credit: resolveColumn(mapping.creditColumn, header, mapping.amountColumn === undefined),
+    direction: resolveColumn(mapping.directionColumn, header, true),
+    currency: resolveColumn(mapping.currencyColumn, header, false),
+    reference: resolveColumn(mapping.referenceColumn, header, false),
+    balance: resolveColumn(mapping.balanceColumn, header, false),
+  }
+  if (columns.descriptions.length === 0) {
+    throw new ApiError('INVALID_STATEMENT', 'None of the description columns were found in the CSV header', 422, { header })
+  }
+
+  const statement: ParsedStatement = { format: 'csv', currency: mapping.currency, transactions: [], warnings: [] }
+  const transactions: BankTransaction[] = []
+  const signedAmounts: number[] = []
+  const balances: number[] = []
+  const lineNumbers: number[] = []
+  const cell = (row: string[], index: number | undefined) => (index === undefined ? undefined : row[index]?.trim())
+  const amountAt = (row: string[], index: number | undefined) => parseAmount(cell(row, index), mapping.decimalSeparator)
+
+  rows.forEach((row, i) => {
+    const line = i + firstRow
+    const date = parseDateWithFormat(cell(row, columns.date), mapping.dateFormat)
+    if (!date) {
+      // Exports often end with a totals or disclaimer line
+      statement.warnings.push(`Row ${line} skipped: no ${mapping.dateFormat} date`)
+      return
+    }
+
+    let signed: number | null
+    if (columns.amount !== undefined) {
+      signed = amountAt(row, columns.amount)
+      const marker = cell(row, columns.direction)?.toUpperCase()
+      if (signed !== null && marker) {
+        signed = mapping.debitMarkers.map((m) => m.toUpperCase()).includes(marker) ? -Math.abs(signed) : Math.abs(signed)
+      }
+    } else {
+      const debit = amountAt(row, columns.debit)
+      const credit = amountAt(row, columns.credit)
+      signed = debit === null && credit === null ? null : (credit ?? 0) - Math.abs(debit ?? 0)
+    }
+    if (signed === null) throw new ApiError('INVALID_STATEMENT', `Row ${line} has no readable amount`, 422, { row: line })
+    if (signed === 0) return
+
+    const balance = amountAt(row, columns.balance)
+    if (columns.balance !== undefined && balance !== null) balances.push(balance)
+
+    signedAmounts.push(signed)
+    lineNumbers.push(line)
+    transactions.push({
+      id: '',
+      date,
+      description: collapseWhitespace(columns.descriptions.map((index) => cell(row, index) ?? '').join(' ')) || 'Bank transaction',
+      amount: Math.abs(signed),
+      currency: (cell(row, columns.currency) || mapping.currency || '').toUpperCase(),
+      type: signed < 0 ? 'debit' : 'credit',
+      balance: balance ?? undefined,
+      reference: cell(row, columns.reference) || undefined,
+    })
+  })
+
+  if (balances.length && balances.length === transactions.length) {
+    checkRunningBalances(signedAmounts, balances, lineNumbers, statement)
+  }
+  statement.transactions = assignTransactionIds('csv', undefined, transactions)
+  return statement
+}
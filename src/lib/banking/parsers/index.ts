@@ -0,0 +1,70 @@
+import { ApiError } from '@/lib/api/error-responses'
+import { parseMT940 } from './mt940'
+import { parseCAMT053 } from './camt053'
+import { parseOFX } from './ofx'
+import { CsvColumnMapping, parseBankCsv } from './csv'
+import { ParsedStatement, StatementFormat } from './types'
+
+export * from './types'
+export { parseMT940 } from './mt940'
+export { parseCAMT053 } from './camt053'
+export { parseOFX } from './ofx'
+export { CsvColumnMappingSchema, CSV_PROFILE_PRESETS, getCsvProfilePreset, parseBankCsv, parseCsvRows } from './csv'
+export type { CsvColumnMapping, CsvProfilePreset } from './csv'
+export { parseAmount, parseDateWithFormat } from './common'
+
+export interface BalanceCheck {
+  checked: boolean
+  expectedClosing?: number
+  differenceCents: number
+}
+
+/**
+ * Recognize a statement file from its content
+ */
+export function detectStatementFormat(content: string): StatementFormat {
+  const head = content.slice(0, 4096)
+  if (/OFXHEADER|<OFX>/i.test(head)) return 'ofx'
+  if (/<BkToCstmrStmt|camt\.053/.test(head)) return 'camt053'
+  if (/^\s*\{1:|^:20:/m.test(head) && /^:61:|^:60[FM]:/m.test(content)) return 'mt940'
+  return 'csv'
+}
+
+/**
+ * Parse a statement file into one or more account statements
+ */
+export function parseStatementFile(content: string, options: { format?: StatementFormat; mapping?: CsvColumnMapping } = {}): ParsedStatement[] {
+  const format = options.format ?? detectStatementFormat(content)
+  switch (format) {
+    case 'mt940':
+      return parseMT940(content)
+    case 'camt053':
+      return parseCAMT053(content)
+    case 'ofx':
+      return parseOFX(content)
+    case 'csv':
+      if (!options.mapping) {
+        throw new ApiError('CSV_PROFILE_REQUIRED', 'Choose a CSV profile to read this file with', 400)
+      }
+      return [parseBankCsv(content, options.mapping)]
+  }
+}
+
+/**
+ * Opening balance plus the statement's movements must give its closing
+ * balance. Statements without both balances cannot be checked.
+ */
+export function checkStatementBalances(statement: ParsedStatement): BalanceCheck {
+  if (!statement.openingBalance || !statement.closingBalance) return { checked: false, differenceCents: 0 }
+
+  const movementCents = statement.transactions.reduce(
+    (sum, txn) => sum + Math.round(txn.amount * 100) * (txn.type === 'credit' ? 1 : -1),
+    0
+  )
+  const expectedCents = Math.round(statement.openingBalance.amount * 100) + movementCents
+  return {
+    checked: true,
+    expectedClosing: expectedCents / 100,
+    differenceCents: Math.round(statement.closingBalance.amount * 100) - expectedCents,
+  }
+}
@@ -0,0 +1,133 @@
+import { ApiError } from '@/lib/api/error-responses'
+import { BankTransaction } from '../adapters'
+import { assignTransactionIds, collapseWhitespace, parseAmount } from './common'
+import { ParsedStatement, StatementBalance } from './types'
+
+/**
+ * SWIFT MT940
+ *
+ * Customer statement messages: :20: reference, :25: account, :60F/M:
+ * opening balance, :61: statement lines each optionally followed by :86:
+ * details, :62F/M: closing balance. A file may hold several messages,
+ * with or without the {1:}{2:}{4: envelope.
+ */
+
+interface Field {
+  tag: string
+  value: string
+}
+
+const FIELD_START = /^:(\d{2}[A-Z]?):/
+
+/** :61: date, entry date, mark, funds code, amount, type, references, details */
+const STATEMENT_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([NSF][A-Z0-9]{3})([^\n]*?)(?:\/\/([^\n]*))?(?:\n([\s\S]*))?$/
+
+function parseSwiftDate(value: string): Date {
+  return new Date(Date.UTC(2000 + Number(value.slice(0, 2)), Number(value.slice(2, 4)) - 1, Number(value.slice(4, 6))))
+}
+
+/** C/D mark, YYMMDD, currency and amount, e.g. C250131AED12500,00 */
+function parseBalance(value: string): StatementBalance {
+  const match = /^([CD])(\d{6})([A-Z]{3})(\d+,\d*)/.exec(value.trim())
+  if (!match) throw new ApiError('INVALID_STATEMENT', `Invalid MT940 balance: ${value}`, 422)
+  const amount = parseAmount(match[4], ',') ?? 0
+  return { amount: match[1] === 'D' ? -amount : amount, date: parseSwiftDate(match[2]), currency: match[3] }
+}
+
+function splitFields(block: string): Field[] {
+  const fields: Field[] = []
+  for (const rawLine of block.split(/\r?\n/)) {
+    const line = rawLine.trimEnd()
+    if (!line || line === '-' || line.startsWith('-}')) continue
+    const match = FIELD_START.exec(line)
+    if (match) {
+      fields.push({ tag: match[1], value: line.slice(match[0].length) })
+    } else if (fields.length) {
+      fields[fields.length - 1].value += `\n${line}`
+    }
+  }
+  return fields
+}
+
+function parseStatementLine(value: string, currency: string | undefined): BankTransaction {
+  const match = STATEMENT_LINE.exec(value)
+  if (!match) throw new ApiError('INVALID_STATEMENT', `Invalid MT940 statement line: ${value.split('\n')[0]}`, 422)
+  const [, valueDate, , mark, , amountText, , customerRef, bankRef, supplementary] = match
+
+  // RC reverses a credit (money out), RD reverses a debit (money in)
+  const type = mark === 'C' || mark === 'RD' ? 'credit' : 'debit'
+  const reference = customerRef.trim() && customerRef.trim() !== 'NONREF' ? customerRef.trim() : undefined
+
+  return {
+    id: bankRef?.trim() ?? '',
+    date: parseSwiftDate(valueDate),
+    description: collapseWhitespace(supplementary ?? ''),
+    amount: parseAmount(amountText, ',') ?? 0,
+    currency: currency ?? '',
+    type,
+    reference,
+  }
+}
+
+/** :86: may be structured with ?NN subfields; keep the readable text */
+function parseDetails(value: string): string {
+  return collapseWhitespace(value.replace(/\?\d{2}/g, ' '))
+}
+
+function parseMessage(block: string): ParsedStatement | null {
+  const fields = splitFields(block)
+  if (!fields.some((f) => f.tag === '20')) return null
+
+  const statement: ParsedStatement = { format: 'mt940', transactions: [], warnings: [] }
+  const transactions: BankTransaction[] = []
+
+  for (const field of fields) {
+    switch (field.tag) {
+      case '20':
+        statement.statementId = field.value.trim()
+        break
+      case '25':
+        statement.accountNumber = field.value.trim()
+        break
+      case '60F':
+      case '60M':
+        statement.openingBalance = parseBalance(field.value)
+        statement.currency = statement.openingBalance.currency
+        break
+      case '61':
+        transactions.push(parseStatementLine(field.value, statement.currency))
+        break
+      case '86': {
+        const last = transactions[transactions.length - 1]
+        if (last) last.description = [last.description, parseDetails(field.value)].filter(Boolean).join(' ')
+        break
+      }
+      case '62F':
+      case '62M':
+        statement.closingBalance = parseBalance(field.value)
+        break
+    }
+  }
+
+  for (const txn of transactions) {
+    if (!txn.description) txn.description = txn.reference ?? 'Bank transaction'
+  }
+  statement.transactions = assignTransactionIds('mt940', statement.accountNumber, transactions)
+  return statement
+}
+
+/**
+ * Parse every statement message in an MT940 file
+ */
+export function parseMT940(content: string): ParsedStatement[] {
+  // Each message starts at its :20: field; envelopes are dropped
+  const body = content
+    .replace(/\{5:.*$/gm, '')
+    .replace(/\{[1-3]:(\{[^}]*\}|[^}])*\}/g, '')
+    .replace(/\{4:/g, '\n')
+    .replace(/-\}/g, '\n')
+  const blocks = body.split(/(?=^:20:)/m)
+  const statements = blocks.map(parseMessage).filter((s): s is ParsedStatement => s !== null)
+  if (statements.length === 0) throw new ApiError('INVALID_STATEMENT', 'No MT940 statement found in the file', 422)
+  return statements
+}
@@ -0,0 +1,90 @@
+import { ApiError } from '@/lib/api/error-responses'
+import { BankTransaction } from '../adapters'
+import { assignTransactionIds, collapseWhitespace, parseAmount } from './common'
+import { ParsedStatement } from './types'
+
+/**
+ * OFX / QFX
+ *
+ * Reads both OFX 1.x (SGML, leaf elements unclosed) and OFX 2.x (XML)
+ * with the same tag scanner. Bank and credit-card statements are
+ * supported. OFX carries a closing (ledger) balance but no opening one.
+ */
+
+const ENTITIES: Record<string, string> = { '&amp;': '&', '&lt;': '<', '&gt;': '>', '&quot;': '"', '&apos;': "'", '&nbsp;': ' ' }
+
+function decode(value: string): string {
+  return value.replace(/&(amp|lt|gt|quot|apos|nbsp);/g, (entity) => ENTITIES[entity])
+}
+
+/** Value of a leaf element, closed or not */
+function leaf(block: string, tag: string): string | undefined {
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block)
+  const value = match?.[1].trim()
+  return value ? decode(value) : undefined
+}
+
+function aggregates(block: string, tag: string): string[] {
+  return Array.from(block.matchAll(new RegExp(`<${tag}>([\\s\\S]*?)</${tag}>`, 'gi')), (m) => m[1])
+}
+
+/** YYYYMMDD[HHMMSS[.XXX]][[+|-]HH[:TZ]]; only the calendar date is kept */
+function parseOfxDate(value: string | undefined): Date | undefined {
+  const match = value ? /^(\d{4})(\d{2})(\d{2})/.exec(value) : null
+  if (!match) return undefined
+  return new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])))
+}
+
+/** Amounts use a period, though some banks write a comma */
+function parseOfxAmount(value: string | undefined): number | null {
+  if (!value) return null
+  return parseAmount(value, /,\d{1,2}$/.test(value) && !value.includes('.') ? ',' : '.')
+}
+
+function parseStatement(block: string): ParsedStatement {
+  const currency = leaf(block, 'CURDEF')
+  const accountNumber = leaf(block, 'ACCTID')
+  const transactions: BankTransaction[] = []
+
+  for (const entry of aggregates(block, 'STMTTRN')) {
+    const amount = parseOfxAmount(leaf(entry, 'TRNAMT'))
+    const date = parseOfxDate(leaf(entry, 'DTPOSTED'))
+    if (amount === null || !date) throw new ApiError('INVALID_STATEMENT', 'OFX transaction without an amount or posting date', 422)
+
+    const name = leaf(entry, 'NAME') ?? leaf(entry, 'PAYEE')
+    const memo = leaf(entry, 'MEMO')
+    const currencyOverride = leaf(entry, 'CURSYM') ?? leaf(entry, 'ORIGCURRENCY')
+    transactions.push({
+      id: leaf(entry, 'FITID') ?? '',
+      date,
+      description: collapseWhitespace([name, memo && memo !== name ? memo : undefined].filter(Boolean).join(' ')) || leaf(entry, 'TRNTYPE') || 'Bank transaction',
+      amount: Math.abs(amount),
+      currency: currencyOverride ?? currency ?? '',
+      type: amount < 0 ? 'debit' : 'credit',
+      reference: leaf(entry, 'REFNUM') ?? leaf(entry, 'CHECKNUM'),
+    })
+  }
+
+  const ledger = aggregates(block, 'LEDGERBAL')[0]
+  const closingAmount = ledger ? parseOfxAmount(leaf(ledger, 'BALAMT')) : null
+  const range = aggregates(block, 'BANKTRANLIST')[0] ?? ''
+
+  return {
+    format: 'ofx',
+    accountNumber,
+    currency,
+    statementId: leaf(range, 'DTEND'),
+    closingBalance: closingAmount === null ? undefined : { amount: closingAmount, date: parseOfxDate(leaf(ledger, 'DTASOF')), currency },
+    transactions: assignTransactionIds('ofx', accountNumber, transactions),
+    warnings: [],
+  }
+}
+
+/**
+ * Parse every bank and credit-card statement in an OFX or QFX file
+ */
+export function parseOFX(content: string): ParsedStatement[] {
+  const statements = [...aggregates(content, 'STMTRS'), ...aggregates(content, 'CCSTMTRS')]
+  if (statements.length === 0) throw new ApiError('INVALID_STATEMENT', 'No OFX statement found in the file', 422)
+  return statements.map(parseStatement)
+}
@@ -0,0 +1,26 @@
+import { BankTransaction } from '../adapters'
+
+export type StatementFormat = 'mt940' | 'camt053' | 'ofx' | 'csv'
+
+/** Signed balance in major units; negative is overdrawn */
+export interface StatementBalance {
+  amount: number
+  date?: Date
+  currency?: string
+}
+
+/**
+ * One account statement as read from a file. Transactions carry a stable
+ * id: the bank's own reference where the format has one, otherwise a
+ * content hash, so importing the same file twice adds nothing.
+ */
+export interface ParsedStatement {
+  format: StatementFormat
+  statementId?: string
+  accountNumber?: string
+  currency?: string
+  openingBalance?: StatementBalance
+  closingBalance?: StatementBalance
+  transactions: BankTransaction[]
+  warnings: string[]
+}
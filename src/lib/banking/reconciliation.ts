@@ -0,0 +1,684 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import {
+  getBankLedgerAccountId,
+  postBankReconciliation,
+  postBankTransaction,
+  postSafely,
+  resolvePostingEntityId,
+} from '@/lib/accounting/posting'
+import { reverseJournalEntry } from '@/lib/accounting/journal'
+import { findExchangeRate, functionalAmount, getFunctionalCurrency, toFunctionalCents } from '@/lib/accounting/fx'
+import { getOutstandingCents, OPEN_INVOICE_STATUSES } from '@/lib/invoicing/balances'
+import { recordPayment, voidPayment } from '@/lib/invoicing/payments'
+import { applyBillPayment, getBillOpenCents } from '@/lib/payables/bills'
+import { findMatchingRule } from './bank-rules'
+import { getReconciledCents } from './transaction-matcher'
+
+/**
+ * Bank Reconciliation
+ *
+ * A match ties one or more bank lines to what they settled: invoices
+ * (money in), expenses and supplier bills (money out), ledger accounts
+ * coded directly or by a bank rule, plus bank charges and other
+ * adjustments. In one currency the two sides must agree to the cent;
+ * across currencies the functional difference is realized FX. Invoices
+ * are settled by recording a payment, bills by adding to what is paid on
+ * them; the bank lines then move out of Suspense (posting.ts). Unmatching
+ * reverses all of it and keeps the match, marked UNMATCHED, as the trail.
+ */
+
+export const ReconcileInputSchema = z
+  .object({
+    bankTransactionIds: z.array(z.string().min(1)).min(1).max(50),
+    documents: z
+      .array(
+        z.object({
+          type: z.enum(['invoice', 'expense', 'bill', 'account']),
+          id: z.string().min(1),
+          amountCents: z.number().int().positive().optional(), // Defaults to what is still open
+          description: z.string().max(255).optional(),
+        })
+      )
+      .max(50)
+      .default([]),
+    adjustments: z
+      .array(
+        z.object({
+          type: z.enum(['fee', 'account']),
+          amountCents: z.number().int().refine((v) => v !== 0, 'Adjustment cannot be zero'), // Positive is a cost (debit)
+          accountId: z.string().min(1).optional(),
+          description: z.string().max(255).optional(),
+        })
+      )
+      .max(10)
+      .default([]),
+    note: z.string().max(1000).optional(),
+  })
+  .refine((input) => input.documents.length > 0, { message: 'Match at least one document or account', path: ['documents'] })
+  .refine((input) => input.adjustments.every((a) => a.type === 'fee' || a.accountId), {
+    message: 'Account adjustments need an accountId',
+    path: ['adjustments'],
+  })
+
+export type ReconcileInput = z.infer<typeof ReconcileInputSchema>
+
+export interface ReconcileOptions {
+  userId?: string | null
+  method?: 'manual' | 'suggestion' | 'rule'
+  ruleId?: string | null
+}
+
+interface ResolvedItem {
+  itemType: string
+  itemId: string | null
+  amountCents: number
+  currency: string
+  functionalAmountCents: number | null
+  description?: string | null
+  metadata?: Record<string, unknown>
+}
+
+/**
+ * Bank lines less documents, after adjustments, in the bank currency.
+ * Money in: bank = documents - costs; money out: bank = documents + costs.
+ */
+export function reconciliationDifference(direction: 'credit' | 'debit', bankCents: number, documentCents: number, adjustmentCents: number): number {
+  return direction === 'credit' ? bankCents - (documentCents - adjustmentCents) : bankCents - (documentCents + adjustmentCents)
+}
+
+async function assertLedgerAccount(entityId: string | null, accountId: string): Promise<string> {
+  const account = await prisma.ledgerAccount.findFirst({
+    where: { id: accountId, isActive: true, ...(entityId ? { entityId } : {}) },
+    select: { id: true, name: true },
+  })
+  if (!account) throw new ApiError('INVALID_LEDGER_ACCOUNT', `Ledger account ${accountId} not found for this bank account's entity`, 400)
+  return account.name
+}
+
+/**
+ * Reconcile bank lines against documents, accounts and adjustments
+ */
+export async function reconcileBankTransactions(
+  tenantId: string,
+  connectionId: string,
+  input: ReconcileInput,
+  options: ReconcileOptions = {}
+) {
+  const connection = await prisma.bankingConnection.findFirst({
+    where: { id: connectionId, tenantId },
+    select: { id: true, entityId: true },
+  })
+  if (!connection) throw new ApiError('NOT_FOUND', 'Connection not found', 404)
+
+  const ids = Array.from(new Set(input.bankTransactionIds))
+  const transactions = await prisma.bankingTransaction.findMany({
+    where: { id: { in: ids }, connectionId, tenantId },
+    orderBy: { date: 'asc' },
+  })
+  if (transactions.length !== ids.length) throw new ApiError('NOT_FOUND', 'Bank transaction not found on this connection', 404)
+  const reconciled = transactions.filter((t) => t.matched)
+  if (reconciled.length) {
+    throw new ApiError('ALREADY_RECONCILED', 'Bank lines are already reconciled; unmatch them first', 409, { transactionIds: reconciled.map((t) => t.id) })
+  }
+
+  const direction = transactions[0].type as 'credit' | 'debit'
+  const currency = transactions[0].currency.toUpperCase()
+  if (transactions.some((t) => t.type !== direction)) {
+    throw new ApiError('MIXED_DIRECTIONS', 'Money in and money out are reconciled separately', 400)
+  }
+  if (transactions.some((t) => t.currency.toUpperCase() !== currency)) {
+    throw new ApiError('CURRENCY_MISMATCH', 'Bank lines are in different currencies', 400)
+  }
+
+  // Lines still unposted go to Suspense now, so there is something to move out of it
+  for (const txn of transactions) {
+    await postSafely('bank_transaction', txn.id, () => postBankTransaction(txn.id, options.userId))
+  }
+
+  const entityId = await resolvePostingEntityId(tenantId, connection.entityId)
+  const bankCents = transactions.reduce((sum, t) => sum + Math.round(Math.abs(Number(t.amount)) * 100), 0)
+  const bankFunctionalCents = transactions.reduce((sum, t) => sum + (t.functionalAmountCents ?? Math.round(Math.abs(Number(t.amount)) * 100)), 0)
+  const bankRate = bankCents ? bankFunctionalCents / bankCents : 1
+  const atBankRate = (cents: number) => Math.round(cents * bankRate)
+  const cashDate = transactions[transactions.length - 1].date
+
+  const items: ResolvedItem[] = transactions.map((t) => ({
+    itemType: 'bank_transaction',
+    itemId: t.id,
+    amountCents: Math.round(Math.abs(Number(t.amount)) * 100),
+    currency,
+    functionalAmountCents: t.functionalAmountCents ?? Math.round(Math.abs(Number(t.amount)) * 100),
+    description: t.description,
+  }))
+
+  // Adjustments are in the bank currency
+  const adjustments: ResolvedItem[] = []
+  for (const adjustment of input.adjustments) {
+    if (adjustment.type === 'account') await assertLedgerAccount(entityId, adjustment.accountId!)
+    adjustments.push({
+      itemType: adjustment.type === 'fee' ? 'fee' : 'adjustment',
+      itemId: adjustment.type === 'fee' ? null : adjustment.accountId!,
+      amountCents: adjustment.amountCents,
+      currency,
+      functionalAmountCents: atBankRate(adjustment.amountCents),
+      description: adjustment.description ?? (adjustment.type === 'fee' ? 'Bank charges' : null),
+    })
+  }
+  const adjustmentCents = adjustments.reduce((sum, a) => sum + a.amountCents, 0)
+
+  const invoiceInputs = input.documents.filter((d) => d.type === 'invoice')
+  const expenseInputs = input.documents.filter((d) => d.type === 'expense')
+  const billInputs = input.documents.filter((d) => d.type === 'bill')
+  const accountInputs = input.documents.filter((d) => d.type === 'account')
+  if (invoiceInputs.length && direction !== 'credit') throw new ApiError('INVALID_MATCH', 'Invoices are matched to money in', 400)
+  if (expenseInputs.length && direction !== 'debit') throw new ApiError('INVALID_MATCH', 'Expenses are matched to money out', 400)
+  if (billInputs.length && direction !== 'debit') throw new ApiError('INVALID_MATCH', 'Bills are matched to money out', 400)
+  if (accountInputs.filter((d) => d.amountCents === undefined).length > 1) {
+    throw new ApiError('INVALID_MATCH', 'Only one account line can take the remaining amount', 400)
+  }
+
+  // Invoices
+  const invoices = invoiceInputs.length
+    ? await prisma.invoice.findMany({
+        where: { id: { in: invoiceInputs.map((d) => d.id) }, tenantId, documentType: { not: 'CREDIT_NOTE' }, status: { in: OPEN_INVOICE_STATUSES } },
+        select: { id: true, number: true, clientId: true, currency: true, totalCents: true, paidCents: true, creditedCents: true },
+      })
+    : []
+  const invoiceById = new Map(invoices.map((i) => [i.id, i]))
+  const invoiceDocs = invoiceInputs.map((d) => {
+    const invoice = invoiceById.get(d.id)
+    if (!invoice) throw new ApiError('INVALID_MATCH', `Invoice ${d.id} is not open for payment`, 400)
+    return { invoice, amountCents: d.amountCents ?? getOutstandingCents(invoice), description: d.description }
+  })
+  const invoiceCurrency = invoiceDocs[0]?.invoice.currency.toUpperCase()
+  if (invoiceDocs.some((d) => d.invoice.currency.toUpperCase() !== invoiceCurrency)) {
+    throw new ApiError('CURRENCY_MISMATCH', 'Invoices matched together must share a currency', 400)
+  }
+
+  // Expenses
+  const expenses = expenseInputs.length
+    ? await prisma.expense.findMany({ where: { id: { in: expenseInputs.map((d) => d.id) }, tenantId } })
+    : []
+  const expenseById = new Map(expenses.map((e) => [e.id, e]))
+  const expenseReconciled = await getReconciledCents('expense', expenses.map((e) => e.id))
+  for (const document of expenseInputs) {
+    const expense = expenseById.get(document.id)
+    if (!expense || expense.status === 'REJECTED') throw new ApiError('INVALID_MATCH', `Expense ${document.id} cannot be matched`, 400)
+    const open = expense.amountCents - (expenseReconciled.get(expense.id) ?? 0)
+    const amountCents = document.amountCents ?? open
+    if (amountCents <= 0 || amountCents > open) {
+      throw new ApiError('INVALID_MATCH', `Amount exceeds what is still open on expense ${expense.id}`, 400, { expenseId: expense.id, openCents: open })
+    }
+    const fullyPaid = amountCents === open
+    items.push({
+      itemType: 'expense',
+      itemId: expense.id,
+      amountCents,
+      currency: expense.currency.toUpperCase(),
+      functionalAmountCents: functionalAmount(amountCents, expense),
+      description: document.description ?? `Expense: ${expense.vendor}`,
+      metadata: fullyPaid ? { previousStatus: expense.status } : undefined,
+    })
+  }
+
+  // Bills clear Accounts Payable at the functional value they were posted at
+  const bills = billInputs.length
+    ? await prisma.bill.findMany({
+        where: { id: { in: billInputs.map((d) => d.id) }, tenantId, status: 'APPROVED' },
+        include: { vendor: { select: { name: true } } },
+      })
+    : []
+  const billById = new Map(bills.map((b) => [b.id, b]))
+  for (const document of billInputs) {
+    const bill = billById.get(document.id)
+    if (!bill) throw new ApiError('INVALID_MATCH', `Bill ${document.id} is not open for payment`, 400)
+    const open = getBillOpenCents(bill)
+    const amountCents = document.amountCents ?? open
+    if (amountCents <= 0 || amountCents > open) {
+      throw new ApiError('INVALID_MATCH', `Amount exceeds what is still open on bill ${bill.billNumber}`, 400, { billId: bill.id, openCents: open })
+    }
+    items.push({
+      itemType: 'bill',
+      itemId: bill.id,
+      amountCents,
+      currency: bill.currency.toUpperCase(),
+      functionalAmountCents: bill.functionalTotalCents === null
+        ? amountCents
+        : Math.round((amountCents * bill.functionalTotalCents) / bill.totalCents),
+      description: document.description ?? `Bill ${bill.billNumber}: ${bill.vendor.name}`,
+    })
+  }
+
+  // Accounts are in the bank currency; one may take whatever is left
+  const foreignDocuments = items.some((i) => i.currency !== currency) || (invoiceCurrency !== undefined && invoiceCurrency !== currency)
+  const knownDocumentCents =
+    invoiceDocs.reduce((sum, d) => sum + d.amountCents, 0) +
+    items.filter((i) => i.itemType === 'expense' || i.itemType === 'bill').reduce((sum, i) => sum + i.amountCents, 0) +
+    accountInputs.reduce((sum, d) => sum + (d.amountCents ?? 0), 0)
+  for (const document of accountInputs) {
+    const name = await assertLedgerAccount(entityId, document.id)
+    if (document.amountCents === undefined && foreignDocuments) {
+      throw new ApiError('INVALID_MATCH', 'Give the account amount when documents are in another currency', 400)
+    }
+    const amountCents = document.amountCents ?? reconciliationDifference(direction, bankCents, knownDocumentCents, adjustmentCents)
+    if (amountCents <= 0) throw new ApiError('INVALID_MATCH', 'Nothing is left to code to the account', 400)
+    items.push({
+      itemType: 'account',
+      itemId: document.id,
+      amountCents,
+      currency,
+      functionalAmountCents: atBankRate(amountCents),
+      description: document.description ?? name,
+    })
+  }
+
+  // In one currency both sides must agree; otherwise the difference is FX
+  const singleCurrency = items.every((i) => i.currency === currency) && (!invoiceCurrency || invoiceCurrency === currency)
+  if (singleCurrency) {
+    const documentCents =
+      invoiceDocs.reduce((sum, d) => sum + d.amountCents, 0) +
+      items.filter((i) => i.itemType !== 'bank_transaction').reduce((sum, i) => sum + i.amountCents, 0)
+    const differenceCents = reconciliationDifference(direction, bankCents, documentCents, adjustmentCents)
+    if (differenceCents !== 0) {
+      throw new ApiError('AMOUNT_MISMATCH', 'Bank lines and matched items do not agree; add a bank charge or adjustment for the difference', 422, {
+        bankCents,
+        documentCents,
+        adjustmentCents,
+        differenceCents,
+      })
+    }
+  }
+
+  // Invoices are settled by a payment carrying the cash's functional value
+  let paymentId: string | null = null
+  if (invoiceDocs.length) {
+    const invoiceCents = invoiceDocs.reduce((sum, d) => sum + d.amountCents, 0)
+    const otherFunctional = items
+      .filter((i) => i.itemType === 'account')
+      .reduce((sum, i) => sum + (i.functionalAmountCents ?? 0), 0)
+    const adjustmentFunctional = adjustments.reduce((sum, a) => sum + (a.functionalAmountCents ?? 0), 0)
+    const invoiceFunctional = bankFunctionalCents + adjustmentFunctional - otherFunctional
+    if (invoiceFunctional <= 0) throw new ApiError('INVALID_MATCH', 'Bank lines do not cover the invoices matched', 400)
+
+    const { payment } = await recordPayment({
+      tenantId,
+      entityId: connection.entityId,
+      clientId: invoiceDocs[0].invoice.clientId,
+      amountCents: invoiceCents,
+      currency: invoiceCurrency,
+      exchangeRate: invoiceFunctional / invoiceCents,
+      receivedAt: cashDate,
+      method: 'bank_transfer',
+      reference: transactions[0].reference || transactions[0].description.slice(0, 255),
+      allocations: invoiceDocs.map((d) => ({ invoiceId: d.invoice.id, amountCents: d.amountCents })),
+      createdBy: options.userId,
+      metadata: { bankTransactionIds: ids },
+    })
+    paymentId = payment.id
+    // Split the payment's functional amount so the invoices clear exactly what it put in transit
+    let functionalLeft = payment.functionalAmountCents ?? payment.amountCents
+    invoiceDocs.forEach((d, i) => {
+      const functionalCents = i === invoiceDocs.length - 1
+        ? functionalLeft
+        : payment.exchangeRate === null ? d.amountCents : toFunctionalCents(d.amountCents, Number(payment.exchangeRate))
+      functionalLeft -= functionalCents
+      items.push({
+        itemType: 'invoice',
+        itemId: d.invoice.id,
+        amountCents: d.amountCents,
+        currency: invoiceCurrency as string,
+        functionalAmountCents: functionalCents,
+        description: d.description ?? `Invoice ${d.invoice.number || d.invoice.id}`,
+      })
+    })
+  }
+
+  items.push(...adjustments)
+  const documents = items.filter((i) => i.itemType !== 'bank_transaction' && i.itemType !== 'fee' && i.itemType !== 'adjustment')
+
+  let match
+  try {
+    match = await prisma.$transaction(async (tx) => {
+      const created = await tx.bankReconciliationMatch.create({
+        data: {
+          tenantId,
+          connectionId,
+          method: options.method ?? 'manual',
+          ruleId: options.ruleId ?? null,
+          direction,
+          bankAmountCents: bankCents,
+          paymentId,
+          note: input.note ?? null,
+          createdBy: options.userId ?? null,
+          items: {
+            create: items.map((i) => ({
+              itemType: i.itemType,
+              itemId: i.itemId,
+              amountCents: i.amountCents,
+              currency: i.currency,
+              functionalAmountCents: i.functionalAmountCents,
+              description: i.description ?? null,
+              metadata: (i.metadata as any) ?? undefined,
+            })),
+          },
+        },
+        include: { items: true },
+      })
+
+      // Claim the lines only if nobody reconciled them in the meantime
+      const single = documents.length === 1 ? documents[0] : null
+      const claimed = await tx.bankingTransaction.updateMany({
+        where: { id: { in: ids }, matched: false },
+        data: {
+          matched: true,
+          reconciliationMatchId: created.id,
+          matchedToId: single ? single.itemId : created.id,
+          matchedToType: single ? single.itemType : 'reconciliation',
+        },
+      })
+      if (claimed.count !== ids.length) throw new ApiError('ALREADY_RECONCILED', 'Bank lines were reconciled by someone else', 409)
+
+      for (const item of items) {
+        if (item.itemType === 'expense' && item.metadata?.previousStatus) {
+          await tx.expense.update({ where: { id: item.itemId as string }, data: { status: 'REIMBURSED' } })
+        }
+        if (item.itemType === 'bill') await applyBillPayment(tx, item.itemId as string, item.amountCents, cashDate)
+      }
+
+      return created
+    })
+  } catch (error) {
+    if (paymentId) {
+      await voidPayment(paymentId, tenantId, { reason: 'Bank reconciliation failed', userId: options.userId }).catch((voidError) =>
+        logger.error('Payment for failed reconciliation not voided', { paymentId, error: String(voidError) })
+      )
+    }
+    throw error
+  }
+
+  await postSafely('bank_reconciliation', match.id, () => postBankReconciliation(match.id, options.userId))
+
+  logger.info('Bank lines reconciled', { matchId: match.id, connectionId, lines: ids.length, documents: documents.length, method: match.method })
+
+  return prisma.bankReconciliationMatch.findUniqueOrThrow({ where: { id: match.id }, include: { items: true } })
+}
+
+/**
+ * Undo a match: reverse its posting and payment, reopen what it settled
+ * and free its bank lines. The match stays as UNMATCHED for the record.
+ */
+export async function unmatchReconciliation(
+  tenantId: string,
+  matchId: string,
+  options: { reason?: string; userId?: string | null } = {}
+) {
+  const match = await prisma.bankReconciliationMatch.findFirst({
+    where: { id: matchId, tenantId },
+    include: { items: true },
+  })
+  if (!match) throw new ApiError('NOT_FOUND', 'Reconciliation match not found', 404)
+  if (match.status !== 'MATCHED') throw new ApiError('INVALID_STATE', 'Match is already undone', 409)
+
+  const reason = options.reason || 'Bank reconciliation undone'
+  if (match.journalEntryId) {
+    const entry = await prisma.journalEntry.findUnique({ where: { id: match.journalEntryId }, select: { status: true } })
+    if (entry?.status === 'POSTED') await reverseJournalEntry(match.journalEntryId, { reason, userId: options.userId })
+  }
+  if (match.paymentId) {
+    const payment = await prisma.payment.findFirst({ where: { id: match.paymentId, tenantId }, select: { id: true } })
+    if (payment) await voidPayment(payment.id, tenantId, { reason, userId: options.userId })
+  }
+
+  const updated = await prisma.$transaction(async (tx) => {
+    for (const item of match.items) {
+      const previousStatus = (item.metadata as Record<string, unknown> | null)?.previousStatus
+      if (item.itemType === 'expense' && typeof previousStatus === 'string') {
+        await tx.expense.updateMany({ where: { id: item.itemId as string, status: 'REIMBURSED' }, data: { status: previousStatus } })
+      }
+      if (item.itemType === 'bill' && item.itemId) {
+        await applyBillPayment(tx, item.itemId, -item.amountCents, match.createdAt)
+      }
+    }
+
+    await tx.bankingTransaction.updateMany({
+      where: { reconciliationMatchId: match.id },
+      data: { matched: false, reconciliationMatchId: null, matchedToId: null, matchedToType: null },
+    })
+
+    return tx.bankReconciliationMatch.update({
+      where: { id: match.id },
+      data: { status: 'UNMATCHED', unmatchedBy: options.userId ?? null, unmatchedAt: new Date(), unmatchReason: reason },
+      include: { items: true },
+    })
+  })
+
+  logger.info('Bank reconciliation undone', { matchId, reason })
+  return updated
+}
+
+/**
+ * Reconcile unmatched lines that an auto-apply bank rule fits
+ */
+export async function applyBankRules(tenantId: string, connectionId: string, userId?: string | null) {
+  const rules = await prisma.bankRule.findMany({
+    where: { tenantId, isActive: true, autoApply: true, OR: [{ connectionId: null }, { connectionId }] },
+  })
+  const result = { applied: 0, failed: 0, errors: [] as string[] }
+  if (!rules.length) return result
+
+  const transactions = await prisma.bankingTransaction.findMany({
+    where: { tenantId, connectionId, matched: false },
+    select: { id: true, type: true, amount: true, description: true, reference: true },
+    orderBy: { date: 'asc' },
+    take: 500,
+  })
+
+  for (const txn of transactions) {
+    const rule = findMatchingRule(rules, {
+      connectionId,
+      type: txn.type,
+      description: txn.description,
+      reference: txn.reference,
+      amountCents: Math.round(Math.abs(Number(txn.amount)) * 100),
+    })
+    if (!rule) continue
+    try {
+      await reconcileBankTransactions(
+        tenantId,
+        connectionId,
+        { bankTransactionIds: [txn.id], documents: [{ type: 'account', id: rule.ledgerAccountId, description: rule.memo ?? rule.name }], adjustments: [] },
+        { userId, method: 'rule', ruleId: rule.id }
+      )
+      result.applied++
+    } catch (error) {
+      result.failed++
+      result.errors.push(`${txn.id}: ${error instanceof Error ? error.message : String(error)}`)
+    }
+  }
+
+  return result
+}
+
+export interface ReconciliationProof {
+  statementCents: number
+  unpresentedCents: number
+  bookCents: number
+  differenceCents: number
+  reconciled: boolean
+}
+
+/**
+ * Statement balance plus entries in the books that are not on the
+ * statement (journals made by hand to the bank account) must equal the
+ * book balance. Imported bank lines are in the books from the moment they
+ * arrive, in Suspense until reconciled, so they never explain a gap.
+ */
+export function proveReconciliation(statementCents: number, unpresentedCents: number, bookCents: number): ReconciliationProof {
+  const differenceCents = bookCents - (statementCents + unpresentedCents)
+  return { statementCents, unpresentedCents, bookCents, differenceCents, reconciled: differenceCents === 0 }
+}
+
+function endOfDay(date: Date): Date {
+  const end = new Date(date)
+  end.setUTCHours(23, 59, 59, 999)
+  return end
+}
+
+/**
+ * Reconciliation report: the statement closing balance at a date against
+ * the balance of the bank's ledger account, with what explains the gap
+ */
+export async function getReconciliationReport(
+  tenantId: string,
+  connectionId: string,
+  options: { asOf?: Date; statementBalance?: number } = {}
+) {
+  const asOf = endOfDay(options.asOf ?? new Date())
+  const connection = await prisma.bankingConnection.findFirst({
+    where: { id: connectionId, tenantId },
+    select: { id: true, entityId: true, bankName: true, accountNumber: true, ledgerAccountId: true },
+  })
+  if (!connection) throw new ApiError('NOT_FOUND', 'Connection not found', 404)
+
+  const entityId = await resolvePostingEntityId(tenantId, connection.entityId)
+  if (!entityId) throw new ApiError('LEDGER_NOT_CONFIGURED', 'The bank account has no entity to keep books for', 422)
+  const functionalCurrency = await getFunctionalCurrency(entityId)
+  const bankAccountId = await getBankLedgerAccountId(entityId, connection.ledgerAccountId)
+  const warnings: string[] = []
+
+  // Statement balance: given, from the last imported statement, or the last running balance
+  let statement: { amount: number; source: 'provided' | 'statement' | 'running_balance'; date?: Date; importId?: string } | null = null
+  let accountCurrency: string | null = null
+  if (options.statementBalance !== undefined) {
+    statement = { amount: options.statementBalance, source: 'provided', date: asOf }
+  }
+  const lastImport = await prisma.bankStatementImport.findFirst({
+    where: { connectionId, closingBalance: { not: null }, periodEnd: { lte: asOf } },
+    orderBy: [{ periodEnd: 'desc' }, { createdAt: 'desc' }],
+  })
+  accountCurrency = lastImport?.currency ?? null
+  if (!statement && lastImport) {
+    statement = { amount: Number(lastImport.closingBalance), source: 'statement', date: lastImport.periodEnd ?? undefined, importId: lastImport.id }
+  }
+  const lastLine = await prisma.bankingTransaction.findFirst({
+    where: { connectionId, tenantId, date: { lte: asOf } },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+    select: { balance: true, date: true, currency: true },
+  })
+  accountCurrency = (accountCurrency ?? lastLine?.currency ?? functionalCurrency).toUpperCase()
+  if (!statement && lastLine?.balance !== null && lastLine?.balance !== undefined) {
+    statement = { amount: Number(lastLine.balance), source: 'running_balance', date: lastLine.date }
+  }
+  if (statement?.date && statement.source !== 'provided' && statement.date.getTime() < asOf.getTime() - 24 * 60 * 60 * 1000) {
+    warnings.push(`The latest statement balance is from ${statement.date.toISOString().slice(0, 10)}, before the report date`)
+  }
+
+  // Book balance of the bank's ledger account
+  const sums = await prisma.journalLine.aggregate({
+    where: { accountId: bankAccountId, journalEntry: { entityId, status: { in: ['POSTED', 'REVERSED'] }, date: { lte: asOf } } },
+    _sum: { debitCents: true, creditCents: true },
+  })
+  const bookCents = (sums._sum.debitCents ?? 0) - (sums._sum.creditCents ?? 0)
+
+  // Entries made by hand before the feed starts built the opening balance;
+  // those made since are not on the statement yet (or never will be)
+  const firstImport = await prisma.bankStatementImport.findFirst({
+    where: { connectionId, periodStart: { not: null } },
+    orderBy: { periodStart: 'asc' },
+    select: { periodStart: true, openingBalance: true },
+  })
+  const firstLine = await prisma.bankingTransaction.findFirst({
+    where: { connectionId, tenantId },
+    orderBy: { date: 'asc' },
+    select: { date: true },
+  })
+  const feedStart = [firstImport?.periodStart, firstLine?.date]
+    .filter((d): d is Date => Boolean(d))
+    .reduce<Date | null>((earliest, d) => (!earliest || d < earliest ? d : earliest), null)
+
+  const unpresentedLines = await prisma.journalLine.findMany({
+    where: {
+      accountId: bankAccountId,
+      journalEntry: {
+        entityId,
+        status: { in: ['POSTED', 'REVERSED'] },
+        date: { lte: asOf, ...(feedStart ? { gte: feedStart } : {}) },
+        OR: [{ sourceType: null }, { sourceType: { not: 'bank_transaction' } }],
+      },
+    },
+    select: { debitCents: true, creditCents: true, description: true, journalEntry: { select: { id: true, date: true, description: true, sourceType: true } } },
+    orderBy: { journalEntry: { date: 'asc' } },
+    take: 500,
+  })
+  const unpresentedCents = unpresentedLines.reduce((sum, l) => sum + l.debitCents - l.creditCents, 0)
+
+  if (feedStart && firstImport?.openingBalance && Number(firstImport.openingBalance) !== 0) {
+    const before = await prisma.journalLine.count({
+      where: { accountId: bankAccountId, journalEntry: { entityId, status: { in: ['POSTED', 'REVERSED'] }, date: { lt: feedStart } } },
+    })
+    if (!before) warnings.push(`The books have no opening balance for the ${Number(firstImport.openingBalance).toFixed(2)} the first statement opened with`)
+  }
+
+  // Lines on the statement still waiting in Suspense
+  const unreconciled = await prisma.bankingTransaction.findMany({
+    where: { connectionId, tenantId, matched: false, date: { lte: asOf } },
+    select: { id: true, date: true, description: true, amount: true, type: true, reference: true },
+    orderBy: { date: 'asc' },
+    take: 500,
+  })
+  const unreconciledCents = (type: string) =>
+    unreconciled.filter((t) => t.type === type).reduce((sum, t) => sum + Math.round(Math.abs(Number(t.amount)) * 100), 0)
+
+  // The ledger is in the functional currency; a foreign statement is translated at the closing rate
+  let statementCents: number | null = statement ? Math.round(statement.amount * 100) : null
+  if (statementCents !== null && accountCurrency !== functionalCurrency) {
+    const rate = await findExchangeRate(accountCurrency, functionalCurrency, asOf)
+    if (rate) {
+      statementCents = toFunctionalCents(statementCents, rate)
+      warnings.push(`Statement balance translated from ${accountCurrency} at ${rate}; unrevalued FX shows as a difference`)
+    } else {
+      warnings.push(`No ${accountCurrency}/${functionalCurrency} rate to translate the statement balance`)
+      statementCents = null
+    }
+  }
+
+  if (!connection.ledgerAccountId) {
+    const sharing = await prisma.bankingConnection.count({
+      where: { tenantId, id: { not: connectionId }, ledgerAccountId: null, OR: [{ entityId }, ...(connection.entityId ? [] : [{ entityId: null }])] },
+    })
+    if (sharing) warnings.push(`${sharing} other bank account(s) post to the same ledger account; set a ledger account per connection to reconcile them separately`)
+  }
+
+  return {
+    connectionId,
+    bankName: connection.bankName,
+    accountNumber: connection.accountNumber,
+    asOf,
+    currency: accountCurrency,
+    functionalCurrency,
+    ledgerAccountId: bankAccountId,
+    statementBalance: statement ? { ...statement, amountCents: Math.round(statement.amount * 100), functionalCents: statementCents } : null,
+    bookBalanceCents: bookCents,
+    unpresented: {
+      totalCents: unpresentedCents,
+      items: unpresentedLines.map((l) => ({
+        journalEntryId: l.journalEntry.id,
+        date: l.journalEntry.date,
+        description: l.description || l.journalEntry.description,
+        sourceType: l.journalEntry.sourceType,
+        amountCents: l.debitCents - l.creditCents,
+      })),
+    },
+    unreconciled: {
+      count: unreconciled.length,
+      moneyInCents: unreconciledCents('credit'),
+      moneyOutCents: unreconciledCents('debit'),
+      items: unreconciled.map((t) => ({ ...t, amount: Number(t.amount) })),
+    },
+    proof: statementCents === null ? null : proveReconciliation(statementCents, unpresentedCents, bookCents),
+    warnings,
+  }
+}
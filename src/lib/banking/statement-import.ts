@@ -0,0 +1,256 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { captureDocumentRate, postBankTransaction, postSafely } from '@/lib/accounting/posting'
+import { capturedAmounts, CapturedRate, getFunctionalCurrency } from '@/lib/accounting/fx'
+import { BankTransaction } from './adapters'
+import {
+  BalanceCheck,
+  checkStatementBalances,
+  CsvColumnMapping,
+  CsvColumnMappingSchema,
+  getCsvProfilePreset,
+  ParsedStatement,
+  parseStatementFile,
+  StatementFormat,
+} from './parsers'
+
+/**
+ * Bank Statement Import
+ *
+ * Reads an uploaded statement, checks each statement's balances and adds
+ * its transactions to the connection. Transactions are keyed by
+ * (connectionId, externalId), so re-importing a file, or a statement
+ * that overlaps an earlier one, only adds the lines not seen before.
+ */
+
+export interface IngestResult {
+  imported: number
+  duplicates: number
+  failed: number
+}
+
+export interface ImportStatementInput {
+  tenantId: string
+  connectionId: string
+  content: string
+  fileName?: string | null
+  format?: StatementFormat
+  /** CSV only: a saved profile, a preset key, or an inline mapping */
+  profileId?: string | null
+  presetKey?: string | null
+  mapping?: CsvColumnMapping | null
+  /** Import statements whose balances do not add up */
+  allowBalanceMismatch?: boolean
+  userId?: string | null
+}
+
+export interface ImportedStatement {
+  importId: string
+  statementId?: string
+  accountNumber?: string
+  currency?: string
+  balanceCheck: BalanceCheck
+  imported: number
+  duplicates: number
+  failed: number
+  warnings: string[]
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return String((error as { code?: unknown })?.code) === 'P2002'
+}
+
+/**
+ * Store bank transactions on a connection, skipping those already there,
+ * and post each new one to the ledger
+ */
+export async function ingestBankTransactions(
+  connection: { id: string; tenantId: string; entityId: string | null },
+  transactions: BankTransaction[],
+  userId?: string | null
+): Promise<IngestResult> {
+  const result: IngestResult = { imported: 0, duplicates: 0, failed: 0 }
+
+  for (const txn of transactions) {
+    try {
+      // Foreign-currency lines carry their functional amount; without a rate they post at face value
+      const rate = await captureDocumentRate(connection.tenantId, connection.entityId, txn.currency, txn.date).catch((error): CapturedRate => {
+        logger.warn('Exchange rate not captured for bank transaction', { externalId: txn.id, error: String(error) })
+        return { functionalCurrency: null, exchangeRate: null }
+      })
+
+      const created = await prisma.bankingTransaction.create({
+        data: {
+          connectionId: connection.id,
+          tenantId: connection.tenantId,
+          externalId: txn.id,
+          date: txn.date,
+          description: txn.description,
+          amount: txn.amount.toString(),
+          currency: txn.currency,
+          type: txn.type,
+          balance: txn.balance !== undefined && txn.balance !== null ? txn.balance.toString() : null,
+          reference: txn.reference || null,
+          tags: txn.tags || [],
+          matched: false,
+          ...capturedAmounts(rate, { functionalAmountCents: Math.round(Math.abs(Number(txn.amount)) * 100) }),
+        },
+      })
+
+      await postSafely('bank_transaction', created.id, () => postBankTransaction(created.id, userId))
+      result.imported++
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        result.duplicates++
+        continue
+      }
+      result.failed++
+      logger.error('Failed to store bank transaction', { connectionId: connection.id, externalId: txn.id, error: String(error) })
+    }
+  }
+
+  return result
+}
+
+/**
+ * Column mapping for a CSV import: a saved profile, a preset or inline
+ */
+export async function resolveCsvMapping(
+  tenantId: string,
+  input: Pick<ImportStatementInput, 'profileId' | 'presetKey' | 'mapping'>
+): Promise<CsvColumnMapping | undefined> {
+  if (input.mapping) return CsvColumnMappingSchema.parse(input.mapping)
+  if (input.profileId) {
+    const profile = await prisma.bankCsvProfile.findFirst({ where: { id: input.profileId, tenantId } })
+    if (!profile) throw new ApiError('NOT_FOUND', 'CSV profile not found', 404)
+    return CsvColumnMappingSchema.parse(profile.mapping)
+  }
+  if (input.presetKey) {
+    const preset = getCsvProfilePreset(input.presetKey)
+    if (!preset) throw new ApiError('NOT_FOUND', `Unknown CSV preset: ${input.presetKey}`, 404)
+    return preset.mapping
+  }
+  return undefined
+}
+
+function statementPeriod(statement: ParsedStatement): { start?: Date; end?: Date } {
+  const dates = statement.transactions.map((t) => t.date.getTime())
+  return {
+    start: statement.openingBalance?.date ?? (dates.length ? new Date(Math.min(...dates)) : undefined),
+    end: statement.closingBalance?.date ?? (dates.length ? new Date(Math.max(...dates)) : undefined),
+  }
+}
+
+/** Compare account numbers ignoring spacing and formatting */
+function sameAccount(a: string, b: string): boolean {
+  const normalize = (value: string) => value.replace(/[^A-Za-z0-9]/g, '').toUpperCase()
+  const left = normalize(a)
+  const right = normalize(b)
+  return left.endsWith(right) || right.endsWith(left)
+}
+
+/**
+ * Import a statement file into a bank connection. Every statement in the
+ * file must balance (opening + movements = closing) unless the caller
+ * accepts mismatches; nothing is stored when one does not.
+ */
+export async function importBankStatement(input: ImportStatementInput): Promise<ImportedStatement[]> {
+  const connection = await prisma.bankingConnection.findFirst({
+    where: { id: input.connectionId, tenantId: input.tenantId },
+    select: { id: true, tenantId: true, entityId: true, accountNumber: true },
+  })
+  if (!connection) throw new ApiError('NOT_FOUND', 'Connection not found', 404)
+
+  const mapping = await resolveCsvMapping(input.tenantId, input)
+  const statements = parseStatementFile(input.content, { format: input.format, mapping })
+
+  const checks = statements.map(checkStatementBalances)
+  const mismatched = checks.findIndex((check) => check.checked && check.differenceCents !== 0)
+  if (mismatched !== -1 && !input.allowBalanceMismatch) {
+    const statement = statements[mismatched]
+    throw new ApiError('BALANCE_MISMATCH', 'Statement balances do not add up: opening balance plus transactions differs from the closing balance', 422, {
+      statementId: statement.statementId,
+      openingBalance: statement.openingBalance?.amount,
+      closingBalance: statement.closingBalance?.amount,
+      expectedClosing: checks[mismatched].expectedClosing,
+      differenceCents: checks[mismatched].differenceCents,
+    })
+  }
+
+  const fallbackCurrency = connection.entityId ? await getFunctionalCurrency(connection.entityId).catch(() => 'AED') : 'AED'
+  const results: ImportedStatement[] = []
+
+  for (const [i, statement] of statements.entries()) {
+    const warnings = [...statement.warnings]
+    const currency = statement.currency ?? fallbackCurrency
+
+    if (statement.accountNumber && !sameAccount(statement.accountNumber, connection.accountNumber)) {
+      warnings.push(`Statement is for account ${statement.accountNumber}, the connection is ${connection.accountNumber}`)
+    }
+    if (checks[i].checked && checks[i].differenceCents !== 0) {
+      warnings.push(`Imported with a balance difference of ${(checks[i].differenceCents / 100).toFixed(2)}`)
+    }
+
+    // The opening balance should pick up where the last statement closed
+    const previous = await prisma.bankStatementImport.findFirst({
+      where: { connectionId: connection.id, closingBalance: { not: null } },
+      orderBy: [{ periodEnd: 'desc' }, { createdAt: 'desc' }],
+      select: { closingBalance: true, periodEnd: true },
+    })
+    const period = statementPeriod(statement)
+    if (previous?.closingBalance && statement.openingBalance && (!period.start || !previous.periodEnd || previous.periodEnd <= period.start)) {
+      const previousCents = Math.round(Number(previous.closingBalance) * 100)
+      if (previousCents !== Math.round(statement.openingBalance.amount * 100)) {
+        warnings.push(`Opening balance ${statement.openingBalance.amount.toFixed(2)} does not match the previous closing balance ${(previousCents / 100).toFixed(2)}`)
+      }
+    }
+
+    const transactions = statement.transactions.map((txn) => ({ ...txn, currency: txn.currency || currency }))
+    const ingest = await ingestBankTransactions(connection, transactions, input.userId)
+
+    const record = await prisma.bankStatementImport.create({
+      data: {
+        tenantId: input.tenantId,
+        connectionId: connection.id,
+        format: statement.format,
+        fileName: input.fileName ?? null,
+        statementId: statement.statementId ?? null,
+        accountNumber: statement.accountNumber ?? null,
+        currency,
+        openingBalance: statement.openingBalance ? statement.openingBalance.amount.toString() : null,
+        closingBalance: statement.closingBalance ? statement.closingBalance.amount.toString() : null,
+        periodStart: period.start ?? null,
+        periodEnd: period.end ?? null,
+        importedCount: ingest.imported,
+        duplicateCount: ingest.duplicates,
+        failedCount: ingest.failed,
+        warnings: warnings.length ? warnings : undefined,
+        createdBy: input.userId ?? null,
+      },
+    })
+
+    results.push({
+      importId: record.id,
+      statementId: statement.statementId,
+      accountNumber: statement.accountNumber,
+      currency,
+      balanceCheck: checks[i],
+      ...ingest,
+      warnings,
+    })
+  }
+
+  await prisma.bankingConnection.update({
+    where: { id: connection.id },
+    data: { lastSyncAt: new Date(), lastSyncError: null },
+  })
+
+  logger.info('Bank statement imported', {
+    connectionId: connection.id,
+    statements: results.length,
+    imported: results.reduce((sum, r) => sum + r.imported, 0),
+  })
+
+  return results
+}
@@ -1,18 +1,78 @@
 import prisma from '@/lib/prisma'
 import { logger } from '@/lib/logger'
+import { getOutstandingCents, OPEN_INVOICE_STATUSES } from '@/lib/invoicing/balances'
+import { findMatchingRule } from './bank-rules'
+
+/**
+ * Transaction Matcher
+ *
+ * Suggests what unreconciled bank lines settle: open invoices for money
+ * in, unpaid expenses and approved supplier bills for money out, and
+ * ledger accounts from bank rules.
+ * Besides one line to one document it looks for one line paying several
+ * documents and several lines paying one document, and for amounts that
+ * are short by what looks like a bank charge. Suggestions are only
+ * offered; reconciliation.ts records what the user accepts.
+ */
+
+export type CandidateType = 'invoice' | 'expense' | 'bill'
+
+export interface MatchCandidate {
+  type: CandidateType
+  id: string
+  label: string
+  amountCents: number // Still open, in the candidate's currency
+  currency: string
+  date: Date
+  dueDate?: Date | null
+  number?: string | null
+  counterparty?: string | null
+}
+
+export interface SuggestionLine {
+  id: string
+  type: string // 'credit' money in, 'debit' money out
+  amountCents: number
+  currency: string
+  date: Date
+  description: string
+  reference?: string | null
+}
+
+export interface MatchSuggestion {
+  bankTransactionIds: string[]
+  documents: Array<{ type: CandidateType | 'account'; id: string; amountCents: number; label: string }>
+  ruleId?: string
+  /** Documents less bank lines, in the bank currency; a small positive difference is usually a bank charge */
+  differenceCents: number
+  score: number
+  reasons: string[]
+}
 
 interface MatchCriteria {
-  amountTolerance: number // Tolerance in decimal places (0.01 = 1 cent)
-  descriptionSimilarity: number // 0-1, minimum similarity score
-  dateWindowDays: number // Days before/after transaction date
+  dateWindowDays: number // Documents this close to the bank date score higher
+  feeTolerancePercent: number // Largest shortfall taken for a bank charge, as a share of the amount
+  maxFeeCents: number
+  maxCombinationSize: number
+  minScore: number
 }
 
 const DEFAULT_CRITERIA: MatchCriteria = {
-  amountTolerance: 0.01, // Exact match by default
-  descriptionSimilarity: 0.7, // 70% match required
-  dateWindowDays: 3, // Match within 3 days
+  dateWindowDays: 7,
+  feeTolerancePercent: 2,
+  maxFeeCents: 10000,
+  maxCombinationSize: 3,
+  minScore: 0.5,
+}
+
+/** Documents considered per direction of money */
+const CANDIDATE_TYPES: Record<'credit' | 'debit', CandidateType[]> = {
+  credit: ['invoice'],
+  debit: ['expense', 'bill'],
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000
+
 /**
  * Calculate similarity between two strings (0-1)
  * Simple implementation using character comparison
@@ -58,143 +118,357 @@ function getEditDistance(s1: string, s2: string): number {
   return costs[s2.length]
 }
 
+function tokens(value: string): string[] {
+  return value.toLowerCase().split(/[^a-z0-9\u0600-\u06ff]+/).filter((t) => t.length >= 3)
+}
+
 /**
- * Match bank transactions to invoices
+ * Whether a shortfall looks like a bank charge: money in arrives short, money out leaves long
  */
-export async function matchTransactionsToInvoices(
-  connectionId: string,
-  tenantId: string,
+export function isLikelyFee(line: Pick<SuggestionLine, 'type' | 'amountCents'>, documentCents: number, criteria: MatchCriteria = DEFAULT_CRITERIA): boolean {
+  const fee = line.type === 'credit' ? documentCents - line.amountCents : line.amountCents - documentCents
+  return fee > 0 && fee <= criteria.maxFeeCents && fee <= (documentCents * criteria.feeTolerancePercent) / 100
+}
+
+/**
+ * Score how well a single document explains a bank line (0-1), with the reasons
+ */
+export function scoreCandidate(
+  line: SuggestionLine,
+  candidate: MatchCandidate,
   criteria: MatchCriteria = DEFAULT_CRITERIA
-): Promise<{
-  matched: number
-  attempted: number
-  errors: string[]
-}> {
-  const result = { matched: 0, attempted: 0, errors: [] as string[] }
-
-  try {
-    // Get unmatched transactions
-    const transactions = await prisma.bankingTransaction.findMany({
-      where: {
-        connectionId,
-        tenantId,
-        matched: false,
-      },
-      select: {
-        id: true,
-        amount: true,
-        description: true,
-        date: true,
-        type: true,
-      },
-    })
+): { score: number; reasons: string[] } {
+  const reasons: string[] = []
+  let score = 0
+  if (candidate.currency.toUpperCase() !== line.currency.toUpperCase()) return { score, reasons }
+
+  if (candidate.amountCents === line.amountCents) {
+    score += 0.5
+    reasons.push('Amount matches')
+  } else if (isLikelyFee(line, candidate.amountCents, criteria)) {
+    score += 0.3
+    reasons.push('Amount differs by a likely bank charge')
+  }
 
-    logger.info(`Attempting to match ${transactions.length} transactions`, {
-      connectionId,
-      tenantId,
-    })
+  const text = `${line.description} ${line.reference ?? ''}`.toLowerCase()
+  if (candidate.number && text.includes(candidate.number.toLowerCase())) {
+    score += 0.35
+    reasons.push(`Reference ${candidate.number} found`)
+  }
 
-    for (const txn of transactions) {
-      result.attempted++
-
-      try {
-        // Only match credit transactions (incoming payments)
-        if (txn.type !== 'credit') continue
-
-        const txnAmount = Number(txn.amount)
-        const txnDate = new Date(txn.date)
-
-        // Find matching invoices
-        const dateMin = new Date(txnDate.getTime() - criteria.dateWindowDays * 24 * 60 * 60 * 1000)
-        const dateMax = new Date(txnDate.getTime() + criteria.dateWindowDays * 24 * 60 * 60 * 1000)
-
-        const invoices = await prisma.invoice.findMany({
-          where: {
-            tenantId,
-            status: { in: ['SENT', 'UNPAID'] },
-            createdAt: {
-              gte: dateMin,
-              lte: dateMax,
-            },
-          },
-          select: {
-            id: true,
-            totalCents: true,
-            number: true,
-          },
-        })
+  if (candidate.counterparty) {
+    const words = tokens(candidate.counterparty)
+    const lineWords = new Set(tokens(text))
+    const hits = words.filter((w) => lineWords.has(w)).length
+    if (words.length && hits / words.length >= 0.5) {
+      score += 0.15
+      reasons.push(`${candidate.counterparty} named`)
+    } else if (calculateStringSimilarity(candidate.counterparty, line.description) >= 0.8) {
+      score += 0.1
+      reasons.push(`Similar to ${candidate.counterparty}`)
+    }
+  }
 
-        // Score and find best match
-        let bestMatch: typeof invoices[0] | null = null
-        let bestScore = 0
+  const days = Math.min(
+    Math.abs(line.date.getTime() - candidate.date.getTime()),
+    candidate.dueDate ? Math.abs(line.date.getTime() - candidate.dueDate.getTime()) : Infinity
+  ) / DAY_MS
+  if (days <= criteria.dateWindowDays) {
+    score += 0.1
+    reasons.push('Dates are close')
+  } else if (days <= criteria.dateWindowDays * 4) {
+    score += 0.05
+  }
 
-        for (const invoice of invoices) {
-          let score = 0
+  return { score: Math.min(1, Math.round(score * 100) / 100), reasons }
+}
 
-          // Amount match (primary criteria) - totalCents is stored in cents
-          const invoiceAmount = Number(invoice.totalCents) / 100
-          const amountDiff = Math.abs(txnAmount - invoiceAmount)
+/**
+ * Sets of up to `maxSize` items whose amounts add up to `target` exactly,
+ * smallest sets first
+ */
+export function findAmountCombinations<T extends { amountCents: number }>(
+  items: T[],
+  target: number,
+  maxSize = 3,
+  limit = 5
+): T[][] {
+  const sorted = items.filter((i) => i.amountCents > 0 && i.amountCents < target).sort((a, b) => b.amountCents - a.amountCents).slice(0, 40)
+  const found: T[][] = []
+
+  for (let size = 2; size <= maxSize && found.length < limit; size++) {
+    const search = (start: number, remaining: number, picked: T[]) => {
+      if (found.length >= limit) return
+      if (picked.length === size) {
+        if (remaining === 0) found.push([...picked])
+        return
+      }
+      for (let i = start; i < sorted.length; i++) {
+        if (sorted[i].amountCents > remaining) continue
+        // Sorted descending: if the largest left cannot fill the rest, nothing after it can
+        if (sorted[i].amountCents * (size - picked.length) < remaining) break
+        picked.push(sorted[i])
+        search(i + 1, remaining - sorted[i].amountCents, picked)
+        picked.pop()
+      }
+    }
+    search(0, target, [])
+  }
 
-          if (amountDiff <= criteria.amountTolerance) {
-            score += 0.5 // Amount matches exactly
-          } else if (amountDiff <= criteria.amountTolerance * 2) {
-            score += 0.25 // Close match
-          }
+  return found
+}
 
-          // Invoice number matching (if transaction description contains invoice number)
-          if (invoice.number && txn.description.includes(invoice.number)) {
-            score += 0.3 // Invoice number match bonus
-          }
+function documentOf(candidate: MatchCandidate, amountCents = candidate.amountCents) {
+  return { type: candidate.type, id: candidate.id, amountCents, label: candidate.label }
+}
 
-          if (score > bestScore) {
-            bestScore = score
-            bestMatch = invoice
-          }
-        }
+/**
+ * Rank suggestions for bank lines against open documents. Pure: the
+ * caller loads the lines and candidates.
+ */
+export function rankSuggestions(
+  lines: SuggestionLine[],
+  candidates: MatchCandidate[],
+  criteria: MatchCriteria = DEFAULT_CRITERIA
+): Map<string, MatchSuggestion[]> {
+  const results = new Map<string, MatchSuggestion[]>(lines.map((l) => [l.id, []]))
+
+  for (const line of lines) {
+    const pool = candidates.filter(
+      (c) => CANDIDATE_TYPES[line.type as 'credit' | 'debit']?.includes(c.type) && c.currency.toUpperCase() === line.currency.toUpperCase()
+    )
+    const suggestions = results.get(line.id)!
+
+    // One line, one document
+    for (const candidate of pool) {
+      const { score, reasons } = scoreCandidate(line, candidate, criteria)
+      if (score < criteria.minScore) continue
+      suggestions.push({
+        bankTransactionIds: [line.id],
+        documents: [documentOf(candidate)],
+        differenceCents: line.type === 'credit' ? candidate.amountCents - line.amountCents : line.amountCents - candidate.amountCents,
+        score,
+        reasons,
+      })
+    }
 
-        // If we found a good match (score > 0.5), link them
-        if (bestMatch && bestScore > 0.5) {
-          await prisma.bankingTransaction.update({
-            where: { id: txn.id },
-            data: {
-              matched: true,
-              matchedToId: bestMatch.id,
-              matchedToType: 'invoice',
-            },
-          })
-
-          result.matched++
-
-          logger.debug(`Matched transaction to invoice`, {
-            transactionId: txn.id,
-            invoiceId: bestMatch.id,
-            score: bestScore,
-          })
-        }
-      } catch (error) {
-        result.errors.push(`Failed to match transaction ${txn.id}: ${String(error)}`)
-        logger.error('Transaction matching error', {
-          transactionId: txn.id,
-          error: String(error),
+    // One line paying several documents, preferring a single counterparty
+    if (!suggestions.some((s) => s.differenceCents === 0)) {
+      for (const combination of findAmountCombinations(pool, line.amountCents, criteria.maxCombinationSize)) {
+        const parties = new Set(combination.map((c) => c.counterparty ?? ''))
+        suggestions.push({
+          bankTransactionIds: [line.id],
+          documents: combination.map((c) => documentOf(c)),
+          differenceCents: 0,
+          score: parties.size === 1 ? 0.7 : 0.55,
+          reasons: [`${combination.length} documents add up to the amount`],
         })
       }
     }
+  }
 
-    logger.info(`Transaction matching complete`, {
-      matched: result.matched,
-      attempted: result.attempted,
-      errors: result.errors.length,
+  // Several lines paying one document
+  for (const candidate of candidates) {
+    const direction = CANDIDATE_TYPES.credit.includes(candidate.type) ? 'credit' : 'debit'
+    const related = lines.filter(
+      (l) =>
+        l.type === direction &&
+        l.currency.toUpperCase() === candidate.currency.toUpperCase() &&
+        Math.abs(l.date.getTime() - candidate.date.getTime()) <= 90 * DAY_MS
+    )
+    for (const combination of findAmountCombinations(related, candidate.amountCents, criteria.maxCombinationSize, 2)) {
+      const suggestion: MatchSuggestion = {
+        bankTransactionIds: combination.map((l) => l.id),
+        documents: [documentOf(candidate)],
+        differenceCents: 0,
+        score: 0.6,
+        reasons: [`${combination.length} bank lines add up to ${candidate.label}`],
+      }
+      for (const l of combination) results.get(l.id)!.push(suggestion)
+    }
+  }
+
+  Array.from(results.values()).forEach((list) => list.sort((a, b) => b.score - a.score))
+  return results
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * DAY_MS)
+}
+
+/**
+ * Open documents a set of bank lines could settle
+ */
+async function loadCandidates(tenantId: string, lines: SuggestionLine[]): Promise<MatchCandidate[]> {
+  if (!lines.length) return []
+  const times = lines.map((l) => l.date.getTime())
+  const from = addDays(new Date(Math.min(...times)), -180)
+  const to = addDays(new Date(Math.max(...times)), 30)
+  const candidates: MatchCandidate[] = []
+
+  if (lines.some((l) => l.type === 'credit')) {
+    const invoices = await prisma.invoice.findMany({
+      where: {
+        tenantId,
+        documentType: { not: 'CREDIT_NOTE' },
+        status: { in: OPEN_INVOICE_STATUSES },
+        issueDate: { gte: from, lte: to },
+      },
+      select: {
+        id: true,
+        number: true,
+        currency: true,
+        totalCents: true,
+        paidCents: true,
+        creditedCents: true,
+        issueDate: true,
+        dueDate: true,
+        client: { select: { name: true } },
+      },
+      take: 500,
     })
+    for (const invoice of invoices) {
+      const outstanding = getOutstandingCents(invoice)
+      if (outstanding <= 0) continue
+      candidates.push({
+        type: 'invoice',
+        id: invoice.id,
+        label: `Invoice ${invoice.number || invoice.id}`,
+        amountCents: outstanding,
+        currency: invoice.currency,
+        date: invoice.issueDate,
+        dueDate: invoice.dueDate,
+        number: invoice.number,
+        counterparty: invoice.client?.name ?? null,
+      })
+    }
+  }
 
-    return result
-  } catch (error) {
-    result.errors.push(`Matching operation failed: ${String(error)}`)
-    logger.error('Transaction matching operation failed', {
-      connectionId,
-      error: String(error),
+  if (lines.some((l) => l.type === 'debit')) {
+    const expenses = await prisma.expense.findMany({
+      where: { tenantId, claimId: null, status: { in: ['PENDING', 'APPROVED'] }, date: { gte: from, lte: to } },
+      select: { id: true, vendor: true, amountCents: true, currency: true, date: true },
+      take: 500,
     })
-    return result
+    const reconciled = await getReconciledCents('expense', expenses.map((e) => e.id))
+    for (const expense of expenses) {
+      const open = expense.amountCents - (reconciled.get(expense.id) ?? 0)
+      if (open <= 0) continue
+      candidates.push({
+        type: 'expense',
+        id: expense.id,
+        label: `Expense: ${expense.vendor}`,
+        amountCents: open,
+        currency: expense.currency,
+        date: expense.date,
+        counterparty: expense.vendor,
+      })
+    }
+
+    const bills = await prisma.bill.findMany({
+      where: { tenantId, status: 'APPROVED', dueDate: { gte: from, lte: addDays(to, 60) } },
+      select: {
+        id: true,
+        billNumber: true,
+        currency: true,
+        totalCents: true,
+        paidCents: true,
+        issueDate: true,
+        dueDate: true,
+        vendor: { select: { name: true } },
+      },
+      take: 500,
+    })
+    for (const bill of bills) {
+      const open = bill.totalCents - bill.paidCents
+      if (open <= 0) continue
+      candidates.push({
+        type: 'bill',
+        id: bill.id,
+        label: `Bill ${bill.billNumber}`,
+        amountCents: open,
+        currency: bill.currency,
+        date: bill.issueDate,
+        dueDate: bill.dueDate,
+        number: bill.billNumber,
+        counterparty: bill.vendor.name,
+      })
+    }
   }
+
+  return candidates
+}
+
+/**
+ * Amount of each document already settled by active reconciliation matches
+ */
+export async function getReconciledCents(itemType: string, ids: string[]): Promise<Map<string, number>> {
+  if (!ids.length) return new Map()
+  const sums = await prisma.bankReconciliationItem.groupBy({
+    by: ['itemId'],
+    where: { itemType, itemId: { in: ids }, match: { status: 'MATCHED' } },
+    _sum: { amountCents: true },
+  })
+  return new Map(sums.map((s) => [s.itemId as string, s._sum.amountCents ?? 0]))
+}
+
+/**
+ * Suggest matches for a connection's unreconciled bank lines: rule codings
+ * first, then documents by score
+ */
+export async function suggestMatches(
+  tenantId: string,
+  connectionId: string,
+  options: { transactionIds?: string[]; limit?: number; perLine?: number } = {}
+): Promise<Array<{ transactionId: string; suggestions: MatchSuggestion[] }>> {
+  const transactions = await prisma.bankingTransaction.findMany({
+    where: {
+      tenantId,
+      connectionId,
+      matched: false,
+      ...(options.transactionIds?.length ? { id: { in: options.transactionIds } } : {}),
+    },
+    select: { id: true, type: true, amount: true, currency: true, date: true, description: true, reference: true },
+    orderBy: { date: 'desc' },
+    take: options.limit ?? 200,
+  })
+
+  const lines: SuggestionLine[] = transactions.map((t) => ({
+    id: t.id,
+    type: t.type,
+    amountCents: Math.round(Math.abs(Number(t.amount)) * 100),
+    currency: t.currency,
+    date: t.date,
+    description: t.description,
+    reference: t.reference,
+  }))
+
+  const [candidates, rules] = await Promise.all([
+    loadCandidates(tenantId, lines),
+    prisma.bankRule.findMany({
+      where: { tenantId, isActive: true, OR: [{ connectionId: null }, { connectionId }] },
+      orderBy: { priority: 'asc' },
+    }),
+  ])
+  const ranked = rankSuggestions(lines, candidates)
+
+  logger.info('Reconciliation suggestions computed', { connectionId, lines: lines.length, candidates: candidates.length })
+
+  return lines.map((line) => {
+    const suggestions = ranked.get(line.id) ?? []
+    const rule = findMatchingRule(rules, { ...line, connectionId })
+    if (rule) {
+      suggestions.unshift({
+        bankTransactionIds: [line.id],
+        documents: [{ type: 'account', id: rule.ledgerAccountId, amountCents: line.amountCents, label: rule.memo || rule.name }],
+        ruleId: rule.id,
+        differenceCents: 0,
+        score: 1,
+        reasons: [`Bank rule: ${rule.name}`],
+      })
+    }
+    return { transactionId: line.id, suggestions: suggestions.slice(0, options.perLine ?? 5) }
+  })
 }
 
 /**
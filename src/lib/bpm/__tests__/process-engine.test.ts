@@ -4,9 +4,14 @@ import {
   ProcessStatus,
   TaskStatus,
   EscalationLevel,
+  InstanceStatus,
   ProcessDefinition,
   Task,
+  canTransition,
+  planInstance,
+  retryDelayMs,
 } from '../process-engine';
+import { MemoryProcessStore } from '../process-store';
 
 describe('ProcessEngine', () => {
   let engine: ProcessEngine;
@@ -16,7 +21,7 @@ describe('ProcessEngine', () => {
   });
 
   describe('Process Definition Management', () => {
-    it('should create a process definition', () => {
+    it('should create a process definition', async () => {
       const definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
         id: 'proc-1',
         name: 'Approval Workflow',
@@ -40,7 +45,7 @@ describe('ProcessEngine', () => {
         rules: [],
       };
 
-      const created = engine.createProcessDefinition(definition);
+      const created = await engine.createProcessDefinition(definition);
 
       expect(created.id).toBe('proc-1');
       expect(created.name).toBe('Approval Workflow');
@@ -48,7 +53,7 @@ describe('ProcessEngine', () => {
       expect(created.steps).toHaveLength(2);
     });
 
-    it('should retrieve a process definition', () => {
+    it('should retrieve a process definition', async () => {
       const definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
         id: 'proc-1',
         name: 'Test Process',
@@ -58,14 +63,14 @@ describe('ProcessEngine', () => {
         rules: [],
       };
 
-      engine.createProcessDefinition(definition);
-      const retrieved = engine.getProcessDefinition('proc-1');
+      await engine.createProcessDefinition(definition);
+      const retrieved = await engine.getProcessDefinition('proc-1');
 
       expect(retrieved).toBeDefined();
       expect(retrieved?.name).toBe('Test Process');
     });
 
-    it('should list process definitions', () => {
+    it('should list process definitions', async () => {
       const def1: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
         id: 'proc-1',
         name: 'Process 1',
@@ -84,18 +89,18 @@ describe('ProcessEngine', () => {
         rules: [],
       };
 
-      engine.createProcessDefinition(def1);
-      engine.createProcessDefinition(def2);
+      await engine.createProcessDefinition(def1);
+      await engine.createProcessDefinition(def2);
 
-      const all = engine.listProcessDefinitions();
+      const all = await engine.listProcessDefinitions();
       expect(all).toHaveLength(2);
 
-      const active = engine.listProcessDefinitions(ProcessStatus.ACTIVE);
+      const active = await engine.listProcessDefinitions(ProcessStatus.ACTIVE);
       expect(active).toHaveLength(1);
       expect(active[0].id).toBe('proc-1');
     });
 
-    it('should update a process definition', () => {
+    it('should update a process definition', async () => {
       const definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
         id: 'proc-1',
         name: 'Original Name',
@@ -105,8 +110,8 @@ describe('ProcessEngine', () => {
         rules: [],
       };
 
-      engine.createProcessDefinition(definition);
-      const updated = engine.updateProcessDefinition('proc-1', {
+      await engine.createProcessDefinition(definition);
+      const updated = await engine.updateProcessDefinition('proc-1', {
         name: 'Updated Name',
         status: ProcessStatus.PAUSED,
       });
@@ -117,7 +122,7 @@ describe('ProcessEngine', () => {
   });
 
   describe('Task Management', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       const definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
         id: 'proc-1',
         name: 'Test Process',
@@ -134,11 +139,11 @@ describe('ProcessEngine', () => {
         rules: [],
       };
 
-      engine.createProcessDefinition(definition);
+      await engine.createProcessDefinition(definition);
     });
 
-    it('should create a task', () => {
-      const task = engine.createTask('proc-1', 'step-1', 'user-1');
+    it('should create a task', async () => {
+      const task = await engine.createTask('proc-1', 'step-1', 'user-1');
 
       expect(task.processId).toBe('proc-1');
       expect(task.stepId).toBe('step-1');
@@ -147,36 +152,36 @@ describe('ProcessEngine', () => {
       expect(task.escalationLevel).toBe(EscalationLevel.LEVEL_1);
     });
 
-    it('should retrieve a task', () => {
-      const created = engine.createTask('proc-1', 'step-1', 'user-1');
-      const retrieved = engine.getTask(created.id);
+    it('should retrieve a task', async () => {
+      const created = await engine.createTask('proc-1', 'step-1', 'user-1');
+      const retrieved = await engine.getTask(created.id);
 
       expect(retrieved).toBeDefined();
       expect(retrieved?.assignee).toBe('user-1');
     });
 
-    it('should list tasks by assignee', () => {
-      engine.createTask('proc-1', 'step-1', 'user-1');
-      engine.createTask('proc-1', 'step-1', 'user-1');
-      engine.createTask('proc-1', 'step-1', 'user-2');
+    it('should list tasks by assignee', async () => {
+      await engine.createTask('proc-1', 'step-1', 'user-1');
+      await engine.createTask('proc-1', 'step-1', 'user-1');
+      await engine.createTask('proc-1', 'step-1', 'user-2');
 
-      const user1Tasks = engine.listTasksByAssignee('user-1');
-      const user2Tasks = engine.listTasksByAssignee('user-2');
+      const user1Tasks = await engine.listTasksByAssignee('user-1');
+      const user2Tasks = await engine.listTasksByAssignee('user-2');
 
       expect(user1Tasks).toHaveLength(2);
       expect(user2Tasks).toHaveLength(1);
     });
 
-    it('should update task status', () => {
-      const task = engine.createTask('proc-1', 'step-1', 'user-1');
-      const updated = engine.updateTaskStatus(task.id, TaskStatus.IN_PROGRESS);
+    it('should update task status', async () => {
+      const task = await engine.createTask('proc-1', 'step-1', 'user-1');
+      const updated = await engine.updateTaskStatus(task.id, TaskStatus.IN_PROGRESS);
 
       expect(updated.status).toBe(TaskStatus.IN_PROGRESS);
     });
 
-    it('should mark task as completed', () => {
-      const task = engine.createTask('proc-1', 'step-1', 'user-1');
-      const updated = engine.updateTaskStatus(task.id, TaskStatus.COMPLETED);
+    it('should mark task as completed', async () => {
+      const task = await engine.createTask('proc-1', 'step-1', 'user-1');
+      const updated = await engine.updateTaskStatus(task.id, TaskStatus.COMPLETED);
 
       expect(updated.status).toBe(TaskStatus.COMPLETED);
       expect(updated.completedAt).toBeDefined();
@@ -184,7 +189,7 @@ describe('ProcessEngine', () => {
   });
 
   describe('Task Delegation', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       const definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
         id: 'proc-1',
         name: 'Test Process',
@@ -201,12 +206,12 @@ describe('ProcessEngine', () => {
         rules: [],
       };
 
-      engine.createProcessDefinition(definition);
+      await engine.createProcessDefinition(definition);
     });
 
-    it('should delegate a task', () => {
-      const task = engine.createTask('proc-1', 'step-1', 'user-1');
-      const delegation = engine.delegateTask(task.id, 'user-1', 'user-2', {
+    it('should delegate a task', async () => {
+      const task = await engine.createTask('proc-1', 'step-1', 'user-1');
+      const delegation = await engine.delegateTask(task.id, 'user-1', 'user-2', {
         reason: 'User on vacation',
       });
 
@@ -215,20 +220,20 @@ describe('ProcessEngine', () => {
       expect(delegation.reason).toBe('User on vacation');
     });
 
-    it('should update task when delegated', () => {
-      const task = engine.createTask('proc-1', 'step-1', 'user-1');
-      engine.delegateTask(task.id, 'user-1', 'user-2');
+    it('should update task when delegated', async () => {
+      const task = await engine.createTask('proc-1', 'step-1', 'user-1');
+      await engine.delegateTask(task.id, 'user-1', 'user-2');
 
-      const updated = engine.getTask(task.id);
+      const updated = await engine.getTask(task.id);
       expect(updated?.delegatedFrom).toBe('user-1');
       expect(updated?.delegatedTo).toBe('user-2');
       expect(updated?.status).toBe(TaskStatus.DELEGATED);
     });
 
-    it('should return a delegated task', () => {
-      const task = engine.createTask('proc-1', 'step-1', 'user-1');
-      const delegation = engine.delegateTask(task.id, 'user-1', 'user-2');
-      const returned = engine.returnDelegatedTask(delegation.id);
+    it('should return a delegated task', async () => {
+      const task = await engine.createTask('proc-1', 'step-1', 'user-1');
+      const delegation = await engine.delegateTask(task.id, 'user-1', 'user-2');
+      const returned = await engine.returnDelegatedTask(delegation.id);
 
       expect(returned.assignee).toBe('user-1');
       expect(returned.delegatedFrom).toBeUndefined();
@@ -236,17 +241,15 @@ describe('ProcessEngine', () => {
       expect(returned.status).toBe(TaskStatus.PENDING);
     });
 
-    it('should prevent delegation from non-assignee', () => {
-      const task = engine.createTask('proc-1', 'step-1', 'user-1');
+    it('should prevent delegation from non-assignee', async () => {
+      const task = await engine.createTask('proc-1', 'step-1', 'user-1');
 
-      expect(() => {
-        engine.delegateTask(task.id, 'user-2', 'user-3');
-      }).toThrow();
+      await expect(engine.delegateTask(task.id, 'user-2', 'user-3')).rejects.toThrow();
     });
   });
 
   describe('Vacation Coverage', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       const definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
         id: 'proc-1',
         name: 'Test Process',
@@ -263,20 +266,20 @@ describe('ProcessEngine', () => {
         rules: [],
       };
 
-      engine.createProcessDefinition(definition);
+      await engine.createProcessDefinition(definition);
     });
 
-    it('should setup vacation coverage', () => {
-      const task1 = engine.createTask('proc-1', 'step-1', 'user-1');
-      const task2 = engine.createTask('proc-1', 'step-1', 'user-1');
+    it('should setup vacation coverage', async () => {
+      const task1 = await engine.createTask('proc-1', 'step-1', 'user-1');
+      const task2 = await engine.createTask('proc-1', 'step-1', 'user-1');
 
       const vacationStart = new Date();
       const vacationEnd = new Date(vacationStart.getTime() + 7 * 24 * 60 * 60 * 1000);
 
-      engine.setupVacationCoverage('user-1', 'user-2', vacationStart, vacationEnd);
+      await engine.setupVacationCoverage('user-1', 'user-2', vacationStart, vacationEnd);
 
-      const updated1 = engine.getTask(task1.id);
-      const updated2 = engine.getTask(task2.id);
+      const updated1 = await engine.getTask(task1.id);
+      const updated2 = await engine.getTask(task2.id);
 
       expect(updated1?.assignee).toBe('user-2');
       expect(updated1?.vacationCoverage?.originalAssignee).toBe('user-1');
@@ -285,7 +288,7 @@ describe('ProcessEngine', () => {
   });
 
   describe('Task Escalation', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       const definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
         id: 'proc-1',
         name: 'Test Process',
@@ -302,12 +305,12 @@ describe('ProcessEngine', () => {
         rules: [],
       };
 
-      engine.createProcessDefinition(definition);
+      await engine.createProcessDefinition(definition);
     });
 
-    it('should escalate a task', () => {
-      const task = engine.createTask('proc-1', 'step-1', 'user-1');
-      const escalated = engine.escalateTask(
+    it('should escalate a task', async () => {
+      const task = await engine.createTask('proc-1', 'step-1', 'user-1');
+      const escalated = await engine.escalateTask(
         task.id,
         EscalationLevel.LEVEL_2,
         'Task overdue',
@@ -321,11 +324,11 @@ describe('ProcessEngine', () => {
       expect(escalated.escalationHistory[0].reason).toBe('Task overdue');
     });
 
-    it('should track escalation history', () => {
-      const task = engine.createTask('proc-1', 'step-1', 'user-1');
+    it('should track escalation history', async () => {
+      const task = await engine.createTask('proc-1', 'step-1', 'user-1');
 
-      engine.escalateTask(task.id, EscalationLevel.LEVEL_2, 'Overdue', 'system', 'manager-1');
-      const escalated = engine.escalateTask(
+      await engine.escalateTask(task.id, EscalationLevel.LEVEL_2, 'Overdue', 'system', 'manager-1');
+      const escalated = await engine.escalateTask(
         task.id,
         EscalationLevel.LEVEL_3,
         'Still overdue',
@@ -340,8 +343,8 @@ describe('ProcessEngine', () => {
   });
 
   describe('Approval Matrix', () => {
-    it('should create an approval matrix', () => {
-      const matrix = engine.createApprovalMatrix({
+    it('should create an approval matrix', async () => {
+      const matrix = await engine.createApprovalMatrix({
         id: 'matrix-1',
         name: 'Budget Approval',
         rules: [
@@ -366,8 +369,8 @@ describe('ProcessEngine', () => {
       expect(matrix.rules).toHaveLength(2);
     });
 
-    it('should evaluate approval rules', () => {
-      engine.createApprovalMatrix({
+    it('should evaluate approval rules', async () => {
+      await engine.createApprovalMatrix({
         id: 'matrix-1',
         name: 'Budget Approval',
         rules: [
@@ -388,8 +391,8 @@ describe('ProcessEngine', () => {
         ],
       });
 
-      const approversSmall = engine.evaluateApprovalRules('matrix-1', { amount: 5000 });
-      const approversLarge = engine.evaluateApprovalRules('matrix-1', { amount: 15000 });
+      const approversSmall = await engine.evaluateApprovalRules('matrix-1', { amount: 5000 });
+      const approversLarge = await engine.evaluateApprovalRules('matrix-1', { amount: 15000 });
 
       expect(approversSmall).toContain('manager-1');
       expect(approversLarge).toContain('director-1');
@@ -398,7 +401,7 @@ describe('ProcessEngine', () => {
   });
 
   describe('Process Statistics', () => {
-    beforeEach(() => {
+    beforeEach(async () => {
       const definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
         id: 'proc-1',
         name: 'Test Process',
@@ -415,18 +418,18 @@ describe('ProcessEngine', () => {
         rules: [],
       };
 
-      engine.createProcessDefinition(definition);
+      await engine.createProcessDefinition(definition);
     });
 
-    it('should calculate process statistics', () => {
-      const task1 = engine.createTask('proc-1', 'step-1', 'user-1');
-      const task2 = engine.createTask('proc-1', 'step-1', 'user-1');
-      const task3 = engine.createTask('proc-1', 'step-1', 'user-1');
+    it('should calculate process statistics', async () => {
+      const task1 = await engine.createTask('proc-1', 'step-1', 'user-1');
+      const task2 = await engine.createTask('proc-1', 'step-1', 'user-1');
+      const task3 = await engine.createTask('proc-1', 'step-1', 'user-1');
 
-      engine.updateTaskStatus(task1.id, TaskStatus.COMPLETED);
-      engine.updateTaskStatus(task2.id, TaskStatus.IN_PROGRESS);
+      await engine.updateTaskStatus(task1.id, TaskStatus.COMPLETED);
+      await engine.updateTaskStatus(task2.id, TaskStatus.IN_PROGRESS);
 
-      const stats = engine.getProcessStatistics('proc-1');
+      const stats = await engine.getProcessStatistics('proc-1');
 
       expect(stats.totalTasks).toBe(3);
       expect(stats.completedTasks).toBe(1);
@@ -436,4 +439,144 @@ describe('ProcessEngine', () => {
       expect(stats.averageCompletionTime).toBeGreaterThanOrEqual(0);
     });
   });
+
+  describe('Process Instances', () => {
+    const approval: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'> = {
+      id: 'proc-approval',
+      name: 'Payment Approval',
+      version: '1.0',
+      status: ProcessStatus.ACTIVE,
+      createdBy: 'admin',
+      steps: [
+        { id: 'submit', name: 'Submit', type: 'TASK', assignee: 'clerk-1', nextSteps: ['route'] },
+        { id: 'route', name: 'Route', type: 'DECISION', nextSteps: ['review', 'fast-track'] },
+        {
+          id: 'review',
+          name: 'Manager review',
+          type: 'TASK',
+          assignee: 'manager-1',
+          duration: 60,
+          escalateTo: ['director-1', 'cfo-1'],
+          conditions: [{ field: 'amount', operator: 'greaterThan', value: 1000 }],
+          nextSteps: ['pay'],
+        },
+        {
+          id: 'fast-track',
+          name: 'Fast track',
+          type: 'PARALLEL',
+          conditions: [{ field: 'amount', operator: 'lessThan', value: 1001 }],
+          nextSteps: ['pay'],
+        },
+        {
+          id: 'pay',
+          name: 'Release payment',
+          type: 'TASK',
+          assignee: 'treasury',
+          retryPolicy: { maxRetries: 1, backoffMultiplier: 2, initialDelayMs: 60000 },
+        },
+      ],
+    };
+
+    let store: MemoryProcessStore;
+
+    beforeEach(async () => {
+      store = new MemoryProcessStore();
+      engine = new ProcessEngine(store);
+      await engine.createProcessDefinition(approval);
+    });
+
+    const openTask = async (instanceId: string, stepId: string) =>
+      (await store.listTasks({ instanceId, statuses: [TaskStatus.PENDING, TaskStatus.ESCALATED] })).find((t) => t.stepId === stepId)!;
+
+    it('should allow only the defined state transitions', () => {
+      expect(canTransition(InstanceStatus.RUNNING, InstanceStatus.SUSPENDED)).toBe(true);
+      expect(canTransition(InstanceStatus.FAILED, InstanceStatus.RUNNING)).toBe(true);
+      expect(canTransition(InstanceStatus.COMPLETED, InstanceStatus.RUNNING)).toBe(false);
+      expect(canTransition(InstanceStatus.SUSPENDED, InstanceStatus.COMPLETED)).toBe(false);
+    });
+
+    it('should plan the branch the variables choose and skip the other', () => {
+      const now = new Date();
+      const start = planInstance(approval, {}, { amount: 5000 }, now);
+      expect(start.activated).toEqual(['submit']);
+
+      const next = planInstance(approval, { ...start.steps, submit: { status: 'COMPLETED', attempts: 1, updatedAt: now } }, { amount: 5000 }, now);
+      expect(next.completed).toEqual(['route']);
+      expect(next.activated).toEqual(['review']);
+      expect(next.skipped).toEqual(['fast-track']);
+      expect(next.status).toBe(InstanceStatus.RUNNING);
+    });
+
+    it('should run an instance to completion and keep its history', async () => {
+      const started = await engine.startProcess('proc-approval', { variables: { amount: 500 }, startedBy: 'clerk-1' });
+      expect(started.steps.submit.status).toBe('ACTIVE');
+
+      await engine.updateTaskStatus((await openTask(started.id, 'submit')).id, TaskStatus.COMPLETED, 'clerk-1');
+      const paying = await engine.getProcessInstance(started.id);
+      expect(paying?.steps['fast-track'].status).toBe('COMPLETED');
+      expect(paying?.steps.review.status).toBe('SKIPPED');
+
+      await engine.updateTaskStatus((await openTask(started.id, 'pay')).id, TaskStatus.COMPLETED, 'treasury', { reference: 'PAY-1' });
+      const done = await engine.getProcessInstance(started.id);
+      expect(done?.status).toBe(InstanceStatus.COMPLETED);
+      expect(done?.variables).toEqual({ amount: 500, reference: 'PAY-1' });
+
+      const history = (await engine.getInstanceHistory(started.id)).map((e) => e.type);
+      expect(history[0]).toBe('STARTED');
+      expect(history).toContain('STEP_SKIPPED');
+      expect(history[history.length - 1]).toBe(InstanceStatus.COMPLETED);
+    });
+
+    it('should escalate overdue tasks up the chain when the timers run', async () => {
+      const started = await engine.startProcess('proc-approval', { variables: { amount: 5000 } });
+      await engine.updateTaskStatus((await openTask(started.id, 'submit')).id, TaskStatus.COMPLETED, 'clerk-1');
+      const review = await openTask(started.id, 'review');
+
+      const later = new Date(review.dueDate!.getTime() + 1000);
+      expect(await engine.runTimers(later)).toMatchObject({ escalated: 1 });
+
+      const escalated = await engine.getTask(review.id);
+      expect(escalated?.escalationLevel).toBe(EscalationLevel.LEVEL_2);
+      expect(escalated?.assignee).toBe('director-1');
+      expect(escalated?.dueDate!.getTime()).toBeGreaterThan(later.getTime());
+      expect(await engine.runTimers(later)).toMatchObject({ escalated: 0 });
+    });
+
+    it('should retry a failed step after its backoff and fail once retries run out', async () => {
+      const started = await engine.startProcess('proc-approval', { variables: { amount: 500 } });
+      await engine.updateTaskStatus((await openTask(started.id, 'submit')).id, TaskStatus.COMPLETED, 'clerk-1');
+      await engine.updateTaskStatus((await openTask(started.id, 'pay')).id, TaskStatus.FAILED, 'treasury');
+
+      const waiting = await engine.getProcessInstance(started.id);
+      expect(waiting?.steps.pay.status).toBe('RETRYING');
+      expect(retryDelayMs({ maxRetries: 1, backoffMultiplier: 2, initialDelayMs: 60000 }, 2)).toBe(120000);
+
+      await engine.runTimers(new Date(waiting!.wakeAt!.getTime() + 1));
+      const retry = await openTask(started.id, 'pay');
+      expect(retry.attempt).toBe(2);
+
+      await engine.updateTaskStatus(retry.id, TaskStatus.FAILED, 'treasury');
+      expect((await engine.getProcessInstance(started.id))?.status).toBe(InstanceStatus.FAILED);
+    });
+
+    it('should resume an advance interrupted before the step task was opened', async () => {
+      const started = await engine.startProcess('proc-approval', { variables: { amount: 500 } });
+      const { taskId, ...untracked } = started.steps.submit;
+      await store.saveInstance({ ...started, steps: { submit: untracked }, wakeAt: new Date(0) });
+
+      expect(await engine.runTimers()).toMatchObject({ instancesAdvanced: 1 });
+      const resumed = await engine.getProcessInstance(started.id);
+      expect(resumed?.steps.submit.taskId).toBe(taskId);
+      expect(resumed?.wakeAt).toBeUndefined();
+      expect(await store.listTasks({ instanceId: started.id })).toHaveLength(1);
+    });
+
+    it('should withdraw open tasks when an instance is cancelled', async () => {
+      const started = await engine.startProcess('proc-approval', { variables: { amount: 500 } });
+      await engine.cancelInstance(started.id, 'admin', 'Duplicate request');
+
+      expect((await store.listTasks({ instanceId: started.id }))[0].status).toBe(TaskStatus.CANCELLED);
+      await expect(engine.resumeInstance(started.id, 'admin')).rejects.toThrow();
+    });
+  });
 });
@@ -0,0 +1,408 @@
+import {
+  Prisma,
+  type BpmApprovalMatrix,
+  type BpmDelegation,
+  type BpmInstanceEvent,
+  type BpmProcessDefinition,
+  type BpmProcessInstance,
+  type BpmTask,
+  type BpmVacationCoverage,
+} from '@prisma/client';
+import prisma from '@/lib/prisma';
+import { tenantContext } from '@/lib/tenant-context';
+import type {
+  ApprovalMatrix,
+  DelegationRecord,
+  EscalationLevel,
+  EscalationRecord,
+  InstanceEvent,
+  InstanceStatus,
+  ProcessDefinition,
+  ProcessInstance,
+  ProcessStatus,
+  StepRecord,
+  Task,
+  TaskStatus,
+  VacationCoverage,
+  VacationCoverageRecord,
+} from './process-engine';
+import type { CoverageFilter, InstanceFilter, ProcessStore, TaskFilter } from './process-store';
+
+/**
+ * Process store backed by the bpm_* tables. Records carry their tenant; one
+ * created without it (definitions, matrices and coverage set up in a
+ * request) takes the tenant of the current request. Dates nested in JSON
+ * columns are revived on the way out.
+ */
+
+function tenantOf(record: { tenantId?: string }): string {
+  const tenantId = record.tenantId ?? tenantContext.getTenantId();
+  if (!tenantId) throw new Error('A tenant is required to persist BPM records');
+  return tenantId;
+}
+
+function json(value: unknown): Prisma.InputJsonValue {
+  return value as Prisma.InputJsonValue;
+}
+
+function optionalJson(value: unknown): Prisma.InputJsonValue | typeof Prisma.JsonNull {
+  return value == null ? Prisma.JsonNull : json(value);
+}
+
+function date(value: unknown): Date | undefined {
+  return value == null ? undefined : new Date(value as string);
+}
+
+function toDefinition(row: BpmProcessDefinition): ProcessDefinition {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    name: row.name,
+    description: row.description ?? undefined,
+    version: row.version,
+    status: row.status as ProcessStatus,
+    steps: row.steps as unknown as ProcessDefinition['steps'],
+    rules: (row.rules as unknown as ProcessDefinition['rules']) ?? undefined,
+    createdBy: row.createdBy,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toInstance(row: BpmProcessInstance): ProcessInstance {
+  const steps = Object.fromEntries(
+    Object.entries((row.steps ?? {}) as Record<string, any>).map(([stepId, record]) => [
+      stepId,
+      { ...record, retryAt: date(record.retryAt), updatedAt: date(record.updatedAt) } as StepRecord,
+    ])
+  );
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    processId: row.processId,
+    processVersion: row.processVersion,
+    businessKey: row.businessKey ?? undefined,
+    status: row.status as InstanceStatus,
+    variables: (row.variables ?? {}) as Record<string, any>,
+    steps,
+    startedBy: row.startedBy ?? undefined,
+    error: row.error ?? undefined,
+    wakeAt: row.wakeAt ?? undefined,
+    startedAt: row.startedAt,
+    completedAt: row.completedAt ?? undefined,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toTask(row: BpmTask): Task {
+  const coverage = row.vacationCoverage as Record<string, any> | null;
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    processId: row.processId,
+    instanceId: row.instanceId ?? undefined,
+    stepId: row.stepId,
+    attempt: row.attempt,
+    status: row.status as TaskStatus,
+    assignee: row.assignee,
+    assigneeRole: row.assigneeRole ?? undefined,
+    delegatedFrom: row.delegatedFrom ?? undefined,
+    delegatedTo: row.delegatedTo ?? undefined,
+    dueDate: row.dueDate ?? undefined,
+    completedAt: row.completedAt ?? undefined,
+    completedBy: row.completedBy ?? undefined,
+    escalationLevel: row.escalationLevel as EscalationLevel,
+    escalationHistory: ((row.escalationHistory ?? []) as Record<string, any>[]).map(
+      (record) => ({ ...record, timestamp: date(record.timestamp) }) as EscalationRecord
+    ),
+    vacationCoverage: coverage
+      ? ({ ...coverage, vacationStart: date(coverage.vacationStart), vacationEnd: date(coverage.vacationEnd) } as VacationCoverage)
+      : undefined,
+    metadata: (row.metadata as Record<string, any>) ?? undefined,
+    output: (row.output as Record<string, any>) ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toDelegation(row: BpmDelegation): DelegationRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    taskId: row.taskId,
+    fromUser: row.fromUser,
+    toUser: row.toUser,
+    reason: row.reason ?? undefined,
+    delegatedAt: row.delegatedAt,
+    expiresAt: row.expiresAt ?? undefined,
+    autoReturn: row.autoReturn,
+  };
+}
+
+function toCoverage(row: BpmVacationCoverage): VacationCoverageRecord {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    originalAssignee: row.originalAssignee,
+    coveringAssignee: row.coveringAssignee,
+    vacationStart: row.vacationStart,
+    vacationEnd: row.vacationEnd,
+    autoReassign: row.autoReassign,
+    restoredAt: row.restoredAt ?? undefined,
+  };
+}
+
+function toMatrix(row: BpmApprovalMatrix): ApprovalMatrix {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    name: row.name,
+    rules: row.rules as unknown as ApprovalMatrix['rules'],
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
+function toEvent(row: BpmInstanceEvent): InstanceEvent {
+  return {
+    id: row.id,
+    tenantId: row.tenantId,
+    instanceId: row.instanceId,
+    type: row.type,
+    stepId: row.stepId ?? undefined,
+    taskId: row.taskId ?? undefined,
+    actor: row.actor ?? undefined,
+    fromStatus: row.fromStatus ?? undefined,
+    toStatus: row.toStatus ?? undefined,
+    details: (row.details as Record<string, any>) ?? undefined,
+    createdAt: row.createdAt,
+  };
+}
+
+export class PrismaProcessStore implements ProcessStore {
+  async getDefinition(id: string) {
+    const row = await prisma.bpmProcessDefinition.findUnique({ where: { id } });
+    return row ? toDefinition(row) : undefined;
+  }
+
+  async listDefinitions(status?: ProcessStatus) {
+    const rows = await prisma.bpmProcessDefinition.findMany({
+      where: status ? { status } : {},
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(toDefinition);
+  }
+
+  async saveDefinition(definition: ProcessDefinition) {
+    const data = {
+      name: definition.name,
+      description: definition.description ?? null,
+      version: definition.version,
+      status: definition.status,
+      steps: json(definition.steps),
+      rules: optionalJson(definition.rules),
+      createdBy: definition.createdBy,
+    };
+    const row = await prisma.bpmProcessDefinition.upsert({
+      where: { id: definition.id },
+      create: { id: definition.id, tenantId: tenantOf(definition), ...data },
+      update: data,
+    });
+    return toDefinition(row);
+  }
+
+  async getInstance(id: string) {
+    const row = await prisma.bpmProcessInstance.findUnique({ where: { id } });
+    return row ? toInstance(row) : undefined;
+  }
+
+  async listInstances(filter: InstanceFilter) {
+    const rows = await prisma.bpmProcessInstance.findMany({
+      where: {
+        ...(filter.processId ? { processId: filter.processId } : {}),
+        ...(filter.statuses ? { status: { in: filter.statuses } } : {}),
+        ...(filter.wakeBefore ? { wakeAt: { lte: filter.wakeBefore } } : {}),
+      },
+      orderBy: { startedAt: 'desc' },
+      ...(filter.limit ? { take: filter.limit } : {}),
+    });
+    return rows.map(toInstance);
+  }
+
+  async saveInstance(instance: ProcessInstance) {
+    const data = {
+      status: instance.status,
+      variables: json(instance.variables),
+      steps: json(instance.steps),
+      error: instance.error ?? null,
+      wakeAt: instance.wakeAt ?? null,
+      completedAt: instance.completedAt ?? null,
+    };
+    const row = await prisma.bpmProcessInstance.upsert({
+      where: { id: instance.id },
+      create: {
+        id: instance.id,
+        tenantId: tenantOf(instance),
+        processId: instance.processId,
+        processVersion: instance.processVersion,
+        businessKey: instance.businessKey ?? null,
+        startedBy: instance.startedBy ?? null,
+        startedAt: instance.startedAt,
+        ...data,
+      },
+      update: data,
+    });
+    return toInstance(row);
+  }
+
+  async appendEvent(event: InstanceEvent) {
+    await prisma.bpmInstanceEvent.create({
+      data: {
+        tenantId: tenantOf(event),
+        instanceId: event.instanceId,
+        type: event.type,
+        stepId: event.stepId ?? null,
+        taskId: event.taskId ?? null,
+        actor: event.actor ?? null,
+        fromStatus: event.fromStatus ?? null,
+        toStatus: event.toStatus ?? null,
+        details: optionalJson(event.details),
+        createdAt: event.createdAt,
+      },
+    });
+  }
+
+  async listEvents(instanceId: string) {
+    const rows = await prisma.bpmInstanceEvent.findMany({ where: { instanceId }, orderBy: { createdAt: 'asc' } });
+    return rows.map(toEvent);
+  }
+
+  async getTask(id: string) {
+    const row = await prisma.bpmTask.findUnique({ where: { id } });
+    return row ? toTask(row) : undefined;
+  }
+
+  async listTasks(filter: TaskFilter) {
+    const rows = await prisma.bpmTask.findMany({
+      where: {
+        ...(filter.assignee ? { OR: [{ assignee: filter.assignee }, { delegatedTo: filter.assignee }] } : {}),
+        ...(filter.processId ? { processId: filter.processId } : {}),
+        ...(filter.instanceId ? { instanceId: filter.instanceId } : {}),
+        ...(filter.statuses ? { status: { in: filter.statuses } } : {}),
+        ...(filter.dueBefore ? { dueDate: { lte: filter.dueBefore } } : {}),
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+    return rows.map(toTask);
+  }
+
+  async saveTask(task: Task) {
+    const data = {
+      status: task.status,
+      assignee: task.assignee,
+      assigneeRole: task.assigneeRole ?? null,
+      delegatedFrom: task.delegatedFrom ?? null,
+      delegatedTo: task.delegatedTo ?? null,
+      dueDate: task.dueDate ?? null,
+      completedAt: task.completedAt ?? null,
+      completedBy: task.completedBy ?? null,
+      escalationLevel: task.escalationLevel,
+      escalationHistory: json(task.escalationHistory),
+      vacationCoverage: optionalJson(task.vacationCoverage),
+      metadata: optionalJson(task.metadata),
+      output: optionalJson(task.output),
+    };
+    const row = await prisma.bpmTask.upsert({
+      where: { id: task.id },
+      create: {
+        id: task.id,
+        tenantId: tenantOf(task),
+        processId: task.processId,
+        instanceId: task.instanceId ?? null,
+        stepId: task.stepId,
+        attempt: task.attempt ?? 1,
+        createdAt: task.createdAt,
+        ...data,
+      },
+      update: data,
+    });
+    return toTask(row);
+  }
+
+  async getDelegation(id: string) {
+    const row = await prisma.bpmDelegation.findFirst({ where: { id, returnedAt: null } });
+    return row ? toDelegation(row) : undefined;
+  }
+
+  async listDelegations(filter: { expiresBefore?: Date }) {
+    const rows = await prisma.bpmDelegation.findMany({
+      where: { returnedAt: null, ...(filter.expiresBefore ? { expiresAt: { lte: filter.expiresBefore } } : {}) },
+      orderBy: { delegatedAt: 'asc' },
+    });
+    return rows.map(toDelegation);
+  }
+
+  async saveDelegation(delegation: DelegationRecord) {
+    const row = await prisma.bpmDelegation.create({
+      data: {
+        id: delegation.id,
+        tenantId: tenantOf(delegation),
+        taskId: delegation.taskId,
+        fromUser: delegation.fromUser,
+        toUser: delegation.toUser,
+        reason: delegation.reason ?? null,
+        delegatedAt: delegation.delegatedAt,
+        expiresAt: delegation.expiresAt ?? null,
+        autoReturn: delegation.autoReturn,
+      },
+    });
+    return toDelegation(row);
+  }
+
+  async closeDelegation(id: string, returnedAt: Date) {
+    await prisma.bpmDelegation.update({ where: { id }, data: { returnedAt } });
+  }
+
+  async listCoverage(filter: CoverageFilter) {
+    const rows = await prisma.bpmVacationCoverage.findMany({
+      where: {
+        restoredAt: null,
+        ...(filter.originalAssignee ? { originalAssignee: filter.originalAssignee } : {}),
+        ...(filter.activeAt ? { vacationStart: { lte: filter.activeAt }, vacationEnd: { gt: filter.activeAt } } : {}),
+        ...(filter.endedBefore ? { vacationEnd: { lte: filter.endedBefore } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+    return rows.map(toCoverage);
+  }
+
+  async saveCoverage(coverage: VacationCoverageRecord) {
+    const data = {
+      coveringAssignee: coverage.coveringAssignee,
+      vacationStart: coverage.vacationStart,
+      vacationEnd: coverage.vacationEnd,
+      autoReassign: coverage.autoReassign,
+      restoredAt: coverage.restoredAt ?? null,
+    };
+    const row = await prisma.bpmVacationCoverage.upsert({
+      where: { id: coverage.id },
+      create: { id: coverage.id, tenantId: tenantOf(coverage), originalAssignee: coverage.originalAssignee, ...data },
+      update: data,
+    });
+    return toCoverage(row);
+  }
+
+  async getMatrix(id: string) {
+    const row = await prisma.bpmApprovalMatrix.findUnique({ where: { id } });
+    return row ? toMatrix(row) : undefined;
+  }
+
+  async saveMatrix(matrix: ApprovalMatrix) {
+    const row = await prisma.bpmApprovalMatrix.upsert({
+      where: { id: matrix.id },
+      create: { id: matrix.id, tenantId: tenantOf(matrix), name: matrix.name, rules: json(matrix.rules) },
+      update: { name: matrix.name, rules: json(matrix.rules) },
+    });
+    return toMatrix(row);
+  }
+}
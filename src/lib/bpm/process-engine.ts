@@ -1,11 +1,22 @@
 import { z } from 'zod';
 import { logger } from '@/lib/logger';
+import { ApiError } from '@/lib/api/error-responses';
+import { MemoryProcessStore, ProcessStore } from './process-store';
+import { PrismaProcessStore } from './prisma-process-store';
 
 /**
  * Business Process Management (BPM) Engine
- * 
+ *
  * Provides process definition, task assignment, workflow orchestration,
  * escalation procedures, and delegation support.
+ *
+ * Everything the engine knows lives in a ProcessStore, so approvals in
+ * flight survive restarts. A process instance records the state of each
+ * of its steps; advancing it first reconciles those states with the tasks
+ * behind them, so a crash between two writes is repaired by the next
+ * advance. Timers are columns rather than callbacks: overdue tasks, retry
+ * backoffs, expiring delegations and ended vacations are picked up by
+ * `runTimers`, which the BPM cron calls.
  */
 
 // ============================================================================
@@ -26,6 +37,7 @@ export enum TaskStatus {
   FAILED = 'FAILED',
   ESCALATED = 'ESCALATED',
   DELEGATED = 'DELEGATED',
+  CANCELLED = 'CANCELLED',
 }
 
 export enum EscalationLevel {
@@ -35,8 +47,17 @@ export enum EscalationLevel {
   CRITICAL = 'CRITICAL',
 }
 
+export enum InstanceStatus {
+  RUNNING = 'RUNNING',
+  SUSPENDED = 'SUSPENDED',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+  CANCELLED = 'CANCELLED',
+}
+
 export interface ProcessDefinition {
   id: string;
+  tenantId?: string;
   name: string;
   description?: string;
   version: string;
@@ -60,6 +81,7 @@ export interface ProcessStep {
   conditions?: ProcessCondition[];
   nextSteps?: string[];
   retryPolicy?: RetryPolicy;
+  escalateTo?: string[]; // assignee at LEVEL_2, LEVEL_3 and CRITICAL
 }
 
 export interface ProcessCondition {
@@ -85,8 +107,11 @@ export interface ProcessRule {
 
 export interface Task {
   id: string;
+  tenantId?: string;
   processId: string;
+  instanceId?: string;
   stepId: string;
+  attempt?: number;
   status: TaskStatus;
   assignee: string;
   assigneeRole?: string;
@@ -94,10 +119,12 @@ export interface Task {
   delegatedTo?: string;
   dueDate?: Date;
   completedAt?: Date;
+  completedBy?: string;
   escalationLevel: EscalationLevel;
   escalationHistory: EscalationRecord[];
   vacationCoverage?: VacationCoverage;
   metadata?: Record<string, any>;
+  output?: Record<string, any>;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -119,8 +146,15 @@ export interface VacationCoverage {
   autoReassign: boolean;
 }
 
+export interface VacationCoverageRecord extends VacationCoverage {
+  id: string;
+  tenantId?: string;
+  restoredAt?: Date;
+}
+
 export interface DelegationRecord {
   id: string;
+  tenantId?: string;
   taskId: string;
   fromUser: string;
   toUser: string;
@@ -132,6 +166,7 @@ export interface DelegationRecord {
 
 export interface ApprovalMatrix {
   id: string;
+  tenantId?: string;
   name: string;
   rules: ApprovalRule[];
   createdAt: Date;
@@ -147,6 +182,47 @@ export interface ApprovalRule {
   escalationTime?: number; // minutes
 }
 
+export type StepState = 'ACTIVE' | 'COMPLETED' | 'SKIPPED' | 'FAILED' | 'RETRYING';
+
+export interface StepRecord {
+  status: StepState;
+  attempts: number;
+  taskId?: string;
+  retryAt?: Date;
+  updatedAt: Date;
+}
+
+export interface ProcessInstance {
+  id: string;
+  tenantId?: string;
+  processId: string;
+  processVersion: string;
+  businessKey?: string;
+  status: InstanceStatus;
+  variables: Record<string, any>;
+  steps: Record<string, StepRecord>;
+  startedBy?: string;
+  error?: string;
+  wakeAt?: Date;
+  startedAt: Date;
+  completedAt?: Date;
+  updatedAt: Date;
+}
+
+export interface InstanceEvent {
+  id: string;
+  tenantId?: string;
+  instanceId: string;
+  type: string;
+  stepId?: string;
+  taskId?: string;
+  actor?: string;
+  fromStatus?: string;
+  toStatus?: string;
+  details?: Record<string, any>;
+  createdAt: Date;
+}
+
 // ============================================================================
 // Validation Schemas
 // ============================================================================
@@ -178,21 +254,172 @@ export const TaskSchema = z.object({
   escalationLevel: z.nativeEnum(EscalationLevel),
 });
 
+// ============================================================================
+// State Machine
+// ============================================================================
+
+const INSTANCE_TRANSITIONS: Record<InstanceStatus, InstanceStatus[]> = {
+  [InstanceStatus.RUNNING]: [InstanceStatus.SUSPENDED, InstanceStatus.COMPLETED, InstanceStatus.FAILED, InstanceStatus.CANCELLED],
+  [InstanceStatus.SUSPENDED]: [InstanceStatus.RUNNING, InstanceStatus.CANCELLED],
+  [InstanceStatus.FAILED]: [InstanceStatus.RUNNING, InstanceStatus.CANCELLED],
+  [InstanceStatus.COMPLETED]: [],
+  [InstanceStatus.CANCELLED]: [],
+};
+
+const OPEN_TASK_STATUSES = [TaskStatus.PENDING, TaskStatus.IN_PROGRESS, TaskStatus.ESCALATED, TaskStatus.DELEGATED];
+
+const ESCALATION_ORDER = [EscalationLevel.LEVEL_1, EscalationLevel.LEVEL_2, EscalationLevel.LEVEL_3, EscalationLevel.CRITICAL];
+
+export function canTransition(from: InstanceStatus, to: InstanceStatus): boolean {
+  return INSTANCE_TRANSITIONS[from]?.includes(to) ?? false;
+}
+
+/**
+ * The level an overdue task escalates to, or null once it is critical
+ */
+export function nextEscalationLevel(level: EscalationLevel): EscalationLevel | null {
+  return ESCALATION_ORDER[ESCALATION_ORDER.indexOf(level) + 1] ?? null;
+}
+
+/**
+ * Delay before retrying a step that failed `attempts` times
+ */
+export function retryDelayMs(policy: RetryPolicy, attempts: number): number {
+  return Math.round(policy.initialDelayMs * Math.pow(policy.backoffMultiplier || 1, Math.max(0, attempts - 1)));
+}
+
+/**
+ * Evaluate a condition
+ */
+export function evaluateCondition(field: string, operator: string, value: any, data: Record<string, any>): boolean {
+  const fieldValue = data[field];
+
+  switch (operator) {
+    case 'equals':
+      return fieldValue === value;
+    case 'notEquals':
+      return fieldValue !== value;
+    case 'greaterThan':
+      return fieldValue > value;
+    case 'lessThan':
+      return fieldValue < value;
+    case 'contains':
+      return String(fieldValue).includes(String(value));
+    case 'in':
+      return Array.isArray(value) && value.includes(fieldValue);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Approvers every matching rule of a matrix routes the data to
+ */
+export function evaluateApprovalMatrix(matrix: Pick<ApprovalMatrix, 'rules'>, data: Record<string, any>): string[] {
+  const approvers = new Set<string>();
+
+  for (const rule of matrix.rules) {
+    if (evaluateCondition(rule.field, rule.operator, rule.value, data)) {
+      rule.approvers.forEach((a) => approvers.add(a));
+    }
+  }
+
+  return Array.from(approvers);
+}
+
+export interface InstancePlan {
+  steps: Record<string, StepRecord>;
+  activated: string[]; // TASK steps that need a task
+  completed: string[]; // Automatic steps passed through
+  skipped: string[];
+  status: InstanceStatus;
+  wakeAt: Date | null;
+}
+
+/**
+ * Work out which steps an instance moves into from the state of its steps.
+ *
+ * A step is reached once its dependencies are completed or skipped and, if
+ * other steps lead to it through `nextSteps`, all of those are settled and
+ * at least one completed. A reached step whose conditions fail on the
+ * instance variables is skipped, as is one none of its predecessors
+ * completed. TASK steps wait for a person; DECISION, PARALLEL and LOOP
+ * steps complete as soon as they are reached, their successors' conditions
+ * choosing the branch. Each step runs once per instance, apart from retries.
+ */
+export function planInstance(
+  definition: Pick<ProcessDefinition, 'steps'>,
+  current: Record<string, StepRecord>,
+  variables: Record<string, any>,
+  now: Date = new Date()
+): InstancePlan {
+  const steps: Record<string, StepRecord> = { ...current };
+  const plan: InstancePlan = { steps, activated: [], completed: [], skipped: [], status: InstanceStatus.RUNNING, wakeAt: null };
+  const settled = (stepId: string) => steps[stepId]?.status === 'COMPLETED' || steps[stepId]?.status === 'SKIPPED';
+  const predecessors = (stepId: string) => definition.steps.filter((s) => s.nextSteps?.includes(stepId));
+
+  let progressed = true;
+  while (progressed) {
+    progressed = false;
+    for (const step of definition.steps) {
+      const record = steps[step.id];
+      if (record?.status === 'RETRYING' && record.retryAt && record.retryAt <= now) {
+        steps[step.id] = { status: 'ACTIVE', attempts: record.attempts + 1, updatedAt: now };
+        plan.activated.push(step.id);
+        progressed = true;
+        continue;
+      }
+      if (record) continue;
+
+      if (!(step.dependencies ?? []).every(settled)) continue;
+      const from = predecessors(step.id);
+      if (!from.every((s) => settled(s.id))) continue;
+
+      const reached = from.length === 0 || from.some((s) => steps[s.id].status === 'COMPLETED');
+      const passes = reached && (step.conditions ?? []).every((c) => evaluateCondition(c.field, c.operator, c.value, variables));
+      progressed = true;
+
+      if (!passes) {
+        steps[step.id] = { status: 'SKIPPED', attempts: 0, updatedAt: now };
+        plan.skipped.push(step.id);
+      } else if (step.type === 'TASK') {
+        steps[step.id] = { status: 'ACTIVE', attempts: 1, updatedAt: now };
+        plan.activated.push(step.id);
+      } else {
+        steps[step.id] = { status: 'COMPLETED', attempts: 1, updatedAt: now };
+        plan.completed.push(step.id);
+      }
+    }
+  }
+
+  const records = Object.values(steps);
+  const retries = records.filter((r) => r.status === 'RETRYING' && r.retryAt).map((r) => r.retryAt!.getTime());
+  plan.wakeAt = retries.length ? new Date(Math.min(...retries)) : null;
+
+  if (records.some((r) => r.status === 'FAILED')) {
+    plan.status = InstanceStatus.FAILED;
+  } else if (!records.some((r) => r.status === 'ACTIVE' || r.status === 'RETRYING')) {
+    plan.status = InstanceStatus.COMPLETED;
+  }
+
+  return plan;
+}
+
+function newId(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
 // ============================================================================
 // Process Engine
 // ============================================================================
 
 export class ProcessEngine {
-  private processes = new Map<string, ProcessDefinition>();
-  private tasks = new Map<string, Task>();
-  private delegations = new Map<string, DelegationRecord>();
-  private approvalMatrices = new Map<string, ApprovalMatrix>();
-  private escalationTimers = new Map<string, NodeJS.Timeout>();
+  constructor(private store: ProcessStore = new MemoryProcessStore()) {}
 
   /**
    * Create a new process definition
    */
-  createProcessDefinition(definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'>): ProcessDefinition {
+  async createProcessDefinition(definition: Omit<ProcessDefinition, 'createdAt' | 'updatedAt'>): Promise<ProcessDefinition> {
     const processDef: ProcessDefinition = {
       ...definition,
       createdAt: new Date(),
@@ -202,58 +429,255 @@ export class ProcessEngine {
     // Validate process definition
     const validation = ProcessDefinitionSchema.safeParse(processDef);
     if (!validation.success) {
-      throw new Error(`Invalid process definition: ${validation.error.message}`);
+      throw new ApiError('INVALID_DEFINITION', `Invalid process definition: ${validation.error.message}`, 400);
+    }
+    this.assertStepReferences(processDef);
+
+    if (await this.store.getDefinition(definition.id)) {
+      throw new ApiError('DUPLICATE', `Process definition already exists: ${definition.id}`, 409);
     }
 
-    this.processes.set(definition.id, processDef);
+    const saved = await this.store.saveDefinition(processDef);
     logger.info('Process definition created', { processId: definition.id });
 
-    return processDef;
+    return saved;
   }
 
   /**
    * Get a process definition
    */
-  getProcessDefinition(processId: string): ProcessDefinition | undefined {
-    return this.processes.get(processId);
+  async getProcessDefinition(processId: string): Promise<ProcessDefinition | undefined> {
+    return this.store.getDefinition(processId);
   }
 
   /**
    * List all process definitions
    */
-  listProcessDefinitions(status?: ProcessStatus): ProcessDefinition[] {
-    const definitions = Array.from(this.processes.values());
-    if (status) {
-      return definitions.filter((d) => d.status === status);
-    }
-    return definitions;
+  async listProcessDefinitions(status?: ProcessStatus): Promise<ProcessDefinition[]> {
+    return this.store.listDefinitions(status);
   }
 
   /**
-   * Update a process definition
+   * Update a process definition. Running instances keep following the steps
+   * as they now stand.
    */
-  updateProcessDefinition(processId: string, updates: Partial<ProcessDefinition>): ProcessDefinition {
-    const existing = this.processes.get(processId);
+  async updateProcessDefinition(processId: string, updates: Partial<ProcessDefinition>): Promise<ProcessDefinition> {
+    const existing = await this.store.getDefinition(processId);
     if (!existing) {
-      throw new Error(`Process definition not found: ${processId}`);
+      throw new ApiError('NOT_FOUND', `Process definition not found: ${processId}`, 404);
     }
 
     const updated: ProcessDefinition = {
       ...existing,
       ...updates,
+      id: existing.id,
+      tenantId: existing.tenantId,
       updatedAt: new Date(),
     };
+    this.assertStepReferences(updated);
 
-    this.processes.set(processId, updated);
+    const saved = await this.store.saveDefinition(updated);
     logger.info('Process definition updated', { processId });
 
-    return updated;
+    return saved;
+  }
+
+  /**
+   * Start an instance of an active process and open its first steps
+   */
+  async startProcess(
+    processId: string,
+    options?: {
+      variables?: Record<string, any>;
+      businessKey?: string;
+      startedBy?: string;
+    }
+  ): Promise<ProcessInstance> {
+    const process = await this.store.getDefinition(processId);
+    if (!process) {
+      throw new ApiError('NOT_FOUND', `Process not found: ${processId}`, 404);
+    }
+    if (process.status !== ProcessStatus.ACTIVE) {
+      throw new ApiError('INVALID_STATE', `Process ${processId} is ${process.status.toLowerCase()}`, 409);
+    }
+
+    const now = new Date();
+    const instance: ProcessInstance = {
+      id: newId('inst'),
+      tenantId: process.tenantId,
+      processId,
+      processVersion: process.version,
+      businessKey: options?.businessKey,
+      status: InstanceStatus.RUNNING,
+      variables: options?.variables ?? {},
+      steps: {},
+      startedBy: options?.startedBy,
+      wakeAt: now,
+      startedAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.saveInstance(instance);
+    await this.recordEvent(instance, { type: 'STARTED', actor: options?.startedBy, toStatus: InstanceStatus.RUNNING });
+    logger.info('Process instance started', { processId, instanceId: instance.id });
+
+    return this.advanceInstance(instance.id, now);
+  }
+
+  /**
+   * Get a process instance
+   */
+  async getProcessInstance(instanceId: string): Promise<ProcessInstance | undefined> {
+    return this.store.getInstance(instanceId);
+  }
+
+  /**
+   * List process instances, newest first
+   */
+  async listProcessInstances(filter: { processId?: string; status?: InstanceStatus; limit?: number } = {}): Promise<ProcessInstance[]> {
+    return this.store.listInstances({
+      processId: filter.processId,
+      statuses: filter.status ? [filter.status] : undefined,
+      limit: filter.limit,
+    });
+  }
+
+  /**
+   * Everything that happened to an instance, oldest first
+   */
+  async getInstanceHistory(instanceId: string): Promise<InstanceEvent[]> {
+    return this.store.listEvents(instanceId);
+  }
+
+  /**
+   * Bring a running instance up to date with its tasks and open the steps
+   * that became reachable. Safe to repeat: a step whose task is missing gets
+   * it, and tasks already opened are reused.
+   */
+  async advanceInstance(instanceId: string, now: Date = new Date()): Promise<ProcessInstance> {
+    const instance = await this.store.getInstance(instanceId);
+    if (!instance) {
+      throw new ApiError('NOT_FOUND', `Process instance not found: ${instanceId}`, 404);
+    }
+    if (instance.status !== InstanceStatus.RUNNING) return instance;
+
+    const process = await this.store.getDefinition(instance.processId);
+    if (!process) {
+      throw new ApiError('NOT_FOUND', `Process not found: ${instance.processId}`, 404);
+    }
+
+    // Claimed until the end of the advance, so the timer cron resumes it if we crash
+    let current: ProcessInstance = { ...instance, wakeAt: now, updatedAt: now };
+    await this.store.saveInstance(current);
+
+    const steps = { ...current.steps };
+    const variables = { ...current.variables };
+    for (const [stepId, record] of Object.entries(steps)) {
+      if (record.status !== 'ACTIVE' || !record.taskId) continue;
+      const task = await this.store.getTask(record.taskId);
+      if (!task) {
+        steps[stepId] = { ...record, taskId: undefined };
+      } else if (task.status === TaskStatus.COMPLETED) {
+        steps[stepId] = { ...record, status: 'COMPLETED', updatedAt: now };
+        Object.assign(variables, task.output ?? {});
+        await this.recordEvent(current, { type: 'STEP_COMPLETED', stepId, taskId: task.id, actor: task.completedBy });
+      } else if (task.status === TaskStatus.FAILED) {
+        const policy = process.steps.find((s) => s.id === stepId)?.retryPolicy;
+        if (policy && record.attempts <= policy.maxRetries) {
+          const retryAt = new Date(now.getTime() + retryDelayMs(policy, record.attempts));
+          steps[stepId] = { ...record, status: 'RETRYING', retryAt, updatedAt: now };
+          await this.recordEvent(current, { type: 'STEP_RETRY_SCHEDULED', stepId, taskId: task.id, details: { attempt: record.attempts, retryAt } });
+        } else {
+          steps[stepId] = { ...record, status: 'FAILED', updatedAt: now };
+          await this.recordEvent(current, { type: 'STEP_FAILED', stepId, taskId: task.id, actor: task.completedBy });
+        }
+      }
+    }
+
+    const plan = planInstance(process, steps, variables, now);
+    for (const stepId of plan.completed) await this.recordEvent(current, { type: 'STEP_COMPLETED', stepId, actor: 'system' });
+    for (const stepId of plan.skipped) await this.recordEvent(current, { type: 'STEP_SKIPPED', stepId });
+
+    // Record the step as active before opening its task; a crash in between
+    // leaves an active step without a task, which the next advance repairs
+    current = { ...current, variables, steps: plan.steps };
+    await this.store.saveInstance(current);
+
+    for (const [stepId, record] of Object.entries(plan.steps)) {
+      if (record.status !== 'ACTIVE' || record.taskId) continue;
+      const step = process.steps.find((s) => s.id === stepId);
+      if (!step) continue;
+      const task = await this.openStepTask(process, current, step, record.attempts, now);
+      plan.steps[stepId] = { ...record, taskId: task.id };
+      await this.recordEvent(current, { type: 'STEP_ACTIVATED', stepId, taskId: task.id, details: { assignee: task.assignee, attempt: record.attempts } });
+    }
+
+    const finished = plan.status !== InstanceStatus.RUNNING;
+    current = {
+      ...current,
+      steps: plan.steps,
+      status: plan.status,
+      wakeAt: plan.wakeAt ?? undefined,
+      error: plan.status === InstanceStatus.FAILED ? `Step failed: ${Object.keys(plan.steps).filter((id) => plan.steps[id].status === 'FAILED').join(', ')}` : undefined,
+      completedAt: finished ? now : undefined,
+      updatedAt: now,
+    };
+    await this.store.saveInstance(current);
+
+    if (finished) {
+      await this.recordEvent(current, { type: plan.status, fromStatus: InstanceStatus.RUNNING, toStatus: plan.status });
+      logger.info('Process instance finished', { instanceId, status: plan.status });
+    }
+
+    return current;
+  }
+
+  /**
+   * Hold a running instance; its open tasks stay with their assignees
+   */
+  async suspendInstance(instanceId: string, actor: string, reason?: string): Promise<ProcessInstance> {
+    return this.transitionInstance(instanceId, InstanceStatus.SUSPENDED, actor, { reason });
+  }
+
+  /**
+   * Resume a suspended instance and catch up on tasks finished meanwhile
+   */
+  async resumeInstance(instanceId: string, actor: string): Promise<ProcessInstance> {
+    await this.transitionInstance(instanceId, InstanceStatus.RUNNING, actor);
+    return this.advanceInstance(instanceId);
+  }
+
+  /**
+   * Cancel an instance that has not finished, withdrawing its open tasks
+   */
+  async cancelInstance(instanceId: string, actor: string, reason?: string): Promise<ProcessInstance> {
+    const cancelled = await this.transitionInstance(instanceId, InstanceStatus.CANCELLED, actor, { reason });
+    for (const task of await this.store.listTasks({ instanceId, statuses: OPEN_TASK_STATUSES })) {
+      await this.store.saveTask({ ...task, status: TaskStatus.CANCELLED, updatedAt: new Date() });
+    }
+    return cancelled;
+  }
+
+  /**
+   * Run the failed steps of a failed instance again
+   */
+  async retryInstance(instanceId: string, actor: string): Promise<ProcessInstance> {
+    const now = new Date();
+    const instance = await this.transitionInstance(instanceId, InstanceStatus.RUNNING, actor);
+    const steps = Object.fromEntries(
+      Object.entries(instance.steps).map(([stepId, record]) => [
+        stepId,
+        record.status === 'FAILED' ? { ...record, status: 'RETRYING' as StepState, retryAt: now, updatedAt: now } : record,
+      ])
+    );
+    await this.store.saveInstance({ ...instance, steps, error: undefined, updatedAt: now });
+    return this.advanceInstance(instanceId, now);
   }
 
   /**
    * Create a task from a process step
    */
-  createTask(
+  async createTask(
     processId: string,
     stepId: string,
     assignee: string,
@@ -262,88 +686,76 @@ export class ProcessEngine {
       metadata?: Record<string, any>;
       assigneeRole?: string;
     }
-  ): Task {
-    const process = this.getProcessDefinition(processId);
+  ): Promise<Task> {
+    const process = await this.getProcessDefinition(processId);
     if (!process) {
-      throw new Error(`Process not found: ${processId}`);
+      throw new ApiError('NOT_FOUND', `Process not found: ${processId}`, 404);
     }
 
     const step = process.steps.find((s) => s.id === stepId);
     if (!step) {
-      throw new Error(`Step not found: ${stepId}`);
+      throw new ApiError('NOT_FOUND', `Step not found: ${stepId}`, 404);
     }
 
-    const taskId = `task-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
-    const task: Task = {
-      id: taskId,
+    return this.saveNewTask({
+      id: newId('task'),
+      tenantId: process.tenantId,
       processId,
       stepId,
-      status: TaskStatus.PENDING,
       assignee,
       assigneeRole: options?.assigneeRole,
-      escalationLevel: EscalationLevel.LEVEL_1,
-      escalationHistory: [],
       dueDate: options?.dueDate,
       metadata: options?.metadata,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-
-    this.tasks.set(taskId, task);
-    logger.info('Task created', { taskId, processId, stepId, assignee });
-
-    // Set escalation timer if due date is set
-    if (options?.dueDate) {
-      this.setEscalationTimer(taskId, options.dueDate);
-    }
-
-    return task;
+    });
   }
 
   /**
    * Get a task
    */
-  getTask(taskId: string): Task | undefined {
-    return this.tasks.get(taskId);
+  async getTask(taskId: string): Promise<Task | undefined> {
+    return this.store.getTask(taskId);
   }
 
   /**
    * List tasks by assignee
    */
-  listTasksByAssignee(assignee: string, status?: TaskStatus): Task[] {
-    const tasks = Array.from(this.tasks.values()).filter(
-      (t) => t.assignee === assignee || t.delegatedTo === assignee
-    );
-
-    if (status) {
-      return tasks.filter((t) => t.status === status);
-    }
-
-    return tasks;
+  async listTasksByAssignee(assignee: string, status?: TaskStatus): Promise<Task[]> {
+    return this.store.listTasks({ assignee, statuses: status ? [status] : undefined });
   }
 
   /**
-   * Update task status
+   * Update task status. Finishing a task of a process instance advances the
+   * instance; `output` is merged into its variables for later conditions.
    */
-  updateTaskStatus(taskId: string, status: TaskStatus, completedBy?: string): Task {
-    const task = this.getTask(taskId);
+  async updateTaskStatus(taskId: string, status: TaskStatus, completedBy?: string, output?: Record<string, any>): Promise<Task> {
+    const task = await this.getTask(taskId);
     if (!task) {
-      throw new Error(`Task not found: ${taskId}`);
+      throw new ApiError('NOT_FOUND', `Task not found: ${taskId}`, 404);
     }
 
+    const finished = status === TaskStatus.COMPLETED || status === TaskStatus.FAILED;
     const updated: Task = {
       ...task,
       status,
       completedAt: status === TaskStatus.COMPLETED ? new Date() : task.completedAt,
+      completedBy: finished ? completedBy : task.completedBy,
+      output: output ? { ...task.output, ...output } : task.output,
       updatedAt: new Date(),
     };
 
-    this.tasks.set(taskId, updated);
+    // Wake the instance first, so the timer cron advances it if we stop in between
+    if (finished && task.instanceId) {
+      const instance = await this.store.getInstance(task.instanceId);
+      if (instance?.status === InstanceStatus.RUNNING) {
+        await this.store.saveInstance({ ...instance, wakeAt: updated.updatedAt });
+      }
+    }
+
+    await this.store.saveTask(updated);
     logger.info('Task status updated', { taskId, status, completedBy });
 
-    // Clear escalation timer if task is completed
-    if (status === TaskStatus.COMPLETED) {
-      this.clearEscalationTimer(taskId);
+    if (finished && task.instanceId) {
+      await this.advanceInstance(task.instanceId);
     }
 
     return updated;
@@ -352,7 +764,7 @@ export class ProcessEngine {
   /**
    * Delegate a task to another user
    */
-  delegateTask(
+  async delegateTask(
     taskId: string,
     fromUser: string,
     toUser: string,
@@ -361,19 +773,19 @@ export class ProcessEngine {
       expiresAt?: Date;
       autoReturn?: boolean;
     }
-  ): DelegationRecord {
-    const task = this.getTask(taskId);
+  ): Promise<DelegationRecord> {
+    const task = await this.getTask(taskId);
     if (!task) {
-      throw new Error(`Task not found: ${taskId}`);
+      throw new ApiError('NOT_FOUND', `Task not found: ${taskId}`, 404);
     }
 
     if (task.assignee !== fromUser) {
-      throw new Error(`User ${fromUser} is not the current assignee`);
+      throw new ApiError('NOT_ASSIGNEE', `User ${fromUser} is not the current assignee`, 403);
     }
 
-    const delegationId = `deleg-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
     const delegation: DelegationRecord = {
-      id: delegationId,
+      id: newId('deleg'),
+      tenantId: task.tenantId,
       taskId,
       fromUser,
       toUser,
@@ -383,7 +795,7 @@ export class ProcessEngine {
       autoReturn: options?.autoReturn ?? true,
     };
 
-    this.delegations.set(delegationId, delegation);
+    await this.store.saveDelegation(delegation);
 
     // Update task
     const updated: Task = {
@@ -394,8 +806,8 @@ export class ProcessEngine {
       updatedAt: new Date(),
     };
 
-    this.tasks.set(taskId, updated);
-    logger.info('Task delegated', { taskId, fromUser, toUser, delegationId });
+    await this.store.saveTask(updated);
+    logger.info('Task delegated', { taskId, fromUser, toUser, delegationId: delegation.id });
 
     return delegation;
   }
@@ -403,15 +815,15 @@ export class ProcessEngine {
   /**
    * Return a delegated task
    */
-  returnDelegatedTask(delegationId: string): Task {
-    const delegation = this.delegations.get(delegationId);
+  async returnDelegatedTask(delegationId: string): Promise<Task> {
+    const delegation = await this.store.getDelegation(delegationId);
     if (!delegation) {
-      throw new Error(`Delegation not found: ${delegationId}`);
+      throw new ApiError('NOT_FOUND', `Delegation not found: ${delegationId}`, 404);
     }
 
-    const task = this.getTask(delegation.taskId);
+    const task = await this.getTask(delegation.taskId);
     if (!task) {
-      throw new Error(`Task not found: ${delegation.taskId}`);
+      throw new ApiError('NOT_FOUND', `Task not found: ${delegation.taskId}`, 404);
     }
 
     const updated: Task = {
@@ -423,40 +835,47 @@ export class ProcessEngine {
       updatedAt: new Date(),
     };
 
-    this.tasks.set(delegation.taskId, updated);
-    this.delegations.delete(delegationId);
+    await this.store.saveTask(updated);
+    await this.store.closeDelegation(delegationId, new Date());
     logger.info('Delegated task returned', { taskId: delegation.taskId, delegationId });
 
     return updated;
   }
 
   /**
-   * Setup vacation coverage for a user
+   * Setup vacation coverage for a user. Their pending tasks move to the
+   * covering assignee now, tasks opened for them during the vacation go
+   * there too, and with `autoReassign` the timer run hands the tasks back
+   * once the vacation ends.
    */
-  setupVacationCoverage(
+  async setupVacationCoverage(
     assignee: string,
     coveringAssignee: string,
     vacationStart: Date,
     vacationEnd: Date,
-    autoReassign: boolean = true
-  ): void {
-    const userTasks = this.listTasksByAssignee(assignee, TaskStatus.PENDING);
+    autoReassign: boolean = true,
+    tenantId?: string
+  ): Promise<void> {
+    const coverage: VacationCoverage = {
+      originalAssignee: assignee,
+      coveringAssignee,
+      vacationStart,
+      vacationEnd,
+      autoReassign,
+    };
+    await this.store.saveCoverage({ ...coverage, id: newId('cover'), tenantId });
+
+    const userTasks = await this.listTasksByAssignee(assignee, TaskStatus.PENDING);
 
     for (const task of userTasks) {
       const updated: Task = {
         ...task,
-        vacationCoverage: {
-          originalAssignee: assignee,
-          coveringAssignee,
-          vacationStart,
-          vacationEnd,
-          autoReassign,
-        },
+        vacationCoverage: coverage,
         assignee: coveringAssignee,
         updatedAt: new Date(),
       };
 
-      this.tasks.set(task.id, updated);
+      await this.store.saveTask(updated);
     }
 
     logger.info('Vacation coverage setup', {
@@ -468,158 +887,136 @@ export class ProcessEngine {
   }
 
   /**
-   * Escalate a task
+   * Escalate a task. The SLA clock restarts from now for the step's
+   * duration, so an escalated task that stays untouched escalates again.
    */
-  escalateTask(
+  async escalateTask(
     taskId: string,
     toLevel: EscalationLevel,
     reason: string,
     escalatedBy: string,
     escalatedTo: string
-  ): Task {
-    const task = this.getTask(taskId);
+  ): Promise<Task> {
+    const task = await this.getTask(taskId);
     if (!task) {
-      throw new Error(`Task not found: ${taskId}`);
+      throw new ApiError('NOT_FOUND', `Task not found: ${taskId}`, 404);
     }
 
-    const escalationRecord: EscalationRecord = {
-      timestamp: new Date(),
-      fromLevel: task.escalationLevel,
-      toLevel,
-      reason,
-      escalatedBy,
-      escalatedTo,
-    };
-
-    const updated: Task = {
-      ...task,
-      escalationLevel: toLevel,
-      status: TaskStatus.ESCALATED,
-      escalationHistory: [...task.escalationHistory, escalationRecord],
-      assignee: escalatedTo,
-      updatedAt: new Date(),
-    };
-
-    this.tasks.set(taskId, updated);
-    logger.info('Task escalated', { taskId, toLevel, reason, escalatedBy, escalatedTo });
-
-    return updated;
+    return this.escalate(task, toLevel, reason, escalatedBy, escalatedTo, new Date());
   }
 
   /**
    * Create an approval matrix
    */
-  createApprovalMatrix(matrix: Omit<ApprovalMatrix, 'createdAt' | 'updatedAt'>): ApprovalMatrix {
+  async createApprovalMatrix(matrix: Omit<ApprovalMatrix, 'createdAt' | 'updatedAt'>): Promise<ApprovalMatrix> {
     const approvalMatrix: ApprovalMatrix = {
       ...matrix,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
 
-    this.approvalMatrices.set(matrix.id, approvalMatrix);
+    const saved = await this.store.saveMatrix(approvalMatrix);
     logger.info('Approval matrix created', { matrixId: matrix.id });
 
-    return approvalMatrix;
+    return saved;
   }
 
   /**
    * Get approval matrix
    */
-  getApprovalMatrix(matrixId: string): ApprovalMatrix | undefined {
-    return this.approvalMatrices.get(matrixId);
+  async getApprovalMatrix(matrixId: string): Promise<ApprovalMatrix | undefined> {
+    return this.store.getMatrix(matrixId);
   }
 
   /**
    * Evaluate approval rules
    */
-  evaluateApprovalRules(matrixId: string, data: Record<string, any>): string[] {
-    const matrix = this.getApprovalMatrix(matrixId);
+  async evaluateApprovalRules(matrixId: string, data: Record<string, any>): Promise<string[]> {
+    const matrix = await this.getApprovalMatrix(matrixId);
     if (!matrix) {
-      throw new Error(`Approval matrix not found: ${matrixId}`);
-    }
-
-    const approvers = new Set<string>();
-
-    for (const rule of matrix.rules) {
-      if (this.evaluateCondition(rule.field, rule.operator, rule.value, data)) {
-        rule.approvers.forEach((a) => approvers.add(a));
-      }
+      throw new ApiError('NOT_FOUND', `Approval matrix not found: ${matrixId}`, 404);
     }
 
-    return Array.from(approvers);
+    return evaluateApprovalMatrix(matrix, data);
   }
 
   /**
-   * Set escalation timer
+   * Fire every timer that is due: escalate overdue tasks a level (to the
+   * step's `escalateTo` assignee for that level, else the current one),
+   * return expired delegations, hand tasks back after vacations and advance
+   * instances whose retry backoff elapsed or whose last advance never
+   * finished. Each item is handled on its own so one failure does not hold
+   * up the rest.
    */
-  private setEscalationTimer(taskId: string, dueDate: Date): void {
-    const now = new Date();
-    const timeUntilDue = dueDate.getTime() - now.getTime();
-
-    if (timeUntilDue > 0) {
-      const timer = setTimeout(() => {
-        const task = this.getTask(taskId);
-        if (task && task.status !== TaskStatus.COMPLETED) {
-          this.escalateTask(
-            taskId,
-            EscalationLevel.LEVEL_2,
-            'Task overdue',
-            'system',
-            task.assignee
-          );
-        }
-      }, timeUntilDue);
+  async runTimers(now: Date = new Date()) {
+    const results = { escalated: 0, delegationsReturned: 0, coverageEnded: 0, instancesAdvanced: 0, failed: 0 };
+
+    const overdue = await this.store.listTasks({ statuses: OPEN_TASK_STATUSES, dueBefore: now });
+    for (const task of overdue) {
+      const toLevel = nextEscalationLevel(task.escalationLevel);
+      if (!toLevel) continue;
+      try {
+        const step = (await this.getProcessDefinition(task.processId))?.steps.find((s) => s.id === task.stepId);
+        const escalatedTo = step?.escalateTo?.[ESCALATION_ORDER.indexOf(toLevel) - 1] ?? task.assignee;
+        await this.escalate(task, toLevel, 'SLA breached', 'system', escalatedTo, now);
+        results.escalated++;
+      } catch (error) {
+        results.failed++;
+        logger.error('Task escalation failed', { taskId: task.id, error: String(error) });
+      }
+    }
 
-      this.escalationTimers.set(taskId, timer);
+    for (const delegation of await this.store.listDelegations({ expiresBefore: now })) {
+      if (!delegation.autoReturn) continue;
+      try {
+        await this.returnDelegatedTask(delegation.id);
+        results.delegationsReturned++;
+      } catch (error) {
+        results.failed++;
+        logger.error('Delegation return failed', { delegationId: delegation.id, error: String(error) });
+      }
     }
-  }
 
-  /**
-   * Clear escalation timer
-   */
-  private clearEscalationTimer(taskId: string): void {
-    const timer = this.escalationTimers.get(taskId);
-    if (timer) {
-      clearTimeout(timer);
-      this.escalationTimers.delete(taskId);
+    for (const coverage of await this.store.listCoverage({ endedBefore: now })) {
+      try {
+        if (coverage.autoReassign) {
+          const covered = await this.store.listTasks({ assignee: coverage.coveringAssignee, statuses: OPEN_TASK_STATUSES });
+          for (const task of covered.filter((t) => t.vacationCoverage?.originalAssignee === coverage.originalAssignee)) {
+            await this.store.saveTask({ ...task, assignee: coverage.originalAssignee, vacationCoverage: undefined, updatedAt: now });
+          }
+        }
+        await this.store.saveCoverage({ ...coverage, restoredAt: now });
+        results.coverageEnded++;
+      } catch (error) {
+        results.failed++;
+        logger.error('Vacation coverage reset failed', { coverageId: coverage.id, error: String(error) });
+      }
     }
-  }
 
-  /**
-   * Evaluate a condition
-   */
-  private evaluateCondition(field: string, operator: string, value: any, data: Record<string, any>): boolean {
-    const fieldValue = data[field];
-
-    switch (operator) {
-      case 'equals':
-        return fieldValue === value;
-      case 'notEquals':
-        return fieldValue !== value;
-      case 'greaterThan':
-        return fieldValue > value;
-      case 'lessThan':
-        return fieldValue < value;
-      case 'contains':
-        return String(fieldValue).includes(String(value));
-      case 'in':
-        return Array.isArray(value) && value.includes(fieldValue);
-      default:
-        return false;
+    for (const instance of await this.store.listInstances({ statuses: [InstanceStatus.RUNNING], wakeBefore: now })) {
+      try {
+        await this.advanceInstance(instance.id, now);
+        results.instancesAdvanced++;
+      } catch (error) {
+        results.failed++;
+        logger.error('Process instance advance failed', { instanceId: instance.id, error: String(error) });
+      }
     }
+
+    return results;
   }
 
   /**
    * Get process statistics
    */
-  getProcessStatistics(processId: string): {
+  async getProcessStatistics(processId: string): Promise<{
     totalTasks: number;
     completedTasks: number;
     pendingTasks: number;
     escalatedTasks: number;
     averageCompletionTime: number;
-  } {
-    const processTasks = Array.from(this.tasks.values()).filter((t) => t.processId === processId);
+  }> {
+    const processTasks = await this.store.listTasks({ processId });
 
     const completed = processTasks.filter((t) => t.status === TaskStatus.COMPLETED);
     const pending = processTasks.filter((t) => t.status === TaskStatus.PENDING);
@@ -644,10 +1041,161 @@ export class ProcessEngine {
       averageCompletionTime,
     };
   }
+
+  /**
+   * Open the task for an active step. The id is derived from the instance,
+   * step and attempt so reopening after a crash finds the same task.
+   */
+  private async openStepTask(process: ProcessDefinition, instance: ProcessInstance, step: ProcessStep, attempt: number, now: Date): Promise<Task> {
+    const id = `${instance.id}:${step.id}:${attempt}`;
+    const existing = await this.store.getTask(id);
+    if (existing) return existing;
+
+    return this.saveNewTask({
+      id,
+      tenantId: process.tenantId,
+      processId: process.id,
+      instanceId: instance.id,
+      stepId: step.id,
+      attempt,
+      assignee: step.assignee ?? step.assigneeRole ?? instance.startedBy ?? 'system',
+      assigneeRole: step.assigneeRole,
+      dueDate: step.duration ? new Date(now.getTime() + step.duration * 60 * 1000) : undefined,
+      metadata: instance.businessKey ? { businessKey: instance.businessKey } : undefined,
+    });
+  }
+
+  /**
+   * Persist a new task, routing it to whoever covers the assignee's vacation
+   */
+  private async saveNewTask(
+    fields: Pick<Task, 'id' | 'tenantId' | 'processId' | 'stepId' | 'assignee'> &
+      Partial<Pick<Task, 'instanceId' | 'attempt' | 'assigneeRole' | 'dueDate' | 'metadata'>>
+  ): Promise<Task> {
+    const now = new Date();
+    const [coverage] = await this.store.listCoverage({ originalAssignee: fields.assignee, activeAt: now });
+
+    const task: Task = {
+      ...fields,
+      status: TaskStatus.PENDING,
+      assignee: coverage ? coverage.coveringAssignee : fields.assignee,
+      vacationCoverage: coverage
+        ? {
+            originalAssignee: coverage.originalAssignee,
+            coveringAssignee: coverage.coveringAssignee,
+            vacationStart: coverage.vacationStart,
+            vacationEnd: coverage.vacationEnd,
+            autoReassign: coverage.autoReassign,
+          }
+        : undefined,
+      escalationLevel: EscalationLevel.LEVEL_1,
+      escalationHistory: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.saveTask(task);
+    logger.info('Task created', { taskId: task.id, processId: task.processId, stepId: task.stepId, assignee: task.assignee });
+
+    return task;
+  }
+
+  private async escalate(
+    task: Task,
+    toLevel: EscalationLevel,
+    reason: string,
+    escalatedBy: string,
+    escalatedTo: string,
+    now: Date
+  ): Promise<Task> {
+    const escalationRecord: EscalationRecord = {
+      timestamp: now,
+      fromLevel: task.escalationLevel,
+      toLevel,
+      reason,
+      escalatedBy,
+      escalatedTo,
+    };
+
+    const step = (await this.getProcessDefinition(task.processId))?.steps.find((s) => s.id === task.stepId);
+    const updated: Task = {
+      ...task,
+      escalationLevel: toLevel,
+      status: TaskStatus.ESCALATED,
+      escalationHistory: [...task.escalationHistory, escalationRecord],
+      assignee: escalatedTo,
+      dueDate: step?.duration ? new Date(now.getTime() + step.duration * 60 * 1000) : undefined,
+      updatedAt: now,
+    };
+
+    await this.store.saveTask(updated);
+    logger.info('Task escalated', { taskId: task.id, toLevel, reason, escalatedBy, escalatedTo });
+
+    if (task.instanceId) {
+      const instance = await this.store.getInstance(task.instanceId);
+      if (instance) {
+        await this.recordEvent(instance, { type: 'TASK_ESCALATED', stepId: task.stepId, taskId: task.id, actor: escalatedBy, details: { toLevel, reason, escalatedTo } });
+      }
+    }
+
+    return updated;
+  }
+
+  private async transitionInstance(instanceId: string, to: InstanceStatus, actor: string, details?: Record<string, any>): Promise<ProcessInstance> {
+    const instance = await this.store.getInstance(instanceId);
+    if (!instance) {
+      throw new ApiError('NOT_FOUND', `Process instance not found: ${instanceId}`, 404);
+    }
+    if (!canTransition(instance.status, to)) {
+      throw new ApiError('INVALID_STATE', `A ${instance.status.toLowerCase()} instance cannot become ${to.toLowerCase()}`, 409);
+    }
+
+    const now = new Date();
+    const updated: ProcessInstance = {
+      ...instance,
+      status: to,
+      completedAt: to === InstanceStatus.CANCELLED ? now : instance.completedAt,
+      wakeAt: to === InstanceStatus.RUNNING ? instance.wakeAt : undefined,
+      updatedAt: now,
+    };
+
+    await this.store.saveInstance(updated);
+    await this.recordEvent(updated, { type: to, actor, fromStatus: instance.status, toStatus: to, details });
+    logger.info('Process instance status changed', { instanceId, from: instance.status, to, actor });
+
+    return updated;
+  }
+
+  private async recordEvent(instance: ProcessInstance, event: Omit<InstanceEvent, 'id' | 'tenantId' | 'instanceId' | 'createdAt'>): Promise<void> {
+    await this.store.appendEvent({
+      ...event,
+      id: newId('evt'),
+      tenantId: instance.tenantId,
+      instanceId: instance.id,
+      createdAt: new Date(),
+    });
+  }
+
+  private assertStepReferences(definition: ProcessDefinition): void {
+    const ids = new Set(definition.steps.map((s) => s.id));
+    for (const step of definition.steps) {
+      const unknown = [...(step.dependencies ?? []), ...(step.nextSteps ?? [])].find((id) => !ids.has(id));
+      if (unknown) {
+        throw new ApiError('INVALID_DEFINITION', `Step ${step.id} refers to unknown step ${unknown}`, 400);
+      }
+    }
+  }
 }
 
 // ============================================================================
 // Singleton Instance
 // ============================================================================
 
-export const processEngine = new ProcessEngine();
+export const processEngine = new ProcessEngine(new PrismaProcessStore());
+
+/**
+ * Cron: fire the BPM timers that are due
+ */
+export async function runProcessTimers(now: Date = new Date()) {
+  return processEngine.runTimers(now);
+}
@@ -0,0 +1,189 @@
+import type {
+  ApprovalMatrix,
+  DelegationRecord,
+  InstanceEvent,
+  InstanceStatus,
+  ProcessDefinition,
+  ProcessInstance,
+  ProcessStatus,
+  Task,
+  TaskStatus,
+  VacationCoverageRecord,
+} from './process-engine';
+
+/**
+ * Process Store
+ *
+ * Where the process engine keeps its state. The engine is written against
+ * this interface; `PrismaProcessStore` backs the application singleton and
+ * `MemoryProcessStore` backs engines created without a store, as in tests.
+ */
+
+export interface TaskFilter {
+  assignee?: string; // Assigned or delegated to
+  processId?: string;
+  instanceId?: string;
+  statuses?: TaskStatus[];
+  dueBefore?: Date;
+}
+
+export interface InstanceFilter {
+  processId?: string;
+  statuses?: InstanceStatus[];
+  wakeBefore?: Date;
+  limit?: number;
+}
+
+/**
+ * Coverage that has not been handed back yet
+ */
+export interface CoverageFilter {
+  originalAssignee?: string;
+  activeAt?: Date;
+  endedBefore?: Date;
+}
+
+export interface ProcessStore {
+  getDefinition(id: string): Promise<ProcessDefinition | undefined>;
+  listDefinitions(status?: ProcessStatus): Promise<ProcessDefinition[]>;
+  saveDefinition(definition: ProcessDefinition): Promise<ProcessDefinition>;
+
+  getInstance(id: string): Promise<ProcessInstance | undefined>;
+  listInstances(filter: InstanceFilter): Promise<ProcessInstance[]>;
+  saveInstance(instance: ProcessInstance): Promise<ProcessInstance>;
+  appendEvent(event: InstanceEvent): Promise<void>;
+  listEvents(instanceId: string): Promise<InstanceEvent[]>;
+
+  getTask(id: string): Promise<Task | undefined>;
+  listTasks(filter: TaskFilter): Promise<Task[]>;
+  saveTask(task: Task): Promise<Task>;
+
+  /** Open delegations only */
+  getDelegation(id: string): Promise<DelegationRecord | undefined>;
+  listDelegations(filter: { expiresBefore?: Date }): Promise<DelegationRecord[]>;
+  saveDelegation(delegation: DelegationRecord): Promise<DelegationRecord>;
+  closeDelegation(id: string, returnedAt: Date): Promise<void>;
+
+  listCoverage(filter: CoverageFilter): Promise<VacationCoverageRecord[]>;
+  saveCoverage(coverage: VacationCoverageRecord): Promise<VacationCoverageRecord>;
+
+  getMatrix(id: string): Promise<ApprovalMatrix | undefined>;
+  saveMatrix(matrix: ApprovalMatrix): Promise<ApprovalMatrix>;
+}
+
+export function matchesTask(task: Task, filter: TaskFilter): boolean {
+  if (filter.assignee && task.assignee !== filter.assignee && task.delegatedTo !== filter.assignee) return false;
+  if (filter.processId && task.processId !== filter.processId) return false;
+  if (filter.instanceId && task.instanceId !== filter.instanceId) return false;
+  if (filter.statuses && !filter.statuses.includes(task.status)) return false;
+  if (filter.dueBefore && !(task.dueDate && task.dueDate <= filter.dueBefore)) return false;
+  return true;
+}
+
+export function matchesCoverage(coverage: VacationCoverageRecord, filter: CoverageFilter): boolean {
+  if (coverage.restoredAt) return false;
+  if (filter.originalAssignee && coverage.originalAssignee !== filter.originalAssignee) return false;
+  if (filter.activeAt && !(coverage.vacationStart <= filter.activeAt && coverage.vacationEnd > filter.activeAt)) return false;
+  if (filter.endedBefore && coverage.vacationEnd > filter.endedBefore) return false;
+  return true;
+}
+
+export class MemoryProcessStore implements ProcessStore {
+  private definitions = new Map<string, ProcessDefinition>();
+  private instances = new Map<string, ProcessInstance>();
+  private events: InstanceEvent[] = [];
+  private tasks = new Map<string, Task>();
+  private delegations = new Map<string, DelegationRecord>();
+  private coverage = new Map<string, VacationCoverageRecord>();
+  private matrices = new Map<string, ApprovalMatrix>();
+
+  async getDefinition(id: string) {
+    return this.definitions.get(id);
+  }
+
+  async listDefinitions(status?: ProcessStatus) {
+    const definitions = Array.from(this.definitions.values());
+    return status ? definitions.filter((d) => d.status === status) : definitions;
+  }
+
+  async saveDefinition(definition: ProcessDefinition) {
+    this.definitions.set(definition.id, definition);
+    return definition;
+  }
+
+  async getInstance(id: string) {
+    return this.instances.get(id);
+  }
+
+  async listInstances(filter: InstanceFilter) {
+    return Array.from(this.instances.values())
+      .filter((i) => !filter.processId || i.processId === filter.processId)
+      .filter((i) => !filter.statuses || filter.statuses.includes(i.status))
+      .filter((i) => !filter.wakeBefore || (i.wakeAt && i.wakeAt <= filter.wakeBefore))
+      .sort((a, b) => b.startedAt.getTime() - a.startedAt.getTime())
+      .slice(0, filter.limit ?? Infinity);
+  }
+
+  async saveInstance(instance: ProcessInstance) {
+    this.instances.set(instance.id, instance);
+    return instance;
+  }
+
+  async appendEvent(event: InstanceEvent) {
+    this.events.push(event);
+  }
+
+  async listEvents(instanceId: string) {
+    return this.events.filter((e) => e.instanceId === instanceId);
+  }
+
+  async getTask(id: string) {
+    return this.tasks.get(id);
+  }
+
+  async listTasks(filter: TaskFilter) {
+    return Array.from(this.tasks.values()).filter((t) => matchesTask(t, filter));
+  }
+
+  async saveTask(task: Task) {
+    this.tasks.set(task.id, task);
+    return task;
+  }
+
+  async getDelegation(id: string) {
+    return this.delegations.get(id);
+  }
+
+  async listDelegations(filter: { expiresBefore?: Date }) {
+    return Array.from(this.delegations.values()).filter(
+      (d) => !filter.expiresBefore || (d.expiresAt && d.expiresAt <= filter.expiresBefore)
+    );
+  }
+
+  async saveDelegation(delegation: DelegationRecord) {
+    this.delegations.set(delegation.id, delegation);
+    return delegation;
+  }
+
+  async closeDelegation(id: string) {
+    this.delegations.delete(id);
+  }
+
+  async listCoverage(filter: CoverageFilter) {
+    return Array.from(this.coverage.values()).filter((c) => matchesCoverage(c, filter));
+  }
+
+  async saveCoverage(coverage: VacationCoverageRecord) {
+    this.coverage.set(coverage.id, coverage);
+    return coverage;
+  }
+
+  async getMatrix(id: string) {
+    return this.matrices.get(id);
+  }
+
+  async saveMatrix(matrix: ApprovalMatrix) {
+    this.matrices.set(matrix.id, matrix);
+    return matrix;
+  }
+}
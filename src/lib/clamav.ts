@@ -64,3 +64,20 @@ export async function scanBuffer(buf: Buffer | Uint8Array, options: ClamAVScanOp
 
   throw lastErr || new Error('AV scan failed')
 }
+
+/**
+ * Attachment columns recording a scan outcome, or a failed scan to retry
+ */
+export function attachmentAvFields(result: ClamAVScanResult | null, error?: unknown) {
+  if (!result) {
+    return { avStatus: 'error', avDetails: { error: String(error) }, avScanAt: new Date() }
+  }
+  const details = result.details || {}
+  return {
+    avStatus: result.clean ? 'clean' : 'infected',
+    avDetails: details,
+    avScanAt: new Date(),
+    avThreatName: details.threat_name || details.threatName || null,
+    avScanTime: typeof details.scan_time === 'number' ? details.scan_time : (typeof details.scanTime === 'number' ? details.scanTime : null),
+  }
+}
@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { ETAAdapter } from '../eta-adapter'
+import { ETAPortalClient } from '../eta-api'
+import { buildETADocument, buildETAReceipt, computeReceiptUuid } from '../eta-document'
+import { hashETACanonical, serializeETA, serializeETADocument } from '../eta-serializer'
+import { signCadesBes, verifyCadesBes } from '../eta-cades'
+import { ETAMockPortal, startETAMockPortal } from '../eta-mock-portal'
+import { CertificateData, ETAInvoice } from '../types'
+import { TEST_CERTIFICATE, TEST_PRIVATE_KEY } from './zatca-fixtures'
+
+const certificate: CertificateData = {
+  privateKey: TEST_PRIVATE_KEY,
+  certificate: TEST_CERTIFICATE,
+  algorithm: 'SHA256_ECDSA',
+}
+const signingTime = new Date('2025-03-10T09:31:00Z')
+
+function buildETAInvoice(overrides: Partial<ETAInvoice> = {}): ETAInvoice {
+  return {
+    id: 'inv_1',
+    uuid: 'inv_1',
+    invoiceNumber: 'INV-0001',
+    invoiceType: 'STANDARD',
+    documentType: 'INVOICE',
+    issueDate: new Date('2025-03-10T09:30:00.500Z'),
+    seller: {
+      name: 'Nile Advisory',
+      taxNumber: '123456789',
+      address: 'Cairo',
+      branchId: '0',
+      governorate: 'Cairo',
+      city: 'Nasr City',
+      street: 'Abbas El Akkad',
+      building: '12',
+      activity: '6920',
+    },
+    buyer: { name: 'Delta Trading', taxNumber: '987654321', city: 'Giza' },
+    lineItems: [
+      {
+        id: 'item_1',
+        description: 'Bookkeeping',
+        itemCode: 'EG-123456789-100',
+        codeType: 'EGS',
+        internalCode: 'BOOK',
+        quantity: 2,
+        unitPrice: 500,
+        discount: 100,
+        itemType: 'SERVICE',
+        taxType: 'VAT',
+        taxCategory: 'STANDARD',
+        taxPercent: 14,
+        taxAmount: 126,
+        lineTotal: 1026,
+      },
+      {
+        id: 'item_2',
+        description: 'Export advisory',
+        itemCode: 'EG-123456789-200',
+        codeType: 'EGS',
+        internalCode: 'EXPORT',
+        quantity: 1,
+        unitPrice: 300,
+        itemType: 'SERVICE',
+        taxType: 'VAT',
+        taxCategory: 'ZERO_RATED',
+        taxPercent: 0,
+        taxAmount: 0,
+        lineTotal: 300,
+      },
+    ],
+    totals: { subtotal: 1300, discountTotal: 100, taxTotal: 126, total: 1326 },
+    status: 'DRAFT',
+    createdAt: new Date('2025-03-10T09:30:00Z'),
+    ...overrides,
+  }
+}
+
+describe('ETA canonical serialization', () => {
+  it('upper-cases names, quotes values and prefixes array members', () => {
+    const canonical = serializeETA({
+      issuer: { type: 'B', id: '123456789' },
+      invoiceLines: [{ quantity: 2 }, { quantity: 1.5 }],
+      references: [],
+      note: undefined,
+      receiverName: null,
+    })
+
+    expect(canonical).toBe(
+      '"ISSUER""TYPE""B""ID""123456789""INVOICELINES""INVOICELINES""QUANTITY""2""INVOICELINES""QUANTITY""1.5""REFERENCES""RECEIVERNAME"""'
+    )
+  })
+
+  it('excludes signatures from the signed form', () => {
+    const document = buildETADocument(buildETAInvoice())
+    const signed = { ...document, signatures: [{ signatureType: 'I' as const, value: 'abc' }] }
+
+    expect(serializeETADocument(signed)).toBe(serializeETADocument(document))
+    expect(serializeETADocument(signed)).not.toContain('SIGNATURES')
+  })
+})
+
+describe('ETA document builder', () => {
+  it('builds lines and totals that reconcile', () => {
+    const document = buildETADocument(buildETAInvoice())
+
+    expect(document.documentType).toBe('I')
+    expect(document.dateTimeIssued).toBe('2025-03-10T09:30:00Z')
+    expect(document.receiver.type).toBe('B')
+    expect(document.invoiceLines[0]).toMatchObject({
+      itemType: 'EGS',
+      itemCode: 'EG-123456789-100',
+      internalCode: 'BOOK',
+      salesTotal: 1000,
+      netTotal: 900,
+      total: 1026,
+      discount: { rate: 0, amount: 100 },
+      taxableItems: [{ taxType: 'T1', amount: 126, subType: 'V009', rate: 14 }],
+    })
+    expect(document.invoiceLines[1].taxableItems[0].subType).toBe('V001')
+    expect(document.netAmount).toBe(1200)
+    expect(document.taxTotals).toEqual([{ taxType: 'T1', amount: 126 }])
+    expect(document.totalAmount).toBe(1326)
+  })
+
+  it('converts foreign-currency lines to EGP', () => {
+    const document = buildETADocument(buildETAInvoice({ currency: 'USD', exchangeRate: 50 }))
+
+    expect(document.invoiceLines[1].unitValue).toEqual({
+      currencySold: 'USD',
+      amountEGP: 15000,
+      amountSold: 300,
+      currencyExchangeRate: 50,
+    })
+    expect(document.totalAmount).toBe(66300)
+  })
+
+  it('flags missing item and activity codes', () => {
+    const invoice = buildETAInvoice()
+    invoice.seller.activity = undefined
+    invoice.lineItems[1].itemCode = undefined
+
+    const fields = new ETAAdapter().validateInvoice(invoice).errors.map((e) => e.field)
+    expect(fields).toEqual(expect.arrayContaining(['seller.activity', 'lineItems[1].itemCode']))
+  })
+})
+
+describe('ETA e-receipts', () => {
+  it('derives the UUID from the canonical receipt and chains it', () => {
+    const first = buildETAReceipt(buildETAInvoice({ receipt: { previousUuid: '', deviceSerialNumber: 'POS-1' } }))
+    const second = buildETAReceipt(
+      buildETAInvoice({ invoiceNumber: 'INV-0002', receipt: { previousUuid: first.header.uuid, deviceSerialNumber: 'POS-1' } })
+    )
+
+    expect(first.header.uuid).toMatch(/^[0-9a-f]{64}$/)
+    expect(computeReceiptUuid(first)).toBe(first.header.uuid)
+    expect(second.header.previousUUID).toBe(first.header.uuid)
+    expect(first.totalAmount).toBe(1326)
+  })
+
+  it('marks credit-note receipts as returns referencing the original', () => {
+    const receipt = buildETAReceipt(
+      buildETAInvoice({
+        documentType: 'CREDIT_NOTE',
+        references: ['a'.repeat(64)],
+        receipt: { previousUuid: '', deviceSerialNumber: 'POS-1' },
+      })
+    )
+
+    expect(receipt.documentType.receiptType).toBe('R')
+    expect(receipt.header.referenceUUID).toBe('a'.repeat(64))
+  })
+})
+
+describe('ETA CAdES-BES signatures', () => {
+  it('signs the canonical document and detects tampering', () => {
+    const canonical = serializeETADocument(buildETADocument(buildETAInvoice()))
+    const signature = signCadesBes(canonical, TEST_CERTIFICATE, TEST_PRIVATE_KEY, { signingTime })
+
+    const verification = verifyCadesBes(signature, canonical)
+    expect(verification.valid).toBe(true)
+    expect(verification.signingTime).toEqual(signingTime)
+
+    const tampered = verifyCadesBes(signature, canonical.replace('"1326"', '"1.326"'))
+    expect(tampered.valid).toBe(false)
+    expect(tampered.errors).toContain('Message digest does not match the document')
+  })
+
+  it('embeds the issuer signature and validates it', async () => {
+    const adapter = new ETAAdapter()
+    const invoice = buildETAInvoice()
+    const signed = await adapter.signDocument(invoice, certificate, signingTime)
+
+    expect(signed.document.signatures).toEqual([{ signatureType: 'I', value: signed.signature }])
+    expect(await adapter.validateSignature({ ...invoice, signature: signed.signature })).toBe(true)
+    expect(await adapter.validateSignature({ ...invoice, invoiceNumber: 'INV-9999', signature: signed.signature })).toBe(false)
+  })
+})
+
+describe('ETA portal submission', () => {
+  let portal: ETAMockPortal
+  let adapter: ETAAdapter
+
+  beforeAll(async () => {
+    portal = await startETAMockPortal({ pendingPolls: 1 })
+    adapter = new ETAAdapter(new ETAPortalClient(portal.config))
+  })
+
+  afterAll(async () => {
+    await portal.close()
+  })
+
+  it('submits a signed document and polls it to Valid', async () => {
+    const invoice = buildETAInvoice()
+    const signature = await adapter.sign(invoice, certificate)
+
+    const result = await adapter.submit({ ...invoice, signature })
+    expect(result.success).toBe(true)
+    expect(result.etaUuid).toBe(hashETACanonical(serializeETADocument(buildETADocument(invoice))))
+
+    const status = await adapter.pollStatus(result.referenceNumber!, { intervalMs: 1, maxAttempts: 3 })
+    expect(status.overallStatus).toBe('Valid')
+    expect(status.documentSummary[0]).toMatchObject({ uuid: result.etaUuid, status: 'Valid' })
+
+    const duplicate = await adapter.submit({ ...invoice, signature })
+    expect(duplicate.success).toBe(false)
+    expect(duplicate.errors?.[0].code).toBe('DuplicateSubmission')
+  })
+
+  it('reports documents with a signature over different content as Invalid', async () => {
+    const signature = await adapter.sign(buildETAInvoice({ invoiceNumber: 'INV-0100' }), certificate)
+
+    const result = await adapter.submit({ ...buildETAInvoice({ invoiceNumber: 'INV-0101' }), signature })
+    expect(result.success).toBe(true)
+
+    const status = await adapter.pollStatus(result.referenceNumber!, { intervalMs: 1, maxAttempts: 3 })
+    expect(status.overallStatus).toBe('Invalid')
+
+    const details = await new ETAPortalClient(portal.config).getDocumentDetails(result.etaUuid!)
+    expect(details.validationResults?.validationSteps.map((step) => step.name)).toContain('InvalidSignature')
+  })
+
+  it('accepts chained receipts and rejects a broken previous UUID', async () => {
+    const pos = { serialNumber: 'POS-7', osVersion: 'android', clientId: 'mock-client', clientSecret: 'mock-secret' }
+    const first = buildETAInvoice({ invoiceNumber: 'R-1', receipt: { previousUuid: '', deviceSerialNumber: 'POS-7' } })
+
+    const accepted = await adapter.submitReceipt(first, pos)
+    expect(accepted.success).toBe(true)
+
+    const stale = buildETAInvoice({ invoiceNumber: 'R-2', receipt: { previousUuid: 'f'.repeat(64), deviceSerialNumber: 'POS-7' } })
+    const rejected = await adapter.submitReceipt(stale, pos)
+    expect(rejected.success).toBe(false)
+    expect(rejected.errors?.[0].code).toBe('InvalidPreviousUUID')
+  })
+
+  it('fails authentication with wrong credentials', async () => {
+    const client = new ETAPortalClient({ ...portal.config, clientSecret: 'wrong' })
+    await expect(client.getSubmission('x')).rejects.toMatchObject({ code: 'ETA_AUTH_FAILED', status: 502 })
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { mapInvoiceToETA, mapInvoiceToZATCA, EInvoiceSourceInvoice } from '../invoice-mapper'
+import { ZATCAAdapter } from '../zatca-adapter'
+import { ETAAdapter } from '../eta-adapter'
+import { calculateInvoiceLine, calculateInvoiceTotals, toInvoiceItemData } from '@/lib/invoicing/line-tax'
+
+function buildInvoice(country: 'SA' | 'EG'): EInvoiceSourceInvoice {
+  const rate = country === 'SA' ? 15 : 14
+  const lines = [
+    calculateInvoiceLine({ description: 'Advisory', quantity: 3, unitPriceCents: 33333, discountCents: 999, taxCategory: 'STANDARD', taxRatePercent: rate }),
+    calculateInvoiceLine({ description: 'Filing fee', quantity: 1, unitPriceCents: 11500, taxInclusive: true, taxCategory: 'STANDARD', taxRatePercent: rate }),
+    calculateInvoiceLine({ description: 'Export service', quantity: 1, unitPriceCents: 5000, taxCategory: 'ZERO_RATED' }),
+  ]
+  const totals = calculateInvoiceTotals(lines)
+  const now = new Date('2025-06-01T10:00:00Z')
+
+  return {
+    id: 'inv_1',
+    tenantId: 'tenant_1',
+    bookingId: null,
+    clientId: 'user_1',
+    entityId: 'entity_1',
+    number: 'INV-0001',
+    status: 'UNPAID',
+    currency: country === 'SA' ? 'SAR' : 'EGP',
+    subtotalCents: totals.subtotalCents,
+    discountCents: totals.discountCents,
+    taxCents: totals.taxCents,
+    totalCents: totals.totalCents,
+    taxBreakdown: totals.taxBreakdown,
+    issueDate: now,
+    paidAt: null,
+    createdAt: now,
+    updatedAt: now,
+    items: lines.map((line, index) => ({ id: `item_${index}`, invoiceId: 'inv_1', ...toInvoiceItemData(line) })),
+    client: { id: 'user_1', name: 'Buyer Co', email: 'buyer@example.com' },
+    entity: {
+      id: 'entity_1',
+      name: 'Seller LLC',
+      metadata: { address: 'Riyadh' },
+      registrations: [
+        { type: country === 'SA' ? 'ZATCA' : 'ETA', value: country === 'SA' ? '300000000000003' : '123456789' },
+      ],
+      licenses: [{ licenseNumber: '1010010000' }],
+    },
+  } as unknown as EInvoiceSourceInvoice
+}
+
+describe('Invoice Mapper', () => {
+  it('should map a taxed invoice to a ZATCA document that reconciles', () => {
+    const document = mapInvoiceToZATCA(buildInvoice('SA'))
+
+    expect(document.lineItems).toHaveLength(3)
+    expect(document.seller.taxId).toBe('300000000000003')
+    expect(document.seller.crNumber).toBe('1010010000')
+    expect(document.lineItems[2].taxCategory).toBe('ZERO_RATED')
+
+    const result = new ZATCAAdapter().validateInvoice(document)
+    expect(result.errors.filter((e) => e.field.startsWith('totals'))).toEqual([])
+  })
+
+  it('should map to an ETA document whose subtotal matches the lines', () => {
+    const document = mapInvoiceToETA(buildInvoice('EG'))
+
+    expect(document.documentType).toBe('INVOICE')
+    expect(document.seller.taxNumber).toBe('123456789')
+    expect(document.lineItems.every((l) => l.taxType === 'VAT')).toBe(true)
+
+    const result = new ETAAdapter().validateInvoice(document)
+    expect(result.errors.filter((e) => e.field.startsWith('totals'))).toEqual([])
+  })
+
+  it('should code ETA lines from their internal code or the DEFAULT mapping', () => {
+    const invoice = buildInvoice('EG')
+    invoice.items[0].itemCode = 'ADVISORY'
+    const itemCodes = new Map([
+      ['ADVISORY', { codeType: 'EGS' as const, itemCode: 'EG-123456789-1', unitType: 'H87' }],
+      ['DEFAULT', { codeType: 'EGS' as const, itemCode: 'EG-123456789-0', unitType: 'EA' }],
+    ])
+
+    const document = mapInvoiceToETA(invoice, { itemCodes })
+
+    expect(document.lineItems[0]).toMatchObject({ internalCode: 'ADVISORY', itemCode: 'EG-123456789-1', unitType: 'H87' })
+    expect(document.lineItems[1]).toMatchObject({ internalCode: 'DEFAULT', itemCode: 'EG-123456789-0' })
+    expect(new ETAAdapter().validateInvoice(document).errors.filter((e) => e.field.includes('itemCode'))).toEqual([])
+  })
+
+  it('should map a credit note to the credit note document type', () => {
+    const invoice = { ...buildInvoice('EG'), documentType: 'CREDIT_NOTE' } as EInvoiceSourceInvoice
+
+    expect(mapInvoiceToETA(invoice).documentType).toBe('CREDIT_NOTE')
+    expect(mapInvoiceToZATCA(invoice).invoiceType).toBe('CREDIT_NOTE')
+  })
+})
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { ApiError } from '@/lib/api/error-responses'
+import {
+  canTransition,
+  collectETAValidationMessages,
+  computeRetryDelayMs,
+  isTransientSubmissionError,
+} from '../submissions'
+
+describe('e-invoice submission transitions', () => {
+  it('only moves forward and may skip intermediate statuses', () => {
+    expect(canTransition('DRAFT', 'SIGNED')).toBe(true)
+    expect(canTransition('DRAFT', 'ACCEPTED')).toBe(true)
+    expect(canTransition('SIGNED', 'SUBMITTED')).toBe(true)
+    expect(canTransition('SUBMITTED', 'REJECTED')).toBe(true)
+    expect(canTransition('SUBMITTED', 'SIGNED')).toBe(false)
+    expect(canTransition('SIGNED', 'SIGNED')).toBe(false)
+  })
+
+  it('treats accepted and rejected as final', () => {
+    expect(canTransition('ACCEPTED', 'REJECTED')).toBe(false)
+    expect(canTransition('REJECTED', 'ACCEPTED')).toBe(false)
+    expect(canTransition('REJECTED', 'DRAFT')).toBe(false)
+  })
+})
+
+describe('transient failures', () => {
+  it('retries outages, throttling, network errors and chain contention', () => {
+    expect(isTransientSubmissionError(new ApiError('ZATCA_UNAVAILABLE', 'down', 502, { portalStatus: 503 }))).toBe(true)
+    expect(isTransientSubmissionError(new ApiError('ETA_PORTAL_ERROR', 'busy', 502, { portalStatus: 429 }))).toBe(true)
+    expect(isTransientSubmissionError(new ApiError('CHAIN_CONFLICT', 'moved', 409))).toBe(true)
+    expect(isTransientSubmissionError(new TypeError('fetch failed'))).toBe(true)
+  })
+
+  it('does not retry configuration or validation failures', () => {
+    expect(isTransientSubmissionError(new ApiError('ETA_PORTAL_ERROR', 'bad', 502, { portalStatus: 400 }))).toBe(false)
+    expect(isTransientSubmissionError(new ApiError('VALIDATION_FAILED', 'invalid', 422))).toBe(false)
+    expect(isTransientSubmissionError(new ApiError('CONFIG_ERROR', 'missing', 400))).toBe(false)
+    expect(isTransientSubmissionError(new Error('boom'))).toBe(false)
+  })
+
+  it('backs off exponentially up to six hours', () => {
+    expect(computeRetryDelayMs(1)).toBe(60_000)
+    expect(computeRetryDelayMs(2)).toBe(120_000)
+    expect(computeRetryDelayMs(4)).toBe(480_000)
+    expect(computeRetryDelayMs(20)).toBe(6 * 60 * 60_000)
+  })
+})
+
+describe('ETA validation messages', () => {
+  it('collects nested errors from invalid steps only', () => {
+    const messages = collectETAValidationMessages([
+      { name: 'Structure', status: 'Valid' },
+      {
+        name: 'Core',
+        status: 'Invalid',
+        error: {
+          code: 'Core',
+          details: [
+            { code: 'TotalsMismatch', message: 'Total amount does not match lines' },
+            { code: 'ItemCode', error: 'Unknown item code EG-1-1' },
+          ],
+        },
+      },
+      { name: 'InvalidSignature', status: 'Invalid' },
+    ])
+
+    expect(messages).toEqual([
+      { code: 'TotalsMismatch', message: 'Total amount does not match lines' },
+      { code: 'ItemCode', message: 'Unknown item code EG-1-1' },
+      { code: 'InvalidSignature', message: 'InvalidSignature' },
+    ])
+  })
+
+  it('ignores malformed input', () => {
+    expect(collectETAValidationMessages(undefined)).toEqual([])
+  })
+})
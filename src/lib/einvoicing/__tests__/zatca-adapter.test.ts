@@ -0,0 +1,186 @@
+import { describe, it, expect } from 'vitest'
+import { ZATCAAdapter } from '../zatca-adapter'
+import { canonicalizeForHash } from '../zatca-ubl'
+import {
+  computeInvoiceHash,
+  decodeTLV,
+  INITIAL_PREVIOUS_INVOICE_HASH,
+  parseCertificate,
+  sha256HexBase64,
+  verifySignedInvoice,
+} from '../zatca-crypto'
+import { ZATCALocalStub } from '../zatca-api'
+import { verifyChainEntries } from '../zatca-chain'
+import { CertificateData } from '../types'
+import { buildSampleInvoice, TEST_CERTIFICATE, TEST_PRIVATE_KEY } from './zatca-fixtures'
+
+const certificate: CertificateData = {
+  privateKey: TEST_PRIVATE_KEY,
+  certificate: TEST_CERTIFICATE,
+  algorithm: 'SHA256_ECDSA',
+}
+const signingTime = new Date('2025-03-10T09:31:00Z')
+
+describe('ZATCA UBL generation', () => {
+  const adapter = new ZATCAAdapter()
+
+  it('writes a UBL 2.1 simplified invoice with ICV and PIH', () => {
+    const xml = adapter.generateXML(buildSampleInvoice())
+
+    expect(xml).toContain('<Invoice xmlns="urn:oasis:names:specification:ubl:schema:xsd:Invoice-2"')
+    expect(xml).toContain('<cbc:ProfileID>reporting:1.0</cbc:ProfileID>')
+    expect(xml).toContain('<cbc:InvoiceTypeCode name="0200000">388</cbc:InvoiceTypeCode>')
+    expect(xml).toContain('<cbc:ID>ICV</cbc:ID>')
+    expect(xml).toContain('<cbc:UUID>1</cbc:UUID>')
+    expect(xml).toContain(INITIAL_PREVIOUS_INVOICE_HASH)
+    expect(xml).toContain('<cbc:Name>Consulting &lt;hours&gt;</cbc:Name>')
+    expect(xml).toContain('<cbc:RegistrationName>Walk-in Customer &amp; Sons</cbc:RegistrationName>')
+    expect(xml).not.toMatch(/\/>/)
+  })
+
+  it('groups tax subtotals by category with exemption codes', () => {
+    const xml = adapter.generateXML(buildSampleInvoice())
+
+    expect(xml).toMatch(/<cbc:TaxableAmount currencyID="SAR">180.00<\/cbc:TaxableAmount>\s*<cbc:TaxAmount currencyID="SAR">27.00/)
+    expect(xml).toContain('<cbc:TaxExemptionReasonCode>VATEX-SA-33</cbc:TaxExemptionReasonCode>')
+    expect(xml).toContain('<cbc:LineExtensionAmount currencyID="SAR">230.00</cbc:LineExtensionAmount>')
+    expect(xml).toContain('<cbc:PayableAmount currencyID="SAR">257.00</cbc:PayableAmount>')
+  })
+
+  it('references the original invoice on a standard credit note', () => {
+    const xml = adapter.generateXML(
+      buildSampleInvoice({
+        invoiceType: 'CREDIT_NOTE',
+        billingReference: 'INV-0007',
+        adjustmentReason: 'Returned goods',
+        buyer: { name: 'Buyer Co', taxId: '300000000000003' },
+      })
+    )
+
+    expect(xml).toContain('<cbc:InvoiceTypeCode name="0100000">381</cbc:InvoiceTypeCode>')
+    expect(xml).toMatch(/<cac:BillingReference>\s*<cac:InvoiceDocumentReference>\s*<cbc:ID>INV-0007<\/cbc:ID>/)
+    expect(xml).toContain('<cbc:InstructionNote>Returned goods</cbc:InstructionNote>')
+    expect(xml).toContain('<cbc:ActualDeliveryDate>2025-03-10</cbc:ActualDeliveryDate>')
+  })
+})
+
+describe('ZATCA signing', () => {
+  const adapter = new ZATCAAdapter()
+
+  it('keeps the invoice hash stable once the signature and QR are embedded', async () => {
+    const invoice = buildSampleInvoice()
+    const signed = await adapter.signInvoice(invoice, certificate, signingTime)
+
+    expect(signed.invoiceHash).toBe(adapter.hashInvoice(invoice))
+    expect(computeInvoiceHash(signed.xml)).toBe(signed.invoiceHash)
+    expect(canonicalizeForHash(signed.xml)).toBe(canonicalizeForHash(adapter.generateXML(invoice)))
+    expect(signed.xml).toContain(`<ds:DigestValue>${signed.invoiceHash}</ds:DigestValue>`)
+  })
+
+  it('verifies the signature and detects tampering', async () => {
+    const signed = await adapter.signInvoice(buildSampleInvoice(), certificate, signingTime)
+
+    expect(verifySignedInvoice(signed.xml).valid).toBe(true)
+    expect(await adapter.validateSignature({ ...buildSampleInvoice(), xml: signed.xml })).toBe(true)
+
+    const tampered = signed.xml.replace('257.00</cbc:PayableAmount>', '157.00</cbc:PayableAmount>')
+    const result = verifySignedInvoice(tampered)
+    expect(result.valid).toBe(false)
+    expect(result.errors).toContain('Invoice hash does not match the document')
+  })
+
+  it('embeds the certificate digest, issuer and decimal serial', async () => {
+    const parsed = parseCertificate(TEST_CERTIFICATE)
+    const signed = await adapter.signInvoice(buildSampleInvoice(), certificate, signingTime)
+
+    expect(parsed.issuerName).toBe('CN=TST-886431145-399999999900003, O=Test Seller LLC, OU=Riyadh Branch, C=SA')
+    expect(parsed.serialNumber).toMatch(/^\d+$/)
+    expect(parsed.hash).toBe(sha256HexBase64(parsed.body))
+    expect(signed.xml).toContain(`<ds:DigestValue>${parsed.hash}</ds:DigestValue>`)
+    expect(signed.xml).toContain(`<ds:X509SerialNumber>${parsed.serialNumber}</ds:X509SerialNumber>`)
+    expect(signed.xml).toContain('<xades:SigningTime>2025-03-10T09:31:00</xades:SigningTime>')
+  })
+
+  it('encodes all nine QR tags', async () => {
+    const signed = await adapter.signInvoice(buildSampleInvoice(), certificate, signingTime)
+    const tags = decodeTLV(signed.qrCode)
+    const parsed = parseCertificate(TEST_CERTIFICATE)
+
+    expect(Array.from(tags.keys())).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9])
+    expect(tags.get(1)?.toString('utf8')).toBe('Test Seller LLC')
+    expect(tags.get(2)?.toString('utf8')).toBe('399999999900003')
+    expect(tags.get(3)?.toString('utf8')).toBe('2025-03-10T09:30:00')
+    expect(tags.get(4)?.toString('utf8')).toBe('257.00')
+    expect(tags.get(5)?.toString('utf8')).toBe('27.00')
+    expect(tags.get(6)?.toString('utf8')).toBe(signed.invoiceHash)
+    expect(tags.get(7)?.toString('utf8')).toBe(signed.signature)
+    expect(tags.get(8)?.equals(parsed.publicKey)).toBe(true)
+    expect(tags.get(9)?.equals(parsed.signature)).toBe(true)
+    expect(signed.xml).toContain(signed.qrCode)
+  })
+})
+
+describe('ZATCA local stub and hash chain', () => {
+  const adapter = new ZATCAAdapter()
+
+  async function signChain(count: number) {
+    const entries = []
+    let previousHash = INITIAL_PREVIOUS_INVOICE_HASH
+    for (let icv = 1; icv <= count; icv++) {
+      const invoice = buildSampleInvoice({
+        invoiceNumber: `000${icv}`,
+        uuid: `3cf5ee18-ee25-44ea-a444-2c37ba7f28b${icv}`,
+        metadata: { icv, prevInvoiceHash: previousHash },
+      })
+      const signed = await adapter.signInvoice(invoice, certificate, signingTime)
+      entries.push({ invoice, signed, icv, previousHash })
+      previousHash = signed.invoiceHash
+    }
+    return entries
+  }
+
+  it('reports a chain of invoices in order', async () => {
+    const stub = new ZATCALocalStub()
+    const [first, second] = await signChain(2)
+
+    const r1 = await stub.report({ invoiceHash: first.signed.invoiceHash, uuid: first.invoice.uuid, xml: first.signed.xml })
+    const r2 = await stub.report({ invoiceHash: second.signed.invoiceHash, uuid: second.invoice.uuid, xml: second.signed.xml })
+
+    expect(r1).toMatchObject({ accepted: true, status: 'REPORTED' })
+    expect(r2).toMatchObject({ accepted: true, status: 'REPORTED' })
+  })
+
+  it('rejects a broken PIH link and a tampered document', async () => {
+    const stub = new ZATCALocalStub()
+    const [first, , third] = await signChain(3)
+
+    await stub.report({ invoiceHash: first.signed.invoiceHash, uuid: first.invoice.uuid, xml: first.signed.xml })
+    const skipped = await stub.report({ invoiceHash: third.signed.invoiceHash, uuid: third.invoice.uuid, xml: third.signed.xml })
+    expect(skipped.accepted).toBe(false)
+    expect(skipped.errors.map((e) => e.code)).toContain('PIH')
+
+    const tampered = await new ZATCALocalStub().clear({
+      invoiceHash: first.signed.invoiceHash,
+      uuid: first.invoice.uuid,
+      xml: first.signed.xml.replace('Test Seller LLC</cbc:RegistrationName>', 'Other Seller</cbc:RegistrationName>'),
+    })
+    expect(tampered.status).toBe('REJECTED')
+  })
+
+  it('flags chain entries whose links or hashes do not verify', async () => {
+    const entries = (await signChain(3)).map((entry) => ({
+      invoiceId: entry.invoice.id,
+      icv: entry.icv,
+      invoiceHash: entry.signed.invoiceHash,
+      previousHash: entry.previousHash,
+      xml: entry.signed.xml,
+      signedAt: signingTime,
+    }))
+
+    expect(verifyChainEntries(entries).map((e) => e.status)).toEqual(['valid', 'valid', 'valid'])
+
+    const broken = [entries[0], { ...entries[1], xml: entries[1].xml.replace('0002', '0009') }, entries[2]]
+    expect(verifyChainEntries(broken).map((e) => e.status)).toEqual(['valid', 'broken', 'valid'])
+    expect(verifyChainEntries([entries[0], entries[2]]).map((e) => e.status)).toEqual(['valid', 'broken'])
+  })
+})
@@ -0,0 +1,175 @@
+/**
+ * Minimal ASN.1 DER Encoding
+ *
+ * Just enough DER to read X.509 certificates and to build and parse the
+ * CMS structures used by e-invoicing signatures. Elements are handled as
+ * raw buffers; nothing here interprets certificate semantics.
+ */
+
+export interface DerElement {
+  tag: number
+  offset: number // First byte of the tag
+  start: number // First content byte
+  end: number // One past the last content byte
+}
+
+export const DER_TAGS = {
+  INTEGER: 0x02,
+  BIT_STRING: 0x03,
+  OCTET_STRING: 0x04,
+  NULL: 0x05,
+  OID: 0x06,
+  UTF8_STRING: 0x0c,
+  UTC_TIME: 0x17,
+  SEQUENCE: 0x30,
+  SET: 0x31,
+} as const
+
+/**
+ * Read the element starting at offset
+ */
+export function readDer(buffer: Buffer, offset: number): DerElement {
+  const tag = buffer[offset]
+  let length = buffer[offset + 1]
+  let start = offset + 2
+  if (length & 0x80) {
+    const bytes = length & 0x7f
+    length = 0
+    for (let i = 0; i < bytes; i++) length = length * 256 + buffer[start + i]
+    start += bytes
+  }
+  return { tag, offset, start, end: start + length }
+}
+
+/**
+ * Child elements of a constructed element
+ */
+export function readDerChildren(buffer: Buffer, parent: DerElement): DerElement[] {
+  const children: DerElement[] = []
+  let offset = parent.start
+  while (offset < parent.end) {
+    const child = readDer(buffer, offset)
+    children.push(child)
+    offset = child.end
+  }
+  return children
+}
+
+/**
+ * Full encoding (tag, length and content) of an element
+ */
+export function derBytes(buffer: Buffer, element: DerElement): Buffer {
+  return buffer.subarray(element.offset, element.end)
+}
+
+/**
+ * Content bytes of an element
+ */
+export function derContent(buffer: Buffer, element: DerElement): Buffer {
+  return buffer.subarray(element.start, element.end)
+}
+
+function encodeLength(length: number): Buffer {
+  if (length < 0x80) return Buffer.from([length])
+  const bytes: number[] = []
+  let remaining = length
+  while (remaining > 0) {
+    bytes.unshift(remaining & 0xff)
+    remaining = Math.floor(remaining / 256)
+  }
+  return Buffer.from([0x80 | bytes.length, ...bytes])
+}
+
+/**
+ * Encode a tag with its content
+ */
+export function derTlv(tag: number, ...content: Buffer[]): Buffer {
+  const body = Buffer.concat(content)
+  return Buffer.concat([Buffer.from([tag]), encodeLength(body.length), body])
+}
+
+export function derSequence(...items: Buffer[]): Buffer {
+  return derTlv(DER_TAGS.SEQUENCE, ...items)
+}
+
+/**
+ * SET OF with members in DER (ascending encoding) order
+ */
+export function derSet(...items: Buffer[]): Buffer {
+  return derTlv(DER_TAGS.SET, ...[...items].sort(Buffer.compare))
+}
+
+export function derInteger(value: number): Buffer {
+  const bytes: number[] = []
+  let remaining = value
+  do {
+    bytes.unshift(remaining & 0xff)
+    remaining = Math.floor(remaining / 256)
+  } while (remaining > 0)
+  if (bytes[0] & 0x80) bytes.unshift(0)
+  return derTlv(DER_TAGS.INTEGER, Buffer.from(bytes))
+}
+
+export function derOctetString(value: Buffer): Buffer {
+  return derTlv(DER_TAGS.OCTET_STRING, value)
+}
+
+export function derNull(): Buffer {
+  return Buffer.from([DER_TAGS.NULL, 0x00])
+}
+
+export function derOid(oid: string): Buffer {
+  const parts = oid.split('.').map(Number)
+  const bytes: number[] = [parts[0] * 40 + parts[1]]
+  for (const part of parts.slice(2)) {
+    const chunk: number[] = [part & 0x7f]
+    let remaining = Math.floor(part / 128)
+    while (remaining > 0) {
+      chunk.unshift((remaining & 0x7f) | 0x80)
+      remaining = Math.floor(remaining / 128)
+    }
+    bytes.push(...chunk)
+  }
+  return derTlv(DER_TAGS.OID, Buffer.from(bytes))
+}
+
+export function decodeOid(content: Buffer): string {
+  const parts = [Math.floor(content[0] / 40), content[0] % 40]
+  let value = 0
+  for (const byte of content.subarray(1)) {
+    value = value * 128 + (byte & 0x7f)
+    if (!(byte & 0x80)) {
+      parts.push(value)
+      value = 0
+    }
+  }
+  return parts.join('.')
+}
+
+export function derUtcTime(date: Date): Buffer {
+  const iso = date.toISOString()
+  const value = `${iso.slice(2, 4)}${iso.slice(5, 7)}${iso.slice(8, 10)}${iso.slice(11, 13)}${iso.slice(14, 16)}${iso.slice(17, 19)}Z`
+  return derTlv(DER_TAGS.UTC_TIME, Buffer.from(value, 'ascii'))
+}
+
+/**
+ * Context-specific constructed tag, e.g. [0] EXPLICIT
+ */
+export function derContext(tagNumber: number, ...content: Buffer[]): Buffer {
+  return derTlv(0xa0 | tagNumber, ...content)
+}
+
+/**
+ * Raw issuer Name and serialNumber INTEGER of an X.509 certificate:
+ * TBSCertificate ::= SEQUENCE { [0] version, serialNumber, signature, issuer, ... }
+ */
+export function readCertificateIssuerAndSerial(der: Buffer): { issuer: Buffer; serialNumber: Buffer } {
+  const certificate = readDer(der, 0)
+  const tbs = readDer(der, certificate.start)
+  const fields = readDerChildren(der, tbs)
+  const base = fields[0].tag === 0xa0 ? 1 : 0
+  return {
+    serialNumber: derBytes(der, fields[base]),
+    issuer: derBytes(der, fields[base + 2]),
+  }
+}
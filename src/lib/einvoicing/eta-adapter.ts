@@ -1,4 +1,3 @@
-import { createHash, createSign } from 'crypto'
 import { logger } from '@/lib/logger'
 import {
   ETAInvoice,
@@ -6,18 +5,36 @@ import {
   ValidationResult,
   SubmissionResult,
   CertificateData,
-  ZATCAInvoice, // <-- Added ZATCAInvoice
 } from './types'
+import { buildETADocument, buildETAReceipt, ETADocument, ETAReceipt } from './eta-document'
+import { serializeETADocument } from './eta-serializer'
+import { signCadesBes, verifyCadesBes } from './eta-cades'
+import { ETAPollOptions, ETAPortalClient, ETAPosCredentials, ETASubmissionStatus } from './eta-api'
+
+export interface SignedETADocument {
+  document: ETADocument
+  canonical: string
+  signature: string
+}
+
+const ETA_PORTAL_URL = 'https://invoicing.eta.gov.eg'
+
+/**
+ * Public share link of an accepted document (printed as its QR code)
+ */
+export function getETAShareUrl(uuid: string, longId: string): string {
+  return `${ETA_PORTAL_URL}/documents/${uuid}/share/${longId}`
+}
 
 /**
  * Egypt Tax Authority (ETA) E-Invoicing Adapter
- * Implements XML-DSig digital signatures and ETA submission
+ * Builds ETA JSON documents and e-receipts, signs the canonical form with
+ * CAdES-BES and submits through the ETA portal API
  */
 export class ETAAdapter implements EInvoicingProvider {
   standard = 'ETA' as const
-  private apiUrl = process.env.ETA_API_URL || 'https://api.invoicing.eta.gov.eg'
-  private apiKey = process.env.ETA_API_KEY
-  private clientId = process.env.ETA_CLIENT_ID
+
+  constructor(private client?: ETAPortalClient) {}
 
   /**
    * Validate ETA invoice
@@ -69,6 +86,41 @@ export class ETAAdapter implements EInvoicingProvider {
       })
     }
 
+    // Validate activity and item codes
+    if (!invoice.seller.activity || !/^\d{4}$/.test(invoice.seller.activity)) {
+      errors.push({
+        field: 'seller.activity',
+        message: 'Taxpayer activity code (4 digits) is required',
+        severity: 'error',
+      })
+    }
+
+    for (const [index, item] of (invoice.lineItems || []).entries()) {
+      if (!item.itemCode) {
+        errors.push({
+          field: `lineItems[${index}].itemCode`,
+          message: `Line "${item.description}" has no registered GS1/EGS item code`,
+          severity: 'error',
+        })
+      }
+    }
+
+    if ((invoice.currency || 'EGP') !== 'EGP' && !invoice.exchangeRate) {
+      errors.push({
+        field: 'exchangeRate',
+        message: 'Exchange rate to EGP is required for foreign-currency documents',
+        severity: 'error',
+      })
+    }
+
+    if ((invoice.documentType === 'CREDIT_NOTE' || invoice.documentType === 'DEBIT_NOTE') && !invoice.references?.length) {
+      errors.push({
+        field: 'references',
+        message: 'Credit and debit notes must reference the original ETA document',
+        severity: 'error',
+      })
+    }
+
     // Validate totals
     const calculatedSubtotal = invoice.lineItems.reduce(
       (sum, item) => sum + item.quantity * item.unitPrice,
@@ -97,20 +149,22 @@ export class ETAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Generate QR Code (not required for ETA, but can be included)
+   * QR code content: the public share link of the document, or the
+   * receipt verification URL for e-receipts
    */
-  async generateQRCode(invoice: ZATCAInvoice): Promise<string> {
+  async generateQRCode(invoice: ETAInvoice): Promise<string> {
     try {
-      // ETA doesn't strictly require QR, but we can generate one for user convenience
-      const qrData = {
-        invoiceUuid: invoice.uuid,
-        issueDate: invoice.issueDate.toISOString().split('T')[0],
-        totalAmount: invoice.totals.total.toFixed(2),
-        taxAmount: invoice.totals.taxTotal.toFixed(2),
+      let qrCode: string
+      if (invoice.receipt) {
+        const receipt = buildETAReceipt(invoice)
+        qrCode = `${ETA_PORTAL_URL}/receipts/search/${receipt.header.uuid}/share/${receipt.header.dateTimeIssued}#Total:${receipt.totalAmount}#IssuerRIN:${receipt.seller.rin}`
+      } else {
+        if (!invoice.etaUuid || !invoice.etaLongId) {
+          throw new Error('Document must be accepted by ETA before its QR code can be generated')
+        }
+        qrCode = getETAShareUrl(invoice.etaUuid, invoice.etaLongId)
       }
 
-      const qrCode = Buffer.from(JSON.stringify(qrData)).toString('base64')
-
       logger.info('ETA QR code generated', {
         invoiceNumber: invoice.invoiceNumber,
         qrSize: qrCode.length,
@@ -127,30 +181,48 @@ export class ETAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Sign invoice with XML-DSig (XAdES-EPES)
+   * Build the unsigned ETA document
+   */
+  buildDocument(invoice: ETAInvoice): ETADocument {
+    return buildETADocument(invoice)
+  }
+
+  /**
+   * Build the e-receipt, chained to invoice.receipt.previousUuid
+   */
+  buildReceipt(invoice: ETAInvoice): ETAReceipt {
+    return buildETAReceipt(invoice)
+  }
+
+  /**
+   * Sign the canonical document with CAdES-BES; returns the signature value
    */
   async sign(invoice: ETAInvoice, certificate: CertificateData): Promise<string> {
+    return (await this.signDocument(invoice, certificate)).signature
+  }
+
+  /**
+   * Produce the document with the issuer signature embedded
+   */
+  async signDocument(
+    invoice: ETAInvoice,
+    certificate: CertificateData,
+    signingTime: Date = new Date()
+  ): Promise<SignedETADocument> {
     try {
-      const invoiceXML = this.generateXML(invoice)
-
-      // Create XML signature
-      const signer = createSign('sha256')
-      signer.update(invoiceXML)
-
-      const signature = signer.sign(
-        {
-          key: certificate.privateKey,
-          passphrase: certificate.password,
-        },
-        'base64'
-      )
+      const document = this.buildDocument(invoice)
+      const canonical = serializeETADocument(document)
+      const signature = signCadesBes(canonical, certificate.certificate, certificate.privateKey, {
+        passphrase: certificate.password,
+        signingTime,
+      })
 
       logger.info('ETA invoice signed', {
         invoiceNumber: invoice.invoiceNumber,
         signatureSize: signature.length,
       })
 
-      return signature
+      return { document: { ...document, signatures: [{ signatureType: 'I', value: signature }] }, canonical, signature }
     } catch (error) {
       logger.error('Failed to sign ETA invoice', {
         invoiceNumber: invoice.invoiceNumber,
@@ -161,11 +233,27 @@ export class ETAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Submit invoice to ETA
+   * Submit a signed document. ETA validates asynchronously: success means
+   * the document was accepted for processing, its final status comes from
+   * pollStatus.
    */
   async submit(invoice: ETAInvoice): Promise<SubmissionResult> {
     try {
-      if (!this.apiKey || !this.clientId) {
+      if (!invoice.signature) {
+        return {
+          success: false,
+          message: 'Invoice must be signed before submission',
+          errors: [
+            {
+              code: 'NOT_SIGNED',
+              message: 'CAdES-BES signature is required',
+            },
+          ],
+        }
+      }
+
+      const client = this.client ?? ETAPortalClient.fromEnvironment()
+      if (!client) {
         return {
           success: false,
           message: 'ETA API credentials not configured',
@@ -178,22 +266,10 @@ export class ETAAdapter implements EInvoicingProvider {
         }
       }
 
-      // TODO: In production, make actual API call to ETA
-      // For now, return mock response
-      logger.info('ETA submission initiated', {
-        invoiceNumber: invoice.invoiceNumber,
-        standard: this.standard,
+      return await this.submitDocument(client, {
+        ...this.buildDocument(invoice),
+        signatures: [{ signatureType: 'I', value: invoice.signature }],
       })
-
-      // Generate ETA UUID (would be assigned by actual ETA system)
-      const etaUuid = `ETA-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
-
-      return {
-        success: true,
-        message: 'Invoice submitted to ETA',
-        etaUuid: etaUuid,
-        submissionTime: new Date(),
-      }
     } catch (error) {
       logger.error('ETA submission failed', {
         invoiceNumber: invoice.invoiceNumber,
@@ -214,7 +290,84 @@ export class ETAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Validate signature
+   * Submit a signed document as built by signDocument. Portal and network
+   * failures are thrown so callers can tell them from rejections.
+   */
+  async submitDocument(client: ETAPortalClient, document: ETADocument): Promise<SubmissionResult> {
+    const response = await client.submitDocuments([document])
+    const accepted = response.acceptedDocuments[0]
+
+    logger.info('ETA submission completed', {
+      internalId: document.internalID,
+      submissionId: response.submissionId,
+      accepted: Boolean(accepted),
+    })
+
+    return {
+      success: Boolean(accepted),
+      message: accepted ? 'Invoice accepted by ETA for validation' : 'Invoice rejected by ETA',
+      referenceNumber: response.submissionId,
+      etaUuid: accepted?.uuid,
+      etaLongId: accepted?.longId,
+      submissionTime: new Date(),
+      errors: response.rejectedDocuments.map((rejected) => ({
+        code: rejected.error.code,
+        message: rejected.error.message,
+      })),
+    }
+  }
+
+  /**
+   * Submit an e-receipt from a POS. Receipts are not signed; the UUID and
+   * previous-UUID chain identify them.
+   */
+  async submitReceipt(invoice: ETAInvoice, pos: ETAPosCredentials): Promise<SubmissionResult> {
+    const client = this.client ?? ETAPortalClient.fromEnvironment()
+    if (!client) {
+      return {
+        success: false,
+        message: 'ETA API credentials not configured',
+        errors: [{ code: 'CONFIG_ERROR', message: 'ETA credentials not set' }],
+      }
+    }
+
+    const receipt = this.buildReceipt(invoice)
+    const response = await client.submitReceipts([receipt], pos)
+    const accepted = response.acceptedDocuments[0]
+
+    logger.info('ETA receipt submitted', {
+      receiptNumber: receipt.header.receiptNumber,
+      uuid: receipt.header.uuid,
+      accepted: Boolean(accepted),
+    })
+
+    return {
+      success: Boolean(accepted),
+      message: accepted ? 'Receipt accepted by ETA' : 'Receipt rejected by ETA',
+      referenceNumber: response.submissionId,
+      etaUuid: receipt.header.uuid,
+      etaLongId: accepted?.longId,
+      submissionTime: new Date(),
+      errors: response.rejectedDocuments.map((rejected) => ({
+        code: rejected.error.code,
+        message: rejected.error.message,
+      })),
+    }
+  }
+
+  /**
+   * Poll a submission until ETA has validated its documents
+   */
+  async pollStatus(submissionId: string, options?: ETAPollOptions): Promise<ETASubmissionStatus> {
+    const client = this.client ?? ETAPortalClient.fromEnvironment()
+    if (!client) {
+      throw new Error('ETA API credentials not configured')
+    }
+    return client.pollSubmission(submissionId, options)
+  }
+
+  /**
+   * Verify the CAdES-BES signature against the canonical document
    */
   async validateSignature(invoice: ETAInvoice): Promise<boolean> {
     try {
@@ -222,12 +375,13 @@ export class ETAAdapter implements EInvoicingProvider {
         return false
       }
 
-      // TODO: In production, verify XML-DSig signature
+      const verification = verifyCadesBes(invoice.signature, serializeETADocument(this.buildDocument(invoice)))
       logger.debug('ETA signature validated', {
         invoiceNumber: invoice.invoiceNumber,
+        valid: verification.valid,
       })
 
-      return true
+      return verification.valid
     } catch (error) {
       logger.error('ETA signature validation failed', {
         invoiceNumber: invoice.invoiceNumber,
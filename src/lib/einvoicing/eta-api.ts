@@ -0,0 +1,205 @@
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { ETADocument, ETAReceipt } from './eta-document'
+
+/**
+ * ETA Portal Client
+ *
+ * OAuth client-credentials against the ETA identity server, document and
+ * receipt submission, and submission status polling. ETA validates
+ * documents asynchronously: a submission is accepted for processing first
+ * and each document later becomes Valid or Invalid.
+ */
+
+export type ETAEnvironment = 'preprod' | 'production'
+
+const ETA_URLS: Record<ETAEnvironment, { api: string; identity: string }> = {
+  preprod: { api: 'https://api.preprod.invoicing.eta.gov.eg', identity: 'https://id.preprod.eta.gov.eg' },
+  production: { api: 'https://api.invoicing.eta.gov.eg', identity: 'https://id.eta.gov.eg' },
+}
+
+export interface ETAClientConfig {
+  apiBaseUrl: string
+  identityBaseUrl: string
+  clientId: string
+  clientSecret: string
+}
+
+/** POS identification sent when requesting tokens for e-receipts */
+export interface ETAPosCredentials {
+  serialNumber: string
+  osVersion: string
+  presharedKey?: string
+  clientId: string
+  clientSecret: string
+}
+
+export interface ETAPortalError {
+  code: string
+  message: string
+  target?: string
+  details?: ETAPortalError[]
+}
+
+export interface ETASubmissionResponse {
+  submissionId: string
+  acceptedDocuments: Array<{ uuid: string; longId: string; internalId: string }>
+  rejectedDocuments: Array<{ internalId: string; error: ETAPortalError }>
+}
+
+export type ETADocumentStatus = 'Submitted' | 'Valid' | 'Invalid' | 'Rejected' | 'Cancelled'
+
+export interface ETASubmissionStatus {
+  submissionId: string
+  overallStatus: 'InProgress' | 'Valid' | 'Invalid' | 'PartiallyValid'
+  documentSummary: Array<{ uuid: string; longId: string; internalId: string; status: ETADocumentStatus }>
+}
+
+export interface ETADocumentDetails {
+  uuid: string
+  longId: string
+  internalId: string
+  status: ETADocumentStatus
+  validationResults?: {
+    status: string
+    validationSteps: Array<{ name: string; status: string; error?: ETAPortalError | null }>
+  }
+}
+
+export interface ETAReceiptSubmissionResponse {
+  submissionId: string
+  acceptedDocuments: Array<{ uuid: string; longId: string; receiptNumber: string }>
+  rejectedDocuments: Array<{ uuid: string; receiptNumber: string; error: ETAPortalError }>
+}
+
+export interface ETAPollOptions {
+  intervalMs?: number
+  maxAttempts?: number
+}
+
+interface CachedToken {
+  value: string
+  expiresAt: number
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
+
+export class ETAPortalClient {
+  private tokens = new Map<string, CachedToken>()
+
+  constructor(private config: ETAClientConfig) {}
+
+  /**
+   * Client configured from ETA_* environment variables, if any
+   */
+  static fromEnvironment(): ETAPortalClient | null {
+    const clientId = process.env.ETA_CLIENT_ID
+    const clientSecret = process.env.ETA_CLIENT_SECRET || process.env.ETA_API_KEY
+    if (!clientId || !clientSecret) return null
+
+    const environment: ETAEnvironment = process.env.ETA_ENVIRONMENT === 'production' ? 'production' : 'preprod'
+    return new ETAPortalClient({
+      apiBaseUrl: process.env.ETA_API_URL || ETA_URLS[environment].api,
+      identityBaseUrl: process.env.ETA_ID_SRV_URL || ETA_URLS[environment].identity,
+      clientId,
+      clientSecret,
+    })
+  }
+
+  /**
+   * Submit signed documents (max 100 per submission)
+   */
+  submitDocuments(documents: ETADocument[]): Promise<ETASubmissionResponse> {
+    return this.request('POST', '/api/v1/documentsubmissions', { documents })
+  }
+
+  getSubmission(submissionId: string): Promise<ETASubmissionStatus> {
+    return this.request('GET', `/api/v1/documentsubmissions/${encodeURIComponent(submissionId)}`)
+  }
+
+  getDocumentDetails(uuid: string): Promise<ETADocumentDetails> {
+    return this.request('GET', `/api/v1/documents/${encodeURIComponent(uuid)}/details`)
+  }
+
+  /**
+   * Submit receipts from one POS, in issue order
+   */
+  submitReceipts(receipts: ETAReceipt[], pos: ETAPosCredentials): Promise<ETAReceiptSubmissionResponse> {
+    return this.request('POST', '/api/v1/receiptsubmissions', { receipts }, pos)
+  }
+
+  /**
+   * Poll a submission until ETA finishes validating it
+   */
+  async pollSubmission(submissionId: string, options: ETAPollOptions = {}): Promise<ETASubmissionStatus> {
+    const intervalMs = options.intervalMs ?? 2000
+    const maxAttempts = options.maxAttempts ?? 10
+
+    let status = await this.getSubmission(submissionId)
+    for (let attempt = 1; attempt < maxAttempts && status.overallStatus === 'InProgress'; attempt++) {
+      await sleep(intervalMs)
+      status = await this.getSubmission(submissionId)
+    }
+    return status
+  }
+
+  private async token(pos?: ETAPosCredentials): Promise<string> {
+    const key = pos ? `pos:${pos.serialNumber}` : 'taxpayer'
+    const cached = this.tokens.get(key)
+    if (cached && cached.expiresAt > Date.now()) return cached.value
+
+    const response = await fetch(`${this.config.identityBaseUrl}/connect/token`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        ...(pos
+          ? { posserial: pos.serialNumber, pososversion: pos.osVersion, ...(pos.presharedKey ? { presharedkey: pos.presharedKey } : {}) }
+          : {}),
+      },
+      body: new URLSearchParams({
+        grant_type: 'client_credentials',
+        client_id: pos?.clientId ?? this.config.clientId,
+        client_secret: pos?.clientSecret ?? this.config.clientSecret,
+      }).toString(),
+    })
+
+    const body: any = await response.json().catch(() => ({}))
+    if (!response.ok || !body.access_token) {
+      throw new ApiError('ETA_AUTH_FAILED', 'ETA identity server rejected the client credentials', 502, {
+        portalStatus: response.status,
+        error: body.error,
+      })
+    }
+
+    // Refresh a minute early
+    const expiresIn = Number(body.expires_in ?? 3600)
+    this.tokens.set(key, { value: body.access_token, expiresAt: Date.now() + (expiresIn - 60) * 1000 })
+    return body.access_token
+  }
+
+  private async request<T>(method: 'GET' | 'POST', path: string, payload?: unknown, pos?: ETAPosCredentials): Promise<T> {
+    const token = await this.token(pos)
+    const response = await fetch(`${this.config.apiBaseUrl}${path}`, {
+      method,
+      headers: {
+        Authorization: `Bearer ${token}`,
+        Accept: 'application/json',
+        ...(payload !== undefined ? { 'Content-Type': 'application/json' } : {}),
+      },
+      body: payload !== undefined ? JSON.stringify(payload) : undefined,
+    })
+
+    const body: any = await response.json().catch(() => ({}))
+    logger.debug('ETA API response', { method, path, status: response.status })
+
+    if (!response.ok) {
+      throw new ApiError('ETA_PORTAL_ERROR', body?.error?.message || `ETA portal returned ${response.status}`, 502, {
+        portalStatus: response.status,
+        error: body?.error,
+      })
+    }
+    return body as T
+  }
+}
@@ -0,0 +1,189 @@
+import { createHash, createPrivateKey, createSign, createVerify, X509Certificate } from 'crypto'
+import {
+  decodeOid,
+  derBytes,
+  derContent,
+  derContext,
+  derInteger,
+  derNull,
+  derOctetString,
+  derOid,
+  derSequence,
+  derSet,
+  derUtcTime,
+  DER_TAGS,
+  readCertificateIssuerAndSerial,
+  readDer,
+  readDerChildren,
+} from './der'
+
+/**
+ * CAdES-BES Signatures for ETA
+ *
+ * ETA documents carry a detached CMS SignedData over the UTF-8 canonical
+ * string. Following the ETA signer, the content type is id-digestedData
+ * and the signed attributes hold the content type, signing time, message
+ * digest and an ESS signing-certificate-v2 reference (which is what makes
+ * the signature CAdES-BES).
+ */
+
+const OIDS = {
+  signedData: '1.2.840.113549.1.7.2',
+  digestedData: '1.2.840.113549.1.7.5',
+  sha256: '2.16.840.1.101.3.4.2.1',
+  rsaSha256: '1.2.840.113549.1.1.11',
+  ecdsaSha256: '1.2.840.10045.4.3.2',
+  contentType: '1.2.840.113549.1.9.3',
+  messageDigest: '1.2.840.113549.1.9.4',
+  signingTime: '1.2.840.113549.1.9.5',
+  signingCertificateV2: '1.2.840.113549.1.9.16.2.47',
+}
+
+export interface CadesSignOptions {
+  passphrase?: string
+  signingTime?: Date
+}
+
+export interface CadesVerification {
+  valid: boolean
+  errors: string[]
+  signingTime?: Date
+  signerSubject?: string
+}
+
+function sha256(data: Buffer | string): Buffer {
+  return createHash('sha256').update(data).digest()
+}
+
+function attribute(oid: string, value: Buffer): Buffer {
+  return derSequence(derOid(oid), derSet(value))
+}
+
+/**
+ * Create a detached CAdES-BES signature over content; returns base64 CMS
+ */
+export function signCadesBes(content: string, certificate: string, privateKey: string, options: CadesSignOptions = {}): string {
+  const certificateDer = new X509Certificate(certificate).raw
+  const { issuer, serialNumber } = readCertificateIssuerAndSerial(certificateDer)
+  const key = createPrivateKey({ key: privateKey, passphrase: options.passphrase })
+  const digestAlgorithm = derSequence(derOid(OIDS.sha256))
+  const signatureAlgorithm =
+    key.asymmetricKeyType === 'ec' ? derSequence(derOid(OIDS.ecdsaSha256)) : derSequence(derOid(OIDS.rsaSha256), derNull())
+
+  // ESSCertIDv2 with the default (SHA-256) hash algorithm omitted
+  const signingCertificate = derSequence(
+    derSequence(
+      derSequence(
+        derOctetString(sha256(certificateDer)),
+        derSequence(derSequence(derContext(4, issuer)), serialNumber)
+      )
+    )
+  )
+
+  const signedAttributes = derSet(
+    attribute(OIDS.contentType, derOid(OIDS.digestedData)),
+    attribute(OIDS.signingTime, derUtcTime(options.signingTime ?? new Date())),
+    attribute(OIDS.messageDigest, derOctetString(sha256(Buffer.from(content, 'utf8')))),
+    attribute(OIDS.signingCertificateV2, signingCertificate)
+  )
+
+  const signature = createSign('sha256').update(signedAttributes).sign(key)
+
+  // Signed attributes are signed as a SET and embedded as [0] IMPLICIT
+  const implicitAttributes = Buffer.from(signedAttributes)
+  implicitAttributes[0] = 0xa0
+
+  const signerInfo = derSequence(
+    derInteger(1),
+    derSequence(issuer, serialNumber),
+    digestAlgorithm,
+    implicitAttributes,
+    signatureAlgorithm,
+    derOctetString(signature)
+  )
+
+  const signedData = derSequence(
+    derInteger(1),
+    derSet(digestAlgorithm),
+    derSequence(derOid(OIDS.digestedData)),
+    derContext(0, certificateDer),
+    derSet(signerInfo)
+  )
+
+  return derSequence(derOid(OIDS.signedData), derContext(0, signedData)).toString('base64')
+}
+
+function parseUtcTime(value: string): Date {
+  const year = Number(value.slice(0, 2))
+  const iso = `${year < 50 ? 2000 + year : 1900 + year}-${value.slice(2, 4)}-${value.slice(4, 6)}T${value.slice(6, 8)}:${value.slice(8, 10)}:${value.slice(10, 12)}Z`
+  return new Date(iso)
+}
+
+/**
+ * Verify a detached CAdES-BES signature against the content it signs
+ */
+export function verifyCadesBes(signatureBase64: string, content: string): CadesVerification {
+  const errors: string[] = []
+  try {
+    const cms = Buffer.from(signatureBase64, 'base64')
+    const contentInfo = readDerChildren(cms, readDer(cms, 0))
+    if (decodeOid(derContent(cms, contentInfo[0])) !== OIDS.signedData) {
+      return { valid: false, errors: ['Not a CMS SignedData structure'] }
+    }
+
+    const signedData = readDer(cms, contentInfo[1].start)
+    const fields = readDerChildren(cms, signedData)
+    const certificates = fields.find((field) => field.tag === 0xa0)
+    const signerInfos = fields[fields.length - 1]
+    if (!certificates) return { valid: false, errors: ['Signing certificate is not embedded'] }
+
+    const certificateDer = Buffer.from(derBytes(cms, readDerChildren(cms, certificates)[0]))
+    const certificate = new X509Certificate(certificateDer)
+    const signerInfo = readDerChildren(cms, readDerChildren(cms, signerInfos)[0])
+    const attributesElement = signerInfo.find((field) => field.tag === 0xa0)
+    const signatureElement = signerInfo[signerInfo.length - 1]
+    if (!attributesElement || signatureElement.tag !== DER_TAGS.OCTET_STRING) {
+      return { valid: false, errors: ['Signer info has no signed attributes'] }
+    }
+
+    let signingTime: Date | undefined
+    let messageDigest: Buffer | undefined
+    let certificateHash: Buffer | undefined
+    for (const attr of readDerChildren(cms, attributesElement)) {
+      const [oid, values] = readDerChildren(cms, attr)
+      const value = readDerChildren(cms, values)[0]
+      switch (decodeOid(derContent(cms, oid))) {
+        case OIDS.signingTime:
+          signingTime = parseUtcTime(derContent(cms, value).toString('ascii'))
+          break
+        case OIDS.messageDigest:
+          messageDigest = derContent(cms, value)
+          break
+        case OIDS.signingCertificateV2: {
+          const certIds = readDerChildren(cms, value)[0]
+          const essCertId = readDerChildren(cms, certIds)[0]
+          certificateHash = derContent(cms, readDerChildren(cms, essCertId)[0])
+          break
+        }
+      }
+    }
+
+    if (!messageDigest || !messageDigest.equals(sha256(Buffer.from(content, 'utf8')))) {
+      errors.push('Message digest does not match the document')
+    }
+    if (!certificateHash || !certificateHash.equals(sha256(certificateDer))) {
+      errors.push('Signing certificate reference does not match the embedded certificate')
+    }
+
+    const signedAttributes = Buffer.from(derBytes(cms, attributesElement))
+    signedAttributes[0] = DER_TAGS.SET
+    const verified = createVerify('sha256')
+      .update(signedAttributes)
+      .verify(certificate.publicKey, derContent(cms, signatureElement))
+    if (!verified) errors.push('Signature does not verify against the signing certificate')
+
+    return { valid: errors.length === 0, errors, signingTime, signerSubject: certificate.subject }
+  } catch (error) {
+    return { valid: false, errors: [`Malformed signature: ${String(error)}`] }
+  }
+}
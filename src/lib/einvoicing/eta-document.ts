@@ -0,0 +1,362 @@
+import { ETAInvoice, LineTaxCategory } from './types'
+import { hashETACanonical, serializeETA } from './eta-serializer'
+
+/**
+ * ETA Document Builder
+ *
+ * Builds the JSON documents accepted by the ETA portal: e-invoices
+ * (document type version 1.0) and e-receipts (receipt type version 1.2).
+ * Property order follows the ETA samples and must not change, since the
+ * canonical serialization - and so the signature and receipt UUID - is
+ * taken over the document as built.
+ */
+
+/** VAT (T1) sub-types by tax category */
+const VAT_SUBTYPES: Record<LineTaxCategory, string> = {
+  STANDARD: 'V009', // General item sales
+  ZERO_RATED: 'V001', // Export
+  EXEMPT: 'V003', // Exempted good or service
+  OUT_OF_SCOPE: 'V004', // Non-taxable good or service
+  REVERSE_CHARGE: 'V004',
+}
+
+const DOCUMENT_TYPES: Record<ETAInvoice['documentType'], 'I' | 'C' | 'D'> = {
+  INVOICE: 'I',
+  CREDIT_NOTE: 'C',
+  DEBIT_NOTE: 'D',
+  RECEIPT: 'I',
+}
+
+export interface ETAAddress {
+  branchID?: string
+  country: string
+  governate: string
+  regionCity: string
+  street: string
+  buildingNumber: string
+  postalCode?: string
+  floor?: string
+}
+
+export interface ETATaxableItem {
+  taxType: string
+  amount: number
+  subType: string
+  rate: number
+}
+
+export interface ETAUnitValue {
+  currencySold: string
+  amountEGP: number
+  amountSold?: number
+  currencyExchangeRate?: number
+}
+
+export interface ETAInvoiceLine {
+  description: string
+  itemType: string
+  itemCode: string
+  unitType: string
+  quantity: number
+  internalCode: string
+  salesTotal: number
+  total: number
+  valueDifference: number
+  totalTaxableFees: number
+  netTotal: number
+  itemsDiscount: number
+  unitValue: ETAUnitValue
+  discount: { rate: number; amount: number }
+  taxableItems: ETATaxableItem[]
+}
+
+export interface ETASignature {
+  signatureType: 'I' | 'S' // Issuer or service provider
+  value: string
+}
+
+export interface ETADocument {
+  issuer: { address: ETAAddress; type: 'B'; id: string; name: string }
+  receiver: { address?: ETAAddress; type: 'B' | 'P' | 'F'; id?: string; name?: string }
+  documentType: 'I' | 'C' | 'D'
+  documentTypeVersion: '1.0'
+  dateTimeIssued: string
+  taxpayerActivityCode: string
+  internalID: string
+  references?: string[]
+  invoiceLines: ETAInvoiceLine[]
+  totalDiscountAmount: number
+  totalSalesAmount: number
+  netAmount: number
+  taxTotals: Array<{ taxType: string; amount: number }>
+  totalAmount: number
+  extraDiscountAmount: number
+  totalItemsDiscountAmount: number
+  signatures?: ETASignature[]
+}
+
+export interface ETAReceiptItem {
+  internalCode: string
+  description: string
+  itemType: string
+  itemCode: string
+  unitType: string
+  quantity: number
+  unitPrice: number
+  netSale: number
+  totalSale: number
+  total: number
+  commercialDiscountData?: Array<{ amount: number; description: string }>
+  taxableItems: ETATaxableItem[]
+}
+
+export interface ETAReceipt {
+  header: {
+    dateTimeIssued: string
+    receiptNumber: string
+    uuid: string
+    previousUUID: string
+    referenceUUID?: string // Original receipt, for returns
+    currency: string
+    exchangeRate: number
+  }
+  documentType: { receiptType: 'S' | 'R'; typeVersion: '1.2' }
+  seller: {
+    rin: string
+    companyTradeName: string
+    branchCode: string
+    branchAddress: ETAAddress
+    deviceSerialNumber: string
+    activityCode: string
+  }
+  buyer: { type: 'B' | 'P' | 'F'; id?: string; name?: string }
+  itemData: ETAReceiptItem[]
+  totalSales: number
+  totalCommercialDiscount: number
+  netAmount: number
+  taxTotals: Array<{ taxType: string; amount: number }>
+  totalAmount: number
+  paymentMethod: 'C' | 'V' | 'O' // Cash, visa, other
+}
+
+function round(value: number, decimals = 5): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * ETA timestamps are UTC without milliseconds
+ */
+export function formatETADateTime(date: Date): string {
+  return `${date.toISOString().slice(0, 19)}Z`
+}
+
+function issuerAddress(invoice: ETAInvoice): ETAAddress {
+  const seller = invoice.seller
+  return {
+    branchID: seller.branchId ?? '0',
+    country: 'EG',
+    governate: seller.governorate ?? '',
+    regionCity: seller.city ?? '',
+    street: seller.street || seller.address,
+    buildingNumber: seller.building ?? '',
+    ...(seller.postalCode ? { postalCode: seller.postalCode } : {}),
+    ...(seller.floor ? { floor: seller.floor } : {}),
+  }
+}
+
+/**
+ * Receiver type: business (has a TIN), foreigner, or Egyptian person
+ */
+export function resolveReceiverType(invoice: ETAInvoice): 'B' | 'P' | 'F' {
+  if (invoice.buyer?.taxNumber) return 'B'
+  if (invoice.buyer?.country && invoice.buyer.country !== 'EG') return 'F'
+  return 'P'
+}
+
+interface ComputedLine {
+  line: ETAInvoice['lineItems'][number]
+  salesTotal: number
+  discount: number
+  netTotal: number
+  taxable: ETATaxableItem[]
+  total: number
+}
+
+function computeLine(line: ETAInvoice['lineItems'][number], exchangeRate: number): ComputedLine {
+  const discount = round((line.discount || 0) * exchangeRate)
+  const netTotal = round((line.lineTotal - line.taxAmount) * exchangeRate)
+  const salesTotal = round(netTotal + discount)
+  const tax = round(line.taxAmount * exchangeRate)
+  const category = line.taxCategory ?? (line.taxPercent > 0 ? 'STANDARD' : 'ZERO_RATED')
+
+  return {
+    line,
+    salesTotal,
+    discount,
+    netTotal,
+    taxable: [{ taxType: 'T1', amount: tax, subType: VAT_SUBTYPES[category], rate: category === 'STANDARD' ? line.taxPercent : 0 }],
+    total: round(netTotal + tax),
+  }
+}
+
+function sumTaxes(lines: ComputedLine[]): Array<{ taxType: string; amount: number }> {
+  const totals = new Map<string, number>()
+  for (const line of lines) {
+    for (const tax of line.taxable) totals.set(tax.taxType, round((totals.get(tax.taxType) ?? 0) + tax.amount))
+  }
+  return Array.from(totals, ([taxType, amount]) => ({ taxType, amount }))
+}
+
+function rateFor(invoice: ETAInvoice): number {
+  const currency = invoice.currency || 'EGP'
+  return currency === 'EGP' ? 1 : invoice.exchangeRate ?? 0
+}
+
+/**
+ * Build an ETA e-invoice, credit note or debit note (unsigned)
+ */
+export function buildETADocument(invoice: ETAInvoice): ETADocument {
+  const currency = invoice.currency || 'EGP'
+  const exchangeRate = rateFor(invoice)
+  const lines = invoice.lineItems.map((line) => computeLine(line, exchangeRate))
+  const taxTotals = sumTaxes(lines)
+  const netAmount = round(lines.reduce((sum, l) => sum + l.netTotal, 0))
+  const receiverType = resolveReceiverType(invoice)
+
+  return {
+    issuer: {
+      address: issuerAddress(invoice),
+      type: 'B',
+      id: invoice.seller.taxNumber,
+      name: invoice.seller.name,
+    },
+    receiver: {
+      ...(invoice.buyer?.address || invoice.buyer?.city
+        ? {
+            address: {
+              country: invoice.buyer?.country || 'EG',
+              governate: invoice.buyer?.governorate ?? '',
+              regionCity: invoice.buyer?.city ?? '',
+              street: invoice.buyer?.street || invoice.buyer?.address || '',
+              buildingNumber: invoice.buyer?.building ?? '',
+            },
+          }
+        : {}),
+      type: receiverType,
+      ...(receiverType === 'B' ? { id: invoice.buyer?.taxNumber } : invoice.buyer?.identityNumber ? { id: invoice.buyer.identityNumber } : {}),
+      ...(invoice.buyer?.name ? { name: invoice.buyer.name } : {}),
+    },
+    documentType: DOCUMENT_TYPES[invoice.documentType],
+    documentTypeVersion: '1.0',
+    dateTimeIssued: formatETADateTime(invoice.issueDate),
+    taxpayerActivityCode: invoice.seller.activity ?? '',
+    internalID: invoice.invoiceNumber,
+    ...(invoice.documentType === 'CREDIT_NOTE' || invoice.documentType === 'DEBIT_NOTE'
+      ? { references: invoice.references ?? [] }
+      : {}),
+    invoiceLines: lines.map((l) => ({
+      description: l.line.description,
+      itemType: l.line.codeType ?? 'EGS',
+      itemCode: l.line.itemCode ?? '',
+      unitType: l.line.unitType ?? 'EA',
+      quantity: l.line.quantity,
+      internalCode: l.line.internalCode ?? l.line.id,
+      salesTotal: l.salesTotal,
+      total: l.total,
+      valueDifference: 0,
+      totalTaxableFees: 0,
+      netTotal: l.netTotal,
+      itemsDiscount: 0,
+      unitValue:
+        currency === 'EGP'
+          ? { currencySold: 'EGP', amountEGP: round(l.salesTotal / l.line.quantity) }
+          : {
+              currencySold: currency,
+              amountEGP: round(l.salesTotal / l.line.quantity),
+              amountSold: round(l.salesTotal / l.line.quantity / (exchangeRate || 1)),
+              currencyExchangeRate: exchangeRate,
+            },
+      discount: { rate: 0, amount: l.discount },
+      taxableItems: l.taxable,
+    })),
+    totalDiscountAmount: round(lines.reduce((sum, l) => sum + l.discount, 0)),
+    totalSalesAmount: round(lines.reduce((sum, l) => sum + l.salesTotal, 0)),
+    netAmount,
+    taxTotals,
+    totalAmount: round(netAmount + taxTotals.reduce((sum, t) => sum + t.amount, 0)),
+    extraDiscountAmount: 0,
+    totalItemsDiscountAmount: 0,
+  }
+}
+
+/**
+ * Receipt UUID: SHA-256 of the canonical receipt with an empty uuid
+ */
+export function computeReceiptUuid(receipt: ETAReceipt): string {
+  return hashETACanonical(serializeETA({ ...receipt, header: { ...receipt.header, uuid: '' } }))
+}
+
+/**
+ * Build an ETA e-receipt chained to the previous receipt of the POS
+ */
+export function buildETAReceipt(invoice: ETAInvoice): ETAReceipt {
+  if (!invoice.receipt) {
+    throw new Error('Receipt details (POS serial and previous UUID) are required')
+  }
+
+  const lines = invoice.lineItems.map((line) => computeLine(line, 1))
+  const taxTotals = sumTaxes(lines)
+  const netAmount = round(lines.reduce((sum, l) => sum + l.netTotal, 0))
+  const isReturn = invoice.documentType === 'CREDIT_NOTE'
+  const buyerType = resolveReceiverType(invoice)
+
+  const receipt: ETAReceipt = {
+    header: {
+      dateTimeIssued: formatETADateTime(invoice.issueDate),
+      receiptNumber: invoice.invoiceNumber,
+      uuid: '',
+      previousUUID: invoice.receipt.previousUuid,
+      ...(isReturn && invoice.references?.[0] ? { referenceUUID: invoice.references[0] } : {}),
+      currency: 'EGP',
+      exchangeRate: 0,
+    },
+    documentType: { receiptType: isReturn ? 'R' : 'S', typeVersion: '1.2' },
+    seller: {
+      rin: invoice.seller.taxNumber,
+      companyTradeName: invoice.seller.name,
+      branchCode: invoice.seller.branchId ?? '0',
+      branchAddress: issuerAddress(invoice),
+      deviceSerialNumber: invoice.receipt.deviceSerialNumber,
+      activityCode: invoice.seller.activity ?? '',
+    },
+    buyer: {
+      type: buyerType,
+      ...(buyerType === 'B' ? { id: invoice.buyer?.taxNumber } : invoice.buyer?.identityNumber ? { id: invoice.buyer.identityNumber } : {}),
+      ...(invoice.buyer?.name ? { name: invoice.buyer.name } : {}),
+    },
+    itemData: lines.map((l) => ({
+      internalCode: l.line.internalCode ?? l.line.id,
+      description: l.line.description,
+      itemType: l.line.codeType ?? 'EGS',
+      itemCode: l.line.itemCode ?? '',
+      unitType: l.line.unitType ?? 'EA',
+      quantity: l.line.quantity,
+      unitPrice: round(l.salesTotal / l.line.quantity),
+      netSale: l.netTotal,
+      totalSale: l.salesTotal,
+      total: l.total,
+      ...(l.discount > 0 ? { commercialDiscountData: [{ amount: l.discount, description: 'Discount' }] } : {}),
+      taxableItems: l.taxable,
+    })),
+    totalSales: round(lines.reduce((sum, l) => sum + l.salesTotal, 0)),
+    totalCommercialDiscount: round(lines.reduce((sum, l) => sum + l.discount, 0)),
+    netAmount,
+    taxTotals,
+    totalAmount: round(netAmount + taxTotals.reduce((sum, t) => sum + t.amount, 0)),
+    paymentMethod: invoice.paymentTerms?.method === 'CASH' || !invoice.paymentTerms ? 'C' : 'O',
+  }
+
+  receipt.header.uuid = computeReceiptUuid(receipt)
+  return receipt
+}
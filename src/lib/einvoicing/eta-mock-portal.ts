@@ -0,0 +1,254 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { AddressInfo } from 'net'
+import { randomBytes, randomUUID } from 'crypto'
+import { ETAClientConfig, ETADocumentStatus, ETAPortalError } from './eta-api'
+import { ETADocument, ETAReceipt, computeReceiptUuid } from './eta-document'
+import { hashETACanonical, serializeETADocument } from './eta-serializer'
+import { verifyCadesBes } from './eta-cades'
+
+/**
+ * ETA Mock Portal
+ *
+ * An in-process HTTP server implementing the parts of the ETA identity and
+ * invoicing APIs the client uses. Documents are checked the way ETA does
+ * (signature over the canonical form, totals, duplicates; receipt UUIDs
+ * and previous-UUID chaining) and stay "Submitted" for a configurable
+ * number of status polls, so submission and polling can be tested offline.
+ */
+
+export interface ETAMockPortalOptions {
+  clientId?: string
+  clientSecret?: string
+  pendingPolls?: number // Status polls answered with InProgress before results
+}
+
+export interface ETAMockPortal {
+  url: string
+  config: ETAClientConfig
+  documents: Map<string, StoredDocument>
+  close(): Promise<void>
+}
+
+interface StoredDocument {
+  uuid: string
+  longId: string
+  internalId: string
+  submissionId: string
+  status: ETADocumentStatus
+  errors: ETAPortalError[]
+}
+
+interface StoredSubmission {
+  uuids: string[]
+  polls: number
+}
+
+const TOLERANCE = 0.01
+
+function readBody(request: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = ''
+    request.on('data', (chunk) => (data += chunk))
+    request.on('end', () => resolve(data))
+    request.on('error', reject)
+  })
+}
+
+function send(response: ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+/**
+ * Validation ETA performs after a document is accepted for processing
+ */
+export function validateETADocument(document: ETADocument): ETAPortalError[] {
+  const errors: ETAPortalError[] = []
+  const signature = document.signatures?.find((s) => s.signatureType === 'I')
+  if (!signature) {
+    errors.push({ code: 'SignatureMissing', message: 'Issuer signature is required' })
+  } else {
+    const verification = verifyCadesBes(signature.value, serializeETADocument(document))
+    for (const message of verification.errors) errors.push({ code: 'InvalidSignature', message })
+  }
+
+  if (!/^\d{9}$/.test(document.issuer.id)) {
+    errors.push({ code: 'InvalidIssuer', message: 'Issuer id must be a 9-digit registration number', target: 'issuer.id' })
+  }
+  if (!/^\d{4}$/.test(document.taxpayerActivityCode)) {
+    errors.push({ code: 'InvalidActivityCode', message: 'Taxpayer activity code must have 4 digits', target: 'taxpayerActivityCode' })
+  }
+  if ((document.documentType === 'C' || document.documentType === 'D') && !document.references?.length) {
+    errors.push({ code: 'ReferencesRequired', message: 'Credit and debit notes must reference the original document' })
+  }
+
+  let net = 0
+  for (const [index, line] of document.invoiceLines.entries()) {
+    const taxes = line.taxableItems.reduce((sum, tax) => sum + tax.amount, 0)
+    if (!line.itemCode) {
+      errors.push({ code: 'ItemCodeRequired', message: 'Item code is required', target: `invoiceLines[${index}].itemCode` })
+    }
+    if (Math.abs(line.salesTotal - line.discount.amount - line.netTotal) > TOLERANCE) {
+      errors.push({ code: 'IncorrectNetTotal', message: 'Net total does not match', target: `invoiceLines[${index}].netTotal` })
+    }
+    if (Math.abs(line.netTotal + taxes - line.itemsDiscount - line.total) > TOLERANCE) {
+      errors.push({ code: 'IncorrectTotal', message: 'Line total does not match', target: `invoiceLines[${index}].total` })
+    }
+    net += line.netTotal
+  }
+
+  const taxTotal = document.taxTotals.reduce((sum, tax) => sum + tax.amount, 0)
+  if (Math.abs(net - document.netAmount) > TOLERANCE) {
+    errors.push({ code: 'IncorrectNetAmount', message: 'Net amount does not match the lines', target: 'netAmount' })
+  }
+  if (Math.abs(document.netAmount + taxTotal - document.extraDiscountAmount - document.totalAmount) > TOLERANCE) {
+    errors.push({ code: 'IncorrectTotalAmount', message: 'Total amount does not match', target: 'totalAmount' })
+  }
+  return errors
+}
+
+/**
+ * Start the mock portal on a random local port
+ */
+export async function startETAMockPortal(options: ETAMockPortalOptions = {}): Promise<ETAMockPortal> {
+  const clientId = options.clientId ?? 'mock-client'
+  const clientSecret = options.clientSecret ?? 'mock-secret'
+  const pendingPolls = options.pendingPolls ?? 1
+
+  const tokens = new Set<string>()
+  const documents = new Map<string, StoredDocument>()
+  const submissions = new Map<string, StoredSubmission>()
+  const lastReceiptByDevice = new Map<string, string>()
+
+  const handle = async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? '/', 'http://localhost')
+    const raw = await readBody(request)
+
+    if (request.method === 'POST' && url.pathname === '/connect/token') {
+      const form = new URLSearchParams(raw)
+      if (form.get('client_id') !== clientId || form.get('client_secret') !== clientSecret) {
+        return send(response, 401, { error: 'invalid_client' })
+      }
+      const token = randomBytes(16).toString('hex')
+      tokens.add(token)
+      return send(response, 200, { access_token: token, token_type: 'Bearer', expires_in: 3600 })
+    }
+
+    const token = (request.headers.authorization ?? '').replace(/^Bearer /, '')
+    if (!tokens.has(token)) {
+      return send(response, 401, { error: { code: 'Unauthorized', message: 'Invalid or expired token' } })
+    }
+
+    if (request.method === 'POST' && url.pathname === '/api/v1/documentsubmissions') {
+      const { documents: submitted = [] } = JSON.parse(raw || '{}') as { documents?: ETADocument[] }
+      const submissionId = randomUUID()
+      const accepted: Array<{ uuid: string; longId: string; internalId: string }> = []
+      const rejected: Array<{ internalId: string; error: ETAPortalError }> = []
+
+      for (const document of submitted) {
+        const uuid = hashETACanonical(serializeETADocument(document))
+        if (documents.has(uuid)) {
+          rejected.push({ internalId: document.internalID, error: { code: 'DuplicateSubmission', message: 'Document already submitted' } })
+          continue
+        }
+        const stored: StoredDocument = {
+          uuid,
+          longId: randomBytes(24).toString('hex'),
+          internalId: document.internalID,
+          submissionId,
+          status: 'Submitted',
+          errors: validateETADocument(document),
+        }
+        documents.set(uuid, stored)
+        accepted.push({ uuid, longId: stored.longId, internalId: stored.internalId })
+      }
+
+      submissions.set(submissionId, { uuids: accepted.map((d) => d.uuid), polls: 0 })
+      return send(response, 202, { submissionId, acceptedDocuments: accepted, rejectedDocuments: rejected })
+    }
+
+    const submissionMatch = url.pathname.match(/^\/api\/v1\/documentsubmissions\/([^/]+)$/)
+    if (request.method === 'GET' && submissionMatch) {
+      const submission = submissions.get(submissionMatch[1])
+      if (!submission) return send(response, 404, { error: { code: 'NotFound', message: 'Submission not found' } })
+
+      submission.polls += 1
+      const resolved = submission.polls > pendingPolls
+      const summary = submission.uuids.map((uuid) => {
+        const document = documents.get(uuid)!
+        if (resolved && document.status === 'Submitted') {
+          document.status = document.errors.length ? 'Invalid' : 'Valid'
+        }
+        return { uuid, longId: document.longId, internalId: document.internalId, status: document.status }
+      })
+
+      const statuses = new Set(summary.map((d) => d.status))
+      const overallStatus = !resolved
+        ? 'InProgress'
+        : statuses.size === 1 && statuses.has('Valid')
+          ? 'Valid'
+          : statuses.has('Valid')
+            ? 'PartiallyValid'
+            : 'Invalid'
+      return send(response, 200, { submissionId: submissionMatch[1], overallStatus, documentSummary: summary })
+    }
+
+    const detailsMatch = url.pathname.match(/^\/api\/v1\/documents\/([^/]+)\/details$/)
+    if (request.method === 'GET' && detailsMatch) {
+      const document = documents.get(detailsMatch[1])
+      if (!document) return send(response, 404, { error: { code: 'NotFound', message: 'Document not found' } })
+      return send(response, 200, {
+        uuid: document.uuid,
+        longId: document.longId,
+        internalId: document.internalId,
+        status: document.status,
+        validationResults: {
+          status: document.status,
+          validationSteps: document.errors.map((error) => ({ name: error.code, status: 'Invalid', error })),
+        },
+      })
+    }
+
+    if (request.method === 'POST' && url.pathname === '/api/v1/receiptsubmissions') {
+      const { receipts = [] } = JSON.parse(raw || '{}') as { receipts?: ETAReceipt[] }
+      const submissionId = randomUUID()
+      const accepted: Array<{ uuid: string; longId: string; receiptNumber: string }> = []
+      const rejected: Array<{ uuid: string; receiptNumber: string; error: ETAPortalError }> = []
+
+      for (const receipt of receipts) {
+        const device = receipt.seller.deviceSerialNumber
+        const expectedPrevious = lastReceiptByDevice.get(device)
+        let error: ETAPortalError | null = null
+        if (computeReceiptUuid(receipt) !== receipt.header.uuid) {
+          error = { code: 'InvalidUUID', message: 'Receipt UUID does not match its content' }
+        } else if (expectedPrevious && receipt.header.previousUUID !== expectedPrevious) {
+          error = { code: 'InvalidPreviousUUID', message: 'Previous UUID does not match the last receipt of the POS' }
+        }
+
+        if (error) {
+          rejected.push({ uuid: receipt.header.uuid, receiptNumber: receipt.header.receiptNumber, error })
+          continue
+        }
+        lastReceiptByDevice.set(device, receipt.header.uuid)
+        accepted.push({ uuid: receipt.header.uuid, longId: randomBytes(24).toString('hex'), receiptNumber: receipt.header.receiptNumber })
+      }
+
+      return send(response, 202, { submissionId, acceptedDocuments: accepted, rejectedDocuments: rejected })
+    }
+
+    return send(response, 404, { error: { code: 'NotFound', message: `No route for ${request.method} ${url.pathname}` } })
+  }
+
+  const server = createServer((request, response) => {
+    handle(request, response).catch((error) => send(response, 500, { error: { code: 'ServerError', message: String(error) } }))
+  })
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+
+  const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  return {
+    url,
+    config: { apiBaseUrl: url, identityBaseUrl: url, clientId, clientSecret },
+    documents,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  }
+}
@@ -0,0 +1,55 @@
+import { createHash } from 'crypto'
+
+/**
+ * ETA Canonical Serialization
+ *
+ * Egypt's ETA signs and hashes documents over a canonical string rather
+ * than the JSON itself: every property name is upper-cased and quoted,
+ * followed by its serialized value; array members are each prefixed with
+ * the array's property name; scalar values are quoted verbatim. Property
+ * order is the document's own, so documents must be built in a stable
+ * order and submitted exactly as serialized.
+ */
+
+type JsonValue = string | number | boolean | null | undefined | JsonValue[] | { [key: string]: JsonValue }
+
+function serializeValue(value: JsonValue): string {
+  if (value === null || value === undefined) return '""'
+  if (typeof value !== 'object') return `"${String(value)}"`
+  if (Array.isArray(value)) return value.map(serializeValue).join('')
+
+  let serialized = ''
+  for (const [key, member] of Object.entries(value)) {
+    if (member === undefined) continue
+    const name = `"${key.toUpperCase()}"`
+    if (Array.isArray(member)) {
+      serialized += name
+      for (const item of member) serialized += name + serializeValue(item)
+    } else {
+      serialized += name + serializeValue(member)
+    }
+  }
+  return serialized
+}
+
+/**
+ * Canonical string of a JSON document
+ */
+export function serializeETA(document: object): string {
+  return serializeValue(document as JsonValue)
+}
+
+/**
+ * Canonical string of a document as signed: signatures are excluded
+ */
+export function serializeETADocument(document: object): string {
+  const { signatures: _signatures, ...unsigned } = document as Record<string, JsonValue>
+  return serializeETA(unsigned)
+}
+
+/**
+ * Hex SHA-256 of a canonical string (document and receipt UUIDs)
+ */
+export function hashETACanonical(canonical: string): string {
+  return createHash('sha256').update(canonical, 'utf8').digest('hex')
+}
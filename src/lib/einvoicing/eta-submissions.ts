@@ -0,0 +1,247 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { CertificateData, ETAInvoice } from './types'
+import { ETAAdapter } from './eta-adapter'
+import { ETADocumentStatus, ETAPortalClient } from './eta-api'
+import { loadETAItemCodes, loadInvoiceForEInvoicing, mapInvoiceToETA } from './invoice-mapper'
+
+/**
+ * ETA Submissions
+ *
+ * Signs and submits e-invoices and e-receipts and records each as an
+ * EtaDocument. Documents stay SUBMITTED until a status poll reports the
+ * portal's validation result. Receipts chain per POS through
+ * lastReceiptUuid, advanced with a compare-and-set so two receipts can
+ * never claim the same previous UUID.
+ */
+
+const MAX_RECEIPT_ATTEMPTS = 5
+
+const STATUS_BY_PORTAL: Record<ETADocumentStatus, string> = {
+  Submitted: 'SUBMITTED',
+  Valid: 'VALID',
+  Invalid: 'INVALID',
+  Rejected: 'REJECTED',
+  Cancelled: 'CANCELLED',
+}
+
+/**
+ * Issuer signing certificate (the taxpayer's ETA token) from the environment
+ */
+export function getETASigningCertificate(): CertificateData | null {
+  const privateKey = process.env.ETA_PRIVATE_KEY
+  const certificate = process.env.ETA_CERTIFICATE
+  if (!privateKey || !certificate) return null
+  return { privateKey, certificate, password: process.env.ETA_PRIVATE_KEY_PASSWORD, algorithm: 'SHA256_RSA' }
+}
+
+function requireClient(client?: ETAPortalClient): ETAPortalClient {
+  const resolved = client ?? ETAPortalClient.fromEnvironment()
+  if (!resolved) throw new ApiError('CONFIG_ERROR', 'ETA API credentials not configured', 400)
+  return resolved
+}
+
+async function loadSourceInvoice(tenantId: string, invoiceId: string) {
+  const invoice = await loadInvoiceForEInvoicing(invoiceId, tenantId)
+  if (!invoice) throw new ApiError('NOT_FOUND', 'Invoice not found', 404)
+  if (invoice.status === 'DRAFT' || invoice.status === 'VOID') {
+    throw new ApiError('INVALID_STATE', `Cannot submit a ${invoice.status} invoice`, 409)
+  }
+  if (!invoice.entityId) {
+    throw new ApiError('INVALID_STATE', 'Invoice has no issuing entity', 409)
+  }
+  return invoice as typeof invoice & { entityId: string }
+}
+
+/**
+ * ETA UUID of the accepted document a credit or debit note adjusts
+ */
+async function resolveReferences(tenantId: string, originalInvoiceId: string | null, kind: 'INVOICE' | 'RECEIPT') {
+  if (!originalInvoiceId) return undefined
+  const original = await prisma.etaDocument.findFirst({
+    where: { tenantId, invoiceId: originalInvoiceId, kind, status: 'VALID' },
+    orderBy: { submittedAt: 'desc' },
+  })
+  if (!original?.uuid) {
+    throw new ApiError('REFERENCE_NOT_SUBMITTED', 'The original invoice has no valid ETA document to reference', 409)
+  }
+  return [original.uuid]
+}
+
+/**
+ * Sign and submit an invoice, credit or debit note. Idempotent while a
+ * previous submission is pending or valid.
+ */
+export async function submitETAInvoice(
+  tenantId: string,
+  invoiceId: string,
+  options: { buyer?: ETAInvoice['buyer']; certificate?: CertificateData; client?: ETAPortalClient } = {}
+) {
+  const existing = await prisma.etaDocument.findFirst({
+    where: { tenantId, invoiceId, kind: 'INVOICE', status: { in: ['SUBMITTED', 'VALID'] } },
+  })
+  if (existing) return { document: existing, errors: [] as Array<{ code: string; message: string }> }
+
+  const certificate = options.certificate ?? getETASigningCertificate()
+  if (!certificate) {
+    throw new ApiError('CONFIG_ERROR', 'ETA signing certificate not configured', 400, {
+      missing: ['ETA_CERTIFICATE', 'ETA_PRIVATE_KEY'],
+    })
+  }
+
+  const invoice = await loadSourceInvoice(tenantId, invoiceId)
+  const etaInvoice = mapInvoiceToETA(invoice, {
+    itemCodes: await loadETAItemCodes(tenantId, invoice.entityId),
+    references: await resolveReferences(tenantId, invoice.originalInvoiceId, 'INVOICE'),
+    buyer: options.buyer,
+  })
+
+  const client = requireClient(options.client)
+  const adapter = new ETAAdapter(client)
+  const validation = adapter.validateInvoice(etaInvoice)
+  if (!validation.isValid) {
+    throw new ApiError('VALIDATION_FAILED', 'Invoice is not valid for ETA submission', 422, { errors: validation.errors })
+  }
+
+  const signedAt = new Date()
+  const signed = await adapter.signDocument(etaInvoice, certificate, signedAt)
+  const result = await adapter.submitDocument(client, signed.document)
+
+  const document = await prisma.etaDocument.create({
+    data: {
+      tenantId,
+      invoiceId,
+      kind: 'INVOICE',
+      uuid: result.etaUuid ?? null,
+      longId: result.etaLongId ?? null,
+      submissionId: result.referenceNumber ?? null,
+      document: signed.document as any,
+      status: result.success ? 'SUBMITTED' : 'REJECTED',
+      response: { message: result.message, errors: result.errors ?? [] } as any,
+      signedAt,
+    },
+  })
+
+  logger.info('ETA document submitted', { invoiceId, documentId: document.id, status: document.status })
+  return { document, errors: result.errors ?? [] }
+}
+
+/**
+ * Poll the portal for a submitted document and record its status.
+ * Invalid documents keep the portal's validation steps in the response.
+ */
+export async function refreshETADocument(tenantId: string, documentId: string, client?: ETAPortalClient) {
+  const document = await prisma.etaDocument.findFirst({ where: { id: documentId, tenantId } })
+  if (!document) throw new ApiError('NOT_FOUND', 'ETA document not found', 404)
+  if (document.kind !== 'INVOICE' || document.status !== 'SUBMITTED' || !document.submissionId) return document
+
+  const portal = requireClient(client)
+  const submission = await portal.getSubmission(document.submissionId)
+  const summary = submission.documentSummary.find((entry) => entry.uuid === document.uuid)
+  if (!summary || summary.status === 'Submitted') return document
+
+  const details = summary.status === 'Invalid' ? await portal.getDocumentDetails(summary.uuid) : null
+
+  return prisma.etaDocument.update({
+    where: { id: document.id },
+    data: {
+      status: STATUS_BY_PORTAL[summary.status],
+      longId: summary.longId || document.longId,
+      response: {
+        ...((document.response ?? {}) as Record<string, unknown>),
+        overallStatus: submission.overallStatus,
+        validationSteps: details?.validationResults?.validationSteps ?? [],
+      } as any,
+    },
+  })
+}
+
+/**
+ * Issue an e-receipt from a POS, chained to the device's last receipt
+ */
+export async function submitETAReceipt(
+  tenantId: string,
+  invoiceId: string,
+  posDeviceId: string,
+  options: { buyer?: ETAInvoice['buyer']; client?: ETAPortalClient } = {}
+) {
+  const existing = await prisma.etaDocument.findFirst({
+    where: { tenantId, invoiceId, kind: 'RECEIPT', status: 'VALID' },
+  })
+  if (existing) return { document: existing, errors: [] as Array<{ code: string; message: string }> }
+
+  const invoice = await loadSourceInvoice(tenantId, invoiceId)
+  const itemCodes = await loadETAItemCodes(tenantId, invoice.entityId)
+  const references = await resolveReferences(tenantId, invoice.originalInvoiceId, 'RECEIPT')
+  const adapter = new ETAAdapter(requireClient(options.client))
+
+  for (let attempt = 0; attempt < MAX_RECEIPT_ATTEMPTS; attempt++) {
+    const device = await prisma.etaPosDevice.findFirst({ where: { id: posDeviceId, tenantId } })
+    if (!device) throw new ApiError('NOT_FOUND', 'ETA POS device not found', 404)
+    if (device.status !== 'ACTIVE') {
+      throw new ApiError('INVALID_STATE', 'ETA POS device is not active', 409)
+    }
+    if (invoice.entityId !== device.entityId) {
+      throw new ApiError('ENTITY_MISMATCH', 'POS device belongs to a different entity than the invoice', 409)
+    }
+
+    const etaInvoice = mapInvoiceToETA(invoice, { itemCodes, references, buyer: options.buyer })
+    etaInvoice.receipt = { previousUuid: device.lastReceiptUuid ?? '', deviceSerialNumber: device.serialNumber }
+    const receipt = adapter.buildReceipt(etaInvoice)
+
+    // Claim the chain head before submitting so no other receipt reuses it
+    const claimed = await prisma.etaPosDevice.updateMany({
+      where: { id: device.id, lastReceiptUuid: device.lastReceiptUuid },
+      data: { lastReceiptUuid: receipt.header.uuid },
+    })
+    if (claimed.count === 0) {
+      logger.debug('ETA receipt chain head moved, retrying', { posDeviceId, invoiceId, attempt })
+      continue
+    }
+
+    const result = await adapter
+      .submitReceipt(etaInvoice, {
+        serialNumber: device.serialNumber,
+        osVersion: device.osVersion,
+        presharedKey: device.presharedKey ?? undefined,
+        clientId: device.clientId,
+        clientSecret: device.clientSecret,
+      })
+      .catch(async (error) => {
+        await prisma.etaPosDevice.updateMany({
+          where: { id: device.id, lastReceiptUuid: receipt.header.uuid },
+          data: { lastReceiptUuid: device.lastReceiptUuid },
+        })
+        throw error
+      })
+
+    if (!result.success) {
+      // Rejected receipts do not advance the chain
+      await prisma.etaPosDevice.updateMany({
+        where: { id: device.id, lastReceiptUuid: receipt.header.uuid },
+        data: { lastReceiptUuid: device.lastReceiptUuid },
+      })
+    }
+
+    const document = await prisma.etaDocument.create({
+      data: {
+        tenantId,
+        invoiceId,
+        posDeviceId: device.id,
+        kind: 'RECEIPT',
+        uuid: receipt.header.uuid,
+        longId: result.etaLongId ?? null,
+        submissionId: result.referenceNumber ?? null,
+        previousUuid: receipt.header.previousUUID || null,
+        document: receipt as any,
+        status: result.success ? 'VALID' : 'REJECTED',
+        response: { message: result.message, errors: result.errors ?? [] } as any,
+      },
+    })
+
+    return { document, errors: result.errors ?? [] }
+  }
+
+  throw new ApiError('CHAIN_CONFLICT', 'Could not append to the POS receipt chain, please retry', 409)
+}
@@ -0,0 +1,210 @@
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { recalculateStoredItem } from '@/lib/invoicing/line-tax'
+import { ZATCAInvoice, ETAInvoice, InvoiceType } from './types'
+
+/**
+ * Invoice Mapper
+ *
+ * Builds ZATCA and ETA documents from stored invoices. Line amounts are
+ * recalculated from the persisted tax snapshot so the document always
+ * reconciles with the invoice totals.
+ */
+
+export const EINVOICE_INVOICE_INCLUDE = {
+  items: true,
+  client: { select: { id: true, name: true, email: true } },
+  entity: { include: { registrations: true, licenses: true } },
+  originalInvoice: { select: { id: true, number: true } },
+} satisfies Prisma.InvoiceInclude
+
+export type EInvoiceSourceInvoice = Prisma.InvoiceGetPayload<{ include: typeof EINVOICE_INVOICE_INCLUDE }>
+
+export interface MapInvoiceOptions {
+  uuid?: string
+  invoiceType?: InvoiceType
+}
+
+/** ETA item code registered for an internal code */
+export interface ETAItemCodeMapping {
+  codeType: 'GS1' | 'EGS'
+  itemCode: string
+  unitType: string
+}
+
+export interface MapETAOptions extends MapInvoiceOptions {
+  itemCodes?: Map<string, ETAItemCodeMapping> // By internal code; DEFAULT covers unmapped lines
+  references?: string[] // ETA UUIDs of the adjusted documents
+  buyer?: ETAInvoice['buyer'] // Receiver details not held on the client record
+}
+
+/** Item code applied to lines without a mapped internal code */
+export const DEFAULT_ETA_ITEM_CODE = 'DEFAULT'
+
+/**
+ * Load an invoice with everything the mappers need
+ */
+export async function loadInvoiceForEInvoicing(invoiceId: string, tenantId: string): Promise<EInvoiceSourceInvoice | null> {
+  return prisma.invoice.findFirst({
+    where: { id: invoiceId, tenantId },
+    include: EINVOICE_INVOICE_INCLUDE,
+  })
+}
+
+function toAmount(cents: number): number {
+  return Math.round(cents) / 100
+}
+
+function findRegistration(invoice: EInvoiceSourceInvoice, types: string[]): string {
+  const registrations = invoice.entity?.registrations ?? []
+  for (const type of types) {
+    const match = registrations.find((r) => r.type === type)
+    if (match) return match.value
+  }
+  return ''
+}
+
+function entityAddress(invoice: EInvoiceSourceInvoice): string {
+  const metadata = (invoice.entity?.metadata ?? {}) as Record<string, unknown>
+  return typeof metadata.address === 'string' ? metadata.address : ''
+}
+
+function mapLines(invoice: EInvoiceSourceInvoice) {
+  return invoice.items.map((item) => {
+    const line = recalculateStoredItem(item)
+    return {
+      id: item.id,
+      itemCode: item.itemCode ?? undefined,
+      description: item.description,
+      quantity: line.quantity,
+      unitPrice: line.grossCents / line.quantity / 100,
+      discount: toAmount(line.lineDiscountCents),
+      taxCategory: line.taxCategory,
+      taxPercent: line.taxRatePercent,
+      taxAmount: toAmount(line.taxCents),
+      lineTotal: toAmount(line.totalCents),
+    }
+  })
+}
+
+/**
+ * Credit and debit notes map to their document type unless overridden
+ */
+function resolveInvoiceType(invoice: EInvoiceSourceInvoice, options: MapInvoiceOptions): InvoiceType {
+  if (options.invoiceType) return options.invoiceType
+  if (invoice.documentType === 'CREDIT_NOTE') return 'CREDIT_NOTE'
+  if (invoice.documentType === 'DEBIT_NOTE') return 'DEBIT_NOTE'
+  return 'STANDARD'
+}
+
+function mapTotals(invoice: EInvoiceSourceInvoice) {
+  return {
+    subtotal: toAmount(invoice.subtotalCents),
+    discountTotal: toAmount(invoice.discountCents),
+    taxTotal: toAmount(invoice.taxCents),
+    total: toAmount(invoice.totalCents),
+  }
+}
+
+/**
+ * Build a ZATCA (KSA) invoice document
+ */
+export function mapInvoiceToZATCA(invoice: EInvoiceSourceInvoice, options: MapInvoiceOptions = {}): ZATCAInvoice {
+  return {
+    id: invoice.id,
+    uuid: options.uuid ?? invoice.id,
+    invoiceNumber: invoice.number || invoice.id,
+    invoiceType: resolveInvoiceType(invoice, options),
+    issueDate: invoice.issueDate,
+    currency: invoice.currency,
+    billingReference: invoice.originalInvoice ? invoice.originalInvoice.number || invoice.originalInvoice.id : undefined,
+    adjustmentReason: invoice.adjustmentReason ?? undefined,
+    seller: {
+      name: invoice.entity?.name || '',
+      crNumber: invoice.entity?.licenses?.[0]?.licenseNumber || '',
+      taxId: findRegistration(invoice, ['ZATCA', 'VAT']),
+      address: entityAddress(invoice),
+    },
+    buyer: invoice.client ? { name: invoice.client.name || invoice.client.email || undefined } : undefined,
+    lineItems: mapLines(invoice),
+    totals: mapTotals(invoice),
+    status: 'DRAFT',
+    metadata: { lineItemCount: invoice.items.length },
+    createdAt: invoice.createdAt,
+  }
+}
+
+/**
+ * Active ETA item codes of an entity, by internal code
+ */
+export async function loadETAItemCodes(tenantId: string, entityId: string): Promise<Map<string, ETAItemCodeMapping>> {
+  const codes = await prisma.etaItemCode.findMany({ where: { tenantId, entityId, status: 'ACTIVE' } })
+  return new Map(
+    codes.map((code) => [code.internalCode, { codeType: code.codeType as 'GS1' | 'EGS', itemCode: code.itemCode, unitType: code.unitType }])
+  )
+}
+
+/**
+ * Issuer address parts kept in entity.metadata.etaAddress
+ */
+function etaSellerAddress(invoice: EInvoiceSourceInvoice) {
+  const metadata = (invoice.entity?.metadata ?? {}) as Record<string, any>
+  const address = (metadata.etaAddress ?? {}) as Record<string, string | undefined>
+  return {
+    branchId: typeof metadata.etaBranchId === 'string' ? metadata.etaBranchId : undefined,
+    building: address.building,
+    floor: address.floor,
+    street: address.street,
+    city: address.city,
+    governorate: address.governorate,
+    postalCode: address.postalCode,
+  }
+}
+
+/**
+ * Build an ETA (Egypt) invoice document. Lines are coded from the item code
+ * mapping: the line's internal code first, then the DEFAULT mapping.
+ */
+export function mapInvoiceToETA(invoice: EInvoiceSourceInvoice, options: MapETAOptions = {}): ETAInvoice {
+  const invoiceType = resolveInvoiceType(invoice, options)
+  const documentType = invoiceType === 'CREDIT_NOTE' ? 'CREDIT_NOTE' : invoiceType === 'DEBIT_NOTE' ? 'DEBIT_NOTE' : 'INVOICE'
+  const itemCodes = options.itemCodes ?? new Map<string, ETAItemCodeMapping>()
+
+  return {
+    id: invoice.id,
+    uuid: options.uuid ?? invoice.id,
+    invoiceNumber: invoice.number || invoice.id,
+    invoiceType,
+    documentType,
+    issueDate: invoice.issueDate,
+    currency: invoice.currency,
+    references: options.references,
+    seller: {
+      name: invoice.entity?.name || '',
+      taxNumber: findRegistration(invoice, ['TIN', 'ETA', 'VAT']),
+      address: entityAddress(invoice),
+      activity: invoice.entity?.activityCode ?? undefined,
+      ...etaSellerAddress(invoice),
+    },
+    buyer:
+      invoice.client || options.buyer
+        ? { name: invoice.client?.name || invoice.client?.email || undefined, ...options.buyer }
+        : undefined,
+    lineItems: mapLines(invoice).map((line) => {
+      const internalCode = line.itemCode ?? DEFAULT_ETA_ITEM_CODE
+      const mapping = itemCodes.get(internalCode) ?? itemCodes.get(DEFAULT_ETA_ITEM_CODE)
+      return {
+        ...line,
+        itemType: 'SERVICE' as const,
+        taxType: 'VAT' as const,
+        internalCode,
+        codeType: mapping?.codeType,
+        itemCode: mapping?.itemCode,
+        unitType: mapping?.unitType,
+      }
+    }),
+    totals: mapTotals(invoice),
+    status: 'DRAFT',
+    createdAt: invoice.createdAt,
+  }
+}
@@ -0,0 +1,341 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { ETAInvoice, InvoiceStatus } from './types'
+import { stampInvoice, submitChainEntry } from './zatca-chain'
+import { refreshETADocument, submitETAInvoice, submitETAReceipt } from './eta-submissions'
+
+/**
+ * E-Invoice Submissions
+ *
+ * One EInvoiceSubmission tracks an invoice through ZATCA or ETA using the
+ * e-invoice InvoiceStatus: DRAFT -> SIGNED -> SUBMITTED -> ACCEPTED or
+ * REJECTED. Statuses only move forward. Transient failures (portal
+ * outages, throttling, network errors, chain contention) keep the status
+ * and schedule a retry with exponential backoff. A rejected invoice is
+ * final: it can only be corrected by a credit note, which resolves the
+ * rejection once the invoice is fully credited.
+ */
+
+export type EInvoiceStandard = 'ZATCA' | 'ETA'
+
+export interface EInvoiceMessage {
+  code: string
+  message: string
+}
+
+export interface SubmitEInvoiceInput {
+  tenantId: string
+  invoiceId: string
+  standard: EInvoiceStandard
+  deviceId?: string // ZATCA EGS device, or ETA POS for e-receipts
+  buyer?: ETAInvoice['buyer']
+  userId?: string | null
+}
+
+const STATUS_ORDER: Record<InvoiceStatus, number> = {
+  DRAFT: 0,
+  SIGNED: 1,
+  SUBMITTED: 2,
+  ACCEPTED: 3,
+  REJECTED: 3,
+}
+
+export const MAX_SUBMISSION_ATTEMPTS = 6
+const BASE_RETRY_DELAY_MS = 60_000
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60_000
+
+type SubmissionRecord = NonNullable<Awaited<ReturnType<typeof prisma.eInvoiceSubmission.findFirst>>>
+
+/**
+ * Statuses only move forward; ACCEPTED and REJECTED are final. Signing and
+ * sending may happen in one step, so intermediate statuses can be skipped.
+ */
+export function canTransition(from: InvoiceStatus, to: InvoiceStatus): boolean {
+  if (from === 'ACCEPTED' || from === 'REJECTED') return false
+  return STATUS_ORDER[to] > STATUS_ORDER[from]
+}
+
+export function assertSubmissionTransition(from: InvoiceStatus, to: InvoiceStatus): void {
+  if (!canTransition(from, to)) {
+    throw new ApiError('INVALID_TRANSITION', `E-invoice submission cannot move from ${from} to ${to}`, 409)
+  }
+}
+
+/**
+ * Failures worth retrying: the authority was unreachable or busy, or the
+ * device chain head moved under us
+ */
+export function isTransientSubmissionError(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    if (error.code === 'CHAIN_CONFLICT') return true
+    const portalStatus = Number(error.details?.portalStatus)
+    return ['ZATCA_UNAVAILABLE', 'ETA_PORTAL_ERROR', 'ETA_AUTH_FAILED'].includes(error.code) && (portalStatus === 429 || portalStatus >= 500)
+  }
+  // fetch() reports network failures as TypeError
+  return error instanceof TypeError
+}
+
+/**
+ * Delay before retry number `attempts` (1-based): 1, 2, 4, 8... minutes,
+ * capped at six hours
+ */
+export function computeRetryDelayMs(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+/**
+ * Validation messages from ETA's validation steps, including nested errors
+ */
+export function collectETAValidationMessages(steps: unknown): EInvoiceMessage[] {
+  const messages: EInvoiceMessage[] = []
+  const visit = (error: any, fallback: string) => {
+    if (!error) return
+    if (Array.isArray(error.details) && error.details.length) {
+      for (const detail of error.details) visit(detail, fallback)
+    } else {
+      messages.push({ code: String(error.code ?? fallback), message: String(error.message ?? error.error ?? fallback) })
+    }
+  }
+  for (const step of Array.isArray(steps) ? steps : []) {
+    if (step?.status === 'Invalid') visit(step.error ?? { code: step.name, message: step.name }, String(step.name))
+  }
+  return messages
+}
+
+async function advance(submission: SubmissionRecord, to: InvoiceStatus, data: Record<string, unknown> = {}) {
+  assertSubmissionTransition(submission.status as InvoiceStatus, to)
+  const now = new Date()
+  const updated = await prisma.eInvoiceSubmission.updateMany({
+    where: { id: submission.id, status: submission.status },
+    data: {
+      status: to,
+      nextAttemptAt: null,
+      lastError: null,
+      ...(to === 'SUBMITTED' || to === 'ACCEPTED' ? { submittedAt: submission.submittedAt ?? now } : {}),
+      ...(to === 'ACCEPTED' ? { acceptedAt: now } : {}),
+      ...(to === 'REJECTED' ? { rejectedAt: now } : {}),
+      ...data,
+    },
+  })
+  if (updated.count === 0) {
+    throw new ApiError('CONCURRENT_UPDATE', 'E-invoice submission was updated concurrently, please retry', 409)
+  }
+  return prisma.eInvoiceSubmission.findUniqueOrThrow({ where: { id: submission.id } })
+}
+
+async function recordFailure(submission: SubmissionRecord, error: unknown, transient: boolean) {
+  const attempts = submission.attempts + 1
+  const retry = transient && attempts < MAX_SUBMISSION_ATTEMPTS
+  return prisma.eInvoiceSubmission.update({
+    where: { id: submission.id },
+    data: {
+      attempts,
+      lastError: error instanceof Error ? error.message : String(error),
+      nextAttemptAt: retry ? new Date(Date.now() + computeRetryDelayMs(attempts)) : null,
+    },
+  })
+}
+
+async function sendZATCA(submission: SubmissionRecord): Promise<SubmissionRecord> {
+  let current = submission
+  let entryId = submission.zatcaChainEntryId
+
+  if (!entryId) {
+    const entry = await stampInvoice(current.tenantId, current.invoiceId, current.deviceId!)
+    entryId = entry.id
+    current = await advance(current, 'SIGNED', { uuid: entry.uuid, invoiceHash: entry.invoiceHash, zatcaChainEntryId: entry.id })
+  }
+
+  const { entry, result } = await submitChainEntry(current.tenantId, entryId)
+  const response = (entry.response ?? {}) as { warnings?: EInvoiceMessage[]; errors?: EInvoiceMessage[] }
+  const warnings = result?.warnings ?? response.warnings ?? []
+  const errors = result?.errors ?? response.errors ?? []
+
+  if (entry.reportingStatus === 'REPORTED' || entry.reportingStatus === 'CLEARED') {
+    return advance(current, 'ACCEPTED', { reference: entry.uuid, warnings: warnings as any })
+  }
+  return advance(current, 'REJECTED', { reference: entry.uuid, warnings: warnings as any, errors: errors as any })
+}
+
+async function sendETA(submission: SubmissionRecord): Promise<SubmissionRecord> {
+  const options = (submission.options ?? {}) as { buyer?: ETAInvoice['buyer'] }
+  const { document, errors } = submission.deviceId
+    ? await submitETAReceipt(submission.tenantId, submission.invoiceId, submission.deviceId, { buyer: options.buyer })
+    : await submitETAInvoice(submission.tenantId, submission.invoiceId, { buyer: options.buyer })
+
+  const data = { uuid: document.uuid, reference: document.submissionId, etaDocumentId: document.id }
+  if (document.status === 'REJECTED') return advance(submission, 'REJECTED', { ...data, errors: errors as any })
+  if (document.status === 'VALID') return advance(submission, 'ACCEPTED', data)
+  return advance(submission, 'SUBMITTED', data)
+}
+
+/**
+ * Make one delivery attempt. Transient failures are recorded and
+ * rescheduled; other failures are recorded and rethrown.
+ */
+export async function attemptSubmission(submission: SubmissionRecord): Promise<SubmissionRecord> {
+  try {
+    return submission.standard === 'ZATCA' ? await sendZATCA(submission) : await sendETA(submission)
+  } catch (error) {
+    const transient = isTransientSubmissionError(error)
+    const latest = await prisma.eInvoiceSubmission.findUniqueOrThrow({ where: { id: submission.id } })
+    const failed = await recordFailure(latest, error, transient)
+
+    logger.warn('E-invoice submission attempt failed', {
+      submissionId: submission.id,
+      invoiceId: submission.invoiceId,
+      transient,
+      attempts: failed.attempts,
+      nextAttemptAt: failed.nextAttemptAt,
+      error: String(error),
+    })
+
+    if (transient) return failed
+    throw error
+  }
+}
+
+/**
+ * Submit an invoice to its tax authority, reusing the invoice's open
+ * submission. Accepted and pending submissions are returned as they are;
+ * rejected invoices must be corrected with a credit note.
+ */
+export async function submitEInvoice(input: SubmitEInvoiceInput) {
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: input.invoiceId, tenantId: input.tenantId },
+    select: { id: true, status: true },
+  })
+  if (!invoice) throw new ApiError('NOT_FOUND', 'Invoice not found', 404)
+  if (invoice.status === 'DRAFT' || invoice.status === 'VOID') {
+    throw new ApiError('INVALID_STATE', `Cannot submit a ${invoice.status} invoice`, 409)
+  }
+
+  const latest = await prisma.eInvoiceSubmission.findFirst({
+    where: { tenantId: input.tenantId, invoiceId: input.invoiceId, standard: input.standard },
+    orderBy: { createdAt: 'desc' },
+  })
+
+  if (latest?.status === 'REJECTED') {
+    throw new ApiError(
+      'REJECTED_REQUIRES_CREDIT_NOTE',
+      `This invoice was rejected by ${input.standard}. Correct it by issuing a credit note and a new invoice.`,
+      409,
+      { submissionId: latest.id, errors: latest.errors }
+    )
+  }
+  if (latest?.status === 'ACCEPTED' || latest?.status === 'SUBMITTED') return latest
+
+  if (input.standard === 'ZATCA' && !input.deviceId && !latest?.deviceId) {
+    throw new ApiError('DEVICE_REQUIRED', 'Provide the deviceId of a registered EGS device', 400)
+  }
+
+  const submission =
+    latest ??
+    (await prisma.eInvoiceSubmission.create({
+      data: {
+        tenantId: input.tenantId,
+        invoiceId: input.invoiceId,
+        standard: input.standard,
+        deviceId: input.deviceId ?? null,
+        options: input.buyer ? ({ buyer: input.buyer } as any) : undefined,
+        createdBy: input.userId ?? null,
+      },
+    }))
+
+  return attemptSubmission(submission)
+}
+
+/**
+ * Poll ETA for a submitted document and settle the submission
+ */
+export async function pollSubmission(submission: SubmissionRecord): Promise<SubmissionRecord> {
+  if (submission.status !== 'SUBMITTED' || submission.standard !== 'ETA' || !submission.etaDocumentId) return submission
+
+  const document = await refreshETADocument(submission.tenantId, submission.etaDocumentId)
+  if (document.status === 'VALID') {
+    return advance(submission, 'ACCEPTED', { reference: document.submissionId })
+  }
+  if (document.status === 'INVALID' || document.status === 'REJECTED') {
+    const response = (document.response ?? {}) as { validationSteps?: unknown }
+    return advance(submission, 'REJECTED', { errors: collectETAValidationMessages(response.validationSteps) as any })
+  }
+  return submission
+}
+
+/**
+ * Cron: retry due transient failures and poll pending ETA documents
+ */
+export async function processEInvoiceQueue(now: Date = new Date(), limit = 50) {
+  const due = await prisma.eInvoiceSubmission.findMany({
+    where: { status: { in: ['DRAFT', 'SIGNED'] }, nextAttemptAt: { lte: now } },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: limit,
+  })
+  const pending = await prisma.eInvoiceSubmission.findMany({
+    where: { status: 'SUBMITTED', standard: 'ETA' },
+    orderBy: { submittedAt: 'asc' },
+    take: limit,
+  })
+
+  const results = { retried: 0, accepted: 0, rejected: 0, failed: 0, polled: 0 }
+
+  for (const submission of due) {
+    results.retried++
+    try {
+      const updated = await attemptSubmission(submission)
+      if (updated.status === 'ACCEPTED') results.accepted++
+      if (updated.status === 'REJECTED') results.rejected++
+    } catch {
+      results.failed++
+    }
+  }
+
+  for (const submission of pending) {
+    results.polled++
+    try {
+      const updated = await pollSubmission(submission)
+      if (updated.status === 'ACCEPTED') results.accepted++
+      if (updated.status === 'REJECTED') results.rejected++
+    } catch (error) {
+      results.failed++
+      logger.warn('E-invoice status poll failed', { submissionId: submission.id, error: String(error) })
+    }
+  }
+
+  return results
+}
+
+/**
+ * Whether the invoice has an e-invoice rejection that no credit note has
+ * corrected yet
+ */
+export async function hasUnresolvedRejection(tenantId: string, invoiceId: string): Promise<boolean> {
+  const count = await prisma.eInvoiceSubmission.count({
+    where: { tenantId, invoiceId, status: 'REJECTED', resolvedAt: null },
+  })
+  return count > 0
+}
+
+/**
+ * Mark an invoice's rejections corrected by a credit note once the
+ * invoice is fully credited
+ */
+export async function resolveRejectedSubmissions(
+  tenantId: string,
+  invoiceId: string,
+  creditNoteId: string,
+  client: Pick<typeof prisma, 'invoice' | 'eInvoiceSubmission'> = prisma
+): Promise<number> {
+  const invoice = await client.invoice.findFirst({
+    where: { id: invoiceId, tenantId },
+    select: { totalCents: true, creditedCents: true },
+  })
+  if (!invoice || invoice.creditedCents < invoice.totalCents) return 0
+
+  const resolved = await client.eInvoiceSubmission.updateMany({
+    where: { tenantId, invoiceId, status: 'REJECTED', resolvedAt: null },
+    data: { resolvedByInvoiceId: creditNoteId, resolvedAt: new Date() },
+  })
+  return resolved.count
+}
@@ -6,6 +6,7 @@
 export type EInvoicingStandard = 'ZATCA' | 'ETA'
 export type InvoiceType = 'STANDARD' | 'SIMPLIFIED' | 'DEBIT_NOTE' | 'CREDIT_NOTE'
 export type InvoiceStatus = 'DRAFT' | 'SIGNED' | 'SUBMITTED' | 'ACCEPTED' | 'REJECTED'
+export type LineTaxCategory = 'STANDARD' | 'ZERO_RATED' | 'EXEMPT' | 'OUT_OF_SCOPE' | 'REVERSE_CHARGE'
 
 /**
  * ZATCA (Saudi Arabia - Zakat, Tax and Customs Authority)
@@ -18,6 +19,9 @@ export interface ZATCAInvoice {
   invoiceType: InvoiceType
   issueDate: Date
   dueDate?: Date
+  currency?: string // Defaults to SAR
+  billingReference?: string // Original invoice number, for credit and debit notes
+  adjustmentReason?: string // Why a credit or debit note was issued
   
   seller: {
     name: string
@@ -49,6 +53,7 @@ export interface ZATCAInvoice {
     quantity: number
     unitPrice: number
     discount?: number
+    taxCategory?: LineTaxCategory
     taxPercent: number // 15% standard
     taxAmount: number
     lineTotal: number
@@ -67,12 +72,14 @@ export interface ZATCAInvoice {
   }
   
   status: InvoiceStatus
-  qrCode?: string // Base64 encoded QR code
+  qrCode?: string // Base64 encoded TLV QR payload
   signature?: string // Digital signature
+  xml?: string // Signed UBL 2.1 document
   certificationUrl?: string // Link to ZATCA certification
   
   metadata?: {
-    prevInvoiceHash?: string
+    prevInvoiceHash?: string // PIH - hash of the previous invoice on the device
+    icv?: number // Invoice counter value on the device
     iccId?: string // Interactive Components - for amended invoices
     lineItemCount?: number
   }
@@ -93,23 +100,28 @@ export interface ETAInvoice {
   documentType: 'INVOICE' | 'DEBIT_NOTE' | 'CREDIT_NOTE' | 'RECEIPT'
   issueDate: Date
   dueDate?: Date
+  currency?: string // Defaults to EGP
+  exchangeRate?: number // EGP per unit of currency, required for foreign-currency documents
+  references?: string[] // ETA UUIDs of the documents a credit or debit note adjusts
   
   seller: {
     name: string
     taxNumber: string // 9-digit Tax Identification Number
     address: string
+    branchId?: string // ETA branch code, '0' for the head office
     building?: string
     floor?: string
     street?: string
     city?: string
     governorate?: string
     postalCode?: string
-    activity?: string
+    activity?: string // 4-digit taxpayer activity code
   }
   
   buyer?: {
     name?: string
     taxNumber?: string // Optional for B2C
+    country?: string // ISO 3166-1 alpha-2; non-EG buyers are foreigners (type F)
     address?: string
     building?: string
     floor?: string
@@ -123,12 +135,16 @@ export interface ETAInvoice {
   lineItems: Array<{
     id: string
     description: string
-    itemCode?: string
+    itemCode?: string // Registered GS1 or EGS code
+    codeType?: 'GS1' | 'EGS'
+    internalCode?: string // Our product or service code
+    unitType?: string // ETA unit type, e.g. EA
     quantity: number
     unitPrice: number
     discount?: number
     itemType?: 'GOOD' | 'SERVICE'
     taxType?: 'VAT' | 'STAMP_TAX' | 'OTHER'
+    taxCategory?: LineTaxCategory
     taxPercent: number // Usually 14% for Egypt
     taxAmount: number
     lineTotal: number
@@ -148,10 +164,16 @@ export interface ETAInvoice {
   }
   
   status: InvoiceStatus
-  signature?: string // Digital signature (XML-DSig)
+  signature?: string // CAdES-BES signature over the canonical document (base64 CMS)
   encryptionMethod?: string // Encryption algorithm used
   etaUuid?: string // UUID assigned by ETA system
+  etaLongId?: string // Long ID for the public share link
   etaResponseCode?: string // ETA submission response code
+
+  receipt?: {
+    previousUuid: string // UUID of the previous receipt from the same POS
+    deviceSerialNumber: string
+  }
   
   notes?: string
   internalNotes?: string
@@ -183,6 +205,8 @@ export interface ZATCAQRPayload {
   taxAmount: number
   invoiceHash: string // SHA-256 of invoice
   invoiceSignature: string
+  publicKey?: Buffer // DER-encoded ECDSA public key of the signer
+  certificateSignature?: Buffer // CA signature over the CSID (simplified invoices)
 }
 
 /**
@@ -191,7 +215,7 @@ export interface ZATCAQRPayload {
 export interface EInvoicingProvider {
   standard: EInvoicingStandard
   validateInvoice(invoice: ZATCAInvoice | ETAInvoice): ValidationResult
-  generateQRCode(invoice: ZATCAInvoice): Promise<string>
+  generateQRCode(invoice: ZATCAInvoice | ETAInvoice): Promise<string>
   sign(invoice: ZATCAInvoice | ETAInvoice, certificate: CertificateData): Promise<string>
   submit(invoice: ZATCAInvoice | ETAInvoice): Promise<SubmissionResult>
   validateSignature(invoice: ZATCAInvoice | ETAInvoice): Promise<boolean>
@@ -229,6 +253,7 @@ export interface SubmissionResult {
   message: string
   referenceNumber?: string // ZATCA or ETA reference
   etaUuid?: string // ETA-assigned UUID
+  etaLongId?: string
   submissionTime?: Date
   errors?: Array<{
     code: string
@@ -1,24 +1,41 @@
-import { createHash, sign, createSign } from 'crypto'
 import { logger } from '@/lib/logger'
 import {
   ZATCAInvoice,
   EInvoicingProvider,
   ValidationResult,
   SubmissionResult,
-  DigitalSignature,
   ZATCAQRPayload,
   CertificateData,
 } from './types'
+import { buildSignatureExtension, buildSignedProperties, buildZATCAInvoiceXML, isSimplifiedInvoice } from './zatca-ubl'
+import {
+  computeInvoiceHash,
+  encodeTLV,
+  parseCertificate,
+  sha256HexBase64,
+  signInvoiceHash,
+  verifySignedInvoice,
+} from './zatca-crypto'
+import { createZATCAClient, ZATCAApiClient } from './zatca-api'
+
+export interface SignedZATCAInvoice {
+  xml: string
+  invoiceHash: string
+  signature: string
+  qrCode: string
+}
 
 /**
  * ZATCA E-Invoicing Adapter - Phase 2 Implementation
- * Supports QR code generation and digital signatures
+ * UBL 2.1 generation, XAdES signing with the device CSID, TLV QR codes
+ * and reporting/clearance through the Fatoora API
  */
 export class ZATCAAdapter implements EInvoicingProvider {
   standard = 'ZATCA' as const
-  private apiUrl = process.env.ZATCA_API_URL || 'https://api.zatca.gov.sa'
   private apiSecret = process.env.ZATCA_API_SECRET
 
+  constructor(private client?: ZATCAApiClient) {}
+
   /**
    * Validate ZATCA invoice
    */
@@ -98,10 +115,13 @@ export class ZATCAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Generate QR Code (ZATCA requirement)
+   * Generate the TLV QR payload (ZATCA requirement). Tags 1-7 identify the
+   * invoice and its hash and signature; with the signing certificate the
+   * public key (8) and the CA's certificate signature (9) are added.
    */
-  async generateQRCode(invoice: ZATCAInvoice): Promise<string> {
+  async generateQRCode(invoice: ZATCAInvoice, certificate?: string): Promise<string> {
     try {
+      const parsed = certificate ? parseCertificate(certificate) : null
       const payload: ZATCAQRPayload = {
         sellerName: invoice.seller.name,
         taxId: invoice.seller.taxId,
@@ -110,14 +130,11 @@ export class ZATCAAdapter implements EInvoicingProvider {
         taxAmount: invoice.totals.taxTotal,
         invoiceHash: this.hashInvoice(invoice),
         invoiceSignature: invoice.signature || '',
+        publicKey: parsed?.publicKey,
+        certificateSignature: parsed?.signature,
       }
 
-      // Generate base64 encoded QR payload
-      const qrData = this.generateQRData(payload)
-
-      // TODO: In production, use a QR code library (qrcode, qr-image, etc.)
-      // For now, return the base64 encoded payload
-      const qrCode = Buffer.from(qrData).toString('base64')
+      const qrCode = this.generateQRData(payload)
 
       logger.info('ZATCA QR code generated', {
         invoiceNumber: invoice.invoiceNumber,
@@ -135,67 +152,77 @@ export class ZATCAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Generate QR data structure
+   * Encode the QR payload as base64 TLV
    */
   private generateQRData(payload: ZATCAQRPayload): string {
-    const qrData = {
-      '1': payload.sellerName,
-      '2': payload.taxId,
-      '3': payload.invoiceDate.toISOString().split('T')[0],
-      '4': payload.invoiceAmount.toFixed(2),
-      '5': payload.taxAmount.toFixed(2),
-      '6': payload.invoiceHash,
-      '7': payload.invoiceSignature,
-    }
-
-    return JSON.stringify(qrData)
+    const fields: Array<[number, string | Buffer]> = [
+      [1, payload.sellerName],
+      [2, payload.taxId],
+      [3, payload.invoiceDate.toISOString().slice(0, 19)],
+      [4, payload.invoiceAmount.toFixed(2)],
+      [5, payload.taxAmount.toFixed(2)],
+      [6, payload.invoiceHash],
+      [7, payload.invoiceSignature],
+    ]
+    if (payload.publicKey) fields.push([8, payload.publicKey])
+    if (payload.certificateSignature) fields.push([9, payload.certificateSignature])
+
+    return encodeTLV(fields)
   }
 
   /**
-   * Hash invoice for integrity verification
+   * Invoice hash: base64 SHA-256 of the canonical unsigned document
    */
   hashInvoice(invoice: ZATCAInvoice): string {
-    const invoiceString = JSON.stringify({
-      invoiceNumber: invoice.invoiceNumber,
-      issueDate: invoice.issueDate.toISOString(),
-      seller: invoice.seller,
-      buyer: invoice.buyer,
-      lineItems: invoice.lineItems,
-      totals: invoice.totals,
-    })
-
-    return createHash('sha256').update(invoiceString).digest('hex')
+    return computeInvoiceHash(this.generateXML(invoice))
   }
 
   /**
-   * Sign invoice with digital certificate
+   * Sign invoice with the CSID private key; returns the signature value
    */
   async sign(
     invoice: ZATCAInvoice,
     certificate: CertificateData
   ): Promise<string> {
-    try {
-      const invoiceXML = this.generateXML(invoice)
-
-      // Create signature
-      const signer = createSign('sha256')
-      signer.update(invoiceXML)
+    return (await this.signInvoice(invoice, certificate)).signature
+  }
 
-      // Sign with private key
-      const signature = signer.sign(
-        {
-          key: certificate.privateKey,
-          passphrase: certificate.password,
-        },
-        'base64'
-      )
+  /**
+   * Produce the signed UBL document with the XAdES signature and QR code.
+   * ICV and PIH are taken from invoice.metadata.
+   */
+  async signInvoice(
+    invoice: ZATCAInvoice,
+    certificate: CertificateData,
+    signingTime: Date = new Date()
+  ): Promise<SignedZATCAInvoice> {
+    try {
+      const invoiceHash = this.hashInvoice(invoice)
+      const signature = signInvoiceHash(invoiceHash, certificate.privateKey, certificate.password)
+      const parsed = parseCertificate(certificate.certificate)
+
+      const signedProperties = buildSignedProperties({
+        signingTime,
+        certificateHash: parsed.hash,
+        issuerName: parsed.issuerName,
+        serialNumber: parsed.serialNumber,
+      })
+      const extensions = buildSignatureExtension({
+        invoiceHash,
+        signedPropertiesHash: sha256HexBase64(signedProperties),
+        signatureValue: signature,
+        certificateBody: parsed.body,
+        signedProperties,
+      })
+      const qrCode = await this.generateQRCode({ ...invoice, signature }, certificate.certificate)
+      const xml = buildZATCAInvoiceXML(invoice, { extensions, qrCode })
 
       logger.info('ZATCA invoice signed', {
         invoiceNumber: invoice.invoiceNumber,
-        signatureSize: signature.length,
+        icv: invoice.metadata?.icv,
       })
 
-      return signature
+      return { xml, invoiceHash, signature, qrCode }
     } catch (error) {
       logger.error('Failed to sign ZATCA invoice', {
         invoiceNumber: invoice.invoiceNumber,
@@ -206,11 +233,26 @@ export class ZATCAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Submit invoice to ZATCA
+   * Submit a signed invoice: simplified invoices are reported, standard
+   * invoices are cleared
    */
   async submit(invoice: ZATCAInvoice): Promise<SubmissionResult> {
     try {
-      if (!this.apiSecret) {
+      if (!invoice.xml) {
+        return {
+          success: false,
+          message: 'Invoice must be signed before submission',
+          errors: [
+            {
+              code: 'NOT_SIGNED',
+              message: 'Signed XML is required',
+            },
+          ],
+        }
+      }
+
+      const client = this.client ?? this.createEnvironmentClient()
+      if (!client) {
         return {
           success: false,
           message: 'ZATCA API secret not configured',
@@ -223,18 +265,24 @@ export class ZATCAAdapter implements EInvoicingProvider {
         }
       }
 
-      // TODO: In production, make actual API call to ZATCA
-      // For now, return mock response
-      logger.info('ZATCA submission initiated', {
+      const request = {
+        invoiceHash: computeInvoiceHash(invoice.xml),
+        uuid: invoice.uuid,
+        xml: invoice.xml,
+      }
+      const result = isSimplifiedInvoice(invoice) ? await client.report(request) : await client.clear(request)
+
+      logger.info('ZATCA submission completed', {
         invoiceNumber: invoice.invoiceNumber,
-        standard: this.standard,
+        status: result.status,
       })
 
       return {
-        success: true,
-        message: 'Invoice submitted to ZATCA',
-        referenceNumber: `ZATCA-${Date.now()}`,
+        success: result.accepted,
+        message: result.accepted ? `Invoice ${result.status.toLowerCase()} by ZATCA` : 'Invoice rejected by ZATCA',
+        referenceNumber: request.invoiceHash,
         submissionTime: new Date(),
+        errors: result.errors,
       }
     } catch (error) {
       logger.error('ZATCA submission failed', {
@@ -256,20 +304,36 @@ export class ZATCAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Validate signature
+   * Client configured from ZATCA_* environment variables, if any
+   */
+  private createEnvironmentClient(): ZATCAApiClient | null {
+    if (process.env.ZATCA_API_MODE === 'stub') {
+      return createZATCAClient({ environment: 'local' })
+    }
+    if (!this.apiSecret || !process.env.ZATCA_CERTIFICATE) return null
+    return createZATCAClient({
+      environment: process.env.ZATCA_ENVIRONMENT || 'sandbox',
+      certificate: process.env.ZATCA_CERTIFICATE,
+      secret: this.apiSecret,
+    })
+  }
+
+  /**
+   * Validate the signature of the signed document
    */
   async validateSignature(invoice: ZATCAInvoice): Promise<boolean> {
     try {
-      if (!invoice.signature) {
+      if (!invoice.xml) {
         return false
       }
 
-      // TODO: In production, verify signature against certificate
+      const verification = verifySignedInvoice(invoice.xml)
       logger.debug('ZATCA signature validated', {
         invoiceNumber: invoice.invoiceNumber,
+        valid: verification.valid,
       })
 
-      return true
+      return verification.valid
     } catch (error) {
       logger.error('ZATCA signature validation failed', {
         invoiceNumber: invoice.invoiceNumber,
@@ -280,63 +344,9 @@ export class ZATCAAdapter implements EInvoicingProvider {
   }
 
   /**
-   * Generate XML invoice
+   * Generate the unsigned UBL 2.1 invoice
    */
   generateXML(invoice: ZATCAInvoice): string {
-    const lineItemsXML = invoice.lineItems
-      .map(
-        (item) => `
-    <LineItem>
-      <ID>${item.id}</ID>
-      <Description>${this.escapeXML(item.description)}</Description>
-      <Quantity>${item.quantity}</Quantity>
-      <UnitPrice>${item.unitPrice.toFixed(2)}</UnitPrice>
-      <Discount>${(item.discount || 0).toFixed(2)}</Discount>
-      <TaxPercent>${item.taxPercent}</TaxPercent>
-      <TaxAmount>${item.taxAmount.toFixed(2)}</TaxAmount>
-      <LineTotal>${item.lineTotal.toFixed(2)}</LineTotal>
-    </LineItem>`
-      )
-      .join('')
-
-    return `<?xml version="1.0" encoding="UTF-8"?>
-<ZATCAInvoice>
-  <InvoiceNumber>${this.escapeXML(invoice.invoiceNumber)}</InvoiceNumber>
-  <UUID>${invoice.uuid}</UUID>
-  <InvoiceType>${invoice.invoiceType}</InvoiceType>
-  <IssueDate>${invoice.issueDate.toISOString().split('T')[0]}</IssueDate>
-  <Seller>
-    <Name>${this.escapeXML(invoice.seller.name)}</Name>
-    <CRNumber>${invoice.seller.crNumber}</CRNumber>
-    <TaxID>${invoice.seller.taxId}</TaxID>
-    <Address>${this.escapeXML(invoice.seller.address)}</Address>
-  </Seller>
-  ${invoice.buyer ? `
-  <Buyer>
-    <Name>${this.escapeXML(invoice.buyer.name || '')}</Name>
-    <TaxID>${invoice.buyer.taxId || ''}</TaxID>
-    <Address>${this.escapeXML(invoice.buyer.address || '')}</Address>
-  </Buyer>` : ''}
-  <LineItems>${lineItemsXML}
-  </LineItems>
-  <Totals>
-    <Subtotal>${invoice.totals.subtotal.toFixed(2)}</Subtotal>
-    <DiscountTotal>${(invoice.totals.discountTotal || 0).toFixed(2)}</DiscountTotal>
-    <TaxTotal>${invoice.totals.taxTotal.toFixed(2)}</TaxTotal>
-    <Total>${invoice.totals.total.toFixed(2)}</Total>
-  </Totals>
-</ZATCAInvoice>`
-  }
-
-  /**
-   * Escape XML special characters
-   */
-  private escapeXML(str: string): string {
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;')
+    return buildZATCAInvoiceXML(invoice)
   }
 }
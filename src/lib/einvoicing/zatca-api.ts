@@ -0,0 +1,204 @@
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { getCertificateBody, INITIAL_PREVIOUS_INVOICE_HASH, verifySignedInvoice } from './zatca-crypto'
+import { extractXmlValue } from './zatca-ubl'
+
+/**
+ * ZATCA Fatoora API Clients
+ *
+ * Simplified invoices are reported within 24 hours; standard invoices
+ * must be cleared before they are shared with the buyer. The HTTP client
+ * talks to the Fatoora portal; the local stub performs the same document
+ * checks in memory so the flow can be exercised offline.
+ */
+
+export type ZATCAEnvironment = 'local' | 'sandbox' | 'simulation' | 'production'
+
+const FATOORA_BASE_URLS: Record<Exclude<ZATCAEnvironment, 'local'>, string> = {
+  sandbox: 'https://gw-fatoora.zatca.gov.sa/e-invoicing/developer-portal',
+  simulation: 'https://gw-fatoora.zatca.gov.sa/e-invoicing/simulation',
+  production: 'https://gw-fatoora.zatca.gov.sa/e-invoicing/core',
+}
+
+export interface ZATCASubmissionRequest {
+  invoiceHash: string
+  uuid: string
+  xml: string
+}
+
+export interface ZATCAValidationMessage {
+  code: string
+  message: string
+}
+
+export interface ZATCAApiResult {
+  accepted: boolean
+  status: 'REPORTED' | 'CLEARED' | 'REJECTED'
+  httpStatus: number
+  clearedXml?: string
+  warnings: ZATCAValidationMessage[]
+  errors: ZATCAValidationMessage[]
+  raw: unknown
+}
+
+export interface ZATCAApiClient {
+  report(request: ZATCASubmissionRequest): Promise<ZATCAApiResult>
+  clear(request: ZATCASubmissionRequest): Promise<ZATCAApiResult>
+}
+
+export interface ZATCAClientOptions {
+  environment: ZATCAEnvironment | string
+  certificate?: string
+  secret?: string | null
+  stubKey?: string // Keeps one in-memory chain per device in stub mode
+}
+
+function toMessages(list: unknown): ZATCAValidationMessage[] {
+  if (!Array.isArray(list)) return []
+  return list.map((item: any) => ({ code: String(item?.code ?? ''), message: String(item?.message ?? '') }))
+}
+
+/**
+ * HTTP client for the Fatoora reporting and clearance endpoints
+ */
+export class ZATCAHttpClient implements ZATCAApiClient {
+  private baseUrl: string
+  private authorization: string
+
+  constructor(environment: Exclude<ZATCAEnvironment, 'local'>, certificate: string, secret: string) {
+    this.baseUrl = process.env.ZATCA_API_URL || FATOORA_BASE_URLS[environment]
+    // Basic auth uses the base64 certificate body as the username
+    const username = Buffer.from(getCertificateBody(certificate)).toString('base64')
+    this.authorization = `Basic ${Buffer.from(`${username}:${secret}`).toString('base64')}`
+  }
+
+  report(request: ZATCASubmissionRequest): Promise<ZATCAApiResult> {
+    return this.post('/invoices/reporting/single', request, false)
+  }
+
+  clear(request: ZATCASubmissionRequest): Promise<ZATCAApiResult> {
+    return this.post('/invoices/clearance/single', request, true)
+  }
+
+  private async post(path: string, request: ZATCASubmissionRequest, clearance: boolean): Promise<ZATCAApiResult> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+        'Accept-Language': 'en',
+        'Accept-Version': 'V2',
+        Authorization: this.authorization,
+        ...(clearance ? { 'Clearance-Status': '1' } : {}),
+      },
+      body: JSON.stringify({
+        invoiceHash: request.invoiceHash,
+        uuid: request.uuid,
+        invoice: Buffer.from(request.xml).toString('base64'),
+      }),
+    })
+
+    const raw: any = await response.json().catch(() => ({}))
+
+    // Outages and throttling are not rejections: the invoice can be sent again
+    if (response.status === 429 || response.status >= 500) {
+      throw new ApiError('ZATCA_UNAVAILABLE', `ZATCA returned ${response.status}`, 502, { portalStatus: response.status })
+    }
+
+    const validation = raw?.validationResults ?? {}
+    const accepted =
+      response.ok && (clearance ? raw?.clearanceStatus === 'CLEARED' : raw?.reportingStatus === 'REPORTED')
+
+    logger.info('ZATCA API response', { path, httpStatus: response.status, accepted })
+
+    return {
+      accepted,
+      status: accepted ? (clearance ? 'CLEARED' : 'REPORTED') : 'REJECTED',
+      httpStatus: response.status,
+      clearedXml: raw?.clearedInvoice ? Buffer.from(raw.clearedInvoice, 'base64').toString('utf8') : undefined,
+      warnings: toMessages(validation.warningMessages),
+      errors: toMessages(validation.errorMessages),
+      raw,
+    }
+  }
+}
+
+/**
+ * Offline stand-in for the Fatoora API. Verifies the submitted hash, the
+ * signature and PIH continuity against the last accepted invoice.
+ */
+export class ZATCALocalStub implements ZATCAApiClient {
+  private lastAcceptedHash: string | null = null
+
+  report(request: ZATCASubmissionRequest): Promise<ZATCAApiResult> {
+    return Promise.resolve(this.process(request, false))
+  }
+
+  clear(request: ZATCASubmissionRequest): Promise<ZATCAApiResult> {
+    return Promise.resolve(this.process(request, true))
+  }
+
+  private process(request: ZATCASubmissionRequest, clearance: boolean): ZATCAApiResult {
+    const errors: ZATCAValidationMessage[] = []
+    const verification = verifySignedInvoice(request.xml)
+
+    for (const message of verification.errors) {
+      errors.push({ code: 'signature', message })
+    }
+    if (verification.invoiceHash !== request.invoiceHash) {
+      errors.push({ code: 'invoiceHash', message: 'Submitted hash does not match the document' })
+    }
+    if (extractXmlValue(request.xml, /<cbc:UUID>([^<]+)<\/cbc:UUID>/) !== request.uuid) {
+      errors.push({ code: 'uuid', message: 'Submitted UUID does not match the document' })
+    }
+
+    const pih = extractXmlValue(
+      request.xml,
+      /<cbc:ID>PIH<\/cbc:ID>[\s\S]*?<cbc:EmbeddedDocumentBinaryObject[^>]*>([^<]+)</
+    )
+    const expectedPih = this.lastAcceptedHash
+    if (!pih) {
+      errors.push({ code: 'PIH', message: 'Previous invoice hash is missing' })
+    } else if (expectedPih && pih !== expectedPih) {
+      errors.push({ code: 'PIH', message: 'Previous invoice hash does not match the last accepted invoice' })
+    } else if (!expectedPih && pih !== INITIAL_PREVIOUS_INVOICE_HASH) {
+      // A fresh stub may be joining an existing chain; accept its head
+      logger.debug('ZATCA stub starting mid-chain', { pih })
+    }
+
+    const accepted = errors.length === 0
+    if (accepted) this.lastAcceptedHash = request.invoiceHash
+
+    const status = accepted ? (clearance ? 'CLEARED' : 'REPORTED') : 'REJECTED'
+    return {
+      accepted,
+      status,
+      httpStatus: accepted ? 200 : 400,
+      clearedXml: accepted && clearance ? request.xml : undefined,
+      warnings: [],
+      errors,
+      raw: { stub: true, status, validationResults: { errorMessages: errors } },
+    }
+  }
+}
+
+const localStubs = new Map<string, ZATCALocalStub>()
+
+/**
+ * Pick the client for a device: the local stub for the 'local'
+ * environment or when ZATCA_API_MODE=stub, otherwise the Fatoora API
+ */
+export function createZATCAClient(options: ZATCAClientOptions): ZATCAApiClient {
+  if (options.environment === 'local' || process.env.ZATCA_API_MODE === 'stub') {
+    const key = options.stubKey ?? 'default'
+    const stub = localStubs.get(key) ?? new ZATCALocalStub()
+    localStubs.set(key, stub)
+    return stub
+  }
+
+  if (!options.certificate || !options.secret) {
+    throw new Error('ZATCA CSID certificate and secret are required')
+  }
+  const environment = options.environment in FATOORA_BASE_URLS ? options.environment : 'sandbox'
+  return new ZATCAHttpClient(environment as Exclude<ZATCAEnvironment, 'local'>, options.certificate, options.secret)
+}
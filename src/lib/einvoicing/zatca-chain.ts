@@ -0,0 +1,189 @@
+import { randomUUID } from 'crypto'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { HashChainEntry } from './types'
+import { ZATCAAdapter } from './zatca-adapter'
+import { createZATCAClient, ZATCAApiResult } from './zatca-api'
+import { computeInvoiceHash, INITIAL_PREVIOUS_INVOICE_HASH } from './zatca-crypto'
+import { extractXmlValue } from './zatca-ubl'
+import { loadInvoiceForEInvoicing, mapInvoiceToZATCA } from './invoice-mapper'
+
+/**
+ * ZATCA Hash Chain
+ *
+ * Every EGS device keeps its own chain: each signed invoice carries the
+ * next invoice counter (ICV) and the hash of the previous invoice (PIH).
+ * The device row holds the chain head and is advanced with a compare-and-
+ * set on lastIcv, so concurrent stamping can never fork the chain.
+ */
+
+const MAX_STAMP_ATTEMPTS = 5
+
+export interface ChainEntryForVerification {
+  invoiceId: string
+  icv: number
+  invoiceHash: string
+  previousHash: string
+  xml: string
+  signedAt: Date
+}
+
+/**
+ * Sign an invoice on a device and append it to the device chain.
+ * Idempotent: an invoice already on the chain returns its entry.
+ */
+export async function stampInvoice(tenantId: string, invoiceId: string, deviceId: string, signingTime?: Date) {
+  const existing = await prisma.zatcaHashChainEntry.findUnique({
+    where: { deviceId_invoiceId: { deviceId, invoiceId } },
+  })
+  if (existing) return existing
+
+  const invoice = await loadInvoiceForEInvoicing(invoiceId, tenantId)
+  if (!invoice) throw new ApiError('NOT_FOUND', 'Invoice not found', 404)
+  if (invoice.status === 'DRAFT' || invoice.status === 'VOID') {
+    throw new ApiError('INVALID_STATE', `Cannot report a ${invoice.status} invoice`, 409)
+  }
+
+  const adapter = new ZATCAAdapter()
+
+  for (let attempt = 0; attempt < MAX_STAMP_ATTEMPTS; attempt++) {
+    const device = await prisma.zatcaDevice.findFirst({ where: { id: deviceId, tenantId } })
+    if (!device) throw new ApiError('NOT_FOUND', 'ZATCA device not found', 404)
+    if (device.status !== 'ACTIVE') {
+      throw new ApiError('INVALID_STATE', 'ZATCA device is not active', 409)
+    }
+    if (invoice.entityId !== device.entityId) {
+      throw new ApiError('ENTITY_MISMATCH', 'Device belongs to a different entity than the invoice', 409)
+    }
+
+    const icv = device.lastIcv + 1
+    const uuid = randomUUID()
+    const zatcaInvoice = mapInvoiceToZATCA(invoice, { uuid })
+    zatcaInvoice.metadata = { ...zatcaInvoice.metadata, icv, prevInvoiceHash: device.lastInvoiceHash }
+
+    const signedAt = signingTime ?? new Date()
+    const signed = await adapter.signInvoice(
+      zatcaInvoice,
+      { privateKey: device.privateKey, certificate: device.certificate, algorithm: 'SHA256_ECDSA' },
+      signedAt
+    )
+
+    const entry = await prisma.$transaction(async (tx) => {
+      const claimed = await tx.zatcaDevice.updateMany({
+        where: { id: device.id, lastIcv: device.lastIcv },
+        data: { lastIcv: icv, lastInvoiceHash: signed.invoiceHash },
+      })
+      if (claimed.count === 0) return null
+
+      return tx.zatcaHashChainEntry.create({
+        data: {
+          tenantId,
+          deviceId: device.id,
+          invoiceId,
+          icv,
+          uuid,
+          invoiceHash: signed.invoiceHash,
+          previousHash: device.lastInvoiceHash,
+          xml: signed.xml,
+          qrCode: signed.qrCode,
+          signedAt,
+        },
+      })
+    })
+
+    if (entry) return entry
+    logger.debug('ZATCA chain head moved, retrying', { deviceId, invoiceId, attempt })
+  }
+
+  throw new ApiError('CHAIN_CONFLICT', 'Could not append to the device hash chain, please retry', 409)
+}
+
+/**
+ * Report (simplified) or clear (standard) a stamped invoice
+ */
+export async function submitChainEntry(tenantId: string, entryId: string) {
+  const entry = await prisma.zatcaHashChainEntry.findFirst({
+    where: { id: entryId, tenantId },
+    include: { device: true },
+  })
+  if (!entry) throw new ApiError('NOT_FOUND', 'Hash chain entry not found', 404)
+  if (entry.reportingStatus === 'REPORTED' || entry.reportingStatus === 'CLEARED') {
+    return { entry, result: null as ZATCAApiResult | null }
+  }
+
+  const client = createZATCAClient({
+    environment: entry.device.environment,
+    certificate: entry.device.certificate,
+    secret: entry.device.certificateSecret,
+    stubKey: entry.device.id,
+  })
+
+  const request = { invoiceHash: entry.invoiceHash, uuid: entry.uuid, xml: entry.xml }
+  const typeName = extractXmlValue(entry.xml, /<cbc:InvoiceTypeCode name="(\d+)"/)
+  const result = typeName?.startsWith('02') ? await client.report(request) : await client.clear(request)
+
+  const updated = await prisma.zatcaHashChainEntry.update({
+    where: { id: entry.id },
+    data: {
+      reportingStatus: result.status,
+      clearedXml: result.clearedXml ?? null,
+      response: { httpStatus: result.httpStatus, warnings: result.warnings, errors: result.errors } as any,
+      submittedAt: new Date(),
+    },
+  })
+
+  return { entry: updated, result }
+}
+
+/**
+ * Check counters, PIH links and stored hashes along a chain ordered by ICV
+ */
+export function verifyChainEntries(
+  entries: ChainEntryForVerification[],
+  initialHash: string = INITIAL_PREVIOUS_INVOICE_HASH
+): HashChainEntry[] {
+  let expectedPrevious = initialHash
+  let expectedIcv = 1
+
+  return entries.map((entry) => {
+    const linked = entry.previousHash === expectedPrevious && entry.icv === expectedIcv
+    const intact = computeInvoiceHash(entry.xml) === entry.invoiceHash
+
+    expectedPrevious = entry.invoiceHash
+    expectedIcv = entry.icv + 1
+
+    return {
+      invoiceId: entry.invoiceId,
+      invoiceHash: entry.invoiceHash,
+      previousHash: entry.previousHash,
+      timestamp: entry.signedAt,
+      status: linked && intact ? 'valid' : 'broken',
+    }
+  })
+}
+
+/**
+ * Verify the full hash chain of a device
+ */
+export async function verifyHashChain(tenantId: string, deviceId: string) {
+  const device = await prisma.zatcaDevice.findFirst({ where: { id: deviceId, tenantId } })
+  if (!device) throw new ApiError('NOT_FOUND', 'ZATCA device not found', 404)
+
+  const entries = await prisma.zatcaHashChainEntry.findMany({
+    where: { deviceId },
+    orderBy: { icv: 'asc' },
+    select: { invoiceId: true, icv: true, invoiceHash: true, previousHash: true, xml: true, signedAt: true },
+  })
+
+  const verified = verifyChainEntries(entries)
+  const head = entries[entries.length - 1]
+  const headMatches = head ? head.invoiceHash === device.lastInvoiceHash && head.icv === device.lastIcv : device.lastIcv === 0
+
+  return {
+    deviceId,
+    valid: headMatches && verified.every((entry) => entry.status === 'valid'),
+    length: entries.length,
+    entries: verified,
+  }
+}
@@ -0,0 +1,192 @@
+import { createHash, createSign, createVerify, X509Certificate } from 'crypto'
+import { canonicalizeForHash, extractXmlValue } from './zatca-ubl'
+import { DER_TAGS, readDer } from './der'
+
+/**
+ * ZATCA Cryptographic Helpers
+ *
+ * Hashing, ECDSA signing and certificate handling as specified in the
+ * ZATCA E-Invoicing Security Features Implementation Standards, plus the
+ * TLV encoding used for the QR code. ZATCA mixes two digest encodings:
+ * the invoice hash is base64 of the raw SHA-256 digest, while certificate
+ * and signed-properties digests are base64 of the hex digest string.
+ */
+
+/** PIH of the first invoice on a device: base64(hex(SHA-256("0"))) */
+export const INITIAL_PREVIOUS_INVOICE_HASH =
+  'NWZlY2ViNjZmZmM4NmYzOGQ5NTI3ODZjNmQ2OTZjNzljMmRiYzIzOWRkNGU5MWI0NjcyOWQ3M2EyN2ZiNTdlOQ=='
+
+export interface SignedInvoiceVerification {
+  valid: boolean
+  invoiceHash: string // Recomputed from the document
+  errors: string[]
+}
+
+export interface ParsedCertificate {
+  body: string // Base64 DER without PEM armour
+  hash: string // base64(hex(SHA-256(body)))
+  issuerName: string // RFC 2253 order, e.g. "CN=..., O=..., C=SA"
+  serialNumber: string // Decimal
+  publicKey: Buffer // DER SubjectPublicKeyInfo
+  signature: Buffer // CA signature over the certificate
+}
+
+/**
+ * Base64 of the raw SHA-256 digest (invoice hash)
+ */
+export function sha256Base64(value: string | Buffer): string {
+  return createHash('sha256').update(value).digest('base64')
+}
+
+/**
+ * Base64 of the hex SHA-256 digest (certificate and signed properties)
+ */
+export function sha256HexBase64(value: string): string {
+  return Buffer.from(createHash('sha256').update(value).digest('hex')).toString('base64')
+}
+
+/**
+ * Strip PEM armour and whitespace from a certificate
+ */
+export function getCertificateBody(pem: string): string {
+  return pem
+    .replace(/-----BEGIN CERTIFICATE-----/g, '')
+    .replace(/-----END CERTIFICATE-----/g, '')
+    .replace(/\s+/g, '')
+}
+
+/**
+ * Accept either a PEM certificate or the bare base64 body ZATCA returns
+ */
+export function toCertificatePem(certificate: string): string {
+  if (certificate.includes('BEGIN CERTIFICATE')) return certificate
+  const body = certificate.replace(/\s+/g, '')
+  const lines = body.match(/.{1,64}/g) ?? []
+  return `-----BEGIN CERTIFICATE-----\n${lines.join('\n')}\n-----END CERTIFICATE-----\n`
+}
+
+/**
+ * The signatureValue BIT STRING of an X.509 certificate:
+ * Certificate ::= SEQUENCE { tbsCertificate, signatureAlgorithm, signatureValue }
+ */
+function extractCertificateSignature(der: Buffer): Buffer {
+  const certificate = readDer(der, 0)
+  const tbs = readDer(der, certificate.start)
+  const algorithm = readDer(der, tbs.end)
+  const signature = readDer(der, algorithm.end)
+  if (signature.tag !== DER_TAGS.BIT_STRING) {
+    throw new Error('Malformed certificate: signature is not a BIT STRING')
+  }
+  // First content byte is the unused-bits count
+  return der.subarray(signature.start + 1, signature.end)
+}
+
+/**
+ * Parse the fields of a CSID certificate used in signatures and the QR
+ */
+export function parseCertificate(certificate: string): ParsedCertificate {
+  const pem = toCertificatePem(certificate)
+  const x509 = new X509Certificate(pem)
+  const body = getCertificateBody(pem)
+
+  return {
+    body,
+    hash: sha256HexBase64(body),
+    issuerName: x509.issuer.split('\n').reverse().join(', '),
+    serialNumber: BigInt(`0x${x509.serialNumber}`).toString(10),
+    publicKey: x509.publicKey.export({ type: 'spki', format: 'der' }) as Buffer,
+    signature: extractCertificateSignature(x509.raw),
+  }
+}
+
+/**
+ * ECDSA-sign an invoice hash; returns the DER signature in base64
+ */
+export function signInvoiceHash(invoiceHash: string, privateKey: string, passphrase?: string): string {
+  const signer = createSign('sha256')
+  signer.update(Buffer.from(invoiceHash, 'base64'))
+  return signer.sign({ key: privateKey, passphrase }, 'base64')
+}
+
+/**
+ * Verify an invoice hash signature against the signer's certificate
+ */
+export function verifyInvoiceHashSignature(invoiceHash: string, signature: string, certificate: string): boolean {
+  try {
+    const verifier = createVerify('sha256')
+    verifier.update(Buffer.from(invoiceHash, 'base64'))
+    return verifier.verify(new X509Certificate(toCertificatePem(certificate)).publicKey, signature, 'base64')
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Encode QR fields as tag-length-value and base64 the result
+ */
+export function encodeTLV(fields: Array<[number, string | Buffer]>): string {
+  const parts = fields.map(([tag, value]) => {
+    const bytes = Buffer.isBuffer(value) ? value : Buffer.from(value, 'utf8')
+    if (bytes.length > 255) {
+      throw new Error(`QR tag ${tag} exceeds 255 bytes`)
+    }
+    return Buffer.concat([Buffer.from([tag, bytes.length]), bytes])
+  })
+  return Buffer.concat(parts).toString('base64')
+}
+
+/**
+ * Decode a base64 TLV QR payload
+ */
+export function decodeTLV(encoded: string): Map<number, Buffer> {
+  const buffer = Buffer.from(encoded, 'base64')
+  const fields = new Map<number, Buffer>()
+  let offset = 0
+  while (offset + 2 <= buffer.length) {
+    const tag = buffer[offset]
+    const length = buffer[offset + 1]
+    fields.set(tag, buffer.subarray(offset + 2, offset + 2 + length))
+    offset += 2 + length
+  }
+  return fields
+}
+
+/**
+ * Hash of a UBL document with the signature transforms applied
+ */
+export function computeInvoiceHash(xml: string): string {
+  return sha256Base64(canonicalizeForHash(xml))
+}
+
+/**
+ * Verify a signed ZATCA document: the invoice digest, the signed
+ * properties digest and the ECDSA signature against the embedded CSID
+ */
+export function verifySignedInvoice(xml: string): SignedInvoiceVerification {
+  const errors: string[] = []
+  const invoiceHash = computeInvoiceHash(xml)
+
+  const digest = extractXmlValue(xml, /<ds:Reference Id="invoiceSignedData"[\s\S]*?<ds:DigestValue>([^<]+)<\/ds:DigestValue>/)
+  const signedPropertiesDigest = extractXmlValue(
+    xml,
+    /URI="#xadesSignedProperties">[\s\S]*?<ds:DigestValue>([^<]+)<\/ds:DigestValue>/
+  )
+  const signedProperties = extractXmlValue(xml, /(<xades:SignedProperties[\s\S]*?<\/xades:SignedProperties>)/)
+  const signature = extractXmlValue(xml, /<ds:SignatureValue>([^<]+)<\/ds:SignatureValue>/)
+  const certificate = extractXmlValue(xml, /<ds:X509Certificate>([^<]+)<\/ds:X509Certificate>/)
+
+  if (!digest || !signature || !certificate || !signedProperties) {
+    return { valid: false, invoiceHash, errors: ['Document is not signed'] }
+  }
+  if (digest !== invoiceHash) {
+    errors.push('Invoice hash does not match the document')
+  }
+  if (signedPropertiesDigest !== sha256HexBase64(signedProperties)) {
+    errors.push('Signed properties digest does not match')
+  }
+  if (!verifyInvoiceHashSignature(digest, signature, certificate)) {
+    errors.push('Signature does not verify against the certificate')
+  }
+
+  return { valid: errors.length === 0, invoiceHash, errors }
+}
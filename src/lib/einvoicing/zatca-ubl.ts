@@ -0,0 +1,432 @@
+import { ZATCAInvoice, LineTaxCategory } from './types'
+
+/**
+ * ZATCA UBL 2.1 Builder
+ *
+ * Serializes a ZATCAInvoice as a UBL 2.1 Invoice with the KSA extensions
+ * (ICV, PIH, QR and the enveloped XAdES signature). Output is written in
+ * canonical form - attributes in C14N order, explicit end tags, C14N
+ * escaping - so the invoice hash can be taken over the serialized string.
+ *
+ * The signature, QR and cac:Signature elements are excluded from the hash.
+ * Their positions are always emitted (as indentation-only lines when
+ * absent) so removing them from the signed document restores the exact
+ * bytes that were hashed before signing.
+ */
+
+const NS_INVOICE = 'urn:oasis:names:specification:ubl:schema:xsd:Invoice-2'
+const NS_CAC = 'urn:oasis:names:specification:ubl:schema:xsd:CommonAggregateComponents-2'
+const NS_CBC = 'urn:oasis:names:specification:ubl:schema:xsd:CommonBasicComponents-2'
+const NS_EXT = 'urn:oasis:names:specification:ubl:schema:xsd:CommonExtensionComponents-2'
+
+const ALG_C14N11 = 'http://www.w3.org/2006/12/xml-c14n11'
+const ALG_SHA256 = 'http://www.w3.org/2001/04/xmlenc#sha256'
+const ALG_ECDSA_SHA256 = 'http://www.w3.org/2001/04/xmldsig-more#ecdsa-sha256'
+const ALG_XPATH = 'http://www.w3.org/TR/1999/REC-xpath-19991116'
+
+const SIGNATURE_ID = 'urn:oasis:names:specification:ubl:signature:Invoice'
+const SIGNATURE_METHOD = 'urn:oasis:names:specification:ubl:dsig:enveloped:xades'
+
+/** Elements removed before hashing, as XPath (signature transforms) and regex (canonicalizeForHash) */
+const HASH_EXCLUSIONS = [
+  {
+    xpath: 'not(//ancestor-or-self::ext:UBLExtensions)',
+    pattern: /<ext:UBLExtensions>[\s\S]*?<\/ext:UBLExtensions>/g,
+  },
+  {
+    xpath: 'not(//ancestor-or-self::cac:Signature)',
+    pattern: /<cac:Signature>[\s\S]*?<\/cac:Signature>/g,
+  },
+  {
+    xpath: "not(//ancestor-or-self::cac:AdditionalDocumentReference[cbc:ID='QR'])",
+    pattern: /<cac:AdditionalDocumentReference>\s*<cbc:ID>QR<\/cbc:ID>[\s\S]*?<\/cac:AdditionalDocumentReference>/g,
+  },
+]
+
+/** UNTDID 5305 category codes used by ZATCA */
+const TAX_CATEGORY_CODES: Record<LineTaxCategory, 'S' | 'Z' | 'E' | 'O'> = {
+  STANDARD: 'S',
+  ZERO_RATED: 'Z',
+  EXEMPT: 'E',
+  OUT_OF_SCOPE: 'O',
+  REVERSE_CHARGE: 'O',
+}
+
+/** Exemption reasons required for non-standard categories */
+const TAX_EXEMPTIONS: Record<'Z' | 'E' | 'O', { code: string; reason: string }> = {
+  Z: { code: 'VATEX-SA-33', reason: 'Zero rated supply' },
+  E: { code: 'VATEX-SA-29', reason: 'Exempt financial services' },
+  O: { code: 'VATEX-SA-OOS', reason: 'Not subject to VAT' },
+}
+
+const PAYMENT_MEANS_CODES: Record<string, string> = {
+  CASH: '10',
+  CREDIT_CARD: '48',
+  BANK_TRANSFER: '42',
+  CHEQUE: '20',
+}
+
+/**
+ * Pre-serialized parts that are excluded from the invoice hash
+ */
+export interface ZATCASignatureParts {
+  extensions?: string // <ext:UBLExtensions> block
+  qrCode?: string // Base64 TLV payload
+}
+
+export interface ZATCASignedPropertiesInput {
+  signingTime: Date
+  certificateHash: string
+  issuerName: string
+  serialNumber: string
+}
+
+export interface ZATCASignatureExtensionInput {
+  invoiceHash: string
+  signedPropertiesHash: string
+  signatureValue: string
+  certificateBody: string
+  signedProperties: string
+}
+
+interface XmlElement {
+  name: string
+  attrs?: Array<[string, string]>
+  text?: string
+  children?: XmlChild[]
+}
+
+interface XmlSlot {
+  slot: string | undefined
+}
+
+type XmlChild = XmlElement | XmlSlot | null | undefined | false
+
+function el(name: string, content?: string | number | XmlChild[], attrs?: Array<[string, string]>): XmlElement {
+  if (Array.isArray(content)) return { name, attrs, children: content }
+  return { name, attrs, text: content === undefined ? '' : String(content) }
+}
+
+/**
+ * C14N text escaping
+ */
+export function escapeXmlText(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r/g, '&#xD;')
+}
+
+function escapeXmlAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\t/g, '&#x9;')
+    .replace(/\n/g, '&#xA;')
+    .replace(/\r/g, '&#xD;')
+}
+
+function renderAttrs(attrs?: Array<[string, string]>): string {
+  return (attrs ?? []).map(([key, value]) => ` ${key}="${escapeXmlAttribute(value)}"`).join('')
+}
+
+function render(node: XmlElement | XmlSlot, depth: number): string {
+  const pad = '    '.repeat(depth)
+  if ('slot' in node) return `${pad}${node.slot ?? ''}`
+
+  const open = `<${node.name}${renderAttrs(node.attrs)}>`
+  if (node.children === undefined) {
+    return `${pad}${open}${escapeXmlText(node.text ?? '')}</${node.name}>`
+  }
+
+  const children = node.children.filter((child): child is XmlElement | XmlSlot => Boolean(child))
+  return [`${pad}${open}`, ...children.map((child) => render(child, depth + 1)), `${pad}</${node.name}>`].join('\n')
+}
+
+function amount(value: number): string {
+  return (Math.round(value * 100) / 100).toFixed(2)
+}
+
+function currencyAmount(name: string, value: number, currency: string): XmlElement {
+  return el(name, amount(value), [['currencyID', currency]])
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function isoTime(date: Date): string {
+  return date.toISOString().slice(11, 19)
+}
+
+/**
+ * Simplified (B2C) invoices are reported; standard (B2B) invoices are cleared
+ */
+export function isSimplifiedInvoice(invoice: ZATCAInvoice): boolean {
+  return invoice.invoiceType === 'SIMPLIFIED' || !invoice.buyer?.taxId
+}
+
+/**
+ * InvoiceTypeCode value and its transaction-type name attribute
+ */
+export function getInvoiceTypeCode(invoice: ZATCAInvoice): { code: string; name: string } {
+  const code = invoice.invoiceType === 'CREDIT_NOTE' ? '381' : invoice.invoiceType === 'DEBIT_NOTE' ? '383' : '388'
+  return { code, name: isSimplifiedInvoice(invoice) ? '0200000' : '0100000' }
+}
+
+function resolveCategoryCode(line: ZATCAInvoice['lineItems'][number]): 'S' | 'Z' | 'E' | 'O' {
+  if (line.taxCategory) return TAX_CATEGORY_CODES[line.taxCategory]
+  return line.taxPercent > 0 ? 'S' : 'Z'
+}
+
+function lineNet(line: ZATCAInvoice['lineItems'][number]): number {
+  return line.lineTotal - line.taxAmount
+}
+
+function taxCategory(name: string, code: 'S' | 'Z' | 'E' | 'O', percent: number, withExemption: boolean): XmlElement {
+  const exemption = code === 'S' ? null : TAX_EXEMPTIONS[code]
+  return el(name, [
+    el('cbc:ID', code),
+    el('cbc:Percent', amount(percent)),
+    withExemption && exemption && el('cbc:TaxExemptionReasonCode', exemption.code),
+    withExemption && exemption && el('cbc:TaxExemptionReason', exemption.reason),
+    el('cac:TaxScheme', [el('cbc:ID', 'VAT')]),
+  ])
+}
+
+function party(
+  details: NonNullable<ZATCAInvoice['buyer']>,
+  options: { country: string; includeCr: boolean }
+): XmlChild[] {
+  const hasAddress = details.streetName || details.address || details.cityName
+  return [
+    options.includeCr && details.crNumber && el('cac:PartyIdentification', [el('cbc:ID', details.crNumber, [['schemeID', 'CRN']])]),
+    hasAddress &&
+      el('cac:PostalAddress', [
+        el('cbc:StreetName', details.streetName || details.address || ''),
+        details.buildingNumber && el('cbc:BuildingNumber', details.buildingNumber),
+        details.cityName && el('cbc:CityName', details.cityName),
+        details.postalCode && el('cbc:PostalZone', details.postalCode),
+        details.province && el('cbc:CountrySubentity', details.province),
+        el('cac:Country', [el('cbc:IdentificationCode', options.country)]),
+      ]),
+    details.taxId && el('cac:PartyTaxScheme', [el('cbc:CompanyID', details.taxId), el('cac:TaxScheme', [el('cbc:ID', 'VAT')])]),
+    details.name && el('cac:PartyLegalEntity', [el('cbc:RegistrationName', details.name)]),
+  ]
+}
+
+function taxSubtotals(invoice: ZATCAInvoice, currency: string): XmlElement[] {
+  const groups = new Map<string, { code: 'S' | 'Z' | 'E' | 'O'; percent: number; taxable: number; tax: number }>()
+  for (const line of invoice.lineItems) {
+    const code = resolveCategoryCode(line)
+    const percent = code === 'S' ? line.taxPercent : 0
+    const key = `${code}:${percent}`
+    const group = groups.get(key) ?? { code, percent, taxable: 0, tax: 0 }
+    group.taxable += lineNet(line)
+    group.tax += line.taxAmount
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.values()).map((group) =>
+    el('cac:TaxSubtotal', [
+      currencyAmount('cbc:TaxableAmount', group.taxable, currency),
+      currencyAmount('cbc:TaxAmount', group.tax, currency),
+      taxCategory('cac:TaxCategory', group.code, group.percent, true),
+    ])
+  )
+}
+
+function invoiceLine(line: ZATCAInvoice['lineItems'][number], index: number, currency: string): XmlElement {
+  const code = resolveCategoryCode(line)
+  const discount = line.discount || 0
+  return el('cac:InvoiceLine', [
+    el('cbc:ID', index + 1),
+    el('cbc:InvoicedQuantity', line.quantity, [['unitCode', 'PCE']]),
+    currencyAmount('cbc:LineExtensionAmount', lineNet(line), currency),
+    discount > 0 &&
+      el('cac:AllowanceCharge', [
+        el('cbc:ChargeIndicator', 'false'),
+        el('cbc:AllowanceChargeReason', 'discount'),
+        currencyAmount('cbc:Amount', discount, currency),
+      ]),
+    el('cac:TaxTotal', [
+      currencyAmount('cbc:TaxAmount', line.taxAmount, currency),
+      currencyAmount('cbc:RoundingAmount', line.lineTotal, currency),
+    ]),
+    el('cac:Item', [
+      el('cbc:Name', line.description),
+      taxCategory('cac:ClassifiedTaxCategory', code, code === 'S' ? line.taxPercent : 0, false),
+    ]),
+    el('cac:Price', [currencyAmount('cbc:PriceAmount', line.unitPrice, currency)]),
+  ])
+}
+
+/**
+ * Serialize the invoice as UBL 2.1. Without signature parts the result is
+ * the unsigned document whose canonical form is hashed.
+ */
+export function buildZATCAInvoiceXML(invoice: ZATCAInvoice, parts: ZATCASignatureParts = {}): string {
+  const currency = invoice.currency || 'SAR'
+  const typeCode = getInvoiceTypeCode(invoice)
+  const isNote = invoice.invoiceType === 'CREDIT_NOTE' || invoice.invoiceType === 'DEBIT_NOTE'
+  const icv = invoice.metadata?.icv
+  const pih = invoice.metadata?.prevInvoiceHash
+  const lineExtension = invoice.lineItems.reduce((sum, line) => sum + lineNet(line), 0)
+
+  const qrReference = parts.qrCode
+    ? render(
+        el('cac:AdditionalDocumentReference', [
+          el('cbc:ID', 'QR'),
+          el('cac:Attachment', [el('cbc:EmbeddedDocumentBinaryObject', parts.qrCode, [['mimeCode', 'text/plain']])]),
+        ]),
+        0
+      ).replace(/\n\s*/g, '')
+    : undefined
+  const signatureReference = parts.extensions
+    ? `<cac:Signature><cbc:ID>${SIGNATURE_ID}</cbc:ID><cbc:SignatureMethod>${SIGNATURE_METHOD}</cbc:SignatureMethod></cac:Signature>`
+    : undefined
+
+  const root = el(
+    'Invoice',
+    [
+      { slot: parts.extensions },
+      el('cbc:ProfileID', 'reporting:1.0'),
+      el('cbc:ID', invoice.invoiceNumber),
+      el('cbc:UUID', invoice.uuid),
+      el('cbc:IssueDate', isoDate(invoice.issueDate)),
+      el('cbc:IssueTime', isoTime(invoice.issueDate)),
+      el('cbc:InvoiceTypeCode', typeCode.code, [['name', typeCode.name]]),
+      el('cbc:DocumentCurrencyCode', currency),
+      el('cbc:TaxCurrencyCode', 'SAR'),
+      isNote &&
+        invoice.billingReference &&
+        el('cac:BillingReference', [el('cac:InvoiceDocumentReference', [el('cbc:ID', invoice.billingReference)])]),
+      icv !== undefined && el('cac:AdditionalDocumentReference', [el('cbc:ID', 'ICV'), el('cbc:UUID', icv)]),
+      pih &&
+        el('cac:AdditionalDocumentReference', [
+          el('cbc:ID', 'PIH'),
+          el('cac:Attachment', [el('cbc:EmbeddedDocumentBinaryObject', pih, [['mimeCode', 'text/plain']])]),
+        ]),
+      { slot: qrReference },
+      { slot: signatureReference },
+      el('cac:AccountingSupplierParty', [
+        el('cac:Party', party(invoice.seller, { country: 'SA', includeCr: true })),
+      ]),
+      el(
+        'cac:AccountingCustomerParty',
+        invoice.buyer ? [el('cac:Party', party(invoice.buyer, { country: 'SA', includeCr: false }))] : []
+      ),
+      !isSimplifiedInvoice(invoice) && el('cac:Delivery', [el('cbc:ActualDeliveryDate', isoDate(invoice.issueDate))]),
+      el('cac:PaymentMeans', [
+        el('cbc:PaymentMeansCode', PAYMENT_MEANS_CODES[invoice.paymentTerms?.method ?? 'CASH']),
+        isNote && el('cbc:InstructionNote', invoice.adjustmentReason || 'Adjustment'),
+      ]),
+      el('cac:TaxTotal', [currencyAmount('cbc:TaxAmount', invoice.totals.taxTotal, currency)]),
+      el('cac:TaxTotal', [
+        currencyAmount('cbc:TaxAmount', invoice.totals.taxTotal, currency),
+        ...taxSubtotals(invoice, currency),
+      ]),
+      el('cac:LegalMonetaryTotal', [
+        currencyAmount('cbc:LineExtensionAmount', lineExtension, currency),
+        currencyAmount('cbc:TaxExclusiveAmount', lineExtension, currency),
+        currencyAmount('cbc:TaxInclusiveAmount', invoice.totals.total, currency),
+        currencyAmount('cbc:AllowanceTotalAmount', 0, currency),
+        currencyAmount('cbc:PrepaidAmount', 0, currency),
+        currencyAmount('cbc:PayableAmount', invoice.totals.total, currency),
+      ]),
+      ...invoice.lineItems.map((line, index) => invoiceLine(line, index, currency)),
+    ],
+    [
+      ['xmlns', NS_INVOICE],
+      ['xmlns:cac', NS_CAC],
+      ['xmlns:cbc', NS_CBC],
+      ['xmlns:ext', NS_EXT],
+    ]
+  )
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${render(root, 0)}`
+}
+
+/**
+ * Apply the signature transforms: drop the declaration and the excluded
+ * elements, expand empty-element tags and normalize line endings
+ */
+export function canonicalizeForHash(xml: string): string {
+  let canonical = xml.replace(/\r\n?/g, '\n').replace(/^\s*<\?xml[^>]*\?>/, '')
+  for (const exclusion of HASH_EXCLUSIONS) {
+    canonical = canonical.replace(exclusion.pattern, '')
+  }
+  return canonical.replace(/<([\w:.-]+)((?:\s[^<>]*?)?)\s*\/>/g, '<$1$2></$1>').trim()
+}
+
+/**
+ * XAdES SignedProperties; the same string is hashed and embedded
+ */
+export function buildSignedProperties(input: ZATCASignedPropertiesInput): string {
+  const signingTime = input.signingTime.toISOString().slice(0, 19)
+  return (
+    '<xades:SignedProperties Id="xadesSignedProperties">' +
+    '<xades:SignedSignatureProperties>' +
+    `<xades:SigningTime>${signingTime}</xades:SigningTime>` +
+    '<xades:SigningCertificate><xades:Cert><xades:CertDigest>' +
+    `<ds:DigestMethod Algorithm="${ALG_SHA256}"></ds:DigestMethod>` +
+    `<ds:DigestValue>${input.certificateHash}</ds:DigestValue>` +
+    '</xades:CertDigest><xades:IssuerSerial>' +
+    `<ds:X509IssuerName>${escapeXmlText(input.issuerName)}</ds:X509IssuerName>` +
+    `<ds:X509SerialNumber>${input.serialNumber}</ds:X509SerialNumber>` +
+    '</xades:IssuerSerial></xades:Cert></xades:SigningCertificate>' +
+    '</xades:SignedSignatureProperties>' +
+    '</xades:SignedProperties>'
+  )
+}
+
+/**
+ * The enveloped XAdES-BES signature carried in ext:UBLExtensions
+ */
+export function buildSignatureExtension(input: ZATCASignatureExtensionInput): string {
+  const transforms = HASH_EXCLUSIONS.map(
+    (exclusion) => `<ds:Transform Algorithm="${ALG_XPATH}"><ds:XPath>${escapeXmlText(exclusion.xpath)}</ds:XPath></ds:Transform>`
+  ).join('')
+
+  return (
+    '<ext:UBLExtensions><ext:UBLExtension>' +
+    `<ext:ExtensionURI>${SIGNATURE_METHOD}</ext:ExtensionURI>` +
+    '<ext:ExtensionContent>' +
+    '<sig:UBLDocumentSignatures xmlns:sig="urn:oasis:names:specification:ubl:schema:xsd:CommonSignatureComponents-2" ' +
+    'xmlns:sac="urn:oasis:names:specification:ubl:schema:xsd:SignatureAggregateComponents-2" ' +
+    'xmlns:sbc="urn:oasis:names:specification:ubl:schema:xsd:SignatureBasicComponents-2">' +
+    '<sac:SignatureInformation>' +
+    '<cbc:ID>urn:oasis:names:specification:ubl:signature:1</cbc:ID>' +
+    `<sbc:ReferencedSignatureID>${SIGNATURE_ID}</sbc:ReferencedSignatureID>` +
+    '<ds:Signature xmlns:ds="http://www.w3.org/2000/09/xmldsig#" Id="signature">' +
+    '<ds:SignedInfo>' +
+    `<ds:CanonicalizationMethod Algorithm="${ALG_C14N11}"></ds:CanonicalizationMethod>` +
+    `<ds:SignatureMethod Algorithm="${ALG_ECDSA_SHA256}"></ds:SignatureMethod>` +
+    '<ds:Reference Id="invoiceSignedData" URI="">' +
+    `<ds:Transforms>${transforms}<ds:Transform Algorithm="${ALG_C14N11}"></ds:Transform></ds:Transforms>` +
+    `<ds:DigestMethod Algorithm="${ALG_SHA256}"></ds:DigestMethod>` +
+    `<ds:DigestValue>${input.invoiceHash}</ds:DigestValue>` +
+    '</ds:Reference>' +
+    '<ds:Reference Type="http://www.w3.org/2000/09/xmldsig#SignatureProperties" URI="#xadesSignedProperties">' +
+    `<ds:DigestMethod Algorithm="${ALG_SHA256}"></ds:DigestMethod>` +
+    `<ds:DigestValue>${input.signedPropertiesHash}</ds:DigestValue>` +
+    '</ds:Reference>' +
+    '</ds:SignedInfo>' +
+    `<ds:SignatureValue>${input.signatureValue}</ds:SignatureValue>` +
+    `<ds:KeyInfo><ds:X509Data><ds:X509Certificate>${input.certificateBody}</ds:X509Certificate></ds:X509Data></ds:KeyInfo>` +
+    '<ds:Object><xades:QualifyingProperties xmlns:xades="http://uri.etsi.org/01903/v1.3.2#" Target="signature">' +
+    input.signedProperties +
+    '</xades:QualifyingProperties></ds:Object>' +
+    '</ds:Signature>' +
+    '</sac:SignatureInformation>' +
+    '</sig:UBLDocumentSignatures>' +
+    '</ext:ExtensionContent>' +
+    '</ext:UBLExtension></ext:UBLExtensions>'
+  )
+}
+
+/**
+ * Read a single element's text content from a generated document
+ */
+export function extractXmlValue(xml: string, pattern: RegExp): string | null {
+  const match = xml.match(pattern)
+  return match ? match[1] : null
+}
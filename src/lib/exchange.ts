@@ -25,8 +25,11 @@ export async function fetchRates(targets: string[], base = BASE_CURRENCY): Promi
       const now = new Date()
       const updated: { target: string; rate: number; fetchedAt: string }[] = []
 
+      // One quote per pair and day: rates are kept as history so documents
+      // and month-end revaluation can look up the rate of their date
+      const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
       for (const r of rates) {
-        const existing = await prisma.exchangeRate.findFirst({ where: { base, target: r.target } })
+        const existing = await prisma.exchangeRate.findFirst({ where: { base, target: r.target, fetchedAt: { gte: startOfDay } } })
         if (existing) {
           await prisma.exchangeRate.update({ where: { id: existing.id }, data: { rate: r.rate, source: 'exchangerate.host', fetchedAt: now, ttlSeconds: TTL_SECONDS } })
         } else {
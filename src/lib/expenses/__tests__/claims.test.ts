@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import { ClaimLine, claimLineFacts, ClaimLineSchema, perDiemCoveredDays } from '../claims'
+import { getManagerApprover } from '../claim-approval'
+import {
+  buildExpensePolicyRules,
+  DEFAULT_EXPENSE_POLICY,
+  evaluateClaimLine,
+  ExpensePolicySettings,
+  getMileageRateCents,
+  getPerDiemRateCents,
+  mileageAmountCents,
+  perDiemAmountCents,
+} from '../policy'
+
+const line = (overrides: Partial<ClaimLine> = {}): ClaimLine => ({
+  id: 'line-1',
+  kind: 'RECEIPT',
+  category: 'meals',
+  date: new Date('2025-04-02T00:00:00Z'),
+  amountCents: 4000,
+  functionalAmountCents: null,
+  attachmentId: 'att-1',
+  perDiemDays: null,
+  ...overrides,
+})
+
+const policy = (overrides: Partial<ExpensePolicySettings> = {}): ExpensePolicySettings => ({
+  ...DEFAULT_EXPENSE_POLICY,
+  version: `test-${Math.random()}`,
+  ...overrides,
+})
+
+describe('claim lines', () => {
+  it('counts part days of a per diem as whole days', () => {
+    expect(perDiemCoveredDays(new Date('2025-04-01T00:00:00Z'), 2.5)).toEqual(['2025-04-01', '2025-04-02', '2025-04-03'])
+    expect(perDiemCoveredDays(new Date('2025-04-01T00:00:00Z'), 0.5)).toEqual(['2025-04-01'])
+  })
+
+  it('flags meals on a per-diem day and uses the functional amount', () => {
+    const facts = claimLineFacts([
+      line({ id: 'pd', kind: 'PER_DIEM', category: 'per_diem', date: new Date('2025-04-01T00:00:00Z'), perDiemDays: '2', attachmentId: null }),
+      line({ id: 'lunch', functionalAmountCents: 3672 }),
+      line({ id: 'dinner', date: new Date('2025-04-05T00:00:00Z'), attachmentId: null }),
+    ])
+    expect(facts.get('lunch')).toEqual({ kind: 'RECEIPT', category: 'meals', amountCents: 3672, hasReceipt: true, coveredByPerDiem: true })
+    expect(facts.get('dinner')).toMatchObject({ hasReceipt: false, coveredByPerDiem: false })
+    expect(facts.get('pd')?.coveredByPerDiem).toBe(false)
+  })
+
+  it('accepts per diems in half days only and requires a purpose for mileage', () => {
+    expect(ClaimLineSchema.safeParse({ kind: 'PER_DIEM', date: '2025-04-01', days: 1.5, country: 'SA' }).success).toBe(true)
+    expect(ClaimLineSchema.safeParse({ kind: 'PER_DIEM', date: '2025-04-01', days: 1.3, country: 'SA' }).success).toBe(false)
+    expect(ClaimLineSchema.safeParse({ kind: 'MILEAGE', date: '2025-04-01', distanceKm: 42 }).success).toBe(false)
+  })
+})
+
+describe('expense policy rates', () => {
+  it('prefers the tenant rate and falls back to the country registry', () => {
+    expect(getPerDiemRateCents(policy({ perDiemRates: { AE: 30000 } }), 'ae')).toBe(30000)
+    expect(getPerDiemRateCents(policy(), 'SA')).toBe(45000)
+    expect(getMileageRateCents(policy(), 'AE')).toBe(75)
+    expect(getMileageRateCents(policy({ mileageRateCents: 90 }), 'AE')).toBe(90)
+  })
+
+  it('refuses countries without a rate', () => {
+    expect(() => getPerDiemRateCents(policy(), 'FR')).toThrow(/No per-diem rate/)
+    expect(() => getMileageRateCents(policy(), null)).toThrow(/No mileage rate/)
+  })
+
+  it('computes mileage and per-diem amounts', () => {
+    expect(mileageAmountCents(123.4, 75)).toBe(9255)
+    expect(perDiemAmountCents(2.5, 45000)).toBe(112500)
+  })
+})
+
+describe('expense policy rules', () => {
+  it('builds a cap rule per category plus the receipt and per-diem checks', () => {
+    const rules = buildExpensePolicyRules('t1', policy({ categoryCaps: { meals: 5000, travel: 100000 } }))
+    expect(rules.map((rule) => rule.id)).toEqual([
+      'expense-policy:t1:cap:meals',
+      'expense-policy:t1:cap:travel',
+      'expense-policy:t1:receipt-required',
+      'expense-policy:t1:per-diem-meals',
+    ])
+  })
+
+  it('flags a line over its category cap without a receipt', () => {
+    const settings = policy({ categoryCaps: { meals: 5000 } })
+    const violations = evaluateClaimLine('t-cap', settings, {
+      kind: 'RECEIPT',
+      category: 'Meals',
+      amountCents: 6000,
+      hasReceipt: false,
+      coveredByPerDiem: false,
+    })
+    expect(violations.map((v) => v.code).sort()).toEqual(['CATEGORY_CAP_EXCEEDED', 'RECEIPT_REQUIRED'])
+  })
+
+  it('does not flag mileage for a missing receipt, and picks up policy changes', () => {
+    const facts = { kind: 'MILEAGE', category: 'travel', amountCents: 9000, hasReceipt: false, coveredByPerDiem: false }
+    expect(evaluateClaimLine('t-change', policy(), facts)).toEqual([])
+    const capped = evaluateClaimLine('t-change', policy({ categoryCaps: { travel: 5000 } }), facts)
+    expect(capped.map((v) => v.code)).toEqual(['CATEGORY_CAP_EXCEEDED'])
+  })
+
+  it('flags meals covered by a per diem', () => {
+    const violations = evaluateClaimLine('t-pd', policy(), {
+      kind: 'RECEIPT',
+      category: 'meals',
+      amountCents: 1000,
+      hasReceipt: true,
+      coveredByPerDiem: true,
+    })
+    expect(violations).toEqual([
+      { code: 'COVERED_BY_PER_DIEM', message: 'Meals on a day a per diem is claimed for', ruleId: 'expense-policy:t-pd:per-diem-meals' },
+    ])
+  })
+})
+
+describe('claim approvers', () => {
+  it('routes to the manager, or to team leads when there is none', () => {
+    expect(getManagerApprover({ id: 'u1', managerId: 'm1' })).toBe('m1')
+    expect(getManagerApprover({ id: 'u1', managerId: null })).toBe('TEAM_LEAD')
+    expect(getManagerApprover({ id: 'u1', managerId: 'u1' })).toBe('TEAM_LEAD')
+  })
+})
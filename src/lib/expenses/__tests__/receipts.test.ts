@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest'
+import { isTaxMismatch, normalizeVendorKey, receiptToExpenseDraft } from '../receipts'
+import { ExpenseReviewSchema, markCorrections } from '../review'
+import { ReceiptAnalysis } from '@/lib/ocr/ocr-service'
+
+const analysis = (overrides: Partial<ReceiptAnalysis> = {}): ReceiptAnalysis => ({
+  vendor: { name: 'Carrefour Mall of the Emirates #204' },
+  date: '2025-03-14',
+  total: 43.2,
+  tax: 2.06,
+  currency: 'aed',
+  confidence: 0.9,
+  fieldConfidence: { vendor: 0.95, date: 0.92, total: 0.97, tax: 0.9, currency: 0.88 },
+  ...overrides,
+})
+
+describe('vendor keys', () => {
+  it('ignores case, punctuation, accents and store numbers', () => {
+    expect(normalizeVendorKey('Carrefour Mall of the Emirates #204')).toBe('carrefour mall of the emirates')
+    expect(normalizeVendorKey('  CAFÉ  Nero, 12 ')).toBe('cafe nero')
+    expect(normalizeVendorKey('7-Eleven')).toBe('eleven')
+  })
+})
+
+describe('receipt to expense draft', () => {
+  it('keeps every field with its confidence and needs no review when all are confident', () => {
+    const draft = receiptToExpenseDraft(analysis(), {
+      vendorDefaults: { vendorName: 'Carrefour', category: 'groceries', taxCodeId: 'tc-vat5' },
+      threshold: 0.8,
+    })
+    expect(draft).toMatchObject({
+      vendor: 'Carrefour',
+      amountCents: 4320,
+      taxCents: 206,
+      currency: 'AED',
+      category: 'groceries',
+      taxCodeId: 'tc-vat5',
+      confidence: 0.9,
+      reviewReasons: [],
+    })
+    expect(draft.date?.toISOString()).toBe('2025-03-14T00:00:00.000Z')
+    expect(draft.fields.total).toEqual({ value: 4320, confidence: 0.97 })
+    expect(draft.fields.date).toEqual({ value: '2025-03-14', confidence: 0.92 })
+  })
+
+  it('flags low-confidence and missing fields for review', () => {
+    const draft = receiptToExpenseDraft(
+      analysis({ date: undefined, fieldConfidence: { vendor: 0.6, total: 0.95, tax: 0.5, currency: 0.9 } }),
+      { vendorDefaults: { vendorName: 'Carrefour', category: null, taxCodeId: 'tc-vat5' }, threshold: 0.8 }
+    )
+    expect(draft.reviewReasons).toEqual(['LOW_CONFIDENCE_VENDOR', 'MISSING_DATE', 'LOW_CONFIDENCE_TAX'])
+    expect(draft.fields.date).toEqual({ value: null, confidence: 0 })
+    expect(draft.date).toBeNull()
+    expect(draft.category).toBe('general')
+  })
+
+  it('asks for a tax code when tax was read from an unknown vendor', () => {
+    const draft = receiptToExpenseDraft(analysis(), { threshold: 0.8 })
+    expect(draft.reviewReasons).toEqual(['TAX_CODE_NEEDED'])
+    expect(draft.vendor).toBe('Carrefour Mall of the Emirates #204')
+    expect(draft.taxCodeId).toBeNull()
+  })
+
+  it('falls back to the overall confidence and the default currency', () => {
+    const draft = receiptToExpenseDraft(
+      analysis({ tax: 0, currency: undefined, fieldConfidence: undefined, confidence: 0.7 }),
+      { threshold: 0.8, defaultCurrency: 'EUR' }
+    )
+    expect(draft.currency).toBe('EUR')
+    expect(draft.fields.vendor.confidence).toBe(0.7)
+    expect(draft.reviewReasons).toEqual(['LOW_CONFIDENCE_VENDOR', 'LOW_CONFIDENCE_DATE', 'LOW_CONFIDENCE_TOTAL'])
+  })
+
+  it('needs review for every required field when nothing was read', () => {
+    const draft = receiptToExpenseDraft({ confidence: 0 }, { threshold: 0.8 })
+    expect(draft.vendor).toBe('Unknown vendor')
+    expect(draft.amountCents).toBe(0)
+    expect(draft.reviewReasons).toEqual(['MISSING_VENDOR', 'MISSING_DATE', 'MISSING_TOTAL'])
+  })
+
+  it('tolerates a cent of rounding between printed and calculated tax', () => {
+    expect(isTaxMismatch(206, 206)).toBe(false)
+    expect(isTaxMismatch(206, 205)).toBe(false)
+    expect(isTaxMismatch(206, 180)).toBe(true)
+    expect(isTaxMismatch(null, 180)).toBe(false)
+  })
+})
+
+describe('receipt review', () => {
+  it('marks the fields the reviewer changed', () => {
+    const { fields } = receiptToExpenseDraft(analysis(), { threshold: 0.8 })
+    const marked = markCorrections(fields, {
+      vendor: 'carrefour mall of the emirates #204',
+      date: new Date('2025-03-15T00:00:00Z'),
+      amountCents: 4320,
+      taxCents: 206,
+      currency: 'AED',
+    })
+    expect(marked.vendor.corrected).toBe(false)
+    expect(marked.date).toEqual({ value: '2025-03-14', confidence: 0.92, corrected: true })
+    expect(marked.total.corrected).toBe(false)
+    expect(marked.tax.corrected).toBe(false)
+    expect(marked.currency.corrected).toBe(false)
+  })
+
+  it('requires a reason to reject and learns vendors by default', () => {
+    expect(ExpenseReviewSchema.safeParse({ action: 'reject', reason: ' ' }).success).toBe(false)
+    const accepted = ExpenseReviewSchema.parse({
+      action: 'accept',
+      vendor: 'Carrefour',
+      date: '2025-03-14',
+      amountCents: 4320,
+      currency: 'aed',
+      category: 'groceries',
+      taxCodeId: null,
+    })
+    expect(accepted).toMatchObject({ currency: 'AED', remember: true })
+  })
+})
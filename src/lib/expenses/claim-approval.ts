@@ -0,0 +1,178 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { postExpenseClaim, postExpenseClaimReimbursement, postSafely } from '@/lib/accounting/posting'
+import { Approver, canDecide } from '@/lib/payables/bill-approval'
+import { enforceSoD, SoDOverride } from '@/lib/rbac/sod-engine'
+import { loadEditableClaim, refreshClaim } from './claims'
+import { getExpensePolicy } from './policy'
+
+/**
+ * Expense Claim Approval
+ *
+ * A submitted claim goes to the employee's manager (their team lead role
+ * when no manager is recorded), then to finance (the approver named in the
+ * expense policy). Either level can send it back; a rejected claim can be
+ * corrected and submitted again. Once finance approves, the claim posts to
+ * Employee Reimbursements Payable, and marking it reimbursed clears that
+ * payable against the bank.
+ */
+
+export type ClaimApprovalLevel = 'MANAGER' | 'FINANCE'
+
+const CLAIMS_ROLE_FALLBACK = 'TEAM_LEAD'
+
+const LEVEL_BY_STATUS: Record<string, ClaimApprovalLevel> = {
+  PENDING_MANAGER: 'MANAGER',
+  PENDING_FINANCE: 'FINANCE',
+}
+
+const claimWithApprovals = (claimId: string) =>
+  prisma.expenseClaim.findUniqueOrThrow({ where: { id: claimId }, include: { approvals: { orderBy: { createdAt: 'asc' } } } })
+
+/**
+ * Who approves a claim at the manager level
+ */
+export function getManagerApprover(claimant: { id: string; managerId: string | null }): string {
+  return claimant.managerId && claimant.managerId !== claimant.id ? claimant.managerId : CLAIMS_ROLE_FALLBACK
+}
+
+/**
+ * Submit a draft or rejected claim to the employee's manager
+ */
+export async function submitClaim(tenantId: string, claimId: string, userId: string) {
+  const editable = await loadEditableClaim(tenantId, claimId, userId)
+  const claim = await refreshClaim(editable.id)
+  const lines = await prisma.expense.findMany({ where: { claimId }, select: { id: true, reviewStatus: true } })
+  if (!lines.length || claim.totalCents <= 0) throw new ApiError('EMPTY_CLAIM', 'Add at least one expense before submitting', 422)
+  const unreviewed = lines.filter((line) => line.reviewStatus === 'NEEDS_REVIEW').map((line) => line.id)
+  if (unreviewed.length) {
+    throw new ApiError('LINES_NEED_REVIEW', 'Some receipts are still waiting for review', 409, { expenseIds: unreviewed })
+  }
+
+  const claimant = await prisma.user.findUniqueOrThrow({ where: { id: claim.userId }, select: { id: true, managerId: true } })
+  const approver = getManagerApprover(claimant)
+
+  await prisma.$transaction(async (tx) => {
+    await tx.expenseClaimApproval.updateMany({ where: { claimId, status: 'PENDING' }, data: { status: 'CANCELLED' } })
+    // Approvals from an earlier round stay on record but no longer count
+    await tx.expenseClaimApproval.updateMany({ where: { claimId, status: 'APPROVED' }, data: { status: 'SUPERSEDED' } })
+    await tx.expenseClaimApproval.create({ data: { claimId, level: 'MANAGER', approver } })
+    await tx.expenseClaim.update({ where: { id: claimId }, data: { status: 'PENDING_MANAGER', submittedAt: new Date() } })
+  })
+  logger.info('Expense claim submitted', { claimId, approver, violations: claim.violationCount })
+
+  return claimWithApprovals(claimId)
+}
+
+async function approveClaim(claimId: string, userId: string) {
+  const claim = await prisma.expenseClaim.update({
+    where: { id: claimId },
+    data: { status: 'APPROVED', approvedAt: new Date() },
+  })
+  await prisma.expense.updateMany({ where: { claimId }, data: { status: 'APPROVED' } })
+  await postSafely('expense_claim', claim.id, () => postExpenseClaim(claim.id, userId))
+  logger.info('Expense claim approved', { claimId })
+  return claim
+}
+
+/**
+ * Record a manager's or finance's decision on a submitted claim. Employees
+ * do not decide their own claims, and nobody approves one at both levels.
+ */
+export async function decideClaim(
+  tenantId: string,
+  claimId: string,
+  user: Approver,
+  decision: 'APPROVED' | 'REJECTED',
+  comment?: string | null,
+  sodOverride?: SoDOverride | null
+) {
+  const claim = await prisma.expenseClaim.findFirst({
+    where: { id: claimId, tenantId },
+    include: { approvals: { where: { status: 'PENDING' } } },
+  })
+  if (!claim) throw new ApiError('NOT_FOUND', 'Expense claim not found', 404)
+  const level = LEVEL_BY_STATUS[claim.status]
+  if (!level) throw new ApiError('INVALID_STATE', 'The claim is not awaiting approval', 409)
+  if (claim.userId === user.id) throw new ApiError('SELF_APPROVAL', 'You cannot decide your own expense claim', 403)
+
+  const mine = claim.approvals.filter((approval) => approval.level === level && canDecide(approval, user))
+  if (!mine.length) throw new ApiError('NOT_AN_APPROVER', 'The claim is not awaiting your approval', 403)
+  if (decision === 'APPROVED') await enforceSoD(tenantId, 'expense_claim.approve', claimId, user, sodOverride)
+
+  const now = new Date()
+  const financeApprover = decision === 'APPROVED' && level === 'MANAGER'
+    ? (await getExpensePolicy(tenantId)).financeApprover
+    : null
+
+  await prisma.$transaction(async (tx) => {
+    await tx.expenseClaimApproval.updateMany({
+      where: { id: { in: mine.map((a) => a.id) }, status: 'PENDING' },
+      data: { status: decision, decidedBy: user.id, comment: comment ?? null, decidedAt: now },
+    })
+    if (decision === 'REJECTED') {
+      await tx.expenseClaimApproval.updateMany({ where: { claimId, status: 'PENDING' }, data: { status: 'CANCELLED' } })
+      await tx.expenseClaim.update({ where: { id: claimId }, data: { status: 'REJECTED' } })
+    } else if (financeApprover) {
+      await tx.expenseClaimApproval.create({ data: { claimId, level: 'FINANCE', approver: financeApprover } })
+      await tx.expenseClaim.update({ where: { id: claimId }, data: { status: 'PENDING_FINANCE' } })
+    }
+  })
+
+  if (decision === 'APPROVED' && level === 'FINANCE') await approveClaim(claimId, user.id)
+  logger.info('Expense claim decided', { claimId, level, decision })
+
+  return claimWithApprovals(claimId)
+}
+
+/**
+ * Record that an approved claim has been paid to the employee
+ */
+export async function reimburseClaim(
+  tenantId: string,
+  claimId: string,
+  userId: string,
+  options: { date?: Date; reference?: string | null } = {}
+) {
+  const claim = await prisma.expenseClaim.findFirst({ where: { id: claimId, tenantId } })
+  if (!claim) throw new ApiError('NOT_FOUND', 'Expense claim not found', 404)
+  if (claim.status !== 'APPROVED') throw new ApiError('INVALID_STATE', 'Only approved claims can be reimbursed', 409)
+
+  const reimbursed = await prisma.expenseClaim.update({
+    where: { id: claimId },
+    data: {
+      status: 'REIMBURSED',
+      reimbursedAt: options.date ?? new Date(),
+      reimbursedBy: userId,
+      reimbursementReference: options.reference ?? null,
+    },
+  })
+  await prisma.expense.updateMany({ where: { claimId }, data: { status: 'REIMBURSED' } })
+  await postSafely('expense_claim_reimbursement', claim.id, () => postExpenseClaimReimbursement(claim.id, userId))
+  logger.info('Expense claim reimbursed', { claimId })
+
+  return reimbursed
+}
+
+/**
+ * Claims awaiting a decision from a user, directly or through their role
+ */
+export async function listClaimsAwaitingApproval(tenantId: string, user: Approver) {
+  const approvers = [user.id, ...(user.role ? [user.role.toUpperCase()] : [])]
+  const isSuperAdmin = user.role?.toUpperCase() === 'SUPER_ADMIN'
+  return prisma.expenseClaim.findMany({
+    where: {
+      tenantId,
+      status: { in: Object.keys(LEVEL_BY_STATUS) },
+      userId: { not: user.id },
+      approvals: { some: { status: 'PENDING', ...(isSuperAdmin ? {} : { approver: { in: approvers } }) } },
+    },
+    include: {
+      user: { select: { id: true, name: true, email: true } },
+      approvals: { orderBy: { createdAt: 'asc' } },
+      _count: { select: { expenses: true } },
+    },
+    orderBy: { submittedAt: 'asc' },
+  })
+}
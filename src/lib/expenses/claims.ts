@@ -0,0 +1,373 @@
+import { randomBytes } from 'crypto'
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { assertPostingPeriodOpen, captureDocumentRate, resolvePostingEntityId } from '@/lib/accounting/posting'
+import { capturedAmounts, CapturedRate, getFunctionalCurrency } from '@/lib/accounting/fx'
+import { resolveExpenseTax } from '@/lib/invoicing/line-tax'
+import { getCountry, CountryCode } from '@/lib/registries/countries'
+import {
+  ClaimLineFacts,
+  evaluateClaimLine,
+  getExpensePolicy,
+  getMileageRateCents,
+  getPerDiemRateCents,
+  mileageAmountCents,
+  perDiemAmountCents,
+} from './policy'
+
+/**
+ * Expense Claims
+ *
+ * An employee's expense report: receipts (entered by hand or scanned and
+ * attached), mileage at the policy rate per km and per diems at the daily
+ * rate for the country travelled to. Every line is an Expense row linked
+ * to the claim and checked against the tenant's expense policy; lines post
+ * with the claim, to Employee Reimbursements Payable, once it is approved
+ * (claim-approval.ts). Amounts are totalled in the currency the employee
+ * is reimbursed in, the functional currency of the claim's entity.
+ */
+
+export type ExpenseClaimStatus = 'DRAFT' | 'PENDING_MANAGER' | 'PENDING_FINANCE' | 'APPROVED' | 'REJECTED' | 'REIMBURSED'
+
+/** Claims the employee can still change */
+export const EDITABLE_CLAIM_STATUSES: ExpenseClaimStatus[] = ['DRAFT', 'REJECTED']
+
+const dateInput = z.union([z.string(), z.date()]).pipe(z.coerce.date())
+const currencyInput = z.string().trim().length(3).transform((v) => v.toUpperCase())
+
+export const ClaimInputSchema = z.object({
+  title: z.string().trim().min(1).max(255),
+  entityId: z.string().min(1).nullable().optional(),
+})
+
+export const ClaimLineSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('RECEIPT'),
+    vendor: z.string().trim().min(1).max(255),
+    category: z.string().trim().min(1).max(120).default('general'),
+    date: dateInput,
+    amountCents: z.number().int().positive(),
+    currency: currencyInput,
+    taxCodeId: z.string().min(1).nullable().optional(),
+    exchangeRate: z.number().positive().nullable().optional(),
+    attachmentId: z.string().min(1).nullable().optional(),
+    description: z.string().trim().max(500).nullable().optional(),
+  }),
+  z.object({
+    kind: z.literal('MILEAGE'),
+    date: dateInput,
+    distanceKm: z.number().positive().max(10000),
+    description: z.string().trim().min(1).max(500), // Route and purpose
+  }),
+  z.object({
+    kind: z.literal('PER_DIEM'),
+    date: dateInput, // First day of travel
+    days: z.number().positive().max(31).refine((days) => Number.isInteger(days * 2), 'days must be whole or half days'),
+    country: z.string().trim().length(2).transform((v) => v.toUpperCase()),
+    description: z.string().trim().max(500).nullable().optional(),
+  }),
+  z.object({
+    kind: z.literal('EXPENSE'), // An expense already recorded, e.g. a scanned receipt
+    expenseId: z.string().min(1),
+  }),
+])
+
+export type ClaimInput = z.infer<typeof ClaimInputSchema>
+export type ClaimLineInput = z.infer<typeof ClaimLineSchema>
+
+export interface ClaimLine {
+  id: string
+  kind: string
+  category: string | null
+  date: Date
+  amountCents: number
+  functionalAmountCents: number | null
+  attachmentId: string | null
+  perDiemDays: unknown
+}
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * What a line counts for in the claim total
+ */
+export function claimLineAmountCents(line: Pick<ClaimLine, 'amountCents' | 'functionalAmountCents'>): number {
+  return line.functionalAmountCents ?? line.amountCents
+}
+
+/**
+ * Days a per diem pays for: from its first day, part days rounded up
+ */
+export function perDiemCoveredDays(start: Date, days: number): string[] {
+  const covered: string[] = []
+  for (let i = 0; i < Math.ceil(days); i++) {
+    covered.push(isoDay(new Date(start.getTime() + i * 86400000)))
+  }
+  return covered
+}
+
+/**
+ * Policy facts for every line of a claim, including what the other lines
+ * tell about it
+ */
+export function claimLineFacts(lines: ClaimLine[]): Map<string, ClaimLineFacts> {
+  const perDiemDays = new Set(
+    lines
+      .filter((line) => line.kind === 'PER_DIEM')
+      .flatMap((line) => perDiemCoveredDays(line.date, Number(line.perDiemDays ?? 1)))
+  )
+  return new Map(
+    lines.map((line) => [
+      line.id,
+      {
+        kind: line.kind,
+        category: line.category || 'general',
+        amountCents: claimLineAmountCents(line),
+        hasReceipt: Boolean(line.attachmentId),
+        coveredByPerDiem: line.kind !== 'PER_DIEM' && perDiemDays.has(isoDay(line.date)),
+      },
+    ])
+  )
+}
+
+function claimReference(date: Date): string {
+  return `EC-${isoDay(date).slice(0, 7).replace('-', '')}-${randomBytes(3).toString('hex').toUpperCase()}`
+}
+
+/**
+ * Open a claim for an employee, in their entity's functional currency
+ */
+export async function createClaim(tenantId: string, userId: string, input: ClaimInput) {
+  if (input.entityId) {
+    const entity = await prisma.entity.findFirst({ where: { id: input.entityId, tenantId }, select: { id: true } })
+    if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+  }
+  const entityId = await resolvePostingEntityId(tenantId, input.entityId)
+  const currency = entityId ? await getFunctionalCurrency(entityId) : 'USD'
+  const now = new Date()
+
+  const claim = await prisma.expenseClaim.create({
+    data: { tenantId, entityId, userId, title: input.title, currency, reference: claimReference(now) },
+  })
+  logger.info('Expense claim opened', { claimId: claim.id, userId })
+  return claim
+}
+
+/**
+ * A claim with its lines and approvals
+ */
+export async function getClaim(tenantId: string, claimId: string) {
+  const claim = await prisma.expenseClaim.findFirst({
+    where: { id: claimId, tenantId },
+    include: {
+      expenses: {
+        include: { attachment: { select: { id: true, name: true, url: true, avStatus: true } } },
+        orderBy: { date: 'asc' },
+      },
+      approvals: { orderBy: { createdAt: 'asc' } },
+      user: { select: { id: true, name: true, email: true } },
+    },
+  })
+  if (!claim) throw new ApiError('NOT_FOUND', 'Expense claim not found', 404)
+  return claim
+}
+
+/**
+ * A claim its owner may still change
+ */
+export async function loadEditableClaim(tenantId: string, claimId: string, userId: string) {
+  const claim = await prisma.expenseClaim.findFirst({ where: { id: claimId, tenantId } })
+  if (!claim) throw new ApiError('NOT_FOUND', 'Expense claim not found', 404)
+  if (claim.userId !== userId) throw new ApiError('NOT_CLAIMANT', 'Only the employee claiming can change the claim', 403)
+  if (!EDITABLE_CLAIM_STATUSES.includes(claim.status as ExpenseClaimStatus)) {
+    throw new ApiError('INVALID_STATE', `A ${claim.status.toLowerCase().replace('_', ' ')} claim cannot be changed`, 409)
+  }
+  return claim
+}
+
+function assertClaimCurrency(rate: CapturedRate, currency: string, claimCurrency: string) {
+  const reimbursedIn = rate.functionalCurrency ?? currency
+  if (reimbursedIn !== claimCurrency) {
+    throw new ApiError('CURRENCY_MISMATCH', `Lines of this claim must convert to ${claimCurrency}`, 422, { currency, claimCurrency })
+  }
+}
+
+async function entityCountry(entityId: string | null): Promise<string | null> {
+  if (!entityId) return null
+  const entity = await prisma.entity.findUnique({ where: { id: entityId }, select: { country: true } })
+  return entity?.country ?? null
+}
+
+async function attachExistingExpense(claim: { id: string; tenantId: string; userId: string; currency: string }, expenseId: string) {
+  const expense = await prisma.expense.findFirst({ where: { id: expenseId, tenantId: claim.tenantId, userId: claim.userId } })
+  if (!expense) throw new ApiError('NOT_FOUND', 'Expense not found', 404)
+  if (expense.claimId) throw new ApiError('ALREADY_CLAIMED', 'The expense is already on a claim', 409)
+  if (expense.status === 'REJECTED') throw new ApiError('INVALID_STATE', 'A rejected expense cannot be claimed', 409)
+  const posted = await prisma.journalEntry.findFirst({ where: { sourceType: 'expense', sourceId: expense.id }, select: { id: true } })
+  if (posted) throw new ApiError('ALREADY_POSTED', 'The expense is already booked as payable to its vendor', 409)
+  if ((expense.functionalCurrency ?? expense.currency) !== claim.currency) {
+    throw new ApiError('CURRENCY_MISMATCH', `Lines of this claim must convert to ${claim.currency}`, 422)
+  }
+  return prisma.expense.update({ where: { id: expense.id }, data: { claimId: claim.id } })
+}
+
+/**
+ * Add a receipt, mileage or per-diem line to a draft claim
+ */
+export async function addClaimLine(tenantId: string, claimId: string, userId: string, input: ClaimLineInput) {
+  const claim = await loadEditableClaim(tenantId, claimId, userId)
+  if (input.kind === 'EXPENSE') {
+    const expense = await attachExistingExpense(claim, input.expenseId)
+    await refreshClaim(claim.id)
+    return expense
+  }
+
+  const policy = await getExpensePolicy(tenantId)
+  await assertPostingPeriodOpen(tenantId, claim.entityId, input.date, 'expense')
+  const base = { tenantId, entityId: claim.entityId, userId, claimId: claim.id, status: 'PENDING', source: 'claim', date: input.date }
+
+  let data: Prisma.ExpenseUncheckedCreateInput
+  if (input.kind === 'RECEIPT') {
+    if (input.attachmentId) {
+      const attachment = await prisma.attachment.findFirst({ where: { id: input.attachmentId, tenantId }, select: { id: true } })
+      if (!attachment) throw new ApiError('NOT_FOUND', 'Attachment not found', 404)
+    }
+    const tax = await resolveExpenseTax(tenantId, input.amountCents, input.taxCodeId, input.date)
+    const rate = await captureDocumentRate(tenantId, claim.entityId, input.currency, input.date, input.exchangeRate)
+    assertClaimCurrency(rate, input.currency, claim.currency)
+    data = {
+      ...base,
+      kind: 'RECEIPT',
+      vendor: input.vendor,
+      category: input.category,
+      description: input.description ?? null,
+      amountCents: input.amountCents,
+      currency: input.currency,
+      attachmentId: input.attachmentId ?? null,
+      taxCodeId: tax.taxCodeId,
+      taxCategory: tax.taxCategory,
+      taxRate: tax.taxRatePercent,
+      taxCents: tax.taxCents,
+      ...capturedAmounts(rate, { functionalAmountCents: input.amountCents, functionalTaxCents: tax.taxCents }),
+    }
+  } else if (input.kind === 'MILEAGE') {
+    const rateCents = getMileageRateCents(policy, await entityCountry(claim.entityId))
+    const amountCents = mileageAmountCents(input.distanceKm, rateCents)
+    const rate = await captureDocumentRate(tenantId, claim.entityId, claim.currency, input.date)
+    data = {
+      ...base,
+      kind: 'MILEAGE',
+      vendor: 'Mileage',
+      category: 'travel',
+      description: input.description,
+      amountCents,
+      currency: claim.currency,
+      distanceKm: input.distanceKm,
+      mileageRateCents: rateCents,
+      ...capturedAmounts(rate, { functionalAmountCents: amountCents, functionalTaxCents: 0 }),
+    }
+  } else {
+    // Per-diem rates are in the currency of the country travelled to
+    const rateCents = getPerDiemRateCents(policy, input.country)
+    const currency = getCountry(input.country as CountryCode)?.currency ?? claim.currency
+    const amountCents = perDiemAmountCents(input.days, rateCents)
+    const rate = await captureDocumentRate(tenantId, claim.entityId, currency, input.date)
+    assertClaimCurrency(rate, currency, claim.currency)
+    data = {
+      ...base,
+      kind: 'PER_DIEM',
+      vendor: `Per diem ${input.country}`,
+      category: 'travel',
+      description: input.description ?? null,
+      amountCents,
+      currency,
+      perDiemCountry: input.country,
+      perDiemDays: input.days,
+      perDiemRateCents: rateCents,
+      ...capturedAmounts(rate, { functionalAmountCents: amountCents, functionalTaxCents: 0 }),
+    }
+  }
+
+  const expense = await prisma.expense.create({ data })
+  await refreshClaim(claim.id)
+  return prisma.expense.findUniqueOrThrow({ where: { id: expense.id } })
+}
+
+/**
+ * Take a line off a draft claim. Lines entered on the claim are deleted;
+ * expenses recorded elsewhere are only detached.
+ */
+export async function removeClaimLine(tenantId: string, claimId: string, expenseId: string, userId: string) {
+  const claim = await loadEditableClaim(tenantId, claimId, userId)
+  const expense = await prisma.expense.findFirst({ where: { id: expenseId, claimId: claim.id } })
+  if (!expense) throw new ApiError('NOT_FOUND', 'Line not found on this claim', 404)
+
+  if (expense.source === 'claim') {
+    await prisma.expense.delete({ where: { id: expense.id } })
+  } else {
+    await prisma.expense.update({ where: { id: expense.id }, data: { claimId: null, policyViolations: Prisma.JsonNull } })
+  }
+  return refreshClaim(claim.id)
+}
+
+/**
+ * Re-check every line against the expense policy and re-total the claim
+ */
+export async function refreshClaim(claimId: string) {
+  const claim = await prisma.expenseClaim.findUniqueOrThrow({ where: { id: claimId }, include: { expenses: true } })
+  const policy = await getExpensePolicy(claim.tenantId)
+  const facts = claimLineFacts(claim.expenses)
+
+  let violationCount = 0
+  for (const expense of claim.expenses) {
+    const violations = evaluateClaimLine(claim.tenantId, policy, facts.get(expense.id)!)
+    violationCount += violations.length
+    await prisma.expense.update({
+      where: { id: expense.id },
+      data: { policyViolations: violations.length ? (violations as unknown as Prisma.InputJsonValue) : Prisma.JsonNull },
+    })
+  }
+
+  return prisma.expenseClaim.update({
+    where: { id: claim.id },
+    data: {
+      totalCents: claim.expenses.reduce((sum, expense) => sum + claimLineAmountCents(expense), 0),
+      violationCount,
+    },
+  })
+}
+
+/**
+ * Claims of one employee, newest first
+ */
+export async function listClaims(tenantId: string, userId: string, options: { status?: string; limit: number; offset: number }) {
+  const where = { tenantId, userId, ...(options.status ? { status: options.status } : {}) }
+  const [total, claims] = await Promise.all([
+    prisma.expenseClaim.count({ where }),
+    prisma.expenseClaim.findMany({
+      where,
+      include: { _count: { select: { expenses: true } } },
+      orderBy: { createdAt: 'desc' },
+      take: options.limit,
+      skip: options.offset,
+    }),
+  ])
+  return { total, claims }
+}
+
+/**
+ * Delete a claim that was never submitted; its scanned receipts are kept
+ */
+export async function deleteClaim(tenantId: string, claimId: string, userId: string) {
+  const claim = await loadEditableClaim(tenantId, claimId, userId)
+  if (claim.submittedAt) throw new ApiError('INVALID_STATE', 'A claim that has been submitted cannot be deleted', 409)
+  await prisma.$transaction([
+    prisma.expense.deleteMany({ where: { claimId: claim.id, source: 'claim' } }),
+    prisma.expense.updateMany({ where: { claimId: claim.id }, data: { claimId: null, policyViolations: Prisma.JsonNull } }),
+    prisma.expenseClaim.delete({ where: { id: claim.id } }),
+  ])
+  return claim
+}
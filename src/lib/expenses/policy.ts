@@ -0,0 +1,222 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { getCountry, CountryCode } from '@/lib/registries/countries'
+import { Rule, RuleStatus, RuleType, rulesEngine } from '@/lib/rules/rules-engine'
+
+/**
+ * Expense Policy
+ *
+ * A tenant's rules for what employees may claim: a cap per category, the
+ * amount above which a receipt is required, and the mileage and per-diem
+ * rates (the country registry's unless the tenant sets its own). The
+ * checks are registered with the rules engine per tenant and evaluated on
+ * every claim line; a match flags the line, it does not block the claim,
+ * so approvers see the violation and decide.
+ */
+
+export interface ExpensePolicySettings {
+  categoryCaps: Record<string, number> // Cents per expense, in the claim currency
+  receiptRequiredAboveCents: number
+  mileageRateCents: number | null
+  perDiemRates: Record<string, number> // Cents per day by country
+  financeApprover: string
+  version: string // Changes whenever the policy does
+}
+
+export const DEFAULT_EXPENSE_POLICY: ExpensePolicySettings = {
+  categoryCaps: {},
+  receiptRequiredAboveCents: 2500,
+  mileageRateCents: null,
+  perDiemRates: {},
+  financeApprover: 'ADMIN',
+  version: 'default',
+}
+
+const centsMap = z.record(z.string().trim().min(1).max(120), z.number().int().nonnegative())
+
+export const ExpensePolicySchema = z.object({
+  categoryCaps: centsMap.default({}),
+  receiptRequiredAboveCents: z.number().int().nonnegative().default(2500),
+  mileageRateCents: z.number().int().positive().nullable().default(null),
+  perDiemRates: z.record(z.string().trim().length(2), z.number().int().positive()).default({}),
+  financeApprover: z.string().trim().min(1).max(100).default('ADMIN'),
+})
+
+export type ExpensePolicyInput = z.infer<typeof ExpensePolicySchema>
+
+function toCentsMap(value: unknown, normalizeKey: (key: string) => string): Record<string, number> {
+  if (!value || typeof value !== 'object') return {}
+  return Object.fromEntries(
+    Object.entries(value as Record<string, unknown>)
+      .filter(([, cents]) => typeof cents === 'number' && Number.isFinite(cents))
+      .map(([key, cents]) => [normalizeKey(key), cents as number])
+  )
+}
+
+const categoryKey = (category: string) => category.trim().toLowerCase()
+const countryKey = (country: string) => country.trim().toUpperCase()
+
+/**
+ * The tenant's expense policy, or the defaults when none is saved
+ */
+export async function getExpensePolicy(tenantId: string): Promise<ExpensePolicySettings> {
+  const policy = await prisma.expensePolicy.findUnique({ where: { tenantId } })
+  if (!policy) return DEFAULT_EXPENSE_POLICY
+  return {
+    categoryCaps: toCentsMap(policy.categoryCaps, categoryKey),
+    receiptRequiredAboveCents: policy.receiptRequiredAboveCents,
+    mileageRateCents: policy.mileageRateCents,
+    perDiemRates: toCentsMap(policy.perDiemRates, countryKey),
+    financeApprover: policy.financeApprover,
+    version: policy.updatedAt.toISOString(),
+  }
+}
+
+/**
+ * Replace the tenant's expense policy
+ */
+export async function saveExpensePolicy(tenantId: string, input: ExpensePolicyInput, userId?: string | null) {
+  const data = {
+    categoryCaps: toCentsMap(input.categoryCaps, categoryKey),
+    receiptRequiredAboveCents: input.receiptRequiredAboveCents,
+    mileageRateCents: input.mileageRateCents,
+    perDiemRates: toCentsMap(input.perDiemRates, countryKey),
+    financeApprover: input.financeApprover,
+    updatedBy: userId ?? null,
+  }
+  await prisma.expensePolicy.upsert({ where: { tenantId }, create: { tenantId, ...data }, update: data })
+  return getExpensePolicy(tenantId)
+}
+
+/**
+ * Daily allowance for travel to a country: the tenant's rate, otherwise
+ * the country registry's
+ */
+export function getPerDiemRateCents(policy: ExpensePolicySettings, country: string): number {
+  const code = countryKey(country)
+  const own = policy.perDiemRates[code]
+  if (own) return own
+  const registry = getCountry(code as CountryCode)?.perDiemRate
+  if (registry) return Math.round(registry * 100)
+  throw new ApiError('PER_DIEM_RATE_MISSING', `No per-diem rate is set for ${code}`, 422, { country: code })
+}
+
+/**
+ * Rate per km for business mileage: the tenant's rate, otherwise the
+ * registry's for the entity's country
+ */
+export function getMileageRateCents(policy: ExpensePolicySettings, country?: string | null): number {
+  if (policy.mileageRateCents) return policy.mileageRateCents
+  const registry = country ? getCountry(countryKey(country) as CountryCode)?.mileageRate : undefined
+  if (registry) return Math.round(registry * 100)
+  throw new ApiError('MILEAGE_RATE_MISSING', 'No mileage rate is set in the expense policy', 422)
+}
+
+export function mileageAmountCents(distanceKm: number, rateCents: number): number {
+  return Math.round(distanceKm * rateCents)
+}
+
+export function perDiemAmountCents(days: number, rateCents: number): number {
+  return Math.round(days * rateCents)
+}
+
+/**
+ * What the policy rules look at for one claim line
+ */
+export interface ClaimLineFacts {
+  kind: string // RECEIPT, MILEAGE, PER_DIEM
+  category: string
+  amountCents: number // In the claim currency
+  hasReceipt: boolean
+  coveredByPerDiem: boolean // Another line pays a per diem for the same day
+}
+
+export interface PolicyViolation {
+  code: string
+  message: string
+  ruleId: string
+}
+
+const MEAL_CATEGORIES = ['meals']
+
+function ruleId(tenantId: string, name: string): string {
+  return `expense-policy:${tenantId}:${name}`
+}
+
+const formatCents = (cents: number) => (cents / 100).toFixed(2)
+
+type PolicyRule = Omit<Rule, 'createdAt' | 'updatedAt' | 'evaluationCount' | 'successCount'>
+
+/**
+ * The tenant's policy as rules-engine rules
+ */
+export function buildExpensePolicyRules(tenantId: string, policy: ExpensePolicySettings): PolicyRule[] {
+  const base = { type: RuleType.SIMPLE, status: RuleStatus.ACTIVE, version: policy.version, createdBy: 'expense-policy', tags: ['expense-policy', tenantId] }
+  const violation = (code: string, message: string) => [{ id: code, type: 'SET' as const, target: 'violation', value: code, parameters: { message } }]
+
+  const rules: PolicyRule[] = Object.entries(policy.categoryCaps).map(([category, capCents]) => ({
+    ...base,
+    id: ruleId(tenantId, `cap:${category}`),
+    name: `${category} limit`,
+    priority: 20,
+    conditions: [
+      { id: 'category', field: 'category', operator: 'equals' as const, value: category },
+      { id: 'amount', field: 'amountCents', operator: 'greaterThan' as const, value: capCents },
+    ],
+    actions: violation('CATEGORY_CAP_EXCEEDED', `Over the ${category} limit of ${formatCents(capCents)}`),
+  }))
+
+  rules.push({
+    ...base,
+    id: ruleId(tenantId, 'receipt-required'),
+    name: 'Receipt required',
+    priority: 10,
+    conditions: [
+      { id: 'kind', field: 'kind', operator: 'equals', value: 'RECEIPT' },
+      { id: 'receipt', field: 'hasReceipt', operator: 'equals', value: false },
+      { id: 'amount', field: 'amountCents', operator: 'greaterThan', value: policy.receiptRequiredAboveCents },
+    ],
+    actions: violation('RECEIPT_REQUIRED', `A receipt is required above ${formatCents(policy.receiptRequiredAboveCents)}`),
+  })
+
+  rules.push({
+    ...base,
+    id: ruleId(tenantId, 'per-diem-meals'),
+    name: 'Meals covered by per diem',
+    priority: 10,
+    conditions: [
+      { id: 'category', field: 'category', operator: 'in', value: MEAL_CATEGORIES },
+      { id: 'covered', field: 'coveredByPerDiem', operator: 'equals', value: true },
+    ],
+    actions: violation('COVERED_BY_PER_DIEM', 'Meals on a day a per diem is claimed for'),
+  })
+
+  return rules
+}
+
+/**
+ * Register the tenant's current policy with the rules engine and return
+ * the ids of its rules
+ */
+function ensureExpensePolicyRules(tenantId: string, policy: ExpensePolicySettings): string[] {
+  return buildExpensePolicyRules(tenantId, policy).map((rule) => {
+    const existing = rulesEngine.getRule(rule.id)
+    if (!existing) rulesEngine.createRule(rule)
+    else if (existing.version !== rule.version) rulesEngine.updateRule(rule.id, rule)
+    return rule.id
+  })
+}
+
+/**
+ * Policy violations of one claim line
+ */
+export function evaluateClaimLine(tenantId: string, policy: ExpensePolicySettings, facts: ClaimLineFacts): PolicyViolation[] {
+  const ids = ensureExpensePolicyRules(tenantId, policy)
+  const data = { ...facts, category: categoryKey(facts.category) }
+  return rulesEngine.evaluateRules(data, ids).flatMap((result) =>
+    result.actions
+      .filter((action) => action.target === 'violation')
+      .map((action) => ({ code: String(action.value), message: String(action.parameters?.message ?? action.value), ruleId: result.ruleId }))
+  )
+}
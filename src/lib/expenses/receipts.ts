@@ -0,0 +1,300 @@
+import { randomUUID } from 'crypto'
+import { fileTypeFromBuffer } from 'file-type'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { logAuditSafe } from '@/lib/observability-helpers'
+import { attachmentAvFields, ClamAVScanResult, scanBuffer } from '@/lib/clamav'
+import { getPublicUrl, putObject } from '@/lib/uploads-provider'
+import { assertPostingPeriodOpen, captureDocumentRate, postExpense, postSafely } from '@/lib/accounting/posting'
+import { capturedAmounts, CapturedRate } from '@/lib/accounting/fx'
+import { ExpenseTax, resolveExpenseTax } from '@/lib/invoicing/line-tax'
+import { ocrService, ReceiptAnalysis, ReceiptField } from '@/lib/ocr/ocr-service'
+import { loadEditableClaim, refreshClaim } from './claims'
+
+/**
+ * Receipt Ingestion
+ *
+ * A photographed or scanned receipt becomes an Expense in one step: the
+ * file is virus-scanned, stored as an Attachment, read by OCR and the
+ * expense created from what was read, with the confidence of every field.
+ * Vendors reviewers have corrected before get their learned category and
+ * tax code. Receipts read with confidence are posted straight away; the
+ * rest wait in the review queue (review.ts) and post once checked.
+ * Receipts scanned into an expense claim post with the claim instead.
+ */
+
+export const RECEIPT_FIELDS: ReceiptField[] = ['vendor', 'date', 'total', 'tax', 'currency']
+
+/** Fields an expense cannot be posted without */
+export const REQUIRED_RECEIPT_FIELDS: ReceiptField[] = ['vendor', 'date', 'total']
+
+const RECEIPT_MIME_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp']
+
+const AV_POLICY = String(process.env.UPLOADS_AV_POLICY || 'lenient').toLowerCase()
+
+/**
+ * Confidence below which a field is checked by a reviewer
+ */
+export function getReviewThreshold(): number {
+  const value = Number(process.env.EXPENSE_OCR_REVIEW_THRESHOLD)
+  return value > 0 && value <= 1 ? value : 0.8
+}
+
+export interface ReceiptFieldValue {
+  value: string | number | null
+  confidence: number
+  corrected?: boolean
+}
+
+export type ReceiptFields = Record<ReceiptField, ReceiptFieldValue>
+
+export interface VendorDefaults {
+  vendorName: string
+  category: string | null
+  taxCodeId: string | null
+}
+
+export interface ReceiptDraft {
+  vendor: string
+  date: Date | null
+  amountCents: number
+  taxCents: number | null // As printed on the receipt
+  currency: string
+  category: string
+  taxCodeId: string | null
+  confidence: number
+  fields: ReceiptFields
+  reviewReasons: string[]
+}
+
+/**
+ * Key a vendor by its name as receipts print it: case, punctuation,
+ * accents and store numbers do not make a different vendor
+ */
+export function normalizeVendorKey(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\u0600-\u06ff]+/g, ' ')
+    .replace(/\b\d+\b/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+const toCents = (value: number | undefined) => (value === undefined || !Number.isFinite(value) ? null : Math.round(value * 100))
+
+function isoDate(value: string | undefined): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isFinite(date.getTime()) ? date.toISOString().slice(0, 10) : null
+}
+
+/**
+ * Turn a receipt analysis into expense fields with a confidence for each,
+ * applying what reviewers taught us about the vendor, and say why the
+ * result needs a reviewer, if it does
+ */
+export function receiptToExpenseDraft(
+  analysis: ReceiptAnalysis,
+  options: { vendorDefaults?: VendorDefaults | null; threshold?: number; defaultCurrency?: string } = {}
+): ReceiptDraft {
+  const threshold = options.threshold ?? getReviewThreshold()
+  const defaults = options.vendorDefaults ?? null
+  const read: Record<ReceiptField, string | number | null> = {
+    vendor: analysis.vendor?.name?.trim() || null,
+    date: isoDate(analysis.date),
+    total: toCents(analysis.total),
+    tax: toCents(analysis.tax),
+    currency: analysis.currency?.trim().toUpperCase() || null,
+  }
+
+  const fields = {} as ReceiptFields
+  const reviewReasons: string[] = []
+  for (const field of RECEIPT_FIELDS) {
+    const value = read[field]
+    const confidence = value === null ? 0 : analysis.fieldConfidence?.[field] ?? analysis.confidence
+    fields[field] = { value, confidence }
+
+    if (value === null) {
+      if (REQUIRED_RECEIPT_FIELDS.includes(field)) reviewReasons.push(`MISSING_${field.toUpperCase()}`)
+    } else if (confidence < threshold && (field !== 'tax' || Number(value) > 0)) {
+      reviewReasons.push(`LOW_CONFIDENCE_${field.toUpperCase()}`)
+    }
+  }
+
+  const taxCents = read.tax as number | null
+  if (taxCents && !defaults?.taxCodeId) reviewReasons.push('TAX_CODE_NEEDED')
+
+  return {
+    vendor: defaults?.vendorName || (read.vendor as string | null) || 'Unknown vendor',
+    date: read.date ? new Date(`${read.date}T00:00:00Z`) : null,
+    amountCents: Math.max(0, (read.total as number | null) ?? 0),
+    taxCents,
+    currency: (read.currency as string | null) || options.defaultCurrency || 'USD',
+    category: defaults?.category || 'general',
+    taxCodeId: defaults?.taxCodeId ?? null,
+    confidence: analysis.confidence,
+    fields,
+    reviewReasons,
+  }
+}
+
+/**
+ * Whether the tax the receipt shows disagrees with the tax code's, beyond
+ * rounding
+ */
+export function isTaxMismatch(readCents: number | null, calculatedCents: number): boolean {
+  return readCents !== null && Math.abs(readCents - calculatedCents) > 1
+}
+
+async function scanReceipt(data: Buffer): Promise<{ result: ClamAVScanResult | null; error?: unknown }> {
+  try {
+    return { result: await scanBuffer(data) }
+  } catch (error) {
+    return { result: null, error }
+  }
+}
+
+function isPeriodError(error: unknown): boolean {
+  return error instanceof ApiError && (error.code === 'PERIOD_CLOSED' || error.code === 'PERIOD_LOCKED')
+}
+
+const NO_TAX: ExpenseTax = { taxCodeId: null, taxCategory: 'OUT_OF_SCOPE', taxRatePercent: 0, taxCents: 0 }
+
+export interface IngestReceiptInput {
+  tenantId: string
+  userId: string
+  entityId?: string | null
+  claimId?: string | null // Add the receipt to this draft claim
+  fileName?: string | null
+  data: Buffer
+  notes?: string | null
+}
+
+/**
+ * Store, scan and read a receipt and create the expense it records
+ */
+export async function ingestReceipt(input: IngestReceiptInput) {
+  const { tenantId, userId, data } = input
+  const claim = input.claimId ? await loadEditableClaim(tenantId, input.claimId, userId) : null
+  const entityId = claim ? claim.entityId : input.entityId || null
+  if (entityId && !claim) {
+    const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId }, select: { id: true } })
+    if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+  }
+
+  const sniff = await fileTypeFromBuffer(data).catch(() => undefined)
+  if (!sniff || !RECEIPT_MIME_TYPES.includes(sniff.mime)) {
+    throw new ApiError('UNSUPPORTED_FILE', 'Upload a receipt photo (PNG, JPEG or WebP) or a PDF', 415)
+  }
+
+  // Infected receipts are never stored; unscanned ones only when policy allows
+  const scan = await scanReceipt(data)
+  if (scan.result && !scan.result.clean) {
+    await logAuditSafe({ action: 'expense:receipt_infected', details: { details: scan.result.details } }).catch(() => {})
+    throw new ApiError('INFECTED_FILE', 'The receipt failed the antivirus scan', 422)
+  }
+  if (!scan.result && AV_POLICY === 'strict') {
+    throw new ApiError('AV_UNAVAILABLE', 'Antivirus scan unavailable, try again later', 503)
+  }
+
+  const safeName = (input.fileName || `receipt.${sniff.ext}`).replace(/[^a-zA-Z0-9._-]/g, '_').slice(0, 120)
+  const key = `receipts/${tenantId}/${Date.now()}-${randomUUID()}-${safeName}`
+  try {
+    await putObject(key, data, { contentType: sniff.mime })
+  } catch (error) {
+    logger.error('Receipt storage failed', { tenantId, error: String(error) })
+    throw new ApiError('STORAGE_UNAVAILABLE', 'Receipt storage is not configured', 503)
+  }
+
+  const attachment = await prisma.attachment.create({
+    data: {
+      key,
+      url: (await getPublicUrl(key)) || undefined,
+      name: safeName,
+      size: data.length,
+      contentType: sniff.mime,
+      provider: process.env.UPLOADS_PROVIDER || null,
+      uploaderId: userId,
+      tenantId,
+      ...attachmentAvFields(scan.result, scan.error),
+    },
+  })
+
+  let analysis: ReceiptAnalysis | null = null
+  try {
+    analysis = await ocrService.analyzeReceipt(data)
+  } catch (error) {
+    logger.warn('Receipt could not be read', { tenantId, attachmentId: attachment.id, error: String(error) })
+  }
+
+  const readVendor = analysis?.vendor?.name ? normalizeVendorKey(analysis.vendor.name) : ''
+  const profile = readVendor
+    ? await prisma.expenseVendorProfile.findUnique({ where: { tenantId_vendorKey: { tenantId, vendorKey: readVendor } } })
+    : null
+  const draft = receiptToExpenseDraft(analysis ?? { confidence: 0 }, { vendorDefaults: profile })
+  const reasons = [...(analysis ? [] : ['OCR_FAILED']), ...draft.reviewReasons]
+  if (!scan.result) reasons.push('NOT_VIRUS_SCANNED')
+
+  const date = draft.date ?? new Date()
+  try {
+    await assertPostingPeriodOpen(tenantId, entityId, date, 'expense')
+  } catch (error) {
+    if (!isPeriodError(error)) throw error
+    reasons.push('PERIOD_CLOSED')
+  }
+
+  let tax = NO_TAX
+  try {
+    tax = await resolveExpenseTax(tenantId, draft.amountCents, draft.taxCodeId, date)
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error
+    reasons.push('TAX_CODE_NEEDED')
+  }
+  if (tax.taxCodeId && isTaxMismatch(draft.taxCents, tax.taxCents)) reasons.push('TAX_MISMATCH')
+
+  let rate: CapturedRate = { functionalCurrency: null, exchangeRate: null }
+  try {
+    rate = await captureDocumentRate(tenantId, entityId, draft.currency, date)
+  } catch (error) {
+    if (!(error instanceof ApiError)) throw error
+    reasons.push('EXCHANGE_RATE_NEEDED')
+  }
+
+  const reviewReasons = Array.from(new Set(reasons))
+  const expense = await prisma.expense.create({
+    data: {
+      tenantId,
+      entityId,
+      userId,
+      claimId: claim?.id ?? null,
+      attachmentId: attachment.id,
+      vendor: draft.vendor,
+      category: draft.category,
+      status: 'PENDING',
+      amountCents: draft.amountCents,
+      currency: draft.currency,
+      date,
+      taxCodeId: tax.taxCodeId,
+      taxCategory: tax.taxCategory,
+      taxRate: tax.taxRatePercent,
+      taxCents: tax.taxCents,
+      ...capturedAmounts(rate, { functionalAmountCents: draft.amountCents, functionalTaxCents: tax.taxCents }),
+      notes: input.notes || null,
+      source: 'ocr',
+      ocrConfidence: draft.confidence,
+      ocrFields: draft.fields as any,
+      reviewStatus: reviewReasons.length ? 'NEEDS_REVIEW' : 'ACCEPTED',
+      reviewReasons,
+    },
+    include: { attachment: { select: { id: true, name: true, url: true, avStatus: true } } },
+  })
+
+  if (claim) await refreshClaim(claim.id)
+  else if (!reviewReasons.length) await postSafely('expense', expense.id, () => postExpense(expense.id, userId))
+  logger.info('Receipt ingested', { tenantId, expenseId: expense.id, reviewReasons })
+
+  return expense
+}
@@ -0,0 +1,206 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { assertPostingPeriodOpen, captureDocumentRate, postExpense, postSafely } from '@/lib/accounting/posting'
+import { capturedAmounts } from '@/lib/accounting/fx'
+import { resolveExpenseTax } from '@/lib/invoicing/line-tax'
+import { normalizeVendorKey, RECEIPT_FIELDS, ReceiptFields } from './receipts'
+import { refreshClaim } from './claims'
+
+/**
+ * Receipt Review
+ *
+ * Expenses read from receipts with low confidence, missing fields or no
+ * tax code wait here for a reviewer. Accepting one records the corrected
+ * fields, marks which OCR values were wrong and posts it; the vendor's
+ * category and tax code are remembered so the next receipt from them is
+ * coded without help. A reviewer can also reject a receipt outright.
+ */
+
+const dateInput = z.union([z.string(), z.date()]).pipe(z.coerce.date())
+
+const AcceptSchema = z.object({
+  action: z.literal('accept'),
+  vendor: z.string().trim().min(1).max(255),
+  date: dateInput,
+  amountCents: z.number().int().positive(),
+  currency: z.string().trim().length(3).transform((v) => v.toUpperCase()),
+  category: z.string().trim().min(1).max(120),
+  taxCodeId: z.string().min(1).nullable(),
+  entityId: z.string().min(1).nullable().optional(),
+  exchangeRate: z.number().positive().nullable().optional(),
+  notes: z.string().max(2000).nullable().optional(),
+  remember: z.boolean().default(true), // Learn the vendor's category and tax code
+})
+
+const RejectSchema = z.object({
+  action: z.literal('reject'),
+  reason: z.string().trim().min(1).max(500),
+})
+
+export const ExpenseReviewSchema = z.discriminatedUnion('action', [AcceptSchema, RejectSchema])
+
+export type ExpenseReviewInput = z.infer<typeof ExpenseReviewSchema>
+type AcceptInput = z.infer<typeof AcceptSchema>
+
+/**
+ * Mark the OCR fields a reviewer had to change
+ */
+export function markCorrections(
+  fields: ReceiptFields,
+  accepted: { vendor: string; date: Date; amountCents: number; taxCents: number; currency: string }
+): ReceiptFields {
+  const final = {
+    vendor: accepted.vendor,
+    date: accepted.date.toISOString().slice(0, 10),
+    total: accepted.amountCents,
+    tax: accepted.taxCents,
+    currency: accepted.currency,
+  }
+  const marked = {} as ReceiptFields
+  for (const field of RECEIPT_FIELDS) {
+    const read = fields[field] ?? { value: null, confidence: 0 }
+    const value = final[field]
+    const same = typeof value === 'string'
+      ? String(read.value ?? '').trim().toLowerCase() === value.trim().toLowerCase()
+      : Number(read.value ?? 0) === value
+    marked[field] = { ...read, corrected: !same }
+  }
+  return marked
+}
+
+/**
+ * Remember a vendor's category and tax code under the name receipts print
+ * and the name the reviewer gave it
+ */
+async function learnVendor(
+  tenantId: string,
+  names: Array<string | null | undefined>,
+  learned: { vendorName: string; category: string; taxCodeId: string | null },
+  userId: string
+) {
+  const keys = Array.from(new Set(names.filter((n): n is string => !!n).map(normalizeVendorKey).filter(Boolean)))
+  for (const vendorKey of keys) {
+    const existing = await prisma.expenseVendorProfile.findUnique({ where: { tenantId_vendorKey: { tenantId, vendorKey } } })
+    const changed = !existing ||
+      existing.vendorName !== learned.vendorName ||
+      existing.category !== learned.category ||
+      existing.taxCodeId !== learned.taxCodeId
+    if (!changed) continue
+    await prisma.expenseVendorProfile.upsert({
+      where: { tenantId_vendorKey: { tenantId, vendorKey } },
+      create: { tenantId, vendorKey, ...learned, corrections: 1, lastCorrectedBy: userId },
+      update: { ...learned, corrections: { increment: 1 }, lastCorrectedBy: userId },
+    })
+  }
+}
+
+async function acceptReceipt(tenantId: string, expense: { id: string; entityId: string | null; ocrFields: unknown }, input: AcceptInput, userId: string) {
+  const entityId = input.entityId === undefined ? expense.entityId : input.entityId
+  if (entityId) {
+    const entity = await prisma.entity.findFirst({ where: { id: entityId, tenantId }, select: { id: true } })
+    if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+  }
+  await assertPostingPeriodOpen(tenantId, entityId, input.date, 'expense')
+  const tax = await resolveExpenseTax(tenantId, input.amountCents, input.taxCodeId, input.date)
+  const rate = await captureDocumentRate(tenantId, entityId, input.currency, input.date, input.exchangeRate)
+
+  const readFields = (expense.ocrFields ?? {}) as ReceiptFields
+  const updated = await prisma.expense.update({
+    where: { id: expense.id },
+    data: {
+      entityId,
+      vendor: input.vendor,
+      category: input.category,
+      amountCents: input.amountCents,
+      currency: input.currency,
+      date: input.date,
+      taxCodeId: tax.taxCodeId,
+      taxCategory: tax.taxCategory,
+      taxRate: tax.taxRatePercent,
+      taxCents: tax.taxCents,
+      ...capturedAmounts(rate, { functionalAmountCents: input.amountCents, functionalTaxCents: tax.taxCents }),
+      ...(input.notes !== undefined ? { notes: input.notes } : {}),
+      ocrFields: markCorrections(readFields, {
+        vendor: input.vendor,
+        date: input.date,
+        amountCents: input.amountCents,
+        taxCents: tax.taxCents,
+        currency: input.currency,
+      }) as any,
+      reviewStatus: 'REVIEWED',
+      reviewReasons: [],
+      reviewedBy: userId,
+      reviewedAt: new Date(),
+    },
+  })
+
+  if (input.remember) {
+    const readVendor = typeof readFields.vendor?.value === 'string' ? readFields.vendor.value : null
+    await learnVendor(tenantId, [readVendor, input.vendor], { vendorName: input.vendor, category: input.category, taxCodeId: tax.taxCodeId }, userId)
+  }
+
+  if (updated.claimId) await refreshClaim(updated.claimId)
+  await postSafely('expense', updated.id, () => postExpense(updated.id, userId))
+  return updated
+}
+
+/**
+ * Accept a receipt with the reviewer's corrections, or reject it
+ */
+export async function reviewExpense(tenantId: string, expenseId: string, input: ExpenseReviewInput, userId: string) {
+  const expense = await prisma.expense.findFirst({
+    where: { id: expenseId, tenantId },
+    include: { attachment: { select: { avStatus: true } } },
+  })
+  if (!expense) throw new ApiError('NOT_FOUND', 'Expense not found', 404)
+  if (expense.reviewStatus !== 'NEEDS_REVIEW') throw new ApiError('INVALID_STATE', 'The expense is not waiting for review', 409)
+
+  if (input.action === 'reject') {
+    const rejected = await prisma.expense.update({
+      where: { id: expense.id },
+      data: {
+        status: 'REJECTED',
+        reviewStatus: 'REVIEWED',
+        reviewedBy: userId,
+        reviewedAt: new Date(),
+        notes: [expense.notes, `Rejected in review: ${input.reason}`].filter(Boolean).join('\n'),
+      },
+    })
+    logger.info('Receipt rejected in review', { expenseId })
+    return rejected
+  }
+
+  if (expense.attachment?.avStatus === 'infected') {
+    throw new ApiError('INFECTED_FILE', 'The receipt failed the antivirus scan and cannot be accepted', 409)
+  }
+  const accepted = await acceptReceipt(tenantId, expense, input, userId)
+  logger.info('Receipt accepted in review', { expenseId })
+  return accepted
+}
+
+/**
+ * Receipts waiting for a reviewer, oldest first
+ */
+export async function listReviewQueue(tenantId: string, options: { reason?: string; limit: number; offset: number }) {
+  const where = {
+    tenantId,
+    reviewStatus: 'NEEDS_REVIEW',
+    ...(options.reason ? { reviewReasons: { has: options.reason } } : {}),
+  }
+  const [total, expenses] = await Promise.all([
+    prisma.expense.count({ where }),
+    prisma.expense.findMany({
+      where,
+      include: {
+        attachment: { select: { id: true, name: true, url: true, contentType: true, avStatus: true } },
+        user: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: options.limit,
+      skip: options.offset,
+    }),
+  ])
+  return { total, expenses }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect } from 'vitest'
+import ExcelJS from 'exceljs'
+import { buildXlsx, readXlsx } from '../xlsx'
+import { buildPdf } from '../pdf'
+
+/** Open a workbook with ExcelJS, independently of readXlsx */
+async function openXlsx(file: Buffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(file as unknown as ArrayBuffer)
+  return workbook
+}
+
+/** Open a PDF with pdf.js and extract each page's text runs */
+async function openPdf(file: Buffer) {
+  const { getDocument } = await import('pdfjs-dist/legacy/build/pdf.mjs')
+  // Text extraction needs no font data; keep pdf.js from warning it is missing
+  const pdf = await getDocument({ data: new Uint8Array(file), verbosity: 0 }).promise
+  const pages: Array<Array<{ text: string; x: number; y: number; width: number }>> = []
+  for (let n = 1; n <= pdf.numPages; n++) {
+    const page = await pdf.getPage(n)
+    const { items } = await page.getTextContent()
+    pages.push(
+      items.flatMap((item) => ('str' in item && item.str ? [{ text: item.str, x: item.transform[4], y: item.transform[5], width: item.width }] : []))
+    )
+  }
+  const { info } = (await pdf.getMetadata()) as { info: Record<string, unknown> }
+  return { pages, info }
+}
+
+describe('XLSX workbooks', () => {
+  it('should write strings, styled amounts and unique sheet names', async () => {
+    const workbook = await openXlsx(
+      await buildXlsx([
+        {
+          name: 'P&L',
+          columnWidths: [30],
+          rows: [
+            [{ value: 'Statement', style: 'title' }],
+            ['Revenue <net>', { value: 1234.5, style: 'amount' }],
+            [{ value: 'Rent', indent: 2 }, { value: -80, style: 'boldAmount' }],
+          ],
+        },
+        { name: 'p&l', rows: [] },
+        { name: 'Q1/Q2: [draft]', rows: [] },
+      ])
+    )
+
+    expect(workbook.worksheets.map((sheet) => sheet.name)).toEqual(['P&L', 'p&l 2', 'Q1 Q2   draft'])
+    const sheet = workbook.worksheets[0]
+    expect(sheet.getColumn(1).width).toBe(30)
+    expect(sheet.getCell('A1').font?.bold).toBe(true)
+    expect(sheet.getCell('A2').value).toBe('Revenue <net>')
+    expect(sheet.getCell('B2').value).toBe(1234.5)
+    expect(sheet.getCell('B2').numFmt).toBe('#,##0.00;(#,##0.00);"-"')
+    expect(sheet.getCell('A3').alignment?.indent).toBe(2)
+    expect(sheet.getCell('B3').font?.bold).toBe(true)
+  })
+
+  it('should read back what it writes, keeping gaps between cells', async () => {
+    const sheets = await readXlsx(await buildXlsx([{ name: 'Budget', rows: [['Category', null, 'Jan'], [], ['Rent & rates', 'x', 1500.25]] }]))
+    expect(sheets).toEqual([{ name: 'Budget', rows: [['Category', null, 'Jan'], [], ['Rent & rates', 'x', 1500.25]] }])
+  })
+
+  it('should read rich text, booleans and formula results written by office suites', async () => {
+    const workbook = new ExcelJS.Workbook()
+    const sheet = workbook.addWorksheet('Plan')
+    sheet.getCell('B2').value = { richText: [{ text: 'Cost ' }, { text: 'centre & dept', font: { bold: true } }] }
+    sheet.getCell('C2').value = 'Travel'
+    sheet.getCell('D2').value = true
+    sheet.getCell('E2').value = { formula: 'SUM(A1:A2)', result: 42 }
+
+    const file = Buffer.from(await workbook.xlsx.writeBuffer())
+    expect(await readXlsx(file)).toEqual([{ name: 'Plan', rows: [[], [null, 'Cost centre & dept', 'Travel', 'TRUE', 42]] }])
+  })
+})
+
+describe('PDF documents', () => {
+  it('should write pages a PDF reader can open', async () => {
+    const file = await buildPdf(
+      [
+        {
+          texts: [
+            { x: 40, y: 50, text: 'Balance (restated)', bold: true },
+            { x: 300, y: 70, text: '1,000.00', align: 'right' },
+          ],
+          rules: [{ x1: 40, y1: 60, x2: 300, y2: 60 }],
+        },
+        { texts: [] },
+      ],
+      { title: 'Statement' }
+    )
+
+    const { pages, info } = await openPdf(file)
+    expect(info.Title).toBe('Statement')
+    expect(pages).toHaveLength(2)
+    expect(pages[0].map((item) => item.text)).toEqual(['Balance (restated)', '1,000.00'])
+
+    // PDF space runs bottom-up; layout coordinates run top-down to the baseline
+    const [title, amount] = pages[0]
+    expect(title.x).toBeCloseTo(40)
+    expect(title.y).toBeCloseTo(841.89 - 50)
+    expect(amount.x + amount.width).toBeCloseTo(300)
+    expect(pages[1]).toEqual([])
+  })
+})
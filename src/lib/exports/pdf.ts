@@ -0,0 +1,72 @@
+import PDFDocument from 'pdfkit'
+
+/**
+ * PDF Documents
+ *
+ * Lays out text-only pages with pdfkit in the standard Helvetica fonts,
+ * which every viewer carries, so nothing is embedded. Characters outside
+ * WinAnsi are not drawn. Coordinates are in points from the top-left
+ * corner of the page; a text's y is its baseline.
+ */
+
+export interface PdfText {
+  x: number
+  y: number
+  text: string
+  size?: number
+  bold?: boolean
+  align?: 'left' | 'right'
+}
+
+export interface PdfRule {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  width?: number
+}
+
+export interface PdfPage {
+  texts: PdfText[]
+  rules?: PdfRule[]
+}
+
+export const A4 = { width: 595.28, height: 841.89 }
+
+const DEFAULT_FONT_SIZE = 10
+
+/**
+ * Build a PDF with one page per entry
+ */
+export function buildPdf(pages: PdfPage[], options: { width?: number; height?: number; title?: string } = {}): Promise<Buffer> {
+  const size = [options.width ?? A4.width, options.height ?? A4.height]
+  const doc = new PDFDocument({
+    size,
+    margin: 0,
+    autoFirstPage: false,
+    info: { Producer: 'NextAccounting', ...(options.title ? { Title: options.title } : {}) },
+  })
+
+  const chunks: Buffer[] = []
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk))
+    doc.on('end', () => resolve(Buffer.concat(chunks)))
+    doc.on('error', reject)
+  })
+
+  for (const page of pages) {
+    doc.addPage({ size, margin: 0 })
+    for (const rule of page.rules ?? []) {
+      doc.moveTo(rule.x1, rule.y1).lineTo(rule.x2, rule.y2).lineWidth(rule.width ?? 0.5).stroke()
+    }
+    for (const item of page.texts) {
+      if (!item.text) continue
+      doc.font(item.bold ? 'Helvetica-Bold' : 'Helvetica').fontSize(item.size ?? DEFAULT_FONT_SIZE)
+      const x = item.align === 'right' ? item.x - doc.widthOfString(item.text) : item.x
+      doc.text(item.text, x, item.y, { baseline: 'alphabetic', lineBreak: false })
+    }
+  }
+
+  doc.end()
+  return done
+}
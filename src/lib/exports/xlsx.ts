@@ -0,0 +1,131 @@
+import ExcelJS from 'exceljs'
+
+/**
+ * XLSX Workbooks
+ *
+ * Writes spreadsheets with ExcelJS from rows of plain or styled cells and a
+ * fixed set of named styles. Enough for tabular reports. Reading returns
+ * the cell values of each sheet (cached results for formulas), which is
+ * what imports need.
+ */
+
+export type XlsxStyle = 'default' | 'bold' | 'amount' | 'boldAmount' | 'title'
+
+export type XlsxValue = string | number | null | undefined
+
+export interface XlsxStyledCell {
+  value: XlsxValue
+  style?: XlsxStyle
+  indent?: number
+}
+
+export type XlsxCell = XlsxValue | XlsxStyledCell
+
+export interface XlsxSheet {
+  name: string
+  rows: XlsxCell[][]
+  columnWidths?: number[]
+}
+
+const AMOUNT_FORMAT = '#,##0.00;(#,##0.00);"-"'
+const MAX_INDENT = 3
+
+const STYLES: Record<XlsxStyle, Partial<ExcelJS.Style>> = {
+  default: {},
+  bold: { font: { bold: true } },
+  amount: { numFmt: AMOUNT_FORMAT },
+  boldAmount: { numFmt: AMOUNT_FORMAT, font: { bold: true } },
+  title: { font: { bold: true, size: 14 } },
+}
+
+function writeCell(target: ExcelJS.Cell, cell: XlsxCell) {
+  const styled: XlsxStyledCell = cell !== null && typeof cell === 'object' ? cell : { value: cell as XlsxValue }
+  const { value } = styled
+  if (value === null || value === undefined || value === '') return
+  if (typeof value === 'number' && !Number.isFinite(value)) return
+
+  target.value = value
+  const style = STYLES[styled.style ?? 'default']
+  if (style.font) target.font = style.font
+  if (style.numFmt) target.numFmt = style.numFmt
+  if (styled.indent && styled.indent > 0 && (!styled.style || styled.style === 'default')) {
+    target.alignment = { indent: Math.min(styled.indent, MAX_INDENT) }
+  }
+}
+
+/**
+ * Sheet names are limited to 31 characters, must be unique and cannot
+ * contain []:*?/\
+ */
+function sheetNames(sheets: XlsxSheet[]): string[] {
+  const used = new Set<string>()
+  return sheets.map((sheet, i) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${i + 1}`
+    let name = base
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base.slice(0, 28)} ${n}`
+    used.add(name.toLowerCase())
+    return name
+  })
+}
+
+/**
+ * Build an .xlsx workbook with one worksheet per sheet
+ */
+export async function buildXlsx(sheets: XlsxSheet[]): Promise<Buffer> {
+  if (sheets.length === 0) throw new Error('A workbook needs at least one sheet')
+  const names = sheetNames(sheets)
+  const workbook = new ExcelJS.Workbook()
+
+  sheets.forEach((sheet, i) => {
+    const worksheet = workbook.addWorksheet(names[i])
+    sheet.columnWidths?.forEach((width, c) => {
+      worksheet.getColumn(c + 1).width = width
+    })
+    sheet.rows.forEach((row, r) => {
+      row.forEach((cell, c) => writeCell(worksheet.getCell(r + 1, c + 1), cell))
+    })
+  })
+
+  return Buffer.from(await workbook.xlsx.writeBuffer())
+}
+
+export interface XlsxSheetData {
+  name: string
+  /** Rows by position; missing cells are null */
+  rows: Array<Array<string | number | null>>
+}
+
+/** A cell's value as imports see it: text, a number, or nothing */
+function readValue(value: ExcelJS.CellValue): string | number | null {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'number' || typeof value === 'string') return value
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  if (value instanceof Date) return value.toISOString().slice(0, 10)
+  if ('richText' in value) return value.richText.map((run) => run.text).join('')
+  if ('formula' in value || 'sharedFormula' in value) return readValue((value.result ?? null) as ExcelJS.CellValue)
+  if ('hyperlink' in value) return value.text
+  if ('error' in value) return value.error
+  return null
+}
+
+/**
+ * Read every worksheet of an .xlsx workbook, in workbook order
+ */
+export async function readXlsx(file: Buffer): Promise<XlsxSheetData[]> {
+  const workbook = new ExcelJS.Workbook()
+  await workbook.xlsx.load(file as unknown as ArrayBuffer)
+
+  return workbook.worksheets.map((worksheet) => {
+    const rows: XlsxSheetData['rows'] = []
+    worksheet.eachRow((row, rowNumber) => {
+      const values: Array<string | number | null> = []
+      row.eachCell((cell, column) => {
+        while (values.length < column - 1) values.push(null)
+        values[column - 1] = readValue(cell.value)
+      })
+      while (rows.length < rowNumber - 1) rows.push([])
+      rows[rowNumber - 1] = values
+    })
+    return { name: worksheet.name, rows }
+  })
+}
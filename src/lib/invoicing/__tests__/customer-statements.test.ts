@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import { getAgingBucketName } from '@/lib/payments/dunning'
+import { StatementEntry, statementPeriod, summarizeStatement } from '../customer-statements'
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+const invoice = (date: string, cents: number, reference = `INV-${date}`): StatementEntry => ({
+  date: day(date),
+  type: 'INVOICE',
+  reference,
+  documentId: reference,
+  debitCents: cents,
+  creditCents: 0,
+})
+
+const credit = (type: 'PAYMENT' | 'CREDIT_NOTE', date: string, cents: number, reference = `${type}-${date}`): StatementEntry => ({
+  date: day(date),
+  type,
+  reference,
+  documentId: reference,
+  debitCents: 0,
+  creditCents: cents,
+})
+
+describe('Customer Statements', () => {
+  describe('summarizeStatement', () => {
+    it('should roll earlier activity into the opening balance', () => {
+      const summary = summarizeStatement(
+        [invoice('2025-02-10', 50000), credit('PAYMENT', '2025-02-20', 20000), invoice('2025-03-05', 10000)],
+        day('2025-03-01'),
+        day('2025-03-31')
+      )
+      expect(summary.openingBalanceCents).toBe(30000)
+      expect(summary.lines.map((line) => line.balanceCents)).toEqual([40000])
+      expect(summary.closingBalanceCents).toBe(40000)
+    })
+
+    it('should total charges, credit notes and payments in the period', () => {
+      const summary = summarizeStatement(
+        [
+          credit('PAYMENT', '2025-03-10', 30000),
+          invoice('2025-03-10', 30000),
+          credit('CREDIT_NOTE', '2025-03-12', 5000),
+          invoice('2025-03-31', 12000),
+          invoice('2025-04-01', 99999),
+        ],
+        day('2025-03-01'),
+        day('2025-03-31')
+      )
+      expect(summary.lines.map((line) => line.type)).toEqual(['INVOICE', 'PAYMENT', 'CREDIT_NOTE', 'INVOICE'])
+      expect(summary.lines.map((line) => line.balanceCents)).toEqual([30000, 0, -5000, 7000])
+      expect(summary.totals).toEqual({ invoicedCents: 42000, creditedCents: 5000, paidCents: 30000 })
+      expect(summary.openingBalanceCents).toBe(0)
+      expect(summary.closingBalanceCents).toBe(7000)
+    })
+  })
+
+  describe('statementPeriod', () => {
+    it('should default to the current month and the two before it', () => {
+      const period = statementPeriod(undefined, undefined, new Date('2025-03-15T10:00:00Z'))
+      expect(period.from.toISOString().slice(0, 10)).toBe('2025-01-01')
+      expect(period.to.toISOString().slice(0, 10)).toBe('2025-03-15')
+    })
+  })
+
+  describe('getAgingBucketName', () => {
+    it('should place days past due in the receivables aging buckets', () => {
+      expect(getAgingBucketName(-3)).toBe('Current')
+      expect(getAgingBucketName(30)).toBe('Current')
+      expect(getAgingBucketName(31)).toBe('31-60 Days')
+      expect(getAgingBucketName(90)).toBe('61-90 Days')
+      expect(getAgingBucketName(400)).toBe('90+ Days')
+    })
+  })
+})
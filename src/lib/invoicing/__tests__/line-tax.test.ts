@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { calculateExpenseTax, calculateInvoiceLine, calculateInvoiceTotals, getChargedRate } from '../line-tax'
+
+describe('Invoice Line Tax', () => {
+  describe('calculateInvoiceLine', () => {
+    it('should add VAT on top of tax-exclusive prices', () => {
+      const line = calculateInvoiceLine({
+        description: 'Consulting',
+        quantity: 2,
+        unitPriceCents: 50000,
+        taxCategory: 'STANDARD',
+        taxRatePercent: 15,
+      })
+
+      expect(line.netCents).toBe(100000)
+      expect(line.taxCents).toBe(15000)
+      expect(line.totalCents).toBe(115000)
+    })
+
+    it('should back VAT out of tax-inclusive prices', () => {
+      const line = calculateInvoiceLine({
+        description: 'Retail',
+        quantity: 1,
+        unitPriceCents: 10500,
+        taxInclusive: true,
+        taxCategory: 'STANDARD',
+        taxRatePercent: 5,
+      })
+
+      expect(line.netCents).toBe(10000)
+      expect(line.taxCents).toBe(500)
+      expect(line.totalCents).toBe(10500)
+    })
+
+    it('should apply discounts before tax', () => {
+      const exclusive = calculateInvoiceLine({
+        description: 'Audit',
+        quantity: 1,
+        unitPriceCents: 100000,
+        discountCents: 10000,
+        taxCategory: 'STANDARD',
+        taxRatePercent: 14,
+      })
+
+      expect(exclusive.grossCents).toBe(100000)
+      expect(exclusive.lineDiscountCents).toBe(10000)
+      expect(exclusive.netCents).toBe(90000)
+      expect(exclusive.taxCents).toBe(12600)
+
+      const inclusive = calculateInvoiceLine({
+        description: 'Audit',
+        quantity: 1,
+        unitPriceCents: 115000,
+        discountCents: 11500,
+        taxInclusive: true,
+        taxCategory: 'STANDARD',
+        taxRatePercent: 15,
+      })
+
+      expect(inclusive.grossCents).toBe(100000)
+      expect(inclusive.lineDiscountCents).toBe(10000)
+      expect(inclusive.netCents).toBe(90000)
+      expect(inclusive.taxCents).toBe(13500)
+      expect(inclusive.totalCents).toBe(103500)
+    })
+
+    it('should not let a discount exceed the line amount', () => {
+      const line = calculateInvoiceLine({ description: 'Free', quantity: 1, unitPriceCents: 1000, discountCents: 5000 })
+      expect(line.netCents).toBe(0)
+      expect(line.totalCents).toBe(0)
+    })
+
+    it('should charge no VAT outside the standard category', () => {
+      expect(getChargedRate('STANDARD', 5)).toBe(5)
+      expect(getChargedRate('ZERO_RATED', 5)).toBe(0)
+      expect(getChargedRate('EXEMPT', 5)).toBe(0)
+      expect(getChargedRate('REVERSE_CHARGE', 5)).toBe(0)
+
+      const line = calculateInvoiceLine({
+        description: 'Export',
+        quantity: 1,
+        unitPriceCents: 20000,
+        taxCategory: 'ZERO_RATED',
+        taxRatePercent: 5,
+      })
+      expect(line.taxCents).toBe(0)
+      expect(line.taxRatePercent).toBe(0)
+    })
+
+    it('should treat lines without tax as out of scope', () => {
+      const line = calculateInvoiceLine({ description: 'Item', quantity: 1, unitPriceCents: 1000 })
+      expect(line.taxCategory).toBe('OUT_OF_SCOPE')
+      expect(line.taxCents).toBe(0)
+    })
+  })
+
+  describe('calculateInvoiceTotals', () => {
+    it('should roll lines up with a breakdown per category and rate', () => {
+      const totals = calculateInvoiceTotals([
+        calculateInvoiceLine({ description: 'A', quantity: 1, unitPriceCents: 10000, taxCategory: 'STANDARD', taxRatePercent: 5 }),
+        calculateInvoiceLine({ description: 'B', quantity: 2, unitPriceCents: 5000, discountCents: 1000, taxCategory: 'STANDARD', taxRatePercent: 5 }),
+        calculateInvoiceLine({ description: 'C', quantity: 1, unitPriceCents: 3000, taxCategory: 'ZERO_RATED' }),
+        calculateInvoiceLine({ description: 'D', quantity: 1, unitPriceCents: 2000, taxCategory: 'EXEMPT' }),
+      ])
+
+      expect(totals.subtotalCents).toBe(25000)
+      expect(totals.discountCents).toBe(1000)
+      expect(totals.taxCents).toBe(950)
+      expect(totals.totalCents).toBe(24950)
+      expect(totals.taxBreakdown).toEqual([
+        { category: 'STANDARD', ratePercent: 5, taxableCents: 19000, taxCents: 950 },
+        { category: 'ZERO_RATED', ratePercent: 0, taxableCents: 3000, taxCents: 0 },
+        { category: 'EXEMPT', ratePercent: 0, taxableCents: 2000, taxCents: 0 },
+      ])
+    })
+  })
+
+  describe('calculateExpenseTax', () => {
+    it('should back VAT out of gross standard-rated purchases only', () => {
+      expect(calculateExpenseTax(11500, 'STANDARD', 15)).toBe(1500)
+      expect(calculateExpenseTax(10000, 'REVERSE_CHARGE', 5)).toBe(0)
+      expect(calculateExpenseTax(10000, 'EXEMPT', 0)).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import { deriveInvoiceStatus, getDaysPastDue, getOutstandingCents } from '../balances'
+import { planAllocations } from '../payments'
+
+const NOW = new Date('2025-06-15T00:00:00Z')
+
+describe('Invoice Payments', () => {
+  describe('deriveInvoiceStatus', () => {
+    const base = { status: 'UNPAID', totalCents: 10000, paidCents: 0, creditedCents: 0, dueDate: new Date('2025-06-30T00:00:00Z') }
+
+    it('should keep an untouched invoice unpaid', () => {
+      expect(deriveInvoiceStatus(base, NOW)).toBe('UNPAID')
+      expect(deriveInvoiceStatus({ ...base, status: 'SENT' }, NOW)).toBe('SENT')
+    })
+
+    it('should mark a partly settled invoice as partially paid', () => {
+      expect(deriveInvoiceStatus({ ...base, paidCents: 4000 }, NOW)).toBe('PARTIALLY_PAID')
+      expect(deriveInvoiceStatus({ ...base, creditedCents: 2500 }, NOW)).toBe('PARTIALLY_PAID')
+    })
+
+    it('should mark an invoice paid once payments and credits cover it', () => {
+      expect(deriveInvoiceStatus({ ...base, paidCents: 6000, creditedCents: 4000 }, NOW)).toBe('PAID')
+    })
+
+    it('should mark an invoice with a balance past its due date as overdue', () => {
+      const overdue = { ...base, dueDate: new Date('2025-06-01T00:00:00Z') }
+      expect(deriveInvoiceStatus(overdue, NOW)).toBe('OVERDUE')
+      expect(deriveInvoiceStatus({ ...overdue, paidCents: 3000 }, NOW)).toBe('OVERDUE')
+      expect(deriveInvoiceStatus({ ...overdue, paidCents: 10000 }, NOW)).toBe('PAID')
+    })
+
+    it('should never derive over draft or void invoices', () => {
+      expect(deriveInvoiceStatus({ ...base, status: 'DRAFT', paidCents: 10000 }, NOW)).toBe('DRAFT')
+      expect(deriveInvoiceStatus({ ...base, status: 'VOID' }, NOW)).toBe('VOID')
+    })
+  })
+
+  describe('getDaysPastDue', () => {
+    it('should age from the due date, or the issue date when there is none', () => {
+      const issueDate = new Date('2025-05-01T00:00:00Z')
+      expect(getDaysPastDue({ issueDate, dueDate: new Date('2025-06-05T00:00:00Z') }, NOW)).toBe(10)
+      expect(getDaysPastDue({ issueDate, dueDate: new Date('2025-07-01T00:00:00Z') }, NOW)).toBe(0)
+      expect(getDaysPastDue({ issueDate, dueDate: null }, NOW)).toBe(45)
+    })
+  })
+
+  describe('planAllocations', () => {
+    const candidates = [
+      { id: 'inv_old', outstandingCents: 3000 },
+      { id: 'inv_new', outstandingCents: 5000 },
+    ]
+
+    it('should settle the oldest invoices first', () => {
+      const plan = planAllocations(4000, candidates)
+
+      expect(plan.allocations).toEqual([
+        { invoiceId: 'inv_old', amountCents: 3000 },
+        { invoiceId: 'inv_new', amountCents: 1000 },
+      ])
+      expect(plan.unallocatedCents).toBe(0)
+    })
+
+    it('should leave an overpayment unallocated', () => {
+      const plan = planAllocations(10000, candidates)
+
+      expect(plan.allocations.reduce((sum, a) => sum + a.amountCents, 0)).toBe(8000)
+      expect(plan.unallocatedCents).toBe(2000)
+    })
+
+    it('should honour explicit allocations', () => {
+      const plan = planAllocations(6000, candidates, [{ invoiceId: 'inv_new', amountCents: 5000 }])
+
+      expect(plan.allocations).toEqual([{ invoiceId: 'inv_new', amountCents: 5000 }])
+      expect(plan.unallocatedCents).toBe(1000)
+    })
+
+    it('should reject allocations above an invoice balance or the payment', () => {
+      expect(() => planAllocations(9000, candidates, [{ invoiceId: 'inv_old', amountCents: 3500 }])).toThrow(/exceeds the balance/)
+      expect(() =>
+        planAllocations(4000, candidates, [
+          { invoiceId: 'inv_old', amountCents: 3000 },
+          { invoiceId: 'inv_new', amountCents: 2000 },
+        ])
+      ).toThrow(/exceed the unallocated/)
+    })
+
+    it('should reject allocations to invoices that are not open', () => {
+      expect(() => planAllocations(1000, candidates, [{ invoiceId: 'inv_paid', amountCents: 1000 }])).toThrow(/not open/)
+    })
+  })
+
+  it('should net payments and credits off the outstanding balance', () => {
+    expect(getOutstandingCents({ totalCents: 10000, paidCents: 7000, creditedCents: 4000 })).toBe(-1000)
+  })
+})
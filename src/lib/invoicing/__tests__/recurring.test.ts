@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest'
+import {
+  addPeriods,
+  billingPeriodFor,
+  calendarPeriodStart,
+  isScheduleFinished,
+  linesForPeriod,
+  previewPeriods,
+  RecurringInvoiceSchema,
+  ScheduleTiming,
+} from '../recurring'
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`)
+const iso = (date: Date) => date.toISOString().slice(0, 10)
+
+const monthly = (overrides: Partial<ScheduleTiming> = {}): ScheduleTiming => ({
+  cadence: 'MONTHLY',
+  startDate: day('2025-01-15'),
+  endDate: null,
+  prorate: false,
+  maxOccurrences: null,
+  ...overrides,
+})
+
+describe('Recurring Invoices', () => {
+  describe('addPeriods', () => {
+    it('should keep the anchor day and fall back to the month end', () => {
+      expect(iso(addPeriods(day('2025-01-31'), 'MONTHLY', 1))).toBe('2025-02-28')
+      expect(iso(addPeriods(day('2025-02-28'), 'MONTHLY', 1, 31))).toBe('2025-03-31')
+      expect(iso(addPeriods(day('2024-02-29'), 'ANNUALLY', 1))).toBe('2025-02-28')
+    })
+
+    it('should step weeks and quarters', () => {
+      expect(iso(addPeriods(day('2025-12-29'), 'WEEKLY', 1))).toBe('2026-01-05')
+      expect(iso(addPeriods(day('2025-11-30'), 'QUARTERLY', 1))).toBe('2026-02-28')
+    })
+  })
+
+  describe('calendarPeriodStart', () => {
+    it('should find the Monday, month, quarter or year a date falls in', () => {
+      expect(iso(calendarPeriodStart(day('2025-04-03'), 'WEEKLY'))).toBe('2025-03-31')
+      expect(iso(calendarPeriodStart(day('2025-04-03'), 'MONTHLY'))).toBe('2025-04-01')
+      expect(iso(calendarPeriodStart(day('2025-05-15'), 'QUARTERLY'))).toBe('2025-04-01')
+      expect(iso(calendarPeriodStart(day('2025-05-15'), 'ANNUALLY'))).toBe('2025-01-01')
+    })
+  })
+
+  describe('billingPeriodFor', () => {
+    it('should bill whole periods from the start date without proration', () => {
+      const period = billingPeriodFor(monthly(), day('2025-01-15'))
+      expect(iso(period.end)).toBe('2025-02-14')
+      expect(iso(period.nextStart)).toBe('2025-02-15')
+      expect(period.prorationFactor).toBeNull()
+    })
+
+    it('should prorate a first period that starts mid-month', () => {
+      const period = billingPeriodFor(monthly({ prorate: true, startDate: day('2025-04-16') }), day('2025-04-16'))
+      expect(iso(period.end)).toBe('2025-04-30')
+      expect(iso(period.nextStart)).toBe('2025-05-01')
+      expect(period.prorationFactor).toBe(0.5)
+    })
+
+    it('should prorate a last period cut short by the end date', () => {
+      const schedule = monthly({ prorate: true, startDate: day('2025-04-01'), endDate: day('2025-06-10') })
+      const period = billingPeriodFor(schedule, day('2025-06-01'))
+      expect(iso(period.end)).toBe('2025-06-10')
+      expect(period.prorationFactor).toBeCloseTo(1 / 3, 5)
+      expect(billingPeriodFor(schedule, day('2025-05-01')).prorationFactor).toBeNull()
+    })
+  })
+
+  describe('schedule end', () => {
+    it('should finish after the last occurrence or past the end date', () => {
+      expect(isScheduleFinished(monthly({ maxOccurrences: 3 }), day('2025-04-15'), 3)).toBe(true)
+      expect(isScheduleFinished(monthly({ maxOccurrences: 3 }), day('2025-04-15'), 2)).toBe(false)
+      expect(isScheduleFinished(monthly({ endDate: day('2025-03-31') }), day('2025-04-15'), 0)).toBe(true)
+      expect(isScheduleFinished(monthly({ endDate: day('2025-04-15') }), day('2025-04-15'), 0)).toBe(false)
+    })
+
+    it('should preview only the periods left to bill', () => {
+      const schedule = monthly({ startDate: day('2025-01-31'), maxOccurrences: 5 })
+      expect(previewPeriods(schedule, day('2025-01-31')).map((p) => iso(p.start))).toEqual(['2025-01-31', '2025-02-28', '2025-03-31'])
+      expect(previewPeriods(schedule, day('2025-04-30'), 4).map((p) => iso(p.start))).toEqual(['2025-04-30'])
+    })
+  })
+
+  describe('linesForPeriod', () => {
+    it('should label lines with the period and scale prorated amounts', () => {
+      const period = billingPeriodFor(monthly({ prorate: true, startDate: day('2025-04-16') }), day('2025-04-16'))
+      const [line] = linesForPeriod([{ description: 'Bookkeeping retainer', quantity: 1, unitPriceCents: 120001, discountCents: 1000 }], period)
+      expect(line.description).toBe('Bookkeeping retainer (2025-04-16 to 2025-04-30, prorated)')
+      expect(line.unitPriceCents).toBe(60001)
+      expect(line.discountCents).toBe(500)
+    })
+  })
+
+  describe('RecurringInvoiceSchema', () => {
+    it('should reject an end date before the start', () => {
+      const base = { name: 'Retainer', clientId: 'c1', cadence: 'MONTHLY', startDate: '2025-04-01', lines: [{ description: 'Fee', unitPriceCents: 5000 }] }
+      expect(RecurringInvoiceSchema.safeParse(base).success).toBe(true)
+      expect(RecurringInvoiceSchema.safeParse({ ...base, endDate: '2025-03-01' }).success).toBe(false)
+    })
+  })
+})
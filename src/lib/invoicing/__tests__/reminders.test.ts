@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import {
+  daysFromDue,
+  DEFAULT_REMINDER_STEPS,
+  DEFAULT_REMINDER_TEMPLATES,
+  reminderLocale,
+  reminderStepDue,
+  ReminderSettingsSchema,
+  renderReminder,
+} from '../reminders'
+
+const day = (iso: string) => new Date(`${iso}T00:00:00Z`)
+
+describe('Payment Reminders', () => {
+  describe('daysFromDue', () => {
+    it('should count calendar days, negative before the due date', () => {
+      expect(daysFromDue(day('2025-03-10'), new Date('2025-03-07T23:00:00Z'))).toBe(-3)
+      expect(daysFromDue(day('2025-03-10'), day('2025-03-10'))).toBe(0)
+      expect(daysFromDue(day('2025-02-28'), day('2025-03-07'))).toBe(7)
+    })
+  })
+
+  describe('reminderStepDue', () => {
+    it('should send the latest step reached once', () => {
+      expect(reminderStepDue(DEFAULT_REMINDER_STEPS, -5, new Set())).toBeNull()
+      expect(reminderStepDue(DEFAULT_REMINDER_STEPS, -3, new Set())?.templateType).toBe('INVOICE_DUE_SOON')
+      expect(reminderStepDue(DEFAULT_REMINDER_STEPS, 2, new Set([-3]))).toBeNull()
+      expect(reminderStepDue(DEFAULT_REMINDER_STEPS, 30, new Set([-3, 7]))?.offsetDays).toBe(30)
+    })
+
+    it('should not send missed earlier steps late', () => {
+      expect(reminderStepDue(DEFAULT_REMINDER_STEPS, 45, new Set())?.offsetDays).toBe(30)
+      expect(reminderStepDue(DEFAULT_REMINDER_STEPS, 45, new Set([30]))).toBeNull()
+    })
+
+    it('should skip disabled steps', () => {
+      const steps = DEFAULT_REMINDER_STEPS.map((step) => ({ ...step, enabled: step.offsetDays !== 30 }))
+      expect(reminderStepDue(steps, 45, new Set([7]))).toBeNull()
+      expect(reminderStepDue(steps, 61, new Set([7]))?.templateType).toBe('INVOICE_FINAL_NOTICE')
+    })
+  })
+
+  describe('templates', () => {
+    it('should ship English and Arabic wording for every template type', () => {
+      for (const type of ['INVOICE_DUE_SOON', 'INVOICE_OVERDUE', 'INVOICE_FINAL_NOTICE']) {
+        expect(DEFAULT_REMINDER_TEMPLATES.filter((t) => t.templateType === type).map((t) => t.locale).sort()).toEqual(['ar', 'en'])
+      }
+    })
+
+    it('should pick Arabic only for Arabic speakers', () => {
+      expect(reminderLocale('ar')).toBe('ar')
+      expect(reminderLocale('ar-SA')).toBe('ar')
+      expect(reminderLocale('hi')).toBe('en')
+      expect(reminderLocale(null)).toBe('en')
+    })
+
+    it('should fill placeholders and escape the values in the HTML body', () => {
+      const { subject, html } = renderReminder(
+        { subject: 'Invoice {{invoiceNumber}}', content: 'Dear {{clientName}},\n\nPay {{amountDue}} by {{dueDate}}.\n{{unknown}}', locale: 'en' },
+        { invoiceNumber: 'INV-7', clientName: 'Smith & <Sons>', amountDue: '1,200.00 SAR', dueDate: '2025-03-10' }
+      )
+      expect(subject).toBe('Invoice INV-7')
+      expect(html).toContain('<p>Dear Smith &amp; &lt;Sons&gt;,</p>')
+      expect(html).toContain('<p>Pay 1,200.00 SAR by 2025-03-10.<br>{{unknown}}</p>')
+      expect(html.startsWith('<div dir="ltr" lang="en">')).toBe(true)
+    })
+
+    it('should escape markup written into the template itself and lay Arabic out right to left', () => {
+      const { html } = renderReminder({ subject: 's', content: '<script>x</script> {{clientName}}', locale: 'ar' }, { clientName: 'علي' })
+      expect(html).toContain('&lt;script&gt;x&lt;/script&gt; علي')
+      expect(html.startsWith('<div dir="rtl" lang="ar">')).toBe(true)
+    })
+  })
+
+  describe('ReminderSettingsSchema', () => {
+    it('should reject two steps on the same day', () => {
+      const step = { name: 'Overdue', offsetDays: 7, templateType: 'INVOICE_OVERDUE' }
+      expect(ReminderSettingsSchema.safeParse({ steps: [step] }).success).toBe(true)
+      expect(ReminderSettingsSchema.safeParse({ steps: [step, { ...step, name: 'Again' }] }).success).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,152 @@
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { assertPostingPeriodOpen, captureDocumentRate, postInvoice, postSafely } from '@/lib/accounting/posting'
+import { capturedAmounts, CapturedRate } from '@/lib/accounting/fx'
+import { calculateInvoiceTotals, InvoiceLineInput, resolveInvoiceLines, toInvoiceItemData } from './line-tax'
+import { decimalToNumber } from '@/lib/decimal-utils'
+import { refreshInvoiceBalance } from './balances'
+import { hasUnresolvedRejection, resolveRejectedSubmissions } from '@/lib/einvoicing/submissions'
+
+/**
+ * Credit and Debit Notes
+ *
+ * Adjustments are stored as invoices with a documentType and a link to
+ * the original. A credit note is applied to the original immediately and
+ * reduces its outstanding balance; a debit note is a new receivable with
+ * its own balance. An invoice rejected by the e-invoicing authority can
+ * only be corrected with a credit note; crediting it in full resolves the
+ * rejection.
+ */
+
+export type AdjustmentNoteType = 'CREDIT_NOTE' | 'DEBIT_NOTE'
+
+export interface IssueAdjustmentNoteInput {
+  tenantId: string
+  originalInvoiceId: string
+  type: AdjustmentNoteType
+  reason: string
+  lines: InvoiceLineInput[]
+  issueDate?: Date
+  userId?: string | null
+}
+
+/**
+ * Issue a credit or debit note against an invoice
+ */
+export async function issueAdjustmentNote(input: IssueAdjustmentNoteInput) {
+  const original = await prisma.invoice.findFirst({
+    where: { id: input.originalInvoiceId, tenantId: input.tenantId },
+  })
+  if (!original) throw new ApiError('NOT_FOUND', 'Invoice not found', 404)
+
+  if (original.documentType !== 'INVOICE') {
+    throw new ApiError('INVALID_STATE', 'Notes can only be issued against an invoice', 409)
+  }
+  if (original.status === 'DRAFT' || original.status === 'VOID') {
+    throw new ApiError('INVALID_STATE', `Cannot adjust a ${original.status} invoice`, 409)
+  }
+  if (input.type === 'DEBIT_NOTE' && (await hasUnresolvedRejection(input.tenantId, original.id))) {
+    throw new ApiError(
+      'REJECTED_REQUIRES_CREDIT_NOTE',
+      'This invoice was rejected by the tax authority and can only be corrected with a credit note',
+      409
+    )
+  }
+
+  const issueDate = input.issueDate ?? new Date()
+  const lines = await resolveInvoiceLines(input.tenantId, input.lines, issueDate)
+  const totals = calculateInvoiceTotals(lines)
+
+  if (totals.totalCents <= 0) {
+    throw new ApiError('INVALID_AMOUNT', 'A note must have a positive total', 400)
+  }
+  if (input.type === 'CREDIT_NOTE' && totals.totalCents > original.totalCents - original.creditedCents) {
+    throw new ApiError('CREDIT_EXCEEDS_INVOICE', 'Credit note exceeds the amount not yet credited on the invoice', 422, {
+      availableCents: original.totalCents - original.creditedCents,
+      requestedCents: totals.totalCents,
+    })
+  }
+
+  await assertPostingPeriodOpen(input.tenantId, original.entityId, issueDate, 'invoice')
+
+  // A credit note reverses receivables at the rate they were booked at
+  const rate: CapturedRate = input.type === 'CREDIT_NOTE'
+    ? {
+        functionalCurrency: original.functionalCurrency,
+        exchangeRate: original.exchangeRate === null ? null : decimalToNumber(original.exchangeRate),
+      }
+    : await captureDocumentRate(input.tenantId, original.entityId, original.currency, issueDate)
+
+  const note = await prisma.$transaction(async (tx) => {
+    const created = await tx.invoice.create({
+      data: {
+        tenantId: input.tenantId,
+        documentType: input.type,
+        originalInvoiceId: original.id,
+        adjustmentReason: input.reason,
+        clientId: original.clientId,
+        bookingId: original.bookingId,
+        entityId: original.entityId,
+        costCenter: original.costCenter,
+        currency: original.currency,
+        subtotalCents: totals.subtotalCents,
+        discountCents: totals.discountCents,
+        taxCents: totals.taxCents,
+        totalCents: totals.totalCents,
+        taxBreakdown: totals.taxBreakdown as any,
+        ...capturedAmounts(rate, { functionalTotalCents: totals.totalCents, functionalTaxCents: totals.taxCents }),
+        issueDate,
+        dueDate: input.type === 'DEBIT_NOTE' ? original.dueDate : null,
+        // A credit note is settled by being applied to the original invoice
+        status: input.type === 'CREDIT_NOTE' ? 'PAID' : 'UNPAID',
+        paidAt: input.type === 'CREDIT_NOTE' ? issueDate : null,
+        items: { create: lines.map(toInvoiceItemData) },
+      },
+      include: { items: true },
+    })
+
+    if (input.type === 'CREDIT_NOTE') {
+      await refreshInvoiceBalance(original.id, tx)
+      await resolveRejectedSubmissions(input.tenantId, original.id, created.id, tx)
+    }
+
+    return created
+  })
+
+  await postSafely('invoice', note.id, () => postInvoice(note.id, input.userId))
+
+  return note
+}
+
+/**
+ * Credit an invoice in full, line for line. Lines keep the tax snapshot of
+ * the original so the reversal matches it even if the tax code has since
+ * changed.
+ */
+export async function issueFullCreditNote(input: Omit<IssueAdjustmentNoteInput, 'type' | 'lines'>) {
+  const original = await prisma.invoice.findFirst({
+    where: { id: input.originalInvoiceId, tenantId: input.tenantId },
+    include: { items: true },
+  })
+  if (!original) throw new ApiError('NOT_FOUND', 'Invoice not found', 404)
+  if (original.creditedCents > 0) {
+    throw new ApiError('PARTIALLY_CREDITED', 'Invoice is already partly credited; credit the remainder line by line', 409, {
+      creditedCents: original.creditedCents,
+    })
+  }
+
+  return issueAdjustmentNote({
+    ...input,
+    type: 'CREDIT_NOTE',
+    lines: original.items.map((item) => ({
+      description: item.description,
+      quantity: item.quantity,
+      unitPriceCents: item.unitPriceCents,
+      discountCents: item.discountCents,
+      taxInclusive: item.taxInclusive,
+      taxCategory: item.taxCategory,
+      taxRatePercent: decimalToNumber(item.taxRate),
+      itemCode: item.itemCode,
+    })),
+  })
+}
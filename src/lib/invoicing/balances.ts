@@ -0,0 +1,111 @@
+import prisma from '@/lib/prisma'
+import { Prisma } from '@prisma/client'
+
+/**
+ * Invoice Balances
+ *
+ * An invoice's outstanding balance is its total less payment allocations
+ * and credit notes issued against it. Status is derived from that balance
+ * and the due date rather than set by hand:
+ *   balance <= 0                -> PAID
+ *   past due with a balance     -> OVERDUE
+ *   partly settled              -> PARTIALLY_PAID
+ *   otherwise                   -> UNPAID (or SENT if it was sent)
+ * DRAFT and VOID are never derived over.
+ */
+
+export type DerivableInvoiceStatus = 'DRAFT' | 'SENT' | 'UNPAID' | 'PARTIALLY_PAID' | 'OVERDUE' | 'PAID' | 'VOID'
+
+/** Statuses of invoices that still expect money */
+export const OPEN_INVOICE_STATUSES: DerivableInvoiceStatus[] = ['SENT', 'UNPAID', 'PARTIALLY_PAID', 'OVERDUE']
+
+export interface InvoiceBalanceFields {
+  status: string
+  totalCents: number
+  paidCents: number
+  creditedCents: number
+  dueDate?: Date | null
+}
+
+type Tx = Prisma.TransactionClient | typeof prisma
+
+/**
+ * Amount still owed on an invoice. Negative when overpaid or over-credited.
+ */
+export function getOutstandingCents(invoice: Pick<InvoiceBalanceFields, 'totalCents' | 'paidCents' | 'creditedCents'>): number {
+  return invoice.totalCents - invoice.paidCents - invoice.creditedCents
+}
+
+/**
+ * Derive the status an invoice should carry
+ */
+export function deriveInvoiceStatus(invoice: InvoiceBalanceFields, now: Date = new Date()): DerivableInvoiceStatus {
+  const current = invoice.status as DerivableInvoiceStatus
+  if (current === 'DRAFT' || current === 'VOID') return current
+
+  const outstanding = getOutstandingCents(invoice)
+  if (outstanding <= 0) return 'PAID'
+  if (invoice.dueDate && invoice.dueDate.getTime() < now.getTime()) return 'OVERDUE'
+  if (invoice.paidCents > 0 || invoice.creditedCents > 0) return 'PARTIALLY_PAID'
+
+  return current === 'SENT' ? 'SENT' : 'UNPAID'
+}
+
+/**
+ * Whole days an invoice is past due (0 when not yet due). Invoices without
+ * a due date are aged from their issue date.
+ */
+export function getDaysPastDue(
+  invoice: { dueDate?: Date | null; issueDate: Date },
+  now: Date = new Date()
+): number {
+  const reference = invoice.dueDate ?? invoice.issueDate
+  return Math.max(0, Math.floor((now.getTime() - reference.getTime()) / (1000 * 60 * 60 * 24)))
+}
+
+/**
+ * Recompute paid/credited amounts from allocations and credit notes, then
+ * re-derive status. Call after anything that changes what is owed.
+ */
+export async function refreshInvoiceBalance(invoiceId: string, tx: Tx = prisma) {
+  const invoice = await tx.invoice.findUnique({ where: { id: invoiceId } })
+  if (!invoice) return null
+
+  const [allocations, credits] = await Promise.all([
+    tx.paymentAllocation.aggregate({ where: { invoiceId }, _sum: { amountCents: true } }),
+    tx.invoice.aggregate({
+      where: { originalInvoiceId: invoiceId, documentType: 'CREDIT_NOTE', status: { notIn: ['DRAFT', 'VOID'] } },
+      _sum: { totalCents: true },
+    }),
+  ])
+
+  const paidCents = allocations._sum.amountCents ?? 0
+  const creditedCents = credits._sum.totalCents ?? 0
+  const status = deriveInvoiceStatus({ ...invoice, paidCents, creditedCents })
+
+  let paidAt = invoice.paidAt
+  if (status === 'PAID' && !paidAt) {
+    const latest = await tx.paymentAllocation.findFirst({
+      where: { invoiceId },
+      orderBy: { payment: { receivedAt: 'desc' } },
+      select: { payment: { select: { receivedAt: true } } },
+    })
+    paidAt = latest?.payment.receivedAt ?? new Date()
+  } else if (status !== 'PAID') {
+    paidAt = null
+  }
+
+  if (
+    paidCents === invoice.paidCents &&
+    creditedCents === invoice.creditedCents &&
+    status === invoice.status &&
+    paidAt?.getTime() === invoice.paidAt?.getTime()
+  ) {
+    return invoice
+  }
+
+  return tx.invoice.update({
+    where: { id: invoiceId },
+    data: { paidCents, creditedCents, status, paidAt },
+  })
+}
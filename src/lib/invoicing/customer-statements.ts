@@ -0,0 +1,303 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { A4, buildPdf, PdfPage } from '@/lib/exports/pdf'
+import { formatStatementAmount } from '@/lib/accounting/statement-export'
+import { AGING_BUCKET_RANGES, getAgingBucketName } from '@/lib/payments/dunning'
+import { getDaysPastDue, getOutstandingCents, OPEN_INVOICE_STATUSES } from './balances'
+
+/**
+ * Customer Statements
+ *
+ * A statement of account lists everything that moved a client's balance in
+ * one currency over a period: invoices and debit notes raise it, credit
+ * notes and payments lower it. Activity before the period is rolled into
+ * the opening balance, and each line carries the running balance so the
+ * closing balance can be read off the last one. Open invoices are aged
+ * into the same buckets as the receivables aging report.
+ */
+
+export type StatementEntryType = 'INVOICE' | 'DEBIT_NOTE' | 'CREDIT_NOTE' | 'PAYMENT'
+
+export interface StatementEntry {
+  date: Date
+  type: StatementEntryType
+  reference: string
+  documentId: string
+  debitCents: number
+  creditCents: number
+  dueDate?: Date | null
+}
+
+export interface StatementLine extends StatementEntry {
+  balanceCents: number
+}
+
+export interface StatementSummary {
+  openingBalanceCents: number
+  lines: StatementLine[]
+  totals: { invoicedCents: number; creditedCents: number; paidCents: number }
+  closingBalanceCents: number
+}
+
+export interface CustomerStatement extends StatementSummary {
+  tenantName: string
+  client: { id: string; name: string | null; email: string }
+  currency: string
+  currencies: string[]
+  from: Date
+  to: Date
+  aging: Array<{ name: string; invoiceCount: number; amountCents: number }>
+}
+
+export const StatementQuerySchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  currency: z.string().trim().length(3).optional(),
+  format: z.enum(['json', 'pdf']).default('json'),
+})
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/** Same-day entries list documents before the payments against them */
+const ENTRY_ORDER: Record<StatementEntryType, number> = { INVOICE: 0, DEBIT_NOTE: 1, CREDIT_NOTE: 2, PAYMENT: 3 }
+
+const ENTRY_LABELS: Record<StatementEntryType, string> = {
+  INVOICE: 'Invoice',
+  DEBIT_NOTE: 'Debit note',
+  CREDIT_NOTE: 'Credit note',
+  PAYMENT: 'Payment',
+}
+
+/**
+ * Requested period, defaulting to the current month and the two before it
+ */
+export function statementPeriod(from?: Date, to?: Date, now: Date = new Date()): { from: Date; to: Date } {
+  const end = to ?? new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+  const start = from ?? new Date(Date.UTC(end.getUTCFullYear(), end.getUTCMonth() - 2, 1))
+  return { from: start, to: end }
+}
+
+/**
+ * Opening balance, running-balance lines and closing balance for the
+ * entries of one client and currency. `to` is inclusive of the whole day.
+ */
+export function summarizeStatement(entries: StatementEntry[], from: Date, to: Date): StatementSummary {
+  const end = to.getTime() + DAY_MS
+  const sorted = [...entries].sort(
+    (a, b) => a.date.getTime() - b.date.getTime() || ENTRY_ORDER[a.type] - ENTRY_ORDER[b.type]
+  )
+
+  let balance = 0
+  const lines: StatementLine[] = []
+  const totals = { invoicedCents: 0, creditedCents: 0, paidCents: 0 }
+
+  for (const entry of sorted) {
+    const time = entry.date.getTime()
+    if (time >= end) continue
+    balance += entry.debitCents - entry.creditCents
+    if (time < from.getTime()) continue
+
+    lines.push({ ...entry, balanceCents: balance })
+    if (entry.type === 'PAYMENT') totals.paidCents += entry.creditCents
+    else if (entry.type === 'CREDIT_NOTE') totals.creditedCents += entry.creditCents
+    else totals.invoicedCents += entry.debitCents
+  }
+
+  const movement = totals.invoicedCents - totals.creditedCents - totals.paidCents
+  return { openingBalanceCents: balance - movement, lines, totals, closingBalanceCents: balance }
+}
+
+/**
+ * Statement of account for one client. Defaults to the currency of the
+ * client's latest invoice; the other currencies they trade in are listed
+ * so a statement can be requested for each.
+ */
+export async function getCustomerStatement(
+  tenantId: string,
+  clientId: string,
+  options: { from: Date; to: Date; currency?: string }
+): Promise<CustomerStatement> {
+  if (options.from.getTime() > options.to.getTime()) {
+    throw new ApiError('INVALID_PERIOD', 'Statement start must be on or before its end', 400)
+  }
+
+  const [tenant, client] = await Promise.all([
+    prisma.tenant.findUnique({ where: { id: tenantId }, select: { name: true } }),
+    prisma.user.findFirst({ where: { id: clientId, tenantId }, select: { id: true, name: true, email: true } }),
+  ])
+  if (!client) throw new ApiError('CLIENT_NOT_FOUND', 'Client not found', 404)
+
+  const end = new Date(options.to.getTime() + DAY_MS)
+  const [invoices, payments] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { tenantId, clientId, status: { notIn: ['DRAFT', 'VOID'] }, issueDate: { lt: end } },
+      select: {
+        id: true,
+        number: true,
+        documentType: true,
+        status: true,
+        currency: true,
+        issueDate: true,
+        dueDate: true,
+        totalCents: true,
+        paidCents: true,
+        creditedCents: true,
+      },
+      orderBy: { issueDate: 'desc' },
+    }),
+    prisma.payment.findMany({
+      where: { tenantId, clientId, receivedAt: { lt: end } },
+      select: { id: true, reference: true, currency: true, amountCents: true, receivedAt: true },
+    }),
+  ])
+
+  const currencies = [...new Set([...invoices.map((i) => i.currency), ...payments.map((p) => p.currency)])].sort()
+  const currency = (options.currency ?? invoices[0]?.currency ?? currencies[0] ?? 'USD').toUpperCase()
+
+  const entries: StatementEntry[] = []
+  for (const invoice of invoices) {
+    if (invoice.currency !== currency) continue
+    const credit = invoice.documentType === 'CREDIT_NOTE'
+    entries.push({
+      date: invoice.issueDate,
+      type: invoice.documentType as StatementEntryType,
+      reference: invoice.number ?? invoice.id,
+      documentId: invoice.id,
+      debitCents: credit ? 0 : invoice.totalCents,
+      creditCents: credit ? invoice.totalCents : 0,
+      dueDate: invoice.dueDate,
+    })
+  }
+  for (const payment of payments) {
+    if (payment.currency !== currency) continue
+    entries.push({
+      date: payment.receivedAt,
+      type: 'PAYMENT',
+      reference: payment.reference ?? payment.id,
+      documentId: payment.id,
+      debitCents: 0,
+      creditCents: payment.amountCents,
+    })
+  }
+
+  const aging = AGING_BUCKET_RANGES.map((range) => ({ name: range.name, invoiceCount: 0, amountCents: 0 }))
+  for (const invoice of invoices) {
+    if (invoice.currency !== currency || invoice.documentType === 'CREDIT_NOTE') continue
+    if (!OPEN_INVOICE_STATUSES.includes(invoice.status as (typeof OPEN_INVOICE_STATUSES)[number])) continue
+    const outstanding = getOutstandingCents(invoice)
+    if (outstanding <= 0) continue
+    const bucket = aging.find((b) => b.name === getAgingBucketName(getDaysPastDue(invoice, options.to)))
+    if (bucket) {
+      bucket.invoiceCount += 1
+      bucket.amountCents += outstanding
+    }
+  }
+
+  return {
+    tenantName: tenant?.name ?? '',
+    client,
+    currency,
+    currencies: currencies.length ? currencies : [currency],
+    from: options.from,
+    to: options.to,
+    aging,
+    ...summarizeStatement(entries, options.from, options.to),
+  }
+}
+
+const MARGIN = 40
+const LINE_HEIGHT = 14
+const PAGE_BOTTOM = A4.height - 50
+const COLUMNS = { date: MARGIN, type: MARGIN + 70, reference: MARGIN + 140, debit: 385, credit: 465, balance: A4.width - MARGIN }
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Statement of account as a PDF: header, activity with running balance,
+ * then the closing balance and aging of what is still open
+ */
+export async function renderCustomerStatementPdf(statement: CustomerStatement): Promise<Buffer> {
+  const pages: PdfPage[] = []
+  let page: PdfPage
+  let y = 0
+
+  const startPage = () => {
+    page = { texts: [], rules: [] }
+    pages.push(page)
+    const continued = pages.length > 1 ? ' (continued)' : ''
+    page.texts.push(
+      { x: MARGIN, y: 50, text: `Statement of account${continued}`, size: 14, bold: true },
+      { x: MARGIN, y: 68, text: statement.tenantName, size: 10 },
+      { x: MARGIN, y: 82, text: `${statement.client.name ?? statement.client.email}`, size: 10, bold: true },
+      {
+        x: MARGIN,
+        y: 96,
+        text: `${isoDate(statement.from)} to ${isoDate(statement.to)}, amounts in ${statement.currency}`,
+        size: 9,
+      },
+      { x: COLUMNS.date, y: 124, text: 'Date', size: 8, bold: true },
+      { x: COLUMNS.type, y: 124, text: 'Type', size: 8, bold: true },
+      { x: COLUMNS.reference, y: 124, text: 'Reference', size: 8, bold: true },
+      { x: COLUMNS.debit, y: 124, text: 'Charges', size: 8, bold: true, align: 'right' },
+      { x: COLUMNS.credit, y: 124, text: 'Credits', size: 8, bold: true, align: 'right' },
+      { x: COLUMNS.balance, y: 124, text: 'Balance', size: 8, bold: true, align: 'right' }
+    )
+    page.rules!.push({ x1: MARGIN, y1: 130, x2: A4.width - MARGIN, y2: 130 })
+    y = 146
+  }
+
+  const nextLine = (height = LINE_HEIGHT) => {
+    y += height
+    if (y > PAGE_BOTTOM) startPage()
+  }
+
+  startPage()
+  page.texts.push(
+    { x: COLUMNS.date, y, text: isoDate(statement.from), size: 9 },
+    { x: COLUMNS.type, y, text: 'Opening balance', size: 9, bold: true },
+    { x: COLUMNS.balance, y, text: formatStatementAmount(statement.openingBalanceCents), size: 9, bold: true, align: 'right' }
+  )
+  nextLine()
+
+  for (const line of statement.lines) {
+    page.texts.push(
+      { x: COLUMNS.date, y, text: isoDate(line.date), size: 9 },
+      { x: COLUMNS.type, y, text: ENTRY_LABELS[line.type], size: 9 },
+      { x: COLUMNS.reference, y, text: line.reference, size: 9 },
+      { x: COLUMNS.debit, y, text: line.debitCents ? formatStatementAmount(line.debitCents) : '', size: 9, align: 'right' },
+      { x: COLUMNS.credit, y, text: line.creditCents ? formatStatementAmount(line.creditCents) : '', size: 9, align: 'right' },
+      { x: COLUMNS.balance, y, text: formatStatementAmount(line.balanceCents), size: 9, align: 'right' }
+    )
+    nextLine()
+  }
+
+  page.rules!.push({ x1: COLUMNS.reference, y1: y - 10, x2: A4.width - MARGIN, y2: y - 10 })
+  page.texts.push(
+    { x: COLUMNS.type, y, text: 'Closing balance', size: 9, bold: true },
+    { x: COLUMNS.debit, y, text: formatStatementAmount(statement.totals.invoicedCents), size: 9, bold: true, align: 'right' },
+    {
+      x: COLUMNS.credit,
+      y,
+      text: formatStatementAmount(statement.totals.creditedCents + statement.totals.paidCents),
+      size: 9,
+      bold: true,
+      align: 'right',
+    },
+    { x: COLUMNS.balance, y, text: formatStatementAmount(statement.closingBalanceCents), size: 9, bold: true, align: 'right' }
+  )
+  nextLine(LINE_HEIGHT * 2)
+
+  page.texts.push({ x: MARGIN, y, text: 'Open invoices by age', size: 10, bold: true })
+  nextLine()
+  for (const bucket of statement.aging) {
+    page.texts.push(
+      { x: MARGIN, y, text: bucket.name, size: 9 },
+      { x: COLUMNS.credit, y, text: `${bucket.invoiceCount}`, size: 9, align: 'right' },
+      { x: COLUMNS.balance, y, text: formatStatementAmount(bucket.amountCents), size: 9, align: 'right' }
+    )
+    nextLine()
+  }
+
+  return buildPdf(pages, { title: `Statement of account - ${statement.client.name ?? statement.client.email}` })
+}
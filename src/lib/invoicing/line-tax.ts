@@ -0,0 +1,304 @@
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { decimalToNumber, DecimalLike } from '@/lib/decimal-utils'
+
+/**
+ * Invoice Line Tax
+ *
+ * Computes per-line VAT from a TaxCode snapshot and rolls lines up into
+ * invoice totals with a breakdown per category and rate. All stored amounts
+ * are tax-exclusive so they map directly onto ZATCA/ETA documents:
+ *   subtotal - discount + tax = total
+ * Tax-inclusive lines are converted by backing the tax out of both the
+ * gross amount and the discount.
+ */
+
+export type TaxCategory = 'STANDARD' | 'ZERO_RATED' | 'EXEMPT' | 'OUT_OF_SCOPE' | 'REVERSE_CHARGE'
+
+export const TAX_CATEGORIES: TaxCategory[] = ['STANDARD', 'ZERO_RATED', 'EXEMPT', 'OUT_OF_SCOPE', 'REVERSE_CHARGE']
+
+export interface InvoiceLineInput {
+  description: string
+  quantity: number
+  unitPriceCents: number
+  discountCents?: number
+  taxInclusive?: boolean
+  taxCodeId?: string | null
+  taxCategory?: TaxCategory
+  taxRatePercent?: number
+  itemCode?: string | null
+}
+
+export interface CalculatedInvoiceLine {
+  description: string
+  quantity: number
+  unitPriceCents: number
+  discountCents: number
+  taxInclusive: boolean
+  taxCodeId: string | null
+  taxCategory: TaxCategory
+  taxRatePercent: number // Charged on the line
+  nominalRatePercent: number // The tax code's rate, which reverse-charge VAT is self-assessed at
+  grossCents: number // Before discount, excluding tax
+  lineDiscountCents: number // Excluding tax
+  netCents: number // Taxable amount
+  taxCents: number
+  totalCents: number
+  itemCode: string | null // Internal product/service code
+}
+
+export interface TaxBreakdownEntry {
+  category: TaxCategory
+  ratePercent: number
+  taxableCents: number
+  taxCents: number
+}
+
+export interface InvoiceTotals {
+  subtotalCents: number
+  discountCents: number
+  taxCents: number
+  totalCents: number
+  taxBreakdown: TaxBreakdownEntry[]
+}
+
+/**
+ * Rate actually charged by the seller. Only standard-rated supplies carry
+ * VAT on the invoice; reverse-charge VAT is accounted for by the buyer.
+ */
+export function getChargedRate(category: TaxCategory, ratePercent: number): number {
+  return category === 'STANDARD' ? ratePercent : 0
+}
+
+function excludeTax(amountCents: number, ratePercent: number): number {
+  return ratePercent > 0 ? Math.round((amountCents * 100) / (100 + ratePercent)) : amountCents
+}
+
+/**
+ * Calculate a single invoice line
+ */
+export function calculateInvoiceLine(input: InvoiceLineInput): CalculatedInvoiceLine {
+  const quantity = Math.max(1, Math.floor(Number(input.quantity) || 1))
+  const unitPriceCents = Math.max(0, Math.round(Number(input.unitPriceCents) || 0))
+  const enteredGross = quantity * unitPriceCents
+  const discountCents = Math.min(enteredGross, Math.max(0, Math.round(Number(input.discountCents) || 0)))
+  const taxInclusive = Boolean(input.taxInclusive)
+  const taxCategory = input.taxCategory ?? (input.taxRatePercent ? 'STANDARD' : 'OUT_OF_SCOPE')
+  const nominalRatePercent = Number(input.taxRatePercent) || 0
+  const taxRatePercent = getChargedRate(taxCategory, nominalRatePercent)
+
+  let grossCents: number
+  let lineDiscountCents: number
+  let netCents: number
+  let taxCents: number
+
+  if (taxInclusive) {
+    const payableCents = enteredGross - discountCents
+    grossCents = excludeTax(enteredGross, taxRatePercent)
+    netCents = excludeTax(payableCents, taxRatePercent)
+    lineDiscountCents = grossCents - netCents
+    taxCents = payableCents - netCents
+  } else {
+    grossCents = enteredGross
+    lineDiscountCents = discountCents
+    netCents = enteredGross - discountCents
+    taxCents = Math.round((netCents * taxRatePercent) / 100)
+  }
+
+  return {
+    description: input.description,
+    quantity,
+    unitPriceCents,
+    discountCents,
+    taxInclusive,
+    taxCodeId: input.taxCodeId ?? null,
+    taxCategory,
+    taxRatePercent,
+    nominalRatePercent,
+    grossCents,
+    lineDiscountCents,
+    netCents,
+    taxCents,
+    totalCents: netCents + taxCents,
+    itemCode: input.itemCode ?? null,
+  }
+}
+
+/**
+ * Roll calculated lines up into invoice totals
+ */
+export function calculateInvoiceTotals(lines: CalculatedInvoiceLine[]): InvoiceTotals {
+  const breakdown = new Map<string, TaxBreakdownEntry>()
+  let subtotalCents = 0
+  let discountCents = 0
+  let taxCents = 0
+
+  for (const line of lines) {
+    subtotalCents += line.grossCents
+    discountCents += line.lineDiscountCents
+    taxCents += line.taxCents
+
+    const key = `${line.taxCategory}:${line.taxRatePercent}`
+    const entry = breakdown.get(key) ?? {
+      category: line.taxCategory,
+      ratePercent: line.taxRatePercent,
+      taxableCents: 0,
+      taxCents: 0,
+    }
+    entry.taxableCents += line.netCents
+    entry.taxCents += line.taxCents
+    breakdown.set(key, entry)
+  }
+
+  return {
+    subtotalCents,
+    discountCents,
+    taxCents,
+    totalCents: subtotalCents - discountCents + taxCents,
+    taxBreakdown: Array.from(breakdown.values()).sort((a, b) => b.ratePercent - a.ratePercent),
+  }
+}
+
+/**
+ * Recalculate a stored invoice item (rates are persisted as Decimal)
+ */
+export function recalculateStoredItem(item: {
+  description: string
+  quantity: number
+  unitPriceCents: number
+  discountCents: number
+  taxInclusive: boolean
+  taxCodeId: string | null
+  taxCategory: string
+  taxRate: DecimalLike
+  itemCode?: string | null
+}): CalculatedInvoiceLine {
+  return calculateInvoiceLine({
+    ...item,
+    taxCategory: item.taxCategory as TaxCategory,
+    taxRatePercent: decimalToNumber(item.taxRate),
+  })
+}
+
+const TAX_CODE_SELECT = {
+  id: true,
+  taxCodeValue: true,
+  taxRate: true,
+  taxCategory: true,
+  status: true,
+  effectiveFrom: true,
+  effectiveTo: true,
+} satisfies Prisma.TaxCodeSelect
+
+type LoadedTaxCode = Prisma.TaxCodeGetPayload<{ select: typeof TAX_CODE_SELECT }>
+
+async function loadTaxCodes(tenantId: string, codeIds: string[]): Promise<Map<string, LoadedTaxCode>> {
+  const codes = codeIds.length
+    ? await prisma.taxCode.findMany({ where: { id: { in: codeIds }, tenantId }, select: TAX_CODE_SELECT })
+    : []
+  return new Map(codes.map((c) => [c.id, c]))
+}
+
+function assertTaxCodeInEffect(code: LoadedTaxCode | undefined, taxCodeId: string, date: Date, label: string): LoadedTaxCode {
+  if (!code) {
+    throw new ApiError('INVALID_TAX_CODE', `${label}: tax code not found`, 400, { taxCodeId })
+  }
+  const inEffect = code.effectiveFrom <= date && (!code.effectiveTo || code.effectiveTo >= date)
+  if (code.status !== 'ACTIVE' || !inEffect) {
+    throw new ApiError('INVALID_TAX_CODE', `${label}: tax code ${code.taxCodeValue} is not in effect`, 400, {
+      taxCodeId: code.id,
+    })
+  }
+  return code
+}
+
+/**
+ * Resolve tax codes referenced by incoming lines and calculate them.
+ * Codes must belong to the tenant and be active on the issue date.
+ */
+export async function resolveInvoiceLines(
+  tenantId: string,
+  lines: InvoiceLineInput[],
+  issueDate: Date = new Date()
+): Promise<CalculatedInvoiceLine[]> {
+  const codeIds = Array.from(new Set(lines.map((l) => l.taxCodeId).filter((id): id is string => Boolean(id))))
+  const codesById = await loadTaxCodes(tenantId, codeIds)
+
+  return lines.map((line, index) => {
+    if (!line.taxCodeId) return calculateInvoiceLine(line)
+
+    const code = assertTaxCodeInEffect(codesById.get(line.taxCodeId), line.taxCodeId, issueDate, `Line ${index + 1}`)
+
+    return calculateInvoiceLine({
+      ...line,
+      taxCategory: code.taxCategory as TaxCategory,
+      taxRatePercent: decimalToNumber(code.taxRate),
+    })
+  })
+}
+
+export interface ExpenseTax {
+  taxCodeId: string | null
+  taxCategory: TaxCategory
+  taxRatePercent: number
+  taxCents: number
+}
+
+/**
+ * VAT contained in a gross expense amount. Only standard-rated purchases
+ * carry supplier VAT; reverse-charge VAT is self-assessed on the return.
+ */
+export function calculateExpenseTax(amountCents: number, category: TaxCategory, ratePercent: number): number {
+  const chargedRate = getChargedRate(category, ratePercent)
+  return amountCents - excludeTax(amountCents, chargedRate)
+}
+
+/**
+ * Snapshot an expense's tax code. Without a code the expense is treated as
+ * outside the scope of VAT.
+ */
+export async function resolveExpenseTax(
+  tenantId: string,
+  amountCents: number,
+  taxCodeId: string | null | undefined,
+  date: Date
+): Promise<ExpenseTax> {
+  if (!taxCodeId) {
+    return { taxCodeId: null, taxCategory: 'OUT_OF_SCOPE', taxRatePercent: 0, taxCents: 0 }
+  }
+
+  const codesById = await loadTaxCodes(tenantId, [taxCodeId])
+  const code = assertTaxCodeInEffect(codesById.get(taxCodeId), taxCodeId, date, 'Expense')
+  const taxCategory = code.taxCategory as TaxCategory
+  const taxRatePercent = decimalToNumber(code.taxRate)
+
+  return {
+    taxCodeId: code.id,
+    taxCategory,
+    taxRatePercent,
+    taxCents: calculateExpenseTax(amountCents, taxCategory, taxRatePercent),
+  }
+}
+
+/**
+ * Shape calculated lines for a nested InvoiceItem create. Reverse-charge
+ * lines keep the code's rate, which the buyer self-assesses at; nothing is
+ * charged on them either way.
+ */
+export function toInvoiceItemData(line: CalculatedInvoiceLine) {
+  return {
+    description: line.description,
+    quantity: line.quantity,
+    unitPriceCents: line.unitPriceCents,
+    discountCents: line.discountCents,
+    taxInclusive: line.taxInclusive,
+    taxCodeId: line.taxCodeId,
+    taxCategory: line.taxCategory,
+    taxRate: line.taxCategory === 'REVERSE_CHARGE' ? line.nominalRatePercent : line.taxRatePercent,
+    netCents: line.netCents,
+    taxCents: line.taxCents,
+    totalCents: line.totalCents,
+    itemCode: line.itemCode,
+  }
+}
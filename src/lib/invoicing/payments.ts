@@ -0,0 +1,255 @@
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { assertPostingPeriodOpen, captureDocumentRate, postPayment, postRealizedFx, postSafely } from '@/lib/accounting/posting'
+import { capturedAmounts } from '@/lib/accounting/fx'
+import { reverseJournalEntry } from '@/lib/accounting/journal'
+import { getOutstandingCents, OPEN_INVOICE_STATUSES, refreshInvoiceBalance } from './balances'
+
+/**
+ * Payments
+ *
+ * A payment is recorded once and allocated across one or more invoices.
+ * Allocations never exceed an invoice's outstanding balance; whatever is
+ * left stays on the payment as unallocated customer credit and can be
+ * allocated later. Payments capture the rate on the day they are received;
+ * settling an invoice booked at another rate books a realized FX difference.
+ */
+
+export interface PaymentAllocationInput {
+  invoiceId: string
+  amountCents: number
+}
+
+export interface RecordPaymentInput {
+  tenantId: string
+  entityId?: string | null
+  clientId?: string | null
+  amountCents: number
+  currency?: string
+  exchangeRate?: number // Functional units per unit of currency; defaults to the stored rate
+  receivedAt?: Date
+  method?: string | null
+  reference?: string | null
+  allocations?: PaymentAllocationInput[]
+  autoAllocate?: boolean
+  createdBy?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export interface AllocationCandidate {
+  id: string
+  outstandingCents: number
+}
+
+export interface AllocationPlan {
+  allocations: PaymentAllocationInput[]
+  unallocatedCents: number
+}
+
+/**
+ * Work out how a payment is spread over invoices. Explicit allocations are
+ * validated; otherwise invoices are settled in the order given.
+ */
+export function planAllocations(
+  amountCents: number,
+  candidates: AllocationCandidate[],
+  requested?: PaymentAllocationInput[]
+): AllocationPlan {
+  const byId = new Map(candidates.map((c) => [c.id, c]))
+  let remaining = amountCents
+  const allocations: PaymentAllocationInput[] = []
+
+  if (requested && requested.length > 0) {
+    for (const item of requested) {
+      const candidate = byId.get(item.invoiceId)
+      if (!candidate) {
+        throw new ApiError('INVALID_ALLOCATION', `Invoice ${item.invoiceId} is not open for payment`, 400)
+      }
+      if (!Number.isInteger(item.amountCents) || item.amountCents <= 0) {
+        throw new ApiError('INVALID_ALLOCATION', 'Allocation amounts must be positive whole cents', 400)
+      }
+      if (item.amountCents > candidate.outstandingCents) {
+        throw new ApiError('INVALID_ALLOCATION', `Allocation exceeds the balance of invoice ${item.invoiceId}`, 400, {
+          invoiceId: item.invoiceId,
+          outstandingCents: candidate.outstandingCents,
+        })
+      }
+      if (item.amountCents > remaining) {
+        throw new ApiError('INVALID_ALLOCATION', 'Allocations exceed the unallocated payment amount', 400)
+      }
+      allocations.push({ invoiceId: item.invoiceId, amountCents: item.amountCents })
+      remaining -= item.amountCents
+    }
+  } else {
+    for (const candidate of candidates) {
+      if (remaining <= 0) break
+      if (candidate.outstandingCents <= 0) continue
+      const amount = Math.min(remaining, candidate.outstandingCents)
+      allocations.push({ invoiceId: candidate.id, amountCents: amount })
+      remaining -= amount
+    }
+  }
+
+  return { allocations, unallocatedCents: remaining }
+}
+
+async function loadCandidates(
+  tenantId: string,
+  currency: string,
+  options: { invoiceIds?: string[]; clientId?: string | null }
+): Promise<AllocationCandidate[]> {
+  if (!options.invoiceIds?.length && !options.clientId) return []
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      tenantId,
+      documentType: { not: 'CREDIT_NOTE' },
+      status: { in: OPEN_INVOICE_STATUSES },
+      ...(options.invoiceIds?.length ? { id: { in: options.invoiceIds } } : { clientId: options.clientId }),
+    },
+    select: { id: true, currency: true, totalCents: true, paidCents: true, creditedCents: true },
+    orderBy: [{ dueDate: { sort: 'asc', nulls: 'last' } }, { issueDate: 'asc' }],
+  })
+
+  const mismatched = invoices.find((i) => i.currency.toUpperCase() !== currency)
+  if (mismatched && options.invoiceIds?.length) {
+    throw new ApiError('CURRENCY_MISMATCH', `Invoice ${mismatched.id} is in ${mismatched.currency}, payment is in ${currency}`, 400)
+  }
+
+  return invoices
+    .filter((i) => i.currency.toUpperCase() === currency)
+    .map((i) => ({ id: i.id, outstandingCents: getOutstandingCents(i) }))
+}
+
+/**
+ * Record a payment and allocate it
+ */
+export async function recordPayment(input: RecordPaymentInput) {
+  if (!Number.isInteger(input.amountCents) || input.amountCents <= 0) {
+    throw new ApiError('INVALID_AMOUNT', 'Payment amount must be a positive whole number of cents', 400)
+  }
+
+  const currency = (input.currency || 'USD').toUpperCase()
+  const receivedAt = input.receivedAt ?? new Date()
+
+  const candidates = await loadCandidates(input.tenantId, currency, {
+    invoiceIds: input.allocations?.map((a) => a.invoiceId),
+    clientId: input.autoAllocate ? input.clientId : null,
+  })
+  const plan = planAllocations(input.amountCents, candidates, input.allocations)
+
+  let entityId = input.entityId ?? null
+  if (!entityId && plan.allocations.length > 0) {
+    const first = await prisma.invoice.findUnique({ where: { id: plan.allocations[0].invoiceId }, select: { entityId: true } })
+    entityId = first?.entityId ?? null
+  }
+
+  await assertPostingPeriodOpen(input.tenantId, entityId, receivedAt, 'payment')
+  const rate = await captureDocumentRate(input.tenantId, entityId, currency, receivedAt, input.exchangeRate)
+
+  const payment = await prisma.$transaction(async (tx) => {
+    const created = await tx.payment.create({
+      data: {
+        tenantId: input.tenantId,
+        entityId,
+        clientId: input.clientId ?? null,
+        amountCents: input.amountCents,
+        currency,
+        receivedAt,
+        method: input.method ?? null,
+        reference: input.reference ?? null,
+        allocatedCents: input.amountCents - plan.unallocatedCents,
+        ...capturedAmounts(rate, { functionalAmountCents: input.amountCents }),
+        metadata: (input.metadata as any) ?? undefined,
+        createdBy: input.createdBy ?? null,
+        allocations: { create: plan.allocations },
+      },
+      include: { allocations: true },
+    })
+
+    for (const allocation of plan.allocations) {
+      await refreshInvoiceBalance(allocation.invoiceId, tx)
+    }
+
+    return created
+  })
+
+  await postSafely('payment', payment.id, () => postPayment(payment.id, input.createdBy))
+
+  return { payment, unallocatedCents: plan.unallocatedCents }
+}
+
+/**
+ * Allocate the unallocated remainder of an existing payment
+ */
+export async function allocatePayment(paymentId: string, tenantId: string, allocations: PaymentAllocationInput[]) {
+  const payment = await prisma.payment.findFirst({ where: { id: paymentId, tenantId } })
+  if (!payment) throw new ApiError('NOT_FOUND', 'Payment not found', 404)
+
+  const candidates = await loadCandidates(tenantId, payment.currency.toUpperCase(), {
+    invoiceIds: allocations.map((a) => a.invoiceId),
+  })
+  const plan = planAllocations(payment.amountCents - payment.allocatedCents, candidates, allocations)
+
+  const allocated: Array<{ id: string; amountCents: number }> = []
+  const updated = await prisma.$transaction(async (tx) => {
+    for (const allocation of plan.allocations) {
+      const row = await tx.paymentAllocation.upsert({
+        where: { paymentId_invoiceId: { paymentId, invoiceId: allocation.invoiceId } },
+        create: { paymentId, invoiceId: allocation.invoiceId, amountCents: allocation.amountCents },
+        update: { amountCents: { increment: allocation.amountCents } },
+      })
+      allocated.push({ id: row.id, amountCents: allocation.amountCents })
+      await refreshInvoiceBalance(allocation.invoiceId, tx)
+    }
+
+    return tx.payment.update({
+      where: { id: paymentId },
+      data: { allocatedCents: payment.amountCents - plan.unallocatedCents },
+      include: { allocations: true },
+    })
+  })
+
+  // Receivables were cleared at the payment's rate when it was received
+  const allocatedAt = new Date()
+  for (const allocation of allocated) {
+    await postSafely('fx_realized', allocation.id, () => postRealizedFx(allocation.id, allocation.amountCents, allocatedAt))
+  }
+
+  return updated
+}
+
+/**
+ * Remove a payment recorded in error: its postings are reversed, its
+ * allocations released and the invoices it settled reopened
+ */
+export async function voidPayment(paymentId: string, tenantId: string, options: { reason?: string; userId?: string | null } = {}) {
+  const payment = await prisma.payment.findFirst({ where: { id: paymentId, tenantId }, include: { allocations: true } })
+  if (!payment) throw new ApiError('NOT_FOUND', 'Payment not found', 404)
+
+  // Realized FX postings are keyed by allocation, the payment posting by the payment itself
+  const allocationIds = payment.allocations.map((a) => a.id)
+  const entries = await prisma.journalEntry.findMany({
+    where: {
+      tenantId,
+      status: 'POSTED',
+      OR: [
+        { sourceType: 'payment', sourceId: payment.id },
+        ...allocationIds.map((id) => ({ sourceType: 'fx_realized', sourceId: { startsWith: `${id}:` } })),
+      ],
+    },
+    select: { id: true },
+  })
+  for (const entry of entries) {
+    await reverseJournalEntry(entry.id, { reason: options.reason ?? `Payment ${payment.reference || payment.id} voided`, userId: options.userId })
+  }
+
+  await prisma.$transaction(async (tx) => {
+    await tx.payment.delete({ where: { id: payment.id } })
+    for (const allocation of payment.allocations) {
+      await refreshInvoiceBalance(allocation.invoiceId, tx)
+    }
+  })
+
+  return { paymentId: payment.id, reversedEntries: entries.length, invoiceIds: payment.allocations.map((a) => a.invoiceId) }
+}
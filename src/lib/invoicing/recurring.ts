@@ -0,0 +1,578 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { sendEmail } from '@/lib/email'
+import { finalizeIdempotencyKey, reserveIdempotencyKey } from '@/lib/idempotency'
+import { assertPostingPeriodOpen, captureDocumentRate, postInvoice, postSafely } from '@/lib/accounting/posting'
+import { capturedAmounts } from '@/lib/accounting/fx'
+import { calculateInvoiceTotals, InvoiceLineInput, resolveInvoiceLines, toInvoiceItemData } from './line-tax'
+
+/**
+ * Recurring Invoices
+ *
+ * A schedule bills a client the same lines every week, month, quarter or
+ * year, in advance, from its start date until an end date or a number of
+ * invoices is reached. With proration on, periods follow calendar
+ * boundaries (Monday, the 1st of the month, quarter or year) and a part
+ * period at either end is billed pro rata. The recurring-invoices cron
+ * materialises due periods; each period is reserved with an idempotency
+ * key and claimed by moving the schedule's next run date in the same
+ * transaction that creates the invoice, so a period is never billed twice.
+ * Every period, generated or skipped, is kept as a run for the history.
+ */
+
+export type RecurringCadence = 'WEEKLY' | 'MONTHLY' | 'QUARTERLY' | 'ANNUALLY'
+export type RecurringInvoiceStatus = 'ACTIVE' | 'PAUSED' | 'COMPLETED' | 'CANCELLED'
+
+export const RECURRING_CADENCES: RecurringCadence[] = ['WEEKLY', 'MONTHLY', 'QUARTERLY', 'ANNUALLY']
+
+/** Most periods the scheduler catches up on for one schedule per run */
+const MAX_CATCH_UP_PERIODS = 24
+
+const DAY_MS = 86400000
+
+const dateInput = z.union([z.string(), z.date()]).pipe(z.coerce.date())
+
+export const RecurringInvoiceLineSchema = z.object({
+  description: z.string().trim().min(1).max(500),
+  quantity: z.number().positive().default(1),
+  unitPriceCents: z.number().int().min(0),
+  discountCents: z.number().int().min(0).optional(),
+  taxInclusive: z.boolean().optional(),
+  taxCodeId: z.string().min(1).nullable().optional(),
+  itemCode: z.string().trim().max(100).nullable().optional(),
+})
+
+export const RecurringInvoiceSchema = z
+  .object({
+    name: z.string().trim().min(1).max(120),
+    clientId: z.string().min(1),
+    entityId: z.string().min(1).nullable().optional(),
+    cadence: z.enum(['WEEKLY', 'MONTHLY', 'QUARTERLY', 'ANNUALLY']),
+    currency: z.string().trim().length(3).transform((v) => v.toUpperCase()).default('USD'),
+    startDate: dateInput,
+    endDate: dateInput.nullable().optional(),
+    maxOccurrences: z.number().int().positive().nullable().optional(),
+    prorate: z.boolean().default(false),
+    paymentTermsDays: z.number().int().min(0).max(365).default(30),
+    autoSend: z.boolean().default(false),
+    lines: z.array(RecurringInvoiceLineSchema).min(1).max(100),
+  })
+  .refine((s) => !s.endDate || s.endDate >= s.startDate, { message: 'endDate cannot be before startDate', path: ['endDate'] })
+
+/** What can change once a schedule has billed */
+export const RecurringInvoiceUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(120).optional(),
+  endDate: dateInput.nullable().optional(),
+  maxOccurrences: z.number().int().positive().nullable().optional(),
+  paymentTermsDays: z.number().int().min(0).max(365).optional(),
+  autoSend: z.boolean().optional(),
+  lines: z.array(RecurringInvoiceLineSchema).min(1).max(100).optional(),
+})
+
+export type RecurringInvoiceInput = z.infer<typeof RecurringInvoiceSchema>
+export type RecurringInvoiceUpdate = z.infer<typeof RecurringInvoiceUpdateSchema>
+
+/** The parts of a schedule its periods depend on */
+export interface ScheduleTiming {
+  cadence: string
+  startDate: Date
+  endDate: Date | null
+  prorate: boolean
+  maxOccurrences: number | null
+}
+
+export interface BillingPeriod {
+  start: Date
+  end: Date // Last day billed
+  nextStart: Date
+  prorationFactor: number | null // Share of a full period, when less than all of it is billed
+}
+
+const utcDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+const isoDay = (date: Date) => date.toISOString().slice(0, 10)
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS)
+const daysBetween = (from: Date, to: Date) => Math.round((to.getTime() - from.getTime()) / DAY_MS)
+
+const MONTHS_PER_PERIOD: Record<string, number> = { MONTHLY: 1, QUARTERLY: 3, ANNUALLY: 12 }
+
+/**
+ * Move a date on by whole periods. Monthly steps keep the anchor day where
+ * the month has it and use the month's last day where it does not, so a
+ * schedule started on the 31st bills on the 28th in February and the 31st
+ * again in March.
+ */
+export function addPeriods(date: Date, cadence: string, count: number, anchorDay: number = date.getUTCDate()): Date {
+  if (cadence === 'WEEKLY') return addDays(utcDay(date), 7 * count)
+  const months = MONTHS_PER_PERIOD[cadence]
+  if (!months) throw new ApiError('INVALID_CADENCE', `Unknown cadence ${cadence}`, 400)
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months * count, 1))
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate()
+  return new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth(), Math.min(anchorDay, lastDay)))
+}
+
+/**
+ * Start of the calendar period a date falls in
+ */
+export function calendarPeriodStart(date: Date, cadence: string): Date {
+  const day = utcDay(date)
+  if (cadence === 'WEEKLY') return addDays(day, -((day.getUTCDay() + 6) % 7))
+  const months = MONTHS_PER_PERIOD[cadence] ?? 1
+  const month = Math.floor(day.getUTCMonth() / months) * months
+  return new Date(Date.UTC(day.getUTCFullYear(), month, 1))
+}
+
+/**
+ * The period a schedule bills from a given start
+ */
+export function billingPeriodFor(schedule: ScheduleTiming, start: Date): BillingPeriod {
+  const from = utcDay(start)
+  if (!schedule.prorate) {
+    const nextStart = addPeriods(from, schedule.cadence, 1, utcDay(schedule.startDate).getUTCDate())
+    return { start: from, end: addDays(nextStart, -1), nextStart, prorationFactor: null }
+  }
+
+  const fullStart = calendarPeriodStart(from, schedule.cadence)
+  const nextStart = addPeriods(fullStart, schedule.cadence, 1)
+  const endDate = schedule.endDate ? utcDay(schedule.endDate) : null
+  const end = endDate && endDate < addDays(nextStart, -1) ? endDate : addDays(nextStart, -1)
+  const billedDays = daysBetween(from, end) + 1
+  const fullDays = daysBetween(fullStart, nextStart)
+
+  return {
+    start: from,
+    end,
+    nextStart,
+    prorationFactor: billedDays < fullDays ? Math.round((billedDays / fullDays) * 1e6) / 1e6 : null,
+  }
+}
+
+/**
+ * Whether a schedule has nothing left to bill from a period start
+ */
+export function isScheduleFinished(schedule: ScheduleTiming, nextStart: Date, occurrenceCount: number): boolean {
+  if (schedule.maxOccurrences && occurrenceCount >= schedule.maxOccurrences) return true
+  return Boolean(schedule.endDate && utcDay(nextStart) > utcDay(schedule.endDate))
+}
+
+/**
+ * The next periods a schedule will bill
+ */
+export function previewPeriods(schedule: ScheduleTiming, from: Date, occurrenceCount = 0, count = 3): BillingPeriod[] {
+  const periods: BillingPeriod[] = []
+  let start = utcDay(from)
+  let occurrences = occurrenceCount
+  while (periods.length < count && !isScheduleFinished(schedule, start, occurrences)) {
+    const period = billingPeriodFor(schedule, start)
+    periods.push(period)
+    start = period.nextStart
+    occurrences++
+  }
+  return periods
+}
+
+/**
+ * A full period's lines for one period: labelled with the dates billed and
+ * scaled when only part of the period is
+ */
+export function linesForPeriod(lines: InvoiceLineInput[], period: BillingPeriod): InvoiceLineInput[] {
+  const factor = period.prorationFactor ?? 1
+  const label = `${isoDay(period.start)} to ${isoDay(period.end)}`
+  return lines.map((line) => ({
+    ...line,
+    description: `${line.description} (${label}${period.prorationFactor ? ', prorated' : ''})`,
+    unitPriceCents: Math.round(line.unitPriceCents * factor),
+    discountCents: line.discountCents ? Math.round(line.discountCents * factor) : line.discountCents,
+  }))
+}
+
+function toLineInput(line: z.infer<typeof RecurringInvoiceLineSchema>): InvoiceLineInput {
+  return {
+    description: line.description,
+    quantity: line.quantity,
+    unitPriceCents: line.unitPriceCents,
+    discountCents: line.discountCents,
+    taxInclusive: line.taxInclusive,
+    taxCodeId: line.taxCodeId,
+    itemCode: line.itemCode,
+  }
+}
+
+/**
+ * A schedule's stored lines for a full period
+ */
+export function scheduleLines(value: unknown): InvoiceLineInput[] {
+  const parsed = z.array(RecurringInvoiceLineSchema).safeParse(value)
+  return parsed.success ? parsed.data.map(toLineInput) : []
+}
+
+type ScheduleRecord = NonNullable<Awaited<ReturnType<typeof prisma.recurringInvoice.findFirst>>>
+
+/**
+ * Where a schedule stands once a period is behind it
+ */
+function afterPeriod(schedule: ScheduleRecord, period: BillingPeriod, generated: boolean) {
+  const occurrenceCount = schedule.occurrenceCount + (generated ? 1 : 0)
+  const finished = isScheduleFinished(schedule, period.nextStart, occurrenceCount)
+  return {
+    occurrenceCount,
+    nextRunDate: finished ? null : period.nextStart,
+    status: finished ? 'COMPLETED' : schedule.status,
+  }
+}
+
+async function loadSchedule(tenantId: string, id: string) {
+  const schedule = await prisma.recurringInvoice.findFirst({ where: { id, tenantId } })
+  if (!schedule) throw new ApiError('NOT_FOUND', 'Recurring invoice not found', 404)
+  return schedule
+}
+
+/**
+ * Create a schedule; its first period is billed on the start date
+ */
+export async function createRecurringInvoice(tenantId: string, input: RecurringInvoiceInput, userId?: string | null) {
+  const client = await prisma.user.findFirst({ where: { id: input.clientId, tenantId }, select: { id: true } })
+  if (!client) throw new ApiError('CLIENT_NOT_FOUND', 'Client not found', 404)
+  if (input.entityId) {
+    const entity = await prisma.entity.findFirst({ where: { id: input.entityId, tenantId }, select: { id: true } })
+    if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+  }
+  // Tax codes are checked now rather than when the first period is due
+  await resolveInvoiceLines(tenantId, input.lines.map(toLineInput), input.startDate)
+
+  return prisma.recurringInvoice.create({
+    data: {
+      tenantId,
+      clientId: input.clientId,
+      entityId: input.entityId || null,
+      name: input.name,
+      cadence: input.cadence,
+      currency: input.currency,
+      lines: input.lines as any,
+      startDate: utcDay(input.startDate),
+      endDate: input.endDate ? utcDay(input.endDate) : null,
+      maxOccurrences: input.maxOccurrences ?? null,
+      nextRunDate: utcDay(input.startDate),
+      prorate: input.prorate,
+      paymentTermsDays: input.paymentTermsDays,
+      autoSend: input.autoSend,
+      createdBy: userId ?? null,
+    },
+  })
+}
+
+/**
+ * Change a schedule's name, lines, terms or end. Changes apply from the
+ * next period; invoices already generated are left as they are.
+ */
+export async function updateRecurringInvoice(tenantId: string, id: string, input: RecurringInvoiceUpdate) {
+  const schedule = await loadSchedule(tenantId, id)
+  if (schedule.status === 'COMPLETED' || schedule.status === 'CANCELLED') {
+    throw new ApiError('INVALID_STATE', `A ${schedule.status.toLowerCase()} schedule cannot be changed`, 409)
+  }
+  if (input.endDate && utcDay(input.endDate) < schedule.startDate) {
+    throw new ApiError('INVALID_END_DATE', 'endDate cannot be before the start date', 400)
+  }
+  if (input.lines) await resolveInvoiceLines(tenantId, input.lines.map(toLineInput), schedule.nextRunDate ?? new Date())
+
+  const endDate = input.endDate === undefined ? schedule.endDate : input.endDate ? utcDay(input.endDate) : null
+  const maxOccurrences = input.maxOccurrences === undefined ? schedule.maxOccurrences : input.maxOccurrences
+  const finished = !schedule.nextRunDate || isScheduleFinished({ ...schedule, endDate, maxOccurrences }, schedule.nextRunDate, schedule.occurrenceCount)
+
+  return prisma.recurringInvoice.update({
+    where: { id },
+    data: {
+      name: input.name,
+      lines: input.lines ? (input.lines as any) : undefined,
+      endDate,
+      maxOccurrences,
+      paymentTermsDays: input.paymentTermsDays,
+      autoSend: input.autoSend,
+      ...(finished ? { status: 'COMPLETED', nextRunDate: null } : {}),
+    },
+  })
+}
+
+/**
+ * A schedule with its upcoming periods and the history of every period
+ * generated or skipped
+ */
+export async function getRecurringInvoice(tenantId: string, id: string) {
+  const schedule = await prisma.recurringInvoice.findFirst({
+    where: { id, tenantId },
+    include: {
+      client: { select: { id: true, name: true, email: true } },
+      runs: {
+        orderBy: { periodStart: 'desc' },
+        include: { invoice: { select: { id: true, number: true, status: true, totalCents: true, currency: true } } },
+      },
+    },
+  })
+  if (!schedule) throw new ApiError('NOT_FOUND', 'Recurring invoice not found', 404)
+  const upcoming = schedule.nextRunDate && schedule.status === 'ACTIVE'
+    ? previewPeriods(schedule, schedule.nextRunDate, schedule.occurrenceCount)
+    : []
+  return { ...schedule, upcoming }
+}
+
+export async function listRecurringInvoices(
+  tenantId: string,
+  options: { status?: string; clientId?: string; limit: number; offset: number }
+) {
+  const where = {
+    tenantId,
+    ...(options.status ? { status: options.status } : {}),
+    ...(options.clientId ? { clientId: options.clientId } : {}),
+  }
+  const [schedules, total] = await Promise.all([
+    prisma.recurringInvoice.findMany({
+      where,
+      include: { client: { select: { id: true, name: true, email: true } }, _count: { select: { runs: true } } },
+      orderBy: [{ status: 'asc' }, { nextRunDate: 'asc' }],
+      take: options.limit,
+      skip: options.offset,
+    }),
+    prisma.recurringInvoice.count({ where }),
+  ])
+  return { schedules, total }
+}
+
+/**
+ * Stop billing until the schedule is resumed
+ */
+export async function pauseRecurringInvoice(tenantId: string, id: string) {
+  const schedule = await loadSchedule(tenantId, id)
+  if (schedule.status !== 'ACTIVE') throw new ApiError('INVALID_STATE', 'Only active schedules can be paused', 409)
+  return prisma.recurringInvoice.update({ where: { id }, data: { status: 'PAUSED' } })
+}
+
+/**
+ * Resume a paused schedule. Periods that started while it was paused are
+ * recorded as skipped rather than billed late.
+ */
+export async function resumeRecurringInvoice(tenantId: string, id: string, userId: string, asOf: Date = new Date()) {
+  let schedule = await loadSchedule(tenantId, id)
+  if (schedule.status !== 'PAUSED') throw new ApiError('INVALID_STATE', 'Only paused schedules can be resumed', 409)
+  schedule = await prisma.recurringInvoice.update({ where: { id }, data: { status: 'ACTIVE' } })
+
+  const today = utcDay(asOf)
+  while (schedule.status === 'ACTIVE' && schedule.nextRunDate && schedule.nextRunDate < today) {
+    schedule = await skipPeriod(schedule, userId)
+  }
+  return schedule
+}
+
+async function skipPeriod(schedule: ScheduleRecord, userId: string | null) {
+  const period = billingPeriodFor(schedule, schedule.nextRunDate as Date)
+  const next = afterPeriod(schedule, period, false)
+  const [, updated] = await prisma.$transaction([
+    prisma.recurringInvoiceRun.upsert({
+      where: { recurringInvoiceId_periodStart: { recurringInvoiceId: schedule.id, periodStart: period.start } },
+      create: {
+        recurringInvoiceId: schedule.id,
+        tenantId: schedule.tenantId,
+        periodStart: period.start,
+        periodEnd: period.end,
+        status: 'SKIPPED',
+        createdBy: userId,
+      },
+      update: { status: 'SKIPPED', error: null, createdBy: userId },
+    }),
+    prisma.recurringInvoice.update({ where: { id: schedule.id }, data: next }),
+  ])
+  return updated
+}
+
+/**
+ * Skip the next period: it is recorded in the history and not billed
+ */
+export async function skipNextCycle(tenantId: string, id: string, userId: string) {
+  const schedule = await loadSchedule(tenantId, id)
+  if ((schedule.status !== 'ACTIVE' && schedule.status !== 'PAUSED') || !schedule.nextRunDate) {
+    throw new ApiError('INVALID_STATE', 'The schedule has no period left to skip', 409)
+  }
+  return skipPeriod(schedule, userId)
+}
+
+/**
+ * End a schedule; invoices already generated are kept
+ */
+export async function cancelRecurringInvoice(tenantId: string, id: string) {
+  const schedule = await loadSchedule(tenantId, id)
+  if (schedule.status === 'COMPLETED' || schedule.status === 'CANCELLED') {
+    throw new ApiError('INVALID_STATE', `The schedule is already ${schedule.status.toLowerCase()}`, 409)
+  }
+  return prisma.recurringInvoice.update({ where: { id }, data: { status: 'CANCELLED', nextRunDate: null } })
+}
+
+function periodKey(scheduleId: string, period: BillingPeriod): string {
+  return `recurring-invoice:${scheduleId}:${isoDay(period.start)}`
+}
+
+async function sendGeneratedInvoice(
+  invoice: { id: string; number: string | null; totalCents: number; currency: string; dueDate: Date | null },
+  client: { email: string; name: string | null },
+  scheduleName: string,
+  period: BillingPeriod
+) {
+  const amount = `${(invoice.totalCents / 100).toFixed(2)} ${invoice.currency}`
+  await sendEmail({
+    to: client.email,
+    subject: `Invoice ${invoice.number || invoice.id} for ${scheduleName}`,
+    html: `<p>Hello ${client.name || ''},</p>
+<p>Your invoice for ${scheduleName}, covering ${isoDay(period.start)} to ${isoDay(period.end)}, is ready.</p>
+<p>Amount due: <strong>${amount}</strong>${invoice.dueDate ? ` by ${isoDay(invoice.dueDate)}` : ''}.</p>`,
+  })
+}
+
+export interface RecurringRunResult {
+  generated: number
+  skipped: number
+  failed: number
+  sent: number
+}
+
+/**
+ * Bill one period of a schedule. Returns false when another run already
+ * took the period.
+ */
+async function generatePeriod(schedule: ScheduleRecord, period: BillingPeriod, result: RecurringRunResult): Promise<boolean> {
+  const key = periodKey(schedule.id, period)
+  const reservation = await reserveIdempotencyKey(key, null, schedule.tenantId)
+  if (reservation.status === 'COMPLETED') return false
+
+  const issueDate = period.start
+  await assertPostingPeriodOpen(schedule.tenantId, schedule.entityId, issueDate, 'invoice')
+  const lines = await resolveInvoiceLines(schedule.tenantId, linesForPeriod(scheduleLines(schedule.lines), period), issueDate)
+  const totals = calculateInvoiceTotals(lines)
+  const rate = await captureDocumentRate(schedule.tenantId, schedule.entityId, schedule.currency, issueDate)
+  const next = afterPeriod(schedule, period, true)
+
+  const invoice = await prisma.$transaction(async (tx) => {
+    // Moving the next run date claims the period; a concurrent run finds it gone
+    const claimed = await tx.recurringInvoice.updateMany({
+      where: { id: schedule.id, status: 'ACTIVE', nextRunDate: period.start },
+      data: { ...next, lastRunAt: new Date() },
+    })
+    if (!claimed.count) return null
+
+    const created = await tx.invoice.create({
+      data: {
+        tenantId: schedule.tenantId,
+        clientId: schedule.clientId,
+        entityId: schedule.entityId,
+        currency: schedule.currency,
+        subtotalCents: totals.subtotalCents,
+        discountCents: totals.discountCents,
+        taxCents: totals.taxCents,
+        totalCents: totals.totalCents,
+        taxBreakdown: totals.taxBreakdown as any,
+        ...capturedAmounts(rate, { functionalTotalCents: totals.totalCents, functionalTaxCents: totals.taxCents }),
+        issueDate,
+        dueDate: addDays(issueDate, schedule.paymentTermsDays),
+        status: 'UNPAID',
+        items: lines.length ? { create: lines.map(toInvoiceItemData) } : undefined,
+      },
+    })
+    await tx.recurringInvoiceRun.upsert({
+      where: { recurringInvoiceId_periodStart: { recurringInvoiceId: schedule.id, periodStart: period.start } },
+      create: {
+        recurringInvoiceId: schedule.id,
+        tenantId: schedule.tenantId,
+        periodStart: period.start,
+        periodEnd: period.end,
+        status: 'GENERATED',
+        invoiceId: created.id,
+        prorationFactor: period.prorationFactor,
+      },
+      update: { status: 'GENERATED', invoiceId: created.id, prorationFactor: period.prorationFactor, error: null },
+    })
+    return created
+  })
+  if (!invoice) return false
+
+  await finalizeIdempotencyKey(key, 'invoice', invoice.id, schedule.tenantId)
+  await postSafely('invoice', invoice.id, () => postInvoice(invoice.id, null))
+  result.generated++
+
+  if (schedule.autoSend) {
+    const client = await prisma.user.findUnique({ where: { id: schedule.clientId }, select: { email: true, name: true } })
+    try {
+      if (!client?.email) throw new Error('The client has no email address')
+      await sendGeneratedInvoice(invoice, client, schedule.name, period)
+      const sentAt = new Date()
+      await prisma.invoice.update({ where: { id: invoice.id }, data: { status: 'SENT' } })
+      await prisma.recurringInvoiceRun.updateMany({ where: { invoiceId: invoice.id }, data: { sentAt } })
+      result.sent++
+    } catch (error) {
+      logger.warn('Recurring invoice could not be sent', { scheduleId: schedule.id, invoiceId: invoice.id, error: String(error) })
+      await prisma.recurringInvoiceRun.updateMany({ where: { invoiceId: invoice.id }, data: { error: `Not sent: ${String(error)}` } })
+    }
+  }
+  return true
+}
+
+/**
+ * Bill every period of a schedule that has started by asOf. A period that
+ * fails is recorded and retried on the next run; later periods wait for it.
+ */
+export async function generateDueInvoices(scheduleId: string, asOf: Date = new Date()): Promise<RecurringRunResult> {
+  const result: RecurringRunResult = { generated: 0, skipped: 0, failed: 0, sent: 0 }
+  const today = utcDay(asOf)
+
+  for (let i = 0; i < MAX_CATCH_UP_PERIODS; i++) {
+    const schedule = await prisma.recurringInvoice.findUnique({ where: { id: scheduleId } })
+    if (!schedule || schedule.status !== 'ACTIVE' || !schedule.nextRunDate || schedule.nextRunDate > today) break
+
+    const period = billingPeriodFor(schedule, schedule.nextRunDate)
+    try {
+      const generated = await generatePeriod(schedule, period, result)
+      if (!generated) {
+        result.skipped++
+        break
+      }
+    } catch (error) {
+      result.failed++
+      const message = error instanceof Error ? error.message : String(error)
+      logger.warn('Recurring invoice period failed', { scheduleId, periodStart: isoDay(period.start), error: message })
+      await prisma.recurringInvoiceRun.upsert({
+        where: { recurringInvoiceId_periodStart: { recurringInvoiceId: scheduleId, periodStart: period.start } },
+        create: {
+          recurringInvoiceId: scheduleId,
+          tenantId: schedule.tenantId,
+          periodStart: period.start,
+          periodEnd: period.end,
+          status: 'FAILED',
+          error: message,
+        },
+        update: { status: 'FAILED', error: message },
+      })
+      break
+    }
+  }
+  return result
+}
+
+/**
+ * Bill all due periods across tenants. Run by the recurring-invoices cron.
+ */
+export async function runDueRecurringInvoices(asOf: Date = new Date()) {
+  const due = await prisma.recurringInvoice.findMany({
+    where: { status: 'ACTIVE', nextRunDate: { lte: utcDay(asOf) } },
+    select: { id: true },
+    orderBy: { nextRunDate: 'asc' },
+  })
+
+  const totals: RecurringRunResult & { schedules: number } = { schedules: due.length, generated: 0, skipped: 0, failed: 0, sent: 0 }
+  for (const { id } of due) {
+    const result = await generateDueInvoices(id, asOf)
+    totals.generated += result.generated
+    totals.skipped += result.skipped
+    totals.failed += result.failed
+    totals.sent += result.sent
+  }
+
+  logger.info('Recurring invoices generated', { ...totals })
+  return totals
+}
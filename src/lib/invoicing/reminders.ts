@@ -0,0 +1,425 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { sendEmail } from '@/lib/email'
+import bookingSettingsService from '@/services/booking-settings.service'
+import { getAgingBucketName } from '@/lib/payments/dunning'
+import { getOutstandingCents, OPEN_INVOICE_STATUSES } from './balances'
+
+/**
+ * Payment Reminders
+ *
+ * A tenant's reminder sequence is a list of steps keyed by days relative to
+ * the due date: negative before it, positive after. The payment-reminders
+ * cron sends each open invoice the latest step it has reached that was not
+ * yet sent, so a missed run catches up with one reminder rather than a
+ * burst. Emails use the tenant's notification templates in the client's
+ * language (English or Arabic), falling back to the built-in wording, and
+ * every send is logged against the invoice. Clients can opt out.
+ */
+
+export const REMINDER_TEMPLATE_TYPES = ['INVOICE_DUE_SOON', 'INVOICE_OVERDUE', 'INVOICE_FINAL_NOTICE'] as const
+export type ReminderTemplateType = (typeof REMINDER_TEMPLATE_TYPES)[number]
+
+export const REMINDER_LOCALES = ['en', 'ar'] as const
+export type ReminderLocale = (typeof REMINDER_LOCALES)[number]
+
+export const REMINDER_VARIABLES = ['clientName', 'companyName', 'invoiceNumber', 'amountDue', 'dueDate', 'daysOverdue']
+
+export interface ReminderStep {
+  name: string
+  offsetDays: number
+  templateType: ReminderTemplateType
+  enabled: boolean
+}
+
+export interface ReminderTemplate {
+  templateType: ReminderTemplateType
+  locale: ReminderLocale
+  subject: string
+  content: string
+  enabled: boolean
+}
+
+export const DEFAULT_REMINDER_STEPS: ReminderStep[] = [
+  { name: 'Due in 3 days', offsetDays: -3, templateType: 'INVOICE_DUE_SOON', enabled: true },
+  { name: '7 days overdue', offsetDays: 7, templateType: 'INVOICE_OVERDUE', enabled: true },
+  { name: '30 days overdue', offsetDays: 30, templateType: 'INVOICE_OVERDUE', enabled: true },
+  { name: '60 days overdue', offsetDays: 60, templateType: 'INVOICE_FINAL_NOTICE', enabled: true },
+]
+
+export const DEFAULT_REMINDER_TEMPLATES: ReminderTemplate[] = [
+  {
+    templateType: 'INVOICE_DUE_SOON',
+    locale: 'en',
+    subject: 'Reminder: invoice {{invoiceNumber}} is due on {{dueDate}}',
+    content:
+      'Dear {{clientName}},\n\nThis is a friendly reminder that invoice {{invoiceNumber}} for {{amountDue}} is due on {{dueDate}}.\n\nThank you for your business,\n{{companyName}}',
+    enabled: true,
+  },
+  {
+    templateType: 'INVOICE_DUE_SOON',
+    locale: 'ar',
+    subject: 'تذكير: الفاتورة {{invoiceNumber}} مستحقة بتاريخ {{dueDate}}',
+    content:
+      'عزيزنا {{clientName}}،\n\nنود تذكيركم بأن الفاتورة رقم {{invoiceNumber}} بمبلغ {{amountDue}} مستحقة السداد بتاريخ {{dueDate}}.\n\nشكراً لتعاملكم معنا،\n{{companyName}}',
+    enabled: true,
+  },
+  {
+    templateType: 'INVOICE_OVERDUE',
+    locale: 'en',
+    subject: 'Invoice {{invoiceNumber}} is overdue',
+    content:
+      'Dear {{clientName}},\n\nInvoice {{invoiceNumber}} for {{amountDue}} was due on {{dueDate}} and is now {{daysOverdue}} days overdue. Please arrange payment at your earliest convenience.\n\nIf you have already paid, please disregard this message.\n\n{{companyName}}',
+    enabled: true,
+  },
+  {
+    templateType: 'INVOICE_OVERDUE',
+    locale: 'ar',
+    subject: 'الفاتورة {{invoiceNumber}} متأخرة السداد',
+    content:
+      'عزيزنا {{clientName}}،\n\nكان موعد استحقاق الفاتورة رقم {{invoiceNumber}} بمبلغ {{amountDue}} بتاريخ {{dueDate}}، وقد تأخر سدادها {{daysOverdue}} يوماً. نرجو التكرم بسداد المبلغ في أقرب وقت ممكن.\n\nإذا كنتم قد سددتم المبلغ بالفعل، فيرجى تجاهل هذه الرسالة.\n\n{{companyName}}',
+    enabled: true,
+  },
+  {
+    templateType: 'INVOICE_FINAL_NOTICE',
+    locale: 'en',
+    subject: 'Final notice: invoice {{invoiceNumber}}',
+    content:
+      'Dear {{clientName}},\n\nDespite our earlier reminders, invoice {{invoiceNumber}} for {{amountDue}} remains unpaid {{daysOverdue}} days after its due date of {{dueDate}}. Please settle it within seven days or contact us to agree a payment arrangement.\n\n{{companyName}}',
+    enabled: true,
+  },
+  {
+    templateType: 'INVOICE_FINAL_NOTICE',
+    locale: 'ar',
+    subject: 'إشعار نهائي: الفاتورة {{invoiceNumber}}',
+    content:
+      'عزيزنا {{clientName}}،\n\nرغم تذكيراتنا السابقة، لا تزال الفاتورة رقم {{invoiceNumber}} بمبلغ {{amountDue}} غير مسددة بعد {{daysOverdue}} يوماً من تاريخ استحقاقها {{dueDate}}. نرجو سدادها خلال سبعة أيام أو التواصل معنا للاتفاق على ترتيب للسداد.\n\n{{companyName}}',
+    enabled: true,
+  },
+]
+
+export const ReminderStepSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  offsetDays: z.number().int().min(-90).max(365),
+  templateType: z.enum(REMINDER_TEMPLATE_TYPES),
+  enabled: z.boolean().default(true),
+})
+
+export const ReminderTemplateSchema = z.object({
+  templateType: z.enum(REMINDER_TEMPLATE_TYPES),
+  locale: z.enum(REMINDER_LOCALES),
+  subject: z.string().trim().min(1).max(200),
+  content: z.string().trim().min(1).max(5000),
+  enabled: z.boolean().default(true),
+})
+
+export const ReminderSettingsSchema = z.object({
+  steps: z
+    .array(ReminderStepSchema)
+    .max(12)
+    .refine((steps) => new Set(steps.map((s) => s.offsetDays)).size === steps.length, 'Each step needs a different day')
+    .optional(),
+  templates: z.array(ReminderTemplateSchema).optional(),
+})
+
+export interface ReminderSettings {
+  steps: ReminderStep[]
+  templates: ReminderTemplate[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+const utcDay = (date: Date) => Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10)
+
+/**
+ * Calendar days from the due date to `asOf`: negative while not yet due
+ */
+export function daysFromDue(dueDate: Date, asOf: Date): number {
+  return Math.round((utcDay(asOf) - utcDay(dueDate)) / DAY_MS)
+}
+
+/**
+ * Step to send now: the latest enabled step reached, unless it was already
+ * sent. Earlier steps that were missed are not sent late.
+ */
+export function reminderStepDue(steps: ReminderStep[], days: number, sentOffsets: Set<number>): ReminderStep | null {
+  const reached = steps
+    .filter((step) => step.enabled && step.offsetDays <= days)
+    .sort((a, b) => b.offsetDays - a.offsetDays)[0]
+  if (!reached || sentOffsets.has(reached.offsetDays)) return null
+  return reached
+}
+
+/**
+ * Reminder language for a client's preferred language
+ */
+export function reminderLocale(preferredLanguage?: string | null): ReminderLocale {
+  return preferredLanguage?.toLowerCase().startsWith('ar') ? 'ar' : 'en'
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function interpolate(text: string, variables: Record<string, string>, escape: (value: string) => string): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? escape(variables[name]) : match
+  )
+}
+
+/**
+ * Fill a template's placeholders. The HTML body is built from the escaped
+ * content, one paragraph per blank-line-separated block, right-to-left for
+ * Arabic.
+ */
+export function renderReminder(
+  template: Pick<ReminderTemplate, 'subject' | 'content' | 'locale'>,
+  variables: Record<string, string>
+): { subject: string; html: string } {
+  const subject = interpolate(template.subject, variables, (value) => value)
+  const paragraphs = escapeHtml(template.content)
+    .split(/\n\s*\n/)
+    .map((block) => `<p>${interpolate(block, variables, escapeHtml).replace(/\n/g, '<br>')}</p>`)
+    .join('\n')
+  const dir = template.locale === 'ar' ? 'rtl' : 'ltr'
+  return { subject, html: `<div dir="${dir}" lang="${template.locale}">\n${paragraphs}\n</div>` }
+}
+
+/**
+ * The tenant's steps and templates, with the built-in defaults filling in
+ * whatever the tenant has not customised
+ */
+export async function getReminderSettings(tenantId: string): Promise<ReminderSettings> {
+  const [steps, settings] = await Promise.all([
+    prisma.paymentReminderStep.findMany({ where: { tenantId }, orderBy: { offsetDays: 'asc' } }),
+    prisma.bookingSettings.findUnique({
+      where: { tenantId },
+      select: {
+        notificationTemplates: {
+          where: { channel: 'EMAIL', templateType: { in: [...REMINDER_TEMPLATE_TYPES] } },
+        },
+      },
+    }),
+  ])
+
+  const custom = settings?.notificationTemplates ?? []
+  const templates = DEFAULT_REMINDER_TEMPLATES.map((fallback) => {
+    const own = custom.find((t) => t.templateType === fallback.templateType && t.locale === fallback.locale)
+    if (!own) return fallback
+    return { ...fallback, subject: own.subject ?? fallback.subject, content: own.content, enabled: own.enabled }
+  })
+
+  return {
+    steps: steps.length
+      ? steps.map((step) => ({
+          name: step.name,
+          offsetDays: step.offsetDays,
+          templateType: step.templateType as ReminderTemplateType,
+          enabled: step.enabled,
+        }))
+      : DEFAULT_REMINDER_STEPS,
+    templates,
+  }
+}
+
+/**
+ * Replace the tenant's steps and/or templates
+ */
+export async function saveReminderSettings(
+  tenantId: string,
+  input: { steps?: ReminderStep[]; templates?: ReminderTemplate[] }
+): Promise<ReminderSettings> {
+  if (input.steps) {
+    const steps = input.steps
+    await prisma.$transaction(async (tx) => {
+      await tx.paymentReminderStep.deleteMany({ where: { tenantId } })
+      await tx.paymentReminderStep.createMany({
+        data: steps.map((step) => ({
+          tenantId,
+          name: step.name,
+          offsetDays: step.offsetDays,
+          templateType: step.templateType,
+          enabled: step.enabled,
+        })),
+      })
+    })
+  }
+
+  if (input.templates) {
+    let settings = await prisma.bookingSettings.findUnique({ where: { tenantId }, select: { id: true } })
+    if (!settings) settings = { id: (await bookingSettingsService.createDefaultSettings(tenantId)).id }
+    await bookingSettingsService.replaceNotificationTemplates(
+      settings.id,
+      'EMAIL',
+      [...REMINDER_TEMPLATE_TYPES],
+      input.templates.map((template) => ({ ...template, variables: REMINDER_VARIABLES }))
+    )
+  }
+
+  return getReminderSettings(tenantId)
+}
+
+/**
+ * Turn payment reminders off (or back on) for a client
+ */
+export async function setReminderOptOut(
+  tenantId: string,
+  clientId: string,
+  optOut: boolean,
+  options: { reason?: string | null; userId?: string | null } = {}
+) {
+  if (!optOut) {
+    await prisma.paymentReminderOptOut.deleteMany({ where: { tenantId, clientId } })
+    return { clientId, optedOut: false }
+  }
+
+  await prisma.paymentReminderOptOut.upsert({
+    where: { tenantId_clientId: { tenantId, clientId } },
+    update: { reason: options.reason ?? null },
+    create: { tenantId, clientId, reason: options.reason ?? null, createdBy: options.userId ?? null },
+  })
+  return { clientId, optedOut: true }
+}
+
+export async function isOptedOut(tenantId: string, clientId: string): Promise<boolean> {
+  const row = await prisma.paymentReminderOptOut.findUnique({
+    where: { tenantId_clientId: { tenantId, clientId } },
+    select: { id: true },
+  })
+  return Boolean(row)
+}
+
+export async function listInvoiceReminders(tenantId: string, invoiceId: string) {
+  return prisma.paymentReminderLog.findMany({
+    where: { tenantId, invoiceId },
+    orderBy: { sentAt: 'desc' },
+  })
+}
+
+export interface ReminderRunResult {
+  checked: number
+  sent: number
+  failed: number
+  optedOut: number
+}
+
+function formatAmount(cents: number, currency: string): string {
+  return `${(cents / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${currency}`
+}
+
+/**
+ * Send the reminders due across tenants. Run by the payment-reminders cron.
+ */
+export async function processPaymentReminders(asOf: Date = new Date()): Promise<ReminderRunResult> {
+  const result: ReminderRunResult = { checked: 0, sent: 0, failed: 0, optedOut: 0 }
+
+  // Nothing is sent more than 90 days ahead of the due date (the schema's limit)
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      documentType: { not: 'CREDIT_NOTE' },
+      status: { in: OPEN_INVOICE_STATUSES },
+      clientId: { not: null },
+      dueDate: { not: null, lte: new Date(asOf.getTime() + 90 * DAY_MS) },
+    },
+    select: {
+      id: true,
+      tenantId: true,
+      number: true,
+      currency: true,
+      dueDate: true,
+      totalCents: true,
+      paidCents: true,
+      creditedCents: true,
+      clientId: true,
+      client: { select: { name: true, email: true, userProfile: { select: { preferredLanguage: true } } } },
+      tenant: { select: { name: true } },
+      reminderLogs: { where: { status: 'SENT' }, select: { offsetDays: true } },
+    },
+    orderBy: { dueDate: 'asc' },
+  })
+
+  const settingsByTenant = new Map<string, ReminderSettings>()
+  const optOutsByTenant = new Map<string, Set<string>>()
+
+  for (const invoice of invoices) {
+    const outstandingCents = getOutstandingCents(invoice)
+    if (outstandingCents <= 0 || !invoice.client || !invoice.clientId || !invoice.dueDate) continue
+    result.checked += 1
+
+    let settings = settingsByTenant.get(invoice.tenantId)
+    if (!settings) {
+      settings = await getReminderSettings(invoice.tenantId)
+      settingsByTenant.set(invoice.tenantId, settings)
+    }
+
+    const days = daysFromDue(invoice.dueDate, asOf)
+    const step = reminderStepDue(settings.steps, days, new Set(invoice.reminderLogs.map((log) => log.offsetDays)))
+    if (!step) continue
+
+    let optOuts = optOutsByTenant.get(invoice.tenantId)
+    if (!optOuts) {
+      const rows = await prisma.paymentReminderOptOut.findMany({ where: { tenantId: invoice.tenantId }, select: { clientId: true } })
+      optOuts = new Set(rows.map((row) => row.clientId))
+      optOutsByTenant.set(invoice.tenantId, optOuts)
+    }
+    if (optOuts.has(invoice.clientId)) {
+      result.optedOut += 1
+      continue
+    }
+
+    const locale = reminderLocale(invoice.client.userProfile?.preferredLanguage)
+    const template = settings.templates.find((t) => t.templateType === step.templateType && t.locale === locale)
+    if (!template?.enabled) continue
+
+    const { subject, html } = renderReminder(template, {
+      clientName: invoice.client.name || invoice.client.email,
+      companyName: invoice.tenant.name,
+      invoiceNumber: invoice.number ?? invoice.id,
+      amountDue: formatAmount(outstandingCents, invoice.currency),
+      dueDate: isoDay(invoice.dueDate),
+      daysOverdue: String(Math.max(0, days)),
+    })
+
+    let error: string | null = null
+    try {
+      await sendEmail({ to: invoice.client.email, subject, html })
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err)
+    }
+
+    const log = {
+      clientId: invoice.clientId,
+      agingBucket: getAgingBucketName(days),
+      templateType: step.templateType,
+      locale,
+      recipient: invoice.client.email,
+      status: error ? 'FAILED' : 'SENT',
+      outstandingCents,
+      error,
+      sentAt: new Date(),
+    }
+    await prisma.paymentReminderLog.upsert({
+      where: { invoiceId_offsetDays: { invoiceId: invoice.id, offsetDays: step.offsetDays } },
+      update: log,
+      create: { ...log, tenantId: invoice.tenantId, invoiceId: invoice.id, offsetDays: step.offsetDays },
+    })
+
+    if (error) {
+      result.failed += 1
+      logger.warn('Payment reminder failed', { invoiceId: invoice.id, offsetDays: step.offsetDays, error })
+    } else {
+      result.sent += 1
+    }
+  }
+
+  logger.info('Payment reminders processed', { ...result })
+  return result
+}
@@ -0,0 +1,98 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { rotateEncryptionKeys } from '../encryption-key-rotation'
+
+// Parties as the encryption extension returns them (decrypted) and the
+// updates the job sends back. Plain functions: the global setup resets
+// vi.fn implementations after each test.
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>
+  const state = { parties: [] as Row[], updates: [] as Row[], rotations: [] as Array<string | null> }
+
+  const matches = (row: Row, where: Row): boolean =>
+    Object.entries(where).every(([key, value]) => {
+      if (key === 'OR') return (value as Row[]).some((clause) => matches(row, clause))
+      if (value && typeof value === 'object') {
+        if ('not' in value) return row[key] !== value.not
+        if ('gt' in value) return row[key] > value.gt
+      }
+      return row[key] === value
+    })
+
+  const empty = { findMany: async () => [], updateMany: async () => ({ count: 0 }) }
+
+  const prisma = {
+    tenant: { findMany: async () => [{ id: 't1' }] },
+    party: {
+      findMany: async ({ where, take }: Row) => state.parties.filter((row) => matches(row, where)).slice(0, take),
+      updateMany: async (args: Row) => {
+        const count = state.parties.filter((row) => matches(row, args.where)).length
+        if (count) state.updates.push(args)
+        return { count }
+      },
+    },
+    entityRegistration: empty,
+    bankingConnection: empty,
+  }
+
+  const keyring = {
+    rewrapDataKeys: async () => 0,
+    activeKeyCreatedAt: async () => new Date(),
+    hasRetiringKeys: async () => false,
+    beginRotation: async (tenantId: string | null) => state.rotations.push(tenantId),
+    finishRotation: async () => 0,
+  }
+
+  return { state, prisma, keyring }
+})
+
+vi.mock('@/lib/prisma', () => ({ default: db.prisma }))
+vi.mock('@/lib/mfa', () => ({ reencryptMfaSecrets: async () => 0 }))
+vi.mock('@/lib/prisma-field-encryption', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/prisma-field-encryption')>('@/lib/prisma-field-encryption')
+  return { ...actual, getFieldKeyring: async () => db.keyring }
+})
+
+describe('encryption key rotation', () => {
+  const updatedAt = new Date('2025-11-01T00:00:00Z')
+
+  beforeEach(() => {
+    db.state.updates.length = 0
+    db.state.rotations.length = 0
+    db.state.parties = [
+      { id: 'p1', tenantId: 't1', taxId: '300012345600003', taxIdHash: null, registrationNumber: null, registrationNumberHash: null, updatedAt },
+      { id: 'p2', tenantId: 't1', taxId: '300098765400003', taxIdHash: 'hash', registrationNumber: 'CN-1', registrationNumberHash: 'hash', updatedAt },
+      { id: 'p3', tenantId: 't1', taxId: null, taxIdHash: null, registrationNumber: 'CN-2', registrationNumberHash: null, updatedAt },
+      { id: 'p4', tenantId: 't2', taxId: '300055555500003', taxIdHash: null, registrationNumber: null, registrationNumberHash: null, updatedAt },
+    ]
+  })
+
+  it('should index values missing a blind index hash for tenants not yet due', async () => {
+    const result = await rotateEncryptionKeys({ batchSize: 1 })
+
+    expect(db.state.rotations).toEqual([])
+    expect(result).toMatchObject({ rotated: 0, rowsReencrypted: 0, rowsIndexed: 2, failed: 0 })
+    expect(db.state.updates).toEqual([
+      { where: { tenantId: 't1', id: 'p1', updatedAt }, data: { taxId: '300012345600003', updatedAt } },
+      { where: { tenantId: 't1', id: 'p3', updatedAt }, data: { registrationNumber: 'CN-2', updatedAt } },
+    ])
+  })
+
+  it('should leave rows edited since they were read as the edit wrote them', async () => {
+    const read = db.prisma.party.findMany
+    db.prisma.party.findMany = async (args: any) => {
+      const rows = await read(args)
+      // Another request saves p1 between the job's read and its write
+      db.state.parties[0] = { ...db.state.parties[0], updatedAt: new Date('2025-11-02T00:00:00Z') }
+      return rows
+    }
+
+    try {
+      const result = await rotateEncryptionKeys({ tenantId: 't1', force: true })
+
+      expect(result).toMatchObject({ rotated: 1, rowsReencrypted: 2, failed: 0 })
+      expect(db.state.updates.map((update) => update.where.id)).toEqual(['p2', 'p3'])
+    } finally {
+      db.prisma.party.findMany = read
+    }
+  })
+})
@@ -0,0 +1,144 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { reencryptMfaSecrets } from '@/lib/mfa'
+import { ENCRYPTED_MODELS, getFieldKeyring } from '@/lib/prisma-field-encryption'
+
+/**
+ * Encryption key rotation job
+ *
+ * For each tenant whose data key is due, a new key is made active, every
+ * encrypted row is rewritten in batches under it (which also encrypts and
+ * indexes values stored before encryption was enabled), and the old keys are
+ * retired. The platform key covers MFA secrets. Data keys wrapped by an old
+ * master key are rewrapped first. An interrupted rotation resumes on the next
+ * run with the same key.
+ *
+ * Tenants not yet due still have rows missing a blind index hash rewritten,
+ * such as values stored before encryption that a tenant's first encrypted
+ * write did not touch, so lookups by value find them.
+ */
+
+export const KEY_MAX_AGE_DAYS = 90
+const DEFAULT_BATCH_SIZE = 100
+
+export interface KeyRotationOptions {
+  tenantId?: string
+  /** Rotate even if the active key is not yet due */
+  force?: boolean
+  batchSize?: number
+  asOf?: Date
+}
+
+export interface KeyRotationResult {
+  rewrappedKeys: number
+  rotated: number
+  rowsReencrypted: number
+  rowsIndexed: number
+  failed: number
+}
+
+export function isKeyRotationDue(
+  activeCreatedAt: Date | null,
+  rotationInProgress: boolean,
+  asOf: Date,
+  maxAgeDays = KEY_MAX_AGE_DAYS
+): boolean {
+  if (rotationInProgress || !activeCreatedAt) return true
+  return asOf.getTime() - activeCreatedAt.getTime() >= maxAgeDays * 24 * 60 * 60 * 1000
+}
+
+/**
+ * Rewrite one model's encrypted fields for a tenant. Reads come back
+ * decrypted and writes are sealed with the tenant's active key, and their
+ * blind indexes filled, by the field encryption extension. With
+ * `onlyMissingHashes`, just the indexed fields of rows lacking a hash.
+ */
+async function reencryptModel(model: string, tenantId: string, batchSize: number, onlyMissingHashes = false): Promise<number> {
+  const config = ENCRYPTED_MODELS[model]
+  const indexed = Object.entries(config.fields).filter(([, field]) => field.blindIndex)
+  if (onlyMissingHashes && !indexed.length) return 0
+
+  const fields = onlyMissingHashes ? indexed.map(([name]) => name) : Object.keys(config.fields)
+  const delegate = (prisma as any)[model.charAt(0).toLowerCase() + model.slice(1)]
+  const scope = config.tenantVia ? { [config.tenantVia.relation]: { tenantId } } : { tenantId }
+  const where = {
+    ...scope,
+    ...(onlyMissingHashes ? { OR: indexed.map(([name, field]) => ({ [name]: { not: null }, [field.blindIndex!]: null })) } : {}),
+  }
+
+  let rewritten = 0
+  let cursor: string | undefined
+  for (;;) {
+    // Page on ids: rewritten rows drop out of a missing-hash filter
+    const rows: any[] = await delegate.findMany({
+      where: cursor ? { ...where, id: { gt: cursor } } : where,
+      select: { id: true, updatedAt: true, ...Object.fromEntries(fields.map((f) => [f, true])) },
+      orderBy: { id: 'asc' },
+      take: batchSize,
+    })
+    if (!rows.length) return rewritten
+
+    for (const row of rows) {
+      const data = Object.fromEntries(fields.filter((f) => row[f] != null).map((f) => [f, row[f]]))
+      if (!Object.keys(data).length) continue
+      // Keep updatedAt: re-encryption is not a change to the record. Only
+      // write the row as read: an edit since was sealed with the active key
+      // and indexed by the extension, and must not be overwritten.
+      const { count } = await delegate.updateMany({
+        where: { ...scope, id: row.id, updatedAt: row.updatedAt },
+        data: { ...data, updatedAt: row.updatedAt },
+      })
+      rewritten += count
+    }
+    cursor = rows[rows.length - 1].id
+  }
+}
+
+export async function rotateEncryptionKeys(options: KeyRotationOptions = {}): Promise<KeyRotationResult> {
+  const result: KeyRotationResult = { rewrappedKeys: 0, rotated: 0, rowsReencrypted: 0, rowsIndexed: 0, failed: 0 }
+  const keyring = await getFieldKeyring()
+  if (!keyring) {
+    logger.warn('Encryption key rotation skipped: no database-backed keyring')
+    return result
+  }
+
+  const asOf = options.asOf ?? new Date()
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE
+  result.rewrappedKeys = await keyring.rewrapDataKeys()
+
+  const tenantIds: Array<string | null> = options.tenantId
+    ? [options.tenantId]
+    : [...(await prisma.tenant.findMany({ select: { id: true } })).map((t) => t.id), null]
+
+  for (const tenantId of tenantIds) {
+    try {
+      const due =
+        options.force ||
+        isKeyRotationDue(await keyring.activeKeyCreatedAt(tenantId), await keyring.hasRetiringKeys(tenantId), asOf)
+      if (!due) {
+        if (tenantId) {
+          for (const model of Object.keys(ENCRYPTED_MODELS)) {
+            result.rowsIndexed += await reencryptModel(model, tenantId, batchSize, true)
+          }
+        }
+        continue
+      }
+
+      await keyring.beginRotation(tenantId)
+      if (tenantId) {
+        for (const model of Object.keys(ENCRYPTED_MODELS)) {
+          result.rowsReencrypted += await reencryptModel(model, tenantId, batchSize)
+        }
+      } else {
+        result.rowsReencrypted += await reencryptMfaSecrets(batchSize)
+      }
+      await keyring.finishRotation(tenantId)
+      result.rotated += 1
+    } catch (err) {
+      result.failed += 1
+      logger.error('Encryption key rotation failed', { tenantId, error: String(err) })
+    }
+  }
+
+  return result
+}
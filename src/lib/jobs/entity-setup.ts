@@ -2,6 +2,7 @@
 import prisma from "@/lib/prisma";
 import { logger } from "@/lib/logger";
 import { getCountry, CountryCode } from "@/lib/registries/countries";
+import { seedChartOfAccounts } from "@/lib/accounting/chart-of-accounts";
 import { Redis } from "@upstash/redis";
 
 
@@ -281,6 +282,22 @@ export async function verifyEntityRegistrations(
   }
 }
 
+/**
+ * Provision the entity's general ledger with the country default chart of accounts
+ */
+export async function provisionEntityLedger(
+  entityId: string
+): Promise<{ created: number; skipped: number } | null> {
+  try {
+    const result = await seedChartOfAccounts(entityId);
+    await publishEvent("ledger.provisioned", { entityId, ...result });
+    return result;
+  } catch (error) {
+    logger.error("Failed to provision entity ledger", { entityId, error });
+    return null;
+  }
+}
+
 /**
  * Mark entity for manual review
  */
@@ -1,4 +1,5 @@
 import prisma from '@/lib/prisma'
+import { decryptFieldValue, encryptFieldValue } from '@/lib/prisma-field-encryption'
 
 // Basic Base32 implementation (RFC 4648) for TOTP secrets
 const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
@@ -139,19 +140,47 @@ export function verifyTotp(secret: string, token: string, window = 1): boolean {
 // Storage using VerificationToken table
 const SECRET_PREFIX = 'mfa:secret:'
 const BACKUP_PREFIX = 'mfa:backup:'
+const SECRET_FIELD = 'VerificationToken.token'
 
 export async function getUserMfaSecret(userId: string): Promise<string | null> {
   const row = await prisma.verificationToken.findFirst({ where: { identifier: `${SECRET_PREFIX}${userId}` } }).catch(() => null)
-  return row?.token || null
+  return row?.token ? decryptFieldValue(row.token, SECRET_FIELD) : null
 }
 
+// Secrets are sealed with the platform data key; users can belong to several tenants
 export async function setUserMfaSecret(userId: string, secret: string): Promise<void> {
+  const token = await encryptFieldValue(secret, SECRET_FIELD)
   await prisma.$transaction(async (tx) => {
     await tx.verificationToken.deleteMany({ where: { identifier: `${SECRET_PREFIX}${userId}` } })
-    await tx.verificationToken.create({ data: { identifier: `${SECRET_PREFIX}${userId}`, token: secret, expires: new Date(Date.now() + 3650 * 24 * 60 * 60 * 1000) } })
+    await tx.verificationToken.create({ data: { identifier: `${SECRET_PREFIX}${userId}`, token, expires: new Date(Date.now() + 3650 * 24 * 60 * 60 * 1000) } })
   })
 }
 
+/**
+ * Re-seal stored MFA secrets with the current platform key, encrypting any
+ * still held in plaintext. Returns the number of secrets rewritten.
+ */
+export async function reencryptMfaSecrets(batchSize = 100): Promise<number> {
+  let rewritten = 0
+  let cursor: string | undefined
+  for (;;) {
+    const rows = await prisma.verificationToken.findMany({
+      // Identifiers stay put while tokens are rewritten, so page on those
+      where: { identifier: cursor ? { startsWith: SECRET_PREFIX, gt: cursor } : { startsWith: SECRET_PREFIX } },
+      orderBy: { identifier: 'asc' },
+      take: batchSize,
+    })
+    if (!rows.length) return rewritten
+    for (const row of rows) {
+      const token = await encryptFieldValue(await decryptFieldValue(row.token, SECRET_FIELD), SECRET_FIELD)
+      // A secret replaced since it was read is already under the active key
+      const { count } = await prisma.verificationToken.updateMany({ where: { token: row.token }, data: { token } })
+      rewritten += count
+    }
+    cursor = rows[rows.length - 1].identifier
+  }
+}
+
 export async function clearUserMfa(userId: string): Promise<void> {
   await prisma.verificationToken.deleteMany({ where: { OR: [ { identifier: `${SECRET_PREFIX}${userId}` }, { identifier: { startsWith: `${BACKUP_PREFIX}${userId}:` } } ] } })
 }
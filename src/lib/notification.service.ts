@@ -1,3 +1,21 @@
+import { sendEmail } from '@/lib/email';
+
+export interface BudgetThresholdAlert {
+  budgetName: string;
+  entityName: string;
+  label: string;
+  threshold: number;
+  budgetCents: number;
+  actualCents: number;
+  currency: string;
+}
+
+const formatCents = (cents: number, currency: string) =>
+  `${currency} ${(cents / 100).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
 export class NotificationService {
   async notifyServiceCreated(service: any, by: string): Promise<void> {
     console.info(`[notify] service created by ${by}: ${service?.name}`);
@@ -11,4 +29,17 @@ export class NotificationService {
   async notifyBulkAction(action: string, count: number, by: string): Promise<void> {
     console.info(`[notify] bulk ${action} on ${count} services by ${by}`);
   }
+  async notifyBudgetThreshold(alert: BudgetThresholdAlert, recipients: string[]): Promise<void> {
+    console.info(`[notify] budget ${alert.budgetName} line ${alert.label} reached ${alert.threshold}% for ${recipients.length} recipients`);
+    const subject = `Budget alert: ${alert.label} has reached ${alert.threshold}% of budget`;
+    const html = `<p><strong>${escapeHtml(alert.budgetName)}</strong> (${escapeHtml(alert.entityName)})</p>
+<p>${escapeHtml(alert.label)} has spent ${formatCents(alert.actualCents, alert.currency)} against a year-to-date budget of ${formatCents(alert.budgetCents, alert.currency)}.</p>`;
+    for (const to of recipients) {
+      try {
+        await sendEmail({ to, subject, html });
+      } catch (err) {
+        console.warn(`[notify] budget alert email to ${to} failed`, err);
+      }
+    }
+  }
 }
@@ -57,8 +57,12 @@ export interface ReceiptAnalysis {
   total?: number
   currency?: string
   confidence: number
+  /** Confidence per extracted field, where the provider reports it (0-1) */
+  fieldConfidence?: Partial<Record<ReceiptField, number>>
 }
 
+export type ReceiptField = 'vendor' | 'date' | 'total' | 'tax' | 'currency'
+
 export interface DocumentClassification {
   documentType: 'INVOICE' | 'RECEIPT' | 'BANK_STATEMENT' | 'TAX_FORM' | 'CONTRACT' | 'OTHER'
   confidence: number
@@ -137,6 +141,13 @@ class MockOCRProvider implements OCRProvider {
       total: 43.2,
       currency: 'AED',
       confidence: 0.88,
+      fieldConfidence: {
+        vendor: 0.93,
+        date: 0.9,
+        total: 0.95,
+        tax: 0.72,
+        currency: 0.86,
+      },
     }
   }
 
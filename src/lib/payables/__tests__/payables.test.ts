@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest'
+import { billFromInvoiceAnalysis, BillInputSchema, getBillOpenCents } from '../bills'
+import { canDecide, getBillApprovalMatrixId, routeBillApprovers, selectApproval } from '../bill-approval'
+import { buildPain001, buildPaymentCsv, groupBillsForPaymentRuns, PaymentFile, SchedulableBill } from '../payment-runs'
+import { ProcessEngine } from '@/lib/bpm/process-engine'
+import { InvoiceAnalysis } from '@/lib/ocr/ocr-service'
+
+const analysis = (overrides: Partial<InvoiceAnalysis> = {}): InvoiceAnalysis => ({
+  invoiceNumber: 'SUP-1042',
+  invoiceDate: '2025-03-03',
+  dueDate: '2025-04-02',
+  vendor: { name: 'Gulf Office Supplies LLC', address: 'Dubai', taxId: '100234567800003' },
+  lineItems: [
+    { description: 'A4 paper', quantity: 10, unitPrice: 25, amount: 250 },
+    { description: 'Toner', quantity: 2, unitPrice: 125, amount: 250 },
+  ],
+  subtotal: 500,
+  tax: 25,
+  total: 525,
+  currency: 'aed',
+  confidence: 0.91,
+  ...overrides,
+})
+
+const schedulable = (overrides: Partial<SchedulableBill> = {}): SchedulableBill => ({
+  id: 'b1',
+  entityId: 'e1',
+  currency: 'EUR',
+  dueDate: new Date('2025-03-20T00:00:00Z'),
+  openCents: 10000,
+  ...overrides,
+})
+
+const paymentFile = (overrides: Partial<PaymentFile> = {}): PaymentFile => ({
+  reference: 'PR-20250320-EUR-A1B2C3',
+  createdAt: new Date('2025-03-18T09:30:00Z'),
+  paymentDate: new Date('2025-03-20T00:00:00Z'),
+  currency: 'EUR',
+  initiatingParty: 'Acme Holdings B.V.',
+  debtor: { name: 'Acme Holdings B.V.', account: 'NL91 ABNA 0417 1643 00', bic: 'ABNANL2A' },
+  payments: [
+    { endToEndId: 'INV-88', amountCents: 125050, creditorName: 'Smith & Sons <Ltd>', iban: 'DE89 3704 0044 0532 0130 00', bic: null, remittance: 'INV-88 PO-12' },
+    { endToEndId: 'INV-89', amountCents: 4950, creditorName: 'Bureau Services', iban: 'FR1420041010050500013M02606', bic: 'PSSTFRPPPAR', remittance: 'INV-89' },
+  ],
+  ...overrides,
+})
+
+describe('bill prefill from OCR', () => {
+  it('copies header fields and lines in cents', () => {
+    const prefill = billFromInvoiceAnalysis(analysis())
+    expect(prefill).toMatchObject({
+      vendorName: 'Gulf Office Supplies LLC',
+      vendorTaxId: '100234567800003',
+      billNumber: 'SUP-1042',
+      issueDate: '2025-03-03',
+      dueDate: '2025-04-02',
+      currency: 'AED',
+      subtotalCents: 50000,
+      taxCents: 2500,
+      totalCents: 52500,
+      impliedTaxRatePercent: 5,
+      warnings: [],
+    })
+    expect(prefill.lines).toEqual([
+      { description: 'A4 paper', quantity: 10, unitPriceCents: 2500 },
+      { description: 'Toner', quantity: 2, unitPriceCents: 12500 },
+    ])
+  })
+
+  it('falls back to one line for the net amount when no lines are read', () => {
+    const prefill = billFromInvoiceAnalysis(analysis({ lineItems: [], subtotal: undefined as any }))
+    expect(prefill.lines).toEqual([{ description: 'As per supplier invoice', quantity: 1, unitPriceCents: 50000 }])
+  })
+
+  it('warns when the amounts read do not add up', () => {
+    const prefill = billFromInvoiceAnalysis(analysis({ total: 530, invoiceNumber: '' }))
+    expect(prefill.warnings).toContain('Subtotal plus tax does not equal the total read')
+    expect(prefill.warnings).toContain('Invoice number not read')
+  })
+})
+
+describe('bill input', () => {
+  const input = {
+    vendorId: 'v1',
+    billNumber: 'SUP-1042',
+    currency: 'aed',
+    issueDate: '2025-03-03',
+    dueDate: '2025-04-02',
+    lines: [{ description: 'Paper', unitPriceCents: 2500 }],
+  }
+
+  it('normalises currency and dates', () => {
+    const parsed = BillInputSchema.parse(input)
+    expect(parsed.currency).toBe('AED')
+    expect(parsed.dueDate).toBeInstanceOf(Date)
+    expect(parsed.lines[0].quantity).toBe(1)
+  })
+
+  it('refuses a due date before the issue date', () => {
+    expect(BillInputSchema.safeParse({ ...input, dueDate: '2025-03-01' }).success).toBe(false)
+  })
+
+  it('never reports a negative open amount', () => {
+    expect(getBillOpenCents({ totalCents: 10000, paidCents: 4000 })).toBe(6000)
+    expect(getBillOpenCents({ totalCents: 10000, paidCents: 12000 })).toBe(0)
+  })
+})
+
+describe('bill approval routing', () => {
+  const facts = { currency: 'AED', vendorId: 'v1', entityId: 'e1', categories: ['office'] }
+
+  it('routes every bill to a team lead and large ones to an admin too', async () => {
+    const engine = new ProcessEngine()
+    expect(await routeBillApprovers('tenant-a', { ...facts, amount: 1200 }, engine)).toEqual(['TEAM_LEAD'])
+    expect(await routeBillApprovers('tenant-a', { ...facts, amount: 75000 }, engine)).toEqual(['TEAM_LEAD', 'ADMIN'])
+    expect(await engine.getApprovalMatrix(getBillApprovalMatrixId('tenant-a'))).toBeDefined()
+  })
+
+  it('uses a tenant matrix registered in the process engine', async () => {
+    const engine = new ProcessEngine()
+    await engine.createApprovalMatrix({
+      id: getBillApprovalMatrixId('tenant-b'),
+      name: 'Custom',
+      rules: [{ field: 'vendorId', operator: 'equals', value: 'v1', approvers: ['user-cfo'], approvalCount: 1 }],
+    })
+    expect(await routeBillApprovers('tenant-b', { ...facts, amount: 10 }, engine)).toEqual(['user-cfo'])
+    expect(await routeBillApprovers('tenant-b', { ...facts, vendorId: 'v2', amount: 10 }, engine)).toEqual([])
+  })
+
+  it('lets users decide approvals routed to them or their role', () => {
+    expect(canDecide({ approver: 'TEAM_LEAD' }, { id: 'u1', role: 'TEAM_LEAD' })).toBe(true)
+    expect(canDecide({ approver: 'ADMIN' }, { id: 'u1', role: 'TEAM_LEAD' })).toBe(false)
+    expect(canDecide({ approver: 'u2' }, { id: 'u2', role: 'CLIENT' })).toBe(true)
+    expect(canDecide({ approver: 'ADMIN' }, { id: 'u3', role: 'SUPER_ADMIN' })).toBe(true)
+  })
+
+  it('has each user decide one approval level at a time', () => {
+    const approvals = [{ approver: 'TEAM_LEAD' }, { approver: 'ADMIN' }, { approver: 'u2' }]
+    expect(selectApproval(approvals, { id: 'u1', role: 'ADMIN' })).toBe(approvals[1])
+    expect(selectApproval(approvals, { id: 'u2', role: 'ADMIN' })).toBe(approvals[2])
+    expect(selectApproval(approvals, { id: 'u3', role: 'SUPER_ADMIN' })).toBe(approvals[0])
+    expect(selectApproval(approvals, { id: 'u4', role: 'CLIENT' })).toBeNull()
+  })
+})
+
+describe('payment runs', () => {
+  const today = new Date('2025-03-18T15:00:00Z')
+
+  it('groups bills by entity, currency and payment date', () => {
+    const groups = groupBillsForPaymentRuns(
+      [
+        schedulable(),
+        schedulable({ id: 'b2', openCents: 2500 }),
+        schedulable({ id: 'b3', currency: 'usd' }),
+        schedulable({ id: 'b4', entityId: 'e2' }),
+        schedulable({ id: 'b5', dueDate: new Date('2025-03-25T00:00:00Z') }),
+      ],
+      { today }
+    )
+    expect(groups).toHaveLength(4)
+    const eur = groups.find((g) => g.entityId === 'e1' && g.currency === 'EUR' && g.paymentDate.toISOString().startsWith('2025-03-20'))
+    expect(eur?.bills.map((b) => b.id)).toEqual(['b1', 'b2'])
+    expect(eur?.totalCents).toBe(12500)
+    expect(groups.find((g) => g.currency === 'USD')?.bills.map((b) => b.id)).toEqual(['b3'])
+    expect(groups[groups.length - 1].paymentDate.toISOString()).toBe('2025-03-25T00:00:00.000Z')
+  })
+
+  it('pays overdue bills today and skips settled ones', () => {
+    const groups = groupBillsForPaymentRuns(
+      [schedulable({ dueDate: new Date('2025-02-28T00:00:00Z') }), schedulable({ id: 'b2', openCents: 0 })],
+      { today }
+    )
+    expect(groups).toHaveLength(1)
+    expect(groups[0].paymentDate.toISOString()).toBe('2025-03-18T00:00:00.000Z')
+    expect(groups[0].bills.map((b) => b.id)).toEqual(['b1'])
+  })
+
+  it('builds a pain.001 credit transfer with control sums and escaped names', () => {
+    const xml = buildPain001(paymentFile())
+    expect(xml).toContain('urn:iso:std:iso:20022:tech:xsd:pain.001.001.03')
+    expect(xml).toContain('<MsgId>PR-20250320-EUR-A1B2C3</MsgId>')
+    expect(xml).toContain('<CreDtTm>2025-03-18T09:30:00</CreDtTm>')
+    expect(xml.match(/<NbOfTxs>2<\/NbOfTxs>/g)).toHaveLength(2)
+    expect(xml.match(/<CtrlSum>1300.00<\/CtrlSum>/g)).toHaveLength(2)
+    expect(xml).toContain('<ReqdExctnDt>2025-03-20</ReqdExctnDt>')
+    expect(xml).toContain('<DbtrAcct><Id><IBAN>NL91ABNA0417164300</IBAN></Id><Ccy>EUR</Ccy></DbtrAcct>')
+    expect(xml).toContain('<ChrgBr>SLEV</ChrgBr>')
+    expect(xml).toContain('<InstdAmt Ccy="EUR">1250.50</InstdAmt>')
+    expect(xml).toContain('<Nm>Smith &amp; Sons &lt;Ltd&gt;</Nm>')
+    expect(xml).toContain('<CdtrAgt><FinInstnId><BIC>PSSTFRPPPAR</BIC></FinInstnId></CdtrAgt>')
+    expect(xml).toContain('<CdtrAcct><Id><IBAN>DE89370400440532013000</IBAN></Id></CdtrAcct>')
+  })
+
+  it('identifies a non-IBAN debtor account as other and shares charges outside SEPA', () => {
+    const xml = buildPain001(paymentFile({ currency: 'USD', debtor: { name: 'Acme', account: '0123456789', bic: null } }))
+    expect(xml).toContain('<DbtrAcct><Id><Othr><Id>0123456789</Id></Othr></Id><Ccy>USD</Ccy></DbtrAcct>')
+    expect(xml).toContain('<DbtrAgt><FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId></DbtrAgt>')
+    expect(xml).toContain('<ChrgBr>SHAR</ChrgBr>')
+  })
+
+  it('builds a bulk payment CSV with one row per bill', () => {
+    const rows = buildPaymentCsv(paymentFile()).trim().split('\n')
+    expect(rows).toHaveLength(3)
+    expect(rows[0]).toBe('"payment_date","debtor_account","currency","amount","beneficiary","iban","bic","reference","remittance"')
+    expect(rows[1]).toBe('"2025-03-20","NL91ABNA0417164300","EUR","1250.50","Smith & Sons <Ltd>","DE89370400440532013000","","INV-88","INV-88 PO-12"')
+  })
+})
@@ -0,0 +1,201 @@
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { ApprovalRule, ProcessEngine, processEngine } from '@/lib/bpm/process-engine'
+import { postBill, postSafely } from '@/lib/accounting/posting'
+import { enforceSoD, SoDOverride } from '@/lib/rbac/sod-engine'
+import { BillStatus, EDITABLE_BILL_STATUSES } from './bills'
+
+/**
+ * Bill Approval
+ *
+ * Submitted bills are routed through the BPM approval matrix: every
+ * approver the matrix returns for the bill (a role or a user id) must
+ * approve it, and one rejection sends it back to the submitter. A bill
+ * the matrix routes to nobody is approved on submission. Approved bills
+ * post to Accounts Payable.
+ */
+
+/**
+ * Default routing, on the bill total in the entity's functional currency:
+ * every bill needs a team lead, large ones an admin as well
+ */
+export const DEFAULT_BILL_APPROVAL_RULES: ApprovalRule[] = [
+  { field: 'amount', operator: 'greaterThan', value: 0, approvers: ['TEAM_LEAD'], approvalCount: 1 },
+  { field: 'amount', operator: 'greaterThan', value: 50000, approvers: ['ADMIN'], approvalCount: 1 },
+]
+
+export function getBillApprovalMatrixId(tenantId: string): string {
+  return `ap-bill-approval:${tenantId}`
+}
+
+/**
+ * The tenant's bill approval matrix, registered with the default rules on
+ * first use
+ */
+export async function ensureBillApprovalMatrix(tenantId: string, engine: ProcessEngine = processEngine): Promise<string> {
+  const matrixId = getBillApprovalMatrixId(tenantId)
+  if (!(await engine.getApprovalMatrix(matrixId))) {
+    await engine.createApprovalMatrix({ id: matrixId, tenantId, name: 'Supplier bill approval', rules: DEFAULT_BILL_APPROVAL_RULES })
+  }
+  return matrixId
+}
+
+export interface BillApprovalFacts {
+  amount: number // Functional currency, major units
+  currency: string
+  vendorId: string
+  entityId: string | null
+  categories: string[]
+}
+
+/**
+ * Approvers the matrix routes a bill to
+ */
+export async function routeBillApprovers(tenantId: string, facts: BillApprovalFacts, engine: ProcessEngine = processEngine): Promise<string[]> {
+  return engine.evaluateApprovalRules(await ensureBillApprovalMatrix(tenantId, engine), { ...facts })
+}
+
+export interface Approver {
+  id: string
+  role?: string | null
+}
+
+/**
+ * Whether a user may decide an approval routed to a role or to them
+ */
+export function canDecide(approval: { approver: string }, user: Approver): boolean {
+  if (approval.approver === user.id) return true
+  if (!user.role) return false
+  const role = user.role.toUpperCase()
+  return role === 'SUPER_ADMIN' || approval.approver.toUpperCase() === role
+}
+
+/**
+ * The one pending approval a user decides: the one routed to them, else to
+ * their role, else any (super admins). Deciding a single level per call
+ * means every level of a bill is decided by a different person.
+ */
+export function selectApproval<T extends { approver: string }>(approvals: T[], user: Approver): T | null {
+  const role = user.role?.toUpperCase()
+  return (
+    approvals.find((approval) => approval.approver === user.id) ??
+    approvals.find((approval) => !!role && approval.approver.toUpperCase() === role) ??
+    approvals.find((approval) => canDecide(approval, user)) ??
+    null
+  )
+}
+
+async function approveBill(billId: string, userId?: string | null) {
+  const bill = await prisma.bill.update({
+    where: { id: billId },
+    data: { status: 'APPROVED', approvedAt: new Date() },
+  })
+  await postSafely('bill', bill.id, () => postBill(bill.id, userId))
+  logger.info('Bill approved', { billId })
+  return bill
+}
+
+/**
+ * Submit a draft or rejected bill for approval
+ */
+export async function submitBill(tenantId: string, billId: string, userId?: string | null) {
+  const bill = await prisma.bill.findFirst({
+    where: { id: billId, tenantId },
+    include: { lines: { select: { category: true } } },
+  })
+  if (!bill) throw new ApiError('NOT_FOUND', 'Bill not found', 404)
+  if (!EDITABLE_BILL_STATUSES.includes(bill.status as BillStatus)) {
+    throw new ApiError('INVALID_STATE', `A ${bill.status.toLowerCase()} bill cannot be submitted`, 409)
+  }
+  if (bill.totalCents <= 0) throw new ApiError('INVALID_STATE', 'A bill with nothing to pay cannot be submitted', 422)
+
+  const approvers = await routeBillApprovers(tenantId, {
+    amount: (bill.functionalTotalCents ?? bill.totalCents) / 100,
+    currency: bill.currency,
+    vendorId: bill.vendorId,
+    entityId: bill.entityId,
+    categories: Array.from(new Set(bill.lines.map((l) => l.category || 'general'))),
+  })
+
+  await prisma.$transaction(async (tx) => {
+    await tx.billApproval.updateMany({ where: { billId, status: 'PENDING' }, data: { status: 'CANCELLED' } })
+    // Approvals from an earlier round stay on record but no longer count
+    await tx.billApproval.updateMany({ where: { billId, status: 'APPROVED' }, data: { status: 'SUPERSEDED' } })
+    if (approvers.length) {
+      await tx.billApproval.createMany({ data: approvers.map((approver) => ({ billId, approver })) })
+    }
+    await tx.bill.update({
+      where: { id: billId },
+      data: { status: approvers.length ? 'PENDING_APPROVAL' : 'DRAFT', submittedAt: new Date() },
+    })
+  })
+
+  if (!approvers.length) await approveBill(billId, userId)
+  logger.info('Bill submitted for approval', { billId, approvers })
+
+  return prisma.bill.findUniqueOrThrow({ where: { id: billId }, include: { approvals: { orderBy: { createdAt: 'asc' } } } })
+}
+
+/**
+ * Record a user's decision on one approval level of a bill. Submitters do
+ * not approve their own bills, and an approval is checked for segregation
+ * of duties against the levels already approved in this round.
+ */
+export async function decideBill(
+  tenantId: string,
+  billId: string,
+  user: Approver,
+  decision: 'APPROVED' | 'REJECTED',
+  comment?: string | null,
+  sodOverride?: SoDOverride | null
+) {
+  const bill = await prisma.bill.findFirst({
+    where: { id: billId, tenantId },
+    include: { approvals: { where: { status: 'PENDING' } } },
+  })
+  if (!bill) throw new ApiError('NOT_FOUND', 'Bill not found', 404)
+  if (bill.status !== 'PENDING_APPROVAL') throw new ApiError('INVALID_STATE', 'The bill is not awaiting approval', 409)
+  if (decision === 'APPROVED' && bill.createdBy === user.id) {
+    throw new ApiError('SELF_APPROVAL', 'You cannot approve a bill you entered', 403)
+  }
+
+  const mine = selectApproval(bill.approvals, user)
+  if (!mine) throw new ApiError('NOT_AN_APPROVER', 'The bill is not awaiting your approval', 403)
+  if (decision === 'APPROVED') await enforceSoD(tenantId, 'bill.approve', billId, user, sodOverride)
+
+  const now = new Date()
+  const remaining = await prisma.$transaction(async (tx) => {
+    await tx.billApproval.updateMany({
+      where: { id: mine.id, status: 'PENDING' },
+      data: { status: decision, decidedBy: user.id, comment: comment ?? null, decidedAt: now },
+    })
+    if (decision === 'REJECTED') {
+      await tx.billApproval.updateMany({ where: { billId, status: 'PENDING' }, data: { status: 'CANCELLED' } })
+      await tx.bill.update({ where: { id: billId }, data: { status: 'REJECTED' } })
+      return 0
+    }
+    return tx.billApproval.count({ where: { billId, status: 'PENDING' } })
+  })
+
+  if (decision === 'APPROVED' && remaining === 0) await approveBill(billId, user.id)
+
+  return prisma.bill.findUniqueOrThrow({ where: { id: billId }, include: { approvals: { orderBy: { createdAt: 'asc' } } } })
+}
+
+/**
+ * Bills awaiting a decision from a user, directly or through their role
+ */
+export async function listBillsAwaitingApproval(tenantId: string, user: Approver) {
+  const approvers = [user.id, ...(user.role ? [user.role.toUpperCase()] : [])]
+  const isSuperAdmin = user.role?.toUpperCase() === 'SUPER_ADMIN'
+  return prisma.bill.findMany({
+    where: {
+      tenantId,
+      status: 'PENDING_APPROVAL',
+      approvals: { some: { status: 'PENDING', ...(isSuperAdmin ? {} : { approver: { in: approvers } }) } },
+    },
+    include: { vendor: { select: { id: true, name: true } }, approvals: { orderBy: { createdAt: 'asc' } } },
+    orderBy: { dueDate: 'asc' },
+  })
+}
@@ -0,0 +1,363 @@
+import { z } from 'zod'
+import { Prisma } from '@prisma/client'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { assertPostingPeriodOpen, captureDocumentRate, resolvePostingEntityId } from '@/lib/accounting/posting'
+import { capturedAmounts } from '@/lib/accounting/fx'
+import { reverseJournalEntry } from '@/lib/accounting/journal'
+import { calculateInvoiceTotals, resolveInvoiceLines, toInvoiceItemData } from '@/lib/invoicing/line-tax'
+import { InvoiceAnalysis, ocrService } from '@/lib/ocr/ocr-service'
+
+/**
+ * Bills
+ *
+ * Supplier invoices owed to MDM vendors. A bill is drafted (by hand or
+ * pre-filled from an uploaded PDF), routed for approval (bill-approval.ts),
+ * posted to Accounts Payable once approved, scheduled into a payment run
+ * (payment-runs.ts) and marked paid when the bank line that paid it is
+ * reconciled. Lines carry tax code snapshots exactly as invoice lines do.
+ */
+
+export type BillStatus = 'DRAFT' | 'PENDING_APPROVAL' | 'APPROVED' | 'REJECTED' | 'PAID' | 'VOID'
+
+/** Bills that can still be edited */
+export const EDITABLE_BILL_STATUSES: BillStatus[] = ['DRAFT', 'REJECTED']
+
+/** Bills approved but not yet fully paid */
+export const PAYABLE_BILL_STATUSES: BillStatus[] = ['APPROVED']
+
+const dateInput = z.union([z.string(), z.date()]).pipe(z.coerce.date())
+
+export const BillLineInputSchema = z.object({
+  description: z.string().trim().min(1).max(500),
+  quantity: z.number().int().min(1).default(1),
+  unitPriceCents: z.number().int().min(0),
+  discountCents: z.number().int().min(0).optional(),
+  taxInclusive: z.boolean().optional(),
+  taxCodeId: z.string().min(1).nullable().optional(),
+  category: z.string().trim().max(60).nullable().optional(),
+  ledgerAccountId: z.string().min(1).nullable().optional(),
+})
+
+export const BillInputSchema = z
+  .object({
+    vendorId: z.string().min(1),
+    billNumber: z.string().trim().min(1).max(100),
+    reference: z.string().trim().max(255).nullable().optional(),
+    entityId: z.string().min(1).nullable().optional(),
+    currency: z.string().trim().length(3).transform((v) => v.toUpperCase()).default('USD'),
+    issueDate: dateInput,
+    dueDate: dateInput,
+    isImport: z.boolean().optional(),
+    exchangeRate: z.number().positive().nullable().optional(),
+    attachmentId: z.string().min(1).nullable().optional(),
+    notes: z.string().max(2000).nullable().optional(),
+    lines: z.array(BillLineInputSchema).min(1).max(200),
+    ocrData: z.record(z.unknown()).nullable().optional(),
+  })
+  .refine((bill) => bill.dueDate >= bill.issueDate, { message: 'dueDate cannot be before issueDate', path: ['dueDate'] })
+
+export type BillInput = z.infer<typeof BillInputSchema>
+export type BillLineInput = z.infer<typeof BillLineInputSchema>
+
+export function getBillOpenCents(bill: { totalCents: number; paidCents: number }): number {
+  return Math.max(0, bill.totalCents - bill.paidCents)
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return String((error as { code?: unknown })?.code) === 'P2002'
+}
+
+async function assertVendor(tenantId: string, vendorId: string) {
+  const vendor = await prisma.party.findFirst({
+    where: { id: vendorId, tenantId, partyType: 'VENDOR' },
+    select: { id: true, name: true, status: true },
+  })
+  if (!vendor) throw new ApiError('INVALID_VENDOR', 'Vendor not found', 400, { vendorId })
+  if (vendor.status !== 'ACTIVE') throw new ApiError('INVALID_VENDOR', `Vendor ${vendor.name} is ${vendor.status.toLowerCase()}`, 400, { vendorId })
+  return vendor
+}
+
+async function assertLineAccounts(tenantId: string, entityId: string | null | undefined, lines: BillLineInput[]) {
+  const accountIds = Array.from(new Set(lines.map((l) => l.ledgerAccountId).filter((id): id is string => Boolean(id))))
+  if (!accountIds.length) return
+  const resolved = await resolvePostingEntityId(tenantId, entityId)
+  const found = await prisma.ledgerAccount.count({
+    where: { id: { in: accountIds }, tenantId, isActive: true, ...(resolved ? { entityId: resolved } : {}) },
+  })
+  if (found !== accountIds.length) throw new ApiError('INVALID_LEDGER_ACCOUNT', 'A bill line is coded to an unknown ledger account', 400)
+}
+
+/**
+ * Calculate a bill's lines and totals and the columns they are stored in
+ */
+async function buildBillData(tenantId: string, input: BillInput) {
+  if (input.entityId) {
+    const entity = await prisma.entity.findFirst({ where: { id: input.entityId, tenantId }, select: { id: true } })
+    if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+  }
+  await assertVendor(tenantId, input.vendorId)
+  await assertLineAccounts(tenantId, input.entityId, input.lines)
+  await assertPostingPeriodOpen(tenantId, input.entityId, input.issueDate, 'bill')
+
+  const calculated = await resolveInvoiceLines(
+    tenantId,
+    input.lines.map((l) => ({
+      description: l.description,
+      quantity: l.quantity,
+      unitPriceCents: l.unitPriceCents,
+      discountCents: l.discountCents,
+      taxInclusive: l.taxInclusive,
+      taxCodeId: l.taxCodeId,
+    })),
+    input.issueDate
+  )
+  const totals = calculateInvoiceTotals(calculated)
+  const rate = await captureDocumentRate(tenantId, input.entityId, input.currency, input.issueDate, input.exchangeRate)
+
+  const lines = calculated.map((line, i) => {
+    const { itemCode: _itemCode, ...item } = toInvoiceItemData(line)
+    return { ...item, category: input.lines[i].category || null, ledgerAccountId: input.lines[i].ledgerAccountId || null }
+  })
+
+  return {
+    data: {
+      vendorId: input.vendorId,
+      billNumber: input.billNumber,
+      reference: input.reference || null,
+      entityId: input.entityId || null,
+      currency: input.currency,
+      subtotalCents: totals.subtotalCents,
+      discountCents: totals.discountCents,
+      taxCents: totals.taxCents,
+      totalCents: totals.totalCents,
+      taxBreakdown: totals.taxBreakdown as any,
+      ...capturedAmounts(rate, { functionalTotalCents: totals.totalCents, functionalTaxCents: totals.taxCents }),
+      issueDate: input.issueDate,
+      dueDate: input.dueDate,
+      isImport: Boolean(input.isImport),
+      attachmentId: input.attachmentId || null,
+      notes: input.notes || null,
+    },
+    lines,
+  }
+}
+
+/**
+ * Draft a bill. A vendor's bill number is unique per tenant so the same
+ * supplier invoice cannot be entered twice.
+ */
+export async function createBill(tenantId: string, input: BillInput, userId?: string | null) {
+  const { data, lines } = await buildBillData(tenantId, input)
+
+  try {
+    return await prisma.bill.create({
+      data: {
+        ...data,
+        tenantId,
+        ocrData: (input.ocrData as any) ?? undefined,
+        createdBy: userId ?? null,
+        lines: { create: lines },
+      },
+      include: { lines: true, vendor: { select: { id: true, name: true } } },
+    })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ApiError('DUPLICATE_BILL', `Bill ${input.billNumber} from this vendor is already entered`, 409)
+    }
+    throw error
+  }
+}
+
+/**
+ * Replace a draft or rejected bill's details; a rejected bill returns to draft
+ */
+export async function updateBill(tenantId: string, billId: string, input: BillInput) {
+  const existing = await prisma.bill.findFirst({ where: { id: billId, tenantId }, select: { id: true, status: true } })
+  if (!existing) throw new ApiError('NOT_FOUND', 'Bill not found', 404)
+  if (!EDITABLE_BILL_STATUSES.includes(existing.status as BillStatus)) {
+    throw new ApiError('INVALID_STATE', `A ${existing.status.toLowerCase()} bill cannot be edited`, 409)
+  }
+
+  const { data, lines } = await buildBillData(tenantId, input)
+
+  try {
+    return await prisma.$transaction(async (tx) => {
+      await tx.billLine.deleteMany({ where: { billId } })
+      await tx.billApproval.updateMany({ where: { billId, status: 'PENDING' }, data: { status: 'CANCELLED' } })
+      return tx.bill.update({
+        where: { id: billId },
+        data: { ...data, status: 'DRAFT', submittedAt: null, lines: { create: lines } },
+        include: { lines: true, vendor: { select: { id: true, name: true } } },
+      })
+    })
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ApiError('DUPLICATE_BILL', `Bill ${input.billNumber} from this vendor is already entered`, 409)
+    }
+    throw error
+  }
+}
+
+/**
+ * Void a bill that nothing has been paid on. An approved bill's posting is
+ * reversed; a bill in a live payment run must be taken out of it first.
+ */
+export async function voidBill(tenantId: string, billId: string, options: { reason?: string; userId?: string | null } = {}) {
+  const bill = await prisma.bill.findFirst({ where: { id: billId, tenantId } })
+  if (!bill) throw new ApiError('NOT_FOUND', 'Bill not found', 404)
+  if (bill.status === 'VOID') return bill
+  if (bill.paidCents > 0) throw new ApiError('INVALID_STATE', 'A bill with payments reconciled against it cannot be voided', 409)
+
+  const scheduled = await prisma.paymentRunItem.count({
+    where: { billId, run: { status: { in: ['SCHEDULED', 'EXPORTED'] } } },
+  })
+  if (scheduled) throw new ApiError('INVALID_STATE', 'The bill is in a payment run; cancel the run first', 409)
+
+  const reason = options.reason || `Bill ${bill.billNumber} voided`
+  const entries = await prisma.journalEntry.findMany({
+    where: { tenantId, sourceType: 'bill', sourceId: bill.id, status: 'POSTED' },
+    select: { id: true },
+  })
+  for (const entry of entries) {
+    await reverseJournalEntry(entry.id, { reason, userId: options.userId })
+  }
+
+  return prisma.$transaction(async (tx) => {
+    await tx.billApproval.updateMany({ where: { billId, status: 'PENDING' }, data: { status: 'CANCELLED' } })
+    return tx.bill.update({ where: { id: billId }, data: { status: 'VOID', notes: [bill.notes, reason].filter(Boolean).join('\n') } })
+  })
+}
+
+/**
+ * Record cash reconciled against a bill, or taken back when a match is undone
+ */
+export async function applyBillPayment(
+  tx: Prisma.TransactionClient | typeof prisma,
+  billId: string,
+  amountCents: number,
+  paidAt: Date
+) {
+  const bill = await tx.bill.findUniqueOrThrow({ where: { id: billId }, select: { totalCents: true, paidCents: true } })
+  const paidCents = Math.min(bill.totalCents, Math.max(0, bill.paidCents + amountCents))
+  const fullyPaid = paidCents >= bill.totalCents
+  return tx.bill.update({
+    where: { id: billId },
+    data: { paidCents, status: fullyPaid ? 'PAID' : 'APPROVED', paidAt: fullyPaid ? paidAt : null },
+  })
+}
+
+export interface BillPrefill {
+  vendorId: string | null
+  vendorName: string | null
+  vendorTaxId: string | null
+  billNumber: string | null
+  issueDate: string | null
+  dueDate: string | null
+  currency: string | null
+  lines: Array<{ description: string; quantity: number; unitPriceCents: number }>
+  subtotalCents: number | null
+  taxCents: number | null
+  totalCents: number | null
+  /** Rate implied by the tax and subtotal read, to help pick a tax code */
+  impliedTaxRatePercent: number | null
+  confidence: number
+  warnings: string[]
+}
+
+const toCents = (value: number | undefined | null) => (value === undefined || value === null || !Number.isFinite(value) ? null : Math.round(value * 100))
+
+function isoDate(value: string | undefined): string | null {
+  if (!value) return null
+  const date = new Date(value)
+  return Number.isFinite(date.getTime()) ? date.toISOString().slice(0, 10) : null
+}
+
+/**
+ * Turn an OCR invoice analysis into bill fields for the user to check.
+ * Amounts are read as tax-exclusive; when no lines are read the subtotal
+ * becomes a single line.
+ */
+export function billFromInvoiceAnalysis(analysis: InvoiceAnalysis): BillPrefill {
+  const warnings: string[] = []
+  const subtotalCents = toCents(analysis.subtotal)
+  const taxCents = toCents(analysis.tax)
+  const totalCents = toCents(analysis.total)
+
+  const lines = (analysis.lineItems ?? [])
+    .map((item) => {
+      const quantity = Math.max(1, Math.round(item.quantity ?? 1))
+      const unitPriceCents = toCents(item.unitPrice) ?? Math.round((toCents(item.amount) ?? 0) / quantity)
+      return { description: item.description?.trim() || 'Item', quantity, unitPriceCents }
+    })
+    .filter((line) => line.unitPriceCents > 0)
+
+  if (!lines.length) {
+    const netCents = subtotalCents ?? (totalCents !== null ? totalCents - (taxCents ?? 0) : null)
+    if (netCents !== null && netCents > 0) lines.push({ description: 'As per supplier invoice', quantity: 1, unitPriceCents: netCents })
+    else warnings.push('No amounts could be read')
+  }
+
+  const linesCents = lines.reduce((sum, l) => sum + l.quantity * l.unitPriceCents, 0)
+  if (subtotalCents !== null && lines.length && linesCents !== subtotalCents) {
+    warnings.push(`Lines add up to ${(linesCents / 100).toFixed(2)}, the subtotal read is ${(subtotalCents / 100).toFixed(2)}`)
+  }
+  if (subtotalCents !== null && taxCents !== null && totalCents !== null && subtotalCents + taxCents !== totalCents) {
+    warnings.push('Subtotal plus tax does not equal the total read')
+  }
+
+  const issueDate = isoDate(analysis.invoiceDate)
+  if (!issueDate) warnings.push('Invoice date not read')
+  if (!analysis.invoiceNumber) warnings.push('Invoice number not read')
+
+  return {
+    vendorId: null,
+    vendorName: analysis.vendor?.name?.trim() || null,
+    vendorTaxId: analysis.vendor?.taxId?.trim() || null,
+    billNumber: analysis.invoiceNumber?.trim() || null,
+    issueDate,
+    dueDate: isoDate(analysis.dueDate),
+    currency: analysis.currency?.trim().toUpperCase() || null,
+    lines,
+    subtotalCents,
+    taxCents,
+    totalCents,
+    impliedTaxRatePercent: subtotalCents && taxCents !== null ? Math.round((taxCents / subtotalCents) * 10000) / 100 : null,
+    confidence: analysis.confidence,
+    warnings,
+  }
+}
+
+/**
+ * Find the vendor a read invoice is from: by tax number, then by name
+ */
+export async function findVendorForPrefill(tenantId: string, prefill: Pick<BillPrefill, 'vendorName' | 'vendorTaxId'>) {
+  const where = { tenantId, partyType: 'VENDOR' as const, status: 'ACTIVE' as const }
+  if (prefill.vendorTaxId) {
+    const byTaxId = await prisma.party.findFirst({ where: { ...where, taxId: prefill.vendorTaxId }, select: { id: true, name: true } })
+    if (byTaxId) return byTaxId
+  }
+  if (prefill.vendorName) {
+    return prisma.party.findFirst({
+      where: { ...where, OR: [{ name: { equals: prefill.vendorName, mode: 'insensitive' } }, { legalName: { equals: prefill.vendorName, mode: 'insensitive' } }] },
+      select: { id: true, name: true },
+    })
+  }
+  return null
+}
+
+/**
+ * Read an uploaded supplier invoice and pre-fill a bill from it
+ */
+export async function prefillBillFromDocument(tenantId: string, data: Buffer): Promise<BillPrefill> {
+  const analysis = await ocrService.analyzeInvoice(data)
+  const prefill = billFromInvoiceAnalysis(analysis)
+  const vendor = await findVendorForPrefill(tenantId, prefill).catch((error) => {
+    logger.warn('Vendor lookup for bill prefill failed', { error: String(error) })
+    return null
+  })
+  if (vendor) return { ...prefill, vendorId: vendor.id }
+  if (prefill.vendorName) prefill.warnings.push(`No vendor matches ${prefill.vendorName}; create it in master data or pick one`)
+  return prefill
+}
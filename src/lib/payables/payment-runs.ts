@@ -0,0 +1,357 @@
+import { randomBytes } from 'crypto'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { toCsvCell } from '@/lib/csv-export'
+import { enforceSoD, SoDActor, SoDOverride } from '@/lib/rbac/sod-engine'
+import { getBillOpenCents } from './bills'
+
+/**
+ * Payment Runs
+ *
+ * Approved bills falling due are grouped into payment runs, one per
+ * entity, currency and payment date, and exported as a bank payment file:
+ * a plain CSV or an ISO 20022 pain.001.001.03 credit transfer initiation.
+ * A bill sits in at most one live run. Exporting does not mark anything
+ * paid; bills are settled when the bank line is reconciled against them.
+ */
+
+export type PaymentFileFormat = 'csv' | 'pain.001'
+
+export const PAYMENT_FILE_FORMATS: PaymentFileFormat[] = ['csv', 'pain.001']
+
+const LIVE_RUN_STATUSES = ['SCHEDULED', 'EXPORTED']
+
+export interface SchedulableBill {
+  id: string
+  entityId: string | null
+  currency: string
+  dueDate: Date
+  openCents: number
+}
+
+export interface PaymentRunGroup {
+  entityId: string | null
+  currency: string
+  paymentDate: Date
+  totalCents: number
+  bills: SchedulableBill[]
+}
+
+function utcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+}
+
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Group bills into runs by entity, currency and payment date. Bills are
+ * paid on their due date; overdue bills are paid today.
+ */
+export function groupBillsForPaymentRuns(bills: SchedulableBill[], options: { today?: Date } = {}): PaymentRunGroup[] {
+  const today = utcDay(options.today ?? new Date())
+  const groups = new Map<string, PaymentRunGroup>()
+
+  for (const bill of bills) {
+    if (bill.openCents <= 0) continue
+    const due = utcDay(bill.dueDate)
+    const paymentDate = due < today ? today : due
+    const currency = bill.currency.toUpperCase()
+    const key = [bill.entityId ?? '', currency, isoDay(paymentDate)].join('|')
+    let group = groups.get(key)
+    if (!group) {
+      group = { entityId: bill.entityId, currency, paymentDate, totalCents: 0, bills: [] }
+      groups.set(key, group)
+    }
+    group.bills.push(bill)
+    group.totalCents += bill.openCents
+  }
+
+  return Array.from(groups.values()).sort(
+    (a, b) => a.paymentDate.getTime() - b.paymentDate.getTime() || a.currency.localeCompare(b.currency)
+  )
+}
+
+function runReference(paymentDate: Date, currency: string): string {
+  return `PR-${isoDay(paymentDate).replace(/-/g, '')}-${currency}-${randomBytes(3).toString('hex').toUpperCase()}`
+}
+
+export interface SchedulePaymentsOptions {
+  through: Date // Schedule bills due on or before this date
+  entityId?: string | null
+  currency?: string | null
+  connectionId?: string | null
+  userId?: string | null
+  today?: Date
+}
+
+/**
+ * Create payment runs for approved bills due by a date that are not
+ * already in a live run
+ */
+export async function scheduleBillPayments(tenantId: string, options: SchedulePaymentsOptions) {
+  if (options.connectionId) {
+    const connection = await prisma.bankingConnection.findFirst({
+      where: { id: options.connectionId, tenantId },
+      select: { id: true },
+    })
+    if (!connection) throw new ApiError('NOT_FOUND', 'Bank connection not found', 404)
+  }
+
+  const bills = await prisma.bill.findMany({
+    where: {
+      tenantId,
+      status: 'APPROVED',
+      dueDate: { lte: options.through },
+      ...(options.entityId ? { entityId: options.entityId } : {}),
+      ...(options.currency ? { currency: options.currency.toUpperCase() } : {}),
+      paymentRunItems: { none: { run: { status: { in: LIVE_RUN_STATUSES } } } },
+    },
+    select: { id: true, entityId: true, currency: true, dueDate: true, totalCents: true, paidCents: true },
+    orderBy: { dueDate: 'asc' },
+  })
+
+  const groups = groupBillsForPaymentRuns(
+    bills.map((bill) => ({ ...bill, openCents: getBillOpenCents(bill) })),
+    { today: options.today }
+  )
+
+  const runs = await prisma.$transaction(async (tx) => {
+    const created = []
+    for (const group of groups) {
+      created.push(
+        await tx.paymentRun.create({
+          data: {
+            tenantId,
+            entityId: group.entityId,
+            connectionId: options.connectionId ?? null,
+            reference: runReference(group.paymentDate, group.currency),
+            currency: group.currency,
+            paymentDate: group.paymentDate,
+            totalCents: group.totalCents,
+            createdBy: options.userId ?? null,
+            items: { create: group.bills.map((bill) => ({ billId: bill.id, amountCents: bill.openCents })) },
+          },
+          include: { items: true },
+        })
+      )
+    }
+    return created
+  })
+
+  logger.info('Payment runs scheduled', { tenantId, runs: runs.length, bills: bills.length })
+  return runs
+}
+
+/**
+ * Cancel a run, releasing its bills to be scheduled again
+ */
+export async function cancelPaymentRun(tenantId: string, runId: string) {
+  const run = await prisma.paymentRun.findFirst({ where: { id: runId, tenantId } })
+  if (!run) throw new ApiError('NOT_FOUND', 'Payment run not found', 404)
+  if (run.status === 'CANCELLED') return run
+  return prisma.paymentRun.update({ where: { id: runId }, data: { status: 'CANCELLED' } })
+}
+
+export interface PaymentInstruction {
+  endToEndId: string
+  amountCents: number
+  creditorName: string
+  iban: string
+  bic?: string | null
+  remittance: string
+}
+
+export interface PaymentFile {
+  reference: string
+  createdAt: Date
+  paymentDate: Date
+  currency: string
+  initiatingParty: string
+  debtor: { name: string; account: string; bic?: string | null }
+  payments: PaymentInstruction[]
+}
+
+function formatAmount(cents: number): string {
+  return (cents / 100).toFixed(2)
+}
+
+function normalizeAccount(value: string): string {
+  return value.replace(/\s+/g, '').toUpperCase()
+}
+
+const IBAN_PATTERN = /^[A-Z]{2}\d{2}[A-Z0-9]{11,30}$/
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, '')
+}
+
+function text(value: string, max: number): string {
+  return escapeXml(value.replace(/\s+/g, ' ').trim().slice(0, max))
+}
+
+function accountXml(account: string): string {
+  const id = normalizeAccount(account)
+  return IBAN_PATTERN.test(id) ? `<Id><IBAN>${id}</IBAN></Id>` : `<Id><Othr><Id>${text(id, 34)}</Id></Othr></Id>`
+}
+
+function agentXml(bic?: string | null): string {
+  return bic
+    ? `<FinInstnId><BIC>${text(normalizeAccount(bic), 11)}</BIC></FinInstnId>`
+    : '<FinInstnId><Othr><Id>NOTPROVIDED</Id></Othr></FinInstnId>'
+}
+
+/**
+ * ISO 20022 customer credit transfer initiation (pain.001.001.03) with a
+ * single payment information block
+ */
+export function buildPain001(file: PaymentFile): string {
+  const controlSum = formatAmount(file.payments.reduce((sum, p) => sum + p.amountCents, 0))
+  const count = file.payments.length
+  const transactions = file.payments
+    .map(
+      (p) =>
+        '<CdtTrfTxInf>' +
+        `<PmtId><EndToEndId>${text(p.endToEndId, 35)}</EndToEndId></PmtId>` +
+        `<Amt><InstdAmt Ccy="${file.currency}">${formatAmount(p.amountCents)}</InstdAmt></Amt>` +
+        (p.bic ? `<CdtrAgt>${agentXml(p.bic)}</CdtrAgt>` : '') +
+        `<Cdtr><Nm>${text(p.creditorName, 70)}</Nm></Cdtr>` +
+        `<CdtrAcct>${accountXml(p.iban)}</CdtrAcct>` +
+        `<RmtInf><Ustrd>${text(p.remittance, 140)}</Ustrd></RmtInf>` +
+        '</CdtTrfTxInf>'
+    )
+    .join('')
+
+  return (
+    '<?xml version="1.0" encoding="UTF-8"?>' +
+    '<Document xmlns="urn:iso:std:iso:20022:tech:xsd:pain.001.001.03" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+    '<CstmrCdtTrfInitn>' +
+    '<GrpHdr>' +
+    `<MsgId>${text(file.reference, 35)}</MsgId>` +
+    `<CreDtTm>${file.createdAt.toISOString().slice(0, 19)}</CreDtTm>` +
+    `<NbOfTxs>${count}</NbOfTxs>` +
+    `<CtrlSum>${controlSum}</CtrlSum>` +
+    `<InitgPty><Nm>${text(file.initiatingParty, 70)}</Nm></InitgPty>` +
+    '</GrpHdr>' +
+    '<PmtInf>' +
+    `<PmtInfId>${text(file.reference, 35)}</PmtInfId>` +
+    '<PmtMtd>TRF</PmtMtd>' +
+    `<NbOfTxs>${count}</NbOfTxs>` +
+    `<CtrlSum>${controlSum}</CtrlSum>` +
+    `<ReqdExctnDt>${isoDay(file.paymentDate)}</ReqdExctnDt>` +
+    `<Dbtr><Nm>${text(file.debtor.name, 70)}</Nm></Dbtr>` +
+    `<DbtrAcct>${accountXml(file.debtor.account)}<Ccy>${file.currency}</Ccy></DbtrAcct>` +
+    `<DbtrAgt>${agentXml(file.debtor.bic)}</DbtrAgt>` +
+    // Shared charges everywhere except SEPA, where the scheme's own rule applies
+    `<ChrgBr>${file.currency === 'EUR' ? 'SLEV' : 'SHAR'}</ChrgBr>` +
+    transactions +
+    '</PmtInf>' +
+    '</CstmrCdtTrfInitn>' +
+    '</Document>'
+  )
+}
+
+const CSV_HEADER = ['payment_date', 'debtor_account', 'currency', 'amount', 'beneficiary', 'iban', 'bic', 'reference', 'remittance']
+
+/**
+ * One row per payment, for banks that take a bulk upload spreadsheet
+ */
+export function buildPaymentCsv(file: PaymentFile): string {
+  const rows = file.payments.map((p) => [
+    isoDay(file.paymentDate),
+    normalizeAccount(file.debtor.account),
+    file.currency,
+    formatAmount(p.amountCents),
+    p.creditorName,
+    normalizeAccount(p.iban),
+    p.bic ? normalizeAccount(p.bic) : '',
+    p.endToEndId,
+    p.remittance,
+  ])
+  return [CSV_HEADER, ...rows].map((row) => row.map(toCsvCell).join(',')).join('\n') + '\n'
+}
+
+/**
+ * Build a run's payment file and mark the run exported. Every vendor in
+ * the run needs an IBAN and the run a paying bank account. Releasing the
+ * payments is checked for segregation of duties against who scheduled the
+ * run and entered or approved its bills.
+ */
+export async function exportPaymentRun(
+  tenantId: string,
+  runId: string,
+  format: PaymentFileFormat,
+  user?: SoDActor | null,
+  sodOverride?: SoDOverride | null
+): Promise<{ filename: string; contentType: string; body: string }> {
+  const run = await prisma.paymentRun.findFirst({
+    where: { id: runId, tenantId },
+    include: {
+      tenant: { select: { name: true } },
+      entity: { select: { name: true } },
+      connection: { select: { accountNumber: true, bankName: true, metadata: true } },
+      items: {
+        include: {
+          bill: {
+            select: {
+              billNumber: true,
+              reference: true,
+              vendor: { select: { name: true, bankAccountName: true, iban: true, bic: true } },
+            },
+          },
+        },
+      },
+    },
+  })
+  if (!run) throw new ApiError('NOT_FOUND', 'Payment run not found', 404)
+  if (run.status === 'CANCELLED') throw new ApiError('INVALID_STATE', 'A cancelled payment run cannot be exported', 409)
+  if (!run.items.length) throw new ApiError('INVALID_STATE', 'The payment run has no bills', 409)
+
+  const missing: string[] = []
+  if (!run.connection) missing.push('run: paying bank account')
+  for (const item of run.items) {
+    if (!item.bill.vendor.iban) missing.push(`${item.bill.vendor.name}: IBAN`)
+  }
+  if (missing.length) {
+    throw new ApiError('MISSING_BANK_DETAILS', 'Bank details are missing for the payment file', 422, { missing })
+  }
+  if (user) await enforceSoD(tenantId, 'payment.release', run.id, user, sodOverride)
+
+  const debtorBic = (run.connection!.metadata as Record<string, unknown> | null)?.bic
+  const name = run.entity?.name || run.tenant.name
+  const file: PaymentFile = {
+    reference: run.reference,
+    createdAt: new Date(),
+    paymentDate: run.paymentDate,
+    currency: run.currency,
+    initiatingParty: name,
+    debtor: { name, account: run.connection!.accountNumber, bic: typeof debtorBic === 'string' ? debtorBic : null },
+    payments: run.items.map((item) => ({
+      endToEndId: item.bill.billNumber,
+      amountCents: item.amountCents,
+      creditorName: item.bill.vendor.bankAccountName || item.bill.vendor.name,
+      iban: item.bill.vendor.iban!,
+      bic: item.bill.vendor.bic,
+      remittance: [item.bill.billNumber, item.bill.reference].filter(Boolean).join(' '),
+    })),
+  }
+
+  const body = format === 'pain.001' ? buildPain001(file) : buildPaymentCsv(file)
+  await prisma.paymentRun.update({
+    where: { id: run.id },
+    data: { status: 'EXPORTED', fileFormat: format, exportedAt: new Date(), exportedBy: user?.id ?? null },
+  })
+  logger.info('Payment run exported', { runId: run.id, format })
+
+  return format === 'pain.001'
+    ? { filename: `${run.reference}.xml`, contentType: 'application/xml', body }
+    : { filename: `${run.reference}.csv`, contentType: 'text/csv', body }
+}
@@ -1,6 +1,8 @@
 import prisma from '@/lib/prisma'
 import { logger } from '@/lib/logger'
 import { getStripeClient } from '@/lib/payments/stripe-client'
+import { getDaysPastDue, getOutstandingCents, OPEN_INVOICE_STATUSES, refreshInvoiceBalance } from '@/lib/invoicing/balances'
+import { recordPayment } from '@/lib/invoicing/payments'
 
 export interface DunningResult {
   processed: number
@@ -34,8 +36,10 @@ interface PaymentAttempt {
 }
 
 /**
- * Process dunning for unpaid invoices
- * Handles retry logic, escalation, and notifications
+ * Process dunning for invoices with an outstanding balance
+ * Handles retry logic, escalation, and notifications. Schedules run from
+ * the due date (or issue date when none is set) and only the remaining
+ * balance is ever charged.
  */
 export async function processDunning(
   tenantId: string,
@@ -57,11 +61,12 @@ export async function processDunning(
   }
 
   try {
-    // Find unpaid invoices due for retry
+    // Find open invoices due for retry
     const invoices = await prisma.invoice.findMany({
       where: {
         tenantId,
-        status: 'UNPAID',
+        documentType: { not: 'CREDIT_NOTE' },
+        status: { in: OPEN_INVOICE_STATUSES },
       },
       include: {
         client: {
@@ -71,14 +76,18 @@ export async function processDunning(
     })
 
     for (const invoice of invoices) {
+      // Moves invoices past their due date to OVERDUE
+      await refreshInvoiceBalance(invoice.id)
+
+      const outstandingCents = getOutstandingCents(invoice)
+      if (outstandingCents <= 0) continue
+
       stats.processed++
 
-      const daysSinceCreated = Math.floor(
-        (now.getTime() - invoice.createdAt.getTime()) / (1000 * 60 * 60 * 24)
-      )
+      const daysPastDue = getDaysPastDue(invoice, now)
 
       // Check if escalation needed
-      if (daysSinceCreated >= finalConfig.escalationThreshold) {
+      if (daysPastDue >= finalConfig.escalationThreshold) {
         await escalateInvoice(invoice.id, tenantId)
         stats.escalated++
         continue
@@ -86,7 +95,7 @@ export async function processDunning(
 
       // Attempt retry based on dunning schedule
       const shouldRetry = shouldRetryPayment(
-        invoice.createdAt,
+        daysPastDue,
         finalConfig.retryIntervals
       )
 
@@ -107,13 +116,22 @@ export async function processDunning(
             const success = await retryPayment(
               invoice.id,
               method.paymentMethodId,
-              invoice.totalCents,
+              outstandingCents,
               invoice.currency
             )
 
             if (success) {
               stats.retried++
-              await updateInvoiceStatus(invoice.id, 'PAID')
+              await recordPayment({
+                tenantId,
+                entityId: invoice.entityId,
+                clientId: invoice.client.id,
+                amountCents: outstandingCents,
+                currency: invoice.currency,
+                method: 'card',
+                reference: 'dunning-retry',
+                allocations: [{ invoiceId: invoice.id, amountCents: outstandingCents }],
+              })
             } else {
               stats.failed++
               await sendDunningNotification(invoice, invoice.client, finalConfig)
@@ -145,15 +163,10 @@ export async function processDunning(
 /**
  * Determine if a payment should be retried based on dunning schedule
  */
-function shouldRetryPayment(createdAt: Date, retryIntervals: number[]): boolean {
-  const now = new Date()
-  const daysSinceCreated = Math.floor(
-    (now.getTime() - createdAt.getTime()) / (1000 * 60 * 60 * 24)
-  )
-
+function shouldRetryPayment(daysPastDue: number, retryIntervals: number[]): boolean {
   // Check if we're within any retry window (±1 day tolerance)
   for (const interval of retryIntervals) {
-    if (Math.abs(daysSinceCreated - interval) <= 1) {
+    if (Math.abs(daysPastDue - interval) <= 1) {
       return true
     }
   }
@@ -194,22 +207,6 @@ async function retryPayment(
   }
 }
 
-/**
- * Update invoice status
- */
-async function updateInvoiceStatus(
-  invoiceId: string,
-  status: 'PAID' | 'UNPAID'
-): Promise<void> {
-  await prisma.invoice.update({
-    where: { id: invoiceId },
-    data: {
-      status: status === 'PAID' ? 'PAID' : 'UNPAID',
-      paidAt: status === 'PAID' ? new Date() : null,
-    },
-  })
-}
-
 /**
  * Escalate invoice (move to collections, notify support, etc.)
  */
@@ -228,9 +225,8 @@ async function escalateInvoice(invoiceId: string, tenantId: string): Promise<voi
     logger.warn('Invoice escalated due to non-payment', {
       invoiceId,
       tenantId,
-      daysOverdue: Math.floor(
-        (Date.now() - invoice.createdAt.getTime()) / (1000 * 60 * 60 * 24)
-      ),
+      daysOverdue: getDaysPastDue(invoice),
+      outstandingCents: getOutstandingCents(invoice),
     })
   }
 }
@@ -264,9 +260,12 @@ export async function getDunningStatus(invoiceId: string) {
     select: {
       id: true,
       status: true,
-      createdAt: true,
+      issueDate: true,
+      dueDate: true,
       paidAt: true,
       totalCents: true,
+      paidCents: true,
+      creditedCents: true,
       currency: true,
     },
   })
@@ -275,18 +274,17 @@ export async function getDunningStatus(invoiceId: string) {
     return null
   }
 
-  const now = new Date()
-  const daysSinceCreated = Math.floor(
-    (now.getTime() - invoice.createdAt.getTime()) / (1000 * 60 * 60 * 24)
-  )
+  const outstandingCents = getOutstandingCents(invoice)
+  const daysPastDue = outstandingCents > 0 ? getDaysPastDue(invoice) : 0
 
   return {
     invoiceId: invoice.id,
     status: invoice.status,
-    daysOverdue: invoice.status === 'UNPAID' ? daysSinceCreated : 0,
-    isEscalated: daysSinceCreated >= DEFAULT_CONFIG.escalationThreshold,
+    outstandingCents,
+    daysOverdue: daysPastDue,
+    isEscalated: daysPastDue >= DEFAULT_CONFIG.escalationThreshold,
     nextRetryDue: DEFAULT_CONFIG.retryIntervals.find(
-      (interval) => interval >= daysSinceCreated
+      (interval) => interval >= daysPastDue
     ),
   }
 }
@@ -302,60 +300,56 @@ export interface AgingBucket {
   totalAmount: number
 }
 
+/** Days past due covered by each aging bucket */
+export const AGING_BUCKET_RANGES: Array<Pick<AgingBucket, 'name' | 'minDays' | 'maxDays'>> = [
+  { name: 'Current', minDays: 0, maxDays: 30 },
+  { name: '31-60 Days', minDays: 31, maxDays: 60 },
+  { name: '61-90 Days', minDays: 61, maxDays: 90 },
+  { name: '90+ Days', minDays: 91, maxDays: Infinity },
+]
+
+/**
+ * The aging bucket an invoice that many days past due falls in
+ */
+export function getAgingBucketName(daysPastDue: number): string {
+  const days = Math.max(0, daysPastDue)
+  return AGING_BUCKET_RANGES.find((b) => days >= b.minDays && days <= b.maxDays)?.name ?? 'Current'
+}
+
 export async function getInvoiceAging(
   tenantId: string
 ): Promise<AgingBucket[]> {
   const invoices = await prisma.invoice.findMany({
     where: {
       tenantId,
-      status: 'UNPAID',
+      documentType: { not: 'CREDIT_NOTE' },
+      status: { in: OPEN_INVOICE_STATUSES },
     },
     select: {
       id: true,
-      createdAt: true,
+      issueDate: true,
+      dueDate: true,
       totalCents: true,
+      paidCents: true,
+      creditedCents: true,
     },
   })
 
-  const buckets: AgingBucket[] = [
-    { name: 'Current', minDays: 0, maxDays: 30, invoiceCount: 0, totalAmount: 0 },
-    {
-      name: '31-60 Days',
-      minDays: 31,
-      maxDays: 60,
-      invoiceCount: 0,
-      totalAmount: 0,
-    },
-    {
-      name: '61-90 Days',
-      minDays: 61,
-      maxDays: 90,
-      invoiceCount: 0,
-      totalAmount: 0,
-    },
-    {
-      name: '90+ Days',
-      minDays: 91,
-      maxDays: Infinity,
-      invoiceCount: 0,
-      totalAmount: 0,
-    },
-  ]
+  const buckets: AgingBucket[] = AGING_BUCKET_RANGES.map((range) => ({ ...range, invoiceCount: 0, totalAmount: 0 }))
 
   const now = new Date()
 
   for (const invoice of invoices) {
-    const daysSinceCreated = Math.floor(
-      (now.getTime() - invoice.createdAt.getTime()) / (1000 * 60 * 60 * 24)
-    )
+    const outstandingCents = getOutstandingCents(invoice)
+    if (outstandingCents <= 0) continue
+
+    const daysPastDue = getDaysPastDue(invoice, now)
 
-    const bucket = buckets.find(
-      (b) => daysSinceCreated >= b.minDays && daysSinceCreated <= b.maxDays
-    )
+    const bucket = buckets.find((b) => b.name === getAgingBucketName(daysPastDue))
 
     if (bucket) {
       bucket.invoiceCount += 1
-      bucket.totalAmount += invoice.totalCents
+      bucket.totalAmount += outstandingCents
     }
   }
 
@@ -115,6 +115,9 @@ export const PERMISSIONS = {
   ENTITIES_READ: 'entities.read',
   ENTITIES_UPDATE: 'entities.update',
   ENTITIES_DELETE: 'entities.delete',
+
+  // Tax filings
+  TAX_FILINGS_SUBMIT: 'tax_filings.submit',
 } as const
 
 export type Permission = (typeof PERMISSIONS)[keyof typeof PERMISSIONS]
@@ -974,6 +977,17 @@ export const PERMISSION_METADATA: Record<Permission, PermissionMetadata> = {
     icon: 'Trash',
     tags: ['entities', 'delete', 'business'],
   },
+
+  // Tax Filings
+  [PERMISSIONS.TAX_FILINGS_SUBMIT]: {
+    key: PERMISSIONS.TAX_FILINGS_SUBMIT,
+    label: 'Submit Tax Filings',
+    description: 'Submit prepared tax returns to the tax authority',
+    category: PermissionCategory.FINANCIAL,
+    risk: RiskLevel.CRITICAL,
+    icon: 'Send',
+    tags: ['tax', 'filing', 'submit', 'financial'],
+  },
 }
 
 export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
@@ -1025,6 +1039,8 @@ export const ROLE_PERMISSIONS: Record<string, Permission[]> = {
     // Integration Hub (view + test)
     PERMISSIONS.INTEGRATION_HUB_VIEW,
     PERMISSIONS.INTEGRATION_HUB_TEST,
+    // Tax filings
+    PERMISSIONS.TAX_FILINGS_SUBMIT,
   ],
   ADMIN: [
     ...Object.values(PERMISSIONS),
@@ -0,0 +1,382 @@
+import { tenantContext } from '@/lib/tenant-context'
+import { FieldKeyring, LocalKeyFileProvider, PrismaDataKeyStore, isEnvelope } from '@/lib/security/field-encryption'
+
+/**
+ * Field encryption extension
+ *
+ * Encrypts designated columns on the way into the database and decrypts them
+ * on the way out, including inside nested writes and `include`/`select`
+ * results. Fields with a blind index get a companion hash column, and
+ * equality filters on the field are rewritten to filter on the hash instead.
+ * Anything other than equality (contains, startsWith, ordering) cannot work on
+ * ciphertext and is rejected.
+ *
+ * Values are sealed with the owning tenant's data key. The tenant comes from
+ * the write itself, the parent of a nested write, or the existing row, and
+ * falls back to the request's tenant context and then the platform key.
+ */
+
+type EncryptedField = {
+  blindIndex?: string // Hash column kept alongside the ciphertext
+  json?: boolean // Json column; the envelope is stored as a JSON string
+}
+
+type EncryptedModel = {
+  fields: Record<string, EncryptedField>
+  /** How to find the owning tenant for models without a tenantId column */
+  tenantVia?: { foreignKey: string; relation: string; model: string }
+}
+
+export const ENCRYPTED_MODELS: Record<string, EncryptedModel> = {
+  Party: {
+    fields: {
+      taxId: { blindIndex: 'taxIdHash' },
+      registrationNumber: { blindIndex: 'registrationNumberHash' },
+    },
+  },
+  EntityRegistration: {
+    fields: { value: { blindIndex: 'valueHash' } },
+    tenantVia: { foreignKey: 'entityId', relation: 'entity', model: 'Entity' },
+  },
+  BankingConnection: {
+    fields: {
+      sessionToken: {},
+      credentials: { json: true },
+    },
+  },
+}
+
+/** model -> relation field -> related model */
+export type RelationMap = Record<string, Record<string, string>>
+
+export function relationsFromDmmf(models: ReadonlyArray<{ name: string; fields: ReadonlyArray<any> }>): RelationMap {
+  const map: RelationMap = {}
+  for (const model of models) {
+    for (const field of model.fields) {
+      if (field.kind === 'object') (map[model.name] ??= {})[field.name] = field.type
+    }
+  }
+  return map
+}
+
+export interface FieldCrypto {
+  encrypt(plaintext: string, tenantId: string | null, field: string): Promise<string>
+  decrypt(value: string, field: string, tenantId?: string | null): Promise<string>
+  blindIndex(context: string, value: string): string
+}
+
+export interface FieldEncryptionOptions {
+  crypto: FieldCrypto
+  relations: RelationMap
+  models?: Record<string, EncryptedModel>
+  /** Tenant owning the first row matching `where`, for updates */
+  findTenant?: (model: string, where: any) => Promise<string | null>
+  /** Tenant owning a parent row, for models reached through `tenantVia` */
+  findOwnerTenant?: (model: string, id: string) => Promise<string | null>
+  currentTenant?: () => string | null
+}
+
+const WRITE_OPERATIONS = new Set(['create', 'createMany', 'createManyAndReturn', 'update', 'updateMany', 'updateManyAndReturn', 'upsert'])
+const NO_RESULT_OPERATIONS = new Set(['count', 'aggregate', 'groupBy', 'createMany', 'updateMany', 'deleteMany'])
+const LIST_FILTERS = new Set(['some', 'every', 'none', 'is', 'isNot'])
+const EQUALITY_FILTERS = new Set(['equals', 'in', 'notIn', 'not', 'mode'])
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)
+
+const asArray = <T>(value: T | T[]): T[] => (Array.isArray(value) ? value : [value])
+
+/** Tenant whose data key seals a value, resolved only if something is sealed */
+type TenantRef = () => Promise<string | null>
+
+function once(resolve: TenantRef): TenantRef {
+  let pending: Promise<string | null> | undefined
+  return () => (pending ??= resolve())
+}
+
+export function createFieldEncryption(options: FieldEncryptionOptions) {
+  const { crypto, relations } = options
+  const models = options.models ?? ENCRYPTED_MODELS
+
+  const relatedModel = (model: string, field: string) => relations[model]?.[field]
+
+  function hashFilter(model: string, field: string, filter: any): any {
+    const context = `${model}.${field}`
+    const hash = (value: any) => (typeof value === 'string' ? crypto.blindIndex(context, value) : value)
+    if (!isObject(filter)) return hash(filter)
+
+    const rewritten: Record<string, any> = {}
+    for (const [op, value] of Object.entries(filter)) {
+      if (!EQUALITY_FILTERS.has(op)) {
+        throw new Error(`Field encryption: ${context} is encrypted and only supports equality filters, not "${op}"`)
+      }
+      if (op === 'mode') continue // Blind indexes are already case-insensitive
+      rewritten[op] = Array.isArray(value) ? value.map(hash) : op === 'not' && isObject(value) ? hashFilter(model, field, value) : hash(value)
+    }
+    return rewritten
+  }
+
+  /**
+   * Swap equality filters on encrypted fields for filters on their blind index
+   */
+  function rewriteWhere(model: string, where: any): any {
+    if (!isObject(where)) return where
+    const config = models[model]
+    const out: Record<string, any> = {}
+
+    for (const [key, value] of Object.entries(where)) {
+      const field = config?.fields[key]
+      if (key === 'AND' || key === 'OR' || key === 'NOT') {
+        out[key] = Array.isArray(value) ? value.map((clause) => rewriteWhere(model, clause)) : rewriteWhere(model, value)
+      } else if (field) {
+        if (value === null || (isObject(value) && Object.keys(value).every((op) => op === 'not' || op === 'equals') && Object.values(value).every((v) => v === null))) {
+          out[key] = value // Null checks work on ciphertext
+        } else if (!field.blindIndex) {
+          throw new Error(`Field encryption: ${model}.${key} is encrypted without a blind index and cannot be filtered on`)
+        } else {
+          out[field.blindIndex] = hashFilter(model, key, value)
+        }
+      } else if (relatedModel(model, key) && isObject(value)) {
+        const target = relatedModel(model, key)
+        const filters = Object.keys(value).length > 0 && Object.keys(value).every((k) => LIST_FILTERS.has(k))
+        out[key] = filters
+          ? Object.fromEntries(Object.entries(value).map(([op, clause]) => [op, rewriteWhere(target, clause)]))
+          : rewriteWhere(target, value)
+      } else {
+        out[key] = value
+      }
+    }
+    return out
+  }
+
+  async function sealField(model: string, name: string, field: EncryptedField, value: any, tenant: TenantRef, out: Record<string, any>) {
+    const raw = isObject(value) && 'set' in value && !field.json ? value.set : value
+    if (raw === undefined) return
+    if (raw === null || (field.json && !isPlainJson(raw))) {
+      out[name] = value // null, or Prisma.DbNull / JsonNull
+      if (field.blindIndex) out[field.blindIndex] = null
+      return
+    }
+    const plaintext = field.json ? JSON.stringify(raw) : String(raw)
+    out[name] = await crypto.encrypt(plaintext, await tenant(), `${model}.${name}`)
+    if (field.blindIndex) out[field.blindIndex] = crypto.blindIndex(`${model}.${name}`, plaintext)
+  }
+
+  async function nestedWrite(target: string, op: string, payload: any, tenant: TenantRef): Promise<any> {
+    const each = async (item: any) => {
+      switch (op) {
+        case 'create':
+          return encryptData(target, item, tenant)
+        case 'createMany':
+          return { ...item, data: await Promise.all(asArray(item.data).map((d: any) => encryptData(target, d, tenant))) }
+        case 'connectOrCreate':
+          return { where: rewriteWhere(target, item.where), create: await encryptData(target, item.create, tenant) }
+        case 'update':
+        case 'updateMany':
+          return isObject(item) && 'data' in item
+            ? { ...item, ...(item.where ? { where: rewriteWhere(target, item.where) } : {}), data: await encryptData(target, item.data, tenant) }
+            : encryptData(target, item, tenant)
+        case 'upsert':
+          return {
+            ...item,
+            ...(item.where ? { where: rewriteWhere(target, item.where) } : {}),
+            create: await encryptData(target, item.create, tenant),
+            update: await encryptData(target, item.update, tenant),
+          }
+        case 'connect':
+        case 'disconnect':
+        case 'delete':
+        case 'set':
+          return isObject(item) ? rewriteWhere(target, item) : item
+        case 'deleteMany':
+          return rewriteWhere(target, item)
+        default:
+          return item
+      }
+    }
+    return Array.isArray(payload) ? Promise.all(payload.map(each)) : each(payload)
+  }
+
+  /**
+   * Encrypt the fields of a create/update payload, recursing into nested writes
+   */
+  async function encryptData(model: string, data: any, tenant: TenantRef): Promise<any> {
+    if (!isObject(data)) return data
+    const config = models[model]
+    const owner: TenantRef = typeof data.tenantId === 'string' ? async () => data.tenantId : tenant
+    const out: Record<string, any> = {}
+
+    for (const [key, value] of Object.entries(data)) {
+      const field = config?.fields[key]
+      const target = relatedModel(model, key)
+      if (field) {
+        await sealField(model, key, field, value, owner, out)
+      } else if (target && isObject(value)) {
+        const nested: Record<string, any> = {}
+        for (const [op, payload] of Object.entries(value)) nested[op] = await nestedWrite(target, op, payload, owner)
+        out[key] = nested
+      } else {
+        out[key] = value
+      }
+    }
+    return out
+  }
+
+  /**
+   * Decrypt encrypted fields in a result, following the relations the query
+   * asked for
+   */
+  async function decryptResult(model: string, result: any, args: any): Promise<any> {
+    if (Array.isArray(result)) return Promise.all(result.map((row) => decryptResult(model, row, args)))
+    if (!isObject(result)) return result
+
+    const config = models[model]
+    if (config) {
+      // Rows that carry their tenant must only hold values sealed for it
+      const tenantId = 'tenantId' in result ? (result.tenantId as string | null) : undefined
+      for (const [name, field] of Object.entries(config.fields)) {
+        if (!isEnvelope(result[name])) continue
+        const plaintext = await crypto.decrypt(result[name], `${model}.${name}`, tenantId)
+        result[name] = field.json ? JSON.parse(plaintext) : plaintext
+      }
+    }
+
+    for (const projection of [args?.include, args?.select]) {
+      if (!isObject(projection)) continue
+      for (const [key, nested] of Object.entries(projection)) {
+        const target = relatedModel(model, key)
+        if (target && nested && result[key] != null) {
+          result[key] = await decryptResult(target, result[key], isObject(nested) ? nested : undefined)
+        }
+      }
+    }
+    return result
+  }
+
+  /**
+   * Owner of a top-level write whose payload does not carry a tenantId
+   */
+  async function resolveTenant(model: string, args: any, where: any): Promise<string | null> {
+    const sample = asArray(args.data ?? args.create ?? {})[0] ?? {}
+    const via = models[model]?.tenantVia
+    if (via && typeof sample[via.foreignKey] === 'string' && options.findOwnerTenant) {
+      const owner = await options.findOwnerTenant(via.model, sample[via.foreignKey])
+      if (owner) return owner
+    }
+    if (where && options.findTenant) {
+      const existing = await options.findTenant(model, where)
+      if (existing) return existing
+    }
+    return options.currentTenant?.() ?? null
+  }
+
+  /**
+   * Transform one model operation's arguments, run it, and decrypt the result
+   */
+  async function apply(model: string, operation: string, args: any, query: (args: any) => Promise<any>): Promise<any> {
+    const next: any = isObject(args) ? { ...args } : args
+    if (isObject(next)) {
+      if (next.where) next.where = rewriteWhere(model, next.where)
+
+      if (WRITE_OPERATIONS.has(operation)) {
+        const where = next.where
+        const tenant = once(() => resolveTenant(model, args, where))
+        if (next.data) next.data = Array.isArray(next.data) ? await Promise.all(next.data.map((d: any) => encryptData(model, d, tenant))) : await encryptData(model, next.data, tenant)
+        if (next.create) next.create = await encryptData(model, next.create, tenant)
+        if (next.update) next.update = await encryptData(model, next.update, tenant)
+      }
+    }
+
+    const result = await query(next)
+    return NO_RESULT_OPERATIONS.has(operation) ? result : decryptResult(model, result, next)
+  }
+
+  return { apply, rewriteWhere, encryptData, decryptResult }
+}
+
+function isPlainJson(value: unknown): boolean {
+  if (value === null || typeof value !== 'object') return true
+  const proto = Object.getPrototypeOf(value)
+  return Array.isArray(value) || proto === Object.prototype || proto === null
+}
+
+// ============================================================================
+// Client wiring
+// ============================================================================
+
+let fieldKeyring: FieldKeyring | null = null
+
+const delegateName = (model: string) => model.charAt(0).toLowerCase() + model.slice(1)
+
+/**
+ * Extend a client with field encryption. `datamodel` is the generated
+ * client's `Prisma.dmmf.datamodel.models`. Key lookups and tenant resolution
+ * go through the base client so they never re-enter the extension.
+ */
+export function registerFieldEncryption<T extends { $extends: (...args: any[]) => any }>(
+  client: T,
+  datamodel: ReadonlyArray<{ name: string; fields: ReadonlyArray<any> }>
+): T {
+  const base = client as any
+  fieldKeyring = new FieldKeyring(new PrismaDataKeyStore(base), new LocalKeyFileProvider())
+  const keyring = fieldKeyring
+
+  const encryption = createFieldEncryption({
+    crypto: keyring,
+    relations: relationsFromDmmf(datamodel),
+    findTenant: async (model, where) => {
+      const via = ENCRYPTED_MODELS[model]?.tenantVia
+      const row = await base[delegateName(model)].findFirst({
+        where,
+        select: via ? { [via.relation]: { select: { tenantId: true } } } : { tenantId: true },
+      })
+      return (via ? row?.[via.relation]?.tenantId : row?.tenantId) ?? null
+    },
+    findOwnerTenant: async (model, id) => {
+      const row = await base[delegateName(model)].findUnique({ where: { id }, select: { tenantId: true } })
+      return row?.tenantId ?? null
+    },
+    currentTenant: () => tenantContext.getContextOrNull()?.tenantId ?? null,
+  })
+
+  return base.$extends({
+    name: 'field-encryption',
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }: any) {
+          return encryption.apply(model, operation, args, query)
+        },
+      },
+    },
+  }) as T
+}
+
+async function activeKeyring(): Promise<FieldKeyring | null> {
+  if (!fieldKeyring) {
+    // The keyring is created with the real client; mock clients have none
+    const { getPrisma } = await import('@/lib/prisma')
+    await getPrisma()
+  }
+  return fieldKeyring
+}
+
+export async function getFieldKeyring(): Promise<FieldKeyring | null> {
+  return activeKeyring()
+}
+
+/**
+ * Encrypt a value stored outside the designated fields, such as MFA secrets.
+ * `field` names where it is stored, e.g. "VerificationToken.token". Without
+ * a database-backed client the value is returned unchanged.
+ */
+export async function encryptFieldValue(plaintext: string, field: string, tenantId: string | null = null): Promise<string> {
+  const keyring = await activeKeyring()
+  return keyring ? keyring.encrypt(plaintext, tenantId, field) : plaintext
+}
+
+export async function decryptFieldValue(value: string, field: string): Promise<string> {
+  if (!isEnvelope(value)) return value
+  const keyring = await activeKeyring()
+  if (!keyring) throw new Error('Field encryption: no keyring available to decrypt value')
+  return keyring.decrypt(value, field)
+}
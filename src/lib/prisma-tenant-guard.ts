@@ -29,6 +29,8 @@ const BULK_MUTATION_ACTIONS: ReadonlySet<GuardedAction> = new Set(['updateMany',
 const SINGLE_MUTATION_ACTIONS: ReadonlySet<GuardedAction> = new Set(['update', 'delete'])
 const READ_ACTIONS: ReadonlySet<GuardedAction> = new Set(['findFirst', 'findUnique', 'findMany', 'aggregate', 'count', 'groupBy'])
 const AUTH_MODEL_NAMES: ReadonlySet<string> = new Set(['Account', 'Session', 'VerificationToken'])
+// Data keys are looked up by id across tenants, and platform keys have no tenant
+const KEY_MODEL_NAMES: ReadonlySet<string> = new Set(['TenantDataKey'])
 
 let tenantModelConfigs: ReadonlyMap<string, TenantModelConfig> | null = null
 
@@ -199,7 +201,7 @@ export function enforceTenantGuard(params: any): void {
   const model = params.model
   if (!model) return
 
-  if (AUTH_MODEL_NAMES.has(model)) return
+  if (AUTH_MODEL_NAMES.has(model) || KEY_MODEL_NAMES.has(model)) return
 
   const requestUrl =
     typeof params?.args?.context?.req?.url === 'string'
@@ -1,6 +1,7 @@
 import type { PrismaClient as PrismaClientType } from '@prisma/client'
 import { registerTenantGuard } from '@/lib/prisma-tenant-guard'
 import { setupPrismaQueryMonitor } from '@/lib/prisma-query-monitor'
+import { registerFieldEncryption } from '@/lib/prisma-field-encryption'
 
 declare global {
   // Cache Prisma in global for hot-reload/dev to avoid multiple instances
@@ -77,7 +78,8 @@ async function createRealClient(url: string): Promise<PrismaClientType> {
       setupPrismaQueryMonitor(client as any)
     }
 
-    return client
+    // Encrypt designated fields; middleware above still sees every query
+    return registerFieldEncryption(client, mod.Prisma?.dmmf?.datamodel?.models ?? [])
   } catch (err) {
     if (process.env.NODE_ENV === 'test') {
       // In test environments the generated client may not exist on disk
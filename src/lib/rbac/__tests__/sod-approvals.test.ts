@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { decideBill, submitBill } from '@/lib/payables/bill-approval'
+import { decideClaim, submitClaim } from '@/lib/expenses/claim-approval'
+
+// In-memory tables behind the Prisma calls approvals make. Plain functions:
+// the global setup resets vi.fn implementations after each test.
+const db = vi.hoisted(() => {
+  type Row = Record<string, any>
+  const tables: Record<string, Row[]> = {}
+  let sequence = 0
+
+  const matches = (row: Row, where: Row = {}) =>
+    Object.entries(where).every(([key, value]) => {
+      if (value && typeof value === 'object' && !(value instanceof Date)) {
+        if ('in' in value) return value.in.includes(row[key])
+        if ('not' in value) return row[key] !== value.not
+        return true // Relation filters
+      }
+      return row[key] === value
+    })
+
+  const relations: Record<string, Record<string, [string, string]>> = {
+    bills: { approvals: ['billApprovals', 'billId'], lines: ['billLines', 'billId'] },
+    claims: { approvals: ['claimApprovals', 'claimId'] },
+  }
+
+  const withRelations = (name: string, row: Row, spec?: Row) => {
+    const out: Row = { ...row }
+    for (const [field, option] of Object.entries(spec || {})) {
+      const relation = relations[name]?.[field]
+      if (!relation) continue
+      const [target, foreignKey] = relation
+      out[field] = (tables[target] || []).filter((r) => r[foreignKey] === row.id && matches(r, option?.where))
+    }
+    return out
+  }
+
+  const model = (name: string) => {
+    const rows = () => (tables[name] ||= [])
+    const find = (args: Row = {}) => {
+      const row = rows().find((r) => matches(r, args.where))
+      return row ? withRelations(name, row, args.include || args.select) : null
+    }
+    const updateMany = ({ where, data }: Row) => {
+      const hit = rows().filter((r) => matches(r, where))
+      hit.forEach((r) => Object.assign(r, data))
+      return { count: hit.length }
+    }
+    const create = ({ data }: Row) => {
+      const row = { id: `${name}-${++sequence}`, status: 'PENDING', createdAt: new Date(), ...data }
+      rows().push(row)
+      return row
+    }
+    return {
+      findFirst: async (args: Row) => find(args),
+      findUnique: async (args: Row) => find(args),
+      findUniqueOrThrow: async (args: Row) => find(args),
+      findMany: async (args: Row = {}) => rows().filter((r) => matches(r, args.where)).map((r) => withRelations(name, r, args.include || args.select)),
+      count: async (args: Row = {}) => rows().filter((r) => matches(r, args.where)).length,
+      update: async ({ where, data }: Row) => (updateMany({ where, data }), find({ where })),
+      updateMany: async (args: Row) => updateMany(args),
+      create: async (args: Row) => create(args),
+      createMany: async ({ data }: Row) => ({ count: data.map((d: Row) => create({ data: d })).length }),
+    }
+  }
+
+  const prisma: Row = {
+    bill: model('bills'),
+    billLine: model('billLines'),
+    billApproval: model('billApprovals'),
+    expenseClaim: model('claims'),
+    expenseClaimApproval: model('claimApprovals'),
+    expense: model('expenses'),
+    user: model('users'),
+    sodPolicy: { findUnique: async () => null },
+    expensePolicy: { findUnique: async () => null },
+    $transaction: async (fn: (tx: Row) => unknown) => fn(prisma),
+  }
+
+  return {
+    prisma,
+    tables,
+    reset() {
+      for (const key of Object.keys(tables)) delete tables[key]
+      sequence = 0
+    },
+  }
+})
+
+vi.mock('@/lib/prisma', () => ({ default: db.prisma }))
+vi.mock('@/lib/accounting/posting', () => ({
+  postBill: async () => null,
+  postExpenseClaim: async () => null,
+  postExpenseClaimReimbursement: async () => null,
+  postSafely: async () => null,
+}))
+vi.mock('@/lib/bpm/process-engine', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/bpm/process-engine')>('@/lib/bpm/process-engine')
+  return { ...actual, processEngine: new actual.ProcessEngine() }
+})
+vi.mock('@/lib/expenses/claims', async () => {
+  const actual = await vi.importActual<typeof import('@/lib/expenses/claims')>('@/lib/expenses/claims')
+  return { ...actual, refreshClaim: async (id: string) => db.tables.claims.find((c) => c.id === id) }
+})
+
+const TENANT = 't1'
+const lead = { id: 'lead-1', role: 'TEAM_LEAD' }
+const admin = { id: 'admin-1', role: 'ADMIN' }
+
+async function failure(fn: () => Promise<unknown>) {
+  try {
+    await fn()
+  } catch (error: any) {
+    return error.code
+  }
+  return null
+}
+
+describe('approvals across submission rounds', () => {
+  beforeEach(() => {
+    db.reset()
+  })
+
+  describe('bills', () => {
+    beforeEach(async () => {
+      // Large enough to need a team lead and an admin
+      await db.prisma.bill.create({
+        data: { id: 'b1', tenantId: TENANT, createdBy: 'clerk', status: 'DRAFT', totalCents: 6_000_000, currency: 'AED', vendorId: 'v1', entityId: 'e1' },
+      })
+    })
+
+    it('should let a first-round approver approve again after a rejection and resubmission', async () => {
+      await submitBill(TENANT, 'b1', 'clerk')
+      await decideBill(TENANT, 'b1', lead, 'APPROVED')
+      expect((await decideBill(TENANT, 'b1', admin, 'REJECTED', 'Wrong vendor')).status).toBe('REJECTED')
+
+      await submitBill(TENANT, 'b1', 'clerk')
+      await decideBill(TENANT, 'b1', lead, 'APPROVED')
+      const bill = await decideBill(TENANT, 'b1', admin, 'APPROVED')
+
+      expect(bill.status).toBe('APPROVED')
+      expect(bill.approvals.map((a: any) => a.status)).toEqual(['SUPERSEDED', 'REJECTED', 'APPROVED', 'APPROVED'])
+    })
+
+    it('should have a super admin decide one level per call', async () => {
+      const boss = { id: 'boss', role: 'SUPER_ADMIN' }
+      await submitBill(TENANT, 'b1', 'clerk')
+
+      const bill = await decideBill(TENANT, 'b1', boss, 'APPROVED')
+      expect(bill.status).toBe('PENDING_APPROVAL')
+      expect(bill.approvals.filter((a: any) => a.status === 'PENDING')).toHaveLength(1)
+      expect(await failure(() => decideBill(TENANT, 'b1', boss, 'APPROVED'))).toBe('SOD_CONFLICT')
+    })
+  })
+
+  describe('expense claims', () => {
+    beforeEach(async () => {
+      await db.prisma.user.create({ data: { id: 'emp', managerId: 'mgr' } })
+      await db.prisma.expenseClaim.create({ data: { id: 'c1', tenantId: TENANT, userId: 'emp', status: 'DRAFT', totalCents: 5000 } })
+      await db.prisma.expense.create({ data: { id: 'x1', claimId: 'c1', reviewStatus: 'OK' } })
+    })
+
+    it('should let a first-round manager approve again after a rejection and resubmission', async () => {
+      const manager = { id: 'mgr', role: 'TEAM_LEAD' }
+      await submitClaim(TENANT, 'c1', 'emp')
+      await decideClaim(TENANT, 'c1', manager, 'APPROVED')
+      expect((await decideClaim(TENANT, 'c1', admin, 'REJECTED', 'Missing receipt')).status).toBe('REJECTED')
+
+      await submitClaim(TENANT, 'c1', 'emp')
+      expect((await decideClaim(TENANT, 'c1', manager, 'APPROVED')).status).toBe('PENDING_FINANCE')
+      expect((await decideClaim(TENANT, 'c1', admin, 'APPROVED')).status).toBe('APPROVED')
+    })
+  })
+})
@@ -0,0 +1,126 @@
+import { describe, expect, it } from 'vitest'
+import {
+  canOverrideSoD,
+  checkSoDOverride,
+  DEFAULT_SOD_POLICY,
+  findRoleAssignmentConflicts,
+  findSoDConflicts,
+  SoDConflict,
+} from '../sod-engine'
+
+const policy = { ...DEFAULT_SOD_POLICY, overridesEnabled: true }
+const justification = 'Only finance approver on leave, CFO approved by phone'
+
+function rejection(fn: () => unknown) {
+  try {
+    fn()
+  } catch (error: any) {
+    return { code: error.code, status: error.status, details: error.details }
+  }
+  return null
+}
+
+describe('Segregation of duties engine', () => {
+  describe('findSoDConflicts', () => {
+    it('should flag a user releasing a payment run for a bill they entered or approved', () => {
+      const duties = [
+        { duty: 'payment.schedule', userId: 'u2' },
+        { duty: 'bill.enter', userId: 'u1' },
+        { duty: 'bill.approve', userId: 'u1' },
+        { duty: 'bill.enter', userId: 'u1' },
+      ]
+
+      const conflicts = findSoDConflicts('payment.release', 'u1', duties)
+
+      expect(conflicts.map((c) => c.duty)).toEqual(['bill.enter', 'bill.approve'])
+      expect(conflicts.every((c) => c.ruleId === 'sod-001')).toBe(true)
+      expect(findSoDConflicts('payment.release', 'u3', duties)).toEqual([])
+    })
+
+    it('should keep a filing preparer from submitting it', () => {
+      expect(findSoDConflicts('filing.submit', 'u1', [{ duty: 'filing.prepare', userId: 'u1' }])).toMatchObject([
+        { ruleId: 'sod-002', description: 'You prepared the filing' },
+      ])
+    })
+
+    it('should only count duties the action conflicts with', () => {
+      expect(findSoDConflicts('filing.submit', 'u1', [{ duty: 'bill.enter', userId: 'u1' }])).toEqual([])
+      expect(findSoDConflicts('bill.approve', 'u1', [{ duty: 'bill.enter', userId: null }])).toEqual([])
+    })
+
+    it('should stop one person approving an expense claim at both levels', () => {
+      expect(findSoDConflicts('expense_claim.approve', 'u1', [{ duty: 'expense_claim.approve', userId: 'u1' }])).toMatchObject([
+        { ruleId: 'sod-006' },
+      ])
+    })
+  })
+
+  describe('checkSoDOverride', () => {
+    const conflicts: SoDConflict[] = findSoDConflicts('bill.approve', 'u1', [{ duty: 'bill.approve', userId: 'u1' }])
+
+    it('should block a conflict sent without an override and say whether one is possible', () => {
+      expect(rejection(() => checkSoDOverride('bill.approve', conflicts, policy, { id: 'u1', role: 'ADMIN' }))).toMatchObject({
+        code: 'SOD_CONFLICT',
+        status: 403,
+        details: { overridable: true },
+      })
+      expect(rejection(() => checkSoDOverride('bill.approve', conflicts, DEFAULT_SOD_POLICY, { id: 'u1', role: 'ADMIN' }))).toMatchObject({
+        details: { overridable: false },
+      })
+    })
+
+    it('should allow an override only to configured roles', () => {
+      const override = { justification, stepUpMethod: 'totp', stepUpMethods: [] }
+      expect(rejection(() => checkSoDOverride('bill.approve', conflicts, policy, { id: 'u1', role: 'TEAM_LEAD' }, override))).toMatchObject({
+        code: 'SOD_OVERRIDE_NOT_ALLOWED',
+      })
+      expect(canOverrideSoD({ ...policy, overrideRoles: ['TEAM_LEAD'] }, 'team_lead')).toBe(true)
+      expect(canOverrideSoD(DEFAULT_SOD_POLICY, 'ADMIN')).toBe(false)
+    })
+
+    it('should require a justification and step-up authentication', () => {
+      const actor = { id: 'u1', role: 'ADMIN' }
+      const stepUpMethods = ['webauthn', 'totp', 'backup_code']
+      expect(rejection(() => checkSoDOverride('bill.approve', conflicts, policy, actor, { justification: 'urgent', stepUpMethod: 'totp', stepUpMethods: [] }))).toMatchObject({
+        code: 'JUSTIFICATION_REQUIRED',
+      })
+      expect(rejection(() => checkSoDOverride('bill.approve', conflicts, policy, actor, { justification, stepUpMethod: null, stepUpMethods }))).toMatchObject({
+        code: 'STEP_UP_REQUIRED',
+        status: 401,
+        details: { methods: stepUpMethods },
+      })
+      expect(rejection(() => checkSoDOverride('bill.approve', conflicts, policy, actor, { justification, stepUpMethod: null, stepUpMethods: [] }))).toMatchObject({
+        code: 'STEP_UP_NOT_ENROLLED',
+        status: 403,
+      })
+      expect(
+        checkSoDOverride('bill.approve', conflicts, policy, actor, { justification: `  ${justification} `, stepUpMethod: 'backup_code', stepUpMethods: [] })
+      ).toBe(justification)
+    })
+  })
+
+  describe('findRoleAssignmentConflicts', () => {
+    it('should report users whose roles on an entity combine conflicting duties', () => {
+      const conflicts = findRoleAssignmentConflicts([
+        { userId: 'u1', entityId: 'e1', role: 'FINANCE_MANAGER' },
+        { userId: 'u2', entityId: 'e1', role: 'VIEWER' },
+        { userId: 'u2', entityId: 'e2', role: 'ACCOUNTANT' },
+        { userId: 'u3', entityId: 'e1', role: 'UNKNOWN' },
+      ])
+
+      expect(conflicts.map((c) => c.userId)).toEqual(['u1'])
+      expect(conflicts[0]).toMatchObject({ entityId: 'e1', roles: ['FINANCE_MANAGER'] })
+      expect(conflicts[0].ruleIds).toContain('sod-001')
+    })
+
+    it('should apply tenant-wide roles on every entity the user is on', () => {
+      const conflicts = findRoleAssignmentConflicts([
+        { userId: 'u1', entityId: 'e1', role: 'CLIENT_OWNER' },
+        { userId: 'u1', entityId: 'e2', role: 'VIEWER' },
+      ])
+
+      expect(conflicts.map((c) => c.entityId)).toEqual(['e1', 'e2'])
+      expect(conflicts[1]).toMatchObject({ roles: ['CLIENT_OWNER', 'VIEWER'], ruleIds: ['sod-001', 'sod-002'] })
+    })
+  })
+})
@@ -431,6 +431,11 @@ export const SEGREGATION_OF_DUTIES_RULES: SoDRule[] = [
     conflictingPermissions: [['documents.upload', 'documents.delete']],
     allowed: true,
   },
+  {
+    id: 'sod-006',
+    description: 'Each approval level of an expense claim needs a different approver',
+    allowed: false,
+  },
 ]
 
 /**
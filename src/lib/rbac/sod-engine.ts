@@ -0,0 +1,348 @@
+import { z } from 'zod'
+import prisma from '@/lib/prisma'
+import { logger } from '@/lib/logger'
+import { ApiError } from '@/lib/api/error-responses'
+import { PORTAL_ROLES, PortalRole, validateSoD } from './portal-roles'
+
+/**
+ * Segregation of Duties Enforcement
+ *
+ * Checks, at the moment a sensitive action is taken on a record, who
+ * performed the earlier steps on that same record: one person does not
+ * approve a bill at two levels, whoever prepared a filing does not submit
+ * it. A conflict blocks the action unless the tenant allows overrides and
+ * the user gives a justification and passes step-up authentication; every
+ * override is kept as evidence. A periodic report lists role assignments
+ * on `UserOnEntity` that combine duties the rules keep apart.
+ */
+
+export type SoDAction = 'bill.approve' | 'payment.release' | 'filing.submit' | 'expense_claim.approve'
+
+export const SOD_ACTIONS: SoDAction[] = ['bill.approve', 'payment.release', 'filing.submit', 'expense_claim.approve']
+
+/**
+ * An earlier step on a record and who performed it
+ */
+export interface SoDDuty {
+  duty: string
+  userId: string | null
+}
+
+export interface SoDActionPolicy {
+  ruleId: string // Entry in SEGREGATION_OF_DUTIES_RULES
+  conflictingDuties: string[]
+}
+
+export const SOD_ACTION_POLICIES: Record<SoDAction, SoDActionPolicy> = {
+  'bill.approve': { ruleId: 'sod-001', conflictingDuties: ['bill.approve'] }, // Entering it is refused outright as self-approval
+  'payment.release': { ruleId: 'sod-001', conflictingDuties: ['payment.schedule', 'bill.enter', 'bill.approve'] },
+  'filing.submit': { ruleId: 'sod-002', conflictingDuties: ['filing.prepare'] },
+  'expense_claim.approve': { ruleId: 'sod-006', conflictingDuties: ['expense_claim.approve'] },
+}
+
+const DUTY_DESCRIPTIONS: Record<string, string> = {
+  'bill.enter': 'You entered the bill',
+  'bill.approve': 'You already approved the bill',
+  'payment.schedule': 'You scheduled the payment run',
+  'filing.prepare': 'You prepared the filing',
+  'expense_claim.approve': 'You already approved the claim at another level',
+}
+
+export interface SoDConflict {
+  ruleId: string
+  action: SoDAction
+  duty: string
+  description: string
+}
+
+/**
+ * Earlier duties on the record that the user performed and that the
+ * action's rule keeps apart from it
+ */
+export function findSoDConflicts(action: SoDAction, userId: string, duties: SoDDuty[]): SoDConflict[] {
+  const policy = SOD_ACTION_POLICIES[action]
+  const conflicting = new Set(
+    duties.filter((d) => d.userId === userId && policy.conflictingDuties.includes(d.duty)).map((d) => d.duty)
+  )
+  return Array.from(conflicting).map((duty) => ({
+    ruleId: policy.ruleId,
+    action,
+    duty,
+    description: DUTY_DESCRIPTIONS[duty] || duty,
+  }))
+}
+
+/**
+ * Who performed the earlier steps on a record. Only approvals of the
+ * current round count: resubmitting a record supersedes earlier ones.
+ */
+export async function loadSoDDuties(tenantId: string, action: SoDAction, recordId: string): Promise<SoDDuty[]> {
+  switch (action) {
+    case 'bill.approve': {
+      const bill = await prisma.bill.findFirst({
+        where: { id: recordId, tenantId },
+        select: { approvals: { where: { status: 'APPROVED' }, select: { decidedBy: true } } },
+      })
+      return bill ? bill.approvals.map((a) => ({ duty: 'bill.approve', userId: a.decidedBy })) : []
+    }
+    case 'payment.release': {
+      const run = await prisma.paymentRun.findFirst({
+        where: { id: recordId, tenantId },
+        select: {
+          createdBy: true,
+          items: {
+            select: {
+              bill: {
+                select: { createdBy: true, approvals: { where: { status: 'APPROVED' }, select: { decidedBy: true } } },
+              },
+            },
+          },
+        },
+      })
+      if (!run) return []
+      return [
+        { duty: 'payment.schedule', userId: run.createdBy },
+        ...run.items.flatMap(({ bill }) => [
+          { duty: 'bill.enter', userId: bill.createdBy },
+          ...bill.approvals.map((a) => ({ duty: 'bill.approve', userId: a.decidedBy })),
+        ]),
+      ]
+    }
+    case 'filing.submit': {
+      const filing = await prisma.taxFiling.findFirst({ where: { id: recordId, tenantId }, select: { createdBy: true } })
+      return filing ? [{ duty: 'filing.prepare', userId: filing.createdBy }] : []
+    }
+    case 'expense_claim.approve': {
+      const approvals = await prisma.expenseClaimApproval.findMany({
+        where: { claimId: recordId, status: 'APPROVED', claim: { tenantId } },
+        select: { decidedBy: true },
+      })
+      return approvals.map((a) => ({ duty: 'expense_claim.approve', userId: a.decidedBy }))
+    }
+  }
+}
+
+export interface SoDPolicySettings {
+  overridesEnabled: boolean
+  overrideRoles: string[] // Roles that may override a conflict
+  disabledActions: SoDAction[] // Actions the tenant does not check
+}
+
+export const DEFAULT_SOD_POLICY: SoDPolicySettings = {
+  overridesEnabled: false,
+  overrideRoles: ['ADMIN', 'SUPER_ADMIN'],
+  disabledActions: [],
+}
+
+export const SoDPolicySchema = z.object({
+  overridesEnabled: z.boolean().default(false),
+  overrideRoles: z.array(z.string().trim().min(1).max(100)).default(['ADMIN', 'SUPER_ADMIN']),
+  disabledActions: z.array(z.enum(SOD_ACTIONS as [SoDAction, ...SoDAction[]])).default([]),
+})
+
+export type SoDPolicyInput = z.infer<typeof SoDPolicySchema>
+
+/**
+ * The tenant's segregation of duties settings, or the defaults when none are saved
+ */
+export async function getSoDPolicy(tenantId: string): Promise<SoDPolicySettings> {
+  const policy = await prisma.sodPolicy.findUnique({ where: { tenantId } })
+  if (!policy) return DEFAULT_SOD_POLICY
+  return {
+    overridesEnabled: policy.overridesEnabled,
+    overrideRoles: policy.overrideRoles,
+    disabledActions: policy.disabledActions.filter((a): a is SoDAction => SOD_ACTIONS.includes(a as SoDAction)),
+  }
+}
+
+export async function saveSoDPolicy(tenantId: string, input: SoDPolicyInput, userId?: string | null) {
+  const data = {
+    overridesEnabled: input.overridesEnabled,
+    overrideRoles: Array.from(new Set(input.overrideRoles.map((r) => r.toUpperCase()))),
+    disabledActions: input.disabledActions,
+    updatedBy: userId ?? null,
+  }
+  await prisma.sodPolicy.upsert({ where: { tenantId }, create: { tenantId, ...data }, update: data })
+  return getSoDPolicy(tenantId)
+}
+
+export function canOverrideSoD(policy: SoDPolicySettings, role?: string | null): boolean {
+  return policy.overridesEnabled && !!role && policy.overrideRoles.includes(role.toUpperCase())
+}
+
+const MIN_JUSTIFICATION_LENGTH = 20
+
+export const SoDOverrideSchema = z.object({
+  justification: z.string().trim().min(MIN_JUSTIFICATION_LENGTH, 'Explain why the override is needed').max(2000),
+})
+
+export interface SoDActor {
+  id: string
+  role?: string | null
+}
+
+/**
+ * An override the user asked for; `stepUpMethod` is null unless they
+ * passed step-up authentication for this request, and `stepUpMethods` are
+ * the factors they could pass it with
+ */
+export interface SoDOverride {
+  justification: string
+  stepUpMethod: string | null
+  stepUpMethods: string[]
+}
+
+/**
+ * Whether the action may go ahead despite its conflicts. Throws when it
+ * may not; returns the justification to record when an override applies.
+ */
+export function checkSoDOverride(
+  action: SoDAction,
+  conflicts: SoDConflict[],
+  policy: SoDPolicySettings,
+  actor: SoDActor,
+  override?: SoDOverride | null
+): string {
+  const overridable = canOverrideSoD(policy, actor.role)
+  if (!override) {
+    throw new ApiError('SOD_CONFLICT', conflicts.map((c) => c.description).join('. '), 403, { action, conflicts, overridable })
+  }
+  if (!overridable) {
+    throw new ApiError('SOD_OVERRIDE_NOT_ALLOWED', 'You may not override segregation of duties', 403, { action, conflicts })
+  }
+  const justification = override.justification?.trim() || ''
+  if (justification.length < MIN_JUSTIFICATION_LENGTH) {
+    throw new ApiError('JUSTIFICATION_REQUIRED', 'Explain why the override is needed', 422)
+  }
+  if (!override.stepUpMethod && !override.stepUpMethods.length) {
+    throw new ApiError('STEP_UP_NOT_ENROLLED', 'Register a passkey or authenticator app to override segregation of duties', 403)
+  }
+  if (!override.stepUpMethod) {
+    throw new ApiError('STEP_UP_REQUIRED', 'Confirm your identity to override segregation of duties', 401, {
+      methods: override.stepUpMethods,
+    })
+  }
+  return justification
+}
+
+/**
+ * Block the action when the user performed a conflicting earlier step on
+ * the record, unless an allowed override comes with it. Overrides are
+ * recorded.
+ */
+export async function enforceSoD(
+  tenantId: string,
+  action: SoDAction,
+  recordId: string,
+  actor: SoDActor,
+  override?: SoDOverride | null
+): Promise<void> {
+  const policy = await getSoDPolicy(tenantId)
+  if (policy.disabledActions.includes(action)) return
+
+  const conflicts = findSoDConflicts(action, actor.id, await loadSoDDuties(tenantId, action, recordId))
+  if (!conflicts.length) return
+
+  const justification = checkSoDOverride(action, conflicts, policy, actor, override)
+  await prisma.sodOverride.create({
+    data: {
+      tenantId,
+      action,
+      recordId,
+      userId: actor.id,
+      ruleIds: Array.from(new Set(conflicts.map((c) => c.ruleId))),
+      conflicts: conflicts.map(({ ruleId, duty, description }) => ({ ruleId, duty, description })),
+      justification,
+      stepUpMethod: override!.stepUpMethod!,
+    },
+  })
+  logger.warn('Segregation of duties overridden', { tenantId, action, recordId, userId: actor.id })
+}
+
+export interface RoleAssignment {
+  userId: string
+  entityId: string
+  role: string | null
+}
+
+export interface RoleAssignmentConflict {
+  userId: string
+  entityId: string
+  roles: PortalRole[]
+  ruleIds: string[]
+}
+
+/**
+ * Users whose portal roles on an entity combine conflicting duties.
+ * Tenant-wide roles held on any entity count on all of the user's entities.
+ */
+export function findRoleAssignmentConflicts(assignments: RoleAssignment[]): RoleAssignmentConflict[] {
+  const isPortalRole = (role: string | null): role is PortalRole => !!role && role in PORTAL_ROLES
+  const byUser = new Map<string, RoleAssignment[]>()
+  for (const assignment of assignments) {
+    byUser.set(assignment.userId, [...(byUser.get(assignment.userId) || []), assignment])
+  }
+
+  const conflicts: RoleAssignmentConflict[] = []
+  for (const [userId, held] of Array.from(byUser.entries())) {
+    const tenantRoles = held.map((a) => a.role).filter(isPortalRole).filter((r) => PORTAL_ROLES[r].scope === 'TENANT')
+    for (const entityId of Array.from(new Set(held.map((a) => a.entityId)))) {
+      const entityRoles = held.filter((a) => a.entityId === entityId).map((a) => a.role).filter(isPortalRole)
+      const roles = Array.from(new Set([...entityRoles, ...tenantRoles])).sort()
+      const { violations } = validateSoD(roles)
+      if (violations.length) conflicts.push({ userId, entityId, roles, ruleIds: violations.map((v) => v.id) })
+    }
+  }
+  return conflicts
+}
+
+/**
+ * Review the tenant's role assignments and the overrides recorded since
+ * the last report, and keep the result
+ */
+export async function generateSoDConflictReport(tenantId: string, options: { asOf?: Date; userId?: string | null } = {}) {
+  const periodEnd = options.asOf ?? new Date()
+  const previous = await prisma.sodConflictReport.findFirst({ where: { tenantId }, orderBy: { periodEnd: 'desc' } })
+  const periodStart = previous?.periodEnd ?? new Date(periodEnd.getTime() - 30 * 24 * 60 * 60 * 1000)
+
+  const assignments = await prisma.userOnEntity.findMany({
+    where: { entity: { tenantId } },
+    select: { userId: true, entityId: true, role: true },
+  })
+  const conflicts = findRoleAssignmentConflicts(assignments)
+  const overrideCount = await prisma.sodOverride.count({ where: { tenantId, createdAt: { gte: periodStart, lt: periodEnd } } })
+
+  const report = await prisma.sodConflictReport.create({
+    data: {
+      tenantId,
+      periodStart,
+      periodEnd,
+      assignmentsChecked: assignments.length,
+      conflictCount: conflicts.length,
+      conflicts: conflicts.map((c) => ({ ...c })),
+      overrideCount,
+      generatedBy: options.userId ?? null,
+    },
+  })
+  logger.info('SoD conflict report generated', { tenantId, conflicts: conflicts.length, overrides: overrideCount })
+  return report
+}
+
+/**
+ * Generate the periodic report for every active tenant
+ */
+export async function runSoDConflictReports(asOf: Date = new Date()) {
+  const result = { tenants: 0, conflicts: 0, failed: 0 }
+  const tenants = await prisma.tenant.findMany({ where: { status: 'ACTIVE' }, select: { id: true } })
+  for (const tenant of tenants) {
+    try {
+      const report = await generateSoDConflictReport(tenant.id, { asOf })
+      result.tenants += 1
+      result.conflicts += report.conflictCount
+    } catch (err) {
+      result.failed += 1
+      logger.error('SoD conflict report failed', { tenantId: tenant.id, error: String(err) })
+    }
+  }
+  return result
+}
@@ -71,6 +71,8 @@ export interface CountryConfig {
   corporateTaxRate?: number
   zakatRate?: number
   withholdingTaxRate?: number
+  perDiemRate?: number // Daily travel allowance, local currency
+  mileageRate?: number // Per km driven on business, local currency
   registrationUrl?: string
   paymentUrl?: string
   economicZones: EconomicZone[]
@@ -505,6 +507,8 @@ export const UAE: CountryConfig = {
   weekendDays: [5, 6], // Friday, Saturday
   taxRate: 0.05, // 5% VAT
   corporateTaxRate: 0.09,
+  perDiemRate: 400,
+  mileageRate: 0.75,
   registrationUrl: 'https://www.fta.gov.ae',
   paymentUrl: 'https://www.fta.gov.ae/services',
   economicZones: uaeEconomicZones,
@@ -535,6 +539,8 @@ export const KSA: CountryConfig = {
   taxRate: 0.15, // 15% VAT
   zakatRate: 0.025,
   withholdingTaxRate: 0.05,
+  perDiemRate: 450,
+  mileageRate: 0.8,
   registrationUrl: 'https://www.zatca.gov.sa',
   paymentUrl: 'https://www.zatca.gov.sa/payment',
   economicZones: ksaEconomicZones,
@@ -563,6 +569,8 @@ export const EGYPT: CountryConfig = {
   timeFormat: 'HH:mm',
   weekendDays: [5, 6], // Friday, Saturday
   taxRate: 0.14, // 14% VAT
+  perDiemRate: 1500,
+  mileageRate: 4,
   registrationUrl: 'https://www.sis.gov.eg',
   paymentUrl: 'https://www.eta.gov.eg',
   economicZones: egyptEconomicZones,
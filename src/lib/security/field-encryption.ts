@@ -0,0 +1,440 @@
+import { createCipheriv, createDecipheriv, createHmac, randomBytes, randomUUID } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { dirname } from 'path'
+import { logger } from '@/lib/logger'
+
+/**
+ * Field Encryption
+ *
+ * Envelope encryption for individual column values. Each tenant has its own
+ * data keys; data keys are stored wrapped by a master key that never leaves
+ * the key provider. Values are sealed with AES-256-GCM into a self-describing
+ * envelope naming the data key, so any historical key can still open them:
+ *
+ *   enc:v1:<dataKeyId>:<iv>:<tag>:<ciphertext>
+ *
+ * The key id, the tenant owning the key and the column are authenticated
+ * with each value, so it only opens where it was written.
+ *
+ * Blind indexes are keyed HMACs of the normalised plaintext, letting callers
+ * look a row up by exact value without decrypting every candidate.
+ */
+
+export const ENVELOPE_PREFIX = 'enc:v1:'
+
+const CIPHER = 'aes-256-gcm'
+const KEY_BYTES = 32
+const IV_BYTES = 12
+
+export type DataKeyStatus = 'ACTIVE' | 'RETIRING' | 'RETIRED'
+
+export interface DataKeyRecord {
+  id: string
+  tenantId: string | null // null = platform key
+  wrappedKey: string
+  masterKeyId: string
+  status: DataKeyStatus
+  createdAt: Date
+  retiredAt?: Date | null
+}
+
+export interface DataKeyStore {
+  get(id: string): Promise<DataKeyRecord | undefined>
+  /** Newest first */
+  list(filter: { tenantId?: string | null; statuses?: DataKeyStatus[] }): Promise<DataKeyRecord[]>
+  save(record: DataKeyRecord): Promise<DataKeyRecord>
+}
+
+/** Where a sealed value belongs: its tenant and column, e.g. "Party.taxId" */
+export interface FieldContext {
+  tenantId: string | null
+  field: string
+}
+
+export interface MasterKeyProvider {
+  activeMasterKeyId(): string
+  masterKey(id: string): Buffer
+  blindIndexKey(): Buffer
+}
+
+// ============================================================================
+// Primitives
+// ============================================================================
+
+const b64 = (buf: Buffer) => buf.toString('base64url')
+
+function seal(key: Buffer, plaintext: string, aad: string): string[] {
+  const iv = randomBytes(IV_BYTES)
+  const cipher = createCipheriv(CIPHER, key, iv)
+  cipher.setAAD(Buffer.from(aad))
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  return [b64(iv), b64(cipher.getAuthTag()), b64(ciphertext)]
+}
+
+function open(key: Buffer, parts: string[], aad: string): string {
+  const [iv, tag, ciphertext] = parts.map((p) => Buffer.from(p, 'base64url'))
+  const decipher = createDecipheriv(CIPHER, key, iv)
+  decipher.setAAD(Buffer.from(aad))
+  decipher.setAuthTag(tag)
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8')
+}
+
+export function isEnvelope(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX)
+}
+
+function associatedData(keyId: string, context: FieldContext): string {
+  return [keyId, context.tenantId ?? '', context.field].join('\u0000')
+}
+
+/**
+ * Seal a value under a data key. The key id, tenant and column are bound as
+ * associated data, so an envelope cannot be relabelled to another key or
+ * copied to another tenant or column.
+ */
+export function encryptWithKey(keyId: string, key: Buffer, plaintext: string, context: FieldContext): string {
+  return `${ENVELOPE_PREFIX}${keyId}:${seal(key, plaintext, associatedData(keyId, context)).join(':')}`
+}
+
+export function parseEnvelope(value: string): { keyId: string; parts: string[] } {
+  const parts = value.slice(ENVELOPE_PREFIX.length).split(':')
+  if (parts.length !== 4) throw new Error('Field encryption: malformed envelope')
+  return { keyId: parts[0], parts: parts.slice(1) }
+}
+
+export function decryptWithKey(value: string, key: Buffer, context: FieldContext): string {
+  const { keyId, parts } = parseEnvelope(value)
+  return open(key, parts, associatedData(keyId, context))
+}
+
+export function wrapDataKey(masterKey: Buffer, dataKey: Buffer, dataKeyId: string): string {
+  return seal(masterKey, dataKey.toString('base64'), dataKeyId).join(':')
+}
+
+export function unwrapDataKey(masterKey: Buffer, wrappedKey: string, dataKeyId: string): Buffer {
+  return Buffer.from(open(masterKey, wrappedKey.split(':'), dataKeyId), 'base64')
+}
+
+/**
+ * Identifiers are compared ignoring case and whitespace, so "ab 123" and
+ * "AB123" share a blind index.
+ */
+export function normalizeForIndex(value: string): string {
+  return value.normalize('NFKC').replace(/\s+/g, '').toUpperCase()
+}
+
+/**
+ * Keyed hash of a value for equality lookups. The context (e.g. "Party.taxId")
+ * keeps equal values in different columns from sharing a hash.
+ */
+export function blindIndex(key: Buffer, context: string, value: string): string {
+  return createHmac('sha256', key).update(`${context}\u0000${normalizeForIndex(value)}`).digest('hex')
+}
+
+function isUniqueViolation(error: unknown): boolean {
+  return String((error as { code?: unknown })?.code) === 'P2002'
+}
+
+// ============================================================================
+// Local key file provider
+// ============================================================================
+
+interface KeyFile {
+  activeMasterKeyId: string
+  masterKeys: Record<string, string> // id -> base64 key
+  blindIndexKey: string
+}
+
+export const DEFAULT_KEY_FILE = '.keys/field-encryption.json'
+
+function generateKeyFile(): KeyFile {
+  const id = `mk-${new Date().toISOString().slice(0, 10)}`
+  return {
+    activeMasterKeyId: id,
+    masterKeys: { [id]: randomBytes(KEY_BYTES).toString('base64') },
+    blindIndexKey: randomBytes(KEY_BYTES).toString('base64'),
+  }
+}
+
+/**
+ * Master keys read from a JSON key file. To rotate the master key, add a new
+ * entry to `masterKeys` and point `activeMasterKeyId` at it; the rotation job
+ * rewraps data keys and old entries can be removed once that has run. The
+ * blind index key must never change, or existing hashes stop matching.
+ *
+ * Outside production a missing file is created with fresh keys.
+ */
+export class LocalKeyFileProvider implements MasterKeyProvider {
+  private file?: KeyFile
+
+  constructor(private path: string = process.env.FIELD_ENCRYPTION_KEY_FILE || DEFAULT_KEY_FILE) {}
+
+  private load(): KeyFile {
+    if (this.file) return this.file
+
+    if (!existsSync(this.path)) {
+      if (process.env.NODE_ENV === 'production') {
+        throw new Error(`Field encryption key file not found at ${this.path}. Set FIELD_ENCRYPTION_KEY_FILE.`)
+      }
+      mkdirSync(dirname(this.path), { recursive: true })
+      writeFileSync(this.path, JSON.stringify(generateKeyFile(), null, 2), { mode: 0o600 })
+      logger.warn('Generated a new field encryption key file', { path: this.path })
+    }
+
+    const file = JSON.parse(readFileSync(this.path, 'utf8')) as KeyFile
+    if (!file.masterKeys?.[file.activeMasterKeyId] || !file.blindIndexKey) {
+      throw new Error(`Field encryption key file at ${this.path} is missing its active master key or blind index key`)
+    }
+    this.file = file
+    return file
+  }
+
+  activeMasterKeyId(): string {
+    return this.load().activeMasterKeyId
+  }
+
+  masterKey(id: string): Buffer {
+    const key = this.load().masterKeys[id]
+    if (!key) throw new Error(`Field encryption: master key ${id} is not in the key file`)
+    return Buffer.from(key, 'base64')
+  }
+
+  blindIndexKey(): Buffer {
+    return Buffer.from(this.load().blindIndexKey, 'base64')
+  }
+}
+
+// ============================================================================
+// Data key stores
+// ============================================================================
+
+function matchesKey(record: DataKeyRecord, filter: { tenantId?: string | null; statuses?: DataKeyStatus[] }) {
+  if (filter.tenantId !== undefined && record.tenantId !== filter.tenantId) return false
+  if (filter.statuses && !filter.statuses.includes(record.status)) return false
+  return true
+}
+
+export class MemoryDataKeyStore implements DataKeyStore {
+  private keys = new Map<string, DataKeyRecord>()
+
+  async get(id: string) {
+    return this.keys.get(id)
+  }
+
+  async list(filter: { tenantId?: string | null; statuses?: DataKeyStatus[] }) {
+    return Array.from(this.keys.values())
+      .filter((k) => matchesKey(k, filter))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+  }
+
+  async save(record: DataKeyRecord) {
+    this.keys.set(record.id, { ...record })
+    return record
+  }
+}
+
+/**
+ * Backed by the `TenantDataKey` table. Takes the unextended client so key
+ * lookups never re-enter the encryption extension.
+ */
+export class PrismaDataKeyStore implements DataKeyStore {
+  constructor(private client: any) {}
+
+  async get(id: string) {
+    const row = await this.client.tenantDataKey.findUnique({ where: { id } })
+    return (row as DataKeyRecord | null) ?? undefined
+  }
+
+  async list(filter: { tenantId?: string | null; statuses?: DataKeyStatus[] }) {
+    return (await this.client.tenantDataKey.findMany({
+      where: {
+        ...(filter.tenantId !== undefined ? { tenantId: filter.tenantId } : {}),
+        ...(filter.statuses ? { status: { in: filter.statuses } } : {}),
+      },
+      orderBy: { createdAt: 'desc' },
+    })) as DataKeyRecord[]
+  }
+
+  async save(record: DataKeyRecord) {
+    const { id, ...data } = record
+    await this.client.tenantDataKey.upsert({ where: { id }, create: record, update: data })
+    return record
+  }
+}
+
+// ============================================================================
+// Keyring
+// ============================================================================
+
+const ACTIVE_KEY_TTL_MS = 5 * 60 * 1000
+
+/**
+ * Hands out data keys and seals or opens values with them. Unwrapped keys are
+ * cached in memory; the active key per tenant is re-read after a short TTL so
+ * a rotation in another process is picked up.
+ */
+export class FieldKeyring {
+  private keys = new Map<string, { key: Buffer; tenantId: string | null }>()
+  private active = new Map<string, { id: string; loadedAt: number }>()
+  private loading = new Map<string, Promise<string>>()
+
+  constructor(
+    private store: DataKeyStore,
+    private provider: MasterKeyProvider,
+    private now: () => number = Date.now
+  ) {}
+
+  private async createKey(tenantId: string | null): Promise<DataKeyRecord> {
+    const id = randomUUID()
+    const dataKey = randomBytes(KEY_BYTES)
+    const masterKeyId = this.provider.activeMasterKeyId()
+    const record: DataKeyRecord = {
+      id,
+      tenantId,
+      wrappedKey: wrapDataKey(this.provider.masterKey(masterKeyId), dataKey, id),
+      masterKeyId,
+      status: 'ACTIVE',
+      createdAt: new Date(this.now()),
+      retiredAt: null,
+    }
+    await this.store.save(record)
+    this.keys.set(id, { key: dataKey, tenantId })
+    return record
+  }
+
+  /**
+   * A tenant's first key. Another process may create it at the same time;
+   * the unique index on active keys lets one win and the other uses it.
+   */
+  private async createFirstKey(tenantId: string | null): Promise<string> {
+    try {
+      return (await this.createKey(tenantId)).id
+    } catch (error) {
+      if (!isUniqueViolation(error)) throw error
+      const [winner] = await this.store.list({ tenantId, statuses: ['ACTIVE'] })
+      if (!winner) throw error
+      return winner.id
+    }
+  }
+
+  /**
+   * Key new values for a tenant are sealed with, created on first use
+   */
+  async activeKeyId(tenantId: string | null): Promise<string> {
+    const cacheKey = tenantId ?? ''
+    const cached = this.active.get(cacheKey)
+    if (cached && this.now() - cached.loadedAt < ACTIVE_KEY_TTL_MS) return cached.id
+
+    // Concurrent writes for a tenant share one lookup, so first use creates one key
+    let pending = this.loading.get(cacheKey)
+    if (!pending) {
+      pending = this.store
+        .list({ tenantId, statuses: ['ACTIVE'] })
+        .then(async ([current]) => current?.id ?? (await this.createFirstKey(tenantId)))
+        .then((id) => {
+          this.active.set(cacheKey, { id, loadedAt: this.now() })
+          return id
+        })
+        .finally(() => this.loading.delete(cacheKey))
+      this.loading.set(cacheKey, pending)
+    }
+    return pending
+  }
+
+  private async loadKey(id: string): Promise<{ key: Buffer; tenantId: string | null }> {
+    const cached = this.keys.get(id)
+    if (cached) return cached
+
+    const record = await this.store.get(id)
+    if (!record) throw new Error(`Field encryption: data key ${id} not found`)
+    const loaded = { key: unwrapDataKey(this.provider.masterKey(record.masterKeyId), record.wrappedKey, id), tenantId: record.tenantId }
+    this.keys.set(id, loaded)
+    return loaded
+  }
+
+  async dataKey(id: string): Promise<Buffer> {
+    return (await this.loadKey(id)).key
+  }
+
+  async encrypt(plaintext: string, tenantId: string | null, field: string): Promise<string> {
+    const keyId = await this.activeKeyId(tenantId)
+    return encryptWithKey(keyId, await this.dataKey(keyId), plaintext, { tenantId, field })
+  }
+
+  /**
+   * Values written before encryption was enabled are returned unchanged.
+   * Given the tenant of the row the value was read from, a value sealed for
+   * another tenant is refused.
+   */
+  async decrypt(value: string, field: string, tenantId?: string | null): Promise<string> {
+    if (!isEnvelope(value)) return value
+    const { keyId } = parseEnvelope(value)
+    const { key, tenantId: owner } = await this.loadKey(keyId)
+    if (tenantId !== undefined && tenantId !== owner) {
+      throw new Error(`Field encryption: ${field} holds a value sealed for another tenant`)
+    }
+    return decryptWithKey(value, key, { tenantId: owner, field })
+  }
+
+  blindIndex(context: string, value: string): string {
+    return blindIndex(this.provider.blindIndexKey(), context, value)
+  }
+
+  /**
+   * Start a rotation: a fresh key becomes active and the previous ones are
+   * marked RETIRING until every value has been re-encrypted. Resuming an
+   * interrupted rotation keeps its key.
+   */
+  async beginRotation(tenantId: string | null): Promise<{ keyId: string; retiring: string[] }> {
+    const keys = await this.store.list({ tenantId, statuses: ['ACTIVE', 'RETIRING'] })
+    const alreadyRetiring = keys.filter((k) => k.status === 'RETIRING')
+    const [active] = keys.filter((k) => k.status === 'ACTIVE')
+
+    if (alreadyRetiring.length && active) {
+      this.active.set(tenantId ?? '', { id: active.id, loadedAt: this.now() })
+      return { keyId: active.id, retiring: alreadyRetiring.map((k) => k.id) }
+    }
+
+    const previous = keys.filter((k) => k.status === 'ACTIVE')
+    for (const key of previous) {
+      await this.store.save({ ...key, status: 'RETIRING' })
+    }
+    const next = await this.createKey(tenantId)
+    this.active.set(tenantId ?? '', { id: next.id, loadedAt: this.now() })
+    return { keyId: next.id, retiring: previous.map((k) => k.id) }
+  }
+
+  /**
+   * Retired keys stay in the store so anything written with them during the
+   * rotation window can still be read.
+   */
+  async finishRotation(tenantId: string | null): Promise<number> {
+    const retiring = await this.store.list({ tenantId, statuses: ['RETIRING'] })
+    for (const key of retiring) {
+      await this.store.save({ ...key, status: 'RETIRED', retiredAt: new Date(this.now()) })
+    }
+    return retiring.length
+  }
+
+  /**
+   * Rewrap data keys sealed by a master key other than the active one
+   */
+  async rewrapDataKeys(): Promise<number> {
+    const masterKeyId = this.provider.activeMasterKeyId()
+    const stale = (await this.store.list({})).filter((k) => k.masterKeyId !== masterKeyId)
+    for (const record of stale) {
+      const key = await this.dataKey(record.id)
+      await this.store.save({ ...record, masterKeyId, wrappedKey: wrapDataKey(this.provider.masterKey(masterKeyId), key, record.id) })
+    }
+    return stale.length
+  }
+
+  async activeKeyCreatedAt(tenantId: string | null): Promise<Date | null> {
+    const [current] = await this.store.list({ tenantId, statuses: ['ACTIVE'] })
+    return current?.createdAt ?? null
+  }
+
+  async hasRetiringKeys(tenantId: string | null): Promise<boolean> {
+    return (await this.store.list({ tenantId, statuses: ['RETIRING'] })).length > 0
+  }
+}
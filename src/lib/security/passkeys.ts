@@ -0,0 +1,155 @@
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import {
+  generateAuthenticationOptions,
+  generateChallenge,
+  generateRegistrationOptions,
+  readClientChallenge,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type AuthenticationResponseJSON,
+  type RegistrationResponseJSON,
+} from '@/lib/security/webauthn'
+
+/**
+ * Passkey storage and ceremonies
+ *
+ * Challenges are kept in the VerificationToken table like MFA secrets, bound
+ * to a purpose and, where known, the user, and are deleted on first use.
+ */
+
+export type PasskeyPurpose = 'register' | 'signin' | 'step-up'
+
+const CHALLENGE_PREFIX = 'webauthn:challenge:'
+const CHALLENGE_TTL_MS = 5 * 60 * 1000
+
+function challengeIdentifier(purpose: PasskeyPurpose, userId?: string | null): string {
+  return `${CHALLENGE_PREFIX}${purpose}:${userId || 'anonymous'}`
+}
+
+async function saveChallenge(purpose: PasskeyPurpose, userId?: string | null): Promise<string> {
+  const identifier = challengeIdentifier(purpose, userId)
+  const challenge = generateChallenge()
+  await prisma.verificationToken.deleteMany({ where: { identifier, expires: { lte: new Date() } } }).catch(() => {})
+  await prisma.verificationToken.create({
+    data: { identifier, token: challenge, expires: new Date(Date.now() + CHALLENGE_TTL_MS) },
+  })
+  return challenge
+}
+
+/**
+ * Take the challenge the browser signed. Deleting it is the check: a second
+ * use of the same challenge finds nothing to delete.
+ */
+async function consumeChallenge(clientDataJSON: string, purpose: PasskeyPurpose, userId?: string | null): Promise<string> {
+  const challenge = readClientChallenge(clientDataJSON)
+  if (!challenge) throw new ApiError('WEBAUTHN_CHALLENGE_INVALID', 'Challenge is missing', 400)
+
+  const { count } = await prisma.verificationToken.deleteMany({
+    where: { identifier: challengeIdentifier(purpose, userId), token: challenge, expires: { gt: new Date() } },
+  })
+  if (count !== 1) throw new ApiError('WEBAUTHN_CHALLENGE_INVALID', 'Challenge is unknown, used or expired', 400)
+  return challenge
+}
+
+export async function startPasskeyRegistration(user: { id: string; email: string; name?: string | null }) {
+  const existing = await prisma.webAuthnCredential.findMany({
+    where: { userId: user.id },
+    select: { credentialId: true, transports: true },
+  })
+  const challenge = await saveChallenge('register', user.id)
+  return generateRegistrationOptions({
+    challenge,
+    user: { id: user.id, name: user.email, displayName: user.name },
+    excludeCredentials: existing,
+  })
+}
+
+export async function finishPasskeyRegistration(
+  user: { id: string; tenantId: string },
+  response: RegistrationResponseJSON,
+  name?: string | null
+) {
+  const challenge = await consumeChallenge(response?.response?.clientDataJSON, 'register', user.id)
+  const verified = await verifyRegistrationResponse(response, { challenge })
+
+  const taken = await prisma.webAuthnCredential.findUnique({ where: { credentialId: verified.credentialId }, select: { id: true } })
+  if (taken) throw new ApiError('WEBAUTHN_CREDENTIAL_EXISTS', 'This authenticator is already registered', 409)
+
+  return prisma.webAuthnCredential.create({
+    data: {
+      tenantId: user.tenantId,
+      userId: user.id,
+      credentialId: verified.credentialId,
+      publicKey: verified.publicKey,
+      algorithm: verified.algorithm,
+      signCount: verified.signCount,
+      transports: verified.transports,
+      aaguid: verified.aaguid || null,
+      backedUp: verified.backedUp,
+      name: name?.trim() || (verified.backedUp ? 'Passkey' : 'Security key'),
+    },
+  })
+}
+
+/**
+ * Options for an assertion. Sign-in leaves the credential list empty so the
+ * browser offers any discoverable passkey; step-up lists the user's own.
+ */
+export async function startPasskeyAuthentication(purpose: Exclude<PasskeyPurpose, 'register'>, userId?: string | null) {
+  const allowCredentials = userId
+    ? await prisma.webAuthnCredential.findMany({ where: { userId }, select: { credentialId: true, transports: true } })
+    : []
+  if (purpose === 'step-up' && !allowCredentials.length) {
+    throw new ApiError('WEBAUTHN_NOT_ENROLLED', 'No passkey is registered', 400)
+  }
+  const challenge = await saveChallenge(purpose, userId)
+  return generateAuthenticationOptions({ challenge, allowCredentials })
+}
+
+/**
+ * Verify an assertion and advance the credential's counter. Returns the
+ * credential, whose userId identifies who signed in.
+ */
+export async function verifyPasskeyAssertion(params: {
+  response: AuthenticationResponseJSON
+  purpose: Exclude<PasskeyPurpose, 'register'>
+  userId?: string | null
+  tenantId?: string | null
+}) {
+  const { response, purpose, userId, tenantId } = params
+  const credential = await prisma.webAuthnCredential.findFirst({
+    where: {
+      credentialId: String(response?.id || ''),
+      ...(userId ? { userId } : {}),
+      ...(tenantId ? { tenantId } : {}),
+    },
+  })
+  if (!credential) throw new ApiError('WEBAUTHN_UNKNOWN_CREDENTIAL', 'Passkey is not registered', 400)
+
+  const challenge = await consumeChallenge(response.response?.clientDataJSON, purpose, userId)
+  const verified = await verifyAuthenticationResponse(response, { challenge, credential })
+
+  await prisma.webAuthnCredential.update({
+    where: { id: credential.id },
+    data: { signCount: verified.signCount, backedUp: verified.backedUp, lastUsedAt: new Date() },
+  })
+  return credential
+}
+
+export async function listPasskeys(userId: string) {
+  return prisma.webAuthnCredential.findMany({
+    where: { userId },
+    select: { id: true, name: true, backedUp: true, transports: true, createdAt: true, lastUsedAt: true },
+    orderBy: { createdAt: 'asc' },
+  })
+}
+
+export async function hasPasskey(userId: string): Promise<boolean> {
+  return (await prisma.webAuthnCredential.count({ where: { userId } }).catch(() => 0)) > 0
+}
+
+export async function removePasskey(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.webAuthnCredential.deleteMany({ where: { id, userId } })
+  return count > 0
+}
@@ -287,6 +287,35 @@ export function calculateDeviceTrustScore(
   return Math.max(0, Math.min(100, score))
 }
 
+/**
+ * Elevated session lifetimes after a step-up
+ */
+export const STEP_UP_ELEVATION_TTL_MS = 15 * 60 * 1000
+export const UNTRUSTED_DEVICE_ELEVATION_TTL_MS = 5 * 60 * 1000
+
+export function stepUpElevationTtl(deviceTrusted: boolean): number {
+  return deviceTrusted ? STEP_UP_ELEVATION_TTL_MS : UNTRUSTED_DEVICE_ELEVATION_TTL_MS
+}
+
+/**
+ * Decides whether using a permission of the given risk needs a step-up.
+ * Critical permissions always do unless the session is already elevated;
+ * high-risk ones only from a device the user has not approved.
+ */
+export function assessStepUp(
+  risk: string | undefined,
+  context: { elevated: boolean; deviceTrusted: boolean }
+): { required: boolean; reason?: string } {
+  if (context.elevated) return { required: false }
+  if (risk === 'critical') {
+    return { required: true, reason: 'This action requires you to confirm your identity' }
+  }
+  if (risk === 'high' && !context.deviceTrusted) {
+    return { required: true, reason: 'Confirm your identity to do this from an unrecognised device' }
+  }
+  return { required: false }
+}
+
 /**
  * Validates IP address against allowlist
  */
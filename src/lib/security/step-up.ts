@@ -1,6 +1,13 @@
+import crypto from 'crypto'
 import { NextRequest, NextResponse } from 'next/server'
 import { getUserMfaSecret, verifyTotp, consumeBackupCode } from '@/lib/mfa'
 import { logAudit } from '@/lib/audit'
+import { PERMISSION_METADATA, PERMISSIONS, RiskLevel, type Permission } from '@/lib/permissions'
+import { assessStepUp } from '@/lib/security/step-up-auth'
+
+export type StepUpMethod = 'totp' | 'backup_code' | 'webauthn'
+
+export const ELEVATION_COOKIE = 'step_up'
 
 function readOtpFromHeaders(req: NextRequest): string | null {
   const candidates = [
@@ -34,32 +41,169 @@ export async function verifySuperAdminStepUp(req: NextRequest, userId: string, t
   }
 
   if (!enabled) return true
+  return (await verifyStepUp(req, userId)) !== null
+}
+
+/**
+ * Verify the one-time code sent with a request, regardless of tenant
+ * settings. Returns the method that passed, or null when the code is
+ * missing or wrong.
+ */
+export async function verifyStepUp(req: NextRequest, userId: string): Promise<'totp' | 'backup_code' | null> {
   try {
     const otp = readOtpFromHeaders(req)
     const secret = await getUserMfaSecret(userId)
     if (!secret) {
       await logAudit({ action: 'auth.mfa.stepup.no_secret', actorId: userId, targetId: userId })
-      return false
+      return null
     }
     if (!otp) {
       await logAudit({ action: 'auth.mfa.stepup.required', actorId: userId, targetId: userId })
-      return false
+      return null
     }
-    const ok = verifyTotp(secret, otp) || (await consumeBackupCode(userId, otp))
-    if (ok) {
+    const method = verifyTotp(secret, otp) ? 'totp' : (await consumeBackupCode(userId, otp)) ? 'backup_code' : null
+    if (method) {
       await logAudit({ action: 'auth.mfa.stepup.success', actorId: userId, targetId: userId })
     } else {
       await logAudit({ action: 'auth.mfa.stepup.failed', actorId: userId, targetId: userId })
     }
-    return ok
+    return method
   } catch {
-    return false
+    return null
   }
 }
 
-export function stepUpChallenge(): NextResponse {
-  const res = NextResponse.json({ error: 'Step-up authentication required' }, { status: 401 })
+export function stepUpChallenge(methods: StepUpMethod[] = ['totp', 'backup_code']): NextResponse {
+  const res = NextResponse.json({ error: 'Step-up authentication required', methods }, { status: 401 })
   res.headers.set('x-step-up-required', 'mfa')
-  res.headers.set('x-step-up-methods', 'totp,backup_code')
+  res.headers.set('x-step-up-methods', methods.join(','))
   return res
 }
+
+// --- Elevated sessions ---
+
+type ElevationSubject = { userId: string; tenantId?: string | null }
+
+// Without a secret anyone could sign an elevation, so refuse to sign or
+// accept one (readElevation treats the error as no elevation)
+function elevationSignature(payload: string): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) throw new Error('NEXTAUTH_SECRET is not configured')
+  return crypto.createHmac('sha256', secret).update(`step-up:${payload}`).digest('base64url')
+}
+
+/**
+ * Signed proof of a recent step-up, held in an http-only cookie. It names
+ * the user and tenant so it cannot be carried to another session.
+ */
+export function signElevation(subject: ElevationSubject, method: StepUpMethod, ttlMs: number, now = Date.now()): string {
+  const payload = Buffer.from(
+    JSON.stringify({ u: subject.userId, t: subject.tenantId ?? null, m: method, exp: now + ttlMs })
+  ).toString('base64url')
+  return `${payload}.${elevationSignature(payload)}`
+}
+
+export function readElevation(
+  value: string | null | undefined,
+  subject: ElevationSubject,
+  now = Date.now()
+): { method: StepUpMethod; expiresAt: Date } | null {
+  try {
+    const [payload, signature] = String(value || '').split('.')
+    if (!payload || !signature) return null
+    const expected = Buffer.from(elevationSignature(payload))
+    const provided = Buffer.from(signature)
+    if (expected.length !== provided.length || !crypto.timingSafeEqual(expected, provided)) return null
+
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'))
+    if (claims.u !== subject.userId || (claims.t ?? null) !== (subject.tenantId ?? null)) return null
+    if (typeof claims.exp !== 'number' || claims.exp <= now) return null
+    return { method: claims.m, expiresAt: new Date(claims.exp) }
+  } catch {
+    return null
+  }
+}
+
+export function getElevation(req: NextRequest, subject: ElevationSubject) {
+  return readElevation(req.cookies?.get(ELEVATION_COOKIE)?.value, subject)
+}
+
+export function setElevationCookie(res: NextResponse, value: string, ttlMs: number): void {
+  res.cookies.set(ELEVATION_COOKIE, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'strict',
+    maxAge: Math.floor(ttlMs / 1000),
+    path: '/',
+  })
+}
+
+/** Factors the user can step up with, passkeys first. */
+export async function availableStepUpMethods(userId: string): Promise<StepUpMethod[]> {
+  const { hasPasskey } = await import('@/lib/security/passkeys')
+  const methods: StepUpMethod[] = []
+  if (await hasPasskey(userId)) methods.push('webauthn')
+  if (await getUserMfaSecret(userId).catch(() => null)) methods.push('totp', 'backup_code')
+  return methods
+}
+
+/**
+ * How the user stepped up for this request: a recent elevated session, else
+ * a one-time code sent with it. When neither, the factors they could use.
+ */
+export async function resolveStepUp(
+  req: NextRequest,
+  subject: ElevationSubject
+): Promise<{ stepUpMethod: StepUpMethod | null; stepUpMethods: StepUpMethod[] }> {
+  const stepUpMethod = getElevation(req, subject)?.method ?? (await verifyStepUp(req, subject.userId))
+  return { stepUpMethod, stepUpMethods: stepUpMethod ? [] : await availableStepUpMethods(subject.userId) }
+}
+
+async function challengeFor(req: NextRequest, subject: ElevationSubject, action: string): Promise<NextResponse | null> {
+  // A one-time code sent with the request still counts, for API clients
+  if (readOtpFromHeaders(req) && (await verifyStepUp(req, subject.userId))) return null
+
+  const methods = await availableStepUpMethods(subject.userId)
+  await logAudit({ action: 'auth.stepup.required', actorId: subject.userId, targetId: subject.userId, details: { tenantId: subject.tenantId ?? null, action, methods } }).catch(() => {})
+  if (!methods.length) {
+    return NextResponse.json(
+      { error: 'Register a passkey or authenticator app to perform this action', code: 'STEP_UP_NOT_ENROLLED' },
+      { status: 403 }
+    )
+  }
+  return stepUpChallenge(methods)
+}
+
+/**
+ * Require a recent step-up regardless of the action's risk, for changes to
+ * the user's own factors and devices. Returns a response to send back, or
+ * null to continue.
+ */
+export async function requireElevation(req: NextRequest, subject: ElevationSubject, action: string): Promise<NextResponse | null> {
+  if (getElevation(req, subject)) return null
+  return challengeFor(req, subject, action)
+}
+
+/**
+ * Permissions that always need a recent step-up whatever their risk level:
+ * bulk exports take data out of the tenant in one go
+ */
+export const STEP_UP_PERMISSIONS: ReadonlySet<Permission> = new Set([PERMISSIONS.USERS_EXPORT, PERMISSIONS.ANALYTICS_EXPORT])
+
+/**
+ * Enforce step-up for a permission according to its risk level in
+ * PERMISSION_METADATA, or always for STEP_UP_PERMISSIONS. Returns a
+ * response to send back, or null to continue.
+ */
+export async function requireStepUp(req: NextRequest, permission: Permission, subject: ElevationSubject): Promise<NextResponse | null> {
+  const risk = STEP_UP_PERMISSIONS.has(permission) ? RiskLevel.CRITICAL : PERMISSION_METADATA[permission]?.risk
+  const elevated = Boolean(getElevation(req, subject))
+  let deviceTrusted = false
+  if (!elevated && risk === RiskLevel.HIGH) {
+    const { isCurrentDeviceTrusted } = await import('@/lib/security/trusted-devices')
+    deviceTrusted = await isCurrentDeviceTrusted(req, subject.userId).catch(() => false)
+  }
+
+  if (!assessStepUp(risk, { elevated, deviceTrusted }).required) return null
+  return challengeFor(req, subject, permission)
+}
@@ -0,0 +1,168 @@
+import crypto from 'crypto'
+import type { NextRequest, NextResponse } from 'next/server'
+import prisma from '@/lib/prisma'
+import { getClientIp } from '@/lib/rate-limit'
+import { computeIpHash } from '@/lib/security/ip-hash'
+import {
+  calculateDeviceTrustScore,
+  createDeviceRecord,
+  isDeviceTrusted,
+  type Device,
+} from '@/lib/security/step-up-auth'
+
+/**
+ * Trusted devices
+ *
+ * A browser is identified by a random, http-only device cookie; only its
+ * hash is stored. Users approve their own devices after a step-up, and an
+ * approved device stays trusted while it is in regular use from the same
+ * network.
+ */
+
+export const DEVICE_COOKIE = 'device_id'
+const DEVICE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365 // 1 year
+// An approved device used this week from its usual network scores 95; a new
+// network (80) or a week without use (75 or less) falls below this
+const TRUST_THRESHOLD = 85
+
+export type TrustedDeviceRecord = NonNullable<Awaited<ReturnType<typeof prisma.trustedDevice.findFirst>>>
+
+function readDeviceCookie(req: NextRequest): string | null {
+  return req.cookies?.get(DEVICE_COOKIE)?.value || null
+}
+
+function fingerprintOf(cookieValue: string): string {
+  return crypto.createHash('sha256').update(cookieValue).digest('hex')
+}
+
+function detectDeviceType(userAgent: string): Device['deviceType'] {
+  if (/iPad|Tablet/i.test(userAgent)) return 'TABLET'
+  if (/Mobi|iPhone|Android/i.test(userAgent)) return 'MOBILE'
+  return userAgent ? 'DESKTOP' : 'OTHER'
+}
+
+async function requestIpHash(req: NextRequest): Promise<string> {
+  let ip = 'anonymous'
+  try {
+    ip = getClientIp(req as unknown as Request)
+  } catch {}
+  return computeIpHash(ip)
+}
+
+export function setDeviceCookie(res: NextResponse, value: string): void {
+  res.cookies.set(DEVICE_COOKIE, value, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: DEVICE_COOKIE_MAX_AGE,
+    path: '/',
+  })
+}
+
+export async function findCurrentDevice(req: NextRequest, userId: string): Promise<TrustedDeviceRecord | null> {
+  const cookieValue = readDeviceCookie(req)
+  if (!cookieValue) return null
+  return prisma.trustedDevice.findFirst({ where: { userId, fingerprint: fingerprintOf(cookieValue) } }).catch(() => null)
+}
+
+/**
+ * Record the browser making this request, issuing a device cookie when it
+ * has none. Returns the cookie value to set, if a new one was issued.
+ */
+export async function recordDevice(
+  req: NextRequest,
+  user: { id: string; tenantId: string },
+  deviceName?: string | null
+): Promise<{ device: TrustedDeviceRecord; cookie: string | null }> {
+  const existingCookie = readDeviceCookie(req)
+  const cookieValue = existingCookie || crypto.randomBytes(32).toString('base64url')
+  const userAgent = req.headers.get('user-agent') || ''
+  const ipAddress = await requestIpHash(req)
+  const details = createDeviceRecord(user.id, user.tenantId, userAgent, ipAddress, {
+    deviceType: detectDeviceType(userAgent),
+    ...(deviceName?.trim() ? { deviceName: deviceName.trim().slice(0, 100) } : {}),
+  })
+
+  const device = await prisma.trustedDevice.upsert({
+    where: { userId_fingerprint: { userId: user.id, fingerprint: fingerprintOf(cookieValue) } },
+    update: {
+      userAgent,
+      ipAddress,
+      lastActivityAt: new Date(),
+      ...(deviceName?.trim() ? { deviceName: details.deviceName } : {}),
+    },
+    create: {
+      tenantId: user.tenantId,
+      userId: user.id,
+      fingerprint: fingerprintOf(cookieValue),
+      deviceName: details.deviceName,
+      deviceType: details.deviceType,
+      osType: details.osType,
+      browserType: details.browserType,
+      userAgent,
+      ipAddress,
+      approvalStatus: details.approvalStatus,
+      trustLevel: details.trustLevel,
+    },
+  })
+
+  return { device, cookie: existingCookie ? null : cookieValue }
+}
+
+/** Whether the requesting browser is an approved, recently used device for the user. */
+export async function isCurrentDeviceTrusted(req: NextRequest, userId: string): Promise<boolean> {
+  const device = await findCurrentDevice(req, userId)
+  if (!device || device.approvalStatus !== 'APPROVED') return false
+
+  const ipAddress = await requestIpHash(req)
+  const score = calculateDeviceTrustScore(
+    { approvalStatus: 'APPROVED', lastActivityAt: device.lastActivityAt },
+    { geoLocationChange: Boolean(device.ipAddress && device.ipAddress !== ipAddress) }
+  )
+  return isDeviceTrusted({ approvalStatus: 'APPROVED', trustLevel: score }, TRUST_THRESHOLD)
+}
+
+export async function trustDevice(userId: string, id: string): Promise<TrustedDeviceRecord | null> {
+  const device = await prisma.trustedDevice.findFirst({ where: { id, userId } })
+  if (!device) return null
+
+  const approvedAt = new Date()
+  return prisma.trustedDevice.update({
+    where: { id },
+    data: {
+      approvalStatus: 'APPROVED',
+      approvedAt,
+      revokedAt: null,
+      lastActivityAt: approvedAt,
+      trustLevel: calculateDeviceTrustScore({ approvalStatus: 'APPROVED', lastActivityAt: approvedAt }),
+    },
+  })
+}
+
+export async function revokeDevice(userId: string, id: string): Promise<boolean> {
+  const { count } = await prisma.trustedDevice.updateMany({
+    where: { id, userId, approvalStatus: { not: 'REVOKED' } },
+    data: { approvalStatus: 'REVOKED', revokedAt: new Date(), trustLevel: 0 },
+  })
+  return count > 0
+}
+
+export async function listDevices(userId: string) {
+  return prisma.trustedDevice.findMany({
+    where: { userId },
+    select: {
+      id: true,
+      deviceName: true,
+      deviceType: true,
+      osType: true,
+      browserType: true,
+      approvalStatus: true,
+      trustLevel: true,
+      approvedAt: true,
+      revokedAt: true,
+      lastActivityAt: true,
+      createdAt: true,
+    },
+    orderBy: { lastActivityAt: 'desc' },
+  })
+}
@@ -0,0 +1,280 @@
+import crypto from 'crypto'
+import {
+  verifyAuthenticationResponse as verifyAssertion,
+  verifyRegistrationResponse as verifyAttestation,
+  type AuthenticatorTransportFuture,
+} from '@simplewebauthn/server'
+import { cose, decodeCredentialPublicKey } from '@simplewebauthn/server/helpers'
+import { ApiError } from '@/lib/api/error-responses'
+
+/**
+ * WebAuthn (FIDO2) relying party
+ *
+ * Builds the options passed to navigator.credentials.create()/get() and
+ * verifies what the browser sends back, for both passkeys and roaming
+ * security keys. Attestation is not requested, so a new credential is
+ * trusted because it is registered from an already authenticated session;
+ * its attestation statement is not checked. User verification is required
+ * on every ceremony, which makes a passkey a factor on its own. Responses
+ * are verified by @simplewebauthn/server; this module fixes the policy
+ * (algorithms, origins, user verification) and maps its errors to ApiError.
+ */
+
+export const COSE_ALGORITHMS = { ES256: -7, EdDSA: -8, RS256: -257 } as const
+const SUPPORTED_ALGORITHMS: number[] = Object.values(COSE_ALGORITHMS)
+
+const CEREMONY_TIMEOUT_MS = 5 * 60 * 1000
+
+export interface RelyingParty {
+  id: string
+  name: string
+  origins: string[]
+}
+
+export interface RegistrationResponseJSON {
+  id: string
+  rawId?: string
+  type: string
+  response: {
+    clientDataJSON: string
+    attestationObject: string
+    transports?: string[]
+  }
+}
+
+export interface AuthenticationResponseJSON {
+  id: string
+  rawId?: string
+  type: string
+  response: {
+    clientDataJSON: string
+    authenticatorData: string
+    signature: string
+    userHandle?: string | null
+  }
+}
+
+export interface StoredCredential {
+  credentialId: string
+  publicKey: string
+  algorithm: number
+  signCount: number
+  transports?: string[]
+}
+
+export interface VerifiedRegistration {
+  credentialId: string
+  publicKey: string
+  algorithm: number
+  signCount: number
+  aaguid: string
+  backedUp: boolean
+  transports: string[]
+}
+
+export interface VerifiedAuthentication {
+  credentialId: string
+  signCount: number
+  backedUp: boolean
+}
+
+export function toBase64Url(input: Buffer | Uint8Array): string {
+  return Buffer.from(input).toString('base64url')
+}
+
+export function fromBase64Url(input: string): Buffer {
+  return Buffer.from(String(input || ''), 'base64url')
+}
+
+export function generateChallenge(): string {
+  return toBase64Url(crypto.randomBytes(32))
+}
+
+/**
+ * Relying party from WEBAUTHN_RP_ID / WEBAUTHN_ORIGIN (comma-separated) /
+ * WEBAUTHN_RP_NAME, falling back to the host of NEXTAUTH_URL.
+ */
+export function getRelyingParty(): RelyingParty {
+  let base: URL | null = null
+  try {
+    base = new URL(process.env.NEXTAUTH_URL || 'http://localhost:3000')
+  } catch {}
+
+  const origins = (process.env.WEBAUTHN_ORIGIN || '')
+    .split(',')
+    .map((o) => o.trim().replace(/\/$/, ''))
+    .filter(Boolean)
+
+  return {
+    id: process.env.WEBAUTHN_RP_ID || base?.hostname || 'localhost',
+    name: process.env.WEBAUTHN_RP_NAME || 'Accounting Firm',
+    origins: origins.length ? origins : [base?.origin || 'http://localhost:3000'],
+  }
+}
+
+// --- Ceremonies ---
+
+export function generateRegistrationOptions(params: {
+  rp?: RelyingParty
+  user: { id: string; name: string; displayName?: string | null }
+  excludeCredentials?: Array<Pick<StoredCredential, 'credentialId' | 'transports'>>
+  challenge?: string
+}) {
+  const rp = params.rp ?? getRelyingParty()
+  return {
+    challenge: params.challenge ?? generateChallenge(),
+    rp: { id: rp.id, name: rp.name },
+    user: {
+      id: toBase64Url(Buffer.from(params.user.id, 'utf8')),
+      name: params.user.name,
+      displayName: params.user.displayName || params.user.name,
+    },
+    pubKeyCredParams: SUPPORTED_ALGORITHMS.map((alg) => ({ type: 'public-key' as const, alg })),
+    timeout: CEREMONY_TIMEOUT_MS,
+    attestation: 'none' as const,
+    authenticatorSelection: { residentKey: 'preferred' as const, userVerification: 'required' as const },
+    excludeCredentials: (params.excludeCredentials ?? []).map((c) => ({
+      type: 'public-key' as const,
+      id: c.credentialId,
+      ...(c.transports?.length ? { transports: c.transports } : {}),
+    })),
+  }
+}
+
+export function generateAuthenticationOptions(params: {
+  rp?: RelyingParty
+  allowCredentials?: Array<Pick<StoredCredential, 'credentialId' | 'transports'>>
+  challenge?: string
+} = {}) {
+  const rp = params.rp ?? getRelyingParty()
+  return {
+    challenge: params.challenge ?? generateChallenge(),
+    rpId: rp.id,
+    timeout: CEREMONY_TIMEOUT_MS,
+    userVerification: 'required' as const,
+    allowCredentials: (params.allowCredentials ?? []).map((c) => ({
+      type: 'public-key' as const,
+      id: c.credentialId,
+      ...(c.transports?.length ? { transports: c.transports } : {}),
+    })),
+  }
+}
+
+function fail(message: string): never {
+  throw new ApiError('WEBAUTHN_VERIFICATION_FAILED', message, 400)
+}
+
+function readClientData(clientDataJSON: string): Record<string, unknown> | null {
+  try {
+    const clientData = JSON.parse(fromBase64Url(clientDataJSON).toString('utf8'))
+    return clientData && typeof clientData === 'object' ? clientData : null
+  } catch {
+    return null
+  }
+}
+
+/** Challenge the browser signed, read from clientDataJSON. */
+export function readClientChallenge(clientDataJSON: string): string | null {
+  const challenge = readClientData(clientDataJSON)?.challenge
+  return typeof challenge === 'string' ? challenge : null
+}
+
+/**
+ * Run a verification, reporting what it rejects as a 400. The library does
+ * not look at crossOrigin, so ceremonies run inside another site's frame are
+ * refused here.
+ */
+async function verifying<T>(clientDataJSON: string, verify: () => Promise<T>): Promise<T> {
+  if (readClientData(clientDataJSON)?.crossOrigin === true) fail('Cross-origin ceremonies are not allowed')
+  try {
+    return await verify()
+  } catch (error) {
+    if (error instanceof ApiError) throw error
+    fail(error instanceof Error ? error.message : 'Verification failed')
+  }
+}
+
+export async function verifyRegistrationResponse(
+  response: RegistrationResponseJSON,
+  expected: { challenge: string; rp?: RelyingParty }
+): Promise<VerifiedRegistration> {
+  const rp = expected.rp ?? getRelyingParty()
+  if (response?.type !== 'public-key' || !response.response?.attestationObject) fail('Malformed registration response')
+
+  const { registrationInfo } = await verifying(response.response.clientDataJSON, async () => {
+    const result = await verifyAttestation({
+      response: {
+        id: response.id,
+        rawId: response.id,
+        type: 'public-key',
+        clientExtensionResults: {},
+        response: {
+          clientDataJSON: response.response.clientDataJSON,
+          attestationObject: response.response.attestationObject,
+          transports: response.response.transports as AuthenticatorTransportFuture[] | undefined,
+        },
+      },
+      expectedChallenge: expected.challenge,
+      expectedOrigin: rp.origins,
+      expectedRPID: rp.id,
+      requireUserVerification: true,
+      supportedAlgorithmIDs: SUPPORTED_ALGORITHMS,
+    })
+    if (!result.verified) fail('Registration could not be verified')
+    return result
+  })
+  const { credential } = registrationInfo
+  if (credential.id !== response.id) fail('Credential id mismatch')
+
+  return {
+    credentialId: credential.id,
+    publicKey: toBase64Url(credential.publicKey),
+    algorithm: Number(decodeCredentialPublicKey(credential.publicKey).get(cose.COSEKEYS.alg)),
+    signCount: credential.counter,
+    aaguid: registrationInfo.aaguid,
+    backedUp: registrationInfo.credentialBackedUp,
+    transports: Array.isArray(response.response.transports) ? response.response.transports.map(String) : [],
+  }
+}
+
+export async function verifyAuthenticationResponse(
+  response: AuthenticationResponseJSON,
+  expected: { challenge: string; credential: StoredCredential; rp?: RelyingParty }
+): Promise<VerifiedAuthentication> {
+  const rp = expected.rp ?? getRelyingParty()
+  const { credential } = expected
+  if (response?.type !== 'public-key' || !response.response?.authenticatorData) fail('Malformed authentication response')
+  if (response.id !== credential.credentialId) fail('Credential id mismatch')
+
+  // A counter that does not move forward means the key may have been cloned;
+  // the library refuses it. Authenticators that do not count (most passkeys)
+  // always report zero.
+  const { authenticationInfo } = await verifying(response.response.clientDataJSON, async () => {
+    const result = await verifyAssertion({
+      response: {
+        id: response.id,
+        rawId: response.id,
+        type: 'public-key',
+        clientExtensionResults: {},
+        response: { ...response.response, userHandle: response.response.userHandle ?? undefined },
+      },
+      expectedChallenge: expected.challenge,
+      expectedOrigin: rp.origins,
+      expectedRPID: rp.id,
+      requireUserVerification: true,
+      credential: {
+        id: credential.credentialId,
+        publicKey: new Uint8Array(fromBase64Url(credential.publicKey)),
+        counter: credential.signCount,
+      },
+    })
+    if (!result.verified) fail('Invalid signature')
+    return result
+  })
+
+  return {
+    credentialId: credential.credentialId,
+    signCount: authenticationInfo.newCounter,
+    backedUp: authenticationInfo.credentialBackedUp,
+  }
+}
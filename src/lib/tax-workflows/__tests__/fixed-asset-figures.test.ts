@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest'
+import { UAECorporateTaxWorkflow } from '../uae-workflows'
+import { KSAZakatWorkflow } from '../ksa-workflows'
+
+const fixedAssets = { netBookValue: 200000, depreciation: 50000, disposalGainLoss: 10000 }
+
+describe('Fixed asset figures in tax workflows', () => {
+  it('should deduct register depreciation and take disposal results into corporate tax profit', () => {
+    const filing = {
+      taxableIncome: 2000000,
+      deductions: 500000,
+      taxableProfit: 1500000,
+      applicableTaxRate: 9,
+      taxPayable: 0,
+      estimatedTax: 0,
+      taxDue: 0,
+    }
+    const workflow = new UAECorporateTaxWorkflow()
+
+    expect(workflow.calculateCorporateTax(filing).taxAmount).toBe(101250)
+    expect(workflow.calculateCorporateTax({ ...filing, fixedAssets })).toMatchObject({
+      totalDeductions: 550000,
+      taxableIncome: 1460000,
+      taxAmount: 97650,
+    })
+  })
+
+  it('should deduct fixed assets from the Zakat base and compute the Zakat due', () => {
+    const filing = { zakat: { capitalAmount: 1000000, zakatBase: 900000, zakatRate: 2.5, zakatAmountDue: 22500 } }
+    const workflow = new KSAZakatWorkflow()
+
+    expect(workflow.calculateZakat(filing).taxAmount).toBe(22500)
+    expect(workflow.calculateZakat({ ...filing, fixedAssets })).toMatchObject({ totalDeductions: 200000, taxableIncome: 700000, taxAmount: 17500 })
+    expect(workflow.validateZakatFiling({ ...filing, fixedAssets: { ...fixedAssets, netBookValue: 850000 } }).warnings).toHaveLength(1)
+  })
+})
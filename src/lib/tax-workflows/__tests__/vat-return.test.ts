@@ -0,0 +1,201 @@
+import { describe, it, expect } from 'vitest'
+import {
+  billToVatEntries,
+  buildVatReturn,
+  expenseToVatEntry,
+  invoiceToVatEntries,
+  resolveSupplyLocation,
+  toTaxCalculations,
+  VatEntry,
+} from '../vat-return'
+
+const PERIOD = { periodStart: new Date('2025-01-01T00:00:00Z'), periodEnd: new Date('2025-03-31T23:59:59Z') }
+
+function invoice(id: string, items: Array<{ taxCategory: string; taxRate: number; netCents: number; taxCents: number }>, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    number: `INV-${id}`,
+    documentType: 'INVOICE',
+    issueDate: new Date('2025-02-10T00:00:00Z'),
+    placeOfSupply: null,
+    items,
+    ...extra,
+  }
+}
+
+function expense(id: string, extra: Record<string, unknown> = {}) {
+  return {
+    id,
+    vendor: `Vendor ${id}`,
+    date: new Date('2025-02-12T00:00:00Z'),
+    amountCents: 10500,
+    taxCategory: 'STANDARD',
+    taxRate: 5,
+    taxCents: 500,
+    isImport: false,
+    ...extra,
+  }
+}
+
+function box(vatReturn: ReturnType<typeof buildVatReturn>, code: string) {
+  return vatReturn.boxes.find((b) => b.code === code)!
+}
+
+describe('VAT Return Generator', () => {
+  describe('resolveSupplyLocation', () => {
+    it('should place UAE supplies in an emirate, falling back to the entity emirate', () => {
+      expect(resolveSupplyLocation('AE', 'shj')).toEqual({ region: 'SHJ', isExport: false })
+      expect(resolveSupplyLocation('AE', null, 'DXB')).toEqual({ region: 'DXB', isExport: false })
+      expect(resolveSupplyLocation('AE', 'GB')).toEqual({ region: null, isExport: true })
+    })
+
+    it('should treat a foreign place of supply as an export elsewhere', () => {
+      expect(resolveSupplyLocation('SA', 'SA').isExport).toBe(false)
+      expect(resolveSupplyLocation('SA', 'US').isExport).toBe(true)
+    })
+  })
+
+  describe('invoiceToVatEntries', () => {
+    it('should group lines by category and negate credit notes', () => {
+      const entries = invoiceToVatEntries(
+        invoice('cn1', [
+          { taxCategory: 'STANDARD', taxRate: 5, netCents: 10000, taxCents: 500 },
+          { taxCategory: 'STANDARD', taxRate: 5, netCents: 2000, taxCents: 100 },
+          { taxCategory: 'EXEMPT', taxRate: 0, netCents: 3000, taxCents: 0 },
+        ], { documentType: 'CREDIT_NOTE' }),
+        'AE',
+        'DXB'
+      )
+
+      expect(entries).toHaveLength(2)
+      expect(entries[0]).toMatchObject({ sourceType: 'CREDIT_NOTE', category: 'STANDARD', netCents: -12000, taxCents: -600, region: 'DXB' })
+      expect(entries[1]).toMatchObject({ category: 'EXEMPT', netCents: -3000 })
+    })
+  })
+
+  describe('expenseToVatEntry', () => {
+    it('should back supplier VAT out of the gross amount', () => {
+      expect(expenseToVatEntry(expense('e1'))).toMatchObject({ flow: 'PURCHASES', netCents: 10000, taxCents: 500 })
+    })
+
+    it('should self-assess reverse charge VAT on the net', () => {
+      const entry = expenseToVatEntry(expense('e2', { taxCategory: 'REVERSE_CHARGE', amountCents: 20000, taxCents: 0 }))
+      expect(entry).toMatchObject({ netCents: 20000, taxCents: 1000 })
+    })
+  })
+
+  describe('billToVatEntries', () => {
+    const bill = (lines: Array<{ taxCategory: string; taxRate: number; netCents: number; taxCents: number }>, extra: Record<string, unknown> = {}) => ({
+      id: 'b1',
+      billNumber: 'SUP-77',
+      issueDate: new Date('2025-02-12T00:00:00Z'),
+      isImport: false,
+      vendor: { name: 'Gulf Supplies' },
+      lines,
+      ...extra,
+    })
+
+    it('should give one purchase entry per category and rate', () => {
+      const entries = billToVatEntries(bill([
+        { taxCategory: 'STANDARD', taxRate: 5, netCents: 10000, taxCents: 500 },
+        { taxCategory: 'STANDARD', taxRate: 5, netCents: 4000, taxCents: 200 },
+        { taxCategory: 'EXEMPT', taxRate: 0, netCents: 3000, taxCents: 0 },
+      ]))
+      expect(entries).toHaveLength(2)
+      expect(entries[0]).toMatchObject({ sourceType: 'BILL', flow: 'PURCHASES', category: 'STANDARD', netCents: 14000, taxCents: 700, reference: 'Gulf Supplies SUP-77' })
+      expect(entries[1]).toMatchObject({ category: 'EXEMPT', netCents: 3000, taxCents: 0 })
+    })
+
+    it('should self-assess reverse charge and convert at the bill rate', () => {
+      const [entry] = billToVatEntries(bill([{ taxCategory: 'REVERSE_CHARGE', taxRate: 5, netCents: 10000, taxCents: 0 }], { exchangeRate: 3.6725 }))
+      expect(entry).toMatchObject({ netCents: 36725, taxCents: 1836 })
+    })
+  })
+
+  describe('UAE VAT201', () => {
+    const entries: VatEntry[] = [
+      ...invoiceToVatEntries(invoice('1', [{ taxCategory: 'STANDARD', taxRate: 5, netCents: 100000, taxCents: 5000 }], { placeOfSupply: 'AUH' }), 'AE'),
+      ...invoiceToVatEntries(invoice('2', [{ taxCategory: 'STANDARD', taxRate: 5, netCents: 40000, taxCents: 2000 }]), 'AE', 'DXB'),
+      ...invoiceToVatEntries(invoice('3', [{ taxCategory: 'STANDARD', taxRate: 5, netCents: 10000, taxCents: 500 }], { documentType: 'CREDIT_NOTE' }), 'AE', 'DXB'),
+      ...invoiceToVatEntries(invoice('4', [{ taxCategory: 'ZERO_RATED', taxRate: 0, netCents: 25000, taxCents: 0 }], { placeOfSupply: 'GB' }), 'AE'),
+      ...invoiceToVatEntries(invoice('5', [{ taxCategory: 'OUT_OF_SCOPE', taxRate: 0, netCents: 7000, taxCents: 0 }]), 'AE', 'DXB'),
+      expenseToVatEntry(expense('e1')),
+      expenseToVatEntry(expense('e2', { taxCategory: 'REVERSE_CHARGE', amountCents: 20000, taxCents: 0 })),
+    ]
+    const vatReturn = buildVatReturn('AE', entries, { ...PERIOD, currency: 'AED' })
+
+    it('should report standard rated supplies by emirate net of credit notes', () => {
+      expect(box(vatReturn, '1a')).toMatchObject({ netCents: 100000, taxCents: 5000 })
+      expect(box(vatReturn, '1b')).toMatchObject({ netCents: 30000, taxCents: 1500 })
+      expect(box(vatReturn, '1b').sources.map((s) => s.sourceId)).toEqual(['2', '3'])
+      expect(box(vatReturn, '4').netCents).toBe(25000)
+    })
+
+    it('should report reverse charge as both due and recoverable', () => {
+      expect(box(vatReturn, '3')).toMatchObject({ netCents: 20000, taxCents: 1000 })
+      expect(box(vatReturn, '9')).toMatchObject({ netCents: 10000, taxCents: 500 })
+      expect(box(vatReturn, '10')).toMatchObject({ netCents: 20000, taxCents: 1000 })
+    })
+
+    it('should total due, recoverable and payable tax', () => {
+      expect(box(vatReturn, '8').taxCents).toBe(7500)
+      expect(box(vatReturn, '12').taxCents).toBe(7500)
+      expect(box(vatReturn, '13').taxCents).toBe(1500)
+      expect(box(vatReturn, '14').taxCents).toBe(6000)
+      expect(vatReturn.netPayableCents).toBe(6000)
+    })
+
+    it('should list out-of-scope documents as excluded', () => {
+      expect(vatReturn.excluded).toHaveLength(1)
+      expect(vatReturn.excluded[0]).toMatchObject({ sourceId: '5', reason: 'Outside the scope of VAT' })
+    })
+
+    it('should flag supplies without an emirate', () => {
+      const unplaced = buildVatReturn(
+        'AE',
+        invoiceToVatEntries(invoice('6', [{ taxCategory: 'STANDARD', taxRate: 5, netCents: 1000, taxCents: 50 }]), 'AE'),
+        { ...PERIOD, currency: 'AED' }
+      )
+      expect(unplaced.excluded[0].reason).toBe('No emirate of supply')
+      expect(unplaced.warnings).toHaveLength(1)
+    })
+  })
+
+  describe('KSA VAT return', () => {
+    it('should split domestic sales from exports and net reverse charge to zero', () => {
+      const entries: VatEntry[] = [
+        ...invoiceToVatEntries(invoice('1', [{ taxCategory: 'STANDARD', taxRate: 15, netCents: 100000, taxCents: 15000 }]), 'SA'),
+        ...invoiceToVatEntries(invoice('2', [{ taxCategory: 'ZERO_RATED', taxRate: 0, netCents: 50000, taxCents: 0 }], { placeOfSupply: 'US' }), 'SA'),
+        expenseToVatEntry(expense('e1', { amountCents: 11500, taxRate: 15, taxCents: 1500 })),
+        expenseToVatEntry(expense('e2', { taxCategory: 'REVERSE_CHARGE', amountCents: 10000, taxRate: 15, taxCents: 0 })),
+      ]
+      const vatReturn = buildVatReturn('SA', entries, { ...PERIOD, currency: 'SAR' })
+
+      expect(box(vatReturn, '1').taxCents).toBe(15000)
+      expect(box(vatReturn, '4').netCents).toBe(50000)
+      expect(box(vatReturn, '9').taxCents).toBe(1500)
+      expect(box(vatReturn, '13').taxCents).toBe(13500)
+      expect(box(vatReturn, '16').taxCents).toBe(13500)
+
+      const calculations = toTaxCalculations(vatReturn)
+      expect(calculations.grossIncome).toBe(1500)
+      expect(calculations.taxableIncome).toBe(1000)
+      expect(calculations.taxRate).toBe(15)
+      expect(calculations.taxAmount).toBe(135)
+    })
+  })
+
+  describe('Egypt VAT return', () => {
+    it('should report a refund position when input exceeds output tax', () => {
+      const entries: VatEntry[] = [
+        ...invoiceToVatEntries(invoice('1', [{ taxCategory: 'STANDARD', taxRate: 14, netCents: 10000, taxCents: 1400 }]), 'EG'),
+        expenseToVatEntry(expense('e1', { amountCents: 57000, taxRate: 14, taxCents: 7000, isImport: true })),
+      ]
+      const vatReturn = buildVatReturn('EG', entries, { ...PERIOD, currency: 'EGP' })
+
+      expect(box(vatReturn, '7').taxCents).toBe(7000)
+      expect(box(vatReturn, '13').taxCents).toBe(-5600)
+      expect(toTaxCalculations(vatReturn)).toMatchObject({ taxAmount: 0, refund: 56 })
+    })
+  })
+})
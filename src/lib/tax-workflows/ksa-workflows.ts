@@ -107,17 +107,34 @@ export class KSAZakatWorkflow {
    */
   calculateZakat(filing: KSAZakatFiling): TaxCalculations {
     const { zakat } = filing
-    const zakatAmountDue = zakat.zakatAmountDue
+
+    // Fixed assets from the register are deducted from the base, and the
+    // Zakat due follows from it rather than being typed in
+    if (filing.fixedAssets) {
+      const zakatBase = this.zakatBase(filing)
+      return {
+        grossIncome: zakat.capitalAmount,
+        totalDeductions: filing.fixedAssets.netBookValue,
+        taxableIncome: zakatBase,
+        taxRate: 2.5,
+        taxAmount: Math.round(zakatBase * 2.5) / 100,
+      }
+    }
 
     return {
       grossIncome: zakat.capitalAmount,
       totalDeductions: 0,
       taxableIncome: zakat.zakatBase,
       taxRate: 2.5,
-      taxAmount: zakatAmountDue,
+      taxAmount: zakat.zakatAmountDue,
     }
   }
 
+  private zakatBase(filing: KSAZakatFiling): number {
+    if (!filing.fixedAssets) return filing.zakat.zakatBase
+    return Math.max(0, filing.zakat.zakatBase - filing.fixedAssets.netBookValue)
+  }
+
   /**
    * Validate Zakat filing
    */
@@ -143,7 +160,7 @@ export class KSAZakatWorkflow {
       })
     }
 
-    if (zakat.zakatBase < 85000) {
+    if (this.zakatBase(filing) < 85000) {
       warnings.push(
         'Zakat base is below the Nisab threshold (approximately SAR 85,000 in gold value)'
       )
@@ -163,7 +180,7 @@ export class KSAZakatWorkflow {
     return `
 KSA Zakat Certificate:
 - Capital Amount: SAR ${calculations.grossIncome.toFixed(2)}
-- Zakat Base: SAR ${calculations.taxableIncome.toFixed(2)}
+${filing.fixedAssets ? `- Fixed Assets Deducted: SAR ${filing.fixedAssets.netBookValue.toFixed(2)}\n` : ''}- Zakat Base: SAR ${calculations.taxableIncome.toFixed(2)}
 - Zakat Rate: ${calculations.taxRate}%
 - Zakat Amount Due: SAR ${calculations.taxAmount.toFixed(2)}
 - Nisab Status: ${calculations.taxableIncome >= 85000 ? 'Subject to Zakat' : 'Below Nisab Threshold'}
@@ -87,6 +87,16 @@ export interface UAEESRFiling {
   supportingDocuments: string[]
 }
 
+/**
+ * Fixed-asset figures for the filing period, taken from the entity's asset
+ * register instead of being typed in
+ */
+export interface FixedAssetTaxFigures {
+  netBookValue: number // Assets held at the end of the period
+  depreciation: number // Charged in the period, revaluation decreases included
+  disposalGainLoss: number // Positive for a net gain
+}
+
 export interface UAECorporateTaxFiling {
   taxableIncome: number
   deductions: number
@@ -95,6 +105,8 @@ export interface UAECorporateTaxFiling {
   taxPayable: number
   estimatedTax: number
   taxDue: number
+  // When present, deductions and taxableProfit are before fixed assets
+  fixedAssets?: FixedAssetTaxFigures
 }
 
 /**
@@ -119,6 +131,8 @@ export interface KSAZakatFiling {
   agriculturalProduction?: number
   otherQualifyingAssets?: number
   exemptedAssets?: number
+  // When present, zakatBase is before deducting fixed assets
+  fixedAssets?: FixedAssetTaxFigures
 }
 
 export interface KSAWHTFiling {
@@ -186,7 +186,8 @@ export class UAECorporateTaxWorkflow {
    * Calculate Corporate Tax
    */
   calculateCorporateTax(filing: UAECorporateTaxFiling): TaxCalculations {
-    const { taxableIncome, taxableProfit } = filing
+    const { taxableIncome } = filing
+    const { deductions, taxableProfit } = this.withFixedAssets(filing)
 
     // 9% corporate tax on profits exceeding AED 375,000
     const exemptionThreshold = 375000
@@ -195,7 +196,7 @@ export class UAECorporateTaxWorkflow {
 
     return {
       grossIncome: taxableIncome,
-      totalDeductions: filing.deductions,
+      totalDeductions: deductions,
       taxableIncome: taxableProfit,
       taxRate: 9,
       taxAmount: taxAmount,
@@ -208,6 +209,7 @@ export class UAECorporateTaxWorkflow {
   validateCorporateTaxFiling(filing: UAECorporateTaxFiling): ValidationResult {
     const errors: ValidationResult['errors'] = []
     const warnings: string[] = []
+    const { deductions, taxableProfit } = this.withFixedAssets(filing)
 
     if (filing.taxableIncome < 0) {
       errors.push({
@@ -217,7 +219,7 @@ export class UAECorporateTaxWorkflow {
       })
     }
 
-    if (filing.deductions > filing.taxableIncome) {
+    if (deductions > filing.taxableIncome) {
       errors.push({
         field: 'deductions',
         message: 'Deductions cannot exceed taxable income',
@@ -225,7 +227,7 @@ export class UAECorporateTaxWorkflow {
       })
     }
 
-    if (filing.taxableProfit < 375000) {
+    if (taxableProfit < 375000) {
       warnings.push('Corporate tax applies only on profits exceeding AED 375,000')
     }
 
@@ -236,14 +238,34 @@ export class UAECorporateTaxWorkflow {
     }
   }
 
+  /**
+   * Deductions and taxable profit once the asset register's figures are in:
+   * depreciation is deducted and disposal gains and losses are taken into
+   * profit
+   */
+  private withFixedAssets(filing: UAECorporateTaxFiling): { deductions: number; taxableProfit: number } {
+    const assets = filing.fixedAssets
+    if (!assets) return { deductions: filing.deductions, taxableProfit: filing.taxableProfit }
+    return {
+      deductions: filing.deductions + assets.depreciation,
+      taxableProfit: filing.taxableProfit - assets.depreciation + assets.disposalGainLoss,
+    }
+  }
+
   /**
    * Generate Corporate Tax summary
    */
   generateSummary(filing: UAECorporateTaxFiling, calculations: TaxCalculations): string {
+    const assets = filing.fixedAssets
+      ? `- Depreciation (asset register): AED ${filing.fixedAssets.depreciation.toFixed(2)}
+- Disposal Gains/Losses: AED ${filing.fixedAssets.disposalGainLoss.toFixed(2)}
+`
+      : ''
+
     return `
 UAE Corporate Tax Filing Summary:
 - Taxable Income: AED ${calculations.grossIncome.toFixed(2)}
-- Total Deductions: AED ${calculations.totalDeductions.toFixed(2)}
+${assets}- Total Deductions: AED ${calculations.totalDeductions.toFixed(2)}
 - Taxable Profit: AED ${calculations.taxableIncome.toFixed(2)}
 - Tax Rate: ${calculations.taxRate}%
 - Tax Payable: AED ${calculations.taxAmount.toFixed(2)}
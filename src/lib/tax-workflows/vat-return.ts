@@ -0,0 +1,701 @@
+import prisma from '@/lib/prisma'
+import { ApiError } from '@/lib/api/error-responses'
+import { getCountry, CountryCode } from '@/lib/registries/countries'
+import { decimalToNumber } from '@/lib/decimal-utils'
+import { TaxCategory } from '@/lib/invoicing/line-tax'
+import { TaxCalculations, TaxCountry } from './types'
+
+/**
+ * VAT Return Generator
+ *
+ * Builds a country VAT return from the invoices, credit/debit notes,
+ * expenses and supplier bills dated in a filing period. Every source document is normalised
+ * into signed VAT entries (one per tax category), which the country layout
+ * assigns to boxes. Each box keeps the documents behind its figures so a
+ * preparer can reconcile the return line by line; entries no box accepts
+ * are listed as excluded with the reason.
+ */
+
+export type VatSourceType = 'INVOICE' | 'CREDIT_NOTE' | 'DEBIT_NOTE' | 'EXPENSE' | 'BILL'
+
+export interface VatEntry {
+  sourceType: VatSourceType
+  sourceId: string
+  reference: string
+  date: Date
+  flow: 'SALES' | 'PURCHASES'
+  category: TaxCategory
+  ratePercent: number
+  region: string | null // UAE emirate of supply
+  isExport: boolean
+  isImport: boolean
+  netCents: number // Negative for credit notes
+  taxCents: number // For reverse charge, the self-assessed tax
+}
+
+export interface VatBoxSource {
+  sourceType: VatSourceType
+  sourceId: string
+  reference: string
+  date: string
+  netCents: number
+  taxCents: number
+}
+
+export interface VatReturnBox {
+  code: string
+  label: string
+  netCents: number
+  taxCents: number
+  sources: VatBoxSource[]
+}
+
+export interface VatExcludedEntry extends VatBoxSource {
+  reason: string
+}
+
+export interface VatReturn {
+  country: TaxCountry
+  form: string
+  periodStart: string
+  periodEnd: string
+  currency: string
+  boxes: VatReturnBox[]
+  salesCents: number // Net value of reported sales
+  taxableSalesCents: number // Of which standard rated
+  outputTaxCents: number
+  inputTaxCents: number
+  netPayableCents: number
+  excluded: VatExcludedEntry[]
+  warnings: string[]
+}
+
+interface VatReturnLayout {
+  form: string
+  boxes: Array<{ code: string; label: string }>
+  /** Box codes the entry contributes to, or a reason it is left out */
+  assign(entry: VatEntry): string[] | string
+  /** Fill total boxes and return output/input tax for the period */
+  summarize(box: (code: string) => VatReturnBox): { outputTaxCents: number; inputTaxCents: number }
+}
+
+export const UAE_EMIRATES: Record<string, string> = {
+  AUH: '1a',
+  DXB: '1b',
+  SHJ: '1c',
+  AJM: '1d',
+  UAQ: '1e',
+  RAK: '1f',
+  FUJ: '1g',
+}
+
+function sumBoxes(box: (code: string) => VatReturnBox, target: string, codes: string[]) {
+  const total = box(target)
+  total.netCents = codes.reduce((sum, code) => sum + box(code).netCents, 0)
+  total.taxCents = codes.reduce((sum, code) => sum + box(code).taxCents, 0)
+  return total
+}
+
+/**
+ * UAE VAT201
+ */
+const UAE_VAT201: VatReturnLayout = {
+  form: 'VAT201',
+  boxes: [
+    { code: '1a', label: 'Standard rated supplies in Abu Dhabi' },
+    { code: '1b', label: 'Standard rated supplies in Dubai' },
+    { code: '1c', label: 'Standard rated supplies in Sharjah' },
+    { code: '1d', label: 'Standard rated supplies in Ajman' },
+    { code: '1e', label: 'Standard rated supplies in Umm Al Quwain' },
+    { code: '1f', label: 'Standard rated supplies in Ras Al Khaimah' },
+    { code: '1g', label: 'Standard rated supplies in Fujairah' },
+    { code: '2', label: 'Tax refunds provided to tourists' },
+    { code: '3', label: 'Supplies subject to the reverse charge provisions' },
+    { code: '4', label: 'Zero rated supplies' },
+    { code: '5', label: 'Exempt supplies' },
+    { code: '6', label: 'Goods imported into the UAE' },
+    { code: '7', label: 'Adjustments to goods imported into the UAE' },
+    { code: '8', label: 'Total supplies' },
+    { code: '9', label: 'Standard rated expenses' },
+    { code: '10', label: 'Supplies subject to the reverse charge provisions (recoverable)' },
+    { code: '11', label: 'Total expenses' },
+    { code: '12', label: 'Total value of due tax for the period' },
+    { code: '13', label: 'Total value of recoverable tax for the period' },
+    { code: '14', label: 'Payable tax for the period' },
+  ],
+  assign(entry) {
+    if (entry.flow === 'SALES') {
+      switch (entry.category) {
+        case 'STANDARD':
+          if (entry.isExport) return ['4']
+          if (!entry.region || !UAE_EMIRATES[entry.region]) return 'No emirate of supply'
+          return [UAE_EMIRATES[entry.region]]
+        case 'ZERO_RATED':
+          return ['4']
+        case 'EXEMPT':
+          return ['5']
+        case 'REVERSE_CHARGE':
+          return 'VAT is accounted for by the customer'
+        default:
+          return 'Outside the scope of VAT'
+      }
+    }
+
+    if (entry.isImport && (entry.category === 'STANDARD' || entry.category === 'REVERSE_CHARGE')) {
+      return ['6', '10']
+    }
+    switch (entry.category) {
+      case 'STANDARD':
+        return ['9']
+      case 'REVERSE_CHARGE':
+        return ['3', '10']
+      default:
+        return 'No input tax to recover'
+    }
+  },
+  summarize(box) {
+    const supplies = sumBoxes(box, '8', ['1a', '1b', '1c', '1d', '1e', '1f', '1g', '2', '3', '4', '5', '6', '7'])
+    const expenses = sumBoxes(box, '11', ['9', '10'])
+    box('12').taxCents = supplies.taxCents
+    box('13').taxCents = expenses.taxCents
+    box('14').taxCents = supplies.taxCents - expenses.taxCents
+    return { outputTaxCents: supplies.taxCents, inputTaxCents: expenses.taxCents }
+  },
+}
+
+/**
+ * KSA VAT return (ZATCA)
+ */
+const KSA_VAT_RETURN: VatReturnLayout = {
+  form: 'ZATCA VAT Return',
+  boxes: [
+    { code: '1', label: 'Standard rated sales' },
+    { code: '2', label: 'Sales to citizens (private healthcare / education)' },
+    { code: '3', label: 'Zero rated domestic sales' },
+    { code: '4', label: 'Exports' },
+    { code: '5', label: 'Exempt sales' },
+    { code: '6', label: 'Total sales' },
+    { code: '7', label: 'Standard rated domestic purchases' },
+    { code: '8', label: 'Imports subject to VAT paid at customs' },
+    { code: '9', label: 'Imports subject to VAT accounted for through reverse charge' },
+    { code: '10', label: 'Zero rated purchases' },
+    { code: '11', label: 'Exempt purchases' },
+    { code: '12', label: 'Total purchases' },
+    { code: '13', label: 'Total VAT due for the current period' },
+    { code: '14', label: 'Corrections from previous period' },
+    { code: '15', label: 'VAT credit carried forward from previous period' },
+    { code: '16', label: 'Net VAT due (or claimed)' },
+  ],
+  assign(entry) {
+    if (entry.flow === 'SALES') {
+      switch (entry.category) {
+        case 'STANDARD':
+          return [entry.isExport ? '4' : '1']
+        case 'ZERO_RATED':
+          return [entry.isExport ? '4' : '3']
+        case 'EXEMPT':
+          return ['5']
+        case 'REVERSE_CHARGE':
+          return 'VAT is accounted for by the customer'
+        default:
+          return 'Outside the scope of VAT'
+      }
+    }
+
+    switch (entry.category) {
+      case 'STANDARD':
+        return [entry.isImport ? '8' : '7']
+      case 'REVERSE_CHARGE':
+        return ['9']
+      case 'ZERO_RATED':
+        return ['10']
+      case 'EXEMPT':
+        return ['11']
+      default:
+        return 'Outside the scope of VAT'
+    }
+  },
+  summarize(box) {
+    const sales = sumBoxes(box, '6', ['1', '2', '3', '4', '5'])
+    const purchases = sumBoxes(box, '12', ['7', '8', '9', '10', '11'])
+    // Reverse-charge VAT is both due and recoverable
+    const outputTaxCents = sales.taxCents + box('9').taxCents
+    box('13').taxCents = outputTaxCents - purchases.taxCents
+    box('16').taxCents = box('13').taxCents + box('14').taxCents - box('15').taxCents
+    return { outputTaxCents, inputTaxCents: purchases.taxCents }
+  },
+}
+
+/**
+ * Egypt VAT return (Form 10)
+ */
+const EGYPT_VAT_RETURN: VatReturnLayout = {
+  form: 'Form 10',
+  boxes: [
+    { code: '1', label: 'Taxable local sales' },
+    { code: '2', label: 'Export sales' },
+    { code: '3', label: 'Zero rated local sales' },
+    { code: '4', label: 'Exempt sales' },
+    { code: '5', label: 'Total sales' },
+    { code: '6', label: 'Taxable local purchases' },
+    { code: '7', label: 'Taxable imports' },
+    { code: '8', label: 'Services from non-residents (reverse charge)' },
+    { code: '9', label: 'Exempt and zero rated purchases' },
+    { code: '10', label: 'Total purchases' },
+    { code: '11', label: 'Output tax' },
+    { code: '12', label: 'Deductible input tax' },
+    { code: '13', label: 'Net tax payable' },
+  ],
+  assign(entry) {
+    if (entry.flow === 'SALES') {
+      if (entry.isExport && (entry.category === 'STANDARD' || entry.category === 'ZERO_RATED')) return ['2']
+      switch (entry.category) {
+        case 'STANDARD':
+          return ['1']
+        case 'ZERO_RATED':
+          return ['3']
+        case 'EXEMPT':
+          return ['4']
+        case 'REVERSE_CHARGE':
+          return 'VAT is accounted for by the customer'
+        default:
+          return 'Outside the scope of VAT'
+      }
+    }
+
+    switch (entry.category) {
+      case 'STANDARD':
+        return [entry.isImport ? '7' : '6']
+      case 'REVERSE_CHARGE':
+        return ['8']
+      case 'ZERO_RATED':
+      case 'EXEMPT':
+        return ['9']
+      default:
+        return 'Outside the scope of VAT'
+    }
+  },
+  summarize(box) {
+    const sales = sumBoxes(box, '5', ['1', '2', '3', '4'])
+    const purchases = sumBoxes(box, '10', ['6', '7', '8', '9'])
+    // Reverse-charge VAT is both due and deductible
+    box('11').taxCents = sales.taxCents + box('8').taxCents
+    box('12').taxCents = purchases.taxCents
+    box('13').taxCents = box('11').taxCents - box('12').taxCents
+    return { outputTaxCents: box('11').taxCents, inputTaxCents: purchases.taxCents }
+  },
+}
+
+export const VAT_RETURN_LAYOUTS: Record<TaxCountry, VatReturnLayout> = {
+  AE: UAE_VAT201,
+  SA: KSA_VAT_RETURN,
+  EG: EGYPT_VAT_RETURN,
+}
+
+function toSource(entry: VatEntry): VatBoxSource {
+  return {
+    sourceType: entry.sourceType,
+    sourceId: entry.sourceId,
+    reference: entry.reference,
+    date: entry.date.toISOString(),
+    netCents: entry.netCents,
+    taxCents: entry.taxCents,
+  }
+}
+
+/**
+ * Assign VAT entries to the boxes of a country's return
+ */
+export function buildVatReturn(
+  country: TaxCountry,
+  entries: VatEntry[],
+  options: { periodStart: Date; periodEnd: Date; currency: string; warnings?: string[] }
+): VatReturn {
+  const layout = VAT_RETURN_LAYOUTS[country]
+  const boxes = layout.boxes.map((b) => ({ ...b, netCents: 0, taxCents: 0, sources: [] as VatBoxSource[] }))
+  const byCode = new Map(boxes.map((b) => [b.code, b]))
+  const box = (code: string) => byCode.get(code)!
+  const excluded: VatExcludedEntry[] = []
+  let salesCents = 0
+  let taxableSalesCents = 0
+
+  for (const entry of entries) {
+    const target = layout.assign(entry)
+    if (typeof target === 'string') {
+      excluded.push({ ...toSource(entry), reason: target })
+      continue
+    }
+    if (entry.flow === 'SALES') {
+      salesCents += entry.netCents
+      if (entry.category === 'STANDARD' && !entry.isExport) taxableSalesCents += entry.netCents
+    }
+    for (const code of target) {
+      const b = box(code)
+      b.netCents += entry.netCents
+      b.taxCents += entry.taxCents
+      b.sources.push(toSource(entry))
+    }
+  }
+
+  const { outputTaxCents, inputTaxCents } = layout.summarize(box)
+  const warnings = [...(options.warnings ?? [])]
+  const unassigned = excluded.filter((e) => e.reason === 'No emirate of supply')
+  if (unassigned.length > 0) {
+    warnings.push(`${unassigned.length} standard rated supplies have no emirate of supply and are not reported`)
+  }
+
+  return {
+    country,
+    form: layout.form,
+    periodStart: options.periodStart.toISOString(),
+    periodEnd: options.periodEnd.toISOString(),
+    currency: options.currency,
+    boxes,
+    salesCents,
+    taxableSalesCents,
+    outputTaxCents,
+    inputTaxCents,
+    netPayableCents: outputTaxCents - inputTaxCents,
+    excluded,
+    warnings,
+  }
+}
+
+/**
+ * Where a supply is made. For UAE entities placeOfSupply is an emirate
+ * code; anywhere else (or a foreign country code in the UAE) it is the
+ * customer's country, and a foreign one makes the supply an export.
+ */
+export function resolveSupplyLocation(
+  country: TaxCountry,
+  placeOfSupply: string | null | undefined,
+  defaultEmirate?: string | null
+): { region: string | null; isExport: boolean } {
+  const place = placeOfSupply?.trim().toUpperCase() || null
+
+  if (country === 'AE') {
+    if (place && UAE_EMIRATES[place]) return { region: place, isExport: false }
+    if (place && place !== 'AE') return { region: null, isExport: true }
+    const fallback = defaultEmirate?.trim().toUpperCase() || null
+    return { region: fallback && UAE_EMIRATES[fallback] ? fallback : null, isExport: false }
+  }
+
+  return { region: null, isExport: Boolean(place && place !== country) }
+}
+
+interface InvoiceForVat {
+  id: string
+  number: string | null
+  documentType: string
+  issueDate: Date
+  placeOfSupply: string | null
+  exchangeRate?: unknown // Converts to the filing currency; absent when already in it
+  items: Array<{ taxCategory: string; taxRate: unknown; netCents: number; taxCents: number }>
+}
+
+/**
+ * Normalise an invoice or note into one entry per tax category and rate
+ */
+export function invoiceToVatEntries(
+  invoice: InvoiceForVat,
+  country: TaxCountry,
+  defaultEmirate?: string | null
+): VatEntry[] {
+  const sourceType = invoice.documentType as VatSourceType
+  const sign = sourceType === 'CREDIT_NOTE' ? -1 : 1
+  const location = resolveSupplyLocation(country, invoice.placeOfSupply, defaultEmirate)
+  const groups = new Map<string, VatEntry>()
+
+  for (const item of invoice.items) {
+    const category = item.taxCategory as TaxCategory
+    const ratePercent = decimalToNumber(item.taxRate as any)
+    const key = `${category}:${ratePercent}`
+    const entry = groups.get(key) ?? {
+      sourceType,
+      sourceId: invoice.id,
+      reference: invoice.number || invoice.id,
+      date: invoice.issueDate,
+      flow: 'SALES' as const,
+      category,
+      ratePercent,
+      region: location.region,
+      isExport: location.isExport,
+      isImport: false,
+      netCents: 0,
+      taxCents: 0,
+    }
+    entry.netCents += sign * item.netCents
+    entry.taxCents += sign * item.taxCents
+    groups.set(key, entry)
+  }
+
+  const entries = Array.from(groups.values())
+  if (invoice.exchangeRate === undefined || invoice.exchangeRate === null) return entries
+
+  const rate = decimalToNumber(invoice.exchangeRate as any)
+  return entries.map((entry) => ({
+    ...entry,
+    netCents: Math.round(entry.netCents * rate),
+    taxCents: Math.round(entry.taxCents * rate),
+  }))
+}
+
+interface ExpenseForVat {
+  id: string
+  vendor: string
+  date: Date
+  amountCents: number
+  taxCategory: string
+  taxRate: unknown
+  taxCents: number
+  isImport: boolean
+  functionalAmountCents?: number | null // In the filing currency, when the expense is not
+  functionalTaxCents?: number | null
+}
+
+/**
+ * Normalise an expense. Reverse-charge tax is self-assessed on the net.
+ */
+export function expenseToVatEntry(expense: ExpenseForVat): VatEntry {
+  const category = expense.taxCategory as TaxCategory
+  const ratePercent = decimalToNumber(expense.taxRate as any)
+  const amountCents = expense.functionalAmountCents ?? expense.amountCents
+  const chargedTaxCents = expense.functionalTaxCents ?? expense.taxCents
+  const netCents = amountCents - chargedTaxCents
+  const taxCents = category === 'REVERSE_CHARGE' ? Math.round((netCents * ratePercent) / 100) : chargedTaxCents
+
+  return {
+    sourceType: 'EXPENSE',
+    sourceId: expense.id,
+    reference: expense.vendor,
+    date: expense.date,
+    flow: 'PURCHASES',
+    category,
+    ratePercent,
+    region: null,
+    isExport: false,
+    isImport: expense.isImport,
+    netCents,
+    taxCents,
+  }
+}
+
+interface BillForVat {
+  id: string
+  billNumber: string
+  issueDate: Date
+  isImport: boolean
+  exchangeRate?: unknown // Converts to the filing currency; absent when already in it
+  vendor: { name: string }
+  lines: Array<{ taxCategory: string; taxRate: unknown; netCents: number; taxCents: number }>
+}
+
+/**
+ * Normalise a supplier bill into one purchase entry per tax category and
+ * rate. Reverse-charge tax is self-assessed on the net, as for expenses.
+ */
+export function billToVatEntries(bill: BillForVat): VatEntry[] {
+  const rate = bill.exchangeRate === undefined || bill.exchangeRate === null ? 1 : decimalToNumber(bill.exchangeRate as any)
+  const groups = new Map<string, VatEntry>()
+
+  for (const line of bill.lines) {
+    const category = line.taxCategory as TaxCategory
+    const ratePercent = decimalToNumber(line.taxRate as any)
+    const key = `${category}:${ratePercent}`
+    const entry = groups.get(key) ?? {
+      sourceType: 'BILL' as const,
+      sourceId: bill.id,
+      reference: `${bill.vendor.name} ${bill.billNumber}`,
+      date: bill.issueDate,
+      flow: 'PURCHASES' as const,
+      category,
+      ratePercent,
+      region: null,
+      isExport: false,
+      isImport: bill.isImport,
+      netCents: 0,
+      taxCents: 0,
+    }
+    entry.netCents += line.netCents
+    entry.taxCents += line.taxCents
+    groups.set(key, entry)
+  }
+
+  return Array.from(groups.values()).map((entry) => {
+    const netCents = Math.round(entry.netCents * rate)
+    const taxCents = entry.category === 'REVERSE_CHARGE' ? Math.round((netCents * entry.ratePercent) / 100) : Math.round(entry.taxCents * rate)
+    return { ...entry, netCents, taxCents }
+  })
+}
+
+/**
+ * Express a return as the calculations stored on a TaxFiling (major units)
+ */
+export function toTaxCalculations(vatReturn: VatReturn): TaxCalculations {
+  const standardRate = getCountry(vatReturn.country as CountryCode)?.taxRate ?? 0
+
+  return {
+    grossIncome: vatReturn.salesCents / 100,
+    totalDeductions: vatReturn.inputTaxCents / 100,
+    taxableIncome: vatReturn.taxableSalesCents / 100,
+    taxRate: Math.round(standardRate * 100),
+    taxAmount: Math.max(0, vatReturn.netPayableCents) / 100,
+    refund: vatReturn.netPayableCents < 0 ? -vatReturn.netPayableCents / 100 : undefined,
+  }
+}
+
+/**
+ * Generate the VAT return for an entity's filing period from its books
+ */
+export async function generateVatReturn(tenantId: string, entityId: string, filingPeriodId: string): Promise<VatReturn> {
+  const entity = await prisma.entity.findFirst({
+    where: { id: entityId, tenantId },
+    select: { id: true, country: true, metadata: true },
+  })
+  if (!entity) throw new ApiError('NOT_FOUND', 'Entity not found', 404)
+
+  const period = await prisma.filingPeriod.findFirst({
+    where: { id: filingPeriodId, obligation: { entityId } },
+    select: { id: true, periodStart: true, periodEnd: true },
+  })
+  if (!period) throw new ApiError('NOT_FOUND', 'Filing period not found', 404)
+
+  const country = entity.country as TaxCountry
+  if (!VAT_RETURN_LAYOUTS[country]) {
+    throw new ApiError('UNSUPPORTED_COUNTRY', `VAT returns are not available for ${entity.country}`, 422)
+  }
+
+  const currency = getCountry(country as CountryCode)?.currency ?? 'USD'
+  const metadata = (entity.metadata ?? {}) as Record<string, unknown>
+  const defaultEmirate = typeof metadata.emirate === 'string' ? metadata.emirate : null
+  const dateRange = { gte: period.periodStart, lte: period.periodEnd }
+
+  const [invoices, expenses, bills] = await Promise.all([
+    prisma.invoice.findMany({
+      where: { tenantId, entityId, issueDate: dateRange, status: { notIn: ['DRAFT', 'VOID'] } },
+      select: {
+        id: true,
+        number: true,
+        documentType: true,
+        issueDate: true,
+        placeOfSupply: true,
+        currency: true,
+        functionalCurrency: true,
+        exchangeRate: true,
+        items: { select: { taxCategory: true, taxRate: true, netCents: true, taxCents: true } },
+      },
+      orderBy: { issueDate: 'asc' },
+    }),
+    prisma.expense.findMany({
+      where: { tenantId, entityId, date: dateRange, status: { not: 'REJECTED' } },
+      select: {
+        id: true,
+        vendor: true,
+        date: true,
+        amountCents: true,
+        currency: true,
+        taxCategory: true,
+        taxRate: true,
+        taxCents: true,
+        isImport: true,
+        functionalCurrency: true,
+        functionalAmountCents: true,
+        functionalTaxCents: true,
+      },
+      orderBy: { date: 'asc' },
+    }),
+    prisma.bill.findMany({
+      where: { tenantId, entityId, issueDate: dateRange, status: { in: ['APPROVED', 'PAID'] } },
+      select: {
+        id: true,
+        billNumber: true,
+        issueDate: true,
+        isImport: true,
+        currency: true,
+        functionalCurrency: true,
+        exchangeRate: true,
+        vendor: { select: { name: true } },
+        lines: { select: { taxCategory: true, taxRate: true, netCents: true, taxCents: true } },
+      },
+      orderBy: { issueDate: 'asc' },
+    }),
+  ])
+
+  // Amounts are reported in the filing currency: foreign documents at the
+  // rate they captured into it, others are left out
+  const inFilingCurrency = (d: { currency: string }) => d.currency.toUpperCase() === currency
+  const convertible = (d: { currency: string; functionalCurrency: string | null }) => !inFilingCurrency(d) && d.functionalCurrency === currency
+  const warnings: string[] = []
+  const foreign = [...invoices, ...expenses, ...bills].filter((d) => !inFilingCurrency(d) && !convertible(d))
+  if (foreign.length > 0) {
+    warnings.push(`${foreign.length} documents in a currency other than ${currency} without a captured ${currency} rate were left out`)
+  }
+
+  const entries: VatEntry[] = [
+    ...invoices
+      .filter((i) => inFilingCurrency(i) || convertible(i))
+      .flatMap((i) => invoiceToVatEntries({ ...i, exchangeRate: inFilingCurrency(i) ? null : i.exchangeRate }, country, defaultEmirate)),
+    ...expenses
+      .filter((e) => inFilingCurrency(e) || convertible(e))
+      .map((e) => expenseToVatEntry(inFilingCurrency(e) ? { ...e, functionalAmountCents: null, functionalTaxCents: null } : e)),
+    ...bills
+      .filter((b) => inFilingCurrency(b) || convertible(b))
+      .flatMap((b) => billToVatEntries({ ...b, exchangeRate: inFilingCurrency(b) ? null : b.exchangeRate })),
+  ]
+
+  return buildVatReturn(country, entries, {
+    periodStart: period.periodStart,
+    periodEnd: period.periodEnd,
+    currency,
+    warnings,
+  })
+}
+
+/**
+ * Generate the return and store it as the period's draft VAT filing,
+ * replacing an earlier draft. Filed returns are never overwritten. The
+ * user generating it is recorded as the preparer.
+ */
+export async function saveVatReturnFiling(tenantId: string, entityId: string, filingPeriodId: string, userId?: string | null) {
+  const vatReturn = await generateVatReturn(tenantId, entityId, filingPeriodId)
+  const calculations = toTaxCalculations(vatReturn)
+
+  const existing = await prisma.taxFiling.findFirst({
+    where: { tenantId, entityId, filingPeriodId, taxType: 'VAT' },
+    orderBy: { createdAt: 'desc' },
+  })
+  if (existing && existing.status !== 'DRAFT') {
+    throw new ApiError('FILING_LOCKED', `The VAT return for this period is already ${existing.status}`, 409, {
+      filingId: existing.id,
+    })
+  }
+
+  const data = {
+    country: vatReturn.country,
+    taxType: 'VAT',
+    periodStartDate: new Date(vatReturn.periodStart),
+    periodEndDate: new Date(vatReturn.periodEnd),
+    data: JSON.stringify({ source: 'generated', generatedAt: new Date().toISOString(), ...vatReturn }),
+    calculations: JSON.stringify(calculations),
+    taxAmount: calculations.taxAmount,
+    createdBy: userId ?? null,
+  }
+
+  const filing = existing
+    ? await prisma.taxFiling.update({ where: { id: existing.id }, data })
+    : await prisma.taxFiling.create({ data: { ...data, tenantId, entityId, filingPeriodId, status: 'DRAFT' } })
+
+  return { filing, vatReturn }
+}
+
+/**
+ * Read a generated return back from a filing
+ */
+export function parseGeneratedVatReturn(data: string): VatReturn | null {
+  try {
+    const parsed = JSON.parse(data)
+    return parsed?.source === 'generated' && Array.isArray(parsed.boxes) ? (parsed as VatReturn) : null
+  } catch {
+    return null
+  }
+}
@@ -254,6 +254,36 @@ export class BookingSettingsService {
     return list as unknown as PaymentMethodConfig[]
   }
 
+  /** Replace a channel's templates of the given types, in every locale, with those supplied. */
+  async replaceNotificationTemplates(
+    settingsId: string,
+    channel: string,
+    templateTypes: string[],
+    templates: Omit<NotificationTemplate, 'id' | 'bookingSettingsId' | 'channel'>[]
+  ): Promise<NotificationTemplate[]> {
+    await prisma.$transaction(async (tx) => {
+      await tx.notificationTemplate.deleteMany({ where: { bookingSettingsId: settingsId, channel, templateType: { in: templateTypes } } })
+      if (!templates.length) return
+      await tx.notificationTemplate.createMany({
+        data: templates.map((t) => ({
+          bookingSettingsId: settingsId,
+          channel,
+          templateType: t.templateType,
+          enabled: t.enabled ?? true,
+          subject: t.subject ?? null,
+          content: t.content,
+          variables: (t.variables ?? null) as any,
+          locale: t.locale ?? 'en',
+        })),
+      })
+    })
+    const list = await prisma.notificationTemplate.findMany({
+      where: { bookingSettingsId: settingsId, channel, templateType: { in: templateTypes } },
+    })
+    await this.invalidateBySettingsId(settingsId)
+    return list as unknown as NotificationTemplate[]
+  }
+
   /** Validate updates across sections. */
   async validateSettingsUpdate(_tenantId: string | null, updates: BookingSettingsUpdateRequest): Promise<SettingsValidationResult> {
     const errors: SettingsValidationError[] = []
@@ -412,6 +442,7 @@ export class BookingSettingsService {
             subject: t.subject ?? null,
             content: t.content,
             variables: t.variables === undefined ? getDbNull() : (t.variables === null ? getDbNull() : t.variables),
+            locale: t.locale ?? 'en',
           }))
           await tx.notificationTemplate.createMany({ data: notifData as any })
         }
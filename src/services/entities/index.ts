@@ -62,6 +62,7 @@ export class EntityService {
             status: "ACTIVE",
             fiscalYearStart: input.fiscalYearStart,
             activityCode: input.activityCode,
+            functionalCurrency: input.functionalCurrency?.toUpperCase() || country.currency,
             metadata: (input.metadata || {}) as Prisma.InputJsonValue,
             createdBy: userId,
           },
@@ -247,6 +248,15 @@ export class EntityService {
         if (input.status && input.status !== entity.status) {
           changes.status = { from: entity.status, to: input.status };
         }
+        const functionalCurrency = input.functionalCurrency?.toUpperCase();
+        if (functionalCurrency && functionalCurrency !== entity.functionalCurrency) {
+          // Posted amounts are in the functional currency; changing it would misstate them
+          const posted = await tx.journalEntry.count({ where: { entityId } });
+          if (posted > 0) {
+            throw new Error("Functional currency cannot change once the entity has ledger entries");
+          }
+          changes.functionalCurrency = { from: entity.functionalCurrency, to: functionalCurrency };
+        }
 
         // Update entity
         const updated = await tx.entity.update({
@@ -256,6 +266,7 @@ export class EntityService {
             legalForm: input.legalForm,
             status: input.status,
             activityCode: input.activityCode,
+            functionalCurrency,
             metadata: (input.metadata || {}) as Prisma.InputJsonValue,
             updatedBy: userId,
           },
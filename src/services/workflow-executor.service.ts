@@ -1,4 +1,7 @@
 import prisma from '@/lib/prisma'
+import { retryDelayMs, type RetryPolicy } from '@/lib/bpm/process-engine'
+import { stepHandlersMap, type BaseStepHandler, type WorkflowContext } from './workflow-steps'
+import { approvalManager } from './approval-manager.service'
 
 export type WorkflowStatus = 'DRAFT' | 'PENDING' | 'IN_PROGRESS' | 'PAUSED' | 'COMPLETED' | 'FAILED' | 'CANCELLED'
 export type StepStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED' | 'SKIPPED'
@@ -12,80 +15,194 @@ export interface WorkflowProgress {
   completedSteps: number
 }
 
+export type StepHandler = Pick<BaseStepHandler, 'execute' | 'rollback'>
+
+export interface WorkflowStepState {
+  id: string
+  stepNumber: number
+  actionType: string
+  status: string
+  requiresApproval: boolean
+  approvedAt?: Date | null
+  compensatedAt?: Date | null
+}
+
+type StepOutcome = 'COMPLETED' | 'PENDING' | 'FAILED'
+
+const NO_RETRY: RetryPolicy = { maxRetries: 0, backoffMultiplier: 1, initialDelayMs: 0 }
+const TERMINAL: string[] = ['COMPLETED', 'FAILED', 'CANCELLED']
+
+/**
+ * Retry policy from a step's config (`config.retryPolicy`); no retries when absent
+ */
+export function retryPolicyOf(config: any): RetryPolicy {
+  const policy = config?.retryPolicy
+  if (!policy || typeof policy.maxRetries !== 'number') return NO_RETRY
+  return {
+    maxRetries: Math.max(0, policy.maxRetries),
+    backoffMultiplier: policy.backoffMultiplier ?? 2,
+    initialDelayMs: policy.initialDelayMs ?? 1000
+  }
+}
+
+/**
+ * A step has asked for approval and no decision has been made yet
+ */
+export function isAwaitingDecision(step: WorkflowStepState): boolean {
+  return step.status === 'IN_PROGRESS' && !step.approvedAt && (step.requiresApproval || step.actionType === 'REQUEST_APPROVAL')
+}
+
+/**
+ * Completed steps that have not been rolled back, latest first
+ */
+export function compensationOrder<T extends WorkflowStepState>(steps: T[]): T[] {
+  return steps
+    .filter(s => s.status === 'COMPLETED' && !s.compensatedAt)
+    .sort((a, b) => b.stepNumber - a.stepNumber)
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
 export class WorkflowExecutorService {
-  async executeWorkflow(workflowId: string): Promise<WorkflowProgress> {
+  constructor(
+    private handlers: Record<string, StepHandler> = stepHandlersMap,
+    private wait: (ms: number) => Promise<void> = sleep
+  ) {}
+
+  /**
+   * Run the workflow's steps in order through their handlers. Completed steps
+   * are skipped, so this also resumes a paused or interrupted workflow. Steps
+   * awaiting approval pause the workflow; a failed step rolls back the steps
+   * that completed before it.
+   */
+  async executeWorkflow(workflowId: string, actorId?: string): Promise<WorkflowProgress> {
     try {
-      const wf = await prisma.userWorkflow.update({
+      const wf = await prisma.userWorkflow.findUnique({ where: { id: workflowId } })
+      if (!wf) return { workflowId, status: 'FAILED', progressPercent: 0, totalSteps: 0, completedSteps: 0 }
+      if (TERMINAL.includes(wf.status)) return this.toProgress(wf)
+
+      const changedBy = actorId || wf.triggeredBy
+      const resumed = !!wf.startedAt
+      await prisma.userWorkflow.update({
         where: { id: workflowId },
-        data: { status: 'IN_PROGRESS', startedAt: new Date() }
+        data: { status: 'IN_PROGRESS', startedAt: wf.startedAt ?? new Date() }
       })
+      await this.recordHistory(workflowId, changedBy, resumed ? 'WORKFLOW_RESUMED' : 'WORKFLOW_STARTED', `Workflow ${resumed ? 'resumed' : 'started'}`)
+
       const steps = await prisma.workflowStep.findMany({ where: { workflowId }, orderBy: { stepNumber: 'asc' } })
-      let completed = 0
       for (const step of steps) {
-        await prisma.workflowStep.update({ where: { id: step.id }, data: { status: 'IN_PROGRESS', startedAt: new Date() } })
-        // Simulate execution; real handlers implemented in step modules (Phase 4c+)
-        await prisma.workflowStep.update({ where: { id: step.id }, data: { status: 'COMPLETED', completedAt: new Date() } })
-        completed++
-        const progress = Math.round((completed / steps.length) * 100)
-        await prisma.userWorkflow.update({ where: { id: workflowId }, data: { completedSteps: completed, progressPercent: progress } })
+        if (step.status === 'COMPLETED' || step.status === 'SKIPPED') continue
+
+        if (isAwaitingDecision(step)) {
+          return this.pause(workflowId, changedBy, step)
+        }
+
+        if (step.requiresApproval && !step.approvedAt) {
+          const config = (step.config as Record<string, any>) || {}
+          await approvalManager.requestApproval(step.id, config.approverEmails || [])
+          await prisma.workflowStep.update({ where: { id: step.id }, data: { status: 'IN_PROGRESS', startedAt: new Date() } })
+          return this.pause(workflowId, changedBy, step)
+        }
+
+        const outcome = await this.runStep(wf, step, changedBy)
+        if (outcome === 'PENDING') {
+          return this.pause(workflowId, changedBy, step)
+        }
+        if (outcome === 'FAILED') {
+          const failed = await prisma.workflowStep.findUnique({ where: { id: step.id } })
+          return this.fail(workflowId, changedBy, `Step "${step.name}" failed: ${failed?.errorMessage || 'Unknown error'}`)
+        }
+        await this.updateProgress(workflowId)
       }
+
+      await this.updateProgress(workflowId)
       const finalWf = await prisma.userWorkflow.update({
         where: { id: workflowId },
-        data: { status: 'COMPLETED', completedAt: new Date() }
+        data: { status: 'COMPLETED', completedAt: new Date(), errorMessage: null }
       })
-      return {
-        workflowId,
-        status: finalWf.status as WorkflowStatus,
-        progressPercent: finalWf.progressPercent,
-        totalSteps: finalWf.totalSteps,
-        completedSteps: finalWf.completedSteps
-      }
+      await this.recordHistory(workflowId, changedBy, 'WORKFLOW_COMPLETED', 'Workflow completed', { status: 'COMPLETED' })
+      return this.toProgress(finalWf)
     } catch (err) {
       // Fallback when table not present or other DB errors
       return { workflowId, status: 'FAILED', progressPercent: 0, totalSteps: 0, completedSteps: 0 }
     }
   }
 
-  async executeStep(stepId: string): Promise<StepStatus> {
+  async executeStep(stepId: string, actorId?: string): Promise<StepStatus> {
     try {
-      await prisma.workflowStep.update({ where: { id: stepId }, data: { status: 'IN_PROGRESS', startedAt: new Date() } })
-      await prisma.workflowStep.update({ where: { id: stepId }, data: { status: 'COMPLETED', completedAt: new Date() } })
-      return 'COMPLETED'
+      const step = await prisma.workflowStep.findUnique({ where: { id: stepId }, include: { workflow: true } })
+      if (!step) return 'FAILED'
+      const outcome = await this.runStep(step.workflow, step, actorId || step.workflow.triggeredBy)
+      return outcome === 'PENDING' ? 'IN_PROGRESS' : outcome
     } catch {
       return 'FAILED'
     }
   }
 
-  async approveStep(stepId: string, approverUserId: string): Promise<StepStatus> {
+  /**
+   * Record an approval and continue the workflow. Approving a REQUEST_APPROVAL
+   * step completes it; approving a gated step lets its action run.
+   */
+  async approveStep(stepId: string, approverUserId: string, notes?: string): Promise<StepStatus> {
     try {
-      const step = await prisma.workflowStep.update({
-        where: { id: stepId },
-        data: { approvedAt: new Date(), approvedBy: approverUserId }
-      })
-      return step.status as StepStatus
+      const step = await prisma.workflowStep.findUnique({ where: { id: stepId } })
+      if (!step) return 'FAILED'
+
+      if (step.actionType === 'REQUEST_APPROVAL') {
+        const result = await approvalManager.approveStep(stepId, approverUserId, notes)
+        if (!result.success) return 'FAILED'
+      } else {
+        await prisma.workflowStep.update({
+          where: { id: stepId },
+          data: { approvedAt: new Date(), approvedBy: approverUserId, status: 'PENDING' }
+        })
+        await this.recordHistory(step.workflowId, approverUserId, 'STEP_APPROVED', `Step "${step.name}" approved by ${approverUserId}. ${notes || ''}`, {
+          stepId,
+          approverUserId
+        })
+      }
+
+      await this.executeWorkflow(step.workflowId, approverUserId)
+      const updated = await prisma.workflowStep.findUnique({ where: { id: stepId } })
+      return (updated?.status as StepStatus) || 'FAILED'
     } catch {
       return 'FAILED'
     }
   }
 
-  async pauseWorkflow(workflowId: string): Promise<WorkflowStatus> {
+  /**
+   * Record a rejection, fail the workflow and roll back its completed steps
+   */
+  async rejectStep(stepId: string, rejectorUserId: string, reason: string): Promise<StepStatus> {
     try {
-      const wf = await prisma.userWorkflow.update({ where: { id: workflowId }, data: { status: 'PAUSED' } })
-      return wf.status as WorkflowStatus
+      const step = await prisma.workflowStep.findUnique({ where: { id: stepId } })
+      if (!step) return 'FAILED'
+
+      const result = await approvalManager.rejectStep(stepId, rejectorUserId, reason)
+      if (!result.success) return 'FAILED'
+
+      await prisma.workflowStep.update({ where: { id: stepId }, data: { status: 'FAILED' } })
+      await this.fail(step.workflowId, rejectorUserId, `Step "${step.name}" rejected: ${reason}`)
+      return 'FAILED'
     } catch {
       return 'FAILED'
     }
   }
 
-  async resumeWorkflow(workflowId: string): Promise<WorkflowStatus> {
+  async pauseWorkflow(workflowId: string): Promise<WorkflowStatus> {
     try {
-      const wf = await prisma.userWorkflow.update({ where: { id: workflowId }, data: { status: 'IN_PROGRESS' } })
+      const wf = await prisma.userWorkflow.update({ where: { id: workflowId }, data: { status: 'PAUSED' } })
       return wf.status as WorkflowStatus
     } catch {
       return 'FAILED'
     }
   }
 
+  async resumeWorkflow(workflowId: string, actorId?: string): Promise<WorkflowStatus> {
+    const progress = await this.executeWorkflow(workflowId, actorId)
+    return progress.status
+  }
+
   async cancelWorkflow(workflowId: string): Promise<WorkflowStatus> {
     try {
       const wf = await prisma.userWorkflow.update({ where: { id: workflowId }, data: { status: 'CANCELLED' } })
@@ -99,17 +216,160 @@ export class WorkflowExecutorService {
     try {
       const wf = await prisma.userWorkflow.findUnique({ where: { id: workflowId } })
       if (!wf) return null
-      return {
-        workflowId,
-        status: wf.status as WorkflowStatus,
-        progressPercent: wf.progressPercent,
-        totalSteps: wf.totalSteps,
-        completedSteps: wf.completedSteps
-      }
+      return this.toProgress(wf)
     } catch {
       return null
     }
   }
+
+  /**
+   * Dispatch a step to its handler, retrying per the step's retry policy
+   */
+  private async runStep(
+    wf: { id: string; tenantId: string; userId: string },
+    step: { id: string; name: string; actionType: string; config: any; attempts: number },
+    changedBy: string
+  ): Promise<StepOutcome> {
+    const handler = this.handlers[step.actionType]
+    const policy = retryPolicyOf(step.config)
+    const context: WorkflowContext = {
+      workflowId: wf.id,
+      stepId: step.id,
+      tenantId: wf.tenantId,
+      userId: wf.userId,
+      config: (step.config as Record<string, any>) || {}
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      const startedAt = new Date()
+      await prisma.workflowStep.update({
+        where: { id: step.id },
+        data: { status: 'IN_PROGRESS', startedAt, attempts: step.attempts + attempt }
+      })
+
+      const result = handler
+        ? await handler.execute(context)
+        : { success: false, error: `No handler registered for ${step.actionType}` }
+
+      if (result.success && result.pending) {
+        await prisma.workflowStep.update({ where: { id: step.id }, data: { output: result.data ?? undefined } })
+        return 'PENDING'
+      }
+
+      if (result.success) {
+        await prisma.workflowStep.update({
+          where: { id: step.id },
+          data: {
+            status: 'COMPLETED',
+            completedAt: new Date(),
+            durationMs: Date.now() - startedAt.getTime(),
+            output: result.data ?? undefined,
+            errorMessage: null
+          }
+        })
+        await this.recordHistory(wf.id, changedBy, 'STEP_COMPLETED', `Step "${step.name}" completed. ${result.message || ''}`, {
+          stepId: step.id,
+          attempt,
+          data: result.data
+        })
+        return 'COMPLETED'
+      }
+
+      const error = result.error || 'Unknown error'
+      if (attempt > policy.maxRetries) {
+        await prisma.workflowStep.update({ where: { id: step.id }, data: { status: 'FAILED', errorMessage: error } })
+        await this.recordHistory(wf.id, changedBy, 'STEP_FAILED', `Step "${step.name}" failed after ${attempt} attempt(s): ${error}`, {
+          stepId: step.id,
+          attempt,
+          error
+        })
+        return 'FAILED'
+      }
+
+      const delayMs = retryDelayMs(policy, attempt)
+      await prisma.workflowStep.update({ where: { id: step.id }, data: { errorMessage: error } })
+      await this.recordHistory(wf.id, changedBy, 'STEP_RETRY', `Step "${step.name}" failed, retrying in ${delayMs}ms: ${error}`, {
+        stepId: step.id,
+        attempt,
+        delayMs,
+        error
+      })
+      await this.wait(delayMs)
+    }
+  }
+
+  private async pause(workflowId: string, changedBy: string, step: { id: string; name: string }): Promise<WorkflowProgress> {
+    const wf = await prisma.userWorkflow.update({ where: { id: workflowId }, data: { status: 'PAUSED' } })
+    await this.recordHistory(workflowId, changedBy, 'STEP_AWAITING_APPROVAL', `Workflow paused until step "${step.name}" is approved`, {
+      stepId: step.id
+    })
+    return this.toProgress(wf)
+  }
+
+  /**
+   * Roll back completed steps in reverse order and mark the workflow failed.
+   * A rollback that fails is recorded and the remaining steps are still rolled back.
+   */
+  private async fail(workflowId: string, changedBy: string, reason: string): Promise<WorkflowProgress> {
+    const wf = await prisma.userWorkflow.findUnique({ where: { id: workflowId } })
+    const steps = await prisma.workflowStep.findMany({ where: { workflowId }, orderBy: { stepNumber: 'asc' } })
+
+    for (const step of compensationOrder(steps)) {
+      const handler = this.handlers[step.actionType]
+      if (!handler) continue
+
+      const result = await handler.rollback({
+        workflowId,
+        stepId: step.id,
+        tenantId: wf.tenantId,
+        userId: wf.userId,
+        config: (step.config as Record<string, any>) || {},
+        output: step.output
+      })
+
+      if (result.success) {
+        await prisma.workflowStep.update({ where: { id: step.id }, data: { compensatedAt: new Date() } })
+        await this.recordHistory(workflowId, changedBy, 'STEP_COMPENSATED', `Step "${step.name}" rolled back. ${result.message || ''}`, {
+          stepId: step.id
+        })
+      } else {
+        await this.recordHistory(workflowId, changedBy, 'STEP_COMPENSATION_FAILED', `Rollback of step "${step.name}" failed: ${result.error || 'Unknown error'}`, {
+          stepId: step.id,
+          error: result.error
+        })
+      }
+    }
+
+    const failed = await prisma.userWorkflow.update({
+      where: { id: workflowId },
+      data: { status: 'FAILED', errorMessage: reason, lastErrorAt: new Date() }
+    })
+    await this.recordHistory(workflowId, changedBy, 'WORKFLOW_FAILED', reason, { status: 'FAILED' })
+    return this.toProgress(failed)
+  }
+
+  private async updateProgress(workflowId: string) {
+    const steps = await prisma.workflowStep.findMany({ where: { workflowId }, select: { status: true } })
+    const completed = steps.filter(s => s.status === 'COMPLETED' || s.status === 'SKIPPED').length
+    const progress = steps.length ? Math.round((completed / steps.length) * 100) : 100
+    await prisma.userWorkflow.update({ where: { id: workflowId }, data: { completedSteps: completed, progressPercent: progress } })
+  }
+
+  private async recordHistory(workflowId: string, changedBy: string, eventType: string, eventDescription: string, newValue?: Record<string, any>) {
+    await prisma.workflowHistory.create({
+      data: { workflowId, eventType, eventDescription: eventDescription.trim(), changedBy, newValue }
+    })
+  }
+
+  private toProgress(wf: { id: string; status: string; progressPercent: number; totalSteps: number; completedSteps: number }): WorkflowProgress {
+    return {
+      workflowId: wf.id,
+      status: wf.status as WorkflowStatus,
+      progressPercent: wf.progressPercent,
+      totalSteps: wf.totalSteps,
+      completedSteps: wf.completedSteps
+    }
+  }
 }
 
 export const workflowExecutor = new WorkflowExecutorService()
@@ -41,6 +41,24 @@ export class AssignRoleStepHandler extends BaseStepHandler {
       return { success: false, error: err?.message || 'Failed to assign role' }
     }
   }
+
+  async rollback(context: WorkflowContext): Promise<StepHandlerResult> {
+    const { oldRole } = context.output || {}
+    if (!oldRole) return { success: true, message: 'No rollback needed' }
+
+    try {
+      const workflow = await prisma.userWorkflow.findUnique({ where: { id: context.workflowId } })
+      if (!workflow) return { success: false, error: 'Workflow not found' }
+
+      await prisma.user.update({
+        where: { id: workflow.userId },
+        data: { role: oldRole }
+      })
+      return { success: true, message: `Role restored to ${oldRole}` }
+    } catch (err: any) {
+      return { success: false, error: err?.message || 'Failed to restore role' }
+    }
+  }
 }
 
 export const assignRoleHandler = new AssignRoleStepHandler()
@@ -1,11 +1,10 @@
-import prisma from '@/lib/prisma'
-
 export interface WorkflowContext {
   workflowId: string
   stepId: string
   tenantId: string
   userId: string
   config: Record<string, any>
+  output?: any // Data returned by the step's execution, passed to rollback
 }
 
 export interface StepHandlerResult {
@@ -13,37 +12,20 @@ export interface StepHandlerResult {
   message?: string
   data?: any
   error?: string
+  pending?: boolean // Step waits for an outside decision before it completes
 }
 
+/**
+ * Step handlers perform the action; the workflow executor owns the step's
+ * status, attempts and output.
+ */
 export abstract class BaseStepHandler {
   abstract actionType: string
   abstract estimatedDurationSeconds: number
 
   async execute(context: WorkflowContext): Promise<StepHandlerResult> {
     try {
-      const step = await prisma.workflowStep.findUnique({ where: { id: context.stepId } })
-      if (!step) return { success: false, error: 'Step not found' }
-
-      const result = await this.executeStep(context)
-      if (result.success) {
-        await prisma.workflowStep.update({
-          where: { id: context.stepId },
-          data: {
-            status: 'COMPLETED',
-            completedAt: new Date(),
-            durationMs: Math.round((Date.now() - (step.startedAt?.getTime() || Date.now())) / 1000) * 1000
-          }
-        })
-      } else {
-        await prisma.workflowStep.update({
-          where: { id: context.stepId },
-          data: {
-            status: 'FAILED',
-            errorMessage: result.error || 'Unknown error'
-          }
-        })
-      }
-      return result
+      return await this.executeStep(context)
     } catch (err: any) {
       return { success: false, error: err?.message || 'Execution failed' }
     }
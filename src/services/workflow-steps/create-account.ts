@@ -20,7 +20,8 @@ export class CreateAccountStepHandler extends BaseStepHandler {
 
       const user = workflow.user
 
-      if (!user.emailVerified) {
+      const verified = !user.emailVerified
+      if (verified) {
         await prisma.user.update({
           where: { id: user.id },
           data: { emailVerified: new Date() }
@@ -30,12 +31,27 @@ export class CreateAccountStepHandler extends BaseStepHandler {
       return {
         success: true,
         message: `Account created for ${user.email}`,
-        data: { userId: user.id, email: user.email }
+        data: { userId: user.id, email: user.email, verified }
       }
     } catch (err: any) {
       return { success: false, error: err?.message || 'Failed to create account' }
     }
   }
+
+  async rollback(context: WorkflowContext): Promise<StepHandlerResult> {
+    const { userId, verified } = context.output || {}
+    if (!userId || !verified) return { success: true, message: 'No rollback needed' }
+
+    try {
+      await prisma.user.update({
+        where: { id: userId },
+        data: { emailVerified: null }
+      })
+      return { success: true, message: 'Account activation reverted' }
+    } catch (err: any) {
+      return { success: false, error: err?.message || 'Failed to revert account' }
+    }
+  }
 }
 
 export const createAccountHandler = new CreateAccountStepHandler()
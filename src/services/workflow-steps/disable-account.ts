@@ -18,28 +18,82 @@ export class DisableAccountStepHandler extends BaseStepHandler {
         return { success: false, error: 'User not found' }
       }
 
+      const userId = workflow.user.id
       const disableDate = new Date()
 
       const profile = await prisma.userProfile.findUnique({
-        where: { userId: workflow.user.id }
+        where: { userId }
       })
 
       if (profile) {
         await prisma.userProfile.update({
-          where: { userId: workflow.user.id },
+          where: { userId },
           data: { lockoutUntil: new Date('2099-12-31') }
         })
       }
 
+      // Revoke entity access and direct grants, keeping what was removed so rollback can restore it
+      const entityLinks = await prisma.userOnEntity.findMany({
+        where: { userId },
+        select: { entityId: true, role: true }
+      })
+      const permissions = await prisma.userPermission.findMany({
+        where: { userId },
+        select: { permission: true, scope: true, grantedById: true }
+      })
+      await prisma.userOnEntity.deleteMany({ where: { userId } })
+      await prisma.userPermission.deleteMany({ where: { userId } })
+
+      // Invalidate existing sessions
+      await prisma.user.update({
+        where: { id: userId },
+        data: { sessionVersion: { increment: 1 } }
+      })
+
       return {
         success: true,
         message: `Account disabled for ${workflow.user.email}`,
-        data: { userId: workflow.user.id, email: workflow.user.email, disabledAt: disableDate }
+        data: {
+          userId,
+          email: workflow.user.email,
+          disabledAt: disableDate,
+          previousLockoutUntil: profile ? profile.lockoutUntil : undefined,
+          entityLinks,
+          permissions
+        }
       }
     } catch (err: any) {
       return { success: false, error: err?.message || 'Failed to disable account' }
     }
   }
+
+  async rollback(context: WorkflowContext): Promise<StepHandlerResult> {
+    const { userId, previousLockoutUntil, entityLinks = [], permissions = [] } = context.output || {}
+    if (!userId) return { success: true, message: 'No rollback needed' }
+
+    try {
+      if (previousLockoutUntil !== undefined) {
+        await prisma.userProfile.update({
+          where: { userId },
+          data: { lockoutUntil: previousLockoutUntil ? new Date(previousLockoutUntil) : null }
+        })
+      }
+      if (entityLinks.length > 0) {
+        await prisma.userOnEntity.createMany({
+          data: entityLinks.map((link: { entityId: string; role: string | null }) => ({ userId, ...link })),
+          skipDuplicates: true
+        })
+      }
+      if (permissions.length > 0) {
+        await prisma.userPermission.createMany({
+          data: permissions.map((grant: { permission: string; scope: string | null; grantedById: string | null }) => ({ userId, ...grant }))
+        })
+      }
+      return { success: true, message: `Account re-enabled with ${entityLinks.length} entity memberships and ${permissions.length} permissions` }
+    } catch (err: any) {
+      return { success: false, error: err?.message || 'Failed to re-enable account' }
+    }
+  }
 }
 
 export const disableAccountHandler = new DisableAccountStepHandler()
@@ -8,6 +8,7 @@ export { ArchiveDataStepHandler } from './archive-data'
 export { RequestApprovalStepHandler } from './request-approval'
 export { SyncPermissionsStepHandler } from './sync-permissions'
 
+import type { BaseStepHandler } from './base-handler'
 import { createAccountHandler } from './create-account'
 import { provisionAccessHandler } from './provision-access'
 import { sendEmailHandler } from './send-email'
@@ -17,7 +18,7 @@ import { archiveDataHandler } from './archive-data'
 import { requestApprovalHandler } from './request-approval'
 import { syncPermissionsHandler } from './sync-permissions'
 
-export const stepHandlersMap: Record<string, any> = {
+export const stepHandlersMap: Record<string, BaseStepHandler> = {
   CREATE_ACCOUNT: createAccountHandler,
   PROVISION_ACCESS: provisionAccessHandler,
   SEND_EMAIL: sendEmailHandler,
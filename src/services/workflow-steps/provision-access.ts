@@ -6,25 +6,81 @@ export class ProvisionAccessStepHandler extends BaseStepHandler {
   estimatedDurationSeconds = 8
 
   protected async executeStep(context: WorkflowContext): Promise<StepHandlerResult> {
-    const { config } = context
+    const { config, workflowId, tenantId } = context
 
     try {
-      const systems = config?.systems || ['email', 'slack', 'github']
+      const workflow = await prisma.userWorkflow.findUnique({
+        where: { id: workflowId },
+        include: { user: true }
+      })
 
-      const provisioned: string[] = []
-      for (const system of systems) {
-        provisioned.push(system)
+      if (!workflow || !workflow.user) {
+        return { success: false, error: 'User not found' }
+      }
+
+      const userId = workflow.user.id
+      const entityIds: string[] = config?.entityIds || []
+      const permissions: string[] = config?.permissions || []
+      const scope: string | null = config?.scope ?? null
+      const systems: string[] = config?.systems || ['email', 'slack', 'github']
+
+      if (entityIds.length > 0) {
+        const entities = await prisma.entity.findMany({
+          where: { id: { in: entityIds }, tenantId },
+          select: { id: true }
+        })
+        const unknown = entityIds.filter(id => !entities.some(e => e.id === id))
+        if (unknown.length > 0) {
+          return { success: false, error: `Unknown entities: ${unknown.join(', ')}` }
+        }
+      }
+
+      // Only what this step creates is recorded, so rollback never removes access the user already had
+      const entityLinks: string[] = []
+      for (const entityId of entityIds) {
+        const existing = await prisma.userOnEntity.findUnique({ where: { userId_entityId: { userId, entityId } } })
+        if (existing) continue
+        const link = await prisma.userOnEntity.create({
+          data: { userId, entityId, role: config?.entityRole ?? null }
+        })
+        entityLinks.push(link.id)
+      }
+
+      const grants: string[] = []
+      for (const permission of permissions) {
+        const existing = await prisma.userPermission.findFirst({ where: { userId, permission, scope } })
+        if (existing) continue
+        const grant = await prisma.userPermission.create({
+          data: { userId, permission, scope, grantedById: workflow.triggeredBy }
+        })
+        grants.push(grant.id)
       }
 
       return {
         success: true,
-        message: `Access provisioned for systems: ${provisioned.join(', ')}`,
-        data: { systems: provisioned }
+        message: `Access provisioned: ${entityIds.length} entities, ${permissions.length} permissions, systems: ${systems.join(', ')}`,
+        data: { userId, systems, entityLinks, grants }
       }
     } catch (err: any) {
       return { success: false, error: err?.message || 'Failed to provision access' }
     }
   }
+
+  async rollback(context: WorkflowContext): Promise<StepHandlerResult> {
+    const { entityLinks = [], grants = [] } = context.output || {}
+
+    try {
+      if (grants.length > 0) {
+        await prisma.userPermission.deleteMany({ where: { id: { in: grants } } })
+      }
+      if (entityLinks.length > 0) {
+        await prisma.userOnEntity.deleteMany({ where: { id: { in: entityLinks } } })
+      }
+      return { success: true, message: `Revoked ${grants.length} permissions and ${entityLinks.length} entity memberships` }
+    } catch (err: any) {
+      return { success: false, error: err?.message || 'Failed to revoke provisioned access' }
+    }
+  }
 }
 
 export const provisionAccessHandler = new ProvisionAccessStepHandler()
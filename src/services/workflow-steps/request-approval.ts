@@ -24,11 +24,6 @@ export class RequestApprovalStepHandler extends BaseStepHandler {
         return { success: false, error: 'No approvers specified' }
       }
 
-      await prisma.workflowStep.update({
-        where: { id: stepId },
-        data: { status: 'IN_PROGRESS' }
-      })
-
       const result = await approvalManager.requestApproval(stepId, approverEmails)
 
       if (!result.success) {
@@ -37,6 +32,7 @@ export class RequestApprovalStepHandler extends BaseStepHandler {
 
       return {
         success: true,
+        pending: true,
         message: `Approval requested from ${approverEmails.length} approver(s)`,
         data: {
           stepId,
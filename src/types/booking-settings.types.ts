@@ -119,6 +119,7 @@ export interface NotificationTemplate {
   subject?: string | null;
   content: string;
   variables?: string[] | null;
+  locale?: string;
 }
 
 export interface BookingAutomation { autoConfirm: boolean; confirmIf: 'always' | 'known-client' | 'paid'; followUps: { hoursAfter: number; templateId: string }[]; cancellationPolicy: { hoursBefore: number; feePercent: number } }
@@ -45,6 +45,7 @@ export interface EntityCreateInput {
   legalForm?: string; // e.g., "LLC", "Sole Establishment", "Corporation"
   entityType?: EntityType; // Type of entity for determining applicable obligations
   activityCode?: string; // Industry/activity code
+  functionalCurrency?: string; // Currency the books are kept in; defaults to the country currency
   fiscalYearStart?: Date; // Fiscal year start date
   licenses?: EntityLicenseInput[]; // Initial licenses
   registrations?: EntityRegistrationInput[]; // Initial registrations (TRN, ZATCA, etc.)
@@ -59,6 +60,7 @@ export interface EntityUpdateInput {
   legalForm?: string;
   status?: EntityStatus;
   activityCode?: string;
+  functionalCurrency?: string; // Only while the entity has no ledger entries
   metadata?: Record<string, unknown>;
 }
 
@@ -124,6 +126,7 @@ export interface EntityWithRelations {
   registrationCertUrl?: string | null;
   registrationCertHash?: string | null;
   activityCode?: string | null;
+  functionalCurrency?: string | null;
   parentEntityId?: string | null;
   metadata?: Prisma.JsonValue | null;
   createdAt: Date;
@@ -0,0 +1,237 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { randomBytes } from 'crypto'
+import {
+  FieldKeyring,
+  MemoryDataKeyStore,
+  blindIndex,
+  encryptWithKey,
+  decryptWithKey,
+  isEnvelope,
+  type DataKeyStore,
+  type MasterKeyProvider,
+} from '@/lib/security/field-encryption'
+import { createFieldEncryption } from '@/lib/prisma-field-encryption'
+import { isKeyRotationDue } from '@/lib/jobs/encryption-key-rotation'
+
+function keyProvider(): MasterKeyProvider & { masterKeys: Record<string, Buffer>; active: string } {
+  return {
+    masterKeys: { 'mk-1': randomBytes(32) },
+    active: 'mk-1',
+    activeMasterKeyId() {
+      return this.active
+    },
+    masterKey(id: string) {
+      return this.masterKeys[id]
+    },
+    blindIndexKey() {
+      return Buffer.alloc(32, 7)
+    },
+  }
+}
+
+const relations = {
+  Entity: { registrations: 'EntityRegistration', tenant: 'Tenant' },
+  EntityRegistration: { entity: 'Entity' },
+}
+
+describe('field encryption', () => {
+  let store: MemoryDataKeyStore
+  let provider: ReturnType<typeof keyProvider>
+  let keyring: FieldKeyring
+
+  beforeEach(() => {
+    store = new MemoryDataKeyStore()
+    provider = keyProvider()
+    keyring = new FieldKeyring(store, provider)
+  })
+
+  it('should seal values in an authenticated envelope bound to its key, tenant and column', () => {
+    const key = randomBytes(32)
+    const context = { tenantId: 't1', field: 'Party.taxId' }
+    const sealed = encryptWithKey('k1', key, '300012345600003', context)
+
+    expect(isEnvelope(sealed)).toBe(true)
+    expect(sealed).not.toContain('300012345600003')
+    expect(decryptWithKey(sealed, key, context)).toBe('300012345600003')
+    expect(() => decryptWithKey(sealed.replace('enc:v1:k1:', 'enc:v1:k2:'), key, context)).toThrow()
+    expect(() => decryptWithKey(sealed, key, { tenantId: 't2', field: 'Party.taxId' })).toThrow()
+    expect(() => decryptWithKey(sealed, key, { tenantId: 't1', field: 'Party.registrationNumber' })).toThrow()
+  })
+
+  it('should give each tenant its own data key and read legacy plaintext unchanged', async () => {
+    const a = await keyring.encrypt('TRN-1', 't1', 'Party.taxId')
+    const b = await keyring.encrypt('TRN-1', 't2', 'Party.taxId')
+
+    expect(a).not.toBe(b)
+    expect((await store.list({ tenantId: 't1' })).map((k) => k.status)).toEqual(['ACTIVE'])
+    expect((await store.list({ tenantId: 't2' })).length).toBe(1)
+    expect(await new FieldKeyring(store, provider).decrypt(a, 'Party.taxId')).toBe('TRN-1')
+    expect(await keyring.decrypt('plain-legacy-value', 'Party.taxId')).toBe('plain-legacy-value')
+  })
+
+  it('should refuse a value read from another tenant row or another column', async () => {
+    const sealed = await keyring.encrypt('TRN-1', 't1', 'Party.taxId')
+
+    expect(await keyring.decrypt(sealed, 'Party.taxId', 't1')).toBe('TRN-1')
+    await expect(keyring.decrypt(sealed, 'Party.taxId', 't2')).rejects.toThrow(/another tenant/)
+    await expect(keyring.decrypt(sealed, 'Party.registrationNumber')).rejects.toThrow()
+  })
+
+  it('should create a single key when a tenant is first used concurrently', async () => {
+    await Promise.all([keyring.encrypt('a', 't1', 'Party.taxId'), keyring.encrypt('b', 't1', 'Party.taxId'), keyring.encrypt('c', 't1', 'Party.taxId')])
+    expect(await store.list({ tenantId: 't1' })).toHaveLength(1)
+  })
+
+  it('should use the key another process created when both create the first key of a tenant', async () => {
+    const rival = new FieldKeyring(store, provider)
+    let raced = false
+    // The rival inserts its key between this keyring's lookup and its own insert
+    const racing: DataKeyStore = {
+      get: (id) => store.get(id),
+      list: async (filter) => (raced ? store.list(filter) : []),
+      async save(record) {
+        if (raced) return store.save(record)
+        raced = true
+        await rival.activeKeyId('t1')
+        throw Object.assign(new Error('Unique constraint failed on the fields: (tenantId)'), { code: 'P2002' })
+      },
+    }
+
+    const sealed = await new FieldKeyring(racing, provider).encrypt('TRN-1', 't1', 'Party.taxId')
+    expect(await store.list({ tenantId: 't1' })).toHaveLength(1)
+    expect(sealed).toContain(`enc:v1:${await rival.activeKeyId('t1')}:`)
+    expect(await rival.decrypt(sealed, 'Party.taxId', 't1')).toBe('TRN-1')
+  })
+
+  it('should hash equal identifiers alike regardless of case and spacing', () => {
+    const key = Buffer.alloc(32, 1)
+    expect(blindIndex(key, 'Party.taxId', 'ab 123')).toBe(blindIndex(key, 'Party.taxId', 'AB123'))
+    expect(blindIndex(key, 'Party.taxId', 'AB123')).not.toBe(blindIndex(key, 'Party.registrationNumber', 'AB123'))
+  })
+
+  it('should rotate to a new key, keep old values readable and rewrap on a new master key', async () => {
+    const old = await keyring.encrypt('secret', 't1', 'Party.taxId')
+    const { keyId, retiring } = await keyring.beginRotation('t1')
+
+    expect(retiring).toHaveLength(1)
+    expect(await keyring.encrypt('secret', 't1', 'Party.taxId')).toContain(`enc:v1:${keyId}:`)
+    // An interrupted rotation resumes with the same key
+    expect((await keyring.beginRotation('t1')).keyId).toBe(keyId)
+
+    expect(await keyring.finishRotation('t1')).toBe(1)
+    expect((await store.get(retiring[0]))?.status).toBe('RETIRED')
+    expect(await keyring.decrypt(old, 'Party.taxId')).toBe('secret')
+
+    provider.masterKeys['mk-2'] = randomBytes(32)
+    provider.active = 'mk-2'
+    expect(await keyring.rewrapDataKeys()).toBe(2)
+    delete provider.masterKeys['mk-1']
+    expect(await new FieldKeyring(store, provider).decrypt(old, 'Party.taxId')).toBe('secret')
+  })
+
+  it('should decide when a tenant key is due for rotation', () => {
+    const asOf = new Date('2025-12-31T00:00:00Z')
+    expect(isKeyRotationDue(null, false, asOf)).toBe(true)
+    expect(isKeyRotationDue(new Date('2025-12-01T00:00:00Z'), false, asOf)).toBe(false)
+    expect(isKeyRotationDue(new Date('2025-12-01T00:00:00Z'), true, asOf)).toBe(true)
+    expect(isKeyRotationDue(new Date('2025-09-01T00:00:00Z'), false, asOf)).toBe(true)
+  })
+
+  describe('extension', () => {
+    const encryption = () =>
+      createFieldEncryption({
+        crypto: keyring,
+        relations,
+        findOwnerTenant: async (model, id) => (model === 'Entity' && id === 'e1' ? 't1' : null),
+        findTenant: async () => 't9',
+        currentTenant: () => null,
+      })
+
+    it('should encrypt designated fields on create, fill their blind index and decrypt the result', async () => {
+      let sent: any
+      const result = await encryption().apply(
+        'Party',
+        'create',
+        { data: { tenantId: 't1', name: 'Acme', taxId: '300012345600003', registrationNumber: null } },
+        async (args) => ((sent = args), { id: 'p1', ...args.data })
+      )
+
+      expect(sent.data.taxId).toMatch(/^enc:v1:/)
+      expect(sent.data.taxIdHash).toBe(keyring.blindIndex('Party.taxId', '300012345600003'))
+      expect(sent.data).toMatchObject({ name: 'Acme', registrationNumber: null, registrationNumberHash: null })
+      expect((await store.list({ tenantId: 't1' })).length).toBe(1)
+      expect(result).toMatchObject({ taxId: '300012345600003', name: 'Acme' })
+    })
+
+    it('should rewrite equality filters to the blind index and reject partial matches', async () => {
+      const hash = (v: string) => keyring.blindIndex('Party.taxId', v)
+      const where = encryption().rewriteWhere('Party', {
+        tenantId: 't1',
+        OR: [{ name: { contains: 'ac' } }, { taxId: '300012345600003' }, { taxId: { in: ['a', 'b'], mode: 'insensitive' } }],
+        registrationNumber: null,
+      })
+
+      expect(where).toEqual({
+        tenantId: 't1',
+        OR: [{ name: { contains: 'ac' } }, { taxIdHash: hash('300012345600003') }, { taxIdHash: { in: [hash('a'), hash('b')] } }],
+        registrationNumber: null,
+      })
+      expect(() => encryption().rewriteWhere('Party', { taxId: { contains: '3000' } })).toThrow(/only supports equality/)
+      expect(() => encryption().rewriteWhere('BankingConnection', { sessionToken: 'abc' })).toThrow(/cannot be filtered/)
+    })
+
+    it('should follow relations for nested filters, nested writes and included results', async () => {
+      const e = encryption()
+      expect(e.rewriteWhere('Entity', { tenantId: 't1', registrations: { some: { type: 'TRN', value: '123' } } })).toEqual({
+        tenantId: 't1',
+        registrations: { some: { type: 'TRN', valueHash: keyring.blindIndex('EntityRegistration.value', '123') } },
+      })
+
+      let sent: any
+      const entity = await e.apply(
+        'Entity',
+        'create',
+        { data: { tenantId: 't2', name: 'Acme', registrations: { create: [{ type: 'TRN', value: '123' }] } }, include: { registrations: true } },
+        async (args) => {
+          sent = args
+          return { id: 'e2', name: 'Acme', registrations: args.data.registrations.create.map((r: any) => ({ id: 'r1', ...r })) }
+        }
+      )
+
+      const stored = sent.data.registrations.create[0]
+      expect(stored.value).toMatch(/^enc:v1:/)
+      expect((await store.list({ tenantId: 't2' })).length).toBe(1)
+      expect(entity.registrations[0].value).toBe('123')
+    })
+
+    it('should seal with the owning tenant found through the parent or the existing row', async () => {
+      const e = encryption()
+      const run = (op: string, args: any) => e.apply('EntityRegistration', op, args, async (a) => a.data)
+
+      const created = await run('create', { data: { entityId: 'e1', type: 'TRN', value: '123' } })
+      const updated = await run('update', { where: { id: 'r1' }, data: { value: '456' } })
+
+      expect(created.value).toBe('123')
+      expect((await store.list({ tenantId: 't1' })).length).toBe(1)
+      expect((await store.list({ tenantId: 't9' })).length).toBe(1)
+      expect(updated.value).toBe('456')
+    })
+
+    it('should store JSON credentials as an envelope and leave untouched writes alone', async () => {
+      let sent: any
+      const row = await encryption().apply(
+        'BankingConnection',
+        'update',
+        { where: { id: 'b1' }, data: { credentials: { username: 'ops', password: 'hunter2' }, status: 'ACTIVE' } },
+        async (args) => ((sent = args), { id: 'b1', ...args.data })
+      )
+
+      expect(typeof sent.data.credentials).toBe('string')
+      expect(row.credentials).toEqual({ username: 'ops', password: 'hunter2' })
+
+      const statusOnly = await encryption().apply('BankingConnection', 'update', { where: { id: 'b1' }, data: { status: 'ERROR' } }, async (a) => a.data)
+      expect(statusOnly).toEqual({ status: 'ERROR' })
+      expect((await store.list({})).length).toBe(1)
+    })
+  })
+})
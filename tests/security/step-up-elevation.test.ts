@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { NextRequest } from 'next/server'
+import { PERMISSION_METADATA, PERMISSIONS, RiskLevel } from '@/lib/permissions'
+import { assessStepUp, stepUpElevationTtl } from '@/lib/security/step-up-auth'
+import { ELEVATION_COOKIE, readElevation, requireStepUp, resolveStepUp, signElevation } from '@/lib/security/step-up'
+
+// Plain functions: the global setup resets vi.fn implementations after each test
+const factors = vi.hoisted(() => ({ passkey: true, secret: 'SECRET' as string | null, trusted: false }))
+
+vi.mock('@/lib/audit', () => ({ logAudit: async () => {} }))
+vi.mock('@/lib/mfa', () => ({
+  getUserMfaSecret: async () => factors.secret,
+  verifyTotp: (secret: string, token: string) => secret === 'SECRET' && token === '123456',
+  consumeBackupCode: async () => false,
+}))
+vi.mock('@/lib/security/passkeys', () => ({ hasPasskey: async () => factors.passkey }))
+vi.mock('@/lib/security/trusted-devices', () => ({ isCurrentDeviceTrusted: async () => factors.trusted }))
+
+const subject = { userId: 'u1', tenantId: 't1' }
+
+function request(headers: Record<string, string> = {}) {
+  return new NextRequest('http://localhost/api/admin/export', { headers })
+}
+
+describe('step-up assessment', () => {
+  it('should always require a step-up for critical permissions unless already elevated', () => {
+    expect(assessStepUp('critical', { elevated: false, deviceTrusted: true }).required).toBe(true)
+    expect(assessStepUp('critical', { elevated: true, deviceTrusted: false }).required).toBe(false)
+  })
+
+  it('should require one for high-risk permissions only from untrusted devices', () => {
+    expect(assessStepUp('high', { elevated: false, deviceTrusted: false }).required).toBe(true)
+    expect(assessStepUp('high', { elevated: false, deviceTrusted: true }).required).toBe(false)
+    expect(assessStepUp('medium', { elevated: false, deviceTrusted: false }).required).toBe(false)
+  })
+
+  it('should keep an elevation shorter on an untrusted device', () => {
+    expect(stepUpElevationTtl(true)).toBe(15 * 60 * 1000)
+    expect(stepUpElevationTtl(false)).toBe(5 * 60 * 1000)
+  })
+})
+
+describe('elevated session cookie', () => {
+  beforeEach(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret'
+  })
+
+  it('should be valid only for its user and tenant until it expires', () => {
+    const now = Date.now()
+    const token = signElevation(subject, 'webauthn', 60_000, now)
+
+    expect(readElevation(token, subject, now)?.method).toBe('webauthn')
+    expect(readElevation(token, { userId: 'u2', tenantId: 't1' }, now)).toBeNull()
+    expect(readElevation(token, { userId: 'u1', tenantId: 't2' }, now)).toBeNull()
+    expect(readElevation(token, subject, now + 60_000)).toBeNull()
+  })
+
+  it('should reject a tampered payload', () => {
+    const [, signature] = signElevation(subject, 'totp', 60_000).split('.')
+    const forged = Buffer.from(JSON.stringify({ u: 'u1', t: 't1', m: 'totp', exp: Date.now() + 10 ** 9 })).toString('base64url')
+    expect(readElevation(`${forged}.${signature}`, subject)).toBeNull()
+  })
+
+  it('should neither sign nor accept elevations without a secret', () => {
+    const token = signElevation(subject, 'totp', 60_000)
+    delete process.env.NEXTAUTH_SECRET
+
+    expect(() => signElevation(subject, 'totp', 60_000)).toThrow(/NEXTAUTH_SECRET/)
+    expect(readElevation(token, subject)).toBeNull()
+  })
+})
+
+describe('requireStepUp', () => {
+  beforeEach(() => {
+    process.env.NEXTAUTH_SECRET = 'test-secret'
+    Object.assign(factors, { passkey: true, secret: 'SECRET', trusted: false })
+  })
+
+  it('should challenge an export and list the available factors', async () => {
+    const res = await requireStepUp(request(), PERMISSIONS.ANALYTICS_EXPORT, subject)
+
+    expect(res?.status).toBe(401)
+    expect(res?.headers.get('x-step-up-methods')).toBe('webauthn,totp,backup_code')
+  })
+
+  it('should always challenge exports while keeping their listed risk', async () => {
+    expect(PERMISSION_METADATA[PERMISSIONS.USERS_EXPORT].risk).toBe(RiskLevel.LOW)
+    expect(PERMISSION_METADATA[PERMISSIONS.ANALYTICS_EXPORT].risk).toBe(RiskLevel.MEDIUM)
+
+    factors.trusted = true
+    expect((await requireStepUp(request(), PERMISSIONS.USERS_EXPORT, subject))?.status).toBe(401)
+    expect(await requireStepUp(request(), PERMISSIONS.ANALYTICS_VIEW, subject)).toBeNull()
+  })
+
+  it('should let an elevated session or an inline code through', async () => {
+    const cookie = `${ELEVATION_COOKIE}=${signElevation(subject, 'webauthn', 60_000)}`
+    expect(await requireStepUp(request({ cookie }), PERMISSIONS.TAX_FILINGS_SUBMIT, subject)).toBeNull()
+    expect(await requireStepUp(request({ 'x-mfa-otp': '123456' }), PERMISSIONS.USERS_MANAGE, subject)).toBeNull()
+  })
+
+  it('should report how a request stepped up, or the factors it could use', async () => {
+    const cookie = `${ELEVATION_COOKIE}=${signElevation(subject, 'webauthn', 60_000)}`
+    expect(await resolveStepUp(request({ cookie }), subject)).toEqual({ stepUpMethod: 'webauthn', stepUpMethods: [] })
+    expect(await resolveStepUp(request({ 'x-mfa-otp': '123456' }), subject)).toEqual({ stepUpMethod: 'totp', stepUpMethods: [] })
+    expect(await resolveStepUp(request(), subject)).toEqual({ stepUpMethod: null, stepUpMethods: ['webauthn', 'totp', 'backup_code'] })
+  })
+
+  it('should skip high-risk permissions on a trusted device and refuse users without a factor', async () => {
+    factors.trusted = true
+    expect(await requireStepUp(request(), PERMISSIONS.INTEGRATION_HUB_EDIT, subject)).toBeNull()
+
+    Object.assign(factors, { passkey: false, secret: null })
+    const res = await requireStepUp(request(), PERMISSIONS.USERS_EXPORT, subject)
+    expect(res?.status).toBe(403)
+    expect((await res!.json()).code).toBe('STEP_UP_NOT_ENROLLED')
+  })
+})
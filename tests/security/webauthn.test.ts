@@ -0,0 +1,195 @@
+import { describe, it, expect } from 'vitest'
+import crypto from 'crypto'
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  toBase64Url,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+  type RelyingParty,
+} from '@/lib/security/webauthn'
+
+const rp: RelyingParty = { id: 'firm.example', name: 'Firm', origins: ['https://firm.example'] }
+
+// Minimal CBOR encoder: enough to build what an authenticator would send
+function head(major: number, n: number): Buffer {
+  if (n < 24) return Buffer.from([(major << 5) | n])
+  if (n < 256) return Buffer.from([(major << 5) | 24, n])
+  const b = Buffer.alloc(3)
+  b[0] = (major << 5) | 25
+  b.writeUInt16BE(n, 1)
+  return b
+}
+
+function cbor(value: any): Buffer {
+  if (typeof value === 'number') return value >= 0 ? head(0, value) : head(1, -1 - value)
+  if (typeof value === 'string') return Buffer.concat([head(3, Buffer.byteLength(value)), Buffer.from(value)])
+  if (Buffer.isBuffer(value)) return Buffer.concat([head(2, value.length), value])
+  if (value instanceof Map) {
+    const parts = [head(5, value.size)]
+    for (const [k, v] of value) parts.push(cbor(k), cbor(v))
+    return Buffer.concat(parts)
+  }
+  throw new Error('unsupported')
+}
+
+function authenticator(kind: 'ec' | 'ed25519') {
+  const { publicKey, privateKey } =
+    kind === 'ec' ? crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' }) : crypto.generateKeyPairSync('ed25519')
+  const jwk = publicKey.export({ format: 'jwk' }) as any
+  const cose =
+    kind === 'ec'
+      ? new Map<number, any>([[1, 2], [3, -7], [-1, 1], [-2, Buffer.from(jwk.x, 'base64url')], [-3, Buffer.from(jwk.y, 'base64url')]])
+      : new Map<number, any>([[1, 1], [3, -8], [-1, 6], [-2, Buffer.from(jwk.x, 'base64url')]])
+  const credentialId = crypto.randomBytes(16)
+  let counter = 0
+
+  const clientData = (type: string, challenge: string, origin = rp.origins[0]) =>
+    Buffer.from(JSON.stringify({ type, challenge, origin }))
+
+  const authData = (flags: number, signCount: number, attested?: Buffer) => {
+    const count = Buffer.alloc(4)
+    count.writeUInt32BE(signCount)
+    return Buffer.concat([crypto.createHash('sha256').update(rp.id).digest(), Buffer.from([flags]), count, attested ?? Buffer.alloc(0)])
+  }
+
+  return {
+    credentialId: toBase64Url(credentialId),
+    register(challenge: string, flags = 0x45) {
+      const idLength = Buffer.alloc(2)
+      idLength.writeUInt16BE(credentialId.length)
+      const attested = Buffer.concat([Buffer.alloc(16), idLength, credentialId, cbor(cose)])
+      const attestationObject = cbor(new Map<string, any>([['fmt', 'none'], ['attStmt', new Map()], ['authData', authData(flags, 0, attested)]]))
+      return {
+        id: toBase64Url(credentialId),
+        type: 'public-key',
+        response: {
+          clientDataJSON: toBase64Url(clientData('webauthn.create', challenge)),
+          attestationObject: toBase64Url(attestationObject),
+          transports: ['internal'],
+        },
+      }
+    },
+    sign(challenge: string, options: { origin?: string; counter?: number; flags?: number; rpId?: string } = {}) {
+      counter = options.counter ?? counter + 1
+      const data = options.rpId
+        ? Buffer.concat([crypto.createHash('sha256').update(options.rpId).digest(), authData(options.flags ?? 0x05, counter).subarray(32)])
+        : authData(options.flags ?? 0x05, counter)
+      const client = clientData('webauthn.get', challenge, options.origin)
+      const signed = Buffer.concat([data, crypto.createHash('sha256').update(client).digest()])
+      const signature = kind === 'ec' ? crypto.sign('sha256', signed, privateKey) : crypto.sign(null, signed, privateKey)
+      return {
+        id: toBase64Url(credentialId),
+        type: 'public-key',
+        response: {
+          clientDataJSON: toBase64Url(client),
+          authenticatorData: toBase64Url(data),
+          signature: toBase64Url(signature),
+        },
+      }
+    },
+  }
+}
+
+async function failure(fn: () => Promise<unknown>): Promise<string | null> {
+  try {
+    await fn()
+  } catch (error: any) {
+    expect(error.code).toBe('WEBAUTHN_VERIFICATION_FAILED')
+    return error.message
+  }
+  return null
+}
+
+describe('WebAuthn relying party', () => {
+  it('should ask for user verification and exclude keys the user already has', () => {
+    const options = generateRegistrationOptions({
+      rp,
+      user: { id: 'user-1', name: 'ana@firm.example' },
+      excludeCredentials: [{ credentialId: 'abc', transports: ['usb'] }],
+    })
+
+    expect(options.rp).toEqual({ id: 'firm.example', name: 'Firm' })
+    expect(options.authenticatorSelection.userVerification).toBe('required')
+    expect(options.pubKeyCredParams.map((p) => p.alg)).toEqual([-7, -8, -257])
+    expect(options.excludeCredentials).toEqual([{ type: 'public-key', id: 'abc', transports: ['usb'] }])
+    expect(generateAuthenticationOptions({ rp }).allowCredentials).toEqual([])
+  })
+
+  it.each(['ec', 'ed25519'] as const)('should register a %s credential and verify its assertions', async (kind) => {
+    const key = authenticator(kind)
+    const registered = await verifyRegistrationResponse(key.register('reg-challenge'), { challenge: 'reg-challenge', rp })
+
+    expect(registered).toMatchObject({ credentialId: key.credentialId, algorithm: kind === 'ec' ? -7 : -8, signCount: 0, transports: ['internal'] })
+    expect(registered.aaguid).toBe('00000000-0000-0000-0000-000000000000')
+
+    const credential = { ...registered }
+    const first = await verifyAuthenticationResponse(key.sign('auth-1'), { challenge: 'auth-1', credential, rp })
+    expect(first.signCount).toBe(1)
+  })
+
+  it('should reject a registration for another challenge, origin or without user verification', async () => {
+    const key = authenticator('ec')
+
+    expect(await failure(() => verifyRegistrationResponse(key.register('a'), { challenge: 'b', rp }))).toMatch(/challenge/)
+    expect(await failure(() => verifyRegistrationResponse(key.register('a'), { challenge: 'a', rp: { ...rp, origins: ['https://evil.example'] } }))).toMatch(
+      /origin/
+    )
+    expect(await failure(() => verifyRegistrationResponse(key.register('a'), { challenge: 'a', rp: { ...rp, id: 'other.example' } }))).toMatch(
+      /RP ID/
+    )
+    expect(await failure(() => verifyRegistrationResponse(key.register('a', 0x41), { challenge: 'a', rp }))).toMatch(/User verification/)
+  })
+
+  it('should reject malformed CBOR in an attestation object', async () => {
+    const key = authenticator('ec')
+    const truncated = key.register('a')
+    truncated.response.attestationObject = toBase64Url(Buffer.from(truncated.response.attestationObject, 'base64url').subarray(0, 40))
+    const garbage = key.register('a')
+    garbage.response.attestationObject = toBase64Url(Buffer.from([0xff, 0x00, 0x1c]))
+
+    expect(await failure(() => verifyRegistrationResponse(truncated, { challenge: 'a', rp }))).not.toBeNull()
+    expect(await failure(() => verifyRegistrationResponse(garbage, { challenge: 'a', rp }))).not.toBeNull()
+  })
+
+  it('should reject assertions for another relying party or without user verification', async () => {
+    const key = authenticator('ec')
+    const credential = await verifyRegistrationResponse(key.register('r'), { challenge: 'r', rp })
+
+    expect(await failure(() => verifyAuthenticationResponse(key.sign('c1', { rpId: 'other.example' }), { challenge: 'c1', credential, rp }))).toMatch(/RP ID/)
+    expect(await failure(() => verifyAuthenticationResponse(key.sign('c2', { flags: 0x01 }), { challenge: 'c2', credential, rp }))).toMatch(
+      /User verification/
+    )
+  })
+
+  it('should reject forged signatures and counters that go backwards', async () => {
+    const key = authenticator('ec')
+    const credential = await verifyRegistrationResponse(key.register('r'), { challenge: 'r', rp })
+
+    const tampered = key.sign('c1')
+    tampered.response.signature = key.sign('c1').response.signature.slice(0, -4) + 'AAAA'
+    expect(await failure(() => verifyAuthenticationResponse(tampered, { challenge: 'c1', credential, rp }))).not.toBeNull()
+
+    const other = authenticator('ec')
+    const foreign = { ...other.sign('c2'), id: key.credentialId }
+    expect(await failure(() => verifyAuthenticationResponse(foreign, { challenge: 'c2', credential, rp }))).toBe('Invalid signature')
+
+    const replayed = key.sign('c3', { counter: 5 })
+    expect(await failure(() => verifyAuthenticationResponse(replayed, { challenge: 'c3', credential: { ...credential, signCount: 5 }, rp }))).toMatch(
+      /counter/
+    )
+    const rewound = key.sign('c4', { counter: 3 })
+    expect(await failure(() => verifyAuthenticationResponse(rewound, { challenge: 'c4', credential: { ...credential, signCount: 5 }, rp }))).toMatch(
+      /counter/
+    )
+  })
+
+  it('should refuse ceremonies run in a cross-origin frame', async () => {
+    const key = authenticator('ec')
+    const framed = key.register('a')
+    const clientData = JSON.parse(Buffer.from(framed.response.clientDataJSON, 'base64url').toString())
+    framed.response.clientDataJSON = toBase64Url(Buffer.from(JSON.stringify({ ...clientData, crossOrigin: true })))
+
+    expect(await failure(() => verifyRegistrationResponse(framed, { challenge: 'a', rp }))).toBe('Cross-origin ceremonies are not allowed')
+  })
+})
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+
+// In-memory Prisma covering the workflow tables the executor touches
+const db = vi.hoisted(() => ({
+  workflows: new Map<string, any>(),
+  steps: new Map<string, any>(),
+  history: [] as any[],
+  notifications: [] as any[],
+}))
+
+const mockPrisma = vi.hoisted(() => ({
+  userWorkflow: {
+    findUnique: async ({ where }: any) => (db.workflows.has(where.id) ? { ...db.workflows.get(where.id) } : null),
+    update: async ({ where, data }: any) => {
+      const wf = Object.assign(db.workflows.get(where.id), data)
+      return { ...wf }
+    },
+  },
+  workflowStep: {
+    findMany: async ({ where }: any) =>
+      Array.from(db.steps.values())
+        .filter((s) => s.workflowId === where.workflowId)
+        .sort((a, b) => a.stepNumber - b.stepNumber)
+        .map((s) => ({ ...s })),
+    findUnique: async ({ where, include }: any) => {
+      const step = db.steps.get(where.id)
+      if (!step) return null
+      return include?.workflow ? { ...step, workflow: { ...db.workflows.get(step.workflowId) } } : { ...step }
+    },
+    update: async ({ where, data }: any) => {
+      const step = Object.assign(db.steps.get(where.id), data)
+      return { ...step }
+    },
+  },
+  workflowHistory: {
+    create: async ({ data }: any) => {
+      db.history.push(data)
+      return data
+    },
+  },
+  workflowNotification: {
+    create: async ({ data }: any) => {
+      db.notifications.push(data)
+      return data
+    },
+  },
+}))
+
+vi.mock('@/lib/prisma', () => ({
+  default: mockPrisma,
+}))
+
+import {
+  WorkflowExecutorService,
+  compensationOrder,
+  retryPolicyOf,
+  type StepHandler,
+} from '@/services/workflow-executor.service'
+
+function seedWorkflow(steps: Array<{ actionType: string; config?: any; requiresApproval?: boolean }>) {
+  db.workflows.set('wf1', {
+    id: 'wf1',
+    tenantId: 't1',
+    userId: 'subject',
+    status: 'PENDING',
+    triggeredBy: 'admin',
+    startedAt: null,
+    totalSteps: steps.length,
+    completedSteps: 0,
+    progressPercent: 0,
+  })
+  steps.forEach((step, i) => {
+    db.steps.set(`s${i + 1}`, {
+      id: `s${i + 1}`,
+      workflowId: 'wf1',
+      stepNumber: i + 1,
+      name: step.actionType,
+      actionType: step.actionType,
+      status: 'PENDING',
+      config: step.config ?? null,
+      attempts: 0,
+      requiresApproval: step.requiresApproval ?? false,
+      approvedAt: null,
+      compensatedAt: null,
+      output: null,
+    })
+  })
+}
+
+function handler(execute: StepHandler['execute'] = async () => ({ success: true })): StepHandler & { execute: any; rollback: any } {
+  return {
+    execute: vi.fn(execute),
+    rollback: vi.fn(async () => ({ success: true })),
+  }
+}
+
+const events = () => db.history.map((h) => h.eventType)
+
+describe('WorkflowExecutorService', () => {
+  let delays: number[]
+  const wait = async (ms: number) => {
+    delays.push(ms)
+  }
+
+  beforeEach(() => {
+    db.workflows.clear()
+    db.steps.clear()
+    db.history.length = 0
+    db.notifications.length = 0
+    delays = []
+  })
+
+  it('should dispatch each step to its registered handler and record the outcome', async () => {
+    const create = handler(async () => ({ success: true, data: { userId: 'subject', verified: true } }))
+    const provision = handler(async () => ({ success: true, data: { grants: ['g1'] } }))
+    seedWorkflow([{ actionType: 'CREATE_ACCOUNT' }, { actionType: 'PROVISION_ACCESS', config: { permissions: ['invoices.read'] } }])
+
+    const progress = await new WorkflowExecutorService({ CREATE_ACCOUNT: create, PROVISION_ACCESS: provision }, wait).executeWorkflow('wf1')
+
+    expect(progress).toMatchObject({ status: 'COMPLETED', completedSteps: 2, progressPercent: 100 })
+    expect(provision.execute).toHaveBeenCalledWith(
+      expect.objectContaining({ workflowId: 'wf1', stepId: 's2', tenantId: 't1', userId: 'subject', config: { permissions: ['invoices.read'] } })
+    )
+    expect(db.steps.get('s2')).toMatchObject({ status: 'COMPLETED', attempts: 1, output: { grants: ['g1'] } })
+    expect(events()).toEqual(['WORKFLOW_STARTED', 'STEP_COMPLETED', 'STEP_COMPLETED', 'WORKFLOW_COMPLETED'])
+    expect(db.history.every((h) => h.changedBy === 'admin')).toBe(true)
+  })
+
+  it('should retry a failing step with backoff from its retry policy', async () => {
+    let calls = 0
+    const flaky = handler(async () => (++calls < 3 ? { success: false, error: 'timeout' } : { success: true }))
+    seedWorkflow([{ actionType: 'SYNC_PERMISSIONS', config: { retryPolicy: { maxRetries: 3, initialDelayMs: 100, backoffMultiplier: 2 } } }])
+
+    const progress = await new WorkflowExecutorService({ SYNC_PERMISSIONS: flaky }, wait).executeWorkflow('wf1')
+
+    expect(progress.status).toBe('COMPLETED')
+    expect(delays).toEqual([100, 200])
+    expect(db.steps.get('s1')).toMatchObject({ status: 'COMPLETED', attempts: 3 })
+    expect(events().filter((e) => e === 'STEP_RETRY')).toHaveLength(2)
+  })
+
+  it('should roll back completed steps in reverse order when a later step fails', async () => {
+    const order: string[] = []
+    const create = handler(async () => ({ success: true, data: { verified: true } }))
+    const role = handler(async () => ({ success: true, data: { oldRole: 'CLIENT', newRole: 'STAFF' } }))
+    const broken = handler(async () => ({ success: false, error: 'mail server down' }))
+    create.rollback.mockImplementation(async () => (order.push('create'), { success: true }))
+    role.rollback.mockImplementation(async () => (order.push('role'), { success: true }))
+    seedWorkflow([
+      { actionType: 'CREATE_ACCOUNT' },
+      { actionType: 'ASSIGN_ROLE' },
+      { actionType: 'SEND_EMAIL', config: { retryPolicy: { maxRetries: 1, initialDelayMs: 50 } } },
+    ])
+
+    const progress = await new WorkflowExecutorService({ CREATE_ACCOUNT: create, ASSIGN_ROLE: role, SEND_EMAIL: broken }, wait).executeWorkflow('wf1')
+
+    expect(progress.status).toBe('FAILED')
+    expect(broken.execute).toHaveBeenCalledTimes(2)
+    expect(order).toEqual(['role', 'create'])
+    expect(role.rollback).toHaveBeenCalledWith(expect.objectContaining({ output: { oldRole: 'CLIENT', newRole: 'STAFF' } }))
+    expect(broken.rollback).not.toHaveBeenCalled()
+    expect(db.steps.get('s1').compensatedAt).toBeInstanceOf(Date)
+    expect(db.steps.get('s3')).toMatchObject({ status: 'FAILED', errorMessage: 'mail server down' })
+    expect(db.workflows.get('wf1').errorMessage).toContain('mail server down')
+    expect(events().slice(-4)).toEqual(['STEP_FAILED', 'STEP_COMPENSATED', 'STEP_COMPENSATED', 'WORKFLOW_FAILED'])
+  })
+
+  it('should pause on an approval step and resume when it is approved', async () => {
+    const approval = handler(async () => ({ success: true, pending: true, data: { approvers: ['boss@example.com'] } }))
+    const provision = handler()
+    seedWorkflow([{ actionType: 'REQUEST_APPROVAL', config: { approverEmails: ['boss@example.com'] } }, { actionType: 'PROVISION_ACCESS' }])
+    const executor = new WorkflowExecutorService({ REQUEST_APPROVAL: approval, PROVISION_ACCESS: provision }, wait)
+
+    expect((await executor.executeWorkflow('wf1')).status).toBe('PAUSED')
+    expect(db.steps.get('s1').status).toBe('IN_PROGRESS')
+    expect(provision.execute).not.toHaveBeenCalled()
+
+    // Resuming before a decision keeps waiting and does not ask again
+    expect(await executor.resumeWorkflow('wf1')).toBe('PAUSED')
+    expect(approval.execute).toHaveBeenCalledTimes(1)
+
+    expect(await executor.approveStep('s1', 'boss')).toBe('COMPLETED')
+    expect(provision.execute).toHaveBeenCalledTimes(1)
+    expect(db.workflows.get('wf1')).toMatchObject({ status: 'COMPLETED', completedSteps: 2 })
+    expect(events()).toContain('STEP_APPROVED')
+    expect(db.history.at(-1)).toMatchObject({ eventType: 'WORKFLOW_COMPLETED', changedBy: 'boss' })
+  })
+
+  it('should hold a step that requires approval until it is approved, then run it', async () => {
+    const disable = handler()
+    seedWorkflow([{ actionType: 'DISABLE_ACCOUNT', requiresApproval: true, config: { approverEmails: ['hr@example.com'] } }])
+    const executor = new WorkflowExecutorService({ DISABLE_ACCOUNT: disable }, wait)
+
+    expect((await executor.executeWorkflow('wf1')).status).toBe('PAUSED')
+    expect(disable.execute).not.toHaveBeenCalled()
+    expect(db.notifications).toHaveLength(1)
+
+    expect(await executor.approveStep('s1', 'hr')).toBe('COMPLETED')
+    expect(disable.execute).toHaveBeenCalledTimes(1)
+    expect(db.workflows.get('wf1').status).toBe('COMPLETED')
+  })
+
+  it('should fail the workflow and roll back when an approval is rejected', async () => {
+    const create = handler()
+    const approval = handler(async () => ({ success: true, pending: true }))
+    seedWorkflow([{ actionType: 'CREATE_ACCOUNT' }, { actionType: 'REQUEST_APPROVAL', config: { approverEmails: ['boss@example.com'] } }])
+    const executor = new WorkflowExecutorService({ CREATE_ACCOUNT: create, REQUEST_APPROVAL: approval }, wait)
+
+    await executor.executeWorkflow('wf1')
+    expect(await executor.rejectStep('s2', 'boss', 'Not hired')).toBe('FAILED')
+
+    expect(create.rollback).toHaveBeenCalledTimes(1)
+    expect(db.workflows.get('wf1')).toMatchObject({ status: 'FAILED', errorMessage: 'Step "REQUEST_APPROVAL" rejected: Not hired' })
+    expect(events()).toEqual(expect.arrayContaining(['STEP_REJECTED', 'STEP_COMPENSATED', 'WORKFLOW_FAILED']))
+  })
+
+  it('should fail a step with no registered handler', async () => {
+    seedWorkflow([{ actionType: 'UNKNOWN' }])
+
+    const progress = await new WorkflowExecutorService({}, wait).executeWorkflow('wf1')
+
+    expect(progress.status).toBe('FAILED')
+    expect(db.steps.get('s1').errorMessage).toBe('No handler registered for UNKNOWN')
+  })
+
+  it('should read retry policies and order compensation', () => {
+    expect(retryPolicyOf(null)).toEqual({ maxRetries: 0, backoffMultiplier: 1, initialDelayMs: 0 })
+    expect(retryPolicyOf({ retryPolicy: { maxRetries: 2 } })).toEqual({ maxRetries: 2, backoffMultiplier: 2, initialDelayMs: 1000 })
+
+    const steps = [
+      { id: 'a', stepNumber: 1, actionType: 'X', status: 'COMPLETED', requiresApproval: false },
+      { id: 'b', stepNumber: 2, actionType: 'X', status: 'COMPLETED', requiresApproval: false, compensatedAt: new Date() },
+      { id: 'c', stepNumber: 3, actionType: 'X', status: 'COMPLETED', requiresApproval: false },
+      { id: 'd', stepNumber: 4, actionType: 'X', status: 'FAILED', requiresApproval: false },
+    ]
+    expect(compensationOrder(steps).map((s) => s.id)).toEqual(['c', 'a'])
+  })
+})